@@ -0,0 +1,238 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import {
+  AnalyticsRecord,
+  HttpAnalyticsForwarder,
+  MemoryAnalyticsStore,
+  NdjsonAnalyticsStore,
+  createAnalyticsStore,
+} from '../services/analytics-stores';
+import AnalyticsService from '../services/analytics.service';
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+  logUserActivity: jest.fn(),
+  logBusinessEvent: jest.fn(),
+}));
+
+describe('Analytics stores', () => {
+  let directory: string;
+
+  const record = (userId: string, timestamp = new Date()): AnalyticsRecord => ({
+    kind: 'event',
+    userId,
+    sessionId: `session-${userId}`,
+    event: 'property_view',
+    timestamp: timestamp.toISOString(),
+  });
+
+  const segments = () => fs.readdirSync(directory).filter(name => name.endsWith('.ndjson'));
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'analytics-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('NdjsonAnalyticsStore', () => {
+    it('should read back what it wrote, oldest first', async () => {
+      const store = new NdjsonAnalyticsStore({ directory, writerId: 'api-1' });
+      const now = Date.now();
+
+      await store.write([record('user2', new Date(now - 1000)), record('user1', new Date(now - 2000))]);
+
+      const records = await store.query({ from: new Date(now - 60000) });
+      expect(records.map(entry => entry.userId)).toEqual(['user1', 'user2']);
+    });
+
+    it('should start a new segment once the current one is full', async () => {
+      const store = new NdjsonAnalyticsStore({ directory, writerId: 'api-1', segmentBytes: 300 });
+
+      for (let batch = 0; batch < 5; batch++) {
+        await store.write([record(`user${batch}`), record(`user${batch}`)]);
+      }
+
+      expect(segments().length).toBeGreaterThan(1);
+      expect(await store.query({ from: new Date(Date.now() - 60000) })).toHaveLength(10);
+    });
+
+    it('should share one directory between replicas', async () => {
+      const first = new NdjsonAnalyticsStore({ directory, writerId: 'api-1' });
+      const second = new NdjsonAnalyticsStore({ directory, writerId: 'api-2' });
+
+      await first.write([record('user1')]);
+      await second.write([record('user2')]);
+
+      expect(segments()).toHaveLength(2);
+      for (const store of [first, second]) {
+        const records = await store.query({ from: new Date(Date.now() - 60000) });
+        expect(records.map(entry => entry.userId).sort()).toEqual(['user1', 'user2']);
+      }
+    });
+
+    it('should filter by user and kind', async () => {
+      const store = new NdjsonAnalyticsStore({ directory, writerId: 'api-1' });
+      await store.write([record('user1'), record('user2'), { ...record('user1'), kind: 'pageView' }]);
+
+      const records = await store.query({ from: new Date(Date.now() - 60000), userId: 'user1', kinds: ['event'] });
+      expect(records).toHaveLength(1);
+    });
+
+    it('should skip a line cut short by a crash', async () => {
+      const store = new NdjsonAnalyticsStore({ directory, writerId: 'api-1' });
+      await store.write([record('user1')]);
+      fs.appendFileSync(path.join(directory, segments()[0]), '{"kind":"event","timest');
+
+      expect(await store.query({ from: new Date(Date.now() - 60000) })).toHaveLength(1);
+    });
+
+    it('should delete segments past the retention period', async () => {
+      const old = path.join(directory, `analytics-${Date.now() - 100 * 86400000}-api-0.ndjson`);
+      fs.writeFileSync(old, JSON.stringify(record('user0')) + '\n');
+      const longAgo = new Date(Date.now() - 100 * 86400000);
+      fs.utimesSync(old, longAgo, longAgo);
+
+      const store = new NdjsonAnalyticsStore({ directory, writerId: 'api-1', retentionDays: 90 });
+      await store.write([record('user1')]);
+
+      expect(fs.existsSync(old)).toBe(false);
+      expect(segments()).toHaveLength(1);
+    });
+  });
+
+  describe('createAnalyticsStore', () => {
+    it('should reject an unknown store', () => {
+      expect(() => createAnalyticsStore('kafka')).toThrow('Unknown analytics store "kafka", expected one of: ndjson, memory');
+    });
+  });
+
+  describe('HttpAnalyticsForwarder', () => {
+    let server: http.Server;
+    let url: string;
+    let responses: number[];
+    let received: any[];
+
+    beforeEach(async () => {
+      responses = [];
+      received = [];
+
+      const app = express();
+      app.use(express.json());
+      app.post('/collect', (req, res) => {
+        received.push(req.body);
+        res.status(responses.shift() ?? 200).end();
+      });
+
+      server = app.listen(0);
+      await new Promise(resolve => server.once('listening', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/collect`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should retry server errors until the batch is accepted', async () => {
+      responses = [503, 503, 200];
+      const forwarder = new HttpAnalyticsForwarder({ url, backoffMs: 1 });
+
+      await forwarder.write([record('user1')]);
+
+      expect(received).toHaveLength(3);
+      expect(received[2].records[0].userId).toBe('user1');
+    });
+
+    it('should not retry a rejected batch', async () => {
+      responses = [400];
+      const forwarder = new HttpAnalyticsForwarder({ url, backoffMs: 1 });
+
+      await expect(forwarder.write([record('user1')])).rejects.toThrow();
+      expect(received).toHaveLength(1);
+    });
+
+    it('should give up after the last attempt', async () => {
+      responses = [500, 500, 500];
+      const forwarder = new HttpAnalyticsForwarder({ url, attempts: 3, backoffMs: 1 });
+
+      await expect(forwarder.write([record('user1')])).rejects.toThrow();
+      expect(received).toHaveLength(3);
+    });
+  });
+
+  describe('AnalyticsService', () => {
+    const analytics = AnalyticsService.getInstance();
+
+    afterEach(() => {
+      analytics.setStore(new MemoryAnalyticsStore());
+      analytics.setForwarder(null);
+    });
+
+    it('should build the user journey from records written by other replicas', async () => {
+      const replica = new NdjsonAnalyticsStore({ directory, writerId: 'api-2' });
+      await replica.write([record('user1', new Date(Date.now() - 60000))]);
+
+      analytics.setStore(new NdjsonAnalyticsStore({ directory, writerId: 'api-1' }));
+      analytics.trackEvent({ userId: 'user1', sessionId: 'session-user1', event: 'search', properties: {} });
+
+      const journey = await analytics.getUserJourney('user1', '1h');
+      expect(journey.summary.totalEvents).toBe(2);
+      expect(journey.activities.map((activity: any) => activity.event)).toEqual(['property_view', 'search']);
+    });
+
+    it('should keep a batch the store failed to write', async () => {
+      const store = new MemoryAnalyticsStore();
+      const write = jest.spyOn(store, 'write').mockRejectedValueOnce(new Error('disk full'));
+      analytics.setStore(store);
+
+      analytics.trackEvent({ userId: 'user2', sessionId: 'session-user2', event: 'search', properties: {} });
+      await expect(analytics.flush()).rejects.toThrow('disk full');
+      await analytics.flush();
+
+      expect(write).toHaveBeenCalledTimes(2);
+      expect(await store.query({ from: new Date(Date.now() - 60000), userId: 'user2' })).toHaveLength(1);
+    });
+
+    it('should forward batches after storing them', async () => {
+      const forwarder = { name: 'test', write: jest.fn().mockResolvedValue(undefined) };
+      analytics.setForwarder(forwarder);
+
+      analytics.trackEvent({ userId: 'user3', sessionId: 'session-user3', event: 'search', properties: {} });
+      await analytics.flush();
+
+      expect(forwarder.write).toHaveBeenCalledWith([expect.objectContaining({ kind: 'event', userId: 'user3' })]);
+    });
+
+    it('should not queue more flushes while the store is still writing', async () => {
+      const store = new MemoryAnalyticsStore();
+      let release: () => void = () => undefined;
+      const write = jest.spyOn(store, 'write')
+        .mockImplementationOnce(() => new Promise<void>(resolve => { release = resolve; }));
+      analytics.setStore(store);
+
+      for (let i = 0; i < 1200; i++) {
+        analytics.trackEvent({ userId: 'user4', sessionId: 'session-user4', event: 'search', properties: {} });
+      }
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(write).toHaveBeenCalledTimes(1);
+
+      release();
+      await analytics.flush();
+
+      expect(write).toHaveBeenCalledTimes(2);
+      expect(await store.query({ from: new Date(Date.now() - 60000), userId: 'user4' })).toHaveLength(700);
+    });
+  });
+});
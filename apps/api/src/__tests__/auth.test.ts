@@ -4,7 +4,9 @@ import jwt from 'jsonwebtoken';
 import { prisma } from '@eu-real-estate/database';
 import { UserRole } from '@eu-real-estate/database';
 import { TokenService } from '../services/token.service';
-import app from '../main';
+import { createApp } from '../app';
+
+const app = createApp();
 
 // Mock email service
 jest.mock('../services/email.service', () => ({
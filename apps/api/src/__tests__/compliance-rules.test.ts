@@ -0,0 +1,176 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import { UserRole, PropertyType, ListingType, PropertyStatus } from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { ComplianceRulePackService } from '../services/compliance-rule-pack.service';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Compliance Rule Packs', () => {
+  describe('rule pack registry', () => {
+    it('should load every shipped pack', () => {
+      const packs = ComplianceRulePackService.loadPacks();
+
+      expect(packs.map(pack => `${pack.country}@${pack.version}`).sort()).toEqual([
+        'DE@1', 'ES@1', 'FR@1', 'IT@1', 'NL@1', 'PL@1', 'PL@2', 'PT@1',
+      ]);
+      expect(ComplianceRulePackService.validatePackSet(packs)).toEqual([]);
+    });
+
+    it('should report schema errors in a pack', () => {
+      const { pack, errors } = ComplianceRulePackService.validatePack({
+        country: 'PL',
+        version: 0,
+        effectiveFrom: 'soon',
+        rules: [{
+          id: 'pl_bad',
+          propertyType: 'CASTLE',
+          listingType: ListingType.SALE,
+          validationRules: [{ field: 'energyRating', type: 'enum', message: 'Missing values' }],
+        }],
+      }, 'pl-bad.json');
+
+      expect(pack).toBeNull();
+      expect(errors).toEqual(expect.arrayContaining([
+        expect.stringContaining('"version"'),
+        expect.stringContaining('"effectiveFrom"'),
+        expect.stringContaining('propertyType'),
+        expect.stringContaining('value'),
+      ]));
+      expect(errors.every(error => error.startsWith('pl-bad.json: '))).toBe(true);
+    });
+
+    it('should skip invalid and conflicting packs', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'compliance-rules-'));
+      const rules = [{ id: 'pt_sale', propertyType: PropertyType.HOUSE, listingType: ListingType.SALE }];
+
+      const writePack = (file: string, pack: object) =>
+        fs.writeFileSync(path.join(directory, file), JSON.stringify(pack));
+
+      writePack('pt-v1.json', { country: 'PT', version: 1, effectiveFrom: '2025-01-01', rules });
+      writePack('pt-v1-copy.json', { country: 'PT', version: 1, effectiveFrom: '2025-06-01', rules });
+      writePack('pt-v2.json', { country: 'PT', version: 2, effectiveFrom: '2024-01-01', rules });
+      writePack('pt-v3.json', { country: 'PT', version: 3, effectiveFrom: '2026-01-01', rules: [] });
+      fs.writeFileSync(path.join(directory, 'nl-v1.yaml'), 'country: nl\nversion: 1\neffectiveFrom: 2024-01-01\nrules:\n  - id: nl_sale\n    propertyType: HOUSE\n    listingType: SALE\n');
+      fs.writeFileSync(path.join(directory, 'broken.json'), '{');
+
+      const packs = ComplianceRulePackService.loadPacks(directory);
+      fs.rmSync(directory, { recursive: true, force: true });
+
+      expect(packs.map(pack => pack.source)).toEqual(['nl-v1.yaml']);
+      expect(packs[0].rules[0]).toEqual(expect.objectContaining({ country: 'NL', requiredFields: [] }));
+    });
+  });
+
+  describe('versions', () => {
+    it('should pick the pack in force on a date', () => {
+      expect(ComplianceRulePackService.getActivePack('pl', new Date('2026-10-19'))?.version).toBe(1);
+      expect(ComplianceRulePackService.getActivePack('PL', new Date('2027-01-01'))?.version).toBe(2);
+      expect(ComplianceRulePackService.getActivePack('PL', new Date('2023-01-01'))).toBeNull();
+    });
+
+    it('should report upcoming and superseded versions', () => {
+      const statuses = (at: Date) => ComplianceRulePackService.listPacks('PL', at).map(pack => pack.status);
+
+      expect(statuses(new Date('2026-10-19'))).toEqual(['active', 'upcoming']);
+      expect(statuses(new Date('2027-02-01'))).toEqual(['superseded', 'active']);
+    });
+
+    it('should include the Polish and Portuguese energy certificate rules', () => {
+      const pl = ComplianceRulePackService.getPack('PL', 1);
+      const pt = ComplianceRulePackService.getPack('PT', 1);
+
+      expect(pl.rules.every(rule => rule.requiredDocuments.includes('energy_certificate'))).toBe(true);
+      expect(pt.rules.some(rule => rule.validationRules.some(
+        validationRule => validationRule.field === 'energyRating' && validationRule.type === 'enum'
+      ))).toBe(true);
+    });
+  });
+
+  describe('admin API', () => {
+    let adminToken: string;
+    let agentToken: string;
+    let propertyId: string;
+
+    beforeEach(async () => {
+      await prisma.propertyAddress.deleteMany();
+      await prisma.property.deleteMany();
+      await prisma.user.deleteMany();
+
+      const admin = await createTestUser('admin@example.com', UserRole.ADMIN);
+      const agent = await createTestUser('agent@example.com', UserRole.AGENT);
+
+      adminToken = admin.token;
+      agentToken = agent.token;
+
+      // A Polish rating from the current scale, outside the draft A-G classes
+      const property = await prisma.property.create({
+        data: {
+          title: 'Mieszkanie w Krakowie',
+          description: 'Apartment in the old town',
+          price: 650000,
+          propertyType: PropertyType.APARTMENT,
+          listingType: ListingType.SALE,
+          status: PropertyStatus.DRAFT,
+          ownerId: agent.id,
+          energyRating: 'A+',
+          address: {
+            create: {
+              street: 'ul. Floriańska 10',
+              city: 'Kraków',
+              postcode: '31-019',
+              country: 'PL',
+            },
+          },
+        },
+      });
+      propertyId = property.id;
+    });
+
+    it('should only list rule packs for admins', async () => {
+      await request(app).get('/api/compliance/rules').expect(401);
+
+      await request(app)
+        .get('/api/compliance/rules')
+        .set('Authorization', `Bearer ${agentToken}`)
+        .expect(403);
+
+      const response = await request(app)
+        .get('/api/compliance/rules?country=PL&at=2026-10-19')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.packs).toEqual([
+        expect.objectContaining({ country: 'PL', version: 1, status: 'active' }),
+        expect.objectContaining({ country: 'PL', version: 2, status: 'upcoming' }),
+      ]);
+      expect(response.body.data.supportedCountries).toEqual(expect.arrayContaining(['PL', 'PT']));
+    });
+
+    it('should return 404 for an unknown pack version', async () => {
+      const response = await request(app)
+        .get('/api/compliance/rules/PT/9')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+
+      expect(response.body.error.code).toBe('RULE_PACK_NOT_FOUND');
+    });
+
+    it('should preview a property against an upcoming version', async () => {
+      const response = await request(app)
+        .get(`/api/compliance/properties/${propertyId}/preview?version=2`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.country).toBe('PL');
+      expect(response.body.data.preview.rulePack.version).toBe(2);
+      expect(response.body.data.newViolations).toEqual([
+        expect.objectContaining({ field: 'energyRating', rule: 'pl_residential_sale' }),
+      ]);
+    });
+  });
+});
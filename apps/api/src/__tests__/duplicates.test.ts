@@ -0,0 +1,246 @@
+import request from 'supertest';
+import { PNG } from 'pngjs';
+import { prisma } from '@eu-real-estate/database';
+import { UserRole, PropertyType, ListingType, PropertyStatus, DuplicateCandidateStatus } from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { DuplicateDetectionService } from '../services/duplicate-detection.service';
+import { AddressNormalizer } from '../utils/address-normalizer';
+import { PerceptualHash } from '../utils/perceptual-hash';
+import { createApp } from '../app';
+
+const app = createApp();
+
+// Wavy test pattern; frequency changes the picture
+const createPhoto = (width: number, height: number, frequency: number): Buffer => {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const value = Math.floor(128 + 100 * Math.sin((x / width) * frequency) * Math.cos((y / height) * (frequency + 1)));
+      png.data[offset] = value;
+      png.data[offset + 1] = 255 - value;
+      png.data[offset + 2] = Math.floor((x * 255) / width);
+      png.data[offset + 3] = 255;
+    }
+  }
+  return PNG.sync.write(png);
+};
+
+describe('Duplicate listings', () => {
+  let firstAgentId: string;
+  let secondAgentId: string;
+  let adminToken: string;
+  let agentToken: string;
+
+  const createListing = (
+    ownerId: string,
+    data: { street: string; floorArea?: number; bedrooms?: number; latitude?: number; longitude?: number; photo?: Buffer; createdAt?: Date }
+  ) =>
+    prisma.property.create({
+      data: {
+        title: `Flat at ${data.street}`,
+        description: 'Listing used by the duplicate detection tests',
+        price: 450000,
+        priceEur: 450000,
+        propertyType: PropertyType.APARTMENT,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.ACTIVE,
+        ownerId,
+        createdAt: data.createdAt,
+        address: { create: { street: data.street, city: 'Wien', postcode: '1010', country: 'AT' } },
+        location: data.latitude ? { create: { latitude: data.latitude, longitude: data.longitude! } } : undefined,
+        features: { create: { floorArea: data.floorArea ?? 72, bedrooms: data.bedrooms ?? 2 } },
+        images: data.photo
+          ? { create: { url: 'https://example.com/photo.png', perceptualHash: PerceptualHash.fromImage(data.photo) } }
+          : undefined,
+      },
+    });
+
+  beforeEach(async () => {
+    await prisma.propertyDuplicateCandidate.deleteMany();
+    await prisma.auditLog.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const firstAgent = await createTestUser('anna@example.com', UserRole.AGENT, { firstName: 'Anna', lastName: 'Agent' });
+    const secondAgent = await createTestUser('bernd@example.com', UserRole.AGENT, { firstName: 'Bernd', lastName: 'Agent' });
+    const admin = await createTestUser('admin@example.com', UserRole.ADMIN, { firstName: 'Admin', lastName: 'Agent' });
+    firstAgentId = firstAgent.id;
+    secondAgentId = secondAgent.id;
+    adminToken = admin.token;
+    agentToken = firstAgent.token;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('matching', () => {
+    it('should normalize addresses written differently', () => {
+      expect(AddressNormalizer.similarity(
+        { street: 'Hauptstr. 12/3', city: 'Wien', postcode: '1010' },
+        { street: 'Hauptstraße 12, Top 3', city: 'Wien', postcode: '1010' }
+      )).toBe(1);
+      expect(AddressNormalizer.similarity(
+        { street: 'Hauptstraße 12', city: 'Wien', postcode: '1010' },
+        { street: 'Hauptstraße 14', city: 'Wien', postcode: '1010' }
+      )).toBe(0);
+    });
+
+    it('should hash resized copies of a photo alike', () => {
+      const original = PerceptualHash.fromImage(createPhoto(400, 300, 5))!;
+
+      expect(PerceptualHash.distance(original, PerceptualHash.fromImage(createPhoto(200, 150, 5))!)).toBeLessThanOrEqual(6);
+      expect(PerceptualHash.distance(original, PerceptualHash.fromImage(createPhoto(400, 300, 9))!)).toBeGreaterThan(16);
+      expect(PerceptualHash.fromImage(Buffer.from('not an image'))).toBeNull();
+    });
+
+    it('should not decode a PNG too large to hash', () => {
+      const photo = createPhoto(40, 30, 5);
+      // Header claiming 100000 x 100000 pixels
+      photo.writeUInt32BE(100000, 16);
+      photo.writeUInt32BE(100000, 20);
+      const read = jest.spyOn(PNG.sync, 'read');
+
+      expect(PerceptualHash.fromImage(photo)).toBeNull();
+      expect(read).not.toHaveBeenCalled();
+    });
+
+    it('should queue the same flat listed by two agents', async () => {
+      const photo = createPhoto(400, 300, 5);
+      const original = await createListing(firstAgentId, {
+        street: 'Hauptstraße 12, Top 3',
+        latitude: 48.2082,
+        longitude: 16.3738,
+        photo,
+        createdAt: new Date('2026-09-01T00:00:00.000Z'),
+      });
+      const relisted = await createListing(secondAgentId, {
+        street: 'Hauptstr. 12/3',
+        floorArea: 73,
+        latitude: 48.20825,
+        longitude: 16.37385,
+        photo: createPhoto(200, 150, 5),
+      });
+      // Another flat in the same building
+      await createListing(secondAgentId, { street: 'Hauptstraße 12, Top 7', floorArea: 95, bedrooms: 3, latitude: 48.2082, longitude: 16.3738 });
+
+      const matches = await DuplicateDetectionService.checkProperty(relisted.id);
+
+      expect(matches).toEqual([{ matchId: original.id, score: expect.any(Number) }]);
+      expect(matches[0].score).toBeGreaterThanOrEqual(0.9);
+
+      const candidates = await prisma.propertyDuplicateCandidate.findMany();
+      expect(candidates).toHaveLength(1);
+      // The older listing is stored as the original
+      expect(candidates[0]).toMatchObject({ propertyId: original.id, matchId: relisted.id, status: DuplicateCandidateStatus.PENDING });
+      expect(JSON.parse(candidates[0].signals)).toMatchObject({ address: 1, geo: 1, area: 1, rooms: 1, images: 1 });
+    });
+
+    it('should drop a pending pair once the listings no longer match', async () => {
+      const original = await createListing(firstAgentId, { street: 'Hauptstraße 12, Top 3' });
+      const relisted = await createListing(secondAgentId, { street: 'Hauptstr. 12/3' });
+      await DuplicateDetectionService.checkProperty(relisted.id);
+
+      await prisma.propertyFeatures.update({ where: { propertyId: original.id }, data: { bedrooms: 4 } });
+      await DuplicateDetectionService.checkProperty(original.id);
+
+      expect(await prisma.propertyDuplicateCandidate.count()).toBe(0);
+    });
+  });
+
+  describe('review queue', () => {
+    let originalId: string;
+    let relistedId: string;
+    let candidateId: string;
+
+    beforeEach(async () => {
+      const original = await createListing(firstAgentId, {
+        street: 'Hauptstraße 12, Top 3',
+        createdAt: new Date('2026-09-01T00:00:00.000Z'),
+      });
+      const relisted = await createListing(secondAgentId, { street: 'Hauptstr. 12/3' });
+      originalId = original.id;
+      relistedId = relisted.id;
+
+      await DuplicateDetectionService.checkProperty(relistedId);
+      candidateId = (await prisma.propertyDuplicateCandidate.findFirstOrThrow()).id;
+    });
+
+    it('should list pending pairs for admins only', async () => {
+      await request(app)
+        .get('/api/duplicates')
+        .set('Authorization', `Bearer ${agentToken}`)
+        .expect(403);
+
+      const response = await request(app)
+        .get('/api/duplicates')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.pagination.total).toBe(1);
+      const [candidate] = response.body.data.data;
+      expect(candidate.property.id).toBe(originalId);
+      expect(candidate.match.owner.firstName).toBe('Bernd');
+      expect(candidate.signals.address).toBe(1);
+    });
+
+    it('should merge confirmed duplicates into one search result listing every agent', async () => {
+      const response = await request(app)
+        .patch(`/api/duplicates/${candidateId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ decision: 'CONFIRM' })
+        .expect(200);
+
+      expect(response.body.data).toEqual({ id: candidateId, status: DuplicateCandidateStatus.CONFIRMED, originalId });
+      expect((await prisma.property.findUnique({ where: { id: relistedId } }))!.duplicateOfId).toBe(originalId);
+
+      const search = await request(app)
+        .get('/api/properties')
+        .expect(200);
+
+      expect(search.body.data.properties.map((property: any) => property.id)).toEqual([originalId]);
+      expect(search.body.data.properties[0].agents.map((agent: any) => [agent.propertyId, agent.name])).toEqual([
+        [originalId, 'Anna Agent'],
+        [relistedId, 'Bernd Agent'],
+      ]);
+
+      await request(app)
+        .patch(`/api/duplicates/${candidateId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ decision: 'DISMISS' })
+        .expect(409);
+    });
+
+    it('should keep the listing the admin picks as the original', async () => {
+      await request(app)
+        .patch(`/api/duplicates/${candidateId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ decision: 'CONFIRM', originalId: relistedId })
+        .expect(200);
+
+      expect((await prisma.property.findUnique({ where: { id: originalId } }))!.duplicateOfId).toBe(relistedId);
+    });
+
+    it('should not queue a dismissed pair again', async () => {
+      await request(app)
+        .patch(`/api/duplicates/${candidateId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ decision: 'DISMISS' })
+        .expect(200);
+
+      await DuplicateDetectionService.checkProperty(relistedId);
+
+      const response = await request(app)
+        .get('/api/duplicates')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(response.body.data.pagination.total).toBe(0);
+
+      const search = await request(app)
+        .get('/api/properties')
+        .expect(200);
+      expect(search.body.data.total).toBe(2);
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import request from 'supertest';
 import { testPrisma, setupMocks } from './setup';
-import app from '../main';
+import { createApp } from '../app';
+
+const app = createApp();
 
 // Setup mocks
 setupMocks();
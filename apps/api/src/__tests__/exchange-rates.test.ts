@@ -0,0 +1,189 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import { UserRole, PropertyType, ListingType, PropertyStatus, OutboxEventStatus } from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import { LocalizationService } from '../services/localization.service';
+import {
+  ExchangeRateProvider,
+  ExchangeRateSnapshot,
+  FileExchangeRateProvider,
+  createExchangeRateProvider,
+} from '../services/exchange-rate-providers';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Exchange rates', () => {
+  const snapshot: ExchangeRateSnapshot = {
+    date: new Date('2026-10-16T00:00:00.000Z'),
+    rates: { PLN: 4, GBP: 0.85 },
+    source: 'test',
+  };
+
+  const staticProvider: ExchangeRateProvider = {
+    name: 'test',
+    fetchRates: async () => snapshot,
+  };
+
+  let ownerId: string;
+  let agentToken: string;
+
+  const createListing = (title: string, price: number, currency: string) =>
+    prisma.property.create({
+      data: {
+        title,
+        description: 'Listing used by the exchange rate tests',
+        price,
+        currency,
+        propertyType: PropertyType.APARTMENT,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.ACTIVE,
+        ownerId,
+        address: { create: { street: 'Floriańska 5', city: 'Kraków', postcode: '31-019', country: 'PL' } },
+      },
+    });
+
+  beforeEach(async () => {
+    ExchangeRateService.setProvider(staticProvider);
+
+    await prisma.exchangeRate.deleteMany();
+    await prisma.outboxEvent.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const owner = await createTestUser('agent@example.com', UserRole.AGENT);
+    ownerId = owner.id;
+    agentToken = owner.token;
+  });
+
+  describe('providers', () => {
+    it('should read the bundled rate file', async () => {
+      const { date, rates, source } = await new FileExchangeRateProvider().fetchRates();
+
+      expect(source).toBe('file');
+      expect(date.toISOString()).toMatch(/T00:00:00.000Z$/);
+      expect(rates.PLN).toBeGreaterThan(0);
+    });
+
+    it('should reject a rate file that is not quoted in euros', async () => {
+      const file = path.join(os.tmpdir(), `exchange-rates-${Date.now()}.json`);
+      fs.writeFileSync(file, JSON.stringify({ date: '2026-10-16', base: 'USD', rates: { EUR: 0.92 } }));
+
+      try {
+        await expect(new FileExchangeRateProvider(file).fetchRates()).rejects.toThrow('Invalid exchange rate file');
+      } finally {
+        fs.unlinkSync(file);
+      }
+    });
+
+    it('should select the provider by name', () => {
+      expect(createExchangeRateProvider('file')).toBeInstanceOf(FileExchangeRateProvider);
+      expect(() => createExchangeRateProvider('oanda')).toThrow('Unknown exchange rate provider');
+    });
+  });
+
+  describe('ExchangeRateService', () => {
+    it('should store a daily snapshot and reprice listings in other currencies', async () => {
+      const listing = await createListing('Flat in Kraków old town', 380000, 'PLN');
+
+      await ExchangeRateService.refreshRates();
+      await ExchangeRateService.refreshRates();
+
+      const stored = await prisma.exchangeRate.findMany({ orderBy: { currency: 'asc' } });
+      expect(stored.map(row => [row.currency, row.rate])).toEqual([['GBP', 0.85], ['PLN', 4]]);
+
+      const repriced = await prisma.property.findUnique({ where: { id: listing.id } });
+      expect(repriced!.priceEur).toBe(95000);
+
+      // Unchanged prices are not queued for reindexing again
+      const events = await prisma.outboxEvent.findMany({ where: { aggregateId: listing.id } });
+      expect(events).toHaveLength(1);
+      expect(events[0].status).toBe(OutboxEventStatus.PENDING);
+    });
+
+    it('should report unavailable rates when the provider fails', async () => {
+      ExchangeRateService.setProvider({ name: 'broken', fetchRates: () => Promise.reject(new Error('Rates unavailable')) });
+
+      await expect(ExchangeRateService.refreshRates()).rejects.toMatchObject({ statusCode: 503 });
+      expect(await ExchangeRateService.getEuroPrice(100, 'PLN')).toBeNull();
+      expect(await ExchangeRateService.getEuroPrice(100, 'EUR')).toBe(100);
+    });
+  });
+
+  describe('euro price search', () => {
+    it('should filter on the converted price', async () => {
+      const created = await request(app)
+        .post('/api/properties')
+        .set('Authorization', `Bearer ${agentToken}`)
+        .send({
+          title: 'Flat in Kraków old town',
+          description: 'Compact flat close to the Rynek, renovated last year with a new kitchen.',
+          price: 380000,
+          currency: 'PLN',
+          propertyType: PropertyType.APARTMENT,
+          listingType: ListingType.SALE,
+          address: { street: 'Floriańska 5', city: 'Kraków', postcode: '31-019', country: 'PL' },
+        })
+        .expect(201);
+      expect(created.body.data.property.priceEur).toBe(95000);
+
+      await prisma.property.update({ where: { id: created.body.data.property.id }, data: { status: PropertyStatus.ACTIVE } });
+      const euroListing = await createListing('Apartment in Wrocław', 350000, 'EUR');
+
+      const budget = await request(app)
+        .get('/api/properties')
+        .query({ minPrice: 300000, maxPrice: 400000 })
+        .expect(200);
+      expect(budget.body.data.properties.map((property: any) => property.id)).toEqual([euroListing.id]);
+
+      const cheap = await request(app)
+        .get('/api/properties')
+        .query({ maxPrice: 100000 })
+        .expect(200);
+      expect(cheap.body.data.properties.map((property: any) => property.id)).toEqual([created.body.data.property.id]);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should show the converted amount followed by the original', () => {
+      const formatted = LocalizationService.formatCurrency(380000, 'DE', 'de', { currency: 'EUR', from: 'PLN', rates: snapshot.rates });
+
+      expect(formatted).toMatch(/^95\.000\s€ \(380\.000\sPLN\)$/);
+      expect(LocalizationService.formatCurrency(380000, 'DE', 'de', { from: 'CZK', rates: snapshot.rates }))
+        .toMatch(/^380\.000\sCZK$/);
+    });
+
+    it('should use the user\'s currency in their localization context', async () => {
+      await prisma.user.update({ where: { id: ownerId }, data: { currency: 'GBP' } });
+
+      const context = await LocalizationService.getUserLocalizationContext(ownerId);
+      expect(context.currency).toBe('GBP');
+    });
+
+    it('should return the latest snapshot', async () => {
+      const response = await request(app)
+        .get('/api/localization/exchange-rates')
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        date: '2026-10-16T00:00:00.000Z',
+        base: 'EUR',
+        rates: { PLN: 4, GBP: 0.85 },
+        source: 'test',
+      });
+    });
+
+    it('should format an amount in another currency', async () => {
+      const response = await request(app)
+        .post('/api/localization/format/currency')
+        .send({ amount: 380000, country: 'DE', language: 'de', fromCurrency: 'PLN' })
+        .expect(200);
+
+      expect(response.body.data.formatted).toMatch(/^95\.000\s€ \(380\.000\sPLN\)$/);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import { UserRole, PropertyType, ListingType, PropertyStatus, GeoAreaKind, GeoPolygon } from '@eu-real-estate/database';
+import { PropertySearchService } from '@eu-real-estate/search';
+import { createTestUser } from './setup';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Geo areas and area search', () => {
+  const mitte: GeoPolygon = {
+    type: 'Polygon',
+    coordinates: [[[13.33, 52.502], [13.429, 52.502], [13.429, 52.55], [13.33, 52.55], [13.33, 52.502]]],
+  };
+  const kreuzberg: GeoPolygon = {
+    type: 'Polygon',
+    coordinates: [[[13.382, 52.483], [13.49, 52.483], [13.49, 52.50], [13.382, 52.50], [13.382, 52.483]]],
+  };
+
+  let mitteId: string;
+  let mitteListingId: string;
+  let kreuzbergListingId: string;
+
+  const createListing = (ownerId: string, title: string, latitude: number, longitude: number) =>
+    prisma.property.create({
+      data: {
+        title,
+        description: 'Listing used by the area search tests',
+        price: 450000,
+        propertyType: PropertyType.APARTMENT,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.ACTIVE,
+        ownerId,
+        address: { create: { street: 'Teststraße 1', city: 'Berlin', postcode: '10117', country: 'DE' } },
+        location: { create: { latitude, longitude } },
+      },
+    });
+
+  beforeEach(async () => {
+    await prisma.geoArea.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const owner = await createTestUser('agent@example.com', UserRole.AGENT);
+
+    const area = await prisma.geoArea.create({
+      data: { slug: 'de-berlin-mitte', name: 'Mitte', country: 'DE', city: 'Berlin', boundary: JSON.stringify(mitte) },
+    });
+    await prisma.geoArea.create({
+      data: {
+        slug: 'de-berlin-friedrichshain-kreuzberg',
+        name: 'Friedrichshain-Kreuzberg',
+        country: 'DE',
+        city: 'Berlin',
+        boundary: JSON.stringify(kreuzberg),
+      },
+    });
+    await prisma.geoArea.create({
+      data: { slug: 'pt-lisbon', name: 'Lisbon', kind: GeoAreaKind.CITY, country: 'PT', city: 'Lisbon', boundary: '{}' },
+    });
+
+    mitteId = area.id;
+    mitteListingId = (await createListing(owner.id, 'Flat near the Brandenburg Gate', 52.5163, 13.3777)).id;
+    kreuzbergListingId = (await createListing(owner.id, 'Loft on the Landwehr Canal', 52.4960, 13.4200)).id;
+  });
+
+  describe('GET /api/geo/areas', () => {
+    it('should list stored boundaries as GeoJSON features', async () => {
+      const response = await request(app)
+        .get('/api/geo/areas')
+        .query({ country: 'de' })
+        .expect(200);
+
+      const { areas } = response.body.data;
+      expect(areas.type).toBe('FeatureCollection');
+      expect(areas.features.map((feature: any) => feature.properties.name)).toEqual(['Friedrichshain-Kreuzberg', 'Mitte']);
+      expect(areas.features[1]).toMatchObject({
+        type: 'Feature',
+        id: mitteId,
+        properties: { slug: 'de-berlin-mitte', kind: GeoAreaKind.DISTRICT, country: 'DE', city: 'Berlin' },
+        geometry: mitte,
+      });
+    });
+
+    it('should skip areas with unreadable boundaries', async () => {
+      const response = await request(app)
+        .get('/api/geo/areas')
+        .query({ country: 'PT' })
+        .expect(200);
+
+      expect(response.body.data.areas.features).toEqual([]);
+    });
+
+    it('should return a single area', async () => {
+      const response = await request(app).get(`/api/geo/areas/${mitteId}`).expect(200);
+
+      expect(response.body.data.area.properties.name).toBe('Mitte');
+    });
+  });
+
+  describe('GET /api/properties with an area', () => {
+    it('should only return listings inside a drawn polygon', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ polygon: JSON.stringify(kreuzberg) })
+        .expect(200);
+
+      expect(response.body.data.properties.map((property: any) => property.id)).toEqual([kreuzbergListingId]);
+      expect(response.body.data.total).toBe(1);
+    });
+
+    it('should accept a multi-polygon', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ polygon: JSON.stringify({ type: 'MultiPolygon', coordinates: [mitte.coordinates, kreuzberg.coordinates] }) })
+        .expect(200);
+
+      expect(response.body.data.properties.map((property: any) => property.id).sort())
+        .toEqual([mitteListingId, kreuzbergListingId].sort());
+    });
+
+    it('should filter by a stored area', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ areaId: mitteId })
+        .expect(200);
+
+      expect(response.body.data.properties.map((property: any) => property.id)).toEqual([mitteListingId]);
+    });
+
+    it('should reject invalid shapes and unknown areas', async () => {
+      await request(app)
+        .get('/api/properties')
+        .query({ polygon: JSON.stringify({ type: 'Point', coordinates: [13.4, 52.5] }) })
+        .expect(400);
+
+      await request(app)
+        .get('/api/properties')
+        .query({ polygon: JSON.stringify(mitte), areaId: mitteId })
+        .expect(400);
+
+      await request(app)
+        .get('/api/properties')
+        .query({ areaId: '00000000-0000-4000-8000-000000000000' })
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/properties/map', () => {
+    const berlin = { north: 52.6, south: 52.4, east: 13.6, west: 13.2 };
+
+    // Without a search cluster the map is clustered from the database
+    beforeEach(() => {
+      jest.spyOn(PropertySearchService, 'searchMap').mockRejectedValue(new Error('Search unavailable'));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should cluster listings in the viewport', async () => {
+      const response = await request(app)
+        .get('/api/properties/map')
+        .query({ ...berlin, zoom: 8 })
+        .expect(200);
+
+      const { data } = response.body;
+      expect(data).toMatchObject({ zoom: 8, precision: 4, total: 2, pins: [] });
+      expect(data.clusters).toHaveLength(1);
+      expect(data.clusters[0]).toMatchObject({ count: 2, priceMin: 450000, priceMax: 450000 });
+    });
+
+    it('should return pins at close zoom, limited by filters', async () => {
+      const response = await request(app)
+        .get('/api/properties/map')
+        .query({ ...berlin, zoom: 16, areaId: mitteId })
+        .expect(200);
+
+      expect(response.body.data.clusters).toEqual([]);
+      expect(response.body.data.pins).toEqual([
+        expect.objectContaining({ id: mitteListingId, city: 'Berlin', location: { lat: 52.5163, lon: 13.3777 } }),
+      ]);
+    });
+
+    it('should reject missing or inverted bounds', async () => {
+      await request(app)
+        .get('/api/properties/map')
+        .query({ zoom: 8 })
+        .expect(400);
+
+      await request(app)
+        .get('/api/properties/map')
+        .query({ ...berlin, north: 52.3, zoom: 8 })
+        .expect(400);
+    });
+  });
+});
@@ -10,6 +10,10 @@ export default async function globalSetup() {
   process.env.REDIS_URL = process.env.REDIS_URL_TEST || 'redis://localhost:6379/1';
   process.env.JWT_SECRET = 'test-jwt-secret';
   process.env.JWT_REFRESH_SECRET = 'test-jwt-refresh-secret';
+  // Each suite counts its own requests instead of sharing buckets in Redis
+  process.env.RATE_LIMIT_STORE = 'memory';
+  // Analytics stays in the process instead of writing segment files
+  process.env.ANALYTICS_STORE = 'memory';
 
   try {
     // Reset test database
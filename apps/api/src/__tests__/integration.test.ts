@@ -2,7 +2,9 @@ import request from 'supertest';
 import { testPrisma, setupMocks, createTestToken } from './setup';
 import { ThirdPartyIntegrationService } from '../services/third-party-integration.service';
 import { CacheService } from '../services/cache.service';
-import app from '../main';
+import { createApp } from '../app';
+
+const app = createApp();
 
 // Setup mocks
 setupMocks();
@@ -0,0 +1,57 @@
+import { IntervalJob } from '../utils/interval-job';
+import { logger } from '../utils/logger';
+
+describe('IntervalJob', () => {
+  let job: IntervalJob | null = null;
+
+  afterEach(() => {
+    job?.stop();
+    job = null;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should run the task on every tick once started', async () => {
+    jest.useFakeTimers();
+    const task = jest.fn().mockResolvedValue(undefined);
+    job = new IntervalJob('Test job', 1000, task);
+
+    job.start();
+    job.start();
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(task).toHaveBeenCalledTimes(3);
+
+    job.stop();
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(job.isStarted).toBe(false);
+  });
+
+  it('should skip a run while the previous one is still going', async () => {
+    let finish: () => void = () => undefined;
+    const task = jest.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    job = new IntervalJob('Test job', 1000, task);
+
+    const first = job.run();
+    await job.run();
+    finish();
+    await first;
+    await job.run();
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log a failed run and keep going', async () => {
+    const error = jest.spyOn(logger, 'error').mockImplementation(() => logger);
+    const task = jest.fn().mockRejectedValueOnce(new Error('Database unavailable')).mockResolvedValue(undefined);
+    job = new IntervalJob('Test job', 1000, task);
+
+    await job.run();
+    await job.run();
+
+    expect(error).toHaveBeenCalledWith('Test job error:', expect.any(Error));
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
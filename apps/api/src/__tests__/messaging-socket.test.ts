@@ -0,0 +1,113 @@
+import jwt from 'jsonwebtoken';
+import { prisma } from '@eu-real-estate/database';
+import { UserRole, PropertyType, ListingType, TransactionType } from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { MessagingService } from '../services/messaging.service';
+import { TokenService } from '../services/token.service';
+
+describe('Messaging socket authentication', () => {
+  let buyerId: string;
+  let sellerId: string;
+  let outsiderId: string;
+  let buyerToken: string;
+  let transactionId: string;
+
+  const handshake = (auth: Record<string, string> = {}, headers: Record<string, string> = {}) =>
+    ({ handshake: { auth, headers }, data: {} } as any);
+
+  beforeEach(async () => {
+    jest.spyOn(TokenService, 'isTokenBlacklisted').mockResolvedValue(false);
+
+    await prisma.transaction.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const buyer = await createTestUser('buyer@example.com', UserRole.BUYER);
+    const seller = await createTestUser('seller@example.com', UserRole.SELLER);
+    const outsider = await createTestUser('outsider@example.com', UserRole.BUYER);
+
+    buyerId = buyer.id;
+    sellerId = seller.id;
+    outsiderId = outsider.id;
+    buyerToken = buyer.token;
+
+    const property = await prisma.property.create({
+      data: {
+        title: 'Flat in Utrecht',
+        description: 'Canal-side flat',
+        price: 425000,
+        propertyType: PropertyType.APARTMENT,
+        listingType: ListingType.SALE,
+        ownerId: sellerId,
+      },
+    });
+
+    const transaction = await prisma.transaction.create({
+      data: { propertyId: property.id, buyerId, sellerId, type: TransactionType.PURCHASE },
+    });
+    transactionId = transaction.id;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('authenticateSocket', () => {
+    it('should attach the user for a valid handshake token', async () => {
+      const socket = handshake({ token: buyerToken });
+
+      const user = await MessagingService.authenticateSocket(socket);
+
+      expect(user).toEqual({ id: buyerId, email: 'buyer@example.com', role: UserRole.BUYER });
+      expect(socket.data.user).toEqual(user);
+    });
+
+    it('should accept a bearer Authorization header', async () => {
+      const user = await MessagingService.authenticateSocket(handshake({}, { authorization: `Bearer ${buyerToken}` }));
+
+      expect(user.id).toBe(buyerId);
+    });
+
+    it('should reject a handshake without a token', async () => {
+      await expect(MessagingService.authenticateSocket(handshake())).rejects.toMatchObject({
+        data: { code: 'MISSING_TOKEN' },
+      });
+    });
+
+    it('should reject a forged token', async () => {
+      const forged = jwt.sign({ userId: buyerId }, 'not-the-secret');
+
+      await expect(MessagingService.authenticateSocket(handshake({ token: forged }))).rejects.toMatchObject({
+        data: { code: 'INVALID_TOKEN' },
+      });
+    });
+
+    it('should reject a blacklisted token', async () => {
+      jest.spyOn(TokenService, 'isTokenBlacklisted').mockResolvedValue(true);
+
+      await expect(MessagingService.authenticateSocket(handshake({ token: buyerToken }))).rejects.toMatchObject({
+        data: { code: 'INVALID_TOKEN' },
+      });
+    });
+
+    it('should reject deactivated users', async () => {
+      await prisma.user.update({ where: { id: buyerId }, data: { isActive: false } });
+
+      await expect(MessagingService.authenticateSocket(handshake({ token: buyerToken }))).rejects.toMatchObject({
+        data: { code: 'USER_NOT_FOUND' },
+      });
+    });
+  });
+
+  describe('canJoinTransaction', () => {
+    it('should let the parties join the transaction room', async () => {
+      expect(await MessagingService.canJoinTransaction(buyerId, transactionId)).toBe(true);
+      expect(await MessagingService.canJoinTransaction(sellerId, transactionId)).toBe(true);
+    });
+
+    it('should keep everyone else out', async () => {
+      expect(await MessagingService.canJoinTransaction(outsiderId, transactionId)).toBe(false);
+      expect(await MessagingService.canJoinTransaction(buyerId, 'unknown-transaction')).toBe(false);
+    });
+  });
+});
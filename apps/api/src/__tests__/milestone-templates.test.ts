@@ -0,0 +1,124 @@
+import { DocumentStatus, DocumentType, PropertyType, TransactionType } from '@eu-real-estate/database';
+import { MilestoneTemplateService } from '../services/milestone-template.service';
+import { MilestoneTemplate } from '../config/milestone-templates.config';
+
+describe('Milestone Templates', () => {
+  describe('registry', () => {
+    it('should only contain valid templates', () => {
+      expect(MilestoneTemplateService.validateRegistry()).toEqual([]);
+    });
+
+    it('should report unknown dependencies and cycles', () => {
+      const template: MilestoneTemplate = {
+        id: 'broken',
+        version: 1,
+        country: 'DE',
+        transactionTypes: [TransactionType.PURCHASE],
+        steps: [
+          { key: 'a', title: 'A', isRequired: true, dependsOn: ['c'] },
+          { key: 'b', title: 'B', isRequired: true, dependsOn: ['a', 'missing'] },
+          { key: 'c', title: 'C', isRequired: true, dependsOn: ['b'], dueOffsetDays: -1 },
+        ],
+      };
+
+      const errors = MilestoneTemplateService.validate(template);
+
+      expect(errors).toContain('broken@1: Step "b" depends on unknown step "missing"');
+      expect(errors).toContain('broken@1: Step "c" has an invalid due offset');
+      expect(errors.some(error => error.includes('dependency cycle'))).toBe(true);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should fall back to the default template for other countries', () => {
+      const template = MilestoneTemplateService.resolve('PL', TransactionType.PURCHASE, PropertyType.HOUSE);
+
+      expect(template.id).toBe('default-purchase');
+      expect(template.steps.map(step => step.key)).toContain('closing');
+    });
+
+    it('should use the country template when one exists', () => {
+      expect(MilestoneTemplateService.resolve('fr', TransactionType.PURCHASE, PropertyType.HOUSE).id).toBe('fr-purchase');
+      expect(MilestoneTemplateService.resolve('ES', TransactionType.PURCHASE, PropertyType.HOUSE).id).toBe('es-purchase');
+    });
+
+    it('should use the default rental template for rentals in any country', () => {
+      expect(MilestoneTemplateService.resolve('DE', TransactionType.RENTAL, PropertyType.APARTMENT).id).toBe('default-rental');
+    });
+
+    it('should only include property type specific steps when they apply', () => {
+      const apartment = MilestoneTemplateService.resolve('DE', TransactionType.PURCHASE, PropertyType.APARTMENT);
+      const house = MilestoneTemplateService.resolve('DE', TransactionType.PURCHASE, PropertyType.HOUSE);
+
+      expect(apartment.steps.map(step => step.key)).toContain('owners_association_records');
+      expect(house.steps.map(step => step.key)).not.toContain('owners_association_records');
+      expect(house.steps.find(step => step.key === 'notarization')?.dependsOn).toEqual([
+        'notary_draft',
+        'financing_confirmation',
+      ]);
+    });
+
+    it('should prefer a property type specific template', () => {
+      const templates: MilestoneTemplate[] = [
+        { id: 'de', version: 1, country: 'DE', transactionTypes: [TransactionType.PURCHASE], steps: [] },
+        {
+          id: 'de-land',
+          version: 1,
+          country: 'DE',
+          transactionTypes: [TransactionType.PURCHASE],
+          propertyTypes: [PropertyType.LAND],
+          steps: [],
+        },
+      ];
+
+      expect(MilestoneTemplateService.resolve('DE', TransactionType.PURCHASE, PropertyType.LAND, templates).id).toBe('de-land');
+      expect(MilestoneTemplateService.resolve('DE', TransactionType.PURCHASE, PropertyType.HOUSE, templates).id).toBe('de');
+    });
+  });
+
+  describe('milestone state', () => {
+    const milestones = MilestoneTemplateService.toMilestones(
+      MilestoneTemplateService.resolve('FR', TransactionType.PURCHASE, PropertyType.HOUSE)
+    ).map(milestone => ({ ...milestone, completedAt: null as Date | null }));
+
+    const find = (key: string) => milestones.find(milestone => milestone.key === key)!;
+
+    it('should number milestones in template order', () => {
+      expect(milestones.map(milestone => milestone.order)).toEqual(milestones.map((_, index) => index + 1));
+    });
+
+    it('should block a milestone until its required dependencies are complete', () => {
+      const blockedBy = MilestoneTemplateService.getBlockingMilestones(find('compromis_de_vente'), milestones);
+
+      expect(blockedBy.map(milestone => milestone.key)).toEqual(['technical_diagnostics']);
+    });
+
+    it('should not let optional steps block the steps after them', () => {
+      const completed = milestones.map(milestone => ({
+        ...milestone,
+        completedAt: milestone.key === 'cooling_off_period' ? new Date() : milestone.completedAt,
+      }));
+
+      expect(MilestoneTemplateService.getBlockingMilestones(find('acte_authentique'), completed)).toEqual([]);
+    });
+
+    it('should fill document slots with usable documents only', () => {
+      const slots = MilestoneTemplateService.getDocumentSlots(find('technical_diagnostics'), [
+        { type: DocumentType.SURVEY, status: DocumentStatus.UPLOADED },
+        { type: DocumentType.ENERGY_CERTIFICATE, status: DocumentStatus.REJECTED },
+      ]);
+
+      expect(slots).toEqual([
+        { type: DocumentType.SURVEY, fulfilled: true },
+        { type: DocumentType.ENERGY_CERTIFICATE, fulfilled: false },
+      ]);
+    });
+
+    it('should compute due dates relative to acceptance', () => {
+      const acceptedAt = new Date('2026-03-01T10:00:00Z');
+
+      expect(MilestoneTemplateService.getDueDate(acceptedAt, find('cooling_off_period').dueOffsetDays!).toISOString())
+        .toBe('2026-03-25T10:00:00.000Z');
+    });
+  });
+});
@@ -231,8 +231,8 @@ describe('Monitoring and Logging System', () => {
         });
       });
 
-      it('should generate dashboard data', () => {
-        const dashboard = analytics.getAnalyticsDashboard('1h');
+      it('should generate dashboard data', async () => {
+        const dashboard = await analytics.getAnalyticsDashboard('1h');
 
         expect(dashboard).toHaveProperty('timeRange', '1h');
         expect(dashboard).toHaveProperty('overview');
@@ -247,8 +247,8 @@ describe('Monitoring and Logging System', () => {
         expect(dashboard.overview).toHaveProperty('totalRevenue');
       });
 
-      it('should generate real-time analytics', () => {
-        const realtime = analytics.getRealTimeAnalytics();
+      it('should generate real-time analytics', async () => {
+        const realtime = await analytics.getRealTimeAnalytics();
 
         expect(realtime).toHaveProperty('timestamp');
         expect(realtime).toHaveProperty('activeUsers');
@@ -258,8 +258,8 @@ describe('Monitoring and Logging System', () => {
         expect(realtime).toHaveProperty('recentActivity');
       });
 
-      it('should generate user journey', () => {
-        const journey = analytics.getUserJourney('user1', '24h');
+      it('should generate user journey', async () => {
+        const journey = await analytics.getUserJourney('user1', '24h');
 
         expect(journey).toHaveProperty('userId', 'user1');
         expect(journey).toHaveProperty('timeRange', '24h');
@@ -0,0 +1,94 @@
+import { prisma, OfferStatus } from '@eu-real-estate/database';
+import { TransactionService } from '../services/transaction.service';
+import { NotificationService } from '../services/notification.service';
+
+jest.mock('../services/notification.service');
+
+describe('Offer negotiation', () => {
+  const transactionId = 'test-transaction-1';
+  const buyerId = 'test-user-1';
+  const agentId = 'test-user-2';
+
+  beforeEach(async () => {
+    await prisma.offer.deleteMany({ where: { transactionId } });
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await prisma.offer.deleteMany({ where: { transactionId } });
+  });
+
+  it('should thread counter-offers under the offer they answer', async () => {
+    const offer = await TransactionService.createOffer(
+      { transactionId, offererId: buyerId, amount: 400000 },
+      buyerId
+    );
+
+    const { counterOffer } = await TransactionService.respondToOffer(
+      offer.id,
+      OfferStatus.COUNTERED,
+      agentId,
+      { amount: 430000 }
+    );
+
+    await TransactionService.respondToOffer(counterOffer.id, OfferStatus.COUNTERED, buyerId, { amount: 415000 });
+
+    const history = await TransactionService.getOfferHistory(transactionId, buyerId);
+
+    expect(history.total).toBe(3);
+    expect(history.threads).toHaveLength(1);
+    expect(history.threads[0].status).toBe(OfferStatus.COUNTERED);
+    expect(history.threads[0].counterOffers[0].amount).toBe(430000);
+    expect(history.threads[0].counterOffers[0].counterOffers[0].amount).toBe(415000);
+  });
+
+  it('should not let the offerer accept their own offer', async () => {
+    const offer = await TransactionService.createOffer(
+      { transactionId, offererId: buyerId, amount: 400000 },
+      buyerId
+    );
+
+    await expect(
+      TransactionService.respondToOffer(offer.id, OfferStatus.ACCEPTED, buyerId)
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('should only ever accept one offer per transaction', async () => {
+    const first = await TransactionService.createOffer({ transactionId, offererId: buyerId, amount: 400000 }, buyerId);
+    const second = await TransactionService.createOffer({ transactionId, offererId: buyerId, amount: 410000 }, buyerId);
+
+    const results = await Promise.allSettled([
+      TransactionService.respondToOffer(first.id, OfferStatus.ACCEPTED, agentId),
+      TransactionService.respondToOffer(second.id, OfferStatus.ACCEPTED, agentId),
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await prisma.offer.count({ where: { transactionId, status: OfferStatus.ACCEPTED } })).toBe(1);
+
+    await expect(
+      TransactionService.createOffer({ transactionId, offererId: buyerId, amount: 420000 }, buyerId)
+    ).rejects.toMatchObject({ code: 'OFFER_ALREADY_ACCEPTED' });
+  });
+
+  it('should expire stale offers and notify both parties', async () => {
+    const offer = await TransactionService.createOffer(
+      { transactionId, offererId: buyerId, amount: 400000, validUntil: new Date(Date.now() - 60 * 1000) },
+      buyerId
+    );
+
+    const expired = await TransactionService.expireStaleOffers();
+
+    expect(expired).toBe(1);
+    expect((await prisma.offer.findUnique({ where: { id: offer.id } }))?.status).toBe(OfferStatus.EXPIRED);
+    expect(NotificationService.sendTransactionNotification).toHaveBeenCalledWith(
+      transactionId,
+      'offer_expired',
+      expect.arrayContaining([buyerId]),
+      expect.objectContaining({ offerId: offer.id })
+    );
+
+    await expect(
+      TransactionService.respondToOffer(offer.id, OfferStatus.ACCEPTED, agentId)
+    ).rejects.toMatchObject({ code: 'OFFER_NOT_PENDING' });
+  });
+});
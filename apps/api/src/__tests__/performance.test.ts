@@ -3,7 +3,9 @@ import { performance } from 'perf_hooks';
 import { testPrisma, setupMocks, createTestToken } from './setup';
 import { CacheService } from '../services/cache.service';
 import { PerformanceService } from '../services/performance.service';
-import app from '../main';
+import { createApp } from '../app';
+
+const app = createApp();
 
 // Setup mocks
 setupMocks();
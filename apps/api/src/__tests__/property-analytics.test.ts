@@ -0,0 +1,214 @@
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import { UserRole, PropertyType, ListingType, PropertyStatus, PropertyEventType } from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { PropertyAnalyticsService } from '../services/property-analytics.service';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Property analytics', () => {
+  let ownerId: string;
+  let ownerToken: string;
+  let buyerId: string;
+  let buyerToken: string;
+  let propertyId: string;
+  let comparableId: string;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const createListing = (city: string, propertyType: string = PropertyType.APARTMENT) =>
+    prisma.property.create({
+      data: {
+        title: `Apartment in ${city}`,
+        description: 'Listing used by the property analytics tests',
+        price: 320000,
+        priceEur: 320000,
+        propertyType,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.ACTIVE,
+        ownerId,
+        address: { create: { street: 'Calle Mayor 1', city, postcode: '28013', country: 'ES' } },
+      },
+    });
+
+  const createEvents = (id: string, type: PropertyEventType, count: number, createdAt = new Date()) =>
+    prisma.propertyEvent.createMany({
+      data: Array.from({ length: count }, (_, index) => ({
+        propertyId: id,
+        type,
+        sessionId: `session-${index}`,
+        createdAt,
+      })),
+    });
+
+  beforeEach(async () => {
+    await prisma.propertyEventDaily.deleteMany();
+    await prisma.propertyEvent.deleteMany();
+    await prisma.propertyView.deleteMany();
+    await prisma.propertyFavorite.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const owner = await createTestUser('agent@example.com', UserRole.AGENT);
+    const buyer = await createTestUser('buyer@example.com', UserRole.BUYER);
+    ownerId = owner.id;
+    ownerToken = owner.token;
+    buyerId = buyer.id;
+    buyerToken = buyer.token;
+
+    propertyId = (await createListing('Madrid')).id;
+    comparableId = (await createListing('Madrid')).id;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('recording', () => {
+    it('should record detail views, but not the owner\'s', async () => {
+      await request(app).get(`/api/properties/${propertyId}`).expect(200);
+      await request(app).get(`/api/properties/${propertyId}`).set('Authorization', `Bearer ${buyerToken}`).expect(200);
+      await request(app).get(`/api/properties/${propertyId}`).set('Authorization', `Bearer ${ownerToken}`).expect(200);
+
+      const views = await prisma.propertyEvent.findMany({ where: { propertyId, type: PropertyEventType.VIEW } });
+      expect(views).toHaveLength(2);
+      expect(views.find(view => view.userId === buyerId)).toBeDefined();
+      expect(views.find(view => !view.userId)!.sessionId).toBeTruthy();
+    });
+
+    it('should record an impression for each search result', async () => {
+      await request(app).get('/api/properties').expect(200);
+
+      const impressions = await prisma.propertyEvent.findMany({ where: { type: PropertyEventType.IMPRESSION } });
+      expect(impressions.map(impression => impression.propertyId).sort()).toEqual([propertyId, comparableId].sort());
+      expect(impressions[0].source).toBe('search');
+    });
+
+    it('should still answer when an event cannot be written', async () => {
+      jest.spyOn(prisma.propertyEvent, 'create').mockRejectedValueOnce(new Error('Database unavailable'));
+      jest.spyOn(prisma.propertyEvent, 'createMany').mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await request(app).get(`/api/properties/${propertyId}`).expect(200);
+      await request(app).get('/api/properties').expect(200);
+
+      expect(await prisma.propertyEvent.count()).toBe(0);
+    });
+
+    it('should record a favourite once', async () => {
+      for (let attempt = 0; attempt < 2; attempt++) {
+        await request(app)
+          .post(`/api/properties/${propertyId}/favorites`)
+          .set('Authorization', `Bearer ${buyerToken}`)
+          .expect(200);
+      }
+
+      expect(await prisma.propertyEvent.count({ where: { propertyId, type: PropertyEventType.FAVORITE } })).toBe(1);
+    });
+
+    it('should accept client events', async () => {
+      await request(app)
+        .post(`/api/properties/${propertyId}/events`)
+        .send({ type: PropertyEventType.SHARE, source: 'whatsapp' })
+        .expect(201);
+
+      const share = await prisma.propertyEvent.findFirst({ where: { propertyId, type: PropertyEventType.SHARE } });
+      expect(share!.source).toBe('whatsapp');
+    });
+
+    it('should reject events the API records itself', async () => {
+      await request(app)
+        .post(`/api/properties/${propertyId}/events`)
+        .send({ type: PropertyEventType.VIEW })
+        .expect(400);
+    });
+
+    it('should return 404 for an unknown listing', async () => {
+      await request(app)
+        .post('/api/properties/00000000-0000-4000-8000-000000000000/events')
+        .send({ type: PropertyEventType.CONTACT })
+        .expect(404);
+    });
+  });
+
+  describe('rollups', () => {
+    it('should recount a day without double counting', async () => {
+      const yesterday = new Date(Date.now() - DAY_MS);
+      await createEvents(propertyId, PropertyEventType.VIEW, 3, yesterday);
+
+      await PropertyAnalyticsService.rollupDay(yesterday);
+      await PropertyAnalyticsService.rollupDay(yesterday);
+
+      const rollups = await prisma.propertyEventDaily.findMany({ where: { propertyId } });
+      expect(rollups).toHaveLength(1);
+      expect(rollups[0]).toMatchObject({ type: PropertyEventType.VIEW, count: 3, visitors: 3 });
+    });
+
+    it('should prune raw events past the retention period', async () => {
+      await createEvents(propertyId, PropertyEventType.VIEW, 2, new Date(Date.now() - 120 * DAY_MS));
+      await createEvents(propertyId, PropertyEventType.VIEW, 1);
+
+      expect(await PropertyAnalyticsService.pruneEvents()).toBe(2);
+      expect(await prisma.propertyEvent.count()).toBe(1);
+    });
+  });
+
+  describe('GET /api/properties/:id/analytics', () => {
+    it('should report the time series, conversion and comparison', async () => {
+      const twoDaysAgo = new Date(Date.now() - 2 * DAY_MS);
+      await createEvents(propertyId, PropertyEventType.IMPRESSION, 10, twoDaysAgo);
+      await createEvents(propertyId, PropertyEventType.VIEW, 4, twoDaysAgo);
+      await PropertyAnalyticsService.rollupDay(twoDaysAgo);
+
+      // Today's events are counted without waiting for the rollup job
+      await createEvents(propertyId, PropertyEventType.IMPRESSION, 10);
+      await createEvents(propertyId, PropertyEventType.VIEW, 2);
+      await createEvents(propertyId, PropertyEventType.CONTACT, 1);
+      await createEvents(comparableId, PropertyEventType.IMPRESSION, 10);
+      await createEvents(comparableId, PropertyEventType.VIEW, 1);
+
+      // Other cities and types are not comparable
+      const elsewhere = await createListing('Sevilla');
+      await createEvents(elsewhere.id, PropertyEventType.VIEW, 50);
+      await createListing('Madrid', PropertyType.HOUSE);
+
+      const response = await request(app)
+        .get(`/api/properties/${propertyId}/analytics?days=7`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      const { analytics } = response.body.data;
+      expect(analytics.timeSeries).toHaveLength(7);
+      expect(analytics.timeSeries[4].counts.VIEW).toBe(4);
+      expect(analytics.timeSeries[6]).toMatchObject({ counts: { VIEW: 2, CONTACT: 1 }, viewers: 2 });
+      expect(analytics.totals).toMatchObject({ IMPRESSION: 20, VIEW: 6, CONTACT: 1 });
+      expect(analytics.conversion.searchToView).toBe(0.3);
+
+      expect(analytics.comparison).toMatchObject({
+        city: 'Madrid',
+        propertyType: PropertyType.APARTMENT,
+        comparableListings: 1,
+        averageSearchToView: 0.1,
+        viewsPercentile: 100,
+      });
+      expect(analytics.comparison.average.VIEW).toBe(1);
+
+      // Reading the report writes nothing; today is left for the rollup job
+      expect(await prisma.propertyEventDaily.count()).toBe(2);
+    });
+
+    it('should only be available to the owner', async () => {
+      await request(app)
+        .get(`/api/properties/${propertyId}/analytics`)
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(403);
+    });
+
+    it('should limit the period to a year', async () => {
+      await request(app)
+        .get(`/api/properties/${propertyId}/analytics?days=400`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import {
+  UserRole,
+  PropertyType,
+  ListingType,
+  PropertyStatus,
+  TransactionType,
+  TransactionStatus,
+  OfferStatus,
+} from '@eu-real-estate/database';
+import { createTestToken, createTestUser } from './setup';
+import { PropertyLifecycleService } from '../services/property-lifecycle.service';
+import { TransactionService } from '../services/transaction.service';
+import { NotificationService } from '../services/notification.service';
+import { createApp } from '../app';
+
+jest.mock('../services/notification.service');
+
+const app = createApp();
+
+describe('Property lifecycle', () => {
+  let ownerId: string;
+  let ownerToken: string;
+  let buyerId: string;
+  let adminToken: string;
+  let propertyId: string;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const setStatus = (status: PropertyStatus, data: Record<string, any> = {}) =>
+    prisma.property.update({ where: { id: propertyId }, data: { status, ...data } });
+
+  const patchStatus = (status: PropertyStatus, token = ownerToken) =>
+    request(app)
+      .patch(`/api/properties/${propertyId}/status`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ status });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (NotificationService.sendNotification as jest.Mock).mockResolvedValue(undefined);
+    (NotificationService.sendPropertyNotification as jest.Mock).mockResolvedValue(undefined);
+    await prisma.offer.deleteMany();
+    await prisma.transactionStatusHistory.deleteMany();
+    await prisma.transaction.deleteMany();
+    await prisma.propertyStatusHistory.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const owner = await createTestUser('agent@example.com', UserRole.AGENT);
+    const buyer = await createTestUser('buyer@example.com', UserRole.BUYER);
+    const admin = await createTestUser('admin@example.com', UserRole.ADMIN);
+    ownerId = owner.id;
+    ownerToken = owner.token;
+    buyerId = buyer.id;
+    adminToken = admin.token;
+
+    // Ireland has no compliance rule pack, so publishing isn't blocked
+    const property = await prisma.property.create({
+      data: {
+        title: 'Terraced house in Dublin',
+        description: 'Listing used by the property lifecycle tests',
+        price: 450000,
+        propertyType: PropertyType.HOUSE,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.DRAFT,
+        ownerId,
+        address: { create: { street: 'Grafton Street 1', city: 'Dublin', postcode: 'D02', country: 'IE' } },
+      },
+    });
+    propertyId = property.id;
+  });
+
+  describe('transitions', () => {
+    it('should reject a transition the state machine does not allow', async () => {
+      await setStatus(PropertyStatus.SOLD);
+
+      const response = await patchStatus(PropertyStatus.DRAFT).expect(409);
+
+      expect(response.body.error.code).toBe('INVALID_STATUS_TRANSITION');
+      expect(await prisma.propertyStatusHistory.count({ where: { propertyId } })).toBe(0);
+    });
+
+    it('should require the role the transition needs', async () => {
+      await setStatus(PropertyStatus.PENDING);
+
+      const denied = await patchStatus(PropertyStatus.ACTIVE).expect(403);
+      expect(denied.body.error.code).toBe('STATUS_TRANSITION_DENIED');
+
+      const approved = await patchStatus(PropertyStatus.ACTIVE, adminToken).expect(200);
+      expect(approved.body.data.property.status).toBe(PropertyStatus.ACTIVE);
+    });
+
+    it('should leave expiry to the platform', () => {
+      expect(PropertyLifecycleService.canTransition(PropertyStatus.ACTIVE, PropertyStatus.EXPIRED, ['OWNER', 'ADMIN'])).toBe(false);
+      expect(PropertyLifecycleService.canTransition(PropertyStatus.ACTIVE, PropertyStatus.EXPIRED, ['SYSTEM'])).toBe(true);
+    });
+
+    it('should apply the state machine to full updates', async () => {
+      await setStatus(PropertyStatus.SOLD);
+
+      await request(app)
+        .put(`/api/properties/${propertyId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ title: 'Renamed house', status: PropertyStatus.DRAFT })
+        .expect(409);
+
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property!.title).toBe('Terraced house in Dublin');
+    });
+
+    it('should set the expiry date and first reminder on publishing', async () => {
+      await patchStatus(PropertyStatus.ACTIVE).expect(200);
+
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property!.publishedAt).toBeTruthy();
+      expect(property!.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 89 * DAY_MS);
+      expect(property!.expiryReminderAt!.getTime()).toBe(property!.expiresAt!.getTime() - 7 * DAY_MS);
+    });
+  });
+
+  describe('transactions', () => {
+    const createTransaction = (type: TransactionType, status: TransactionStatus = TransactionStatus.PENDING) =>
+      prisma.transaction.create({
+        data: { propertyId, buyerId, sellerId: ownerId, type, status },
+      });
+
+    beforeEach(async () => {
+      await setStatus(PropertyStatus.ACTIVE);
+    });
+
+    it('should put a sale under offer when an offer is accepted', async () => {
+      const transaction = await createTransaction(TransactionType.PURCHASE);
+      const offer = await prisma.offer.create({
+        data: { transactionId: transaction.id, offererId: buyerId, amount: 440000 },
+      });
+
+      await TransactionService.respondToOffer(offer.id, OfferStatus.ACCEPTED, ownerId);
+
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property!.status).toBe(PropertyStatus.UNDER_OFFER);
+
+      const entry = await prisma.propertyStatusHistory.findFirst({ where: { propertyId } });
+      expect(entry).toMatchObject({
+        previousStatus: PropertyStatus.ACTIVE,
+        newStatus: PropertyStatus.UNDER_OFFER,
+        changedById: null,
+      });
+    });
+
+    it('should reserve a rental when the transaction is accepted', async () => {
+      const transaction = await createTransaction(TransactionType.RENTAL);
+
+      await TransactionService.updateTransaction(transaction.id, { status: TransactionStatus.ACCEPTED }, ownerId);
+
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property!.status).toBe(PropertyStatus.RESERVED);
+    });
+
+    it('should put the listing back on the market when the deal falls through', async () => {
+      const transaction = await createTransaction(TransactionType.PURCHASE);
+      await TransactionService.updateTransaction(transaction.id, { status: TransactionStatus.ACCEPTED }, ownerId);
+
+      await TransactionService.updateTransaction(transaction.id, { status: TransactionStatus.CANCELLED }, ownerId);
+
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property!.status).toBe(PropertyStatus.ACTIVE);
+    });
+
+    it('should mark the listing sold when the transaction completes', async () => {
+      const transaction = await createTransaction(TransactionType.PURCHASE);
+      await TransactionService.updateTransaction(transaction.id, { status: TransactionStatus.ACCEPTED }, ownerId);
+      await TransactionService.updateTransaction(transaction.id, { status: TransactionStatus.COMPLETED }, ownerId);
+
+      const statuses = await prisma.propertyStatusHistory.findMany({
+        where: { propertyId },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(statuses.map(entry => entry.newStatus)).toEqual([PropertyStatus.UNDER_OFFER, PropertyStatus.SOLD]);
+    });
+  });
+
+  describe('expiry', () => {
+    it('should remind the owner once per reminder', async () => {
+      const expiresAt = new Date(Date.now() + 6 * DAY_MS);
+      await setStatus(PropertyStatus.ACTIVE, { expiresAt, expiryReminderAt: new Date(expiresAt.getTime() - 7 * DAY_MS) });
+
+      expect(await PropertyLifecycleService.sendExpiryReminders()).toBe(1);
+      expect(await PropertyLifecycleService.sendExpiryReminders()).toBe(0);
+
+      expect(NotificationService.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: ownerId, data: expect.objectContaining({ type: 'listing_expiry_reminder' }) })
+      );
+
+      // The last reminder is due a day before expiry
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property!.expiryReminderAt!.getTime()).toBe(expiresAt.getTime() - DAY_MS);
+    });
+
+    it('should expire listings past their expiry date', async () => {
+      await setStatus(PropertyStatus.ACTIVE, { expiresAt: new Date(Date.now() - 60 * 1000) });
+
+      expect(await PropertyLifecycleService.expireListings()).toBe(1);
+
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property!.status).toBe(PropertyStatus.EXPIRED);
+      expect(NotificationService.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: ownerId, data: expect.objectContaining({ type: 'listing_expired' }) })
+      );
+    });
+
+    it('should renew an expired listing', async () => {
+      await setStatus(PropertyStatus.EXPIRED, { expiresAt: new Date(Date.now() - DAY_MS) });
+
+      const response = await request(app)
+        .post(`/api/properties/${propertyId}/renew`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      expect(response.body.data.property.status).toBe(PropertyStatus.ACTIVE);
+      expect(new Date(response.body.data.property.expiresAt).getTime()).toBeGreaterThan(Date.now() + 89 * DAY_MS);
+    });
+
+    it('should not renew a sold listing', async () => {
+      await setStatus(PropertyStatus.SOLD);
+
+      const response = await request(app)
+        .post(`/api/properties/${propertyId}/renew`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(409);
+
+      expect(response.body.error.code).toBe('LISTING_NOT_RENEWABLE');
+    });
+  });
+
+  describe('GET /api/properties/:id/history', () => {
+    it('should return the full timeline, oldest first', async () => {
+      const created = await request(app)
+        .post('/api/properties')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({
+          title: 'Apartment in Cork',
+          description: 'Listing created to check the status timeline',
+          price: 250000,
+          propertyType: PropertyType.APARTMENT,
+          listingType: ListingType.SALE,
+          address: { street: 'Patrick Street 1', city: 'Cork', postcode: 'T12', country: 'IE' },
+        })
+        .expect(201);
+      propertyId = created.body.data.property.id;
+
+      await patchStatus(PropertyStatus.ACTIVE).expect(200);
+      await patchStatus(PropertyStatus.INACTIVE).expect(200);
+
+      const response = await request(app)
+        .get(`/api/properties/${propertyId}/history`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      const { timeline } = response.body.data;
+      expect(timeline.status).toBe(PropertyStatus.INACTIVE);
+      expect(timeline.history.map((entry: any) => [entry.previousStatus, entry.newStatus])).toEqual([
+        [null, PropertyStatus.DRAFT],
+        [PropertyStatus.DRAFT, PropertyStatus.ACTIVE],
+        [PropertyStatus.ACTIVE, PropertyStatus.INACTIVE],
+      ]);
+      expect(timeline.history[1].changedBy.id).toBe(ownerId);
+    });
+
+    it('should only be available to the owner and admins', async () => {
+      const buyerToken = createTestToken(buyerId, UserRole.BUYER);
+
+      await request(app)
+        .get(`/api/properties/${propertyId}/history`)
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(403);
+
+      await request(app)
+        .get(`/api/properties/${propertyId}/history`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import {
+  UserRole,
+  PropertyType,
+  ListingType,
+  PropertyStatus,
+} from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { PropertyScheduleService } from '../services/property-schedule.service';
+import { NotificationService } from '../services/notification.service';
+import { zonedTimeToUtc, formatInTimeZone } from '../utils/timezone';
+import { createApp } from '../app';
+
+jest.mock('../services/notification.service');
+
+const app = createApp();
+
+describe('Scheduled listing publication', () => {
+  let ownerId: string;
+  let ownerToken: string;
+  let buyerId: string;
+  let buyerToken: string;
+  let propertyId: string;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  // A local time in Berlin some days ahead, as the form sends it
+  const berlinTime = (daysAhead: number, time = '09:00') =>
+    `${formatInTimeZone(new Date(Date.now() + daysAhead * DAY_MS), 'Europe/Berlin').slice(0, 10)}T${time}`;
+
+  const putSchedule = (body: Record<string, any>, token = ownerToken) =>
+    request(app)
+      .put(`/api/properties/${propertyId}/schedule`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (NotificationService.sendNotification as jest.Mock).mockResolvedValue(undefined);
+    (NotificationService.sendPropertyNotification as jest.Mock).mockResolvedValue(undefined);
+    await prisma.propertyFavorite.deleteMany();
+    await prisma.propertyStatusHistory.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const owner = await createTestUser('agent@example.com', UserRole.AGENT, { timezone: 'Europe/Berlin' });
+    const buyer = await createTestUser('buyer@example.com', UserRole.BUYER);
+    ownerId = owner.id;
+    ownerToken = owner.token;
+    buyerId = buyer.id;
+    buyerToken = buyer.token;
+
+    // Ireland has no compliance rule pack, so publishing isn't blocked
+    const property = await prisma.property.create({
+      data: {
+        title: 'Terraced house in Dublin',
+        description: 'Listing used by the scheduled publication tests',
+        price: 450000,
+        propertyType: PropertyType.HOUSE,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.DRAFT,
+        ownerId,
+        address: { create: { street: 'Grafton Street 1', city: 'Dublin', postcode: 'D02', country: 'IE' } },
+      },
+    });
+    propertyId = property.id;
+  });
+
+  describe('PUT /api/properties/:id/schedule', () => {
+    it('should read times in the owner\'s timezone', async () => {
+      const publishAt = berlinTime(3);
+
+      const response = await putSchedule({ publishAt }).expect(200);
+
+      const { schedule } = response.body.data;
+      expect(schedule.timezone).toBe('Europe/Berlin');
+      expect(schedule.localPublishAt).toBe(publishAt);
+      expect(new Date(schedule.publishAt).getTime()).toBe(zonedTimeToUtc(publishAt, 'Europe/Berlin').getTime());
+    });
+
+    it('should save the timezone the owner schedules in', async () => {
+      const publishAt = berlinTime(3);
+
+      const response = await putSchedule({ publishAt, timezone: 'Europe/Lisbon' }).expect(200);
+
+      expect(new Date(response.body.data.schedule.publishAt).getTime())
+        .toBe(zonedTimeToUtc(publishAt, 'Europe/Lisbon').getTime());
+      const owner = await prisma.user.findUnique({ where: { id: ownerId } });
+      expect(owner!.timezone).toBe('Europe/Lisbon');
+    });
+
+    it('should reject times in the past', async () => {
+      const response = await putSchedule({ publishAt: berlinTime(-1) }).expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_SCHEDULE');
+    });
+
+    it('should reject an unpublish time before the publish time', async () => {
+      const response = await putSchedule({ publishAt: berlinTime(3), unpublishAt: berlinTime(2) }).expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_SCHEDULE');
+    });
+
+    it('should not schedule a listing the owner cannot publish', async () => {
+      await prisma.property.update({ where: { id: propertyId }, data: { status: PropertyStatus.SOLD } });
+
+      const response = await putSchedule({ publishAt: berlinTime(3) }).expect(409);
+
+      expect(response.body.error.code).toBe('LISTING_NOT_SCHEDULABLE');
+    });
+
+    it('should only be available to the owner and admins', async () => {
+      await putSchedule({ publishAt: berlinTime(3) }, buyerToken).expect(403);
+    });
+  });
+
+  describe('scheduled jobs', () => {
+    it('should publish a listing once its time has come', async () => {
+      await prisma.property.update({
+        where: { id: propertyId },
+        data: { scheduledPublishAt: new Date(Date.now() - 60 * 1000) },
+      });
+
+      expect(await PropertyScheduleService.publishDueListings()).toBe(1);
+      expect(await PropertyScheduleService.publishDueListings()).toBe(0);
+
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property!.status).toBe(PropertyStatus.ACTIVE);
+      expect(property!.publishedAt).toBeTruthy();
+      expect(property!.scheduledPublishAt).toBeNull();
+
+      // Saved searches and the users who favourited the listing hear about it
+      expect(NotificationService.sendPropertyNotification).toHaveBeenCalledWith(propertyId, 'new_listing');
+      expect(NotificationService.sendPropertyNotification).toHaveBeenCalledWith(
+        propertyId,
+        'status_change',
+        expect.objectContaining({ scheduled: true })
+      );
+    });
+
+    it('should leave listings scheduled for later alone', async () => {
+      await prisma.property.update({
+        where: { id: propertyId },
+        data: { scheduledPublishAt: new Date(Date.now() + DAY_MS) },
+      });
+
+      expect(await PropertyScheduleService.publishDueListings()).toBe(0);
+    });
+
+    it('should take a live listing down once its time has come', async () => {
+      await prisma.property.update({
+        where: { id: propertyId },
+        data: { status: PropertyStatus.ACTIVE, scheduledUnpublishAt: new Date(Date.now() - 60 * 1000) },
+      });
+
+      expect(await PropertyScheduleService.unpublishDueListings()).toBe(1);
+
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property!.status).toBe(PropertyStatus.INACTIVE);
+      expect(property!.scheduledUnpublishAt).toBeNull();
+    });
+
+    it('should tell the owner when a scheduled publication fails', async () => {
+      await prisma.property.update({
+        where: { id: propertyId },
+        data: { status: PropertyStatus.SOLD, scheduledPublishAt: new Date(Date.now() - 60 * 1000) },
+      });
+
+      expect(await PropertyScheduleService.publishDueListings()).toBe(0);
+
+      expect(NotificationService.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: ownerId, data: expect.objectContaining({ type: 'listing_schedule_failed' }) })
+      );
+    });
+  });
+
+  describe('coming soon', () => {
+    beforeEach(async () => {
+      await prisma.property.update({
+        where: { id: propertyId },
+        data: { scheduledPublishAt: new Date(Date.now() + DAY_MS) },
+      });
+    });
+
+    it('should show a teaser to users who favourited the listing', async () => {
+      await prisma.propertyFavorite.create({ data: { propertyId, userId: buyerId } });
+
+      const response = await request(app)
+        .get(`/api/properties/${propertyId}`)
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(200);
+
+      const { property } = response.body.data;
+      expect(property.comingSoon).toBe(true);
+      expect(property.city).toBe('Dublin');
+      expect(property.price).toBeUndefined();
+      expect(property.description).toBeUndefined();
+    });
+
+    it('should hide the listing from everyone else', async () => {
+      await request(app)
+        .get(`/api/properties/${propertyId}`)
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(404);
+
+      await request(app).get(`/api/properties/${propertyId}`).expect(404);
+    });
+
+    it('should show the owner the full listing', async () => {
+      const response = await request(app)
+        .get(`/api/properties/${propertyId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      expect(response.body.data.property.price).toBe(450000);
+      expect(response.body.data.property.comingSoon).toBeUndefined();
+    });
+  });
+});
@@ -3,7 +3,11 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { prisma } from '@eu-real-estate/database';
 import { UserRole, PropertyType, ListingType, PropertyStatus } from '@eu-real-estate/database';
-import app from '../main';
+import { createTestUser } from './setup';
+import { PropertyLifecycleService } from '../services/property-lifecycle.service';
+import { createApp } from '../app';
+
+const app = createApp();
 
 // Mock AWS S3 service
 jest.mock('../services/file-upload.service', () => ({
@@ -385,7 +389,7 @@ describe('Property API', () => {
           title: 'Original Title',
           description: 'Original description',
           price: 300000,
-          propertyType: PropertyType.APARTMENT,
+          propertyType: PropertyType.HOUSE,
           listingType: ListingType.SALE,
           status: PropertyStatus.DRAFT,
           ownerId: agentId,
@@ -448,6 +452,177 @@ describe('Property API', () => {
     });
   });
 
+  describe('PATCH /api/properties/:id/status', () => {
+    let propertyId: string;
+    let adminToken: string;
+
+    beforeEach(async () => {
+      await prisma.auditLog.deleteMany({ where: { action: 'COMPLIANCE_OVERRIDE' } });
+
+      const admin = await createTestUser('admin@example.com', UserRole.ADMIN);
+      adminToken = admin.token;
+
+      // German apartment sales need an energy certificate among other things
+      const property = await prisma.property.create({
+        data: {
+          title: 'Apartment without energy certificate',
+          description: 'Listing that is missing the mandatory German disclosures',
+          price: 300000,
+          propertyType: PropertyType.APARTMENT,
+          listingType: ListingType.SALE,
+          status: PropertyStatus.DRAFT,
+          ownerId: agentId,
+          address: {
+            create: {
+              street: '123 Test Street',
+              city: 'Berlin',
+              postcode: '10115',
+              country: 'DE',
+            },
+          },
+        },
+      });
+      propertyId = property.id;
+    });
+
+    it('should block publishing a non-compliant listing', async () => {
+      const response = await request(app)
+        .patch(`/api/properties/${propertyId}/status`)
+        .set('Authorization', `Bearer ${agentToken}`)
+        .send({ status: PropertyStatus.ACTIVE })
+        .expect(422);
+
+      expect(response.body.error.code).toBe('COMPLIANCE_VIOLATION');
+      expect(response.body.error.details.country).toBe('DE');
+      expect(response.body.error.details.violations).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ field: 'energyRating', rule: 'de_residential_sale', severity: 'error' }),
+        ])
+      );
+
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property?.status).toBe(PropertyStatus.DRAFT);
+    });
+
+    it('should apply the gate when publishing through a full update', async () => {
+      const before = await prisma.property.findUniqueOrThrow({ where: { id: propertyId } });
+
+      const response = await request(app)
+        .put(`/api/properties/${propertyId}`)
+        .set('Authorization', `Bearer ${agentToken}`)
+        .send({ title: 'Apartment in Mitte', status: PropertyStatus.ACTIVE })
+        .expect(422);
+
+      expect(response.body.error.code).toBe('COMPLIANCE_VIOLATION');
+
+      // A rejected status change leaves the other fields unsaved too
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property).toMatchObject({ title: before.title, status: PropertyStatus.DRAFT });
+      expect(before.title).not.toBe('Apartment in Mitte');
+    });
+
+    it('should not let the owner override the compliance check', async () => {
+      const response = await request(app)
+        .patch(`/api/properties/${propertyId}/status`)
+        .set('Authorization', `Bearer ${agentToken}`)
+        .send({
+          status: PropertyStatus.ACTIVE,
+          overrideCompliance: true,
+          overrideReason: 'Certificate is on its way',
+        })
+        .expect(403);
+
+      expect(response.body.error.code).toBe('COMPLIANCE_OVERRIDE_DENIED');
+    });
+
+    it('should require a reason for an override', async () => {
+      const response = await request(app)
+        .patch(`/api/properties/${propertyId}/status`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ status: PropertyStatus.ACTIVE, overrideCompliance: true })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should let an admin override and record it in the audit log', async () => {
+      const response = await request(app)
+        .patch(`/api/properties/${propertyId}/status`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          status: PropertyStatus.ACTIVE,
+          overrideCompliance: true,
+          overrideReason: 'Energy certificate verified offline by the compliance team',
+        })
+        .expect(200);
+
+      expect(response.body.data.property.status).toBe(PropertyStatus.ACTIVE);
+
+      const auditLog = await prisma.auditLog.findFirst({
+        where: { action: 'COMPLIANCE_OVERRIDE', resourceId: propertyId },
+      });
+
+      expect(auditLog).toBeTruthy();
+      expect(JSON.parse(auditLog!.newData!).reason).toBe('Energy certificate verified offline by the compliance team');
+      expect(JSON.parse(auditLog!.oldData!).violations.length).toBeGreaterThan(0);
+    });
+
+    it('should not record an override when the status change fails', async () => {
+      const applyTransition = jest.spyOn(PropertyLifecycleService, 'applyTransition')
+        .mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await request(app)
+        .patch(`/api/properties/${propertyId}/status`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          status: PropertyStatus.ACTIVE,
+          overrideCompliance: true,
+          overrideReason: 'Energy certificate verified offline by the compliance team',
+        })
+        .expect(500);
+
+      applyTransition.mockRestore();
+      expect(await prisma.auditLog.count({ where: { action: 'COMPLIANCE_OVERRIDE', resourceId: propertyId } })).toBe(0);
+    });
+
+    it('should block publishing a listing without a country unless an admin overrides it', async () => {
+      const listing = await prisma.property.create({
+        data: {
+          title: 'Apartment without an address',
+          description: 'Listing whose country is not known yet',
+          price: 300000,
+          propertyType: PropertyType.APARTMENT,
+          listingType: ListingType.SALE,
+          status: PropertyStatus.DRAFT,
+          ownerId: agentId,
+        },
+      });
+
+      const response = await request(app)
+        .patch(`/api/properties/${listing.id}/status`)
+        .set('Authorization', `Bearer ${agentToken}`)
+        .send({ status: PropertyStatus.ACTIVE })
+        .expect(422);
+
+      expect(response.body.error.code).toBe('COUNTRY_REQUIRED');
+
+      await request(app)
+        .patch(`/api/properties/${listing.id}/status`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          status: PropertyStatus.ACTIVE,
+          overrideCompliance: true,
+          overrideReason: 'Address is being corrected by the listing agent',
+        })
+        .expect(200);
+
+      const auditLog = await prisma.auditLog.findFirst({
+        where: { action: 'COMPLIANCE_OVERRIDE', resourceId: listing.id },
+      });
+      expect(JSON.parse(auditLog!.oldData!)).toMatchObject({ country: null, violations: [] });
+    });
+  });
+
   describe('DELETE /api/properties/:id', () => {
     let propertyId: string;
 
@@ -0,0 +1,220 @@
+import request from 'supertest';
+import { prisma, redis } from '@eu-real-estate/database';
+import { UserRole } from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import {
+  MemoryRateLimitStore,
+  RateLimitService,
+  RateLimitStore,
+  RedisRateLimitStore,
+  createRateLimitStore,
+} from '../services/rate-limit.service';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Rate limiting', () => {
+  const partnerKey = 'eure_partner_test_key';
+
+  let buyerId: string;
+  let buyerToken: string;
+  let agentToken: string;
+  let adminToken: string;
+
+  beforeAll(() => {
+    process.env['VALID_API_KEYS'] = partnerKey;
+  });
+
+  beforeEach(async () => {
+    RateLimitService.setStore(new MemoryRateLimitStore());
+
+    await prisma.user.deleteMany();
+
+    const buyer = await createTestUser('buyer@example.com', UserRole.BUYER);
+    const agent = await createTestUser('agent@example.com', UserRole.AGENT);
+    const admin = await createTestUser('admin@example.com', UserRole.ADMIN);
+    buyerId = buyer.id;
+    buyerToken = buyer.token;
+    agentToken = agent.token;
+    adminToken = admin.token;
+  });
+
+  describe('quotas', () => {
+    it('should send standard RateLimit headers', async () => {
+      const response = await request(app)
+        .get('/api')
+        .expect(200);
+
+      expect(response.headers['ratelimit-policy']).toBe('100;w=900');
+      expect(response.headers['ratelimit-limit']).toBe('100');
+      expect(response.headers['ratelimit-remaining']).toBe('99');
+      expect(Number(response.headers['ratelimit-reset'])).toBeGreaterThan(0);
+    });
+
+    it('should size the quota by role and partner API key', async () => {
+      const buyer = await request(app).get('/api').set('Authorization', `Bearer ${buyerToken}`);
+      const agent = await request(app).get('/api').set('Authorization', `Bearer ${agentToken}`);
+      const partner = await request(app).get('/api').set('X-API-Key', partnerKey);
+      const unknownKey = await request(app).get('/api').set('X-API-Key', 'eure_unknown');
+
+      expect(buyer.headers['ratelimit-limit']).toBe('300');
+      expect(agent.headers['ratelimit-limit']).toBe('1000');
+      expect(partner.headers['ratelimit-limit']).toBe('5000');
+      expect(unknownKey.headers['ratelimit-limit']).toBe('100');
+    });
+
+    it('should limit login attempts separately from the rest of the API', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await request(app).post('/api/auth/login').send({}).expect(400);
+      }
+
+      const blocked = await request(app)
+        .post('/api/auth/login')
+        .send({})
+        .expect(429);
+
+      expect(blocked.body.error.code).toBe('RATE_LIMIT_EXCEEDED');
+      expect(blocked.headers['ratelimit-remaining']).toBe('0');
+      expect(Number(blocked.headers['retry-after'])).toBeGreaterThan(0);
+
+      await request(app).get('/api').expect(200);
+    });
+
+    it('should not let concurrent requests past the limit', async () => {
+      const responses = await Promise.all(
+        Array.from({ length: 12 }, () => request(app).post('/api/auth/login').send({}))
+      );
+
+      expect(responses.filter(response => response.status !== 429)).toHaveLength(5);
+    });
+
+    it('should refill the bucket over the window', async () => {
+      const store = new MemoryRateLimitStore();
+      const quota = { limit: 2, windowMs: 1000 };
+
+      expect((await store.consume('bucket', quota))!.allowed).toBe(true);
+      expect((await store.consume('bucket', quota))!.allowed).toBe(true);
+      expect((await store.consume('bucket', quota))!.allowed).toBe(false);
+
+      await new Promise(resolve => setTimeout(resolve, 600));
+      expect((await store.consume('bucket', quota))!.allowed).toBe(true);
+    });
+
+    it('should reject an unknown store type', () => {
+      expect(() => createRateLimitStore('memcached')).toThrow('Unknown rate limit store "memcached"');
+    });
+  });
+
+  describe('Redis store', () => {
+    beforeAll(async () => {
+      await redis.connect();
+    });
+
+    afterAll(async () => {
+      await redis.disconnect();
+    });
+
+    beforeEach(async () => {
+      const keys = await redis.scanKeys('rl:*');
+      if (keys.length > 0) await redis.del(keys);
+      RateLimitService.setStore(new RedisRateLimitStore());
+    });
+
+    it('should block once the shared bucket is empty', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await request(app).post('/api/auth/login').send({}).expect(400);
+      }
+
+      const blocked = await request(app)
+        .post('/api/auth/login')
+        .send({})
+        .expect(429);
+
+      expect(blocked.headers['ratelimit-remaining']).toBe('0');
+      expect(await redis.scanKeys('rl:login:*')).toHaveLength(1);
+    });
+
+    it('should keep limiting logins in the process while the store is down', async () => {
+      const unavailable: RateLimitStore = {
+        consume: async () => null,
+        get: async () => null,
+        delete: async () => undefined,
+      };
+      RateLimitService.setStore(unavailable);
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await request(app).post('/api/auth/login').send({}).expect(400);
+      }
+
+      await request(app).post('/api/auth/login').send({}).expect(429);
+
+      // The rest of the API is let through without headers
+      const response = await request(app).get('/api').expect(200);
+      expect(response.headers['ratelimit-limit']).toBeUndefined();
+    });
+  });
+
+  describe('admin endpoints', () => {
+    const exhaustLogin = async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await request(app).post('/api/auth/login').set('Authorization', `Bearer ${buyerToken}`).send({});
+      }
+    };
+
+    it('should show the buckets of a user', async () => {
+      await exhaustLogin();
+
+      const response = await request(app)
+        .post('/api/security/rate-limits/inspect')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ userId: buyerId })
+        .expect(200);
+
+      const login = response.body.data.buckets.find((bucket: any) => bucket.group === 'login');
+      expect(login).toMatchObject({ key: `rl:login:user:${buyerId}`, remaining: 0, tracked: true });
+      expect(login.quota.limit).toBe(5);
+
+      const search = response.body.data.buckets.find((bucket: any) => bucket.group === 'search');
+      expect(search).toMatchObject({ remaining: 120, tracked: false });
+    });
+
+    it('should reset the buckets of a user', async () => {
+      await exhaustLogin();
+      await request(app)
+        .post('/api/auth/login')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({})
+        .expect(429);
+
+      const response = await request(app)
+        .post('/api/security/rate-limits/reset')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ userId: buyerId, group: 'login' })
+        .expect(200);
+
+      expect(response.body.data.keys).toEqual([`rl:login:user:${buyerId}`]);
+
+      await request(app)
+        .post('/api/auth/login')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({})
+        .expect(400);
+    });
+
+    it('should require exactly one of ip, userId or apiKey', async () => {
+      await request(app)
+        .post('/api/security/rate-limits/inspect')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ ip: '203.0.113.7', userId: buyerId })
+        .expect(400);
+    });
+
+    it('should be admin only', async () => {
+      await request(app)
+        .post('/api/security/rate-limits/reset')
+        .set('Authorization', `Bearer ${agentToken}`)
+        .send({ ip: '203.0.113.7' })
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { io as connect, Socket } from 'socket.io-client';
+import { prisma } from '@eu-real-estate/database';
+import { UserRole, PropertyType, ListingType, TransactionType } from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { TokenService } from '../services/token.service';
+import { RealtimeCluster, startRealtimeCluster } from './support/realtime-cluster';
+
+describe('Realtime messaging across replicas', () => {
+  let cluster: RealtimeCluster;
+  let buyerId: string;
+  let sellerId: string;
+  let buyerToken: string;
+  let sellerToken: string;
+  let transactionId: string;
+  const sockets: Socket[] = [];
+
+  const openSocket = (url: string, token: string) =>
+    new Promise<Socket>((resolve, reject) => {
+      const socket = connect(url, { auth: { token }, transports: ['websocket'], forceNew: true });
+      sockets.push(socket);
+      socket.once('connect', () => resolve(socket));
+      socket.once('connect_error', reject);
+    });
+
+  const nextEvent = <T = any>(socket: Socket, event: string) =>
+    new Promise<T>(resolve => socket.once(event, resolve));
+
+  const joinTransaction = (socket: Socket, id: string) =>
+    new Promise<{ success: boolean }>(resolve => socket.emit('join_transaction', id, resolve));
+
+  // Presence is written after the handshake, so poll instead of racing it
+  const waitFor = async (condition: () => Promise<boolean>) => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      if (await condition()) return;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error('Condition not met in time');
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(TokenService, 'isTokenBlacklisted').mockResolvedValue(false);
+
+    await prisma.transaction.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const buyer = await createTestUser('buyer@example.com', UserRole.BUYER);
+    const seller = await createTestUser('seller@example.com', UserRole.SELLER);
+
+    buyerId = buyer.id;
+    sellerId = seller.id;
+    buyerToken = buyer.token;
+    sellerToken = seller.token;
+
+    const property = await prisma.property.create({
+      data: {
+        title: 'House in Porto',
+        description: 'Riverside townhouse',
+        price: 390000,
+        propertyType: PropertyType.HOUSE,
+        listingType: ListingType.SALE,
+        ownerId: sellerId,
+      },
+    });
+
+    const transaction = await prisma.transaction.create({
+      data: { propertyId: property.id, buyerId, sellerId, type: TransactionType.PURCHASE },
+    });
+    transactionId = transaction.id;
+
+    cluster = await startRealtimeCluster(2);
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach(socket => socket.disconnect());
+    await cluster.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should deliver server emits to a user connected to another replica', async () => {
+    const [nodeA, nodeB] = cluster.nodes;
+    const buyer = await openSocket(nodeA.url, buyerToken);
+    const received = nextEvent(buyer, 'new_message');
+
+    nodeB.io.to(`user:${buyerId}`).emit('new_message', { content: 'Offer accepted' });
+
+    expect(await received).toEqual({ content: 'Offer accepted' });
+  });
+
+  it('should relay typing indicators between replicas in a transaction room', async () => {
+    const [nodeA, nodeB] = cluster.nodes;
+    const buyer = await openSocket(nodeA.url, buyerToken);
+    const seller = await openSocket(nodeB.url, sellerToken);
+
+    expect(await joinTransaction(buyer, transactionId)).toMatchObject({ success: true });
+    expect(await joinTransaction(seller, transactionId)).toMatchObject({ success: true });
+
+    const typing = nextEvent(seller, 'user_typing');
+    buyer.emit('typing_start', { transactionId });
+
+    expect(await typing).toEqual({ userId: buyerId, isTyping: true });
+  });
+
+  it('should share presence between replicas', async () => {
+    const [nodeA, nodeB] = cluster.nodes;
+    const first = await openSocket(nodeA.url, buyerToken);
+    const second = await openSocket(nodeB.url, buyerToken);
+
+    await waitFor(() => nodeB.presence.isUserOnline(buyerId));
+    expect(await nodeB.presence.getOnlineUsers()).toEqual([buyerId]);
+    expect(await nodeA.presence.isUserOnline(sellerId)).toBe(false);
+
+    first.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(await nodeB.presence.isUserOnline(buyerId)).toBe(true);
+
+    second.disconnect();
+    await waitFor(async () => !(await nodeA.presence.isUserOnline(buyerId)));
+    expect(await nodeA.presence.getOnlineUsers()).toEqual([]);
+  });
+});
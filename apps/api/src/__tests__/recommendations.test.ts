@@ -0,0 +1,147 @@
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import { UserRole, PropertyType, ListingType, PropertyStatus } from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Recommendations', () => {
+  let buyerId: string;
+  let buyerToken: string;
+  let ownerId: string;
+  let newBuildTagId: string;
+
+  const createListing = (
+    title: string,
+    data: { price: number; city: string; country?: string; bedrooms: number; propertyType?: string; tagged?: boolean; ownedBy?: string }
+  ) =>
+    prisma.property.create({
+      data: {
+        title,
+        description: 'Listing used by the recommendation tests',
+        price: data.price,
+        priceEur: data.price,
+        propertyType: data.propertyType || PropertyType.APARTMENT,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.ACTIVE,
+        ownerId: data.ownedBy || ownerId,
+        publishedAt: new Date(),
+        address: { create: { street: 'Teststraße 1', city: data.city, postcode: '10117', country: data.country || 'DE' } },
+        features: { create: { bedrooms: data.bedrooms } },
+        tags: data.tagged ? { create: { tagId: newBuildTagId } } : undefined,
+      },
+    });
+
+  beforeEach(async () => {
+    await prisma.propertyView.deleteMany();
+    await prisma.savedSearch.deleteMany();
+    await prisma.propertyFavorite.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.propertyTag.deleteMany();
+    await prisma.user.deleteMany();
+
+    const owner = await createTestUser('agent@example.com', UserRole.AGENT);
+    const buyer = await createTestUser('buyer@example.com', UserRole.BUYER);
+    ownerId = owner.id;
+    buyerId = buyer.id;
+    buyerToken = buyer.token;
+
+    const tag = await prisma.propertyTag.create({ data: { name: 'New Build', category: 'Condition' } });
+    newBuildTagId = tag.id;
+  });
+
+  describe('GET /api/recommendations', () => {
+    it('should rank listings like the ones the user saved and explain why', async () => {
+      const saved = await Promise.all([
+        createListing('Flat in Mitte', { price: 400000, city: 'Berlin', bedrooms: 2, tagged: true }),
+        createListing('Flat in Prenzlauer Berg', { price: 440000, city: 'Berlin', bedrooms: 2, tagged: true }),
+      ]);
+      await prisma.propertyFavorite.createMany({
+        data: saved.map(property => ({ userId: buyerId, propertyId: property.id })),
+      });
+      await prisma.savedSearch.create({
+        data: {
+          userId: buyerId,
+          name: 'Berlin flats',
+          criteria: JSON.stringify({ city: 'Berlin', propertyType: ['APARTMENT'], priceMax: 500000 }),
+        },
+      });
+
+      const match = await createListing('New build in Friedrichshain', { price: 420000, city: 'Berlin', bedrooms: 2, tagged: true });
+      const penthouse = await createListing('Penthouse in Munich', { price: 1500000, city: 'Munich', bedrooms: 6 });
+      await createListing('Villa in Munich', { price: 1500000, city: 'Munich', bedrooms: 6, propertyType: PropertyType.HOUSE });
+      await createListing('Flat the buyer is selling', { price: 410000, city: 'Berlin', bedrooms: 2, ownedBy: buyerId });
+
+      const response = await request(app)
+        .get('/api/recommendations')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(200);
+
+      const { recommendations, profile } = response.body.data;
+      expect(profile.signals).toEqual({ favorites: 2, savedSearches: 1, views: 0, messages: 0 });
+      expect(profile.priceBand).toEqual({ min: 300000, max: 500000 });
+      expect(profile.locations[0]).toMatchObject({ city: 'Berlin', country: 'DE' });
+
+      // Saved homes, the buyer's own listing and listings sharing nothing with the profile are left out
+      expect(recommendations.map((recommendation: any) => recommendation.property.id)).toEqual([match.id, penthouse.id]);
+      expect(recommendations[0].score).toBeGreaterThan(recommendations[1].score);
+      expect(recommendations[0].reasons.map((reason: any) => reason.message)).toEqual([
+        'Similar to 2 homes you saved',
+        'Matches your saved search "Berlin flats"',
+        'In Berlin, where you\'ve been looking',
+        'Within your usual €300,000–€500,000 budget',
+        '2 bedrooms, like the homes you looked at',
+        'Tagged New Build',
+      ]);
+      expect(recommendations[1].reasons).toEqual([]);
+    });
+
+    it('should learn from listings the user viewed', async () => {
+      const viewed = await createListing('Flat in Lisbon', { price: 300000, city: 'Lisbon', country: 'PT', bedrooms: 1 });
+      const nearby = await createListing('Flat in Alfama', { price: 320000, city: 'Lisbon', country: 'PT', bedrooms: 1 });
+
+      await request(app)
+        .get(`/api/properties/${viewed.id}`)
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/recommendations')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .query({ limit: 1 })
+        .expect(200);
+
+      const { recommendations, profile } = response.body.data;
+      expect(profile.signals.views).toBe(1);
+      // Viewed listings are still recommended, but similar ones rank first
+      expect(recommendations).toHaveLength(1);
+      expect(recommendations[0].property.id).toBe(nearby.id);
+      expect(recommendations[0].reasons[0].type).toBe('LOCATION');
+    });
+
+    it('should fall back to popular listings for new users', async () => {
+      await prisma.user.update({ where: { id: buyerId }, data: { country: 'DE' } });
+      const popular = await createListing('Popular flat', { price: 350000, city: 'Berlin', bedrooms: 2 });
+      await prisma.property.update({ where: { id: popular.id }, data: { viewCount: 50 } });
+      await createListing('Quiet flat', { price: 350000, city: 'Hamburg', bedrooms: 2 });
+      await createListing('Flat in Porto', { price: 250000, city: 'Porto', country: 'PT', bedrooms: 2 });
+
+      const response = await request(app)
+        .get('/api/recommendations')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(200);
+
+      const { recommendations } = response.body.data;
+      expect(recommendations).toHaveLength(2);
+      expect(recommendations[0].property.id).toBe(popular.id);
+      expect(recommendations[0].reasons).toEqual([{ type: 'POPULAR', message: 'Popular in DE' }]);
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/recommendations')
+        .expect(401);
+    });
+  });
+});
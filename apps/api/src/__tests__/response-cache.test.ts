@@ -0,0 +1,150 @@
+import request from 'supertest';
+import { prisma, redis } from '@eu-real-estate/database';
+import { UserRole, PropertyType, ListingType, PropertyStatus } from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { CacheService } from '../services/cache.service';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Response cache', () => {
+  let agentToken: string;
+  let adminToken: string;
+  let propertyId: string;
+
+  beforeAll(async () => {
+    await redis.connect();
+  });
+
+  afterAll(async () => {
+    await redis.disconnect();
+  });
+
+  beforeEach(async () => {
+    await CacheService.clear();
+    await prisma.propertyToTag.deleteMany();
+    await prisma.propertyTag.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const agent = await createTestUser('agent@example.com', UserRole.AGENT);
+    const admin = await createTestUser('admin@example.com', UserRole.ADMIN);
+    agentToken = agent.token;
+    adminToken = admin.token;
+
+    const property = await prisma.property.create({
+      data: {
+        title: 'Canal house in Amsterdam',
+        description: 'Listing used by the response cache tests',
+        price: 850000,
+        priceEur: 850000,
+        propertyType: PropertyType.HOUSE,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.ACTIVE,
+        ownerId: agent.id,
+        address: { create: { street: 'Herengracht 1', city: 'Amsterdam', postcode: '1015', country: 'NL' } },
+      },
+    });
+    propertyId = property.id;
+  });
+
+  describe('property detail', () => {
+    it('should serve repeat requests from the cache', async () => {
+      const first = await request(app).get(`/api/properties/${propertyId}`).expect(200);
+      const second = await request(app).get(`/api/properties/${propertyId}`).expect(200);
+
+      expect(first.headers['x-cache']).toBe('MISS');
+      expect(second.headers['x-cache']).toBe('HIT');
+      expect(second.body).toEqual(first.body);
+    });
+
+    it('should answer 304 when the ETag still matches', async () => {
+      const first = await request(app).get(`/api/properties/${propertyId}`).expect(200);
+      const etag = first.headers['etag'];
+      expect(etag).toMatch(/^W\/"/);
+
+      const revalidated = await request(app)
+        .get(`/api/properties/${propertyId}`)
+        .set('If-None-Match', etag)
+        .expect(304);
+
+      expect(revalidated.headers['etag']).toBe(etag);
+      expect(revalidated.text).toBe('');
+    });
+
+    it('should drop the cached response when the property is updated', async () => {
+      const first = await request(app).get(`/api/properties/${propertyId}`).expect(200);
+
+      await request(app)
+        .put(`/api/properties/${propertyId}`)
+        .set('Authorization', `Bearer ${agentToken}`)
+        .send({ title: 'Renovated canal house in Amsterdam' })
+        .expect(200);
+
+      const after = await request(app)
+        .get(`/api/properties/${propertyId}`)
+        .set('If-None-Match', first.headers['etag'])
+        .expect(200);
+
+      expect(after.headers['x-cache']).toBe('MISS');
+      expect(after.headers['etag']).not.toBe(first.headers['etag']);
+      expect(after.body.data.property.title).toBe('Renovated canal house in Amsterdam');
+    });
+
+    it('should count views answered from the cache', async () => {
+      await request(app).get(`/api/properties/${propertyId}`).expect(200);
+      await request(app).get(`/api/properties/${propertyId}`).expect(200);
+
+      const property = await prisma.property.findUnique({ where: { id: propertyId } });
+      expect(property!.viewCount).toBe(2);
+    });
+  });
+
+  describe('tags', () => {
+    it('should drop cached tag lists when a tag is created', async () => {
+      await request(app).get('/api/property-tags').expect(200);
+      const cached = await request(app).get('/api/property-tags').expect(200);
+      expect(cached.headers['x-cache']).toBe('HIT');
+
+      await request(app)
+        .post('/api/property-tags')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Waterfront', category: 'location' })
+        .expect(201);
+
+      const after = await request(app).get('/api/property-tags').expect(200);
+      expect(after.headers['x-cache']).toBe('MISS');
+      expect(after.body.data.tags.map((tag: any) => tag.name)).toContain('Waterfront');
+    });
+  });
+
+  describe('invalidateByTags', () => {
+    it('should keep entries tagged while the tag is being invalidated', async () => {
+      await CacheService.set('listing:old', { id: 'old' }, { ttl: 60, tags: ['properties'] });
+
+      // Another replica caches a response between reading and clearing the tag
+      const sMembers = redis.sMembers.bind(redis);
+      jest.spyOn(redis, 'sMembers').mockImplementationOnce(async key => {
+        const members = await sMembers(key);
+        await CacheService.set('listing:new', { id: 'new' }, { ttl: 60, tags: ['properties'] });
+        return members;
+      });
+
+      expect(await CacheService.invalidateByTags(['properties'])).toBe(1);
+      expect(await CacheService.exists('listing:old')).toBe(false);
+      expect(await redis.sMembers('tag:properties')).toEqual(['listing:new']);
+    });
+  });
+
+  describe('delPattern', () => {
+    it('should delete the keys matching a pattern', async () => {
+      await CacheService.set('transaction:abc:detail', { id: 'abc' });
+      await CacheService.set('transaction:abc:milestones', []);
+      await CacheService.set('transaction:xyz:detail', { id: 'xyz' });
+
+      expect(await CacheService.delPattern('transaction:abc:*')).toBe(2);
+      expect(await CacheService.exists('transaction:abc:detail')).toBe(false);
+      expect(await CacheService.exists('transaction:xyz:detail')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import {
+  UserRole,
+  PropertyType,
+  ListingType,
+  PropertyStatus,
+  TransactionStatus,
+  TransactionType,
+  ReviewStatus,
+} from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { ReviewService } from '../services/review.service';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Reviews API', () => {
+  let buyerToken: string;
+  let agentToken: string;
+  let adminToken: string;
+  let buyerId: string;
+  let agentId: string;
+  let sellerId: string;
+  let propertyId: string;
+  let transactionId: string;
+
+  beforeEach(async () => {
+    await prisma.review.deleteMany();
+    await prisma.auditLog.deleteMany({ where: { action: 'REVIEW_MODERATED' } });
+    await prisma.transaction.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const buyer = await createTestUser('buyer@example.com', UserRole.BUYER);
+    const agent = await createTestUser('agent@example.com', UserRole.AGENT);
+    const seller = await createTestUser('seller@example.com', UserRole.SELLER);
+    const admin = await createTestUser('admin@example.com', UserRole.ADMIN);
+
+    buyerId = buyer.id;
+    agentId = agent.id;
+    sellerId = seller.id;
+    buyerToken = buyer.token;
+    agentToken = agent.token;
+    adminToken = admin.token;
+
+    const property = await prisma.property.create({
+      data: {
+        title: 'Townhouse in Lisbon',
+        description: 'Renovated townhouse close to the river',
+        price: 520000,
+        propertyType: PropertyType.HOUSE,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.SOLD,
+        ownerId: agentId,
+      },
+    });
+    propertyId = property.id;
+
+    const transaction = await prisma.transaction.create({
+      data: {
+        propertyId,
+        buyerId,
+        sellerId,
+        agentId,
+        type: TransactionType.PURCHASE,
+        status: TransactionStatus.COMPLETED,
+        completionDate: new Date(),
+      },
+    });
+    transactionId = transaction.id;
+  });
+
+  describe('POST /api/reviews', () => {
+    it('should verify and publish a review of a completed transaction', async () => {
+      const response = await request(app)
+        .post('/api/reviews')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({ targetId: agentId, transactionId, rating: 5, content: 'Handled the whole sale brilliantly' })
+        .expect(201);
+
+      expect(response.body.data.review).toMatchObject({
+        isVerified: true,
+        status: ReviewStatus.PUBLISHED,
+        targetRole: 'AGENT',
+        propertyId,
+      });
+    });
+
+    it('should find the completed transaction when only the property is given', async () => {
+      const response = await request(app)
+        .post('/api/reviews')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({ targetId: sellerId, propertyId, rating: 4, content: 'Smooth handover of the keys' })
+        .expect(201);
+
+      expect(response.body.data.review).toMatchObject({ isVerified: true, transactionId, targetRole: 'SELLER' });
+    });
+
+    it('should allow one review per reviewer per transaction', async () => {
+      const review = { targetId: agentId, transactionId, rating: 5, content: 'Handled the whole sale brilliantly' };
+
+      await request(app).post('/api/reviews').set('Authorization', `Bearer ${buyerToken}`).send(review).expect(201);
+
+      const response = await request(app)
+        .post('/api/reviews')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({ ...review, targetId: sellerId })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('REVIEW_EXISTS');
+    });
+
+    it('should reject reviews of transactions that are not completed', async () => {
+      await prisma.transaction.update({ where: { id: transactionId }, data: { status: TransactionStatus.ACCEPTED } });
+
+      const response = await request(app)
+        .post('/api/reviews')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({ targetId: agentId, transactionId, rating: 2, content: 'Still waiting for the deed' })
+        .expect(409);
+
+      expect(response.body.error.code).toBe('TRANSACTION_NOT_COMPLETED');
+    });
+
+    it('should queue unverified reviews for moderation', async () => {
+      const visitor = await createTestUser('visitor@example.com', UserRole.BUYER);
+
+      const response = await request(app)
+        .post('/api/reviews')
+        .set('Authorization', `Bearer ${visitor.token}`)
+        .send({ targetId: agentId, propertyId, rating: 3, content: 'Viewing started twenty minutes late' })
+        .expect(201);
+
+      expect(response.body.data.review).toMatchObject({ isVerified: false, status: ReviewStatus.PENDING });
+
+      const list = await request(app).get(`/api/reviews?targetId=${agentId}`).expect(200);
+      expect(list.body.data.data).toHaveLength(0);
+    });
+
+    it('should not let users review themselves', async () => {
+      const response = await request(app)
+        .post('/api/reviews')
+        .set('Authorization', `Bearer ${agentToken}`)
+        .send({ targetId: agentId, propertyId, rating: 5, content: 'Best agent in town, trust me' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('CANNOT_REVIEW_SELF');
+    });
+  });
+
+  describe('moderation', () => {
+    let reviewId: string;
+
+    beforeEach(async () => {
+      const review = await ReviewService.createReview(buyerId, {
+        targetId: agentId,
+        transactionId,
+        rating: 1,
+        content: 'Never answered a single email',
+      });
+      reviewId = review.id;
+    });
+
+    it('should put flagged reviews in the admin queue', async () => {
+      await request(app)
+        .post(`/api/reviews/${reviewId}/flag`)
+        .set('Authorization', `Bearer ${agentToken}`)
+        .send({ reason: 'This is not true' })
+        .expect(200);
+
+      await request(app)
+        .get('/api/reviews/moderation')
+        .set('Authorization', `Bearer ${agentToken}`)
+        .expect(403);
+
+      const response = await request(app)
+        .get('/api/reviews/moderation')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.data).toEqual([
+        expect.objectContaining({ id: reviewId, status: ReviewStatus.FLAGGED, flagReason: 'This is not true' }),
+      ]);
+    });
+
+    it('should record moderation decisions in the audit log', async () => {
+      await ReviewService.flagReview(reviewId, agentId, 'This is not true');
+
+      const response = await request(app)
+        .patch(`/api/reviews/${reviewId}/moderation`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ decision: 'REJECT', note: 'Contradicted by the message history' })
+        .expect(200);
+
+      expect(response.body.data.review.status).toBe(ReviewStatus.REJECTED);
+
+      const auditLog = await prisma.auditLog.findFirst({ where: { action: 'REVIEW_MODERATED', resourceId: reviewId } });
+      expect(JSON.parse(auditLog!.newData!)).toEqual({
+        status: ReviewStatus.REJECTED,
+        note: 'Contradicted by the message history',
+      });
+
+      await request(app)
+        .patch(`/api/reviews/${reviewId}/moderation`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ decision: 'APPROVE' })
+        .expect(409);
+    });
+  });
+
+  describe('GET /api/users/:id/reputation', () => {
+    it('should aggregate published reviews per role', async () => {
+      await ReviewService.createReview(buyerId, { targetId: agentId, transactionId, rating: 5, content: 'Handled the whole sale brilliantly' });
+      await ReviewService.createReview(sellerId, { targetId: agentId, transactionId, rating: 4, content: 'Good price, slow paperwork' });
+
+      const response = await request(app).get(`/api/users/${agentId}/reputation`).expect(200);
+
+      expect(response.body.data.reputation.overall).toEqual({
+        average: 4.5,
+        count: 2,
+        verifiedCount: 2,
+        distribution: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 1 },
+      });
+      expect(Object.keys(response.body.data.reputation.roles)).toEqual(['AGENT']);
+    });
+  });
+
+  describe('summarizeRatings', () => {
+    it('should break ratings down by role', () => {
+      const reputation = ReviewService.summarizeRatings('user-1', [
+        { targetRole: 'AGENT', rating: 5, isVerified: true, count: 3 },
+        { targetRole: 'AGENT', rating: 2, isVerified: false, count: 1 },
+        { targetRole: 'SELLER', rating: 4, isVerified: true, count: 2 },
+      ]);
+
+      expect(reputation.overall).toMatchObject({ average: 4.2, count: 6, verifiedCount: 5 });
+      expect(reputation.roles.AGENT).toMatchObject({ average: 4.3, count: 4, distribution: { 1: 0, 2: 1, 3: 0, 4: 0, 5: 3 } });
+      expect(reputation.roles.SELLER).toMatchObject({ average: 4, count: 2 });
+      expect(reputation.roles.BUYER).toBeUndefined();
+    });
+
+    it('should have no average without reviews', () => {
+      expect(ReviewService.summarizeRatings('user-1', []).overall.average).toBeNull();
+    });
+  });
+});
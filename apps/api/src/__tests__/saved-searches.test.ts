@@ -0,0 +1,195 @@
+import request from 'supertest';
+import { prisma, GeoPolygon } from '@eu-real-estate/database';
+import { createTestToken } from './setup';
+import { SavedSearchMatcher, MatchableProperty } from '../utils/saved-search-matcher';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Saved Searches', () => {
+  const berlinApartment: MatchableProperty = {
+    title: 'Bright apartment in Mitte',
+    description: 'Renovated flat close to the river',
+    price: 420000,
+    propertyType: 'APARTMENT',
+    listingType: 'SALE',
+    address: { city: 'Berlin', country: 'DE' },
+    location: { latitude: 52.52, longitude: 13.405 },
+    features: { bedrooms: 2, bathrooms: 1, floorArea: 85, balcony: true, elevator: true, garden: false },
+    amenities: [{ name: 'Gym' }],
+    tags: [{ tag: { name: 'New Build' } }],
+  };
+
+  describe('SavedSearchMatcher', () => {
+    it('should match when every criterion is satisfied', () => {
+      expect(SavedSearchMatcher.matches(berlinApartment, {
+        propertyType: ['APARTMENT'] as any,
+        listingType: 'SALE' as any,
+        priceMin: 300000,
+        priceMax: 500000,
+        bedroomsMin: 2,
+        floorAreaMin: 80,
+        city: 'berlin',
+        features: { balcony: true },
+        amenities: ['gym'],
+        tags: ['New Build'],
+      })).toBe(true);
+    });
+
+    it('should reject properties outside the price or room ranges', () => {
+      expect(SavedSearchMatcher.matches(berlinApartment, { priceMax: 400000 })).toBe(false);
+      expect(SavedSearchMatcher.matches(berlinApartment, { bedroomsMin: 3 })).toBe(false);
+      expect(SavedSearchMatcher.matches(berlinApartment, { floorAreaMax: 60 })).toBe(false);
+    });
+
+    it('should filter by distance from a point', () => {
+      const potsdam = { lat: 52.3906, lon: 13.0645 };
+
+      expect(SavedSearchMatcher.matches(berlinApartment, { location: potsdam, radius: 30 })).toBe(true);
+      expect(SavedSearchMatcher.matches(berlinApartment, { location: potsdam, radius: 10 })).toBe(false);
+    });
+
+    it('should filter by a drawn area', () => {
+      const mitte: GeoPolygon = { type: 'Polygon', coordinates: [[[13.33, 52.50], [13.43, 52.50], [13.43, 52.55], [13.33, 52.55], [13.33, 52.50]]] };
+      const kreuzberg: GeoPolygon = { type: 'Polygon', coordinates: [[[13.38, 52.48], [13.49, 52.48], [13.49, 52.50], [13.38, 52.50], [13.38, 52.48]]] };
+
+      expect(SavedSearchMatcher.matches(berlinApartment, { polygon: mitte })).toBe(true);
+      expect(SavedSearchMatcher.matches(berlinApartment, { polygon: kreuzberg })).toBe(false);
+      expect(SavedSearchMatcher.normalizeCriteria({ polygon: JSON.stringify(mitte) }).polygon).toEqual(mitte);
+      expect(SavedSearchMatcher.normalizeCriteria({ polygon: { type: 'Point', coordinates: [13.4, 52.5] } }).polygon).toBeUndefined();
+    });
+
+    it('should require requested features and tags', () => {
+      expect(SavedSearchMatcher.matches(berlinApartment, { features: { garden: true } })).toBe(false);
+      expect(SavedSearchMatcher.matches(berlinApartment, { features: { garden: false } })).toBe(true);
+      expect(SavedSearchMatcher.matches(berlinApartment, { tags: ['Waterfront'] })).toBe(false);
+    });
+
+    it('should read flat property columns when related rows are missing', () => {
+      const legacyProperty: MatchableProperty = {
+        price: 250000,
+        propertyType: 'HOUSE',
+        listingType: 'SALE',
+        city: 'Munich',
+        bedrooms: 4,
+        garden: true,
+      };
+
+      expect(SavedSearchMatcher.matches(legacyProperty, { city: 'Munich', bedroomsMin: 3, features: { garden: true } })).toBe(true);
+    });
+
+    it('should normalize criteria saved with the legacy keys', () => {
+      const criteria = SavedSearchMatcher.normalizeCriteria(JSON.stringify({
+        city: 'Berlin',
+        propertyType: 'APARTMENT',
+        maxPrice: 500000,
+        minBedrooms: 2,
+        parking: true,
+      }));
+
+      expect(criteria).toEqual({
+        city: 'Berlin',
+        propertyType: ['APARTMENT'],
+        priceMax: 500000,
+        bedroomsMin: 2,
+        features: { parking: true },
+      });
+    });
+
+    it('should treat unreadable criteria as empty', () => {
+      expect(SavedSearchMatcher.normalizeCriteria('not json')).toEqual({});
+    });
+  });
+
+  describe('Saved search API', () => {
+    const buyerToken = createTestToken('test-user-1', 'BUYER');
+    const agentToken = createTestToken('test-user-2', 'AGENT');
+    let savedSearchId: string;
+
+    afterAll(async () => {
+      await prisma.savedSearch.deleteMany({ where: { userId: 'test-user-1' } });
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/saved-searches')
+        .expect(401);
+    });
+
+    it('should create a saved search', async () => {
+      const response = await request(app)
+        .post('/api/saved-searches')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({
+          name: 'Berlin flats',
+          criteria: { city: 'Berlin', propertyType: ['APARTMENT'], priceMax: 500000 },
+          frequency: 'DAILY',
+        })
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.savedSearch.frequency).toBe('DAILY');
+      expect(response.body.data.savedSearch.criteria.priceMax).toBe(500000);
+      expect(response.body.data.savedSearch.city).toBeUndefined();
+      savedSearchId = response.body.data.savedSearch.id;
+    });
+
+    it('should only load searches in the property\'s city and price range for instant alerts', async () => {
+      const findIds = async (property: MatchableProperty) =>
+        (await prisma.savedSearch.findMany({ where: SavedSearchMatcher.buildAlertFilter(property) })).map(search => search.id);
+
+      expect(await findIds(berlinApartment)).toContain(savedSearchId);
+      expect(await findIds({ ...berlinApartment, address: { city: 'BERLIN ', country: 'DE' } })).toContain(savedSearchId);
+      expect(await findIds({ ...berlinApartment, address: { city: 'Munich', country: 'DE' } })).not.toContain(savedSearchId);
+      expect(await findIds({ ...berlinApartment, price: 650000 })).not.toContain(savedSearchId);
+      // Without a rate the price can't be compared to the search's range
+      expect(await findIds({ ...berlinApartment, currency: 'PLN' })).not.toContain(savedSearchId);
+    });
+
+    it('should validate the criteria', async () => {
+      const response = await request(app)
+        .post('/api/saved-searches')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({
+          name: 'Near me',
+          criteria: { location: { lat: 52.52, lon: 13.405 } },
+        })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should list the user\'s saved searches', async () => {
+      const response = await request(app)
+        .get('/api/saved-searches')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(200);
+
+      expect(response.body.data.savedSearches).toHaveLength(1);
+    });
+
+    it('should update the delivery frequency', async () => {
+      const response = await request(app)
+        .put(`/api/saved-searches/${savedSearchId}`)
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({ frequency: 'WEEKLY' })
+        .expect(200);
+
+      expect(response.body.data.savedSearch.frequency).toBe('WEEKLY');
+    });
+
+    it('should not expose other users\' saved searches', async () => {
+      await request(app)
+        .delete(`/api/saved-searches/${savedSearchId}`)
+        .set('Authorization', `Bearer ${agentToken}`)
+        .expect(404);
+    });
+
+    it('should delete a saved search', async () => {
+      await request(app)
+        .delete(`/api/saved-searches/${savedSearchId}`)
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(200);
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import {
+  EmbeddedSearchBackend,
+  ElasticsearchSearchBackend,
+  createSearchBackend,
+  PropertyIndexDocument,
+} from '@eu-real-estate/search';
+import { GeoPolygon, GeoPosition, encodeGeohash, decodeGeohashBounds, isPointInBounds } from '@eu-real-estate/database';
+
+describe('Search backends', () => {
+  const buildDocument = (overrides: Partial<PropertyIndexDocument> & { id: string }): PropertyIndexDocument => ({
+    title: 'Apartment',
+    description: 'Bright apartment',
+    price: 250000,
+    currency: 'EUR',
+    propertyType: 'APARTMENT',
+    listingType: 'SALE',
+    status: 'ACTIVE',
+    bedrooms: 2,
+    bathrooms: 1,
+    floorArea: 80,
+    address: { street: 'Main Street 1', city: 'Lisbon', postcode: '1000-001', country: 'PT' },
+    features: { garden: false, parking: false, furnished: false, petFriendly: false },
+    amenities: [],
+    images: [],
+    owner: { id: 'owner-1', name: 'Ana Costa' },
+    viewCount: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+    // Euro listings need no conversion
+    priceEur: overrides.priceEur ?? overrides.price ?? 250000,
+  });
+
+  describe('createSearchBackend', () => {
+    it('should select the backend by name', () => {
+      expect(createSearchBackend('embedded')).toBeInstanceOf(EmbeddedSearchBackend);
+      expect(createSearchBackend('elasticsearch')).toBeInstanceOf(ElasticsearchSearchBackend);
+    });
+
+    it('should reject unknown backends', () => {
+      expect(() => createSearchBackend('solr')).toThrow('Unknown search backend');
+    });
+  });
+
+  describe('EmbeddedSearchBackend', () => {
+    let backend: EmbeddedSearchBackend;
+
+    beforeEach(async () => {
+      backend = new EmbeddedSearchBackend();
+      await backend.indexDocuments([
+        buildDocument({
+          id: 'lisbon-flat',
+          title: 'Renovated flat in Alfama',
+          description: 'Flat with river views and a balcony',
+          price: 320000,
+          features: { garden: false, parking: true, furnished: true, petFriendly: false },
+          amenities: ['elevator', 'storage'],
+          location: { lat: 38.7115, lon: -9.1300 },
+          updatedAt: '2026-03-01T00:00:00.000Z',
+        }),
+        buildDocument({
+          id: 'porto-house',
+          title: 'Townhouse near Ribeira',
+          description: 'Family house with garden',
+          price: 540000,
+          propertyType: 'HOUSE',
+          bedrooms: 4,
+          address: { street: 'Rua das Flores 12', city: 'Porto', postcode: '4050-001', country: 'PT' },
+          features: { garden: true, parking: true, furnished: false, petFriendly: true },
+          amenities: ['storage'],
+          location: { lat: 41.1413, lon: -8.6110 },
+          updatedAt: '2026-02-01T00:00:00.000Z',
+        }),
+        buildDocument({
+          id: 'krakow-flat',
+          title: 'Flat in Kraków old town',
+          description: 'Compact flat close to the Rynek',
+          price: 180000,
+          currency: 'PLN',
+          priceEur: 42110,
+          address: { street: 'Floriańska 5', city: 'Kraków', postcode: '31-019', country: 'PL' },
+          updatedAt: '2026-04-01T00:00:00.000Z',
+        }),
+        buildDocument({
+          id: 'draft-flat',
+          title: 'Unpublished flat in Lisbon',
+          status: 'DRAFT',
+        }),
+      ]);
+    });
+
+    it('should return active documents newest first by default', async () => {
+      const result = await backend.search({});
+
+      expect(result.properties.map(hit => hit.id)).toEqual(['krakow-flat', 'lisbon-flat', 'porto-house']);
+      expect(result).toMatchObject({ total: 3, page: 1, limit: 10, totalPages: 1 });
+    });
+
+    it('should match text across fields, ignoring accents and small typos', async () => {
+      expect((await backend.search({ query: 'krakow' })).properties.map(hit => hit.id)).toEqual(['krakow-flat']);
+      expect((await backend.search({ query: 'Ribiera' })).properties.map(hit => hit.id)).toEqual(['porto-house']);
+      expect((await backend.search({ query: 'castle' })).total).toBe(0);
+    });
+
+    it('should rank by relevance when sorting by score', async () => {
+      const result = await backend.search({ query: 'flat balcony', sortBy: '_score' });
+
+      expect(result.properties[0].id).toBe('lisbon-flat');
+      expect(result.properties[0].score).toBeGreaterThan(result.properties[1].score!);
+    });
+
+    it('should apply filters', async () => {
+      const ids = async (query: object) => (await backend.search(query)).properties.map(hit => hit.id).sort();
+
+      expect(await ids({ propertyType: ['HOUSE'] })).toEqual(['porto-house']);
+      expect(await ids({ priceMin: 200000, priceMax: 400000 })).toEqual(['lisbon-flat']);
+      // The Kraków flat is priced in złoty and compared in euros
+      expect(await ids({ priceMin: 100000, priceMax: 200000 })).toEqual([]);
+      expect(await ids({ priceMax: 100000 })).toEqual(['krakow-flat']);
+      expect(await ids({ bedroomsMin: 3 })).toEqual(['porto-house']);
+      expect(await ids({ country: 'PL' })).toEqual(['krakow-flat']);
+      expect(await ids({ city: 'krakow' })).toEqual(['krakow-flat']);
+      expect(await ids({ features: { parking: true } })).toEqual(['lisbon-flat', 'porto-house']);
+      expect(await ids({ amenities: ['elevator'] })).toEqual(['lisbon-flat']);
+      expect(await ids({ location: { lat: 38.72, lon: -9.14 }, radius: 10 })).toEqual(['lisbon-flat']);
+    });
+
+    it('should filter by polygon and multi-polygon areas', async () => {
+      const ids = async (query: object) => (await backend.search(query)).properties.map(hit => hit.id).sort();
+      const lisbon: GeoPolygon = { type: 'Polygon', coordinates: [[[-9.2, 38.7], [-9.1, 38.7], [-9.1, 38.75], [-9.2, 38.75], [-9.2, 38.7]]] };
+      const porto: GeoPolygon = { type: 'Polygon', coordinates: [[[-8.65, 41.1], [-8.55, 41.1], [-8.6, 41.2], [-8.65, 41.1]]] };
+      const alfamaHole: GeoPosition[] = [[-9.14, 38.70], [-9.12, 38.70], [-9.12, 38.72], [-9.14, 38.72], [-9.14, 38.70]];
+
+      expect(await ids({ polygon: lisbon })).toEqual(['lisbon-flat']);
+      expect(await ids({ polygon: { type: 'Polygon', coordinates: [...lisbon.coordinates, alfamaHole] } })).toEqual([]);
+      expect(await ids({ polygon: { type: 'MultiPolygon', coordinates: [lisbon.coordinates, porto.coordinates] } }))
+        .toEqual(['lisbon-flat', 'porto-house']);
+    });
+
+    it('should cluster listings in the viewport by geohash', async () => {
+      await backend.indexDocuments([
+        buildDocument({ id: 'lisbon-loft', price: 280000, location: { lat: 38.7200, lon: -9.1400 } }),
+      ]);
+      const portugal = { north: 42.2, south: 36.9, east: -6.2, west: -9.6 };
+
+      const result = await backend.searchMap({ bounds: portugal, zoom: 6 });
+
+      expect(result).toMatchObject({ zoom: 6, precision: 3, total: 3, pins: [] });
+      expect(result.clusters.map(cluster => [cluster.geohash, cluster.count])).toEqual([['eyc', 2], ['ez3', 1]]);
+      expect(result.clusters[0]).toMatchObject({ priceMin: 280000, priceMax: 320000 });
+      expect(result.clusters[0].location.lat).toBeCloseTo(38.71575);
+      expect(isPointInBounds(38.7115, -9.1300, result.clusters[0].bounds)).toBe(true);
+    });
+
+    it('should return pins at close zoom and apply filters to the map', async () => {
+      const alfama = { north: 38.72, south: 38.70, east: -9.12, west: -9.14 };
+
+      const pins = await backend.searchMap({ bounds: alfama, zoom: 16 });
+      expect(pins).toMatchObject({ precision: null, total: 1, clusters: [] });
+      expect(pins.pins).toEqual([
+        expect.objectContaining({ id: 'lisbon-flat', price: 320000, city: 'Lisbon', location: { lat: 38.7115, lon: -9.1300 } }),
+      ]);
+
+      expect((await backend.searchMap({ bounds: alfama, zoom: 16, propertyType: ['HOUSE'] })).total).toBe(0);
+    });
+
+    it('should suggest places, tags and titles by prefix, ignoring accents', async () => {
+      await backend.indexDocuments([
+        buildDocument({ id: 'lisbon-loft', title: 'Loft by the river', tags: ['Sea view'] }),
+        buildDocument({
+          id: 'lagos-villa',
+          title: 'Villa with pool',
+          address: { street: 'Rua do Mar 3', city: 'Lagos', postcode: '8600-001', country: 'PT' },
+          tags: ['Sea view', 'Pool'],
+        }),
+      ]);
+
+      const { groups } = await backend.suggest({ text: 'l' });
+      expect(groups.cities).toEqual([
+        { type: 'city', value: 'Lisbon', count: 2, country: 'PT' },
+        { type: 'city', value: 'Lagos', count: 1, country: 'PT' },
+      ]);
+      expect(groups.titles.map(suggestion => suggestion.propertyId)).toEqual(['lisbon-loft']);
+
+      const krakow = await backend.suggest({ text: 'Krakow' });
+      expect(krakow.groups.cities).toEqual([{ type: 'city', value: 'Kraków', count: 1, country: 'PL' }]);
+      expect(krakow.groups.titles).toEqual([
+        { type: 'title', value: 'Flat in Kraków old town', count: 1, city: 'Kraków', propertyId: 'krakow-flat' },
+      ]);
+
+      expect((await backend.suggest({ text: '4050' })).groups.postcodes).toEqual([
+        { type: 'postcode', value: '4050-001', count: 1, city: 'Porto' },
+      ]);
+      expect((await backend.suggest({ text: 'rua das f' })).groups.streets.map(suggestion => suggestion.value))
+        .toEqual(['Rua das Flores 12']);
+      expect((await backend.suggest({ text: 'sea' })).groups.tags).toEqual([{ type: 'tag', value: 'Sea view', count: 2 }]);
+    });
+
+    it('should tolerate typos and scope suggestions to a country', async () => {
+      expect((await backend.suggest({ text: 'Lisbin' })).groups.cities.map(suggestion => suggestion.value)).toEqual(['Lisbon']);
+      expect((await backend.suggest({ text: 'Porot' })).groups.cities.map(suggestion => suggestion.value)).toEqual(['Porto']);
+      expect((await backend.suggest({ text: 'Xorto' })).groups.cities).toEqual([]);
+
+      const scoped = await backend.suggest({ text: 'flat', country: 'PL' });
+      expect(scoped.country).toBe('PL');
+      expect(scoped.groups.titles.map(suggestion => suggestion.propertyId)).toEqual(['krakow-flat']);
+      expect((await backend.suggest({ text: 'flat', limit: 1 })).groups.titles).toHaveLength(1);
+    });
+
+    it('should sort and paginate', async () => {
+      const result = await backend.search({ sortBy: 'price', sortOrder: 'asc', page: 2, limit: 2 });
+
+      expect(result.properties.map(hit => hit.id)).toEqual(['porto-house']);
+      expect(result).toMatchObject({ total: 3, page: 2, limit: 2, totalPages: 2 });
+    });
+
+    it('should aggregate over all matches', async () => {
+      const { aggregations } = await backend.search({ country: 'PT', limit: 1 });
+
+      expect(aggregations).toMatchObject({
+        propertyTypes: { APARTMENT: 1, HOUSE: 1 },
+        listingTypes: { SALE: 2 },
+        cities: [{ key: 'Lisbon', count: 1 }, { key: 'Porto', count: 1 }],
+        countries: [{ key: 'PT', count: 2 }],
+        features: { garden: 1, parking: 2, furnished: 1, petFriendly: 1 },
+        amenities: [{ key: 'storage', count: 2 }, { key: 'elevator', count: 1 }],
+      });
+      expect(aggregations!.priceRanges).toEqual([
+        { to: 100000, count: 0 },
+        { from: 100000, to: 200000, count: 0 },
+        { from: 200000, to: 500000, count: 1 },
+        { from: 500000, to: 1000000, count: 1 },
+        { from: 1000000, count: 0 },
+      ]);
+    });
+
+    it('should replace updated documents and drop deleted ones', async () => {
+      await backend.indexDocuments([buildDocument({ id: 'porto-house', title: 'Villa in Foz', status: 'ACTIVE' })]);
+      await backend.deleteDocument('lisbon-flat');
+
+      expect((await backend.search({ query: 'Ribeira' })).total).toBe(0);
+      expect((await backend.search({ query: 'villa' })).properties.map(hit => hit.id)).toEqual(['porto-house']);
+      expect((await backend.search({ query: 'Alfama' })).total).toBe(0);
+    });
+  });
+
+  describe('geohash cells', () => {
+    it('should encode coordinates and decode cell bounds', () => {
+      expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj');
+      expect(encodeGeohash(57.64911, 10.40744, 3)).toBe('u4p');
+
+      const bounds = decodeGeohashBounds('u4p');
+      expect(isPointInBounds(57.64911, 10.40744, bounds)).toBe(true);
+      expect(bounds.north - bounds.south).toBeCloseTo(1.40625);
+      expect(bounds.east - bounds.west).toBeCloseTo(1.40625);
+      expect(() => decodeGeohashBounds('u4a')).toThrow('Invalid geohash');
+    });
+  });
+});
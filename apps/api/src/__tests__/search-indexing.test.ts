@@ -0,0 +1,246 @@
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import {
+  UserRole,
+  PropertyType,
+  ListingType,
+  PropertyStatus,
+  OutboxEventStatus,
+  OutboxEventType,
+} from '@eu-real-estate/database';
+import { EmbeddedSearchBackend, PropertySearchService } from '@eu-real-estate/search';
+import { createTestUser } from './setup';
+import { PropertyService } from '../services/property.service';
+import { SearchIndexingService } from '../services/search-indexing.service';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Search indexing', () => {
+  let backend: EmbeddedSearchBackend;
+  let ownerId: string;
+  let ownerToken: string;
+  let adminToken: string;
+
+  const createListing = (title: string, status: PropertyStatus = PropertyStatus.ACTIVE) =>
+    prisma.property.create({
+      data: {
+        title,
+        description: 'Listing used by the indexing tests',
+        price: 310000,
+        propertyType: PropertyType.APARTMENT,
+        listingType: ListingType.SALE,
+        status,
+        ownerId,
+        address: { create: { street: 'Keizersgracht 1', city: 'Amsterdam', postcode: '1015 CJ', country: 'NL' } },
+      },
+    });
+
+  const recordChange = (propertyId: string) =>
+    prisma.$transaction(tx => SearchIndexingService.recordPropertyChange(tx, propertyId));
+
+  const searchIds = async (query: string) =>
+    (await backend.search({ query })).properties.map(hit => hit.id);
+
+  beforeEach(async () => {
+    backend = new EmbeddedSearchBackend();
+    PropertySearchService.setBackend(backend);
+
+    await prisma.outboxEvent.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const owner = await createTestUser('owner@example.com', UserRole.SELLER);
+    const admin = await createTestUser('admin@example.com', UserRole.ADMIN);
+
+    ownerId = owner.id;
+    ownerToken = owner.token;
+    adminToken = admin.token;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('outbox events', () => {
+    it('should record an event with each property write', async () => {
+      const property = await PropertyService.createProperty(ownerId, {
+        title: 'Canal house',
+        description: 'Four floors on the canal',
+        price: 1200000,
+        propertyType: PropertyType.HOUSE,
+        listingType: ListingType.SALE,
+        address: { street: 'Herengracht 2', city: 'Amsterdam', postcode: '1015 BZ', country: 'NL' },
+      });
+
+      await PropertyService.updateProperty(property.id, ownerId, { title: 'Restored canal house' });
+      await PropertyService.deleteProperty(property.id, ownerId);
+
+      const events = await prisma.outboxEvent.findMany({
+        where: { aggregateId: property.id },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      expect(events.map(event => event.eventType)).toEqual([
+        OutboxEventType.PROPERTY_UPSERTED,
+        OutboxEventType.PROPERTY_UPSERTED,
+        OutboxEventType.PROPERTY_DELETED,
+      ]);
+      expect(events.every(event => event.status === OutboxEventStatus.PENDING)).toBe(true);
+    });
+
+    it('should not record an event when the write is rejected', async () => {
+      const property = await createListing('Loft in De Pijp');
+      const other = await createTestUser('other@example.com', UserRole.SELLER);
+
+      await expect(PropertyService.deleteProperty(property.id, other.id)).rejects.toMatchObject({
+        statusCode: 403,
+      });
+
+      expect(await prisma.outboxEvent.count({ where: { aggregateId: property.id } })).toBe(0);
+    });
+  });
+
+  describe('processOutbox', () => {
+    it('should apply pending events to the index', async () => {
+      const property = await createListing('Loft in De Pijp');
+      await recordChange(property.id);
+      await recordChange(property.id);
+
+      expect(await SearchIndexingService.processOutbox()).toEqual({ processed: 2, failed: 0 });
+      expect(await searchIds('Pijp')).toEqual([property.id]);
+
+      await prisma.property.update({ where: { id: property.id }, data: { status: PropertyStatus.SOLD } });
+      await recordChange(property.id);
+      await SearchIndexingService.processOutbox();
+
+      expect(await searchIds('Pijp')).toEqual([]);
+      expect(await prisma.outboxEvent.count({ where: { status: OutboxEventStatus.PROCESSED } })).toBe(3);
+    });
+
+    it('should retry failures with backoff and give up after the last attempt', async () => {
+      const property = await createListing('Loft in De Pijp');
+      await recordChange(property.id);
+      jest.spyOn(PropertySearchService, 'syncProperty').mockRejectedValue(new Error('Index unavailable'));
+
+      expect(await SearchIndexingService.processOutbox()).toEqual({ processed: 0, failed: 1 });
+
+      let event = await prisma.outboxEvent.findFirstOrThrow({ where: { aggregateId: property.id } });
+      expect(event).toMatchObject({ status: OutboxEventStatus.PENDING, attempts: 1, lastError: 'Index unavailable' });
+      expect(event.availableAt.getTime()).toBeGreaterThan(Date.now());
+
+      // Not due yet
+      expect(await SearchIndexingService.processOutbox()).toEqual({ processed: 0, failed: 0 });
+
+      await prisma.outboxEvent.update({ where: { id: event.id }, data: { attempts: 4, availableAt: new Date(0) } });
+      await SearchIndexingService.processOutbox();
+
+      event = await prisma.outboxEvent.findFirstOrThrow({ where: { aggregateId: property.id } });
+      expect(event).toMatchObject({ status: OutboxEventStatus.FAILED, attempts: 5 });
+    });
+  });
+
+  describe('reindex', () => {
+    it('should build a new index, switch to it and resolve earlier failures', async () => {
+      const listed = await createListing('Loft in De Pijp');
+      await createListing('Draft in Jordaan', PropertyStatus.DRAFT);
+      const failed = await prisma.outboxEvent.create({
+        data: {
+          aggregateType: 'PROPERTY',
+          aggregateId: listed.id,
+          eventType: OutboxEventType.PROPERTY_UPSERTED,
+          status: OutboxEventStatus.FAILED,
+          attempts: 5,
+          createdAt: new Date(Date.now() - 60 * 1000),
+        },
+      });
+
+      expect(await backend.getActiveIndex()).toBe('embedded_v1');
+
+      const result = await SearchIndexingService.reindex();
+
+      expect(result).toMatchObject({ indexName: 'embedded_v2', resolved: 1 });
+      expect(await backend.getActiveIndex()).toBe('embedded_v2');
+      expect(await searchIds('Pijp')).toEqual([listed.id]);
+      expect(await searchIds('Jordaan')).toEqual([]);
+      expect(await prisma.outboxEvent.findUniqueOrThrow({ where: { id: failed.id } })).toMatchObject({
+        status: OutboxEventStatus.PROCESSED,
+      });
+    });
+  });
+
+  describe('GET /api/properties', () => {
+    it('should list what the search backend finds, in its order', async () => {
+      const loft = await createListing('Loft in De Pijp');
+      const houseboat = await createListing('Houseboat in Jordaan');
+      await createListing('Studio in Oost');
+      await PropertySearchService.syncProperty(loft.id);
+      await PropertySearchService.syncProperty(houseboat.id);
+
+      const response = await request(app)
+        .get('/api/properties?sortBy=title&sortOrder=asc')
+        .expect(200);
+
+      expect(response.body.data.properties.map((property: { id: string }) => property.id))
+        .toEqual([houseboat.id, loft.id]);
+      expect(response.body.data).toMatchObject({ total: 2, page: 1, hasMore: false });
+      expect(response.body.data.properties[0].agents).toEqual([
+        expect.objectContaining({ propertyId: houseboat.id, id: ownerId }),
+      ]);
+    });
+
+    it('should not list a listing unpublished since it was indexed', async () => {
+      const loft = await createListing('Loft in De Pijp');
+      await PropertySearchService.syncProperty(loft.id);
+      await prisma.property.update({ where: { id: loft.id }, data: { status: PropertyStatus.SOLD } });
+
+      const response = await request(app).get('/api/properties').expect(200);
+
+      expect(response.body.data.properties).toEqual([]);
+    });
+
+    it('should search the database when the backend is unavailable', async () => {
+      const loft = await createListing('Loft in De Pijp');
+      jest.spyOn(backend, 'search').mockRejectedValue(new Error('Index unavailable'));
+
+      const response = await request(app).get('/api/properties').expect(200);
+
+      expect(response.body.data.properties.map((property: { id: string }) => property.id)).toEqual([loft.id]);
+    });
+  });
+
+  describe('GET /api/search/indexing', () => {
+    it('should report lag and failed documents to admins', async () => {
+      const first = await createListing('Loft in De Pijp');
+      const second = await createListing('Houseboat in Jordaan');
+      await prisma.outboxEvent.createMany({
+        data: [
+          { aggregateType: 'PROPERTY', aggregateId: first.id, eventType: OutboxEventType.PROPERTY_UPSERTED, createdAt: new Date(Date.now() - 90 * 1000) },
+          { aggregateType: 'PROPERTY', aggregateId: second.id, eventType: OutboxEventType.PROPERTY_UPSERTED, status: OutboxEventStatus.FAILED },
+          { aggregateType: 'PROPERTY', aggregateId: second.id, eventType: OutboxEventType.PROPERTY_UPSERTED, status: OutboxEventStatus.FAILED },
+        ],
+      });
+
+      const response = await request(app)
+        .get('/api/search/indexing')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.status).toMatchObject({
+        backend: 'embedded',
+        activeIndex: 'embedded_v1',
+        pendingEvents: 1,
+        failedEvents: 2,
+        failedDocuments: 1,
+      });
+      expect(response.body.data.status.lagSeconds).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should be limited to admins', async () => {
+      await request(app)
+        .get('/api/search/indexing')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(403);
+    });
+  });
+});
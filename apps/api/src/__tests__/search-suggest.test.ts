@@ -0,0 +1,129 @@
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import { UserRole, PropertyType, ListingType, PropertyStatus } from '@eu-real-estate/database';
+import { EmbeddedSearchBackend, PropertySearchService } from '@eu-real-estate/search';
+import { createTestUser } from './setup';
+import { LocalizationService } from '../services/localization.service';
+import { createApp } from '../app';
+
+const app = createApp();
+
+describe('Search suggestions', () => {
+  let buyerToken: string;
+
+  const createListing = (ownerId: string, title: string, street: string, city: string, postcode: string, country: string) =>
+    prisma.property.create({
+      data: {
+        title,
+        description: 'Listing used by the suggestion tests',
+        price: 350000,
+        propertyType: PropertyType.APARTMENT,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.ACTIVE,
+        ownerId,
+        address: { create: { street, city, postcode, country } },
+      },
+    });
+
+  beforeEach(async () => {
+    PropertySearchService.setBackend(new EmbeddedSearchBackend());
+
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const owner = await createTestUser('agent@example.com', UserRole.AGENT);
+    const buyer = await createTestUser('buyer@example.com', UserRole.BUYER, { profile: { create: { country: 'DE' } } });
+    buyerToken = buyer.token;
+
+    const listings = await Promise.all([
+      createListing(owner.id, 'Altbau flat near the cathedral', 'Domkloster 4', 'Köln', '50667', 'DE'),
+      createListing(owner.id, 'Penthouse in Ehrenfeld', 'Venloer Straße 20', 'Köln', '50823', 'DE'),
+      createListing(owner.id, 'Flat in Kraków old town', 'Floriańska 5', 'Kraków', '31-019', 'PL'),
+    ]);
+    await Promise.all(listings.map(listing => PropertySearchService.indexProperty(listing.id)));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('GET /api/search/suggest', () => {
+    it('should suggest cities without accents, ranked by listing count', async () => {
+      const response = await request(app)
+        .get('/api/search/suggest')
+        .query({ q: 'Koln' })
+        .expect(200);
+
+      const { suggestions } = response.body.data;
+      expect(suggestions.groups.cities).toEqual([{ type: 'city', value: 'Köln', count: 2, country: 'DE' }]);
+      expect(suggestions.groups.titles).toEqual([]);
+    });
+
+    it('should scope suggestions to the signed-in user\'s country', async () => {
+      const scoped = await request(app)
+        .get('/api/search/suggest')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .query({ q: 'flat' })
+        .expect(200);
+
+      expect(scoped.body.data.suggestions.country).toBe('DE');
+      expect(scoped.body.data.suggestions.groups.titles.map((suggestion: any) => suggestion.value))
+        .toEqual(['Altbau flat near the cathedral']);
+
+      const elsewhere = await request(app)
+        .get('/api/search/suggest')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .query({ q: 'krak', country: 'pl' })
+        .expect(200);
+
+      expect(elsewhere.body.data.suggestions.groups.cities.map((suggestion: any) => suggestion.value)).toEqual(['Kraków']);
+    });
+
+    it('should fall back to the database when search is unavailable', async () => {
+      jest.spyOn(PropertySearchService, 'suggest').mockRejectedValue(new Error('Search unavailable'));
+
+      const response = await request(app)
+        .get('/api/search/suggest')
+        .query({ q: 'venloer', limit: 3 })
+        .expect(200);
+
+      expect(response.body.data.suggestions.groups.streets).toEqual([
+        { type: 'street', value: 'Venloer Straße 20', count: 1, city: 'Köln' },
+      ]);
+    });
+
+    it('should only load listings starting with the typed text when falling back', async () => {
+      jest.spyOn(PropertySearchService, 'suggest').mockRejectedValue(new Error('Search unavailable'));
+      const findMany = jest.spyOn(prisma.property, 'findMany');
+
+      const response = await request(app)
+        .get('/api/search/suggest')
+        .query({ q: 'Penthouse' })
+        .expect(200);
+
+      expect(response.body.data.suggestions.groups.titles.map((suggestion: any) => suggestion.value))
+        .toEqual(['Penthouse in Ehrenfeld']);
+      expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ take: expect.any(Number) }));
+      expect(await findMany.mock.results[0].value).toHaveLength(1);
+    });
+
+    it('should fall back when the user\'s country cannot be looked up', async () => {
+      jest.spyOn(LocalizationService, 'getUserLocalizationContext').mockRejectedValue(new Error('Database unavailable'));
+
+      const response = await request(app)
+        .get('/api/search/suggest')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .query({ q: 'venloer' })
+        .expect(200);
+
+      expect(response.body.data.suggestions.groups.streets.map((suggestion: any) => suggestion.value))
+        .toEqual(['Venloer Straße 20']);
+    });
+
+    it('should require search text', async () => {
+      await request(app)
+        .get('/api/search/suggest')
+        .expect(400);
+    });
+  });
+});
@@ -2,7 +2,9 @@ import request from 'supertest';
 import { testPrisma, setupMocks, createTestToken } from './setup';
 import { SecurityService } from '../services/security.service';
 import { PasswordValidator } from '../utils/password-validator';
-import app from '../main';
+import { createApp } from '../app';
+
+const app = createApp();
 
 // Setup mocks
 setupMocks();
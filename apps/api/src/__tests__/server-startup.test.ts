@@ -0,0 +1,69 @@
+import { Server } from 'http';
+import { redis } from '@eu-real-estate/database';
+import { listen, shutdown } from '../main';
+import { MessagingService } from '../services/messaging.service';
+import { SavedSearchService } from '../services/saved-search.service';
+import { TransactionService } from '../services/transaction.service';
+import { SearchIndexingService } from '../services/search-indexing.service';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import { PropertyAnalyticsService } from '../services/property-analytics.service';
+import { PropertyLifecycleService } from '../services/property-lifecycle.service';
+import { PropertyScheduleService } from '../services/property-schedule.service';
+import { ViewingService } from '../services/viewing.service';
+import AnalyticsService from '../services/analytics.service';
+
+describe('Server startup', () => {
+  let server: Server | null = null;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(MessagingService, 'initializeWebSocket').mockImplementation(() => undefined);
+    // Background jobs are covered by their own suites
+    jest.spyOn(SavedSearchService, 'startDigestScheduler').mockImplementation(() => undefined);
+    jest.spyOn(TransactionService, 'startOfferExpirySweeper').mockImplementation(() => undefined);
+    jest.spyOn(SearchIndexingService, 'startWorker').mockImplementation(() => undefined);
+    jest.spyOn(ExchangeRateService, 'startRateRefresher').mockImplementation(() => undefined);
+    jest.spyOn(PropertyAnalyticsService, 'startRollupJob').mockImplementation(() => undefined);
+    jest.spyOn(PropertyLifecycleService, 'startExpiryJob').mockImplementation(() => undefined);
+    jest.spyOn(PropertyScheduleService, 'startScheduler').mockImplementation(() => undefined);
+    jest.spyOn(ViewingService, 'startReminderJob').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise(resolve => server!.close(resolve));
+      server = null;
+    }
+  });
+
+  it('should connect the shared Redis client before serving', async () => {
+    const connect = jest.spyOn(redis, 'connect').mockResolvedValue(undefined);
+
+    server = await listen(0);
+
+    expect(connect).toHaveBeenCalled();
+    expect(connect.mock.invocationCallOrder[0])
+      .toBeLessThan((MessagingService.initializeWebSocket as jest.Mock).mock.invocationCallOrder[0]);
+    expect(ViewingService.startReminderJob).toHaveBeenCalled();
+  });
+
+  it('should not start when Redis is unreachable', async () => {
+    jest.spyOn(redis, 'connect').mockRejectedValue(new Error('Could not connect to Redis within 10000ms'));
+
+    await expect(listen(0)).rejects.toThrow('Could not connect to Redis');
+
+    expect(MessagingService.initializeWebSocket).not.toHaveBeenCalled();
+    expect(SavedSearchService.startDigestScheduler).not.toHaveBeenCalled();
+  });
+
+  it('should flush buffered analytics when shutting down', async () => {
+    jest.spyOn(redis, 'connect').mockResolvedValue(undefined);
+    const flush = jest.spyOn(AnalyticsService.getInstance(), 'flush').mockResolvedValue(undefined);
+
+    const started = await listen(0);
+    await shutdown(started);
+
+    expect(flush).toHaveBeenCalled();
+    expect(started.listening).toBe(false);
+  });
+});
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
-import { redis } from '@eu-real-estate/database';
+import bcrypt from 'bcryptjs';
+import { prisma, redis, Prisma } from '@eu-real-estate/database';
 import { CacheService } from '../services/cache.service';
 import { ThirdPartyIntegrationService } from '../services/third-party-integration.service';
 
@@ -209,6 +210,30 @@ export function createTestToken(userId: string, role: string = 'BUYER'): string
   );
 }
 
+/**
+ * Create a verified user with the password "password123" and a token for
+ * them. The lowest bcrypt cost keeps suites that create many users fast.
+ */
+export async function createTestUser(
+  email: string,
+  role: string = 'BUYER',
+  data: Partial<Prisma.UserCreateInput> = {}
+): Promise<{ id: string; token: string }> {
+  const user = await prisma.user.create({
+    data: {
+      email,
+      passwordHash: await bcrypt.hash('password123', 4),
+      firstName: role,
+      lastName: 'User',
+      role,
+      isVerified: true,
+      ...data,
+    },
+  });
+
+  return { id: user.id, token: createTestToken(user.id, role) };
+}
+
 /**
  * Mock third-party service responses
  */
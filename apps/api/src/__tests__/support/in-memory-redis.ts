@@ -0,0 +1,84 @@
+import type { RedisMessageListener } from '@eu-real-estate/database';
+import type { RealtimeStore } from '../../services/messaging.service';
+
+/**
+ * Local stand-in for the Redis features the realtime gateway uses.
+ * Several servers in one process can share an instance the way API
+ * replicas share a Redis server.
+ */
+export class InMemoryRedis implements RealtimeStore {
+  private readonly sortedSets = new Map<string, Map<string, number>>();
+  private readonly expiries = new Map<string, number>();
+  private readonly channels = new Map<string, Set<RedisMessageListener>>();
+
+  async publish(channel: string, message: string): Promise<boolean> {
+    const listeners = Array.from(this.channels.get(channel) || []);
+
+    // Deliver asynchronously, as a network round trip would
+    setImmediate(() => listeners.forEach(listener => listener(message, channel)));
+    return true;
+  }
+
+  async subscribe(channel: string, listener: RedisMessageListener): Promise<boolean> {
+    const listeners = this.channels.get(channel) || new Set<RedisMessageListener>();
+    listeners.add(listener);
+    this.channels.set(channel, listeners);
+    return true;
+  }
+
+  async unsubscribe(channel: string, listener?: RedisMessageListener): Promise<boolean> {
+    if (listener) {
+      this.channels.get(channel)?.delete(listener);
+    } else {
+      this.channels.delete(channel);
+    }
+    return true;
+  }
+
+  async zAdd(key: string, score: number, member: string): Promise<boolean> {
+    const set = this.getSortedSet(key) || new Map<string, number>();
+    set.set(member, score);
+    this.sortedSets.set(key, set);
+    return true;
+  }
+
+  async zRem(key: string, member: string): Promise<boolean> {
+    this.getSortedSet(key)?.delete(member);
+    return true;
+  }
+
+  async zRangeByScore(key: string, min: number | string, max: number | string): Promise<string[]> {
+    return Array.from(this.getSortedSet(key)?.entries() || [])
+      .filter(([, score]) => score >= this.toScore(min) && score <= this.toScore(max))
+      .sort(([, a], [, b]) => a - b)
+      .map(([member]) => member);
+  }
+
+  async zRemRangeByScore(key: string, min: number | string, max: number | string): Promise<boolean> {
+    for (const member of await this.zRangeByScore(key, min, max)) {
+      this.getSortedSet(key)?.delete(member);
+    }
+    return true;
+  }
+
+  async expire(key: string, seconds: number): Promise<boolean> {
+    if (!this.sortedSets.has(key)) return false;
+    this.expiries.set(key, Date.now() + seconds * 1000);
+    return true;
+  }
+
+  private getSortedSet(key: string): Map<string, number> | undefined {
+    const expiresAt = this.expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.sortedSets.delete(key);
+      this.expiries.delete(key);
+    }
+    return this.sortedSets.get(key);
+  }
+
+  private toScore(value: number | string): number {
+    if (value === '-inf') return -Infinity;
+    if (value === '+inf') return Infinity;
+    return Number(value);
+  }
+}
@@ -0,0 +1,50 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Server as SocketIOServer } from 'socket.io';
+import { createApp } from '../../app';
+import { MessagingService, RealtimeStore } from '../../services/messaging.service';
+import { PresenceService } from '../../services/presence.service';
+import { InMemoryRedis } from './in-memory-redis';
+
+export interface RealtimeNode {
+  server: http.Server;
+  io: SocketIOServer;
+  presence: PresenceService;
+  url: string;
+}
+
+export interface RealtimeCluster {
+  nodes: RealtimeNode[];
+  store: RealtimeStore;
+  close(): Promise<void>;
+}
+
+/**
+ * Start API servers in this process that share one store, the way
+ * replicas behind a load balancer share Redis
+ */
+export async function startRealtimeCluster(
+  size = 2,
+  store: RealtimeStore = new InMemoryRedis()
+): Promise<RealtimeCluster> {
+  const nodes: RealtimeNode[] = [];
+
+  for (let i = 0; i < size; i++) {
+    const server = http.createServer(createApp());
+    const { io, presence } = MessagingService.createSocketServer(server, store);
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    nodes.push({ server, io, presence, url: `http://127.0.0.1:${port}` });
+  }
+
+  return {
+    nodes,
+    store,
+    close: async () => {
+      // Closing Socket.IO also closes the HTTP server and stops presence
+      await Promise.all(nodes.map(node => new Promise<void>(resolve => node.io.close(() => resolve()))));
+    },
+  };
+}
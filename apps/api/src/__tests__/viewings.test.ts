@@ -0,0 +1,346 @@
+import request from 'supertest';
+import { prisma } from '@eu-real-estate/database';
+import {
+  UserRole,
+  PropertyType,
+  ListingType,
+  PropertyStatus,
+  ViewingSlotType,
+  ViewingBookingStatus,
+} from '@eu-real-estate/database';
+import { createTestUser } from './setup';
+import { ViewingService } from '../services/viewing.service';
+import { NotificationService } from '../services/notification.service';
+import { buildCalendar } from '../utils/icalendar';
+import { createApp } from '../app';
+
+jest.mock('../services/notification.service');
+
+const app = createApp();
+
+describe('Viewing bookings', () => {
+  let agentId: string;
+  let agentToken: string;
+  let buyerId: string;
+  let buyerToken: string;
+  let otherBuyerToken: string;
+  let propertyId: string;
+
+  const HOUR_MS = 60 * 60 * 1000;
+
+  const createListing = (title: string) =>
+    prisma.property.create({
+      data: {
+        title,
+        description: 'Listing used by the viewing booking tests',
+        price: 450000,
+        propertyType: PropertyType.HOUSE,
+        listingType: ListingType.SALE,
+        status: PropertyStatus.ACTIVE,
+        ownerId: agentId,
+        address: { create: { street: 'Grafton Street 1', city: 'Dublin', postcode: 'D02', country: 'IE' } },
+      },
+    });
+
+  const hoursAhead = (hours: number) => new Date(Date.now() + hours * HOUR_MS);
+
+  const createSlot = (body: Record<string, any>, listingId = propertyId, token = agentToken) =>
+    request(app)
+      .post(`/api/viewings/properties/${listingId}/slots`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+  const bookSlot = (slotId: string, body: Record<string, any> = {}, token = buyerToken) =>
+    request(app)
+      .post(`/api/viewings/slots/${slotId}/bookings`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+  const openSlot = async (startHours: number, data: Record<string, any> = {}, listingId = propertyId) => {
+    const response = await createSlot({
+      startsAt: hoursAhead(startHours).toISOString(),
+      endsAt: hoursAhead(startHours + 1).toISOString(),
+      ...data,
+    }, listingId).expect(201);
+    return response.body.data.slot.id as string;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (NotificationService.sendNotification as jest.Mock).mockResolvedValue(undefined);
+    await prisma.viewingBooking.deleteMany();
+    await prisma.viewingSlot.deleteMany();
+    await prisma.property.deleteMany();
+    await prisma.user.deleteMany();
+
+    const agent = await createTestUser('agent@example.com', UserRole.AGENT);
+    const buyer = await createTestUser('buyer@example.com', UserRole.BUYER);
+    const otherBuyer = await createTestUser('other@example.com', UserRole.BUYER);
+    agentId = agent.id;
+    agentToken = agent.token;
+    buyerId = buyer.id;
+    buyerToken = buyer.token;
+    otherBuyerToken = otherBuyer.token;
+
+    const property = await createListing('Terraced house in Dublin');
+    propertyId = property.id;
+  });
+
+  describe('POST /api/viewings/properties/:propertyId/slots', () => {
+    it('should publish a slot with the default capacity for its type', async () => {
+      const response = await createSlot({
+        type: ViewingSlotType.OPEN_HOUSE,
+        startsAt: hoursAhead(48).toISOString(),
+        endsAt: hoursAhead(50).toISOString(),
+      }).expect(201);
+
+      expect(response.body.data.slot).toMatchObject({ type: ViewingSlotType.OPEN_HOUSE, capacity: 30, spotsLeft: 30 });
+    });
+
+    it('should reject a slot that starts too soon', async () => {
+      const response = await createSlot({
+        startsAt: hoursAhead(0.5).toISOString(),
+        endsAt: hoursAhead(1.5).toISOString(),
+      }).expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_SLOT');
+    });
+
+    it('should only be available to the owner and admins', async () => {
+      await createSlot({
+        startsAt: hoursAhead(48).toISOString(),
+        endsAt: hoursAhead(49).toISOString(),
+      }, propertyId, buyerToken).expect(403);
+    });
+
+    it('should not overlap a booked viewing of another listing', async () => {
+      const other = await createListing('Flat in Cork');
+      const slotId = await openSlot(48, {}, other.id);
+      await bookSlot(slotId).expect(201);
+
+      const response = await createSlot({
+        startsAt: hoursAhead(48.5).toISOString(),
+        endsAt: hoursAhead(49.5).toISOString(),
+      }).expect(409);
+
+      expect(response.body.error.code).toBe('SLOT_CONFLICT');
+    });
+  });
+
+  describe('GET /api/viewings/properties/:propertyId/slots', () => {
+    it('should list upcoming slots with the places left', async () => {
+      const slotId = await openSlot(48, { type: ViewingSlotType.OPEN_HOUSE, capacity: 10 });
+      await bookSlot(slotId, { attendees: 3 }).expect(201);
+
+      const response = await request(app).get(`/api/viewings/properties/${propertyId}/slots`).expect(200);
+
+      expect(response.body.data.slots).toHaveLength(1);
+      expect(response.body.data.slots[0].spotsLeft).toBe(7);
+    });
+
+    it('should hide the slots of a listing that isn\'t live', async () => {
+      await openSlot(48);
+      await prisma.property.update({ where: { id: propertyId }, data: { status: PropertyStatus.DRAFT } });
+
+      const response = await request(app).get(`/api/viewings/properties/${propertyId}/slots`).expect(200);
+
+      expect(response.body.data.slots).toHaveLength(0);
+    });
+  });
+
+  describe('POST /api/viewings/slots/:id/bookings', () => {
+    it('should book a slot and email both sides a calendar file', async () => {
+      const slotId = await openSlot(48);
+
+      const response = await bookSlot(slotId, { attendees: 2 }).expect(201);
+
+      expect(response.body.data.booking).toMatchObject({ slotId, buyerId, attendees: 2, status: ViewingBookingStatus.CONFIRMED });
+      const calls = (NotificationService.sendNotification as jest.Mock).mock.calls.map(([data]) => data);
+      expect(calls.map(data => data.userId).sort()).toEqual([agentId, buyerId].sort());
+      expect(calls[0].attachments[0].filename).toMatch(/\.ics$/);
+      expect(calls[0].attachments[0].content).toContain('METHOD:REQUEST');
+    });
+
+    it('should take one party per private viewing', async () => {
+      const slotId = await openSlot(48);
+      await bookSlot(slotId).expect(201);
+
+      const response = await bookSlot(slotId, {}, otherBuyerToken).expect(409);
+
+      expect(response.body.error.code).toBe('SLOT_FULL');
+    });
+
+    it('should not overfill an open house', async () => {
+      const slotId = await openSlot(48, { type: ViewingSlotType.OPEN_HOUSE, capacity: 4 });
+      await bookSlot(slotId, { attendees: 3 }).expect(201);
+
+      const response = await bookSlot(slotId, { attendees: 2 }, otherBuyerToken).expect(409);
+
+      expect(response.body.error.code).toBe('SLOT_FULL');
+      expect(response.body.error.details.spotsLeft).toBe(1);
+    });
+
+    it('should not book the same slot twice', async () => {
+      const slotId = await openSlot(48, { type: ViewingSlotType.OPEN_HOUSE });
+      await bookSlot(slotId).expect(201);
+
+      const response = await bookSlot(slotId).expect(409);
+
+      expect(response.body.error.code).toBe('ALREADY_BOOKED');
+    });
+
+    it('should not let the agent book their own listing', async () => {
+      const slotId = await openSlot(48);
+
+      const response = await bookSlot(slotId, {}, agentToken).expect(400);
+
+      expect(response.body.error.code).toBe('CANNOT_BOOK_OWN_LISTING');
+    });
+  });
+
+  describe('rescheduling and cancelling', () => {
+    it('should move a booking to another slot and raise its sequence', async () => {
+      const firstSlotId = await openSlot(48);
+      const secondSlotId = await openSlot(72);
+      const booked = await bookSlot(firstSlotId).expect(201);
+
+      const response = await request(app)
+        .patch(`/api/viewings/bookings/${booked.body.data.booking.id}`)
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({ slotId: secondSlotId })
+        .expect(200);
+
+      expect(response.body.data.booking).toMatchObject({ slotId: secondSlotId, sequence: 1 });
+    });
+
+    it('should free the place when the buyer cancels and tell only the agent', async () => {
+      const slotId = await openSlot(48);
+      const booked = await bookSlot(slotId).expect(201);
+      jest.clearAllMocks();
+
+      await request(app)
+        .post(`/api/viewings/bookings/${booked.body.data.booking.id}/cancel`)
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .send({ reason: 'Found another place' })
+        .expect(200);
+
+      const calls = (NotificationService.sendNotification as jest.Mock).mock.calls;
+      expect(calls).toHaveLength(1);
+      expect(calls[0][0].userId).toBe(agentId);
+      expect(calls[0][0].attachments[0].content).toContain('METHOD:CANCEL');
+      await bookSlot(slotId, {}, otherBuyerToken).expect(201);
+    });
+
+    it('should cancel the bookings of a withdrawn slot', async () => {
+      const slotId = await openSlot(48);
+      const booked = await bookSlot(slotId).expect(201);
+
+      await request(app)
+        .post(`/api/viewings/slots/${slotId}/cancel`)
+        .set('Authorization', `Bearer ${agentToken}`)
+        .send({})
+        .expect(200);
+
+      const booking = await prisma.viewingBooking.findUnique({ where: { id: booked.body.data.booking.id } });
+      expect(booking!.status).toBe(ViewingBookingStatus.CANCELLED);
+    });
+
+    it('should not show a booking to anyone else', async () => {
+      const slotId = await openSlot(48);
+      const booked = await bookSlot(slotId).expect(201);
+
+      await request(app)
+        .post(`/api/viewings/bookings/${booked.body.data.booking.id}/cancel`)
+        .set('Authorization', `Bearer ${otherBuyerToken}`)
+        .send({})
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/viewings/bookings', () => {
+    it('should list bookings for the buyer and for the agent', async () => {
+      const slotId = await openSlot(48);
+      await bookSlot(slotId).expect(201);
+
+      const asBuyer = await request(app)
+        .get('/api/viewings/bookings?upcoming=true')
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(200);
+      const asAgent = await request(app)
+        .get('/api/viewings/bookings?as=agent')
+        .set('Authorization', `Bearer ${agentToken}`)
+        .expect(200);
+
+      expect(asBuyer.body.data.data).toHaveLength(1);
+      expect(asAgent.body.data.data).toHaveLength(1);
+      expect(asAgent.body.data.data[0].buyer.id).toBe(buyerId);
+    });
+
+    it('should download a booking as a calendar file', async () => {
+      const slotId = await openSlot(48);
+      const booked = await bookSlot(slotId).expect(201);
+
+      const response = await request(app)
+        .get(`/api/viewings/bookings/${booked.body.data.booking.id}/calendar`)
+        .set('Authorization', `Bearer ${buyerToken}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/calendar');
+      expect(response.headers['content-disposition']).toContain('.ics');
+      expect(response.text).toContain(`UID:viewing-${booked.body.data.booking.id}@eu-real-estate.com`);
+    });
+  });
+
+  describe('reminders', () => {
+    it('should remind each slot once, with one email to the agent', async () => {
+      const slotId = await openSlot(12, { type: ViewingSlotType.OPEN_HOUSE });
+      await bookSlot(slotId).expect(201);
+      await bookSlot(slotId, {}, otherBuyerToken).expect(201);
+      await openSlot(72, { type: ViewingSlotType.OPEN_HOUSE });
+      jest.clearAllMocks();
+
+      expect(await ViewingService.sendReminders()).toBe(1);
+      expect(await ViewingService.sendReminders()).toBe(0);
+
+      const calls = (NotificationService.sendNotification as jest.Mock).mock.calls.map(([data]) => data);
+      expect(calls).toHaveLength(3);
+      expect(calls.filter(data => data.userId === agentId)).toHaveLength(1);
+    });
+  });
+});
+
+describe('Calendar files', () => {
+  const event = {
+    uid: 'viewing-1@eu-real-estate.com',
+    sequence: 2,
+    start: new Date('2026-10-26T08:00:00Z'),
+    end: new Date('2026-10-26T09:00:00Z'),
+    summary: 'Viewing: Flat, with balcony; Dublin',
+  };
+
+  it('should write UTC times and escape text', () => {
+    const calendar = buildCalendar(event, new Date('2026-10-19T12:00:00Z'));
+
+    expect(calendar).toContain('DTSTART:20261026T080000Z\r\n');
+    expect(calendar).toContain('DTSTAMP:20261019T120000Z\r\n');
+    expect(calendar).toContain('SUMMARY:Viewing: Flat\\, with balcony\\; Dublin\r\n');
+    expect(calendar).toContain('SEQUENCE:2\r\n');
+  });
+
+  it('should fold long lines at 75 bytes', () => {
+    const calendar = buildCalendar({ ...event, description: 'Ä'.repeat(100) });
+
+    for (const line of calendar.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(calendar).toContain('\r\n Ä');
+  });
+
+  it('should mark a cancelled event for removal', () => {
+    const calendar = buildCalendar({ ...event, cancelled: true, alarmMinutes: 60 });
+
+    expect(calendar).toContain('METHOD:CANCEL');
+    expect(calendar).toContain('STATUS:CANCELLED');
+    expect(calendar).not.toContain('BEGIN:VALARM');
+  });
+});
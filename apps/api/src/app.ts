@@ -0,0 +1,116 @@
+import express, { Express } from 'express';
+import cors from 'cors';
+import compression from 'compression';
+import { SecurityService } from './services/security.service';
+import MonitoringService from './services/monitoring.service';
+import ErrorTrackingService from './services/error-tracking.service';
+import { errorHandler } from './middleware/error-handler';
+import { rateLimiter } from './middleware/rate-limiter';
+import { requestLogger } from './utils/logger';
+import { authRoutes } from './routes/auth';
+import { userRoutes } from './routes/users';
+import { propertyRoutes } from './routes/properties';
+import { propertyTagRoutes } from './routes/property-tags';
+import { savedSearchRoutes } from './routes/saved-searches';
+import { complianceRoutes } from './routes/compliance';
+import { reviewRoutes } from './routes/reviews';
+import { searchRoutes } from './routes/search';
+import { recommendationRoutes } from './routes/recommendations';
+import { duplicateRoutes } from './routes/duplicates';
+import { geoRoutes } from './routes/geo';
+import { transactionRoutes } from './routes/transactions';
+import { messageRoutes } from './routes/messages';
+import { notificationRoutes } from './routes/notifications';
+import { gdprRoutes } from './routes/gdpr';
+import { securityRoutes } from './routes/security';
+import { localizationRoutes } from './routes/localization';
+import { integrationRoutes } from './routes/integrations';
+import { viewingRoutes } from './routes/viewings';
+import analyticsRoutes from './routes/analytics';
+import errorRoutes from './routes/errors';
+import healthRoutes from './routes/health';
+
+/**
+ * Build the Express application without binding a port, so the
+ * server entrypoint and the supertest suites share one configuration
+ */
+export function createApp(): Express {
+  const app = express();
+  const monitoring = MonitoringService.getInstance();
+  const errorTracking = ErrorTrackingService.getInstance();
+
+  app.set('trust proxy', 1);
+
+  // Request plumbing
+  app.use(cors({
+    origin: process.env.FRONTEND_URL || 'http://localhost:6500',
+    credentials: true,
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key', 'If-None-Match'],
+    exposedHeaders: ['ETag', 'X-Cache', 'RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
+  }));
+  app.use(compression());
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+  app.use(requestLogger);
+  app.use(monitoring.requestMonitoringMiddleware());
+
+  // Security headers, IP blocking and input sanitization
+  app.use(SecurityService.initializeMiddleware());
+
+  // Quotas per API key, user or IP and route group
+  app.use(rateLimiter());
+
+  // Health checks are probed both at the root (load balancer) and under /api
+  app.use('/', healthRoutes);
+  app.use('/api', healthRoutes);
+
+  app.get('/api', (req, res) => {
+    res.json({
+      message: 'EU Real Estate Portal API',
+      version: '1.0.0',
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // API routes
+  app.use('/api/auth', authRoutes);
+  app.use('/api/users', userRoutes);
+  app.use('/api/properties', propertyRoutes);
+  app.use('/api/property-tags', propertyTagRoutes);
+  app.use('/api/saved-searches', savedSearchRoutes);
+  app.use('/api/compliance', complianceRoutes);
+  app.use('/api/reviews', reviewRoutes);
+  app.use('/api/duplicates', duplicateRoutes);
+  app.use('/api/search', searchRoutes);
+  app.use('/api/recommendations', recommendationRoutes);
+  app.use('/api/geo', geoRoutes);
+  app.use('/api/transactions', transactionRoutes);
+  app.use('/api/messages', messageRoutes);
+  app.use('/api/notifications', notificationRoutes);
+  app.use('/api/gdpr', gdprRoutes);
+  app.use('/api/security', securityRoutes);
+  app.use('/api/localization', localizationRoutes);
+  app.use('/api/integrations', integrationRoutes);
+  app.use('/api/viewings', viewingRoutes);
+  app.use('/api/analytics', analyticsRoutes);
+  app.use('/api/errors', errorRoutes);
+
+  // 404 handler
+  app.use('*', (req, res) => {
+    res.status(404).json({
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Endpoint not found',
+        timestamp: new Date().toISOString(),
+      },
+    });
+  });
+
+  // Error handling: record metrics, track server errors, then render the response
+  app.use(monitoring.errorMonitoringMiddleware());
+  app.use(errorTracking.errorHandlingMiddleware());
+  app.use(errorHandler);
+
+  return app;
+}
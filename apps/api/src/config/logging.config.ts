@@ -210,7 +210,7 @@ export const defaultLoggingConfig = {
   },
   transports: [
     ...createFileTransports(),
-    ...(createConsoleTransport() ? [createConsoleTransport()] : []),
+    ...[createConsoleTransport()].filter((transport): transport is winston.transports.ConsoleTransportInstance => transport !== null),
   ],
   exitOnError: false,
   handleExceptions: true,
@@ -0,0 +1,367 @@
+import { DocumentType, PropertyType, TransactionType } from '@eu-real-estate/database';
+
+export interface MilestoneTemplateStep {
+  key: string;
+  title: string;
+  description?: string;
+  isRequired: boolean;
+  // Keys of steps that must be completed before this one
+  dependsOn?: string[];
+  // Days after offer acceptance the step is due
+  dueOffsetDays?: number;
+  // Document slots that must be filled before the step can be completed
+  requiredDocuments?: DocumentType[];
+  // Limit the step to these property types
+  propertyTypes?: PropertyType[];
+}
+
+export interface MilestoneTemplate {
+  id: string;
+  version: number;
+  // ISO 3166-1 alpha-2 country code, or '*' for the fallback templates
+  country: string;
+  transactionTypes: TransactionType[];
+  propertyTypes?: PropertyType[];
+  steps: MilestoneTemplateStep[];
+}
+
+export const DEFAULT_TEMPLATE_COUNTRY = '*';
+
+const offerSteps: MilestoneTemplateStep[] = [
+  {
+    key: 'initial_offer',
+    title: 'Initial Offer',
+    description: 'Submit initial offer for the property',
+    isRequired: true,
+  },
+  {
+    key: 'offer_acceptance',
+    title: 'Offer Acceptance',
+    description: 'Offer accepted by seller',
+    isRequired: true,
+    dependsOn: ['initial_offer'],
+  },
+];
+
+export const milestoneTemplates: MilestoneTemplate[] = [
+  {
+    id: 'default-purchase',
+    version: 1,
+    country: DEFAULT_TEMPLATE_COUNTRY,
+    transactionTypes: [TransactionType.PURCHASE],
+    steps: [
+      ...offerSteps,
+      {
+        key: 'documentation_review',
+        title: 'Documentation Review',
+        description: 'Review and upload required documents',
+        isRequired: true,
+        dependsOn: ['offer_acceptance'],
+        dueOffsetDays: 7,
+        requiredDocuments: [DocumentType.ID_DOCUMENT, DocumentType.PROOF_OF_FUNDS],
+      },
+      {
+        key: 'property_inspection',
+        title: 'Property Inspection',
+        description: 'Conduct property inspection',
+        isRequired: true,
+        dependsOn: ['offer_acceptance'],
+        dueOffsetDays: 14,
+        requiredDocuments: [DocumentType.SURVEY],
+      },
+      {
+        key: 'mortgage_approval',
+        title: 'Mortgage Approval',
+        description: 'Obtain mortgage approval',
+        isRequired: false,
+        dependsOn: ['documentation_review'],
+        dueOffsetDays: 30,
+        requiredDocuments: [DocumentType.MORTGAGE_APPROVAL],
+      },
+      {
+        key: 'final_walkthrough',
+        title: 'Final Walkthrough',
+        description: 'Final property walkthrough',
+        isRequired: true,
+        dependsOn: ['property_inspection'],
+        dueOffsetDays: 55,
+      },
+      {
+        key: 'closing',
+        title: 'Closing',
+        description: 'Complete property purchase',
+        isRequired: true,
+        dependsOn: ['documentation_review', 'mortgage_approval', 'final_walkthrough'],
+        dueOffsetDays: 60,
+        requiredDocuments: [DocumentType.CONTRACT, DocumentType.TITLE_DEED],
+      },
+    ],
+  },
+  {
+    id: 'default-rental',
+    version: 1,
+    country: DEFAULT_TEMPLATE_COUNTRY,
+    transactionTypes: [TransactionType.RENTAL, TransactionType.LEASE],
+    steps: [
+      ...offerSteps,
+      {
+        key: 'documentation_review',
+        title: 'Documentation Review',
+        description: 'Review and upload required documents',
+        isRequired: true,
+        dependsOn: ['offer_acceptance'],
+        dueOffsetDays: 5,
+        requiredDocuments: [DocumentType.ID_DOCUMENT, DocumentType.PROOF_OF_FUNDS],
+      },
+      {
+        key: 'lease_agreement',
+        title: 'Lease Agreement',
+        description: 'Sign lease agreement',
+        isRequired: true,
+        dependsOn: ['documentation_review'],
+        dueOffsetDays: 10,
+        requiredDocuments: [DocumentType.CONTRACT],
+      },
+      {
+        key: 'security_deposit',
+        title: 'Security Deposit',
+        description: 'Pay security deposit',
+        isRequired: true,
+        dependsOn: ['lease_agreement'],
+        dueOffsetDays: 14,
+      },
+      {
+        key: 'move_in_inspection',
+        title: 'Move-in Inspection',
+        description: 'Conduct move-in inspection',
+        isRequired: true,
+        dependsOn: ['security_deposit'],
+        dueOffsetDays: 21,
+      },
+    ],
+  },
+  {
+    // Kaufvertrag must be notarised; the consumer gets the draft 14 days before signing (§ 17 BeurkG)
+    id: 'de-purchase',
+    version: 1,
+    country: 'DE',
+    transactionTypes: [TransactionType.PURCHASE],
+    steps: [
+      ...offerSteps,
+      {
+        key: 'financing_confirmation',
+        title: 'Financing Confirmation',
+        description: 'Bank confirms the loan or buyer provides proof of funds',
+        isRequired: true,
+        dependsOn: ['offer_acceptance'],
+        dueOffsetDays: 21,
+        requiredDocuments: [DocumentType.PROOF_OF_FUNDS],
+      },
+      {
+        key: 'owners_association_records',
+        title: 'Owners\' Association Records',
+        description: 'Review the Teilungserklärung, house rules and recent WEG meeting minutes',
+        isRequired: true,
+        dependsOn: ['offer_acceptance'],
+        dueOffsetDays: 10,
+        requiredDocuments: [DocumentType.OTHER],
+        propertyTypes: [PropertyType.APARTMENT],
+      },
+      {
+        key: 'notary_draft',
+        title: 'Notary Draft Contract',
+        description: 'Notary sends the draft purchase contract; the buyer has 14 days to review it',
+        isRequired: true,
+        dependsOn: ['offer_acceptance'],
+        dueOffsetDays: 7,
+        requiredDocuments: [DocumentType.ID_DOCUMENT],
+      },
+      {
+        key: 'notarization',
+        title: 'Notarization',
+        description: 'Both parties sign the purchase contract before the notary',
+        isRequired: true,
+        dependsOn: ['notary_draft', 'financing_confirmation', 'owners_association_records'],
+        dueOffsetDays: 28,
+        requiredDocuments: [DocumentType.CONTRACT],
+      },
+      {
+        key: 'priority_notice',
+        title: 'Priority Notice Registered',
+        description: 'Auflassungsvormerkung is entered in the land register',
+        isRequired: true,
+        dependsOn: ['notarization'],
+        dueOffsetDays: 42,
+      },
+      {
+        key: 'purchase_price_payment',
+        title: 'Purchase Price Payment',
+        description: 'Buyer pays the purchase price after the notary\'s notice of maturity',
+        isRequired: true,
+        dependsOn: ['priority_notice'],
+        dueOffsetDays: 56,
+      },
+      {
+        key: 'handover',
+        title: 'Handover',
+        description: 'Keys and meter readings are handed over to the buyer',
+        isRequired: true,
+        dependsOn: ['purchase_price_payment'],
+        dueOffsetDays: 60,
+        requiredDocuments: [DocumentType.ENERGY_CERTIFICATE],
+      },
+      {
+        key: 'land_registry',
+        title: 'Land Registry Transfer',
+        description: 'Ownership is registered once the real estate transfer tax is cleared',
+        isRequired: true,
+        dependsOn: ['purchase_price_payment'],
+        dueOffsetDays: 120,
+        requiredDocuments: [DocumentType.TITLE_DEED],
+      },
+    ],
+  },
+  {
+    // Compromis de vente starts a 10-day cooling-off period for the buyer (art. L271-1 CCH)
+    id: 'fr-purchase',
+    version: 1,
+    country: 'FR',
+    transactionTypes: [TransactionType.PURCHASE],
+    steps: [
+      ...offerSteps,
+      {
+        key: 'technical_diagnostics',
+        title: 'Technical Diagnostics',
+        description: 'Seller provides the dossier de diagnostic technique (DPE, asbestos, lead, electrical)',
+        isRequired: true,
+        dependsOn: ['offer_acceptance'],
+        dueOffsetDays: 7,
+        requiredDocuments: [DocumentType.SURVEY, DocumentType.ENERGY_CERTIFICATE],
+      },
+      {
+        key: 'copropriete_documents',
+        title: 'Copropriété Documents',
+        description: 'Règlement de copropriété, service charges and the last three AG minutes',
+        isRequired: true,
+        dependsOn: ['offer_acceptance'],
+        dueOffsetDays: 7,
+        requiredDocuments: [DocumentType.OTHER],
+        propertyTypes: [PropertyType.APARTMENT],
+      },
+      {
+        key: 'compromis_de_vente',
+        title: 'Compromis de Vente',
+        description: 'Sign the preliminary sale agreement and pay the deposit',
+        isRequired: true,
+        dependsOn: ['technical_diagnostics', 'copropriete_documents'],
+        dueOffsetDays: 14,
+        requiredDocuments: [DocumentType.CONTRACT, DocumentType.ID_DOCUMENT],
+      },
+      {
+        key: 'cooling_off_period',
+        title: 'Cooling-off Period',
+        description: 'The buyer may withdraw without penalty for 10 days after signing',
+        isRequired: true,
+        dependsOn: ['compromis_de_vente'],
+        dueOffsetDays: 24,
+      },
+      {
+        key: 'loan_condition',
+        title: 'Loan Condition Lifted',
+        description: 'Buyer obtains the mortgage offer covered by the condition suspensive',
+        isRequired: false,
+        dependsOn: ['cooling_off_period'],
+        dueOffsetDays: 60,
+        requiredDocuments: [DocumentType.MORTGAGE_APPROVAL],
+      },
+      {
+        key: 'acte_authentique',
+        title: 'Acte Authentique',
+        description: 'Sign the final deed before the notaire and pay the balance',
+        isRequired: true,
+        dependsOn: ['cooling_off_period', 'loan_condition'],
+        dueOffsetDays: 90,
+        requiredDocuments: [DocumentType.TITLE_DEED],
+      },
+      {
+        key: 'key_handover',
+        title: 'Key Handover',
+        description: 'Keys are handed over to the buyer',
+        isRequired: true,
+        dependsOn: ['acte_authentique'],
+        dueOffsetDays: 90,
+      },
+    ],
+  },
+  {
+    // Contrato de arras binds both parties with a deposit, usually 10% of the price
+    id: 'es-purchase',
+    version: 1,
+    country: 'ES',
+    transactionTypes: [TransactionType.PURCHASE],
+    steps: [
+      ...offerSteps,
+      {
+        key: 'reservation',
+        title: 'Reservation Deposit',
+        description: 'Buyer pays a reservation deposit and the property is taken off the market',
+        isRequired: false,
+        dependsOn: ['offer_acceptance'],
+        dueOffsetDays: 3,
+      },
+      {
+        key: 'due_diligence',
+        title: 'NIE and Nota Simple',
+        description: 'Buyer obtains an NIE; the nota simple confirms ownership and charges',
+        isRequired: true,
+        dependsOn: ['offer_acceptance'],
+        dueOffsetDays: 10,
+        requiredDocuments: [DocumentType.ID_DOCUMENT],
+      },
+      {
+        key: 'arras_contract',
+        title: 'Contrato de Arras',
+        description: 'Sign the private deposit contract and pay the arras',
+        isRequired: true,
+        dependsOn: ['reservation', 'due_diligence'],
+        dueOffsetDays: 14,
+        requiredDocuments: [DocumentType.CONTRACT],
+      },
+      {
+        key: 'mortgage_approval',
+        title: 'Mortgage Approval',
+        description: 'Bank issues the binding mortgage offer (FEIN)',
+        isRequired: false,
+        dependsOn: ['arras_contract'],
+        dueOffsetDays: 45,
+        requiredDocuments: [DocumentType.MORTGAGE_APPROVAL],
+      },
+      {
+        key: 'escritura',
+        title: 'Escritura Pública',
+        description: 'Sign the public deed of sale before the notario',
+        isRequired: true,
+        dependsOn: ['arras_contract', 'mortgage_approval'],
+        dueOffsetDays: 60,
+        requiredDocuments: [DocumentType.ENERGY_CERTIFICATE],
+      },
+      {
+        key: 'transfer_taxes',
+        title: 'Transfer Taxes Paid',
+        description: 'Pay ITP or IVA and AJD within 30 days of the escritura',
+        isRequired: true,
+        dependsOn: ['escritura'],
+        dueOffsetDays: 90,
+      },
+      {
+        key: 'land_registry',
+        title: 'Registro de la Propiedad',
+        description: 'The deed is inscribed in the property registry',
+        isRequired: true,
+        dependsOn: ['transfer_taxes'],
+        dueOffsetDays: 120,
+        requiredDocuments: [DocumentType.TITLE_DEED],
+      },
+    ],
+  },
+];
@@ -0,0 +1,50 @@
+import { PropertyStatus } from '@eu-real-estate/database';
+
+/**
+ * Who may make a status change: the listing's owner, an administrator, or
+ * the platform itself (offer acceptance, completed transactions, expiry)
+ */
+export type StatusActor = 'OWNER' | 'ADMIN' | 'SYSTEM';
+
+export interface StatusTransition {
+  from: PropertyStatus;
+  to: PropertyStatus;
+  actors: StatusActor[];
+}
+
+// Days a listing stays live after it is published or renewed
+export const LISTING_DURATION_DAYS = 90;
+
+// Days before expiry the owner is reminded to renew, earliest first
+export const EXPIRY_REMINDER_DAYS = [7, 1];
+
+export const statusTransitions: StatusTransition[] = [
+  // Preparing a listing
+  { from: PropertyStatus.DRAFT, to: PropertyStatus.PENDING, actors: ['OWNER', 'ADMIN'] },
+  { from: PropertyStatus.DRAFT, to: PropertyStatus.ACTIVE, actors: ['OWNER', 'ADMIN'] },
+  { from: PropertyStatus.PENDING, to: PropertyStatus.ACTIVE, actors: ['ADMIN'] },
+  { from: PropertyStatus.PENDING, to: PropertyStatus.DRAFT, actors: ['OWNER', 'ADMIN'] },
+
+  // A live listing
+  { from: PropertyStatus.ACTIVE, to: PropertyStatus.UNDER_OFFER, actors: ['OWNER', 'ADMIN', 'SYSTEM'] },
+  { from: PropertyStatus.ACTIVE, to: PropertyStatus.RESERVED, actors: ['OWNER', 'ADMIN', 'SYSTEM'] },
+  { from: PropertyStatus.ACTIVE, to: PropertyStatus.SOLD, actors: ['OWNER', 'ADMIN', 'SYSTEM'] },
+  { from: PropertyStatus.ACTIVE, to: PropertyStatus.RENTED, actors: ['OWNER', 'ADMIN', 'SYSTEM'] },
+  { from: PropertyStatus.ACTIVE, to: PropertyStatus.INACTIVE, actors: ['OWNER', 'ADMIN'] },
+  { from: PropertyStatus.ACTIVE, to: PropertyStatus.EXPIRED, actors: ['SYSTEM'] },
+
+  // An accepted offer either completes or falls through
+  { from: PropertyStatus.UNDER_OFFER, to: PropertyStatus.SOLD, actors: ['OWNER', 'ADMIN', 'SYSTEM'] },
+  { from: PropertyStatus.UNDER_OFFER, to: PropertyStatus.ACTIVE, actors: ['OWNER', 'ADMIN', 'SYSTEM'] },
+  { from: PropertyStatus.RESERVED, to: PropertyStatus.RENTED, actors: ['OWNER', 'ADMIN', 'SYSTEM'] },
+  { from: PropertyStatus.RESERVED, to: PropertyStatus.ACTIVE, actors: ['OWNER', 'ADMIN', 'SYSTEM'] },
+
+  // Off the market
+  { from: PropertyStatus.INACTIVE, to: PropertyStatus.ACTIVE, actors: ['OWNER', 'ADMIN'] },
+  { from: PropertyStatus.INACTIVE, to: PropertyStatus.DRAFT, actors: ['OWNER', 'ADMIN'] },
+  { from: PropertyStatus.EXPIRED, to: PropertyStatus.ACTIVE, actors: ['OWNER', 'ADMIN'] },
+  { from: PropertyStatus.EXPIRED, to: PropertyStatus.INACTIVE, actors: ['OWNER', 'ADMIN'] },
+  // A rental comes back once the tenancy ends; a sale is only reopened to correct a mistake
+  { from: PropertyStatus.RENTED, to: PropertyStatus.ACTIVE, actors: ['OWNER', 'ADMIN'] },
+  { from: PropertyStatus.SOLD, to: PropertyStatus.ACTIVE, actors: ['ADMIN'] },
+];
@@ -0,0 +1,26 @@
+import { ViewingSlotType } from '@eu-real-estate/database';
+
+export interface ViewingSlotRules {
+  // Bookings a slot takes; null for no limit other than capacity
+  maxBookings: number | null;
+  defaultCapacity: number;
+  maxCapacity: number;
+}
+
+// Hours before a viewing the agent and buyers are reminded
+export const VIEWING_REMINDER_HOURS = 24;
+
+// Minutes before a viewing after which it can no longer be booked, moved or cancelled online
+export const BOOKING_NOTICE_MINUTES = 60;
+
+// Longest slot an agent can publish
+export const MAX_SLOT_HOURS = 8;
+
+// Largest party a buyer can book for
+export const MAX_ATTENDEES = 6;
+
+export const viewingSlotRules: Record<ViewingSlotType, ViewingSlotRules> = {
+  // A private viewing is shown to one party at a time
+  [ViewingSlotType.VIEWING]: { maxBookings: 1, defaultCapacity: MAX_ATTENDEES, maxCapacity: MAX_ATTENDEES },
+  [ViewingSlotType.OPEN_HOUSE]: { maxBookings: null, defaultCapacity: 30, maxCapacity: 200 },
+};
@@ -1,312 +1,85 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import compression from 'compression';
+import { createServer, Server } from 'http';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config({ path: '../../.env' });
 
-const app = express();
-const PORT = process.env.PORT || 7500;
-
-console.log('🔍 Debug - PORT from env:', process.env.PORT);
-console.log('🔍 Debug - Final PORT value:', PORT);
-
-// Basic middleware
-app.use(helmet());
-app.use(cors({
-  origin: process.env.FRONTEND_URL || 'http://localhost:6500',
-  credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-}));
-
-app.use(compression());
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
-
-// Basic logging middleware
-app.use((req, res, next) => {
-  console.log(`${new Date().toISOString()} ${req.method} ${req.path}`);
-  next();
-});
-
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'OK',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    environment: process.env.NODE_ENV || 'development',
-  });
-});
-
-// Basic API endpoint
-app.get('/api', (req, res) => {
-  res.json({
-    message: 'EU Real Estate Portal API',
-    version: '1.0.0',
-    timestamp: new Date().toISOString(),
-  });
-});
-
-// Test database connection
-app.get('/api/test-db', async (req, res) => {
-  try {
-    // Import Prisma client directly
-    const { PrismaClient } = await import('../../../libs/database/src/generated/client');
-    const prisma = new PrismaClient();
-
-    // Test database connection
-    const userCount = await prisma.user.count();
-    const propertyCount = await prisma.property.count();
-
-    await prisma.$disconnect();
-
-    res.json({
-      success: true,
-      message: 'Database connection successful',
-      data: {
-        users: userCount,
-        properties: propertyCount,
-      },
-    });
-  } catch (error: any) {
-    console.error('Database connection error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Database connection failed',
-      error: error.message,
-    });
-  }
-});
-
-// Get properties endpoint
-app.get('/api/properties', async (req, res) => {
-  try {
-    const { PrismaClient } = await import('../../../libs/database/src/generated/client');
-    const prisma = new PrismaClient();
-
-    const properties = await prisma.property.findMany({
-      include: {
-        owner: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            role: true,
-          },
-        },
-        images: true,
-        tags: {
-          include: {
-            tag: true,
-          },
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
-
-    await prisma.$disconnect();
-
-    res.json({
-      success: true,
-      data: {
-        properties,
-        total: properties.length,
-      },
-    });
-  } catch (error: any) {
-    console.error('Error fetching properties:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to fetch properties',
-      error: error.message,
-    });
-  }
-});
-
-// Get property by ID
-app.get('/api/properties/:id', async (req, res) => {
-  try {
-    const { PrismaClient } = await import('../../../libs/database/src/generated/client');
-    const prisma = new PrismaClient();
-    const { id } = req.params;
-
-    const property = await prisma.property.findUnique({
-      where: { id },
-      include: {
-        owner: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            role: true,
-            phone: true,
-            company: true,
-          },
-        },
-        images: {
-          orderBy: {
-            order: 'asc',
-          },
-        },
-        tags: {
-          include: {
-            tag: true,
-          },
-        },
-        reviews: {
-          include: {
-            reviewer: {
-              select: {
-                firstName: true,
-                lastName: true,
-              },
-            },
-          },
-          orderBy: {
-            createdAt: 'desc',
-          },
-        },
-      },
+import { redis } from '@eu-real-estate/database';
+import { createApp } from './app';
+import { MessagingService } from './services/messaging.service';
+import { SavedSearchService } from './services/saved-search.service';
+import { TransactionService } from './services/transaction.service';
+import { SearchIndexingService } from './services/search-indexing.service';
+import { ExchangeRateService } from './services/exchange-rate.service';
+import { PropertyAnalyticsService } from './services/property-analytics.service';
+import { PropertyLifecycleService } from './services/property-lifecycle.service';
+import { PropertyScheduleService } from './services/property-schedule.service';
+import { ViewingService } from './services/viewing.service';
+import AnalyticsService from './services/analytics.service';
+import logger from './utils/logger';
+
+const app = createApp();
+
+/**
+ * Connect to Redis, then start the HTTP server, attach the WebSocket gateway
+ * and start background jobs
+ */
+export async function listen(port: number | string = process.env.PORT || 7500): Promise<Server> {
+  // Rate limits, the response cache and realtime fan-out all go through the
+  // shared client, so nothing is served until it is connected
+  await redis.connect();
+
+  const server = createServer(app);
+
+  MessagingService.initializeWebSocket(server);
+  SavedSearchService.startDigestScheduler();
+  TransactionService.startOfferExpirySweeper();
+  SearchIndexingService.startWorker();
+  ExchangeRateService.startRateRefresher();
+  PropertyAnalyticsService.startRollupJob();
+  PropertyLifecycleService.startExpiryJob();
+  PropertyScheduleService.startScheduler();
+  ViewingService.startReminderJob();
+
+  server.listen(port, () => {
+    logger.info(`EU Real Estate API server running on port ${port}`, {
+      environment: process.env.NODE_ENV || 'development',
+      healthCheck: `http://localhost:${port}/health`,
     });
-
-    if (!property) {
-      await prisma.$disconnect();
-      return res.status(404).json({
-        success: false,
-        message: 'Property not found',
-      });
-    }
-
-    // Increment view count
-    await prisma.property.update({
-      where: { id },
-      data: {
-        viewCount: {
-          increment: 1,
-        },
-      },
-    });
-
-    await prisma.$disconnect();
-
-    res.json({
-      success: true,
-      data: {
-        property,
-      },
-    });
-  } catch (error: any) {
-    console.error('Error fetching property:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to fetch property',
-      error: error.message,
-    });
-  }
-});
-
-// Basic auth endpoint for testing
-app.post('/api/auth/login', async (req, res) => {
-  try {
-    const { email, password } = req.body;
-
-    if (!email || !password) {
-      return res.status(400).json({
-        success: false,
-        message: 'Email and password are required',
-      });
-    }
-
-    const { PrismaClient } = await import('../../../libs/database/src/generated/client');
-    const prisma = new PrismaClient();
-    const bcrypt = await import('bcryptjs');
-
-    // Find user by email
-    const user = await prisma.user.findUnique({
-      where: { email },
-    });
-
-    if (!user) {
-      await prisma.$disconnect();
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid credentials',
-      });
-    }
-
-    // Check password
-    const isValidPassword = await bcrypt.compare(password, user.passwordHash);
-
-    if (!isValidPassword) {
-      await prisma.$disconnect();
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid credentials',
-      });
-    }
-
-    await prisma.$disconnect();
-
-    // Return user data (without password)
-    const { passwordHash, ...userData } = user;
-
-    res.json({
-      success: true,
-      message: 'Login successful',
-      data: {
-        user: userData,
-        // In a real app, you'd generate a JWT token here
-        token: 'mock-jwt-token',
-      },
-    });
-  } catch (error: any) {
-    console.error('Login error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Login failed',
-      error: error.message,
-    });
-  }
-});
-
-// 404 handler
-app.use('*', (req, res) => {
-  res.status(404).json({
-    error: {
-      code: 'NOT_FOUND',
-      message: 'Endpoint not found',
-      timestamp: new Date().toISOString(),
-    },
   });
-});
 
-// Error handling middleware
-app.use((error, req, res, next) => {
-  console.error('Unhandled error:', error);
-  res.status(500).json({
-    error: {
-      code: 'INTERNAL_SERVER_ERROR',
-      message: 'Internal server error',
-      timestamp: new Date().toISOString(),
-    },
+  return server;
+}
+
+/**
+ * Stop accepting connections and write out analytics still buffered in memory
+ */
+export async function shutdown(server: Server): Promise<void> {
+  server.close();
+  await AnalyticsService.getInstance().flush();
+}
+
+// Only bind a port when run directly; tests import the app instead
+if (require.main === module) {
+  listen().then(server => {
+    const stop = (signal: NodeJS.Signals) => {
+      logger.info(`${signal} received, shutting down`);
+      shutdown(server)
+        .catch(error => logger.error('Failed to flush analytics data on shutdown', error))
+        .finally(() => process.exit(0));
+    };
+
+    process.once('SIGTERM', stop);
+    process.once('SIGINT', stop);
+    // Once only: the flush itself would otherwise empty the loop again
+    process.once('beforeExit', () => {
+      AnalyticsService.getInstance().flush()
+        .catch(error => logger.error('Failed to flush analytics data on exit', error));
+    });
+  }).catch(error => {
+    logger.error('Failed to start the API server:', error);
+    process.exit(1);
   });
-});
-
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 EU Real Estate API server running on port ${PORT}`);
-  console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔗 Health check: http://localhost:${PORT}/health`);
-  console.log(`🏠 Properties: http://localhost:${PORT}/api/properties`);
-  console.log(`🔐 Test login with: admin@eu-real-estate.com / password123`);
-});
+}
 
-export default app;
\ No newline at end of file
+export default app;
@@ -62,7 +62,7 @@ export const authenticate = async (
     req.user = {
       id: user.id,
       email: user.email,
-      role: user.role,
+      role: user.role as UserRole,
       isVerified: user.isVerified,
     };
 
@@ -78,6 +78,11 @@ export const authenticate = async (
   }
 };
 
+/**
+ * Alias used by the analytics and error-tracking routes
+ */
+export const authMiddleware = authenticate;
+
 /**
  * Middleware to check if user has required role
  */
@@ -171,7 +176,7 @@ export const optionalAuth = async (
       req.user = {
         id: user.id,
         email: user.email,
-        role: user.role,
+        role: user.role as UserRole,
         isVerified: user.isVerified,
       };
     }
@@ -291,7 +291,7 @@ router.post('/track/conversion', authMiddleware, (req: Request, res: Response) =
  *       403:
  *         description: Insufficient permissions
  */
-router.get('/dashboard', authMiddleware, (req: Request, res: Response) => {
+router.get('/dashboard', authMiddleware, async (req: Request, res: Response) => {
   try {
     // Check if user has admin role
     const userRole = (req as any).user.role;
@@ -302,7 +302,7 @@ router.get('/dashboard', authMiddleware, (req: Request, res: Response) => {
     }
 
     const timeRange = req.query.timeRange as '1h' | '24h' | '7d' | '30d' || '24h';
-    const dashboardData = analytics.getAnalyticsDashboard(timeRange);
+    const dashboardData = await analytics.getAnalyticsDashboard(timeRange);
 
     res.json({
       success: true,
@@ -356,7 +356,7 @@ router.get('/dashboard', authMiddleware, (req: Request, res: Response) => {
  *       403:
  *         description: Insufficient permissions
  */
-router.get('/realtime', authMiddleware, (req: Request, res: Response) => {
+router.get('/realtime', authMiddleware, async (req: Request, res: Response) => {
   try {
     // Check if user has admin role
     const userRole = (req as any).user.role;
@@ -366,7 +366,7 @@ router.get('/realtime', authMiddleware, (req: Request, res: Response) => {
       });
     }
 
-    const realtimeData = analytics.getRealTimeAnalytics();
+    const realtimeData = await analytics.getRealTimeAnalytics();
 
     res.json({
       success: true,
@@ -440,7 +440,7 @@ router.get('/realtime', authMiddleware, (req: Request, res: Response) => {
  *       404:
  *         description: User not found
  */
-router.get('/user/:userId/journey', authMiddleware, (req: Request, res: Response) => {
+router.get('/user/:userId/journey', authMiddleware, async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
     const currentUserId = (req as any).user.id;
@@ -454,7 +454,7 @@ router.get('/user/:userId/journey', authMiddleware, (req: Request, res: Response
     }
 
     const timeRange = req.query.timeRange as '1h' | '24h' | '7d' | '30d' || '7d';
-    const journeyData = analytics.getUserJourney(userId, timeRange);
+    const journeyData = await analytics.getUserJourney(userId, timeRange);
 
     res.json({
       success: true,
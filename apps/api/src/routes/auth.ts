@@ -5,7 +5,6 @@ import { AuthService } from '../services/auth.service';
 import { authenticate } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error-handler';
 import { validateRequest } from '../middleware/validation';
-import { authRateLimiter, loginRateLimiter } from '../middleware/rate-limiter';
 
 const router = Router();
 
@@ -50,7 +49,7 @@ const changePasswordSchema = Joi.object({
  * POST /api/auth/register
  * Register a new user
  */
-router.post('/register', authRateLimiter, validateRequest(registerSchema), asyncHandler(async (req, res) => {
+router.post('/register', validateRequest(registerSchema), asyncHandler(async (req, res) => {
   const result = await AuthService.register(req.body);
   
   res.status(201).json({
@@ -67,7 +66,7 @@ router.post('/register', authRateLimiter, validateRequest(registerSchema), async
  * POST /api/auth/login
  * Login user
  */
-router.post('/login', loginRateLimiter, validateRequest(loginSchema), asyncHandler(async (req, res) => {
+router.post('/login', validateRequest(loginSchema), asyncHandler(async (req, res) => {
   const result = await AuthService.login(req.body);
   
   res.json({
@@ -84,7 +83,7 @@ router.post('/login', loginRateLimiter, validateRequest(loginSchema), asyncHandl
  * POST /api/auth/refresh
  * Refresh access token
  */
-router.post('/refresh', authRateLimiter, validateRequest(refreshTokenSchema), asyncHandler(async (req, res) => {
+router.post('/refresh', validateRequest(refreshTokenSchema), asyncHandler(async (req, res) => {
   const { refreshToken } = req.body;
   const tokens = await AuthService.refreshToken(refreshToken);
   
@@ -99,7 +98,7 @@ router.post('/refresh', authRateLimiter, validateRequest(refreshTokenSchema), as
  * POST /api/auth/verify-email
  * Verify email address
  */
-router.post('/verify-email', authRateLimiter, validateRequest(verifyEmailSchema), asyncHandler(async (req, res) => {
+router.post('/verify-email', validateRequest(verifyEmailSchema), asyncHandler(async (req, res) => {
   const { token } = req.body;
   await AuthService.verifyEmail(token);
   
@@ -113,7 +112,7 @@ router.post('/verify-email', authRateLimiter, validateRequest(verifyEmailSchema)
  * POST /api/auth/request-password-reset
  * Request password reset
  */
-router.post('/request-password-reset', authRateLimiter, validateRequest(requestPasswordResetSchema), asyncHandler(async (req, res) => {
+router.post('/request-password-reset', validateRequest(requestPasswordResetSchema), asyncHandler(async (req, res) => {
   const { email } = req.body;
   await AuthService.requestPasswordReset(email);
   
@@ -127,7 +126,7 @@ router.post('/request-password-reset', authRateLimiter, validateRequest(requestP
  * POST /api/auth/reset-password
  * Reset password with token
  */
-router.post('/reset-password', authRateLimiter, validateRequest(resetPasswordSchema), asyncHandler(async (req, res) => {
+router.post('/reset-password', validateRequest(resetPasswordSchema), asyncHandler(async (req, res) => {
   const { token, password } = req.body;
   await AuthService.resetPassword(token, password);
   
@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler } from '../middleware/error-handler';
+import { validateQuery, validateParams } from '../middleware/validation';
+import { ComplianceService } from '../services/compliance.service';
+import { ComplianceRulePackService } from '../services/compliance-rule-pack.service';
+import { UserRole } from '@eu-real-estate/database';
+
+const router = Router();
+
+// Validation schemas
+const listRulesSchema = Joi.object({
+  country: Joi.string().length(2).uppercase().optional(),
+  at: Joi.date().iso().optional(),
+});
+
+const rulePackParamsSchema = Joi.object({
+  country: Joi.string().length(2).uppercase().required(),
+  version: Joi.number().integer().min(1).required(),
+});
+
+const propertyIdSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+});
+
+const previewSchema = Joi.object({
+  version: Joi.number().integer().min(1).required(),
+});
+
+router.use(authenticate, authorize(UserRole.ADMIN));
+
+/**
+ * GET /api/compliance/rules
+ * List compliance rule pack versions and whether they are active, upcoming or superseded
+ */
+router.get('/rules', validateQuery(listRulesSchema), asyncHandler(async (req, res) => {
+  const { country, at } = req.query as { country?: string; at?: Date };
+
+  res.json({
+    success: true,
+    data: {
+      packs: ComplianceRulePackService.listPacks(country, at),
+      supportedCountries: ComplianceRulePackService.getCountries(at),
+    },
+  });
+}));
+
+/**
+ * GET /api/compliance/rules/:country/:version
+ * Get the rules of one pack version
+ */
+router.get('/rules/:country/:version', validateParams(rulePackParamsSchema), asyncHandler(async (req, res) => {
+  const pack = ComplianceRulePackService.getPack(req.params.country, Number(req.params.version));
+
+  res.json({
+    success: true,
+    data: { pack },
+  });
+}));
+
+/**
+ * GET /api/compliance/properties/:id/preview?version=
+ * Check a property against an upcoming rule pack version
+ */
+router.get(
+  '/properties/:id/preview',
+  validateParams(propertyIdSchema),
+  validateQuery(previewSchema),
+  asyncHandler(async (req, res) => {
+    const preview = await ComplianceService.previewPropertyCompliance(req.params.id, Number(req.query.version));
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  })
+);
+
+export { router as complianceRoutes };
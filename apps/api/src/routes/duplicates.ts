@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler } from '../middleware/error-handler';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation';
+import { DuplicateDetectionService } from '../services/duplicate-detection.service';
+import { UserRole, DuplicateCandidateStatus } from '@eu-real-estate/database';
+
+const router = Router();
+
+// Validation schemas
+const reviewQueueSchema = Joi.object({
+  status: Joi.string().valid(...Object.values(DuplicateCandidateStatus)).default(DuplicateCandidateStatus.PENDING),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+const reviewCandidateSchema = Joi.object({
+  decision: Joi.string().valid('CONFIRM', 'DISMISS').required(),
+  // Listing to keep when confirming; defaults to the older one
+  originalId: Joi.string().uuid().optional(),
+});
+
+const idSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+});
+
+router.use(authenticate, authorize(UserRole.ADMIN));
+
+/**
+ * GET /api/duplicates
+ * Listing pairs that look like the same home, most likely first
+ */
+router.get('/', validateQuery(reviewQueueSchema), asyncHandler(async (req, res) => {
+  const { status, page, limit } = req.query as any;
+
+  const result = await DuplicateDetectionService.getReviewQueue(status, { page, limit });
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+/**
+ * POST /api/duplicates/properties/:id/check
+ * Look for duplicates of a listing now instead of waiting for its next edit
+ */
+router.post('/properties/:id/check', validateParams(idSchema), asyncHandler(async (req, res) => {
+  const matches = await DuplicateDetectionService.checkProperty(req.params.id);
+
+  res.json({
+    success: true,
+    data: { matches },
+  });
+}));
+
+/**
+ * PATCH /api/duplicates/:id
+ * Confirm a pair as duplicates, merging the newer listing into the original, or dismiss it
+ */
+router.patch(
+  '/:id',
+  validateParams(idSchema),
+  validateRequest(reviewCandidateSchema),
+  asyncHandler(async (req, res) => {
+    const result = await DuplicateDetectionService.reviewCandidate(
+      req.params.id,
+      req.user!.id,
+      req.body.decision,
+      req.body.originalId
+    );
+
+    res.json({
+      success: true,
+      message: result.status === DuplicateCandidateStatus.CONFIRMED ? 'Listings merged' : 'Duplicate dismissed',
+      data: result,
+    });
+  })
+);
+
+export { router as duplicateRoutes };
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import { asyncHandler } from '../middleware/error-handler';
+import { validateQuery, validateParams } from '../middleware/validation';
+import { GeoAreaService } from '../services/geo-area.service';
+import { GeoAreaKind } from '@eu-real-estate/database';
+
+const router = Router();
+
+// Validation schemas
+const listAreasSchema = Joi.object({
+  country: Joi.string().length(2).uppercase().optional(),
+  city: Joi.string().max(100).optional(),
+  kind: Joi.string().valid(...Object.values(GeoAreaKind)).optional(),
+});
+
+const areaIdSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+});
+
+/**
+ * GET /api/geo/areas
+ * List stored area boundaries as a GeoJSON feature collection
+ */
+router.get('/areas', validateQuery(listAreasSchema), asyncHandler(async (req, res) => {
+  const areas = await GeoAreaService.listAreas(req.query as any);
+
+  res.json({
+    success: true,
+    data: { areas },
+  });
+}));
+
+/**
+ * GET /api/geo/areas/:id
+ * Get a single area boundary
+ */
+router.get('/areas/:id', validateParams(areaIdSchema), asyncHandler(async (req, res) => {
+  const area = await GeoAreaService.getArea(req.params.id);
+
+  res.json({
+    success: true,
+    data: { area },
+  });
+}));
+
+export { router as geoRoutes };
@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import Joi from 'joi';
+import { BASE_CURRENCY } from '@eu-real-estate/database';
 import { authenticate, optionalAuth } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error-handler';
 import { validateRequest, validateParams } from '../middleware/validation';
 import { LocalizationService } from '../services/localization.service';
+import { ExchangeRateService } from '../services/exchange-rate.service';
 
 const router = Router();
 
@@ -22,6 +24,8 @@ const formatCurrencySchema = Joi.object({
   amount: Joi.number().required(),
   country: Joi.string().length(2).required(),
   language: Joi.string().min(2).max(5).optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  fromCurrency: Joi.string().length(3).uppercase().optional(),
 });
 
 const formatDateSchema = Joi.object({
@@ -106,13 +110,27 @@ router.get('/context', authenticate, asyncHandler(async (req, res) => {
   });
 }));
 
+/**
+ * GET /api/localization/exchange-rates
+ * Get the latest daily exchange rate snapshot, quoted per euro
+ */
+router.get('/exchange-rates', asyncHandler(async (req, res) => {
+  const { date, rates, source } = await ExchangeRateService.getRates();
+
+  res.json({
+    success: true,
+    data: { date, base: BASE_CURRENCY, rates, source },
+  });
+}));
+
 /**
  * POST /api/localization/format/currency
- * Format currency for country
+ * Format currency for country, converting from fromCurrency when given
  */
 router.post('/format/currency', validateRequest(formatCurrencySchema), asyncHandler(async (req, res) => {
-  const { amount, country, language } = req.body;
-  const formatted = LocalizationService.formatCurrency(amount, country, language);
+  const { amount, country, language, currency, fromCurrency } = req.body;
+  const rates = fromCurrency ? (await ExchangeRateService.getRates()).rates : undefined;
+  const formatted = LocalizationService.formatCurrency(amount, country, language, { currency, from: fromCurrency, rates });
   
   res.json({
     success: true,
@@ -145,7 +145,7 @@ router.delete('/:id', authenticate, validateParams(uuidSchema), asyncHandler(asy
  * Get list of online users
  */
 router.get('/online-users', authenticate, asyncHandler(async (req, res) => {
-  const onlineUsers = MessagingService.getOnlineUsers();
+  const onlineUsers = await MessagingService.getOnlineUsers();
   
   res.json({
     success: true,
@@ -158,7 +158,7 @@ router.get('/online-users', authenticate, asyncHandler(async (req, res) => {
  * Check if specific user is online
  */
 router.get('/user/:userId/online', authenticate, validateParams({ userId: Joi.string().uuid().required() }), asyncHandler(async (req, res) => {
-  const isOnline = MessagingService.isUserOnline(req.params.userId);
+  const isOnline = await MessagingService.isUserOnline(req.params.userId);
   
   res.json({
     success: true,
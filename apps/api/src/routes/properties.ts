@@ -5,7 +5,22 @@ import { authenticate, authorize, optionalAuth } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error-handler';
 import { validateRequest, validateQuery, validateParams } from '../middleware/validation';
 import { PropertyService } from '../services/property.service';
-import { UserRole, PropertyType, ListingType, PropertyStatus } from '@eu-real-estate/database';
+import { GeoAreaService } from '../services/geo-area.service';
+import { PropertyMapService } from '../services/property-map.service';
+import { CacheService, CachePolicy, CacheTags } from '../services/cache.service';
+import { PropertyAnalyticsService } from '../services/property-analytics.service';
+import { PropertyLifecycleService } from '../services/property-lifecycle.service';
+import { PropertyScheduleService } from '../services/property-schedule.service';
+import { LOCAL_DATE_TIME_PATTERN } from '../utils/timezone';
+import {
+  UserRole,
+  PropertyType,
+  ListingType,
+  PropertyStatus,
+  PropertyEventType,
+  PropertySearchFilters,
+  parseGeoShape,
+} from '@eu-real-estate/database';
 
 const router = Router();
 
@@ -67,7 +82,8 @@ const updatePropertySchema = createPropertySchema.fork(
   isFeatured: Joi.boolean().optional(),
 });
 
-const searchPropertiesSchema = Joi.object({
+// Listing filters shared by the list and map endpoints
+const propertyFilterKeys = {
   propertyType: Joi.array().items(Joi.string().valid(...Object.values(PropertyType))).optional(),
   listingType: Joi.string().valid(...Object.values(ListingType)).optional(),
   minPrice: Joi.number().positive().optional(),
@@ -88,11 +104,29 @@ const searchPropertiesSchema = Joi.object({
   elevator: Joi.boolean().optional(),
   airConditioning: Joi.boolean().optional(),
   amenities: Joi.array().items(Joi.string()).optional(),
+  // GeoJSON Polygon or MultiPolygon geometry, as a JSON string
+  polygon: Joi.string().max(100000).custom((value, helpers) => parseGeoShape(value) || helpers.error('any.invalid'))
+    .messages({ 'any.invalid': '"polygon" must be a GeoJSON Polygon or MultiPolygon' })
+    .optional(),
+  areaId: Joi.string().uuid().optional(),
+};
+
+const searchPropertiesSchema = Joi.object({
+  ...propertyFilterKeys,
   page: Joi.number().integer().min(1).default(1),
   limit: Joi.number().integer().min(1).max(100).default(10),
   sortBy: Joi.string().valid('price', 'createdAt', 'viewCount', 'title').default('createdAt'),
   sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
-});
+}).oxor('polygon', 'areaId');
+
+const propertyMapSchema = Joi.object({
+  ...propertyFilterKeys,
+  north: Joi.number().min(-90).max(90).required(),
+  south: Joi.number().min(-90).max(90).max(Joi.ref('north')).required(),
+  east: Joi.number().min(-180).max(180).required(),
+  west: Joi.number().min(-180).max(180).max(Joi.ref('east')).required(),
+  zoom: Joi.number().integer().min(0).max(22).required(),
+}).oxor('polygon', 'areaId');
 
 const propertyIdSchema = Joi.object({
   id: Joi.string().uuid().required(),
@@ -101,37 +135,91 @@ const propertyIdSchema = Joi.object({
 const updateStatusSchema = Joi.object({
   status: Joi.string().valid(...Object.values(PropertyStatus)).required(),
   notes: Joi.string().max(500).optional(),
+  overrideCompliance: Joi.boolean().optional(),
+  overrideReason: Joi.string().min(10).max(500).when('overrideCompliance', {
+    is: true,
+    then: Joi.required(),
+  }),
+});
+
+// An expired listing is published again on renewal, so the compliance override applies here too
+const renewListingSchema = Joi.object({
+  overrideCompliance: Joi.boolean().optional(),
+  overrideReason: Joi.string().min(10).max(500).when('overrideCompliance', {
+    is: true,
+    then: Joi.required(),
+  }),
+});
+
+// Times are local to the owner's timezone, as entered in a datetime-local field; null clears them
+const listingScheduleSchema = Joi.object({
+  publishAt: Joi.string().pattern(LOCAL_DATE_TIME_PATTERN).allow(null).optional(),
+  unpublishAt: Joi.string().pattern(LOCAL_DATE_TIME_PATTERN).allow(null).optional(),
+  timezone: Joi.string().max(64).optional(),
+});
+
+// Events reported by the client; impressions, views and favourites are recorded by the API itself
+const trackEventSchema = Joi.object({
+  type: Joi.string().valid(PropertyEventType.GALLERY_OPEN, PropertyEventType.SHARE, PropertyEventType.CONTACT).required(),
+  source: Joi.string().max(50).optional(),
 });
 
+const analyticsQuerySchema = Joi.object({
+  days: Joi.number().integer().min(1).max(365).default(30),
+});
+
+// Cache policies
+const propertyDetailCache: CachePolicy = {
+  ttl: 300,
+  tags: (req, body) => [CacheTags.property(req.params['id']), CacheTags.owner(body.data.property.ownerId)],
+};
+
+// Any listing write can change which listings are featured or similar
+const propertyListCache: CachePolicy = {
+  ttl: 300,
+  tags: (req, body) => [
+    CacheTags.properties,
+    ...body.data.properties.map((property: any) => CacheTags.owner(property.ownerId)),
+  ],
+};
+
 /**
- * GET /api/properties
- * Search properties with filters and pagination
+ * Build listing filters from a validated query, resolving a stored area to its boundary
  */
-router.get('/', optionalAuth, validateQuery(searchPropertiesSchema), asyncHandler(async (req, res) => {
-  const filters = {
-    propertyType: req.query.propertyType,
-    listingType: req.query.listingType,
-    minPrice: req.query.minPrice,
-    maxPrice: req.query.maxPrice,
-    minBedrooms: req.query.minBedrooms,
-    maxBedrooms: req.query.maxBedrooms,
-    minBathrooms: req.query.minBathrooms,
-    maxBathrooms: req.query.maxBathrooms,
-    minFloorArea: req.query.minFloorArea,
-    country: req.query.country,
-    city: req.query.city,
+async function buildSearchFilters(query: any): Promise<PropertySearchFilters> {
+  return {
+    propertyType: query.propertyType,
+    listingType: query.listingType,
+    minPrice: query.minPrice,
+    maxPrice: query.maxPrice,
+    minBedrooms: query.minBedrooms,
+    maxBedrooms: query.maxBedrooms,
+    minBathrooms: query.minBathrooms,
+    maxBathrooms: query.maxBathrooms,
+    minFloorArea: query.minFloorArea,
+    country: query.country,
+    city: query.city,
     features: {
-      garden: req.query.garden,
-      parking: req.query.parking,
-      furnished: req.query.furnished,
-      petFriendly: req.query.petFriendly,
-      balcony: req.query.balcony,
-      terrace: req.query.terrace,
-      elevator: req.query.elevator,
-      airConditioning: req.query.airConditioning,
+      garden: query.garden,
+      parking: query.parking,
+      furnished: query.furnished,
+      petFriendly: query.petFriendly,
+      balcony: query.balcony,
+      terrace: query.terrace,
+      elevator: query.elevator,
+      airConditioning: query.airConditioning,
     },
-    amenities: req.query.amenities,
+    amenities: query.amenities,
+    polygon: query.areaId ? await GeoAreaService.getAreaShape(query.areaId) : query.polygon,
   };
+}
+
+/**
+ * GET /api/properties
+ * Search properties with filters and pagination
+ */
+router.get('/', optionalAuth, validateQuery(searchPropertiesSchema), asyncHandler(async (req, res) => {
+  const filters = await buildSearchFilters(req.query);
 
   const pagination = {
     page: req.query.page,
@@ -141,6 +229,10 @@ router.get('/', optionalAuth, validateQuery(searchPropertiesSchema), asyncHandle
   };
 
   const result = await PropertyService.searchProperties(filters, pagination, req.user?.id);
+  await PropertyAnalyticsService.recordImpressions(
+    result.properties.map((property: { id: string }) => property.id),
+    PropertyAnalyticsService.contextFor(req, 'search')
+  );
 
   res.json({
     success: true,
@@ -162,11 +254,27 @@ router.post('/', authenticate, authorize(UserRole.AGENT, UserRole.SELLER), valid
   });
 }));
 
+/**
+ * GET /api/properties/map
+ * Get listing clusters, or pins at close zoom, for the map viewport
+ */
+router.get('/map', optionalAuth, validateQuery(propertyMapSchema), asyncHandler(async (req, res) => {
+  const filters = await buildSearchFilters(req.query);
+  const { north, south, east, west, zoom } = req.query as any;
+
+  const result = await PropertyMapService.getMap(filters, { bounds: { north, south, east, west }, zoom });
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
 /**
  * GET /api/properties/featured
  * Get featured properties
  */
-router.get('/featured', asyncHandler(async (req, res) => {
+router.get('/featured', CacheService.cached(propertyListCache), asyncHandler(async (req, res) => {
   const limit = parseInt(req.query.limit as string) || 10;
   const properties = await PropertyService.getFeaturedProperties(limit);
 
@@ -220,14 +328,25 @@ router.get('/my', authenticate, asyncHandler(async (req, res) => {
  * GET /api/properties/:id
  * Get property by ID
  */
-router.get('/:id', optionalAuth, validateParams(propertyIdSchema), asyncHandler(async (req, res) => {
-  const property = await PropertyService.getPropertyById(req.params.id, req.user?.id);
-
-  res.json({
-    success: true,
-    data: { property },
-  });
-}));
+router.get(
+  '/:id',
+  optionalAuth,
+  validateParams(propertyIdSchema),
+  // Count the visit ahead of the cache, which may answer without reaching the handler
+  asyncHandler(async (req, res, next) => {
+    await PropertyService.recordView(req.params.id, PropertyAnalyticsService.contextFor(req));
+    next();
+  }),
+  CacheService.cached(propertyDetailCache),
+  asyncHandler(async (req, res) => {
+    const property = await PropertyService.getPropertyById(req.params.id, req.user?.id);
+
+    res.json({
+      success: true,
+      data: { property },
+    });
+  })
+);
 
 /**
  * PUT /api/properties/:id
@@ -258,14 +377,21 @@ router.delete('/:id', authenticate, validateParams(propertyIdSchema), asyncHandl
 
 /**
  * PATCH /api/properties/:id/status
- * Update property status
+ * Update property status. Publishing runs the country compliance check,
+ * which admins can override with a reason that is written to the audit log.
  */
 router.patch('/:id/status', authenticate, validateParams(propertyIdSchema), validateRequest(updateStatusSchema), asyncHandler(async (req, res) => {
   const property = await PropertyService.updatePropertyStatus(
     req.params.id, 
     req.user!.id, 
     req.body.status,
-    req.body.notes
+    req.body.notes,
+    {
+      overrideCompliance: req.body.overrideCompliance,
+      overrideReason: req.body.overrideReason,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    }
   );
 
   res.json({
@@ -275,6 +401,65 @@ router.patch('/:id/status', authenticate, validateParams(propertyIdSchema), vali
   });
 }));
 
+/**
+ * GET /api/properties/:id/history
+ * Full status timeline of a listing, for its owner and admins
+ */
+router.get('/:id/history', authenticate, validateParams(propertyIdSchema), asyncHandler(async (req, res) => {
+  const timeline = await PropertyLifecycleService.getHistory(req.params.id, req.user!);
+
+  res.json({
+    success: true,
+    data: { timeline },
+  });
+}));
+
+/**
+ * GET /api/properties/:id/schedule
+ * Scheduled publish and unpublish times of a listing, for its owner and admins
+ */
+router.get('/:id/schedule', authenticate, validateParams(propertyIdSchema), asyncHandler(async (req, res) => {
+  const schedule = await PropertyScheduleService.getSchedule(req.params.id, req.user!.id);
+
+  res.json({
+    success: true,
+    data: { schedule },
+  });
+}));
+
+/**
+ * PUT /api/properties/:id/schedule
+ * Schedule a listing to go live or come down at a local time in the owner's timezone
+ */
+router.put('/:id/schedule', authenticate, validateParams(propertyIdSchema), validateRequest(listingScheduleSchema), asyncHandler(async (req, res) => {
+  const schedule = await PropertyScheduleService.setSchedule(req.params.id, req.user!.id, req.body);
+
+  res.json({
+    success: true,
+    message: 'Listing schedule updated successfully',
+    data: { schedule },
+  });
+}));
+
+/**
+ * POST /api/properties/:id/renew
+ * Extend a live listing for another period, or put an expired one back on the market
+ */
+router.post('/:id/renew', authenticate, validateParams(propertyIdSchema), validateRequest(renewListingSchema), asyncHandler(async (req, res) => {
+  const property = await PropertyService.renewListing(req.params.id, req.user!.id, {
+    overrideCompliance: req.body.overrideCompliance,
+    overrideReason: req.body.overrideReason,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  res.json({
+    success: true,
+    message: 'Listing renewed successfully',
+    data: { property },
+  });
+}));
+
 /**
  * POST /api/properties/:id/images
  * Upload property images
@@ -355,7 +540,7 @@ router.delete('/:id/documents/:documentId', authenticate, validateParams(Joi.obj
  * GET /api/properties/:id/similar
  * Get similar properties
  */
-router.get('/:id/similar', validateParams(propertyIdSchema), asyncHandler(async (req, res) => {
+router.get('/:id/similar', validateParams(propertyIdSchema), CacheService.cached(propertyListCache), asyncHandler(async (req, res) => {
   const limit = parseInt(req.query.limit as string) || 4;
   const properties = await PropertyService.getSimilarProperties(req.params.id, limit);
 
@@ -391,12 +576,28 @@ router.delete('/:id/favorites', authenticate, validateParams(propertyIdSchema),
   });
 }));
 
+/**
+ * POST /api/properties/:id/events
+ * Record a gallery open, share or contact on a listing
+ */
+router.post('/:id/events', optionalAuth, validateParams(propertyIdSchema), validateRequest(trackEventSchema), asyncHandler(async (req, res) => {
+  await PropertyAnalyticsService.track(
+    req.params.id,
+    req.body.type,
+    PropertyAnalyticsService.contextFor(req, req.body.source)
+  );
+
+  res.status(201).json({
+    success: true,
+  });
+}));
+
 /**
  * GET /api/properties/:id/analytics
- * Get property analytics (owner only)
+ * Listing performance over the last `days` days (owner or admin)
  */
-router.get('/:id/analytics', authenticate, validateParams(propertyIdSchema), asyncHandler(async (req, res) => {
-  const analytics = await PropertyService.getPropertyAnalytics(req.params.id, req.user!.id);
+router.get('/:id/analytics', authenticate, validateParams(propertyIdSchema), validateQuery(analyticsQuerySchema), asyncHandler(async (req, res) => {
+  const analytics = await PropertyAnalyticsService.getReport(req.params.id, req.user!, { days: req.query.days });
 
   res.json({
     success: true,
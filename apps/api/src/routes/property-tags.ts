@@ -4,6 +4,7 @@ import { authenticate, authorize } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error-handler';
 import { validateRequest, validateParams } from '../middleware/validation';
 import { PropertyTagService } from '../services/property-tag.service';
+import { CacheService, CachePolicy, CacheTags } from '../services/cache.service';
 import { UserRole } from '@eu-real-estate/database';
 
 const router = Router();
@@ -29,11 +30,30 @@ const propertyTagsSchema = Joi.object({
   tagIds: Joi.array().items(Joi.string().uuid()).required().min(1),
 });
 
+// Cache policies
+const tagListCache: CachePolicy = {
+  ttl: 3600,
+  tags: () => [CacheTags.tags],
+};
+
+const propertyTagsCache: CachePolicy = {
+  ttl: 300,
+  tags: (req, body) => [
+    CacheTags.property(req.params['propertyId']),
+    ...body.data.tags.map((tag: any) => CacheTags.tag(tag.id)),
+  ],
+};
+
+const taggedPropertiesCache: CachePolicy = {
+  ttl: 300,
+  tags: (req) => [CacheTags.tag(req.params['id']), CacheTags.properties],
+};
+
 /**
  * GET /api/property-tags
  * Get all property tags
  */
-router.get('/', asyncHandler(async (req, res) => {
+router.get('/', CacheService.cached(tagListCache), asyncHandler(async (req, res) => {
   const tags = await PropertyTagService.getAllTags();
   
   res.json({
@@ -46,7 +66,7 @@ router.get('/', asyncHandler(async (req, res) => {
  * GET /api/property-tags/categories
  * Get all tag categories
  */
-router.get('/categories', asyncHandler(async (req, res) => {
+router.get('/categories', CacheService.cached(tagListCache), asyncHandler(async (req, res) => {
   const categories = await PropertyTagService.getAllCategories();
   
   res.json({
@@ -59,7 +79,7 @@ router.get('/categories', asyncHandler(async (req, res) => {
  * GET /api/property-tags/category/:category
  * Get tags by category
  */
-router.get('/category/:category', asyncHandler(async (req, res) => {
+router.get('/category/:category', CacheService.cached(tagListCache), asyncHandler(async (req, res) => {
   const tags = await PropertyTagService.getTagsByCategory(req.params.category);
   
   res.json({
@@ -115,7 +135,7 @@ router.delete('/:id', authenticate, authorize(UserRole.ADMIN), validateParams(ta
  */
 router.get('/property/:propertyId', validateParams(Joi.object({
   propertyId: Joi.string().uuid().required(),
-})), asyncHandler(async (req, res) => {
+})), CacheService.cached(propertyTagsCache), asyncHandler(async (req, res) => {
   const tags = await PropertyTagService.getPropertyTags(req.params.propertyId);
   
   res.json({
@@ -160,7 +180,7 @@ router.delete('/property/:propertyId', authenticate, validateParams(Joi.object({
  * GET /api/property-tags/:id/properties
  * Get properties with a specific tag
  */
-router.get('/:id/properties', validateParams(tagIdSchema), asyncHandler(async (req, res) => {
+router.get('/:id/properties', validateParams(tagIdSchema), CacheService.cached(taggedPropertiesCache), asyncHandler(async (req, res) => {
   const limit = parseInt(req.query.limit as string) || 10;
   const properties = await PropertyTagService.findPropertiesByTag(req.params.id, limit);
   
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import { authenticate } from '../middleware/auth';
+import { asyncHandler } from '../middleware/error-handler';
+import { validateQuery } from '../middleware/validation';
+import { RecommendationService } from '../services/recommendation.service';
+
+const router = Router();
+
+const recommendationsSchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(50).default(10),
+});
+
+/**
+ * GET /api/recommendations
+ * Get listings picked for the current user, with the reasons for each
+ */
+router.get('/', authenticate, validateQuery(recommendationsSchema), asyncHandler(async (req, res) => {
+  const feed = await RecommendationService.getRecommendations(req.user!.id, parseInt(req.query.limit as string));
+
+  res.json({
+    success: true,
+    data: feed,
+  });
+}));
+
+export { router as recommendationRoutes };
@@ -0,0 +1,196 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import { authenticate, authorize, optionalAuth } from '../middleware/auth';
+import { asyncHandler } from '../middleware/error-handler';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation';
+import { ReviewService } from '../services/review.service';
+import { UserRole, ReviewStatus, ReviewTargetRole } from '@eu-real-estate/database';
+
+const router = Router();
+
+// Validation schemas
+const createReviewSchema = Joi.object({
+  targetId: Joi.string().uuid().required(),
+  propertyId: Joi.string().uuid().optional(),
+  transactionId: Joi.string().uuid().optional(),
+  rating: Joi.number().integer().min(1).max(5).required(),
+  title: Joi.string().max(200).optional(),
+  content: Joi.string().min(10).max(5000).required(),
+}).or('propertyId', 'transactionId');
+
+const updateReviewSchema = Joi.object({
+  rating: Joi.number().integer().min(1).max(5).optional(),
+  title: Joi.string().max(200).allow('').optional(),
+  content: Joi.string().min(10).max(5000).optional(),
+}).min(1);
+
+const listReviewsSchema = Joi.object({
+  targetId: Joi.string().uuid().optional(),
+  propertyId: Joi.string().uuid().optional(),
+  targetRole: Joi.string().valid(...Object.values(ReviewTargetRole)).optional(),
+  verifiedOnly: Joi.boolean().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(10),
+});
+
+const moderationQueueSchema = Joi.object({
+  status: Joi.string().valid(ReviewStatus.PENDING, ReviewStatus.FLAGGED).optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+const flagReviewSchema = Joi.object({
+  reason: Joi.string().min(5).max(500).required(),
+});
+
+const moderateReviewSchema = Joi.object({
+  decision: Joi.string().valid('APPROVE', 'REJECT').required(),
+  note: Joi.string().max(1000).optional(),
+});
+
+const reviewIdSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+});
+
+/**
+ * GET /api/reviews
+ * List published reviews for a user or property
+ */
+router.get('/', validateQuery(listReviewsSchema), asyncHandler(async (req, res) => {
+  const { page, limit, ...filters } = req.query as any;
+
+  const result = await ReviewService.getReviews(filters, { page, limit });
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+/**
+ * POST /api/reviews
+ * Review a user you dealt with on a property or transaction
+ */
+router.post('/', authenticate, validateRequest(createReviewSchema), asyncHandler(async (req, res) => {
+  const review = await ReviewService.createReview(req.user!.id, req.body);
+
+  res.status(201).json({
+    success: true,
+    message: review.isVerified ? 'Review published' : 'Review submitted for moderation',
+    data: { review },
+  });
+}));
+
+/**
+ * GET /api/reviews/moderation
+ * Reviews waiting for moderation (admin only)
+ */
+router.get(
+  '/moderation',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateQuery(moderationQueueSchema),
+  asyncHandler(async (req, res) => {
+    const { status, page, limit } = req.query as any;
+
+    const result = await ReviewService.getModerationQueue(status, { page, limit });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * GET /api/reviews/:id
+ * Get a review
+ */
+router.get('/:id', optionalAuth, validateParams(reviewIdSchema), asyncHandler(async (req, res) => {
+  const review = await ReviewService.getReviewById(req.params.id, req.user?.id, req.user?.role);
+
+  res.json({
+    success: true,
+    data: { review },
+  });
+}));
+
+/**
+ * PUT /api/reviews/:id
+ * Update your review
+ */
+router.put(
+  '/:id',
+  authenticate,
+  validateParams(reviewIdSchema),
+  validateRequest(updateReviewSchema),
+  asyncHandler(async (req, res) => {
+    const review = await ReviewService.updateReview(req.params.id, req.user!.id, req.body);
+
+    res.json({
+      success: true,
+      message: 'Review updated successfully',
+      data: { review },
+    });
+  })
+);
+
+/**
+ * DELETE /api/reviews/:id
+ * Delete your review, or any review as an admin
+ */
+router.delete('/:id', authenticate, validateParams(reviewIdSchema), asyncHandler(async (req, res) => {
+  await ReviewService.deleteReview(req.params.id, req.user!.id, req.user!.role);
+
+  res.json({
+    success: true,
+    message: 'Review deleted successfully',
+  });
+}));
+
+/**
+ * POST /api/reviews/:id/flag
+ * Report a review to the moderators
+ */
+router.post(
+  '/:id/flag',
+  authenticate,
+  validateParams(reviewIdSchema),
+  validateRequest(flagReviewSchema),
+  asyncHandler(async (req, res) => {
+    await ReviewService.flagReview(req.params.id, req.user!.id, req.body.reason);
+
+    res.json({
+      success: true,
+      message: 'Review reported for moderation',
+    });
+  })
+);
+
+/**
+ * PATCH /api/reviews/:id/moderation
+ * Approve or reject a queued review (admin only)
+ */
+router.patch(
+  '/:id/moderation',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateParams(reviewIdSchema),
+  validateRequest(moderateReviewSchema),
+  asyncHandler(async (req, res) => {
+    const review = await ReviewService.moderateReview(
+      req.params.id,
+      req.user!.id,
+      req.body.decision,
+      req.body.note
+    );
+
+    res.json({
+      success: true,
+      message: `Review ${review.status === ReviewStatus.PUBLISHED ? 'approved' : 'rejected'}`,
+      data: { review },
+    });
+  })
+);
+
+export { router as reviewRoutes };
@@ -0,0 +1,133 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import { authenticate } from '../middleware/auth';
+import { asyncHandler } from '../middleware/error-handler';
+import { validateRequest, validateParams } from '../middleware/validation';
+import { SavedSearchService } from '../services/saved-search.service';
+import { PropertyType, ListingType, SavedSearchFrequency, parseGeoShape } from '@eu-real-estate/database';
+
+const router = Router();
+
+// Validation schemas
+const criteriaSchema = Joi.object({
+  query: Joi.string().max(200).optional(),
+  propertyType: Joi.array().items(Joi.string().valid(...Object.values(PropertyType))).optional(),
+  listingType: Joi.string().valid(...Object.values(ListingType)).optional(),
+  priceMin: Joi.number().min(0).optional(),
+  priceMax: Joi.number().positive().optional(),
+  bedroomsMin: Joi.number().integer().min(0).optional(),
+  bedroomsMax: Joi.number().integer().optional(),
+  bathroomsMin: Joi.number().integer().min(0).optional(),
+  bathroomsMax: Joi.number().integer().optional(),
+  floorAreaMin: Joi.number().min(0).optional(),
+  floorAreaMax: Joi.number().positive().optional(),
+  country: Joi.string().length(2).optional(),
+  city: Joi.string().max(100).optional(),
+  location: Joi.object({
+    lat: Joi.number().min(-90).max(90).required(),
+    lon: Joi.number().min(-180).max(180).required(),
+  }).optional(),
+  radius: Joi.number().positive().max(500).optional(), // kilometres
+  polygon: Joi.object().custom((value, helpers) => parseGeoShape(value) || helpers.error('any.invalid'))
+    .messages({ 'any.invalid': '"polygon" must be a GeoJSON Polygon or MultiPolygon' })
+    .optional(),
+  features: Joi.object({
+    garden: Joi.boolean().optional(),
+    parking: Joi.boolean().optional(),
+    furnished: Joi.boolean().optional(),
+    petFriendly: Joi.boolean().optional(),
+    balcony: Joi.boolean().optional(),
+    terrace: Joi.boolean().optional(),
+    elevator: Joi.boolean().optional(),
+    airConditioning: Joi.boolean().optional(),
+  }).optional(),
+  amenities: Joi.array().items(Joi.string().max(100)).optional(),
+  tags: Joi.array().items(Joi.string().max(50)).optional(),
+}).and('location', 'radius');
+
+const createSavedSearchSchema = Joi.object({
+  name: Joi.string().min(2).max(100).required(),
+  criteria: criteriaSchema.required(),
+  frequency: Joi.string().valid(...Object.values(SavedSearchFrequency)).default(SavedSearchFrequency.INSTANT),
+  isActive: Joi.boolean().optional(),
+});
+
+const updateSavedSearchSchema = Joi.object({
+  name: Joi.string().min(2).max(100).optional(),
+  criteria: criteriaSchema.optional(),
+  frequency: Joi.string().valid(...Object.values(SavedSearchFrequency)).optional(),
+  isActive: Joi.boolean().optional(),
+}).min(1);
+
+const savedSearchIdSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+});
+
+/**
+ * GET /api/saved-searches
+ * Get the current user's saved searches
+ */
+router.get('/', authenticate, asyncHandler(async (req, res) => {
+  const savedSearches = await SavedSearchService.getUserSavedSearches(req.user!.id);
+
+  res.json({
+    success: true,
+    data: { savedSearches },
+  });
+}));
+
+/**
+ * POST /api/saved-searches
+ * Save a search and choose how often to be alerted about new matches
+ */
+router.post('/', authenticate, validateRequest(createSavedSearchSchema), asyncHandler(async (req, res) => {
+  const savedSearch = await SavedSearchService.createSavedSearch(req.user!.id, req.body);
+
+  res.status(201).json({
+    success: true,
+    message: 'Search saved successfully',
+    data: { savedSearch },
+  });
+}));
+
+/**
+ * GET /api/saved-searches/:id
+ * Get a saved search
+ */
+router.get('/:id', authenticate, validateParams(savedSearchIdSchema), asyncHandler(async (req, res) => {
+  const savedSearch = await SavedSearchService.getSavedSearch(req.params.id, req.user!.id);
+
+  res.json({
+    success: true,
+    data: { savedSearch },
+  });
+}));
+
+/**
+ * PUT /api/saved-searches/:id
+ * Update a saved search
+ */
+router.put('/:id', authenticate, validateParams(savedSearchIdSchema), validateRequest(updateSavedSearchSchema), asyncHandler(async (req, res) => {
+  const savedSearch = await SavedSearchService.updateSavedSearch(req.params.id, req.user!.id, req.body);
+
+  res.json({
+    success: true,
+    message: 'Saved search updated successfully',
+    data: { savedSearch },
+  });
+}));
+
+/**
+ * DELETE /api/saved-searches/:id
+ * Delete a saved search
+ */
+router.delete('/:id', authenticate, validateParams(savedSearchIdSchema), asyncHandler(async (req, res) => {
+  await SavedSearchService.deleteSavedSearch(req.params.id, req.user!.id);
+
+  res.json({
+    success: true,
+    message: 'Saved search deleted successfully',
+  });
+}));
+
+export { router as savedSearchRoutes };
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import { authenticate, authorize, optionalAuth } from '../middleware/auth';
+import { asyncHandler } from '../middleware/error-handler';
+import { validateQuery } from '../middleware/validation';
+import { SearchIndexingService } from '../services/search-indexing.service';
+import { SearchSuggestService } from '../services/search-suggest.service';
+import { UserRole } from '@eu-real-estate/database';
+
+const router = Router();
+
+const suggestSchema = Joi.object({
+  q: Joi.string().trim().min(1).max(100).required(),
+  country: Joi.string().length(2).uppercase().optional(),
+  limit: Joi.number().integer().min(1).max(20).default(5),
+});
+
+/**
+ * GET /api/search/suggest
+ * Suggest cities, postcodes, streets, tags and listing titles for the search box
+ */
+router.get('/suggest', optionalAuth, validateQuery(suggestSchema), asyncHandler(async (req, res) => {
+  const suggestions = await SearchSuggestService.suggest(req.query.q as string, {
+    userId: req.user?.id,
+    country: req.query.country as string | undefined,
+    limit: parseInt(req.query.limit as string),
+  });
+
+  res.json({
+    success: true,
+    data: { suggestions },
+  });
+}));
+
+/**
+ * GET /api/search/indexing
+ * Report search indexing lag and failed documents (admin only)
+ */
+router.get('/indexing', authenticate, authorize(UserRole.ADMIN), asyncHandler(async (req, res) => {
+  const status = await SearchIndexingService.getStatus();
+
+  res.json({
+    success: true,
+    data: { status },
+  });
+}));
+
+/**
+ * POST /api/search/reindex
+ * Rebuild the search index into a new version and switch to it (admin only)
+ */
+router.post('/reindex', authenticate, authorize(UserRole.ADMIN), asyncHandler(async (req, res) => {
+  const result = await SearchIndexingService.reindex();
+
+  res.json({
+    success: true,
+    message: 'Search index rebuilt',
+    data: result,
+  });
+}));
+
+export { router as searchRoutes };
@@ -4,6 +4,7 @@ import { authenticate, authorize } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error-handler';
 import { validateRequest } from '../middleware/validation';
 import { SecurityService } from '../services/security.service';
+import { RateLimitService, RATE_LIMIT_GROUPS } from '../services/rate-limit.service';
 import { PasswordValidator } from '../utils/password-validator';
 import { UserRole } from '@eu-real-estate/database';
 
@@ -43,6 +44,17 @@ const decryptDataSchema = Joi.object({
   tag: Joi.string().required(),
 });
 
+// One of an IP, a user or an API key
+const rateLimitTargetSchema = Joi.object({
+  ip: Joi.string().ip(),
+  userId: Joi.string().uuid(),
+  apiKey: Joi.string(),
+}).xor('ip', 'userId', 'apiKey');
+
+const rateLimitResetSchema = rateLimitTargetSchema.keys({
+  group: Joi.string().valid(...RATE_LIMIT_GROUPS).optional(),
+});
+
 /**
  * POST /api/security/password/validate
  * Validate password strength
@@ -168,6 +180,49 @@ router.post('/ip/unblock',
   })
 );
 
+/**
+ * POST /api/security/rate-limits/inspect
+ * Show the rate limit buckets of an IP, user or API key (admin only)
+ */
+router.post('/rate-limits/inspect',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateRequest(rateLimitTargetSchema),
+  asyncHandler(async (req, res) => {
+    const buckets = await RateLimitService.inspect(req.body);
+
+    res.json({
+      success: true,
+      data: { buckets },
+    });
+  })
+);
+
+/**
+ * POST /api/security/rate-limits/reset
+ * Refill the rate limit buckets of an IP, user or API key (admin only)
+ */
+router.post('/rate-limits/reset',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validateRequest(rateLimitResetSchema),
+  asyncHandler(async (req, res) => {
+    const { group, ...target } = req.body;
+
+    const keys = await RateLimitService.reset(target, group);
+
+    res.json({
+      success: true,
+      message: 'Rate limits have been reset',
+      data: {
+        keys,
+        resetBy: req.user?.id,
+        resetAt: new Date(),
+      },
+    });
+  })
+);
+
 /**
  * POST /api/security/encrypt
  * Encrypt sensitive data (admin only)
@@ -43,14 +43,23 @@ const createOfferSchema = Joi.object({
 });
 
 const respondToOfferSchema = Joi.object({
-  status: Joi.string().valid(...Object.values(OfferStatus)).required(),
+  status: Joi.string().valid(
+    OfferStatus.ACCEPTED,
+    OfferStatus.REJECTED,
+    OfferStatus.COUNTERED,
+    OfferStatus.WITHDRAWN
+  ).required(),
   counterOffer: Joi.object({
     amount: Joi.number().min(0).required(),
     currency: Joi.string().length(3).optional(),
     message: Joi.string().max(1000).optional(),
     conditions: Joi.object().optional(),
-    validUntil: Joi.date().optional(),
-  }).optional(),
+    validUntil: Joi.date().greater('now').optional(),
+  }).when('status', {
+    is: OfferStatus.COUNTERED,
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
 });
 
 const uploadDocumentSchema = Joi.object({
@@ -182,6 +191,19 @@ router.put('/offers/:id/respond', authenticate, validateParams(uuidSchema), vali
   });
 }));
 
+/**
+ * GET /api/transactions/:id/offers/history
+ * Get the offer negotiation history as counter-offer threads
+ */
+router.get('/:id/offers/history', authenticate, validateParams(uuidSchema), asyncHandler(async (req, res) => {
+  const history = await TransactionService.getOfferHistory(req.params.id, req.user!.id);
+
+  res.json({
+    success: true,
+    data: history,
+  });
+}));
+
 /**
  * POST /api/transactions/:id/documents
  * Upload transaction document
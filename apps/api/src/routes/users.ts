@@ -1,6 +1,9 @@
 import { Router } from 'express';
+import Joi from 'joi';
 import { authenticate, authorize, requireOwnershipOrAdmin } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error-handler';
+import { validateParams } from '../middleware/validation';
+import { ReviewService } from '../services/review.service';
 import { UserRole } from '@eu-real-estate/database';
 
 const router = Router();
@@ -43,4 +46,21 @@ router.get('/', authenticate, authorize(UserRole.ADMIN), asyncHandler(async (req
   });
 }));
 
+/**
+ * GET /api/users/:id/reputation
+ * Aggregated agent and seller score from published reviews
+ */
+router.get(
+  '/:id/reputation',
+  validateParams(Joi.object({ id: Joi.string().uuid().required() })),
+  asyncHandler(async (req, res) => {
+    const reputation = await ReviewService.getUserReputation(req.params.id);
+
+    res.json({
+      success: true,
+      data: { reputation },
+    });
+  })
+);
+
 export { router as userRoutes };
\ No newline at end of file
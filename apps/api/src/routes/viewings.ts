@@ -0,0 +1,187 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { asyncHandler } from '../middleware/error-handler';
+import { validateRequest, validateQuery, validateParams } from '../middleware/validation';
+import { ViewingService } from '../services/viewing.service';
+import { MAX_ATTENDEES } from '../config/viewing.config';
+import { CALENDAR_CONTENT_TYPE } from '../utils/icalendar';
+import { ViewingSlotType } from '@eu-real-estate/database';
+
+const router = Router();
+
+// Validation schemas
+const createSlotSchema = Joi.object({
+  type: Joi.string().valid(...Object.values(ViewingSlotType)).default(ViewingSlotType.VIEWING),
+  startsAt: Joi.date().iso().required(),
+  endsAt: Joi.date().iso().greater(Joi.ref('startsAt')).required(),
+  capacity: Joi.number().integer().min(1).optional(),
+  notes: Joi.string().max(1000).optional(),
+});
+
+const cancelSchema = Joi.object({
+  reason: Joi.string().max(500).optional(),
+});
+
+const bookSlotSchema = Joi.object({
+  attendees: Joi.number().integer().min(1).max(MAX_ATTENDEES).default(1),
+  notes: Joi.string().max(1000).optional(),
+});
+
+const rescheduleBookingSchema = Joi.object({
+  slotId: Joi.string().uuid().required(),
+});
+
+const listBookingsSchema = Joi.object({
+  as: Joi.string().valid('buyer', 'agent').default('buyer'),
+  upcoming: Joi.boolean().default(false),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(10),
+});
+
+const propertyIdSchema = Joi.object({
+  propertyId: Joi.string().uuid().required(),
+});
+
+const idSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+});
+
+/**
+ * GET /api/viewings/properties/:propertyId/slots
+ * Upcoming viewing slots and open houses of a listing, with the places left
+ */
+router.get('/properties/:propertyId/slots', optionalAuth, validateParams(propertyIdSchema), asyncHandler(async (req, res) => {
+  const slots = await ViewingService.getPropertySlots(req.params.propertyId, req.user?.id);
+
+  res.json({
+    success: true,
+    data: { slots },
+  });
+}));
+
+/**
+ * POST /api/viewings/properties/:propertyId/slots
+ * Publish a viewing slot or open house (listing owner or admin)
+ */
+router.post(
+  '/properties/:propertyId/slots',
+  authenticate,
+  validateParams(propertyIdSchema),
+  validateRequest(createSlotSchema),
+  asyncHandler(async (req, res) => {
+    const slot = await ViewingService.createSlot(req.params.propertyId, req.user!.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Viewing slot published',
+      data: { slot },
+    });
+  })
+);
+
+/**
+ * POST /api/viewings/slots/:id/cancel
+ * Withdraw a slot and cancel its bookings (listing owner or admin)
+ */
+router.post(
+  '/slots/:id/cancel',
+  authenticate,
+  validateParams(idSchema),
+  validateRequest(cancelSchema),
+  asyncHandler(async (req, res) => {
+    await ViewingService.cancelSlot(req.params.id, req.user!.id, req.body.reason);
+
+    res.json({
+      success: true,
+      message: 'Viewing slot cancelled',
+    });
+  })
+);
+
+/**
+ * POST /api/viewings/slots/:id/bookings
+ * Book a place on a viewing slot or open house
+ */
+router.post(
+  '/slots/:id/bookings',
+  authenticate,
+  validateParams(idSchema),
+  validateRequest(bookSlotSchema),
+  asyncHandler(async (req, res) => {
+    const booking = await ViewingService.bookSlot(req.params.id, req.user!.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Viewing booked',
+      data: { booking },
+    });
+  })
+);
+
+/**
+ * GET /api/viewings/bookings
+ * Bookings you made, or with ?as=agent the bookings of your listings
+ */
+router.get('/bookings', authenticate, validateQuery(listBookingsSchema), asyncHandler(async (req, res) => {
+  const result = await ViewingService.getBookings(req.user!.id, req.query as any);
+
+  res.json({
+    success: true,
+    data: result,
+  });
+}));
+
+/**
+ * PATCH /api/viewings/bookings/:id
+ * Move your booking to another slot of the same listing
+ */
+router.patch(
+  '/bookings/:id',
+  authenticate,
+  validateParams(idSchema),
+  validateRequest(rescheduleBookingSchema),
+  asyncHandler(async (req, res) => {
+    const booking = await ViewingService.rescheduleBooking(req.params.id, req.user!.id, req.body.slotId);
+
+    res.json({
+      success: true,
+      message: 'Viewing rescheduled',
+      data: { booking },
+    });
+  })
+);
+
+/**
+ * POST /api/viewings/bookings/:id/cancel
+ * Cancel a booking, as the buyer or the agent
+ */
+router.post(
+  '/bookings/:id/cancel',
+  authenticate,
+  validateParams(idSchema),
+  validateRequest(cancelSchema),
+  asyncHandler(async (req, res) => {
+    const booking = await ViewingService.cancelBooking(req.params.id, req.user!.id, req.body.reason);
+
+    res.json({
+      success: true,
+      message: 'Viewing cancelled',
+      data: { booking },
+    });
+  })
+);
+
+/**
+ * GET /api/viewings/bookings/:id/calendar
+ * The booking as an iCalendar (.ics) file
+ */
+router.get('/bookings/:id/calendar', authenticate, validateParams(idSchema), asyncHandler(async (req, res) => {
+  const calendar = await ViewingService.getBookingCalendar(req.params.id, req.user!.id);
+
+  res.set('Content-Type', calendar.contentType ?? CALENDAR_CONTENT_TYPE);
+  res.attachment(calendar.filename);
+  res.send(calendar.content);
+}));
+
+export { router as viewingRoutes };
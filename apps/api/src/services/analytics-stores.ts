@@ -0,0 +1,266 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+
+export type AnalyticsStoreType = 'ndjson' | 'memory';
+
+export type AnalyticsRecordKind = 'event' | 'pageView' | 'conversion' | 'metric';
+
+/**
+ * One tracked event, page view, conversion or business metric, tagged with its kind
+ */
+export interface AnalyticsRecord {
+  kind: AnalyticsRecordKind;
+  timestamp: string;
+  userId?: string;
+  [field: string]: any;
+}
+
+export interface AnalyticsQuery {
+  from: Date;
+  to?: Date;
+  kinds?: AnalyticsRecordKind[];
+  userId?: string;
+}
+
+/**
+ * Destination AnalyticsService flushes batches of records to
+ */
+export interface AnalyticsSink {
+  readonly name: string;
+  write(records: AnalyticsRecord[]): Promise<void>;
+}
+
+/**
+ * Sink that keeps the records and answers dashboard queries
+ */
+export interface AnalyticsStore extends AnalyticsSink {
+  query(filter: AnalyticsQuery): Promise<AnalyticsRecord[]>;
+}
+
+export interface NdjsonAnalyticsStoreOptions {
+  directory: string;
+  segmentBytes?: number;
+  retentionDays?: number;
+  // Tells the segments of each process apart when replicas share the directory
+  writerId?: string;
+}
+
+export interface HttpAnalyticsForwarderOptions {
+  url: string;
+  apiKey?: string;
+  attempts?: number;
+  backoffMs?: number;
+  timeoutMs?: number;
+}
+
+const STORE_TYPES: AnalyticsStoreType[] = ['ndjson', 'memory'];
+
+const SEGMENT_PATTERN = /^analytics-(\d+)-(.+)\.ndjson$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const matches = (record: AnalyticsRecord, filter: AnalyticsQuery): boolean => {
+  const time = new Date(record.timestamp).getTime();
+  return time >= filter.from.getTime()
+    && (!filter.to || time <= filter.to.getTime())
+    && (!filter.kinds || filter.kinds.includes(record.kind))
+    && (!filter.userId || record.userId === filter.userId);
+};
+
+const byTimestamp = (a: AnalyticsRecord, b: AnalyticsRecord): number =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+/**
+ * Appends batches as newline-delimited JSON to segment files. A segment is
+ * closed once it reaches its size limit or the UTC day changes, and segments
+ * older than the retention period are deleted. Every process writes its own
+ * segments, so replicas can share one directory and each reads them all.
+ */
+export class NdjsonAnalyticsStore implements AnalyticsStore {
+  readonly name = 'ndjson';
+  private readonly directory: string;
+  private readonly segmentBytes: number;
+  private readonly retentionDays: number;
+  private readonly writerId: string;
+  private segment: { file: string; startedAt: number; bytes: number; day: string } | null = null;
+  // Appends run one at a time so batches never interleave within a segment
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(options: NdjsonAnalyticsStoreOptions) {
+    this.directory = options.directory;
+    this.segmentBytes = options.segmentBytes ?? 16 * 1024 * 1024;
+    this.retentionDays = options.retentionDays ?? 90;
+    this.writerId = (options.writerId ?? `${os.hostname()}-${process.pid}`).replace(/[^a-zA-Z0-9_.]/g, '_');
+  }
+
+  write(records: AnalyticsRecord[]): Promise<void> {
+    const next = this.writing.then(() => this.append(records));
+    this.writing = next.catch(() => undefined);
+    return next;
+  }
+
+  async query(filter: AnalyticsQuery): Promise<AnalyticsRecord[]> {
+    await this.writing;
+
+    const records: AnalyticsRecord[] = [];
+    for (const file of await this.listSegments()) {
+      // Segments opened after the window, or last written before it, hold nothing in it
+      if (filter.to && file.startedAt > filter.to.getTime()) continue;
+      const stat = await fs.promises.stat(file.path).catch(() => null);
+      if (!stat || stat.mtimeMs < filter.from.getTime()) continue;
+
+      const content = await fs.promises.readFile(file.path, 'utf8').catch(() => '');
+      for (const line of content.split('\n')) {
+        if (!line) continue;
+        try {
+          const record = JSON.parse(line) as AnalyticsRecord;
+          if (matches(record, filter)) records.push(record);
+        } catch {
+          // A line cut short by a crash; the rest of the segment is still good
+        }
+      }
+    }
+
+    return records.sort(byTimestamp);
+  }
+
+  private async append(records: AnalyticsRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const data = records.map(record => JSON.stringify(record)).join('\n') + '\n';
+    const bytes = Buffer.byteLength(data);
+    const day = new Date().toISOString().slice(0, 10);
+
+    if (!this.segment || this.segment.day !== day || this.segment.bytes + bytes > this.segmentBytes) {
+      await this.rotate(day);
+    }
+
+    await fs.promises.appendFile(this.segment!.file, data);
+    this.segment!.bytes += bytes;
+  }
+
+  private async rotate(day: string): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    // Two rotations within one millisecond still get their own files
+    const startedAt = Math.max(Date.now(), (this.segment?.startedAt ?? 0) + 1);
+
+    this.segment = {
+      file: path.join(this.directory, `analytics-${startedAt}-${this.writerId}.ndjson`),
+      startedAt,
+      bytes: 0,
+      day,
+    };
+
+    await this.prune();
+  }
+
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+
+    for (const file of await this.listSegments()) {
+      if (file.path === this.segment?.file) continue;
+      const stat = await fs.promises.stat(file.path).catch(() => null);
+      if (stat && stat.mtimeMs < cutoff) {
+        // Another replica may have removed it first
+        await fs.promises.unlink(file.path).catch(() => undefined);
+      }
+    }
+  }
+
+  private async listSegments(): Promise<Array<{ path: string; startedAt: number }>> {
+    const names = await fs.promises.readdir(this.directory).catch(() => [] as string[]);
+
+    return names
+      .map(name => ({ name, match: name.match(SEGMENT_PATTERN) }))
+      .filter((entry): entry is { name: string; match: RegExpMatchArray } => !!entry.match)
+      .map(entry => ({ path: path.join(this.directory, entry.name), startedAt: Number(entry.match[1]) }))
+      .sort((a, b) => a.startedAt - b.startedAt);
+  }
+}
+
+/**
+ * Keeps records in the process, for tests and local development
+ */
+export class MemoryAnalyticsStore implements AnalyticsStore {
+  readonly name = 'memory';
+  private records: AnalyticsRecord[] = [];
+
+  async write(records: AnalyticsRecord[]): Promise<void> {
+    this.records.push(...records);
+  }
+
+  async query(filter: AnalyticsQuery): Promise<AnalyticsRecord[]> {
+    return this.records.filter(record => matches(record, filter)).sort(byTimestamp);
+  }
+}
+
+/**
+ * POSTs each batch as { records } to an external collector, retrying server
+ * errors and timeouts with exponential backoff
+ */
+export class HttpAnalyticsForwarder implements AnalyticsSink {
+  readonly name = 'http';
+  private readonly attempts: number;
+  private readonly backoffMs: number;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly options: HttpAnalyticsForwarderOptions) {
+    this.attempts = options.attempts ?? 5;
+    this.backoffMs = options.backoffMs ?? 1000;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  async write(records: AnalyticsRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await axios.post(this.options.url, { records }, {
+          timeout: this.timeoutMs,
+          headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : undefined,
+        });
+        return;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        // The collector rejected the batch itself, so sending it again won't help
+        const retryable = !status || status >= 500 || status === 429;
+        if (!retryable || attempt >= this.attempts) {
+          throw error;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, this.backoffMs * 2 ** (attempt - 1)));
+      }
+    }
+  }
+}
+
+/**
+ * Create the store named by ANALYTICS_STORE (defaults to NDJSON segments in ANALYTICS_DIR)
+ */
+export function createAnalyticsStore(
+  type: string = process.env['ANALYTICS_STORE'] || 'ndjson'
+): AnalyticsStore {
+  switch (type) {
+    case 'ndjson':
+      return new NdjsonAnalyticsStore({
+        directory: process.env['ANALYTICS_DIR'] || path.join(process.cwd(), 'data', 'analytics'),
+      });
+    case 'memory':
+      return new MemoryAnalyticsStore();
+    default:
+      throw new Error(`Unknown analytics store "${type}", expected one of: ${STORE_TYPES.join(', ')}`);
+  }
+}
+
+/**
+ * Forwarder for ANALYTICS_FORWARD_URL, or null when batches stay local
+ */
+export function createAnalyticsForwarder(
+  url: string | undefined = process.env['ANALYTICS_FORWARD_URL']
+): AnalyticsSink | null {
+  if (!url) return null;
+  return new HttpAnalyticsForwarder({ url, apiKey: process.env['ANALYTICS_FORWARD_API_KEY'] });
+}
@@ -1,6 +1,15 @@
 import { Request } from 'express';
 import logger, { logUserActivity, logBusinessEvent } from '../utils/logger';
+import { IntervalJob } from '../utils/interval-job';
 import MonitoringService from './monitoring.service';
+import {
+  AnalyticsQuery,
+  AnalyticsRecord,
+  AnalyticsSink,
+  AnalyticsStore,
+  createAnalyticsForwarder,
+  createAnalyticsStore,
+} from './analytics-stores';
 
 export interface UserEvent {
   userId: string;
@@ -47,16 +56,31 @@ export interface ConversionEvent {
   step?: number;
 }
 
+/**
+ * Tracks events, page views, conversions and business metrics. Records are
+ * buffered briefly and flushed in batches to a persistent store, which the
+ * dashboard and user journey queries read, so they survive restarts and
+ * cover every replica writing to the same store. Batches can also be
+ * forwarded to an external collector.
+ */
 export class AnalyticsService {
   private static instance: AnalyticsService;
+  private static readonly FLUSH_INTERVAL = 5000;
+  private static readonly BATCH_SIZE = 500;
+  // Records kept while the store is unavailable; the oldest are dropped past this
+  private static readonly MAX_PENDING = 10000;
   private monitoring: MonitoringService;
-  private events: UserEvent[] = [];
-  private pageViews: PageView[] = [];
-  private conversions: ConversionEvent[] = [];
-  private businessMetrics: BusinessMetric[] = [];
+  private store: AnalyticsStore;
+  private forwarder: AnalyticsSink | null;
+  private pending: AnalyticsRecord[] = [];
+  private flushing: Promise<void> = Promise.resolve();
+  // Skips a tick while the previous flush is still writing
+  private readonly flushJob = new IntervalJob('Analytics flush', AnalyticsService.FLUSH_INTERVAL, () => this.flush());
 
   private constructor() {
     this.monitoring = MonitoringService.getInstance();
+    this.store = createAnalyticsStore();
+    this.forwarder = createAnalyticsForwarder();
     this.startPeriodicFlush();
   }
 
@@ -67,19 +91,35 @@ export class AnalyticsService {
     return AnalyticsService.instance;
   }
 
-  // Start periodic data flushing to external analytics services
+  // Swap the store, e.g. a temporary directory in tests
+  setStore(store: AnalyticsStore): void {
+    this.store = store;
+  }
+
+  // Swap or remove the external forwarder
+  setForwarder(forwarder: AnalyticsSink | null): void {
+    this.forwarder = forwarder;
+  }
+
+  // Start periodic flushing to the store
   private startPeriodicFlush(): void {
-    // Flush events every 30 seconds
-    setInterval(() => {
-      this.flushEvents();
-    }, 30000);
+    this.flushJob.start();
 
     // Generate daily reports at midnight
     setInterval(() => {
       if (new Date().getHours() === 0 && new Date().getMinutes() === 0) {
-        this.generateDailyReport();
+        this.generateDailyReport().catch(error => logger.error('Failed to generate daily analytics report', error));
       }
-    }, 60000); // Check every minute
+    }, 60000).unref(); // Check every minute
+  }
+
+  // Buffer a record, flushing early once a full batch is waiting
+  private enqueue(record: AnalyticsRecord): void {
+    this.pending.push(record);
+
+    if (this.pending.length >= AnalyticsService.BATCH_SIZE) {
+      this.flushJob.run();
+    }
   }
 
   // Track user event
@@ -89,7 +129,7 @@ export class AnalyticsService {
       timestamp: new Date().toISOString(),
     };
 
-    this.events.push(userEvent);
+    this.enqueue({ kind: 'event', ...userEvent });
     logUserActivity(event.userId, event.event, event.properties);
 
     // Update real-time metrics
@@ -107,7 +147,7 @@ export class AnalyticsService {
       timestamp: new Date().toISOString(),
     };
 
-    this.pageViews.push(view);
+    this.enqueue({ kind: 'pageView', ...view });
     
     // Update page view metrics
     this.monitoring.incrementMetric('pageViews.total');
@@ -127,7 +167,7 @@ export class AnalyticsService {
       timestamp: new Date().toISOString(),
     };
 
-    this.conversions.push(conversionEvent);
+    this.enqueue({ kind: 'conversion', ...conversionEvent });
     logBusinessEvent('conversion', conversionEvent, conversion.userId);
 
     // Update conversion metrics
@@ -147,7 +187,7 @@ export class AnalyticsService {
       timestamp: new Date().toISOString(),
     };
 
-    this.businessMetrics.push(businessMetric);
+    this.enqueue({ kind: 'metric', ...businessMetric });
     this.monitoring.setMetric(`business.${metric.name}`, metric.value);
 
     logger.info('Business metric tracked', businessMetric);
@@ -170,21 +210,16 @@ export class AnalyticsService {
   }
 
   // Get analytics dashboard data
-  getAnalyticsDashboard(timeRange: '1h' | '24h' | '7d' | '30d' = '24h'): any {
+  async getAnalyticsDashboard(timeRange: '1h' | '24h' | '7d' | '30d' = '24h'): Promise<any> {
     const now = new Date();
     const timeRangeMs = this.getTimeRangeMs(timeRange);
     const startTime = new Date(now.getTime() - timeRangeMs);
 
-    // Filter events by time range
-    const recentEvents = this.events.filter(
-      event => new Date(event.timestamp) >= startTime
-    );
-    const recentPageViews = this.pageViews.filter(
-      view => new Date(view.timestamp) >= startTime
-    );
-    const recentConversions = this.conversions.filter(
-      conversion => new Date(conversion.timestamp) >= startTime
-    );
+    const {
+      events: recentEvents,
+      pageViews: recentPageViews,
+      conversions: recentConversions,
+    } = await this.load({ from: startTime });
 
     // Calculate metrics
     const uniqueUsers = new Set(recentEvents.map(e => e.userId)).size;
@@ -283,31 +318,17 @@ export class AnalyticsService {
   }
 
   // Get user journey
-  getUserJourney(userId: string, timeRange: '1h' | '24h' | '7d' | '30d' = '7d'): any {
+  async getUserJourney(userId: string, timeRange: '1h' | '24h' | '7d' | '30d' = '7d'): Promise<any> {
     const now = new Date();
     const timeRangeMs = this.getTimeRangeMs(timeRange);
     const startTime = new Date(now.getTime() - timeRangeMs);
 
-    const userEvents = this.events
-      .filter(event => 
-        event.userId === userId && 
-        new Date(event.timestamp) >= startTime
-      )
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-
-    const userPageViews = this.pageViews
-      .filter(view => 
-        view.userId === userId && 
-        new Date(view.timestamp) >= startTime
-      )
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-
-    const userConversions = this.conversions
-      .filter(conversion => 
-        conversion.userId === userId && 
-        new Date(conversion.timestamp) >= startTime
-      )
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    // The store returns records oldest first
+    const {
+      events: userEvents,
+      pageViews: userPageViews,
+      conversions: userConversions,
+    } = await this.load({ from: startTime, userId });
 
     // Merge and sort all activities
     const activities = [
@@ -334,15 +355,13 @@ export class AnalyticsService {
   }
 
   // Get real-time analytics
-  getRealTimeAnalytics(): any {
+  async getRealTimeAnalytics(): Promise<any> {
     const last5Minutes = new Date(Date.now() - 5 * 60 * 1000);
-    
-    const recentEvents = this.events.filter(
-      event => new Date(event.timestamp) >= last5Minutes
-    );
-    const recentPageViews = this.pageViews.filter(
-      view => new Date(view.timestamp) >= last5Minutes
-    );
+
+    const { events: recentEvents, pageViews: recentPageViews } = await this.load({
+      from: last5Minutes,
+      kinds: ['event', 'pageView'],
+    });
 
     const activeUsers = new Set([
       ...recentEvents.map(e => e.userId),
@@ -372,61 +391,59 @@ export class AnalyticsService {
     };
   }
 
-  // Flush events to external services
-  private async flushEvents(): Promise<void> {
-    if (this.events.length === 0 && this.pageViews.length === 0 && this.conversions.length === 0) {
+  // Write buffered records to the store and forwarder
+  flush(): Promise<void> {
+    // One flush at a time, so batches reach the store in order
+    const next = this.flushing.then(() => this.writeBatch());
+    this.flushing = next.catch(() => undefined);
+    return next;
+  }
+
+  private async writeBatch(): Promise<void> {
+    if (this.pending.length === 0) {
       return;
     }
 
+    const batch = this.pending;
+    this.pending = [];
+
     try {
-      // In production, you would send these to external analytics services
-      // like Google Analytics, Mixpanel, Amplitude, etc.
-      
-      logger.info('Flushing analytics data', {
-        events: this.events.length,
-        pageViews: this.pageViews.length,
-        conversions: this.conversions.length,
-        businessMetrics: this.businessMetrics.length,
-      });
+      await this.store.write(batch);
+    } catch (error) {
+      // Keep the batch for the next flush instead of losing it
+      this.pending = [...batch, ...this.pending].slice(-AnalyticsService.MAX_PENDING);
+      throw error;
+    }
 
-      // Simulate sending to external service
-      await this.sendToExternalAnalytics({
-        events: this.events,
-        pageViews: this.pageViews,
-        conversions: this.conversions,
-        businessMetrics: this.businessMetrics,
+    if (this.forwarder) {
+      // The store already has the batch, so a slow or failing collector doesn't hold up the flush
+      this.forwarder.write(batch).catch(error => {
+        logger.error('Failed to forward analytics data', error);
       });
-
-      // Clear local buffers after successful flush
-      this.events = [];
-      this.pageViews = [];
-      this.conversions = [];
-      this.businessMetrics = [];
-
-    } catch (error) {
-      logger.error('Failed to flush analytics data', error);
     }
   }
 
-  // Send data to external analytics services
-  private async sendToExternalAnalytics(data: any): Promise<void> {
-    // This would integrate with services like:
-    // - Google Analytics 4
-    // - Mixpanel
-    // - Amplitude
-    // - Segment
-    // - Custom analytics backend
-
-    // For now, we'll just log the data
-    logger.debug('Analytics data sent to external services', {
-      eventCount: data.events.length,
-      pageViewCount: data.pageViews.length,
-      conversionCount: data.conversions.length,
-    });
+  // Flush, then read the stored records of a window split by kind
+  private async load(filter: AnalyticsQuery): Promise<{
+    events: UserEvent[];
+    pageViews: PageView[];
+    conversions: ConversionEvent[];
+  }> {
+    await this.flush().catch(error => logger.error('Failed to flush analytics data', error));
+    const records = await this.store.query(filter);
+
+    const ofKind = <T>(kind: AnalyticsRecord['kind']): T[] =>
+      records.filter(record => record.kind === kind).map(({ kind: _kind, ...record }) => record as T);
+
+    return {
+      events: ofKind<UserEvent>('event'),
+      pageViews: ofKind<PageView>('pageView'),
+      conversions: ofKind<ConversionEvent>('conversion'),
+    };
   }
 
   // Generate daily report
-  private generateDailyReport(): void {
+  private async generateDailyReport(): Promise<void> {
     const yesterday = new Date();
     yesterday.setDate(yesterday.getDate() - 1);
     yesterday.setHours(0, 0, 0, 0);
@@ -434,20 +451,11 @@ export class AnalyticsService {
     const today = new Date(yesterday);
     today.setDate(today.getDate() + 1);
 
-    const dailyEvents = this.events.filter(event => {
-      const eventDate = new Date(event.timestamp);
-      return eventDate >= yesterday && eventDate < today;
-    });
-
-    const dailyPageViews = this.pageViews.filter(view => {
-      const viewDate = new Date(view.timestamp);
-      return viewDate >= yesterday && viewDate < today;
-    });
-
-    const dailyConversions = this.conversions.filter(conversion => {
-      const conversionDate = new Date(conversion.timestamp);
-      return conversionDate >= yesterday && conversionDate < today;
-    });
+    const {
+      events: dailyEvents,
+      pageViews: dailyPageViews,
+      conversions: dailyConversions,
+    } = await this.load({ from: yesterday, to: new Date(today.getTime() - 1) });
 
     const report = {
       date: yesterday.toISOString().split('T')[0],
@@ -78,7 +78,7 @@ export class AuthService {
         role: data.role || UserRole.BUYER,
         profile: {
           create: {
-            languages: ['en'],
+            languages: JSON.stringify(['en']),
           },
         },
         preferences: {
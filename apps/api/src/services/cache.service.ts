@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { redis } from '@eu-real-estate/database';
 import { logger } from '../utils/logger';
 import { Request, Response, NextFunction } from 'express';
@@ -10,6 +11,32 @@ export interface CacheConfig {
   serialize?: boolean;
 }
 
+/**
+ * How a route's responses are cached. Tags name the entities a response was
+ * built from; a write to any of them drops it.
+ */
+export interface CachePolicy {
+  ttl: number; // Time to live in seconds
+  tags: (req: Request, body: any) => string[];
+}
+
+/**
+ * Tags writes emit for the entities they change
+ */
+export const CacheTags = {
+  property: (id: string) => `property:${id}`,
+  owner: (id: string) => `owner:${id}`,
+  tag: (id: string) => `tag:${id}`,
+  // Lists any listing or tag write can add to or remove from
+  properties: 'properties',
+  tags: 'tags',
+};
+
+interface CachedResponse {
+  body: any;
+  etag: string;
+}
+
 export interface CacheStats {
   hits: number;
   misses: number;
@@ -81,7 +108,7 @@ export class CacheService {
         serializedValue = 'COMPRESSED:' + await this.compress(serializedValue);
       }
 
-      await redis.setex(fullKey, ttl, serializedValue);
+      await redis.set(fullKey, serializedValue, ttl);
       
       // Add tags for cache invalidation
       if (config?.tags) {
@@ -101,8 +128,7 @@ export class CacheService {
   static async del(key: string, prefix?: string): Promise<boolean> {
     try {
       const fullKey = this.buildKey(key, prefix);
-      const result = await redis.del(fullKey);
-      return result > 0;
+      return await redis.del(fullKey);
     } catch (error) {
       logger.error('Cache delete error:', error);
       return false;
@@ -115,8 +141,7 @@ export class CacheService {
   static async exists(key: string, prefix?: string): Promise<boolean> {
     try {
       const fullKey = this.buildKey(key, prefix);
-      const result = await redis.exists(fullKey);
-      return result === 1;
+      return await redis.exists(fullKey);
     } catch (error) {
       logger.error('Cache exists error:', error);
       return false;
@@ -204,7 +229,7 @@ export class CacheService {
    */
   static async keys(pattern: string): Promise<string[]> {
     try {
-      return await redis.keys(pattern);
+      return await redis.scanKeys(pattern);
     } catch (error) {
       logger.error('Cache keys error:', error);
       return [];
@@ -216,11 +241,11 @@ export class CacheService {
    */
   static async delPattern(pattern: string): Promise<number> {
     try {
-      const keys = await redis.keys(pattern);
+      const keys = await redis.scanKeys(pattern);
       if (keys.length === 0) return 0;
-      
-      const result = await redis.del(...keys);
-      return result;
+
+      await redis.del(keys);
+      return keys.length;
     } catch (error) {
       logger.error('Cache delete pattern error:', error);
       return 0;
@@ -236,12 +261,13 @@ export class CacheService {
       
       for (const tag of tags) {
         const tagKey = `tag:${tag}`;
-        const keys = await redis.smembers(tagKey);
+        const keys = await redis.sMembers(tagKey);
         
         if (keys.length > 0) {
-          const deleted = await redis.del(...keys);
-          totalDeleted += deleted;
-          await redis.del(tagKey);
+          await redis.del(keys);
+          totalDeleted += keys.length;
+          // Only drop the members read; an entry tagged since keeps its membership
+          await redis.sRem(tagKey, keys);
         }
       }
       
@@ -296,8 +322,7 @@ export class CacheService {
    */
   static async clear(): Promise<boolean> {
     try {
-      await redis.flushdb();
-      return true;
+      return await redis.flushDb();
     } catch (error) {
       logger.error('Cache clear error:', error);
       return false;
@@ -365,6 +390,63 @@ export class CacheService {
     };
   }
 
+  /**
+   * Cache a route's JSON responses by the given policy and answer
+   * If-None-Match revalidation with 304 Not Modified
+   */
+  static cached(policy: CachePolicy) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (req.method !== 'GET') {
+        return next();
+      }
+
+      const cacheKey = this.generateRequestKey(req);
+      const config = { ttl: policy.ttl, prefix: 'response' };
+
+      // Clients may keep the response but must revalidate it before use
+      res.setHeader('Cache-Control', req.user ? 'private, no-cache' : 'no-cache');
+
+      const cached = await this.get<CachedResponse>(cacheKey, config);
+      if (cached) {
+        res.setHeader('X-Cache', 'HIT');
+        res.setHeader('ETag', cached.etag);
+        if (req.fresh) {
+          return res.status(304).end();
+        }
+        return res.json(cached.body);
+      }
+
+      const originalJson = res.json;
+
+      res.json = function(body: any) {
+        res.setHeader('X-Cache', 'MISS');
+
+        if (res.statusCode < 200 || res.statusCode >= 300) {
+          return originalJson.call(this, body);
+        }
+
+        // Express answers 304 itself when this matches If-None-Match
+        const etag = CacheService.generateETag(body);
+        res.setHeader('ETag', etag);
+
+        // Store before answering, so a write that follows the response finds the entry to drop
+        CacheService.set(cacheKey, { body, etag }, { ...config, tags: policy.tags(req, body) })
+          .catch(error => logger.error('Cache policy set error:', error))
+          .finally(() => originalJson.call(res, body));
+        return res;
+      };
+
+      next();
+    };
+  }
+
+  /**
+   * Weak validator for a JSON body; weak because compression changes the bytes
+   */
+  private static generateETag(body: any): string {
+    return `W/"${crypto.createHash('sha1').update(JSON.stringify(body)).digest('base64url')}"`;
+  }
+
   /**
    * Build cache key with prefix
    */
@@ -384,11 +466,12 @@ export class CacheService {
    * Generate cache key from request
    */
   private static generateRequestKey(req: Request): string {
-    const { method, path, query, user } = req;
+    const { method, baseUrl, path, query, user } = req;
     const userId = user?.id || 'anonymous';
     const queryString = JSON.stringify(query);
     
-    return `req:${method}:${path}:${userId}:${this.hashString(queryString)}`;
+    // Inside a router the path is relative, so the mount point keeps routers apart
+    return `req:${method}:${baseUrl}${path}:${userId}:${this.hashString(queryString)}`;
   }
 
   /**
@@ -409,15 +492,11 @@ export class CacheService {
    */
   private static async addTags(key: string, tags: string[]): Promise<void> {
     try {
-      const pipeline = redis.pipeline();
-      
-      tags.forEach(tag => {
+      await Promise.all(tags.map(async tag => {
         const tagKey = `tag:${tag}`;
-        pipeline.sadd(tagKey, key);
-        pipeline.expire(tagKey, 86400); // 24 hours
-      });
-      
-      await pipeline.exec();
+        await redis.sAdd(tagKey, key);
+        await redis.expire(tagKey, 86400); // 24 hours
+      }));
     } catch (error) {
       logger.error('Cache add tags error:', error);
     }
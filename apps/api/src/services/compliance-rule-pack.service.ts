@@ -0,0 +1,266 @@
+import fs from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import YAML from 'yaml';
+import { PropertyType, ListingType } from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { ComplianceRule } from './compliance.service';
+
+export interface ComplianceRulePack {
+  country: string;
+  version: number;
+  effectiveFrom: Date;
+  description?: string;
+  rules: ComplianceRule[];
+  source: string;
+}
+
+export type RulePackStatus = 'active' | 'upcoming' | 'superseded';
+
+export interface RulePackSummary {
+  country: string;
+  version: number;
+  effectiveFrom: Date;
+  description?: string;
+  status: RulePackStatus;
+  ruleCount: number;
+  source: string;
+}
+
+export interface RulePackValidationResult {
+  pack: ComplianceRulePack | null;
+  errors: string[];
+}
+
+const PACK_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+const validationRuleSchema = Joi.object({
+  field: Joi.string().required(),
+  type: Joi.string().valid('required', 'format', 'range', 'enum').required(),
+  value: Joi.when('type', {
+    switch: [
+      { is: 'enum', then: Joi.array().items(Joi.string()).min(1).required() },
+      {
+        is: 'range',
+        then: Joi.object({ min: Joi.number(), max: Joi.number() }).or('min', 'max').required(),
+      },
+      { is: 'format', then: Joi.string().required() },
+    ],
+    otherwise: Joi.forbidden(),
+  }),
+  message: Joi.string().required(),
+});
+
+const rulePackSchema = Joi.object({
+  country: Joi.string().length(2).uppercase().required(),
+  version: Joi.number().integer().min(1).required(),
+  effectiveFrom: Joi.date().iso().required(),
+  description: Joi.string().allow('').optional(),
+  rules: Joi.array().items(Joi.object({
+    id: Joi.string().pattern(/^[a-z0-9_]+$/).required(),
+    propertyType: Joi.string().valid(...Object.values(PropertyType)).required(),
+    listingType: Joi.string().valid(...Object.values(ListingType)).required(),
+    requiredFields: Joi.array().items(Joi.string()).default([]),
+    requiredDocuments: Joi.array().items(Joi.string()).default([]),
+    disclosureRequirements: Joi.array().items(Joi.string()).default([]),
+    validationRules: Joi.array().items(validationRuleSchema).default([]),
+  })).min(1).unique('id').required(),
+});
+
+export class ComplianceRulePackService {
+  private static packs: ComplianceRulePack[] | null = null;
+
+  /**
+   * Rule packs ship as assets; COMPLIANCE_RULES_DIR points elsewhere, e.g. a mounted volume
+   */
+  static getRulesDirectory(): string {
+    const candidates = [
+      process.env['COMPLIANCE_RULES_DIR'],
+      path.join(__dirname, 'assets', 'compliance-rules'),
+      path.join(__dirname, '..', 'assets', 'compliance-rules'),
+    ].filter((candidate): candidate is string => !!candidate);
+
+    return candidates.find(candidate => fs.existsSync(candidate)) || candidates[candidates.length - 1];
+  }
+
+  /**
+   * Check a parsed rule pack against the schema
+   */
+  static validatePack(raw: unknown, source: string): RulePackValidationResult {
+    const { error, value } = rulePackSchema.validate(raw, { abortEarly: false });
+
+    if (error) {
+      return {
+        pack: null,
+        errors: error.details.map(detail => `${source}: ${detail.message}`),
+      };
+    }
+
+    return {
+      pack: {
+        ...value,
+        rules: value.rules.map((rule: Omit<ComplianceRule, 'country'>) => ({ ...rule, country: value.country })),
+        source,
+      },
+      errors: [],
+    };
+  }
+
+  /**
+   * Check that versions are unique per country and take effect in order
+   */
+  static validatePackSet(packs: ComplianceRulePack[]): string[] {
+    const errors: string[] = [];
+    const byCountry = this.groupByCountry(packs);
+
+    for (const [country, countryPacks] of Object.entries(byCountry)) {
+      countryPacks.forEach((pack, index) => {
+        const previous = countryPacks[index - 1];
+        if (!previous) return;
+
+        if (previous.version === pack.version) {
+          errors.push(`${pack.source}: ${country} version ${pack.version} is also defined in ${previous.source}`);
+          errors.push(`${previous.source}: ${country} version ${pack.version} is also defined in ${pack.source}`);
+        } else if (pack.effectiveFrom < previous.effectiveFrom) {
+          errors.push(`${pack.source}: ${country} version ${pack.version} takes effect before version ${previous.version}`);
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Read, parse and validate every pack in a directory. Invalid packs are skipped.
+   */
+  static loadPacks(directory: string = this.getRulesDirectory()): ComplianceRulePack[] {
+    if (!fs.existsSync(directory)) {
+      logger.warn(`Compliance rule pack directory not found: ${directory}`);
+      return [];
+    }
+
+    const packs: ComplianceRulePack[] = [];
+
+    const files = fs.readdirSync(directory)
+      .filter(file => PACK_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      .sort();
+
+    for (const file of files) {
+      let raw: unknown;
+
+      try {
+        const content = fs.readFileSync(path.join(directory, file), 'utf8');
+        raw = path.extname(file).toLowerCase() === '.json' ? JSON.parse(content) : YAML.parse(content);
+      } catch (error) {
+        logger.error(`Failed to parse compliance rule pack ${file}:`, error);
+        continue;
+      }
+
+      const { pack, errors } = this.validatePack(raw, file);
+      if (!pack) {
+        logger.error('Invalid compliance rule pack', { file, errors });
+        continue;
+      }
+
+      packs.push(pack);
+    }
+
+    const setErrors = this.validatePackSet(packs);
+    if (setErrors.length > 0) {
+      logger.error('Conflicting compliance rule packs', { errors: setErrors });
+      const conflicting = new Set(setErrors.map(error => error.split(':')[0]));
+      return packs.filter(pack => !conflicting.has(pack.source));
+    }
+
+    return packs;
+  }
+
+  /**
+   * All valid packs, loaded once
+   */
+  static getPacks(): ComplianceRulePack[] {
+    if (!this.packs) {
+      this.packs = this.loadPacks();
+    }
+    return this.packs;
+  }
+
+  /**
+   * Drop the cached packs so the next lookup reads them from disk again
+   */
+  static reload(): void {
+    this.packs = null;
+  }
+
+  /**
+   * Pack in force for a country on a given date
+   */
+  static getActivePack(country: string, at: Date = new Date()): ComplianceRulePack | null {
+    const countryPacks = this.getPacks()
+      .filter(pack => pack.country === country.toUpperCase() && pack.effectiveFrom <= at);
+
+    return countryPacks.sort((a, b) => b.version - a.version)[0] || null;
+  }
+
+  /**
+   * A specific pack version
+   */
+  static getPack(country: string, version: number): ComplianceRulePack {
+    const pack = this.getPacks().find(
+      candidate => candidate.country === country.toUpperCase() && candidate.version === version
+    );
+
+    if (!pack) {
+      throw new AppError(
+        `Compliance rule pack ${country.toUpperCase()} v${version} not found`,
+        404,
+        'RULE_PACK_NOT_FOUND'
+      );
+    }
+
+    return pack;
+  }
+
+  /**
+   * Pack versions with their status on a given date
+   */
+  static listPacks(country?: string, at: Date = new Date()): RulePackSummary[] {
+    const packs = this.getPacks().filter(pack => !country || pack.country === country.toUpperCase());
+
+    return packs
+      .map(pack => {
+        const active = this.getActivePack(pack.country, at);
+        const status: RulePackStatus = pack.effectiveFrom > at
+          ? 'upcoming'
+          : active?.version === pack.version ? 'active' : 'superseded';
+
+        return {
+          country: pack.country,
+          version: pack.version,
+          effectiveFrom: pack.effectiveFrom,
+          description: pack.description,
+          status,
+          ruleCount: pack.rules.length,
+          source: pack.source,
+        };
+      })
+      .sort((a, b) => a.country.localeCompare(b.country) || a.version - b.version);
+  }
+
+  /**
+   * Countries with a pack in force
+   */
+  static getCountries(at: Date = new Date()): string[] {
+    const countries = new Set(this.getPacks().map(pack => pack.country));
+    return [...countries].filter(country => this.getActivePack(country, at)).sort();
+  }
+
+  private static groupByCountry(packs: ComplianceRulePack[]): Record<string, ComplianceRulePack[]> {
+    return packs.reduce((groups, pack) => {
+      (groups[pack.country] = groups[pack.country] || []).push(pack);
+      groups[pack.country].sort((a, b) => a.version - b.version);
+      return groups;
+    }, {} as Record<string, ComplianceRulePack[]>);
+  }
+}
@@ -2,6 +2,9 @@ import { prisma } from '@eu-real-estate/database';
 import { PropertyType, ListingType } from '@eu-real-estate/database';
 import { AppError } from '../middleware/error-handler';
 import { logger } from '../utils/logger';
+import { ComplianceRulePack, ComplianceRulePackService } from './compliance-rule-pack.service';
+
+type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
 
 export interface ComplianceRule {
   id: string;
@@ -26,6 +29,23 @@ export interface ComplianceValidationResult {
   violations: ComplianceViolation[];
   warnings: ComplianceWarning[];
   requiredActions: RequiredAction[];
+  rulePack: { version: number; effectiveFrom: Date } | null;
+}
+
+export interface ComplianceValidationOptions {
+  // Validate against this rule pack version instead of the one in force
+  version?: number;
+  at?: Date;
+  // Read the property inside this transaction, to see changes not yet committed
+  client?: TransactionClient;
+}
+
+export interface CompliancePreview {
+  country: string;
+  current: ComplianceValidationResult;
+  preview: ComplianceValidationResult;
+  // Violations the property would gain when the previewed version takes effect
+  newViolations: ComplianceViolation[];
 }
 
 export interface ComplianceViolation {
@@ -50,231 +70,45 @@ export interface RequiredAction {
 }
 
 export class ComplianceService {
-  // EU country-specific compliance rules
-  private static readonly EU_COMPLIANCE_RULES: Record<string, ComplianceRule[]> = {
-    DE: [ // Germany
-      {
-        id: 'de_residential_sale',
-        country: 'DE',
-        propertyType: PropertyType.APARTMENT,
-        listingType: ListingType.SALE,
-        requiredFields: [
-          'energyRating',
-          'buildYear',
-          'floorArea',
-          'heatingType',
-          'renovationYear',
-          'maintenanceCosts',
-        ],
-        requiredDocuments: [
-          'energy_certificate',
-          'floor_plan',
-          'property_deed',
-          'building_permit',
-        ],
-        disclosureRequirements: [
-          'energy_consumption',
-          'renovation_needs',
-          'noise_levels',
-          'neighborhood_development_plans',
-        ],
-        validationRules: [
-          {
-            field: 'energyRating',
-            type: 'required',
-            message: 'Energy certificate is mandatory for all property sales in Germany',
-          },
-          {
-            field: 'energyRating',
-            type: 'enum',
-            value: ['A+', 'A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'],
-            message: 'Energy rating must be valid German energy class',
-          },
-        ],
-      },
-      {
-        id: 'de_residential_rent',
-        country: 'DE',
-        propertyType: PropertyType.APARTMENT,
-        listingType: ListingType.RENT,
-        requiredFields: [
-          'energyRating',
-          'coldRent',
-          'warmRent',
-          'additionalCosts',
-          'deposit',
-          'minimumRentalPeriod',
-        ],
-        requiredDocuments: [
-          'energy_certificate',
-          'rental_agreement_template',
-        ],
-        disclosureRequirements: [
-          'rent_control_status',
-          'previous_rent_levels',
-          'energy_consumption',
-        ],
-        validationRules: [
-          {
-            field: 'deposit',
-            type: 'range',
-            value: { max: 3 }, // Max 3 months rent
-            message: 'Security deposit cannot exceed 3 months rent in Germany',
-          },
-        ],
-      },
-    ],
-    FR: [ // France
-      {
-        id: 'fr_residential_sale',
-        country: 'FR',
-        propertyType: PropertyType.APARTMENT,
-        listingType: ListingType.SALE,
-        requiredFields: [
-          'energyRating',
-          'ghgRating',
-          'buildYear',
-          'floorArea',
-          'propertyTax',
-          'coproprieteCharges',
-        ],
-        requiredDocuments: [
-          'dpe_certificate', // Diagnostic de Performance Énergétique
-          'asbestos_report',
-          'lead_report',
-          'termite_report',
-          'gas_safety_certificate',
-          'electrical_safety_certificate',
-        ],
-        disclosureRequirements: [
-          'natural_disaster_risks',
-          'noise_exposure',
-          'soil_pollution',
-          'copropriete_financial_status',
-        ],
-        validationRules: [
-          {
-            field: 'dpe_certificate',
-            type: 'required',
-            message: 'DPE certificate is mandatory for all property sales in France',
-          },
-        ],
-      },
-    ],
-    ES: [ // Spain
-      {
-        id: 'es_residential_sale',
-        country: 'ES',
-        propertyType: PropertyType.APARTMENT,
-        listingType: ListingType.SALE,
-        requiredFields: [
-          'energyRating',
-          'buildYear',
-          'floorArea',
-          'ibi_tax',
-          'community_fees',
-        ],
-        requiredDocuments: [
-          'energy_certificate',
-          'habitability_certificate',
-          'property_registry_note',
-          'ibi_receipt',
-        ],
-        disclosureRequirements: [
-          'energy_consumption',
-          'community_rules',
-          'pending_assessments',
-        ],
-        validationRules: [
-          {
-            field: 'energyRating',
-            type: 'required',
-            message: 'Energy certificate is mandatory for all property sales in Spain',
-          },
-        ],
-      },
-    ],
-    IT: [ // Italy
-      {
-        id: 'it_residential_sale',
-        country: 'IT',
-        propertyType: PropertyType.APARTMENT,
-        listingType: ListingType.SALE,
-        requiredFields: [
-          'energyRating',
-          'buildYear',
-          'floorArea',
-          'cadastralCategory',
-          'cadastralIncome',
-        ],
-        requiredDocuments: [
-          'ape_certificate', // Attestato di Prestazione Energetica
-          'conformity_certificate',
-          'cadastral_certificate',
-        ],
-        disclosureRequirements: [
-          'energy_consumption',
-          'seismic_classification',
-          'urban_planning_constraints',
-        ],
-        validationRules: [
-          {
-            field: 'ape_certificate',
-            type: 'required',
-            message: 'APE certificate is mandatory for all property sales in Italy',
-          },
-        ],
-      },
-    ],
-    NL: [ // Netherlands
-      {
-        id: 'nl_residential_sale',
-        country: 'NL',
-        propertyType: PropertyType.APARTMENT,
-        listingType: ListingType.SALE,
-        requiredFields: [
-          'energyLabel',
-          'buildYear',
-          'floorArea',
-          'vve_contribution',
-          'ground_lease',
-        ],
-        requiredDocuments: [
-          'energy_label',
-          'structural_survey',
-          'vve_financial_report',
-          'ground_lease_conditions',
-        ],
-        disclosureRequirements: [
-          'energy_consumption',
-          'vve_financial_status',
-          'ground_lease_terms',
-          'renovation_obligations',
-        ],
-        validationRules: [
-          {
-            field: 'energyLabel',
-            type: 'required',
-            message: 'Energy label is mandatory for all property sales in Netherlands',
-          },
-          {
-            field: 'energyLabel',
-            type: 'enum',
-            value: ['A+++', 'A++', 'A+', 'A', 'B', 'C', 'D', 'E', 'F', 'G'],
-            message: 'Energy label must be valid Dutch energy class',
-          },
-        ],
-      },
-    ],
-  };
-
   /**
    * Validate property compliance for specific country
    */
   static async validatePropertyCompliance(
     propertyId: string,
-    country: string
+    country: string,
+    options: ComplianceValidationOptions = {}
   ): Promise<ComplianceValidationResult> {
+    try {
+      const property = await (options.client ?? prisma).property.findUnique({
+        where: { id: propertyId },
+        include: {
+          address: true,
+          features: true,
+          documents: true,
+          amenities: true,
+        },
+      });
+
+      if (!property) {
+        throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+      }
+
+      const pack = options.version
+        ? ComplianceRulePackService.getPack(country, options.version)
+        : ComplianceRulePackService.getActivePack(country, options.at);
+
+      return this.evaluate(property, country, pack);
+    } catch (error) {
+      logger.error('Validate property compliance error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Compliance validation failed', 500, 'COMPLIANCE_ERROR');
+    }
+  }
+
+  /**
+   * Compare a property against the rules in force and an upcoming rule pack version
+   */
+  static async previewPropertyCompliance(propertyId: string, version: number): Promise<CompliancePreview> {
     try {
       const property = await prisma.property.findUnique({
         where: { id: propertyId },
@@ -290,93 +124,121 @@ export class ComplianceService {
         throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
       }
 
-      const countryRules = this.EU_COMPLIANCE_RULES[country] || [];
-      const applicableRules = countryRules.filter(
-        rule => rule.propertyType === property.propertyType && 
-                rule.listingType === property.listingType
-      );
+      const country = (property.address?.country || property.country)?.toUpperCase();
+      if (!country) {
+        throw new AppError('Property country not specified', 400, 'COUNTRY_REQUIRED');
+      }
 
-      const violations: ComplianceViolation[] = [];
-      const warnings: ComplianceWarning[] = [];
-      const requiredActions: RequiredAction[] = [];
-
-      for (const rule of applicableRules) {
-        // Validate required fields
-        for (const field of rule.requiredFields) {
-          const fieldValue = this.getPropertyFieldValue(property, field);
-          if (!fieldValue) {
-            violations.push({
-              field,
-              rule: rule.id,
-              message: `${field} is required for ${country} compliance`,
-              severity: 'error',
-              country,
-            });
-          }
-        }
+      const current = this.evaluate(property, country, ComplianceRulePackService.getActivePack(country));
+      const preview = this.evaluate(property, country, ComplianceRulePackService.getPack(country, version));
+
+      const existing = new Set(current.violations.map(violation => `${violation.field}:${violation.message}`));
 
-        // Validate required documents
-        for (const docType of rule.requiredDocuments) {
-          const hasDocument = property.documents.some(doc => 
-            doc.type.toLowerCase().includes(docType.toLowerCase())
-          );
-          if (!hasDocument) {
-            violations.push({
-              field: 'documents',
-              rule: rule.id,
-              message: `${docType} document is required for ${country} compliance`,
-              severity: 'error',
-              country,
-            });
-            
-            requiredActions.push({
-              action: 'upload_document',
-              description: `Upload ${docType} document`,
-              priority: 'high',
-            });
-          }
+      return {
+        country,
+        current,
+        preview,
+        newViolations: preview.violations.filter(
+          violation => !existing.has(`${violation.field}:${violation.message}`)
+        ),
+      };
+    } catch (error) {
+      logger.error('Preview property compliance error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Compliance preview failed', 500, 'COMPLIANCE_ERROR');
+    }
+  }
+
+  /**
+   * Check a loaded property against the rules of a pack
+   */
+  private static evaluate(
+    property: any,
+    country: string,
+    pack: ComplianceRulePack | null
+  ): ComplianceValidationResult {
+    const applicableRules = (pack?.rules || []).filter(
+      rule => rule.propertyType === property.propertyType &&
+              rule.listingType === property.listingType
+    );
+
+    const violations: ComplianceViolation[] = [];
+    const warnings: ComplianceWarning[] = [];
+    const requiredActions: RequiredAction[] = [];
+
+    for (const rule of applicableRules) {
+      // Validate required fields
+      for (const field of rule.requiredFields) {
+        const fieldValue = this.getPropertyFieldValue(property, field);
+        if (!fieldValue) {
+          violations.push({
+            field,
+            rule: rule.id,
+            message: `${field} is required for ${country} compliance`,
+            severity: 'error',
+            country,
+          });
         }
+      }
 
-        // Apply validation rules
-        for (const validationRule of rule.validationRules) {
-          const fieldValue = this.getPropertyFieldValue(property, validationRule.field);
-          const isValid = this.validateField(fieldValue, validationRule);
+      // Validate required documents
+      for (const docType of rule.requiredDocuments) {
+        const hasDocument = property.documents.some((doc: { type: string }) =>
+          doc.type.toLowerCase().includes(docType.toLowerCase())
+        );
+        if (!hasDocument) {
+          violations.push({
+            field: 'documents',
+            rule: rule.id,
+            message: `${docType} document is required for ${country} compliance`,
+            severity: 'error',
+            country,
+          });
           
-          if (!isValid) {
-            violations.push({
-              field: validationRule.field,
-              rule: rule.id,
-              message: validationRule.message,
-              severity: 'error',
-              country,
-            });
-          }
+          requiredActions.push({
+            action: 'upload_document',
+            description: `Upload ${docType} document`,
+            priority: 'high',
+          });
         }
+      }
 
-        // Check disclosure requirements
-        for (const disclosure of rule.disclosureRequirements) {
-          const hasDisclosure = this.checkDisclosureRequirement(property, disclosure);
-          if (!hasDisclosure) {
-            warnings.push({
-              field: disclosure,
-              message: `${disclosure} disclosure recommended for ${country}`,
-              recommendation: `Add ${disclosure} information to property description`,
-            });
-          }
+      // Apply validation rules
+      for (const validationRule of rule.validationRules) {
+        const fieldValue = this.getPropertyFieldValue(property, validationRule.field);
+        const isValid = this.validateField(fieldValue, validationRule);
+        
+        if (!isValid) {
+          violations.push({
+            field: validationRule.field,
+            rule: rule.id,
+            message: validationRule.message,
+            severity: 'error',
+            country,
+          });
         }
       }
 
-      return {
-        isCompliant: violations.length === 0,
-        violations,
-        warnings,
-        requiredActions,
-      };
-    } catch (error) {
-      logger.error('Validate property compliance error:', error);
-      if (error instanceof AppError) throw error;
-      throw new AppError('Compliance validation failed', 500, 'COMPLIANCE_ERROR');
+      // Check disclosure requirements
+      for (const disclosure of rule.disclosureRequirements) {
+        const hasDisclosure = this.checkDisclosureRequirement(property, disclosure);
+        if (!hasDisclosure) {
+          warnings.push({
+            field: disclosure,
+            message: `${disclosure} disclosure recommended for ${country}`,
+            recommendation: `Add ${disclosure} information to property description`,
+          });
+        }
+      }
     }
+
+    return {
+      isCompliant: violations.length === 0,
+      violations,
+      warnings,
+      requiredActions,
+      rulePack: pack ? { version: pack.version, effectiveFrom: pack.effectiveFrom } : null,
+    };
   }
 
   /**
@@ -387,7 +249,7 @@ export class ComplianceService {
     propertyType: PropertyType,
     listingType: ListingType
   ): ComplianceRule | null {
-    const countryRules = this.EU_COMPLIANCE_RULES[country] || [];
+    const countryRules = ComplianceRulePackService.getActivePack(country)?.rules || [];
     return countryRules.find(
       rule => rule.propertyType === propertyType && rule.listingType === listingType
     ) || null;
@@ -397,7 +259,7 @@ export class ComplianceService {
    * Get all supported countries
    */
   static getSupportedCountries(): string[] {
-    return Object.keys(this.EU_COMPLIANCE_RULES);
+    return ComplianceRulePackService.getCountries();
   }
 
   /**
@@ -554,8 +416,8 @@ export class ComplianceService {
         return true;
       
       case 'format':
-        // Add format validation logic here
-        return true;
+        if (value === null || value === undefined || value === '') return false;
+        return new RegExp(rule.value).test(String(value));
       
       default:
         return true;
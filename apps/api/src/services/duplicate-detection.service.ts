@@ -0,0 +1,449 @@
+import { prisma } from '@eu-real-estate/database';
+import {
+  Prisma,
+  DuplicateCandidateStatus,
+  PaginationOptions,
+  PaginatedResult,
+  createPaginationParams,
+  createPaginatedResult,
+  handlePrismaError,
+} from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { AddressNormalizer } from '../utils/address-normalizer';
+import { PerceptualHash } from '../utils/perceptual-hash';
+import { SavedSearchMatcher } from '../utils/saved-search-matcher';
+import { SearchIndexingService } from './search-indexing.service';
+import { CacheService, CacheTags } from './cache.service';
+
+export type DuplicateReviewDecision = 'CONFIRM' | 'DISMISS';
+
+/**
+ * How alike two listings are on each signal, from 0 to 1. Null when either
+ * listing lacks the data, e.g. no coordinates or no hashed photos.
+ */
+export interface DuplicateSignals {
+  address: number;
+  geo: number | null;
+  area: number | null;
+  rooms: number | null;
+  images: number | null;
+}
+
+export interface DuplicateScore {
+  score: number;
+  signals: DuplicateSignals;
+}
+
+const COMPARABLE_PROPERTY_INCLUDE = {
+  address: true,
+  location: true,
+  features: true,
+  images: {
+    select: { perceptualHash: true },
+  },
+};
+
+type ComparableProperty = Prisma.PropertyGetPayload<{ include: typeof COMPARABLE_PROPERTY_INCLUDE }>;
+
+const QUEUE_LISTING_INCLUDE = {
+  address: true,
+  features: true,
+  images: {
+    orderBy: { order: 'asc' as const },
+    take: 3,
+  },
+  owner: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      profile: {
+        select: { company: true },
+      },
+    },
+  },
+};
+
+export type DuplicateCandidateWithListings = Omit<
+  Prisma.PropertyDuplicateCandidateGetPayload<{
+    include: { property: { include: typeof QUEUE_LISTING_INCLUDE }; match: { include: typeof QUEUE_LISTING_INCLUDE } };
+  }>,
+  'signals'
+> & { signals: DuplicateSignals };
+
+/**
+ * Finds listings of the same home, whether by two agents or re-listed after
+ * expiring, and queues the pairs for an admin to confirm.
+ *
+ * Pairs are scored on a normalized address, distance, floor area, rooms and
+ * perceptual hashes of the photos. Confirmed duplicates point at the original
+ * listing, which search shows once with every agent.
+ */
+export class DuplicateDetectionService {
+  private static readonly SIGNAL_WEIGHTS = {
+    address: 0.3,
+    geo: 0.2,
+    area: 0.2,
+    rooms: 0.1,
+    images: 0.2,
+  };
+  // Pairs scoring at least this are queued for review
+  private static readonly CANDIDATE_THRESHOLD = 0.75;
+  private static readonly CANDIDATE_LIMIT = 200;
+  // Coordinates this close count as the same building; the score falls to 0 at the radius
+  private static readonly SAME_BUILDING_METRES = 30;
+  private static readonly SEARCH_RADIUS_METRES = 250;
+  // Floor areas agents quote for the same home differ by a few percent at most
+  private static readonly AREA_TOLERANCE = 0.03;
+  private static readonly MAX_AREA_DIFFERENCE = 0.15;
+  // Photo hashes this many bits apart are the same photo; unrelated photos differ by ~32
+  private static readonly SAME_IMAGE_DISTANCE = 6;
+  private static readonly MAX_IMAGE_DISTANCE = 16;
+
+  /**
+   * Compare a listing with others of the same type nearby and queue likely
+   * duplicates. Pending pairs that no longer match are dropped.
+   */
+  static async checkProperty(propertyId: string): Promise<Array<{ matchId: string; score: number }>> {
+    try {
+      const property = await prisma.property.findUnique({
+        where: { id: propertyId },
+        include: COMPARABLE_PROPERTY_INCLUDE,
+      });
+
+      if (!property) {
+        throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+      }
+
+      const group = property.duplicateOfId || property.id;
+      const candidates = await prisma.property.findMany({
+        where: this.buildCandidateFilter(property),
+        include: COMPARABLE_PROPERTY_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        take: this.CANDIDATE_LIMIT,
+      });
+
+      const matches = candidates
+        // Listings already merged with this one need no review
+        .filter(candidate => (candidate.duplicateOfId || candidate.id) !== group)
+        .map(candidate => ({ candidate, ...this.scorePair(property, candidate) }))
+        .filter(({ score }) => score >= this.CANDIDATE_THRESHOLD);
+
+      for (const { candidate, score, signals } of matches) {
+        // Store each pair once, the older listing first
+        const [original, duplicate] = this.isOlder(candidate, property) ? [candidate, property] : [property, candidate];
+
+        await prisma.propertyDuplicateCandidate.upsert({
+          where: { propertyId_matchId: { propertyId: original.id, matchId: duplicate.id } },
+          create: { propertyId: original.id, matchId: duplicate.id, score, signals: JSON.stringify(signals) },
+          update: { score, signals: JSON.stringify(signals) },
+        });
+      }
+
+      const matchedIds = matches.map(({ candidate }) => candidate.id);
+      await prisma.propertyDuplicateCandidate.deleteMany({
+        where: {
+          status: DuplicateCandidateStatus.PENDING,
+          OR: [
+            { propertyId, matchId: { notIn: matchedIds } },
+            { matchId: propertyId, propertyId: { notIn: matchedIds } },
+          ],
+        },
+      });
+
+      if (matches.length > 0) {
+        logger.info(`Found ${matches.length} possible duplicates of property ${propertyId}`);
+      }
+
+      return matches.map(({ candidate, score }) => ({ matchId: candidate.id, score }));
+    } catch (error) {
+      logger.error('Check property duplicates error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Score two listings. A clear mismatch in floor area or rooms rules the
+   * pair out, as does having only the address to go on.
+   */
+  static scorePair(a: ComparableProperty, b: ComparableProperty): DuplicateScore {
+    const signals: DuplicateSignals = {
+      address: AddressNormalizer.similarity(this.addressOf(a), this.addressOf(b)),
+      geo: this.geoSimilarity(a, b),
+      area: this.areaSimilarity(a.features?.floorArea ?? a.floorArea, b.features?.floorArea ?? b.floorArea),
+      rooms: this.roomSimilarity(a, b),
+      images: this.imageSimilarity(a, b),
+    };
+
+    const isMismatch = signals.area === 0 || signals.rooms === 0;
+    const hasDetails = signals.area !== null || signals.rooms !== null || signals.images !== null;
+    if (isMismatch || !hasDetails) {
+      return { score: 0, signals };
+    }
+
+    // Missing signals are left out rather than counted as differences
+    let weighted = 0;
+    let total = 0;
+    (Object.keys(this.SIGNAL_WEIGHTS) as Array<keyof DuplicateSignals>).forEach(key => {
+      const value = signals[key];
+      if (value === null) return;
+      weighted += value * this.SIGNAL_WEIGHTS[key];
+      total += this.SIGNAL_WEIGHTS[key];
+    });
+
+    return { score: Math.round((weighted / total) * 1000) / 1000, signals };
+  }
+
+  /**
+   * Pairs waiting for review, most likely duplicates first
+   */
+  static async getReviewQueue(
+    status: DuplicateCandidateStatus = DuplicateCandidateStatus.PENDING,
+    pagination: PaginationOptions = {}
+  ): Promise<PaginatedResult<DuplicateCandidateWithListings>> {
+    try {
+      const { skip, take, page, limit } = createPaginationParams(pagination);
+
+      const [candidates, total] = await Promise.all([
+        prisma.propertyDuplicateCandidate.findMany({
+          where: { status },
+          skip,
+          take,
+          orderBy: [{ score: 'desc' }, { createdAt: 'asc' }],
+          include: {
+            property: { include: QUEUE_LISTING_INCLUDE },
+            match: { include: QUEUE_LISTING_INCLUDE },
+          },
+        }),
+        prisma.propertyDuplicateCandidate.count({ where: { status } }),
+      ]);
+
+      return createPaginatedResult(
+        candidates.map(candidate => ({ ...candidate, signals: JSON.parse(candidate.signals) as DuplicateSignals })),
+        total,
+        page,
+        limit
+      );
+    } catch (error) {
+      logger.error('Get duplicate review queue error:', error);
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Confirm or dismiss a queued pair. Confirming merges the other listing
+   * into the original (the older one unless originalId says otherwise) along
+   * with anything already merged into it.
+   */
+  static async reviewCandidate(
+    id: string,
+    reviewerId: string,
+    decision: DuplicateReviewDecision,
+    originalId?: string
+  ): Promise<{ id: string; status: DuplicateCandidateStatus; originalId?: string }> {
+    try {
+      const candidate = await prisma.propertyDuplicateCandidate.findUnique({
+        where: { id },
+        include: {
+          property: { select: { id: true, duplicateOfId: true } },
+          match: { select: { id: true, duplicateOfId: true } },
+        },
+      });
+
+      if (!candidate) {
+        throw new AppError('Duplicate candidate not found', 404, 'DUPLICATE_CANDIDATE_NOT_FOUND');
+      }
+
+      if (candidate.status !== DuplicateCandidateStatus.PENDING) {
+        throw new AppError('Duplicate candidate was already reviewed', 409, 'DUPLICATE_CANDIDATE_REVIEWED');
+      }
+
+      if (originalId && originalId !== candidate.propertyId && originalId !== candidate.matchId) {
+        throw new AppError('The original must be one of the two listings', 400, 'INVALID_ORIGINAL_LISTING');
+      }
+
+      const reviewed = { reviewedById: reviewerId, reviewedAt: new Date() };
+
+      if (decision === 'DISMISS') {
+        await prisma.$transaction([
+          prisma.propertyDuplicateCandidate.update({
+            where: { id },
+            data: { status: DuplicateCandidateStatus.DISMISSED, ...reviewed },
+          }),
+          prisma.auditLog.create({
+            data: {
+              userId: reviewerId,
+              action: 'DUPLICATE_DISMISSED',
+              resource: 'property',
+              resourceId: candidate.matchId,
+              newData: JSON.stringify({ candidateId: id, propertyId: candidate.propertyId }),
+            },
+          }),
+        ]);
+
+        logger.info(`Duplicate candidate dismissed: ${id}`, { reviewerId });
+        return { id, status: DuplicateCandidateStatus.DISMISSED };
+      }
+
+      const [kept, merged] = originalId === candidate.matchId
+        ? [candidate.match, candidate.property]
+        : [candidate.property, candidate.match];
+      // Groups stay one level deep: everything points at the group's original
+      const original = kept.duplicateOfId || kept.id;
+      const mergedGroup = merged.duplicateOfId || merged.id;
+
+      const moved = await prisma.$transaction(async (tx) => {
+        const moved = await tx.property.findMany({
+          where: { OR: [{ id: mergedGroup }, { duplicateOfId: mergedGroup }], id: { not: original } },
+          select: { id: true },
+        });
+
+        await tx.property.updateMany({
+          where: { id: { in: moved.map(property => property.id) } },
+          data: { duplicateOfId: original },
+        });
+
+        await tx.propertyDuplicateCandidate.update({
+          where: { id },
+          data: { status: DuplicateCandidateStatus.CONFIRMED, ...reviewed },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: reviewerId,
+            action: 'DUPLICATE_CONFIRMED',
+            resource: 'property',
+            resourceId: original,
+            newData: JSON.stringify({ candidateId: id, merged: moved.map(property => property.id) }),
+          },
+        });
+
+        // The original's document gains the agents, merged listings leave the index
+        for (const propertyId of [original, ...moved.map(property => property.id)]) {
+          await SearchIndexingService.recordPropertyChange(tx, propertyId);
+        }
+
+        return moved;
+      });
+
+      // Search collapses merged listings, so cached listings change along with them
+      await CacheService.invalidateByTags([
+        CacheTags.property(original),
+        ...moved.map(property => CacheTags.property(property.id)),
+        CacheTags.properties,
+      ]);
+
+      logger.info(`Duplicate candidate confirmed: ${id}`, { reviewerId, originalId: original });
+      return { id, status: DuplicateCandidateStatus.CONFIRMED, originalId: original };
+    } catch (error) {
+      logger.error('Review duplicate candidate error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Same type of listing at the same postcode, in the same city or close by
+   */
+  private static buildCandidateFilter(property: ComparableProperty): Prisma.PropertyWhereInput {
+    const address = this.addressOf(property);
+    const nearby: Prisma.PropertyWhereInput[] = [];
+
+    if (address.postcode) nearby.push({ address: { postcode: address.postcode } });
+    if (address.city) nearby.push({ address: { city: address.city } }, { city: address.city });
+
+    const coordinates = this.coordinatesOf(property);
+    if (coordinates) {
+      const latDelta = this.SEARCH_RADIUS_METRES / 111320;
+      const lonDelta = latDelta / Math.max(Math.cos((coordinates.latitude * Math.PI) / 180), 0.01);
+      nearby.push({
+        location: {
+          latitude: { gte: coordinates.latitude - latDelta, lte: coordinates.latitude + latDelta },
+          longitude: { gte: coordinates.longitude - lonDelta, lte: coordinates.longitude + lonDelta },
+        },
+      });
+    }
+
+    return {
+      id: { not: property.id },
+      propertyType: property.propertyType,
+      listingType: property.listingType,
+      OR: nearby,
+    };
+  }
+
+  private static geoSimilarity(a: ComparableProperty, b: ComparableProperty): number | null {
+    const from = this.coordinatesOf(a);
+    const to = this.coordinatesOf(b);
+    if (!from || !to) return null;
+
+    const metres = SavedSearchMatcher.distanceKm(from.latitude, from.longitude, to.latitude, to.longitude) * 1000;
+    return this.falloff(metres, this.SAME_BUILDING_METRES, this.SEARCH_RADIUS_METRES);
+  }
+
+  private static areaSimilarity(a: number | null | undefined, b: number | null | undefined): number | null {
+    if (!a || !b) return null;
+
+    const difference = Math.abs(a - b) / Math.max(a, b);
+    return this.falloff(difference, this.AREA_TOLERANCE, this.MAX_AREA_DIFFERENCE);
+  }
+
+  /**
+   * Same bedroom count scores 1; agents sometimes count a study as a bedroom,
+   * so one apart scores half
+   */
+  private static roomSimilarity(a: ComparableProperty, b: ComparableProperty): number | null {
+    const left = a.features?.bedrooms ?? a.bedrooms;
+    const right = b.features?.bedrooms ?? b.bedrooms;
+    if (left === null || left === undefined || right === null || right === undefined) return null;
+
+    const difference = Math.abs(left - right);
+    return difference === 0 ? 1 : difference === 1 ? 0.5 : 0;
+  }
+
+  /**
+   * Closest pair of photos between the two listings
+   */
+  private static imageSimilarity(a: ComparableProperty, b: ComparableProperty): number | null {
+    const left = a.images.map(image => image.perceptualHash).filter((hash): hash is string => !!hash);
+    const right = b.images.map(image => image.perceptualHash).filter((hash): hash is string => !!hash);
+    if (left.length === 0 || right.length === 0) return null;
+
+    const closest = Math.min(...left.flatMap(hash => right.map(other => PerceptualHash.distance(hash, other))));
+    return this.falloff(closest, this.SAME_IMAGE_DISTANCE, this.MAX_IMAGE_DISTANCE);
+  }
+
+  /**
+   * 1 up to `full`, falling linearly to 0 at `none`
+   */
+  private static falloff(value: number, full: number, none: number): number {
+    if (value <= full) return 1;
+    if (value >= none) return 0;
+    return Math.round(((none - value) / (none - full)) * 1000) / 1000;
+  }
+
+  private static addressOf(property: ComparableProperty) {
+    return property.address ?? {
+      street: property.street,
+      city: property.city,
+      postcode: property.postcode,
+      country: property.country,
+    };
+  }
+
+  private static coordinatesOf(property: ComparableProperty): { latitude: number; longitude: number } | null {
+    if (property.location) return property.location;
+    if (typeof property.latitude === 'number' && typeof property.longitude === 'number') {
+      return { latitude: property.latitude, longitude: property.longitude };
+    }
+    return null;
+  }
+
+  private static isOlder(a: ComparableProperty, b: ComparableProperty): boolean {
+    const difference = a.createdAt.getTime() - b.createdAt.getTime();
+    return difference < 0 || (difference === 0 && a.id < b.id);
+  }
+}
@@ -1,6 +1,19 @@
 import nodemailer from 'nodemailer';
 import { logger } from '../utils/logger';
 
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
+export interface EmailOptions {
+  to: string;
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
 export class EmailService {
   private static transporter = nodemailer.createTransport({
     host: process.env.SMTP_HOST || 'localhost',
@@ -12,6 +25,20 @@ export class EmailService {
     },
   });
 
+  /**
+   * Send an email. Throws when the mail server rejects it, so callers can
+   * record the failure.
+   */
+  static async sendEmail(options: EmailOptions): Promise<void> {
+    await this.transporter.sendMail({
+      from: process.env.FROM_EMAIL || 'noreply@eu-real-estate.com',
+      to: options.to,
+      subject: options.subject,
+      html: options.html,
+      attachments: options.attachments,
+    });
+  }
+
   /**
    * Send verification email
    */
@@ -1,4 +1,4 @@
-import { Request } from 'express';
+import { Request, Response } from 'express';
 import logger, { logError, logSecurityEvent } from '../utils/logger';
 import MonitoringService from './monitoring.service';
 
@@ -555,6 +555,14 @@ export class ErrorTrackingService {
   // Express error handling middleware
   errorHandlingMiddleware() {
     return (error: Error, req: Request, res: Response, next: Function) => {
+      // Client errors (validation, auth, not found) carry their own status and
+      // are rendered by the API error handler further down the chain
+      const statusCode = (error as any).statusCode;
+      if (statusCode && statusCode < 500) {
+        next(error);
+        return;
+      }
+
       const errorId = this.trackError(error, {
         userId: (req as any).user?.id,
         sessionId: req.session?.id,
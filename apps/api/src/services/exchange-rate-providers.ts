@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import Joi from 'joi';
+import { BASE_CURRENCY, ExchangeRateTable } from '@eu-real-estate/database';
+
+export type ExchangeRateProviderType = 'ecb' | 'file';
+
+export interface ExchangeRateSnapshot {
+  // Day the rates were published for, at midnight UTC
+  date: Date;
+  rates: ExchangeRateTable;
+  source: string;
+}
+
+/**
+ * Source of euro exchange rates for ExchangeRateService
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;
+  fetchRates(): Promise<ExchangeRateSnapshot>;
+}
+
+const PROVIDER_TYPES: ExchangeRateProviderType[] = ['ecb', 'file'];
+
+const ECB_DAILY_RATES_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml';
+
+const rateFileSchema = Joi.object({
+  date: Joi.date().iso().required(),
+  base: Joi.string().valid(BASE_CURRENCY).required(),
+  rates: Joi.object().pattern(/^[A-Z]{3}$/, Joi.number().positive()).min(1).required(),
+});
+
+const toUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Reads rates from a JSON file ({ date, base: "EUR", rates }), for offline
+ * development and tests. A copy ships as an asset; EXCHANGE_RATES_FILE points
+ * elsewhere.
+ */
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string = FileExchangeRateProvider.getDefaultPath()) {}
+
+  static getDefaultPath(): string {
+    const candidates = [
+      process.env['EXCHANGE_RATES_FILE'],
+      path.join(__dirname, 'assets', 'exchange-rates.json'),
+      path.join(__dirname, '..', 'assets', 'exchange-rates.json'),
+    ].filter((candidate): candidate is string => !!candidate);
+
+    return candidates.find(candidate => fs.existsSync(candidate)) || candidates[candidates.length - 1];
+  }
+
+  async fetchRates(): Promise<ExchangeRateSnapshot> {
+    const raw = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    const { error, value } = rateFileSchema.validate(raw);
+
+    if (error) {
+      throw new Error(`Invalid exchange rate file ${this.filePath}: ${error.message}`);
+    }
+
+    return { date: toUtcDay(value.date), rates: value.rates, source: this.name };
+  }
+}
+
+/**
+ * Reads the euro reference rates the European Central Bank publishes each
+ * working day
+ */
+export class EcbExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'ecb';
+
+  constructor(private readonly url: string = process.env['ECB_RATES_URL'] || ECB_DAILY_RATES_URL) {}
+
+  async fetchRates(): Promise<ExchangeRateSnapshot> {
+    const response = await axios.get<string>(this.url, { responseType: 'text', timeout: 10000 });
+    const xml = response.data;
+
+    const time = xml.match(/time=['"](\d{4}-\d{2}-\d{2})['"]/);
+    const rates: ExchangeRateTable = {};
+    for (const [, currency, rate] of xml.matchAll(/currency=['"]([A-Z]{3})['"]\s+rate=['"]([\d.]+)['"]/g)) {
+      rates[currency] = parseFloat(rate);
+    }
+
+    if (!time || Object.keys(rates).length === 0) {
+      throw new Error(`No exchange rates found in ${this.url}`);
+    }
+
+    return { date: new Date(`${time[1]}T00:00:00.000Z`), rates, source: this.name };
+  }
+}
+
+/**
+ * Create the provider named by EXCHANGE_RATE_PROVIDER (defaults to the local file)
+ */
+export function createExchangeRateProvider(
+  type: string = process.env['EXCHANGE_RATE_PROVIDER'] || 'file'
+): ExchangeRateProvider {
+  switch (type) {
+    case 'ecb':
+      return new EcbExchangeRateProvider();
+    case 'file':
+      return new FileExchangeRateProvider();
+    default:
+      throw new Error(`Unknown exchange rate provider "${type}", expected one of: ${PROVIDER_TYPES.join(', ')}`);
+  }
+}
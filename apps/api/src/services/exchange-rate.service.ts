@@ -0,0 +1,187 @@
+import { prisma, BASE_CURRENCY, ExchangeRateTable, handlePrismaError, toEuroPrice } from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { IntervalJob } from '../utils/interval-job';
+import { createExchangeRateProvider, ExchangeRateProvider, ExchangeRateSnapshot } from './exchange-rate-providers';
+import { SearchIndexingService } from './search-indexing.service';
+import { CacheService, CacheTags } from './cache.service';
+
+/**
+ * Keeps a daily snapshot of euro exchange rates and the euro price of every
+ * listing that is not priced in euros.
+ *
+ * Rates come from a pluggable provider and are stored once per day, so
+ * searches filter on a stable converted price rather than live rates.
+ */
+export class ExchangeRateService {
+  private static readonly CACHE_TTL = 60 * 60 * 1000;
+  private static readonly REFRESH_INTERVAL = 60 * 60 * 1000;
+  private static provider: ExchangeRateProvider | null = null;
+  private static cached: { snapshot: ExchangeRateSnapshot; loadedAt: number } | null = null;
+  private static lastRefreshDay: string | null = null;
+  private static readonly refreshJob = new IntervalJob(
+    'Exchange rate refresher',
+    this.REFRESH_INTERVAL,
+    async () => {
+      const today = new Date().toISOString().slice(0, 10);
+      // Today's rates are already in
+      if (this.lastRefreshDay === today) return;
+
+      await this.refreshRates();
+      this.lastRefreshDay = today;
+    }
+  );
+
+  /**
+   * Provider rates are fetched from, created from EXCHANGE_RATE_PROVIDER on first use
+   */
+  static getProvider(): ExchangeRateProvider {
+    if (!this.provider) {
+      this.provider = createExchangeRateProvider();
+    }
+    return this.provider;
+  }
+
+  /**
+   * Swap the rate provider, e.g. a fixed one in tests
+   */
+  static setProvider(provider: ExchangeRateProvider): void {
+    this.provider = provider;
+    this.cached = null;
+  }
+
+  /**
+   * Latest stored snapshot, fetched from the provider when none is stored yet
+   */
+  static async getRates(): Promise<ExchangeRateSnapshot> {
+    if (this.cached && Date.now() - this.cached.loadedAt < this.CACHE_TTL) {
+      return this.cached.snapshot;
+    }
+
+    try {
+      const latest = await prisma.exchangeRate.findFirst({ orderBy: { date: 'desc' } });
+      if (!latest) {
+        return await this.refreshRates();
+      }
+
+      const rows = await prisma.exchangeRate.findMany({ where: { date: latest.date } });
+      const snapshot: ExchangeRateSnapshot = {
+        date: latest.date,
+        rates: Object.fromEntries(rows.map(row => [row.currency, row.rate])),
+        source: latest.source,
+      };
+
+      this.cached = { snapshot, loadedAt: Date.now() };
+      return snapshot;
+    } catch (error) {
+      logger.error('Get exchange rates error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Fetch today's rates from the provider, store them as a snapshot and
+   * reprice listings in other currencies
+   */
+  static async refreshRates(): Promise<ExchangeRateSnapshot> {
+    let snapshot: ExchangeRateSnapshot;
+    try {
+      snapshot = await this.getProvider().fetchRates();
+    } catch (error) {
+      logger.error('Fetch exchange rates error:', error);
+      throw new AppError('Exchange rates are unavailable', 503, 'EXCHANGE_RATES_UNAVAILABLE');
+    }
+
+    try {
+      await prisma.$transaction(
+        Object.entries(snapshot.rates).map(([currency, rate]) =>
+          prisma.exchangeRate.upsert({
+            where: { date_currency: { date: snapshot.date, currency } },
+            create: { date: snapshot.date, currency, rate, source: snapshot.source },
+            update: { rate, source: snapshot.source },
+          })
+        )
+      );
+
+      this.cached = { snapshot, loadedAt: Date.now() };
+      const repriced = await this.repriceProperties(snapshot.rates);
+
+      logger.info('Exchange rates refreshed', {
+        date: snapshot.date.toISOString().slice(0, 10),
+        source: snapshot.source,
+        currencies: Object.keys(snapshot.rates).length,
+        repriced,
+      });
+
+      return snapshot;
+    } catch (error) {
+      logger.error('Refresh exchange rates error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Recompute the euro price of listings priced in other currencies.
+   * Returns how many listings changed.
+   */
+  static async repriceProperties(rates: ExchangeRateTable): Promise<number> {
+    const properties = await prisma.property.findMany({
+      where: { currency: { not: BASE_CURRENCY } },
+      select: { id: true, price: true, currency: true, priceEur: true },
+    });
+
+    let repriced = 0;
+    for (const property of properties) {
+      const priceEur = toEuroPrice(property.price, property.currency, rates);
+      if (priceEur === property.priceEur) continue;
+
+      await prisma.$transaction(async (tx) => {
+        await tx.property.update({ where: { id: property.id }, data: { priceEur } });
+        await SearchIndexingService.recordPropertyChange(tx, property.id);
+      });
+      await CacheService.invalidateByTags([CacheTags.property(property.id)]);
+      repriced++;
+    }
+
+    if (repriced > 0) {
+      await CacheService.invalidateByTags([CacheTags.properties]);
+    }
+
+    return repriced;
+  }
+
+  /**
+   * Euro price for a listing, or null when its currency has no rate
+   */
+  static async getEuroPrice(price: number, currency: string = BASE_CURRENCY): Promise<number | null> {
+    if (currency === BASE_CURRENCY) return price;
+
+    try {
+      const { rates } = await this.getRates();
+      return toEuroPrice(price, currency, rates);
+    } catch (error) {
+      // The listing is still saved; the next refresh fills in its euro price
+      logger.warn(`No exchange rate for ${currency}, euro price left empty:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Start refreshing rates once a day in the background
+   */
+  static startRateRefresher(): void {
+    if (this.refreshJob.isStarted) return;
+
+    this.refreshJob.run();
+    this.refreshJob.start();
+  }
+
+  /**
+   * Stop the exchange rate refresher
+   */
+  static stopRateRefresher(): void {
+    this.refreshJob.stop();
+  }
+}
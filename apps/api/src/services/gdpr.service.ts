@@ -1,8 +1,10 @@
 import { prisma, redis } from '@eu-real-estate/database';
 import { AppError } from '../middleware/error-handler';
-import { handlePrismaError } from '@eu-real-estate/database';
+import { handlePrismaError, OutboxEventType } from '@eu-real-estate/database';
 import { logger } from '../utils/logger';
 import { EmailService } from './email.service';
+import { SearchIndexingService } from './search-indexing.service';
+import { CacheService, CacheTags } from './cache.service';
 import archiver from 'archiver';
 import fs from 'fs';
 import path from 'path';
@@ -255,6 +257,16 @@ export class GDPRService {
         where: { userId },
       });
 
+      userData.propertyViews = await prisma.propertyView.findMany({
+        where: { userId },
+        include: { property: { select: { id: true, title: true } } },
+      });
+
+      userData.propertyEvents = await prisma.propertyEvent.findMany({
+        where: { userId },
+        select: { propertyId: true, type: true, source: true, createdAt: true },
+      });
+
       userData.savedSearches = await prisma.savedSearch.findMany({
         where: { userId },
       });
@@ -494,7 +506,6 @@ export class GDPRService {
     try {
       const deletionRequest = await prisma.dataDeletionRequest.findUnique({
         where: { id: deletionRequestId },
-        include: { user: true },
       });
 
       if (!deletionRequest) {
@@ -518,6 +529,9 @@ export class GDPRService {
         await this.performFullDeletion(deletionRequest.userId);
       }
 
+      // Cached listings carry the owner's name, or were deleted with the account
+      await CacheService.invalidateByTags([CacheTags.owner(deletionRequest.userId), CacheTags.properties]);
+
       // Update deletion request status
       await prisma.dataDeletionRequest.update({
         where: { id: deletionRequestId },
@@ -564,6 +578,9 @@ export class GDPRService {
       await tx.propertyFavorite.deleteMany({ where: { userId } });
       await tx.savedSearch.deleteMany({ where: { userId } });
       await tx.searchLog.deleteMany({ where: { userId } });
+      await tx.propertyView.deleteMany({ where: { userId } });
+      // Listing analytics keep the events, without who caused them
+      await tx.propertyEvent.updateMany({ where: { userId }, data: { userId: null } });
       await tx.notification.deleteMany({ where: { userId } });
       
       // Keep transaction and property data for legal compliance
@@ -580,6 +597,9 @@ export class GDPRService {
       await tx.propertyFavorite.deleteMany({ where: { userId } });
       await tx.savedSearch.deleteMany({ where: { userId } });
       await tx.searchLog.deleteMany({ where: { userId } });
+      await tx.propertyView.deleteMany({ where: { userId } });
+      // Listing analytics keep the events, without who caused them
+      await tx.propertyEvent.updateMany({ where: { userId }, data: { userId: null } });
       await tx.notification.deleteMany({ where: { userId } });
       await tx.review.deleteMany({ where: { reviewerId: userId } });
       await tx.consentRecord.deleteMany({ where: { userId } });
@@ -602,9 +622,11 @@ export class GDPRService {
             where: { id: property.id },
             data: { ownerId: 'system' },
           });
+          await SearchIndexingService.recordPropertyChange(tx, property.id);
         } else {
           // Delete property and related data
           await tx.property.delete({ where: { id: property.id } });
+          await SearchIndexingService.recordPropertyChange(tx, property.id, OutboxEventType.PROPERTY_DELETED);
         }
       }
       
@@ -0,0 +1,114 @@
+import { prisma } from '@eu-real-estate/database';
+import {
+  GeoArea,
+  GeoAreaKind,
+  GeoShape,
+  parseGeoShape,
+  handlePrismaError,
+} from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+
+export interface GeoAreaFilters {
+  country?: string;
+  city?: string;
+  kind?: GeoAreaKind;
+}
+
+export interface GeoAreaFeature {
+  type: 'Feature';
+  id: string;
+  properties: {
+    slug: string;
+    name: string;
+    kind: GeoAreaKind;
+    country: string;
+    city: string | null;
+  };
+  geometry: GeoShape;
+}
+
+export interface GeoAreaCollection {
+  type: 'FeatureCollection';
+  features: GeoAreaFeature[];
+}
+
+/**
+ * Catalogue of stored area boundaries that searches can be limited to
+ */
+export class GeoAreaService {
+  /**
+   * List stored areas as a GeoJSON feature collection
+   */
+  static async listAreas(filters: GeoAreaFilters = {}): Promise<GeoAreaCollection> {
+    try {
+      const areas = await prisma.geoArea.findMany({
+        where: {
+          country: filters.country,
+          city: filters.city,
+          kind: filters.kind,
+        },
+        orderBy: [{ country: 'asc' }, { city: 'asc' }, { name: 'asc' }],
+      });
+
+      return {
+        type: 'FeatureCollection',
+        features: areas
+          .map(area => this.toFeature(area))
+          .filter((feature): feature is GeoAreaFeature => feature !== null),
+      };
+    } catch (error) {
+      logger.error('List geo areas error:', error);
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Get a single area as a GeoJSON feature
+   */
+  static async getArea(id: string): Promise<GeoAreaFeature> {
+    try {
+      const area = await prisma.geoArea.findUnique({ where: { id } });
+      const feature = area ? this.toFeature(area) : null;
+
+      if (!feature) {
+        throw new AppError('Area not found', 404, 'AREA_NOT_FOUND');
+      }
+
+      return feature;
+    } catch (error) {
+      logger.error('Get geo area error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Get the boundary to filter a search by
+   */
+  static async getAreaShape(id: string): Promise<GeoShape> {
+    return (await this.getArea(id)).geometry;
+  }
+
+  private static toFeature(area: GeoArea): GeoAreaFeature | null {
+    const geometry = parseGeoShape(area.boundary);
+
+    if (!geometry) {
+      logger.warn(`Geo area ${area.slug} has an invalid boundary and is skipped`);
+      return null;
+    }
+
+    return {
+      type: 'Feature',
+      id: area.id,
+      properties: {
+        slug: area.slug,
+        name: area.name,
+        kind: area.kind as GeoAreaKind,
+        country: area.country,
+        city: area.city,
+      },
+      geometry,
+    };
+  }
+}
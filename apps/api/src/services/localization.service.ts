@@ -1,4 +1,4 @@
-import { prisma, redis } from '@eu-real-estate/database';
+import { prisma, redis, convertCurrency, ExchangeRateTable } from '@eu-real-estate/database';
 import { AppError } from '../middleware/error-handler';
 import { handlePrismaError } from '@eu-real-estate/database';
 import { logger } from '../utils/logger';
@@ -12,6 +12,14 @@ export interface LocalizationConfig {
   numberFormatByCountry: Record<string, Intl.NumberFormatOptions>;
 }
 
+export interface CurrencyFormatOptions {
+  // Currency to display in, instead of the country's
+  currency?: string;
+  // Currency the amount is in, when it needs converting
+  from?: string;
+  rates?: ExchangeRateTable;
+}
+
 export interface TranslationEntry {
   key: string;
   language: string;
@@ -84,8 +92,8 @@ export class LocalizationService {
       'LT': { locale: 'lt-LT' }
     }
   };
-}  /**
 
+  /**
    * Get localization configuration
    */
   static getConfig(): LocalizationConfig {
@@ -142,23 +150,35 @@ export class LocalizationService {
   }
 
   /**
-   * Format currency for country
+   * Format currency for country. When the amount is in another currency it
+   * is converted and the original amount follows in brackets.
    */
   static formatCurrency(
     amount: number,
     country: string,
-    language?: string
+    language?: string,
+    options: CurrencyFormatOptions = {}
   ): string {
-    const currency = this.CONFIG.currencyByCountry[country] || 'EUR';
+    const currency = options.currency || this.CONFIG.currencyByCountry[country] || 'EUR';
     const locale = language || this.detectLanguage(undefined, undefined, country);
     const numberFormat = this.CONFIG.numberFormatByCountry[country];
-    
-    return new Intl.NumberFormat(numberFormat?.locale || `${locale}-${country}`, {
+
+    const format = (value: number, code: string) => new Intl.NumberFormat(numberFormat?.locale || `${locale}-${country}`, {
       style: 'currency',
-      currency,
+      currency: code,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
-    }).format(amount);
+    }).format(value);
+
+    if (!options.from || options.from === currency) {
+      return format(amount, currency);
+    }
+
+    // Without a rate the original amount is all that can be shown
+    const converted = options.rates ? convertCurrency(amount, options.from, currency, options.rates) : null;
+    return converted === null
+      ? format(amount, options.from)
+      : `${format(converted, currency)} (${format(amount, options.from)})`;
   }
 
   /**
@@ -578,7 +598,8 @@ The security deposit amounts to {{deposit}} EUR.`
 
       const language = user.preferences?.language || this.CONFIG.defaultLanguage;
       const country = user.profile?.country || 'DE';
-      const currency = this.CONFIG.currencyByCountry[country] || 'EUR';
+      // Prices are shown in the currency the user picked
+      const currency = user.currency || this.CONFIG.currencyByCountry[country] || 'EUR';
       const dateFormat = this.CONFIG.dateFormatByCountry[country] || 'dd.MM.yyyy';
       const numberFormat = this.CONFIG.numberFormatByCountry[country] || { locale: 'en-US' };
 
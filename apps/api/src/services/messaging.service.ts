@@ -1,9 +1,13 @@
-import { prisma, redis } from '@eu-real-estate/database';
+import { prisma, redis, UserRole } from '@eu-real-estate/database';
 import { AppError } from '../middleware/error-handler';
 import { handlePrismaError, createPaginationParams, createPaginatedResult } from '@eu-real-estate/database';
 import { logger } from '../utils/logger';
-import { Server as SocketIOServer } from 'socket.io';
+import { TokenService } from './token.service';
+import { PresenceService, PresenceStore } from './presence.service';
+import { createRedisSocketAdapter, PubSubStore } from '../utils/redis-socket-adapter';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
+import jwt from 'jsonwebtoken';
 
 export interface MessageData {
   senderId: string;
@@ -53,37 +57,99 @@ export interface ConversationSummary {
   };
 }
 
+export interface SocketUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+export type SocketAck = (response: { success: boolean; error?: { code: string; message: string } }) => void;
+
+// Redis features the realtime gateway relies on; tests swap in a stand-in
+export type RealtimeStore = PubSubStore & PresenceStore;
+
+export interface SocketServer {
+  io: SocketIOServer;
+  presence: PresenceService;
+}
+
+// Error passed to a socket.io middleware; the client receives `data` on connect_error
+interface SocketAuthError extends Error {
+  data?: { code: string };
+}
+
 export class MessagingService {
   private static io: SocketIOServer | null = null;
-  private static connectedUsers = new Map<string, string>(); // userId -> socketId
+  private static presence: PresenceService | null = null;
 
   /**
    * Initialize WebSocket server
    */
-  static initializeWebSocket(server: HTTPServer): void {
-    this.io = new SocketIOServer(server, {
+  static initializeWebSocket(server: HTTPServer, store: RealtimeStore = redis): void {
+    const { io, presence } = this.createSocketServer(server, store);
+
+    this.io = io;
+    this.presence = presence;
+  }
+
+  /**
+   * Attach a Socket.IO server that shares rooms and presence with the other
+   * API replicas through the store
+   */
+  static createSocketServer(server: HTTPServer, store: RealtimeStore = redis): SocketServer {
+    const io = new SocketIOServer(server, {
       cors: {
         origin: process.env.FRONTEND_URL || 'http://localhost:3000',
         methods: ['GET', 'POST'],
         credentials: true,
       },
+      adapter: createRedisSocketAdapter(store),
     });
 
-    this.io.on('connection', (socket) => {
-      logger.info(`Socket connected: ${socket.id}`);
+    const presence = new PresenceService(store);
+    presence.start();
+    server.on('close', () => {
+      presence.stop().catch(error => logger.error('Presence shutdown error:', error));
+    });
 
-      // Handle user authentication
-      socket.on('authenticate', (data: { userId: string, token: string }) => {
-        // TODO: Verify JWT token
-        this.connectedUsers.set(data.userId, socket.id);
-        socket.join(`user:${data.userId}`);
-        logger.info(`User ${data.userId} authenticated and joined room`);
-      });
+    io.use((socket, next) => {
+      this.authenticateSocket(socket)
+        .then(() => next())
+        .catch(error => next(error));
+    });
+
+    io.on('connection', (socket) => {
+      const user = socket.data.user as SocketUser;
+
+      presence.connect(user.id, socket.id)
+        .catch(error => logger.error('Presence connect error:', error));
+      socket.join(`user:${user.id}`);
+      logger.info(`Socket connected: ${socket.id}`, { userId: user.id });
 
       // Handle joining transaction rooms
-      socket.on('join_transaction', (transactionId: string) => {
-        socket.join(`transaction:${transactionId}`);
-        logger.info(`Socket ${socket.id} joined transaction room: ${transactionId}`);
+      socket.on('join_transaction', async (transactionId: string, ack?: SocketAck) => {
+        try {
+          const canJoin = await this.canJoinTransaction(user.id, transactionId);
+
+          if (!canJoin) {
+            logger.warn(`User ${user.id} denied access to transaction room: ${transactionId}`);
+            ack?.({
+              success: false,
+              error: { code: 'ACCESS_DENIED', message: 'Not a party to this transaction' },
+            });
+            return;
+          }
+
+          socket.join(`transaction:${transactionId}`);
+          logger.info(`Socket ${socket.id} joined transaction room: ${transactionId}`);
+          ack?.({ success: true });
+        } catch (error) {
+          logger.error('Join transaction room error:', error);
+          ack?.({
+            success: false,
+            error: { code: 'JOIN_FAILED', message: 'Could not join transaction room' },
+          });
+        }
       });
 
       // Handle leaving transaction rooms
@@ -93,43 +159,96 @@ export class MessagingService {
       });
 
       // Handle typing indicators
-      socket.on('typing_start', (data: { transactionId?: string, recipientId?: string }) => {
+      const emitTyping = (data: { transactionId?: string, recipientId?: string }, isTyping: boolean) => {
         if (data.transactionId) {
-          socket.to(`transaction:${data.transactionId}`).emit('user_typing', {
-            userId: this.getUserIdBySocketId(socket.id),
-            isTyping: true,
-          });
-        } else if (data.recipientId) {
-          socket.to(`user:${data.recipientId}`).emit('user_typing', {
-            userId: this.getUserIdBySocketId(socket.id),
-            isTyping: true,
-          });
-        }
-      });
+          // Only members of the room may signal typing in it
+          if (!socket.rooms.has(`transaction:${data.transactionId}`)) return;
 
-      socket.on('typing_stop', (data: { transactionId?: string, recipientId?: string }) => {
-        if (data.transactionId) {
           socket.to(`transaction:${data.transactionId}`).emit('user_typing', {
-            userId: this.getUserIdBySocketId(socket.id),
-            isTyping: false,
+            userId: user.id,
+            isTyping,
           });
         } else if (data.recipientId) {
           socket.to(`user:${data.recipientId}`).emit('user_typing', {
-            userId: this.getUserIdBySocketId(socket.id),
-            isTyping: false,
+            userId: user.id,
+            isTyping,
           });
         }
-      });
+      };
+
+      socket.on('typing_start', (data: { transactionId?: string, recipientId?: string }) => emitTyping(data, true));
+      socket.on('typing_stop', (data: { transactionId?: string, recipientId?: string }) => emitTyping(data, false));
 
       // Handle disconnect
       socket.on('disconnect', () => {
-        const userId = this.getUserIdBySocketId(socket.id);
-        if (userId) {
-          this.connectedUsers.delete(userId);
-        }
-        logger.info(`Socket disconnected: ${socket.id}`);
+        presence.disconnect(user.id, socket.id)
+          .catch(error => logger.error('Presence disconnect error:', error));
+        logger.info(`Socket disconnected: ${socket.id}`, { userId: user.id });
       });
     });
+
+    return { io, presence };
+  }
+
+  /**
+   * Verify the handshake token and attach the user to the socket.
+   * The token comes from `auth.token` or a Bearer Authorization header.
+   */
+  static async authenticateSocket(socket: Pick<Socket, 'handshake' | 'data'>): Promise<SocketUser> {
+    const authHeader = socket.handshake.headers?.authorization;
+    const token = socket.handshake.auth?.['token'] ||
+      (authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined);
+
+    const fail = (message: string, code: string): SocketAuthError => {
+      const error: SocketAuthError = new Error(message);
+      error.data = { code };
+      return error;
+    };
+
+    if (!token) {
+      throw fail('Authentication token required', 'MISSING_TOKEN');
+    }
+
+    let decoded;
+    try {
+      decoded = await TokenService.verifyToken(token);
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw fail('Authentication token has expired', 'TOKEN_EXPIRED');
+      }
+      throw fail('Invalid authentication token', 'INVALID_TOKEN');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.userId },
+      select: { id: true, email: true, role: true, isActive: true },
+    });
+
+    if (!user || !user.isActive) {
+      throw fail('User not found or inactive', 'USER_NOT_FOUND');
+    }
+
+    const socketUser: SocketUser = { id: user.id, email: user.email, role: user.role as UserRole };
+    socket.data.user = socketUser;
+
+    return socketUser;
+  }
+
+  /**
+   * Whether the user is the buyer, seller or agent on a transaction
+   */
+  static async canJoinTransaction(userId: string, transactionId: string): Promise<boolean> {
+    if (typeof transactionId !== 'string' || !transactionId) return false;
+
+    const transaction = await prisma.transaction.findFirst({
+      where: {
+        id: transactionId,
+        OR: [{ buyerId: userId }, { sellerId: userId }, { agentId: userId }],
+      },
+      select: { id: true },
+    });
+
+    return !!transaction;
   }
 
   /**
@@ -571,17 +690,27 @@ export class MessagingService {
   }
 
   /**
-   * Get online users
+   * Get online users across all API replicas
    */
-  static getOnlineUsers(): string[] {
-    return Array.from(this.connectedUsers.keys());
+  static async getOnlineUsers(): Promise<string[]> {
+    return this.getPresence().getOnlineUsers();
   }
 
   /**
-   * Check if user is online
+   * Check if user is online on any API replica
    */
-  static isUserOnline(userId: string): boolean {
-    return this.connectedUsers.has(userId);
+  static async isUserOnline(userId: string): Promise<boolean> {
+    return this.getPresence().isUserOnline(userId);
+  }
+
+  /**
+   * Presence of the running gateway, or a reader for processes without one
+   */
+  private static getPresence(): PresenceService {
+    if (!this.presence) {
+      this.presence = new PresenceService();
+    }
+    return this.presence;
   }
 
   /**
@@ -611,18 +740,6 @@ export class MessagingService {
     }
   }
 
-  /**
-   * Get user ID by socket ID
-   */
-  private static getUserIdBySocketId(socketId: string): string | undefined {
-    for (const [userId, userSocketId] of this.connectedUsers.entries()) {
-      if (userSocketId === socketId) {
-        return userId;
-      }
-    }
-    return undefined;
-  }
-
   /**
    * Send system message
    */
@@ -0,0 +1,228 @@
+import { DocumentStatus, DocumentType, PropertyType, TransactionType } from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import {
+  milestoneTemplates,
+  DEFAULT_TEMPLATE_COUNTRY,
+  MilestoneTemplate,
+  MilestoneTemplateStep,
+} from '../config/milestone-templates.config';
+
+export interface ResolvedMilestoneTemplate {
+  id: string;
+  version: number;
+  country: string;
+  steps: MilestoneTemplateStep[];
+}
+
+export interface TemplateMilestoneData {
+  key: string;
+  title: string;
+  description?: string;
+  order: number;
+  isRequired: boolean;
+  dependsOn: string | null;
+  dueOffsetDays: number | null;
+  requiredDocuments: string | null;
+}
+
+export interface MilestoneState {
+  key?: string | null;
+  title: string;
+  isRequired: boolean;
+  completedAt?: Date | string | null;
+  dependsOn?: string | null;
+  requiredDocuments?: string | null;
+}
+
+export interface DocumentSlot {
+  type: DocumentType;
+  fulfilled: boolean;
+}
+
+// Documents in these states no longer fill a slot
+const UNUSABLE_DOCUMENT_STATUSES: string[] = [DocumentStatus.REJECTED, DocumentStatus.EXPIRED];
+
+export class MilestoneTemplateService {
+  /**
+   * Pick the most specific template for a country, transaction type and property type.
+   * A country match beats the '*' fallback, and a property type match breaks ties.
+   */
+  static resolve(
+    country: string | null | undefined,
+    type: TransactionType,
+    propertyType?: PropertyType | string | null,
+    templates: MilestoneTemplate[] = milestoneTemplates
+  ): ResolvedMilestoneTemplate {
+    const countryCode = country?.toUpperCase();
+
+    const candidates = templates
+      .filter(template => template.transactionTypes.includes(type))
+      .filter(template => template.country === DEFAULT_TEMPLATE_COUNTRY || template.country === countryCode)
+      .filter(template => !template.propertyTypes || template.propertyTypes.includes(propertyType as PropertyType))
+      .map(template => ({
+        template,
+        score: (template.country === countryCode ? 2 : 0) + (template.propertyTypes ? 1 : 0),
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    if (candidates.length === 0) {
+      throw new AppError(`No milestone template for ${type} transactions`, 500, 'MILESTONE_TEMPLATE_NOT_FOUND');
+    }
+
+    const { template } = candidates[0];
+
+    const steps = template.steps.filter(
+      step => !step.propertyTypes || step.propertyTypes.includes(propertyType as PropertyType)
+    );
+    const keys = new Set(steps.map(step => step.key));
+
+    return {
+      id: template.id,
+      version: template.version,
+      country: template.country,
+      // Drop dependencies on steps that were filtered out for this property type
+      steps: steps.map(step => ({
+        ...step,
+        dependsOn: step.dependsOn?.filter(key => keys.has(key)),
+      })),
+    };
+  }
+
+  /**
+   * Turn a resolved template into milestone rows
+   */
+  static toMilestones(template: ResolvedMilestoneTemplate): TemplateMilestoneData[] {
+    return template.steps.map((step, index) => ({
+      key: step.key,
+      title: step.title,
+      description: step.description,
+      order: index + 1,
+      isRequired: step.isRequired,
+      dependsOn: step.dependsOn?.length ? JSON.stringify(step.dependsOn) : null,
+      dueOffsetDays: step.dueOffsetDays ?? null,
+      requiredDocuments: step.requiredDocuments?.length ? JSON.stringify(step.requiredDocuments) : null,
+    }));
+  }
+
+  /**
+   * Check a template for duplicate keys, unknown dependencies, cycles and bad offsets
+   */
+  static validate(template: MilestoneTemplate): string[] {
+    const errors: string[] = [];
+    const steps = new Map<string, MilestoneTemplateStep>();
+    const documentTypes = Object.values(DocumentType) as string[];
+
+    for (const step of template.steps) {
+      if (steps.has(step.key)) {
+        errors.push(`Duplicate step key "${step.key}"`);
+      }
+      steps.set(step.key, step);
+    }
+
+    for (const step of template.steps) {
+      for (const dependency of step.dependsOn || []) {
+        if (!steps.has(dependency)) {
+          errors.push(`Step "${step.key}" depends on unknown step "${dependency}"`);
+        }
+      }
+
+      if (step.dueOffsetDays !== undefined && (!Number.isInteger(step.dueOffsetDays) || step.dueOffsetDays < 0)) {
+        errors.push(`Step "${step.key}" has an invalid due offset`);
+      }
+
+      for (const documentType of step.requiredDocuments || []) {
+        if (!documentTypes.includes(documentType)) {
+          errors.push(`Step "${step.key}" requires unknown document type "${documentType}"`);
+        }
+      }
+    }
+
+    // Depth-first search for dependency cycles
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const visit = (key: string): boolean => {
+      if (visiting.has(key)) return true;
+      if (visited.has(key)) return false;
+
+      visiting.add(key);
+      const hasCycle = (steps.get(key)?.dependsOn || []).some(dependency => steps.has(dependency) && visit(dependency));
+      visiting.delete(key);
+      visited.add(key);
+
+      return hasCycle;
+    };
+
+    for (const key of steps.keys()) {
+      if (visit(key)) {
+        errors.push(`Step "${key}" is part of a dependency cycle`);
+        break;
+      }
+    }
+
+    return errors.map(error => `${template.id}@${template.version}: ${error}`);
+  }
+
+  /**
+   * Validate every registered template
+   */
+  static validateRegistry(templates: MilestoneTemplate[] = milestoneTemplates): string[] {
+    const errors = templates.flatMap(template => this.validate(template));
+
+    const ids = templates.map(template => `${template.id}@${template.version}`);
+    ids
+      .filter((id, index) => ids.indexOf(id) !== index)
+      .forEach(id => errors.push(`${id}: Duplicate template id`));
+
+    return errors;
+  }
+
+  /**
+   * Required milestones that must be completed before this one
+   */
+  static getBlockingMilestones<T extends MilestoneState>(milestone: MilestoneState, milestones: T[]): T[] {
+    const dependsOn = this.parseList(milestone.dependsOn);
+
+    // Optional steps never hold up the ones that follow them
+    return milestones.filter(
+      other => other.key && dependsOn.includes(other.key) && other.isRequired && !other.completedAt
+    );
+  }
+
+  /**
+   * Document slots of a milestone and whether an uploaded document fills them
+   */
+  static getDocumentSlots(
+    milestone: MilestoneState,
+    documents: Array<{ type: string; status: string }>
+  ): DocumentSlot[] {
+    return this.parseList(milestone.requiredDocuments).map(type => ({
+      type: type as DocumentType,
+      fulfilled: documents.some(
+        document => document.type === type && !UNUSABLE_DOCUMENT_STATUSES.includes(document.status)
+      ),
+    }));
+  }
+
+  /**
+   * Due date for a milestone given the acceptance date
+   */
+  static getDueDate(acceptedAt: Date, dueOffsetDays: number): Date {
+    const dueDate = new Date(acceptedAt);
+    dueDate.setUTCDate(dueDate.getUTCDate() + dueOffsetDays);
+    return dueDate;
+  }
+
+  /**
+   * Parse a JSON array column, treating unreadable values as empty
+   */
+  static parseList(value?: string | null): string[] {
+    if (!value) return [];
+
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -1,9 +1,10 @@
 import { prisma, redis } from '@eu-real-estate/database';
-import { NotificationType, NotificationStatus } from '@eu-real-estate/database';
+import { NotificationType, NotificationStatus, SavedSearchFrequency, SavedSearch } from '@eu-real-estate/database';
 import { AppError } from '../middleware/error-handler';
 import { handlePrismaError } from '@eu-real-estate/database';
 import { logger } from '../utils/logger';
-import { EmailService } from './email.service';
+import { EmailService, EmailAttachment } from './email.service';
+import { SavedSearchMatcher, MatchableProperty } from '../utils/saved-search-matcher';
 
 export interface NotificationData {
   userId: string;
@@ -14,6 +15,8 @@ export interface NotificationData {
   priority?: 'low' | 'normal' | 'high' | 'urgent';
   scheduledFor?: Date;
   expiresAt?: Date;
+  // Sent with email notifications only, e.g. a calendar file; not stored with the notification
+  attachments?: EmailAttachment[];
 }
 
 export interface NotificationTemplate {
@@ -271,6 +274,10 @@ export class NotificationService {
         where: { id: propertyId },
         include: {
           address: true,
+          location: true,
+          features: true,
+          amenities: true,
+          tags: { include: { tag: true } },
           owner: true,
         },
       });
@@ -283,9 +290,14 @@ export class NotificationService {
 
       switch (type) {
         case 'new_listing':
-          // Notify users with saved searches that match this property
+          // Notify users with instant saved search alerts that match this property;
+          // daily and weekly searches pick it up in their next digest
           const matchingSearches = await this.findMatchingSavedSearches(property);
-          userIds = matchingSearches.map(search => search.userId);
+          userIds = [...new Set(matchingSearches.map(search => search.userId))];
+          await prisma.savedSearch.updateMany({
+            where: { id: { in: matchingSearches.map(search => search.id) } },
+            data: { lastNotifiedAt: new Date() },
+          });
           title = 'New Property Match';
           content = `A new property matching your saved search is available: ${property.title}`;
           break;
@@ -332,7 +344,7 @@ export class NotificationService {
    */
   static async sendTransactionNotification(
     transactionId: string,
-    type: 'new_offer' | 'offer_response' | 'status_change' | 'milestone_completed' | 'document_uploaded',
+    type: 'new_offer' | 'offer_response' | 'offer_expired' | 'status_change' | 'milestone_completed' | 'document_uploaded',
     recipientIds: string[],
     data: Record<string, any> = {}
   ): Promise<void> {
@@ -358,6 +370,10 @@ export class NotificationService {
           title = 'Offer Response';
           content = `Your offer for "${transaction.property.title}" has been responded to`;
           break;
+        case 'offer_expired':
+          title = 'Offer Expired';
+          content = `An offer for "${transaction.property.title}" expired without a response`;
+          break;
         case 'status_change':
           title = 'Transaction Update';
           content = `The status of your transaction for "${transaction.property.title}" has changed`;
@@ -399,7 +415,7 @@ export class NotificationService {
       switch (notificationData.type) {
         case NotificationType.EMAIL:
           if (user.preferences?.emailNotifications) {
-            results.email = await this.sendEmailNotification(user, notification);
+            results.email = await this.sendEmailNotification(user, notification, notificationData.attachments);
             overallSuccess = results.email.success;
           }
           break;
@@ -435,7 +451,7 @@ export class NotificationService {
   /**
    * Send email notification
    */
-  private static async sendEmailNotification(user: any, notification: any): Promise<any> {
+  private static async sendEmailNotification(user: any, notification: any, attachments?: EmailAttachment[]): Promise<any> {
     try {
       await EmailService.sendEmail({
         to: user.email,
@@ -446,6 +462,7 @@ export class NotificationService {
           <hr>
           <p><small>This is an automated notification from EU Real Estate Portal.</small></p>
         `,
+        attachments,
       });
 
       return { success: true };
@@ -488,48 +505,22 @@ export class NotificationService {
   }
 
   /**
-   * Find saved searches that match a property
+   * Find active instant-alert saved searches that match a property
    */
-  private static async findMatchingSavedSearches(property: any): Promise<any[]> {
+  private static async findMatchingSavedSearches(property: MatchableProperty & { ownerId: string }): Promise<SavedSearch[]> {
     try {
       const savedSearches = await prisma.savedSearch.findMany({
-        where: { isActive: true },
+        where: {
+          isActive: true,
+          frequency: SavedSearchFrequency.INSTANT,
+          userId: { not: property.ownerId },
+          ...SavedSearchMatcher.buildAlertFilter(property),
+        },
       });
 
-      const matchingSearches = [];
-
-      for (const search of savedSearches) {
-        const criteria = JSON.parse(search.criteria);
-        
-        // Simple matching logic - can be enhanced
-        let matches = true;
-        
-        if (criteria.propertyType && criteria.propertyType !== property.propertyType) {
-          matches = false;
-        }
-        
-        if (criteria.listingType && criteria.listingType !== property.listingType) {
-          matches = false;
-        }
-        
-        if (criteria.minPrice && property.price < criteria.minPrice) {
-          matches = false;
-        }
-        
-        if (criteria.maxPrice && property.price > criteria.maxPrice) {
-          matches = false;
-        }
-        
-        if (criteria.city && property.address?.city !== criteria.city) {
-          matches = false;
-        }
-        
-        if (matches) {
-          matchingSearches.push(search);
-        }
-      }
-
-      return matchingSearches;
+      return savedSearches.filter(search =>
+        SavedSearchMatcher.matches(property, SavedSearchMatcher.normalizeCriteria(search.criteria))
+      );
     } catch (error) {
       logger.error('Find matching saved searches error:', error);
       return [];
@@ -0,0 +1,118 @@
+import { redis } from '@eu-real-estate/database';
+import { IntervalJob } from '../utils/interval-job';
+
+export type PresenceStore = Pick<typeof redis, 'zAdd' | 'zRem' | 'zRangeByScore' | 'zRemRangeByScore' | 'expire'>;
+
+export interface PresenceOptions {
+  // How long a socket counts as connected without a heartbeat, in ms
+  ttl?: number;
+  heartbeatInterval?: number;
+}
+
+/**
+ * Cluster-wide presence kept in Redis sorted sets scored by expiry time.
+ *
+ * Every API replica refreshes the sockets it holds on each heartbeat, so a
+ * replica that dies stops refreshing and its users drop off once the TTL passes.
+ */
+export class PresenceService {
+  private static readonly ONLINE_KEY = 'presence:online';
+  private static readonly USER_KEY_PREFIX = 'presence:user:';
+
+  private readonly ttl: number;
+  private readonly sockets = new Map<string, string>(); // socketId -> userId, for this replica only
+  private readonly heartbeatJob: IntervalJob;
+
+  constructor(private readonly store: PresenceStore = redis, options: PresenceOptions = {}) {
+    this.ttl = options.ttl ?? 60 * 1000;
+    this.heartbeatJob = new IntervalJob(
+      'Presence heartbeat',
+      options.heartbeatInterval ?? 20 * 1000,
+      () => this.heartbeat()
+    );
+  }
+
+  /**
+   * Start refreshing this replica's sockets
+   */
+  start(): void {
+    this.heartbeatJob.start();
+  }
+
+  /**
+   * Stop the heartbeat and remove this replica's sockets
+   */
+  async stop(): Promise<void> {
+    this.heartbeatJob.stop();
+
+    const sockets = Array.from(this.sockets.entries());
+    await Promise.all(sockets.map(([socketId, userId]) => this.disconnect(userId, socketId)));
+  }
+
+  /**
+   * Register a connected socket
+   */
+  async connect(userId: string, socketId: string): Promise<void> {
+    this.sockets.set(socketId, userId);
+    await this.touch(userId, socketId, Date.now() + this.ttl);
+  }
+
+  /**
+   * Remove a socket; the user goes offline when no replica holds a live socket for them.
+   * A socket opened elsewhere at the same moment shows up again on that replica's next heartbeat.
+   */
+  async disconnect(userId: string, socketId: string): Promise<void> {
+    this.sockets.delete(socketId);
+    await this.store.zRem(this.getUserKey(userId), socketId);
+
+    const remaining = await this.store.zRangeByScore(this.getUserKey(userId), Date.now(), '+inf');
+    if (remaining.length === 0) {
+      await this.store.zRem(PresenceService.ONLINE_KEY, userId);
+    }
+  }
+
+  /**
+   * Extend the expiry of every socket on this replica and prune expired users
+   */
+  async heartbeat(): Promise<void> {
+    const now = Date.now();
+    const expiresAt = now + this.ttl;
+
+    await Promise.all(
+      Array.from(this.sockets.entries()).map(([socketId, userId]) => this.touch(userId, socketId, expiresAt))
+    );
+
+    await this.store.zRemRangeByScore(PresenceService.ONLINE_KEY, '-inf', now);
+  }
+
+  /**
+   * Whether the user has a live socket on any replica
+   */
+  async isUserOnline(userId: string): Promise<boolean> {
+    const sockets = await this.store.zRangeByScore(this.getUserKey(userId), Date.now(), '+inf');
+    return sockets.length > 0;
+  }
+
+  /**
+   * Users with a live socket on any replica
+   */
+  async getOnlineUsers(): Promise<string[]> {
+    return this.store.zRangeByScore(PresenceService.ONLINE_KEY, Date.now(), '+inf');
+  }
+
+  private async touch(userId: string, socketId: string, expiresAt: number): Promise<void> {
+    const userKey = this.getUserKey(userId);
+
+    await Promise.all([
+      this.store.zAdd(userKey, expiresAt, socketId),
+      this.store.zAdd(PresenceService.ONLINE_KEY, expiresAt, userId),
+    ]);
+    // Drop sockets of replicas that went away, and the key once the user is gone
+    await this.store.zRemRangeByScore(userKey, '-inf', Date.now());
+    await this.store.expire(userKey, Math.ceil(this.ttl / 1000));
+  }
+
+  private getUserKey(userId: string): string {
+    return `${PresenceService.USER_KEY_PREFIX}${userId}`;
+  }
+}
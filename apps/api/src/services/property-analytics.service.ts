@@ -0,0 +1,425 @@
+import crypto from 'crypto';
+import { prisma, Prisma } from '@eu-real-estate/database';
+import { PropertyEventType, PropertyStatus, UserRole, handlePrismaError } from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { IntervalJob } from '../utils/interval-job';
+
+/**
+ * Who caused an event and where. Anonymous visitors are told apart by a
+ * session id instead of a user.
+ */
+export interface PropertyEventContext {
+  userId?: string;
+  sessionId?: string;
+  source?: string;
+}
+
+export interface PropertyAnalyticsOptions {
+  days: number;
+}
+
+export type PropertyEventCounts = Record<PropertyEventType, number>;
+
+export interface PropertyAnalyticsDay {
+  date: string;
+  counts: PropertyEventCounts;
+  // Distinct users or sessions that opened the listing that day
+  viewers: number;
+}
+
+export interface PropertyAnalyticsReport {
+  propertyId: string;
+  period: { from: string; to: string; days: number };
+  totals: PropertyEventCounts;
+  timeSeries: PropertyAnalyticsDay[];
+  conversion: {
+    searchToView: number | null;
+    viewToContact: number | null;
+  };
+  comparison: {
+    city: string | null;
+    propertyType: string;
+    comparableListings: number;
+    average: PropertyEventCounts;
+    averageSearchToView: number | null;
+    // Share of comparable listings with fewer views, 0-100
+    viewsPercentile: number | null;
+  };
+  lifetime: {
+    viewCount: number;
+    favoritesCount: number;
+    daysSinceListing: number;
+  };
+}
+
+// Events of one type for a listing on one day
+interface PropertyEventRollup {
+  propertyId: string;
+  type: string;
+  count: number;
+  visitors: number;
+}
+
+const EVENT_TYPES = Object.values(PropertyEventType);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Listing events (search impressions, detail views, gallery opens, shares,
+ * contacts, favourites) and the owner's performance report built from them.
+ *
+ * Events are stored one row each and rolled up into per-day counts; raw rows
+ * older than the retention period are pruned once rolled up. Recording is
+ * best-effort: a failed write is logged and never fails the request.
+ */
+export class PropertyAnalyticsService {
+  private static readonly ROLLUP_INTERVAL = 15 * 60 * 1000;
+  private static readonly RAW_EVENT_RETENTION_DAYS = 90;
+  private static readonly rollupJob = new IntervalJob(
+    'Property event rollup job',
+    this.ROLLUP_INTERVAL,
+    async () => {
+      const now = new Date();
+      // Yesterday is recounted too, for events that arrived around midnight
+      await this.rollupDay(new Date(now.getTime() - DAY_MS));
+      await this.rollupDay(now);
+      await this.pruneEvents(now);
+    }
+  );
+
+  /**
+   * Event context for a request: the signed-in user, or a session derived
+   * from the client's address and user agent
+   */
+  static contextFor(req: AuthenticatedRequest, source?: string): PropertyEventContext {
+    const userId = req.user?.id;
+    if (userId) {
+      return { userId, source };
+    }
+
+    const fingerprint = `${req.ip || 'unknown'}|${req.get('User-Agent') || ''}`;
+    const sessionId = crypto.createHash('sha256').update(fingerprint).digest('hex').slice(0, 32);
+    return { sessionId, source };
+  }
+
+  /**
+   * Record one event for a listing
+   */
+  static async record(propertyId: string, type: PropertyEventType, context: PropertyEventContext = {}): Promise<void> {
+    try {
+      await prisma.propertyEvent.create({
+        data: {
+          propertyId,
+          type,
+          userId: context.userId,
+          sessionId: context.userId ? null : context.sessionId,
+          source: context.source,
+        },
+      });
+    } catch (error) {
+      logger.error('Record property event error:', error);
+    }
+  }
+
+  /**
+   * Record an event the client reported, once the listing is known to exist
+   */
+  static async track(propertyId: string, type: PropertyEventType, context: PropertyEventContext = {}): Promise<void> {
+    try {
+      const property = await prisma.property.findUnique({
+        where: { id: propertyId },
+        select: { id: true },
+      });
+
+      if (!property) {
+        throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+
+    await this.record(propertyId, type, context);
+  }
+
+  /**
+   * Record that listings were shown in a result list
+   */
+  static async recordImpressions(propertyIds: string[], context: PropertyEventContext = {}): Promise<void> {
+    if (propertyIds.length === 0) return;
+
+    try {
+      await prisma.propertyEvent.createMany({
+        data: propertyIds.map(propertyId => ({
+          propertyId,
+          type: PropertyEventType.IMPRESSION,
+          userId: context.userId,
+          sessionId: context.userId ? null : context.sessionId,
+          source: context.source,
+        })),
+      });
+    } catch (error) {
+      logger.error('Record property impressions error:', error);
+    }
+  }
+
+  /**
+   * Recount the events of one UTC day into the daily rollups, for every
+   * listing or only the given ones. Safe to run again for the same day.
+   * Returns how many rollup rows were written.
+   */
+  static async rollupDay(day: Date, propertyIds?: string[]): Promise<number> {
+    const date = this.startOfDay(day);
+
+    try {
+      const rollups = await this.countEvents(date, propertyIds ? { propertyId: { in: propertyIds } } : {});
+
+      await prisma.$transaction(
+        rollups.map(rollup =>
+          prisma.propertyEventDaily.upsert({
+            where: { propertyId_date_type: { propertyId: rollup.propertyId, date, type: rollup.type } },
+            create: { ...rollup, date },
+            update: { count: rollup.count, visitors: rollup.visitors },
+          })
+        )
+      );
+
+      return rollups.length;
+    } catch (error) {
+      logger.error('Property event rollup error:', error);
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Count the events of one UTC day per listing and type, without writing
+   * anything. Grouped by visitor in the database, so only one row per
+   * visitor is loaded rather than every event.
+   */
+  private static async countEvents(date: Date, where: Prisma.PropertyEventWhereInput): Promise<PropertyEventRollup[]> {
+    const groups = await prisma.propertyEvent.groupBy({
+      by: ['propertyId', 'type', 'userId', 'sessionId'],
+      where: { ...where, createdAt: { gte: date, lt: new Date(date.getTime() + DAY_MS) } },
+      _count: { _all: true },
+    });
+
+    const rollups = new Map<string, PropertyEventRollup>();
+    for (const group of groups) {
+      const key = `${group.propertyId}:${group.type}`;
+      let rollup = rollups.get(key);
+      if (!rollup) {
+        rollup = { propertyId: group.propertyId, type: group.type, count: 0, visitors: 0 };
+        rollups.set(key, rollup);
+      }
+      rollup.count += group._count._all;
+      if (group.userId || group.sessionId) rollup.visitors++;
+    }
+
+    return [...rollups.values()];
+  }
+
+  /**
+   * Delete raw events past the retention period; their days are already rolled up
+   */
+  static async pruneEvents(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(this.startOfDay(now).getTime() - this.RAW_EVENT_RETENTION_DAYS * DAY_MS);
+
+    try {
+      const { count } = await prisma.propertyEvent.deleteMany({
+        where: { createdAt: { lt: cutoff } },
+      });
+      return count;
+    } catch (error) {
+      logger.error('Prune property events error:', error);
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Start the background job that keeps the last two days rolled up
+   */
+  static startRollupJob(): void {
+    this.rollupJob.start();
+  }
+
+  /**
+   * Stop the rollup job
+   */
+  static stopRollupJob(): void {
+    this.rollupJob.stop();
+  }
+
+  /**
+   * Performance report for a listing over the last `days` days, including
+   * today: daily series, search-to-view conversion and how it compares with
+   * active listings of the same type in the same city. Owner or admin only.
+   */
+  static async getReport(
+    propertyId: string,
+    requester: { id: string; role: string },
+    options: PropertyAnalyticsOptions
+  ): Promise<PropertyAnalyticsReport> {
+    try {
+      const property = await prisma.property.findUnique({
+        where: { id: propertyId },
+        select: {
+          ownerId: true,
+          propertyType: true,
+          viewCount: true,
+          createdAt: true,
+          address: { select: { city: true } },
+          _count: { select: { favorites: true } },
+        },
+      });
+
+      if (!property) {
+        throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+      }
+
+      if (property.ownerId !== requester.id && requester.role !== UserRole.ADMIN) {
+        throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+      }
+
+      const today = this.startOfDay(new Date());
+      const from = new Date(today.getTime() - (options.days - 1) * DAY_MS);
+      const city = property.address?.city ?? null;
+
+      const comparables: Prisma.PropertyWhereInput = {
+        id: { not: propertyId },
+        propertyType: property.propertyType,
+        status: PropertyStatus.ACTIVE,
+        isActive: true,
+        duplicateOfId: null,
+        address: city ? { city } : undefined,
+      };
+
+      // Past days come from the rollups; today is still open, so it is
+      // counted from the raw events and left for the job to roll up
+      const rows = [
+        ...await prisma.propertyEventDaily.findMany({
+          where: { propertyId, date: { gte: from, lt: today } },
+        }),
+        ...(await this.countEvents(today, { propertyId })).map(rollup => ({ ...rollup, date: today })),
+      ];
+
+      const timeSeries: PropertyAnalyticsDay[] = [];
+      for (let time = from.getTime(); time <= today.getTime(); time += DAY_MS) {
+        timeSeries.push({ date: new Date(time).toISOString().slice(0, 10), counts: this.emptyCounts(), viewers: 0 });
+      }
+
+      const totals = this.emptyCounts();
+      for (const row of rows) {
+        const day = timeSeries[Math.round((row.date.getTime() - from.getTime()) / DAY_MS)];
+        const type = row.type as PropertyEventType;
+        if (!day || !(type in totals)) continue;
+
+        day.counts[type] += row.count;
+        totals[type] += row.count;
+        if (type === PropertyEventType.VIEW) day.viewers = row.visitors;
+      }
+
+      return {
+        propertyId,
+        period: { from: timeSeries[0].date, to: timeSeries[timeSeries.length - 1].date, days: options.days },
+        totals,
+        timeSeries,
+        conversion: {
+          searchToView: this.rate(totals.VIEW, totals.IMPRESSION),
+          viewToContact: this.rate(totals.CONTACT, totals.VIEW),
+        },
+        comparison: await this.compare(totals, comparables, from, today, city, property.propertyType),
+        lifetime: {
+          viewCount: property.viewCount,
+          favoritesCount: property._count.favorites,
+          daysSinceListing: Math.floor((Date.now() - property.createdAt.getTime()) / DAY_MS),
+        },
+      };
+    } catch (error) {
+      logger.error('Get property analytics error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Average per-listing totals of the comparable listings and where this one ranks by views
+   */
+  private static async compare(
+    totals: PropertyEventCounts,
+    comparables: Prisma.PropertyWhereInput,
+    from: Date,
+    today: Date,
+    city: string | null,
+    propertyType: string
+  ): Promise<PropertyAnalyticsReport['comparison']> {
+    const average = this.emptyCounts();
+    const comparableListings = await prisma.property.count({ where: comparables });
+    const comparison = {
+      city,
+      propertyType,
+      comparableListings,
+      average,
+      averageSearchToView: null,
+      viewsPercentile: null,
+    };
+
+    if (comparableListings === 0) {
+      return comparison;
+    }
+
+    const [grouped, todayCounts] = await Promise.all([
+      prisma.propertyEventDaily.groupBy({
+        by: ['propertyId', 'type'],
+        where: { property: comparables, date: { gte: from, lt: today } },
+        _sum: { count: true },
+      }),
+      prisma.propertyEvent.groupBy({
+        by: ['propertyId', 'type'],
+        where: { property: comparables, createdAt: { gte: today, lt: new Date(today.getTime() + DAY_MS) } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const viewsByListing = new Map<string, number>();
+    const add = (propertyId: string, type: PropertyEventType, count: number) => {
+      average[type] += count;
+      if (type === PropertyEventType.VIEW) {
+        viewsByListing.set(propertyId, (viewsByListing.get(propertyId) ?? 0) + count);
+      }
+    };
+
+    for (const group of grouped) {
+      if (group.type in average) add(group.propertyId, group.type as PropertyEventType, group._sum.count ?? 0);
+    }
+    for (const group of todayCounts) {
+      if (group.type in average) add(group.propertyId, group.type as PropertyEventType, group._count._all);
+    }
+
+    for (const type of EVENT_TYPES) {
+      average[type] = Math.round((average[type] / comparableListings) * 100) / 100;
+    }
+
+    // Listings never viewed have no groups, but rank below this one once it has a view
+    const unviewed = totals.VIEW > 0 ? comparableListings - viewsByListing.size : 0;
+    const fewerViews = unviewed + [...viewsByListing.values()].filter(views => views < totals.VIEW).length;
+
+    return {
+      ...comparison,
+      averageSearchToView: this.rate(average.VIEW, average.IMPRESSION),
+      viewsPercentile: Math.round((fewerViews / comparableListings) * 100),
+    };
+  }
+
+  private static emptyCounts(): PropertyEventCounts {
+    return Object.fromEntries(EVENT_TYPES.map(type => [type, 0])) as PropertyEventCounts;
+  }
+
+  private static rate(numerator: number, denominator: number): number | null {
+    return denominator > 0 ? Math.round((numerator / denominator) * 10000) / 10000 : null;
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
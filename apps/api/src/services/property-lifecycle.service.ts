@@ -0,0 +1,448 @@
+import {
+  prisma,
+  Prisma,
+  PropertyStatus,
+  TransactionStatus,
+  TransactionType,
+  NotificationType,
+  UserRole,
+  handlePrismaError,
+} from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import {
+  StatusActor,
+  statusTransitions,
+  LISTING_DURATION_DAYS,
+  EXPIRY_REMINDER_DAYS,
+} from '../config/property-lifecycle.config';
+import { NotificationService } from './notification.service';
+import { SearchIndexingService } from './search-indexing.service';
+import { CacheService, CacheTags } from './cache.service';
+import { logger } from '../utils/logger';
+import { IntervalJob } from '../utils/interval-job';
+
+type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+export interface StatusChange {
+  propertyId: string;
+  from: PropertyStatus;
+  to: PropertyStatus;
+  // Null for changes the platform makes itself
+  changedById: string | null;
+  notes?: string;
+}
+
+export interface PropertyStatusTimeline {
+  propertyId: string;
+  status: string;
+  publishedAt: Date | null;
+  expiresAt: Date | null;
+  history: Array<{
+    id: string;
+    previousStatus: string | null;
+    newStatus: string;
+    notes: string | null;
+    createdAt: Date;
+    changedBy: { id: string; firstName: string; lastName: string; role: string } | null;
+  }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses a listing leaves when a deal is in progress; returning from them puts it back on the market rather than publishing it again
+const DEAL_STATUSES: PropertyStatus[] = [PropertyStatus.UNDER_OFFER, PropertyStatus.RESERVED];
+
+/**
+ * Listing status state machine. Every status change goes through here, so
+ * it is checked against the allowed transitions, recorded in the status
+ * history and kept in step with the listing's expiry dates.
+ */
+export class PropertyLifecycleService {
+  private static readonly EXPIRY_INTERVAL = 15 * 60 * 1000; // 15 minutes
+  private static readonly EXPIRY_BATCH_SIZE = 100;
+
+  private static readonly expiryJob = new IntervalJob(
+    'Listing expiry job',
+    this.EXPIRY_INTERVAL,
+    async () => {
+      const now = new Date();
+      await this.sendExpiryReminders(now);
+      await this.expireListings(now);
+    }
+  );
+
+  /**
+   * Whether any of the actors may move a listing between the two statuses
+   */
+  static canTransition(from: string, to: string, actors: StatusActor[]): boolean {
+    return statusTransitions.some(
+      transition => transition.from === from && transition.to === to && transition.actors.some(actor => actors.includes(actor))
+    );
+  }
+
+  /**
+   * Throw unless the change is a legal transition the actors are allowed to make
+   */
+  static assertTransition(from: string, to: string, actors: StatusActor[]): void {
+    if (from === to) {
+      throw new AppError(`Property is already ${to}`, 409, 'INVALID_STATUS_TRANSITION');
+    }
+
+    const transition = statusTransitions.find(candidate => candidate.from === from && candidate.to === to);
+
+    if (!transition) {
+      throw new AppError(`Cannot change property status from ${from} to ${to}`, 409, 'INVALID_STATUS_TRANSITION', {
+        from,
+        to,
+        allowed: this.getAllowedStatuses(from, actors),
+      });
+    }
+
+    if (!transition.actors.some(actor => actors.includes(actor))) {
+      throw new AppError(`Not allowed to change property status from ${from} to ${to}`, 403, 'STATUS_TRANSITION_DENIED', {
+        from,
+        to,
+        requiredActors: transition.actors,
+      });
+    }
+  }
+
+  /**
+   * Statuses the actors may move a listing to from its current status
+   */
+  static getAllowedStatuses(from: string, actors: StatusActor[]): PropertyStatus[] {
+    return statusTransitions
+      .filter(transition => transition.from === from && transition.actors.some(actor => actors.includes(actor)))
+      .map(transition => transition.to);
+  }
+
+  /**
+   * The roles a user holds towards a listing; empty when they have none
+   */
+  static async getActors(ownerId: string, userId: string): Promise<StatusActor[]> {
+    const actors: StatusActor[] = ownerId === userId ? ['OWNER'] : [];
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+
+    if (user?.role === UserRole.ADMIN) {
+      actors.push('ADMIN');
+    }
+
+    return actors;
+  }
+
+  /**
+   * Whether moving to ACTIVE publishes the listing, as opposed to putting it
+   * back on the market after a deal fell through
+   */
+  static isPublication(from: string, to: string): boolean {
+    return to === PropertyStatus.ACTIVE && !DEAL_STATUSES.includes(from as PropertyStatus);
+  }
+
+  /**
+   * Status a listing takes while a transaction of this type is accepted
+   */
+  static acceptedStatusFor(type: string): PropertyStatus {
+    return type === TransactionType.PURCHASE ? PropertyStatus.UNDER_OFFER : PropertyStatus.RESERVED;
+  }
+
+  /**
+   * Status a listing takes once a transaction of this type completes
+   */
+  static completedStatusFor(type: string): PropertyStatus {
+    return type === TransactionType.PURCHASE ? PropertyStatus.SOLD : PropertyStatus.RENTED;
+  }
+
+  /**
+   * Expiry date and first renewal reminder for a listing going live now
+   */
+  static getExpiryDates(now: Date = new Date()): { expiresAt: Date; expiryReminderAt: Date | null } {
+    const expiresAt = new Date(now.getTime() + LISTING_DURATION_DAYS * DAY_MS);
+    return { expiresAt, expiryReminderAt: this.getNextReminderAt(expiresAt, now) };
+  }
+
+  /**
+   * Write a status change and its history entry. The update only applies if
+   * the listing is still in the expected status, so concurrent changes
+   * cannot both win.
+   */
+  static async applyTransition(tx: TransactionClient, change: StatusChange, now: Date = new Date()): Promise<void> {
+    const data: Prisma.PropertyUpdateManyMutationInput = { status: change.to };
+
+    if (change.to === PropertyStatus.ACTIVE) {
+      Object.assign(data, this.getExpiryDates(now));
+      // Going live settles any scheduled publication
+      data.scheduledPublishAt = null;
+      if (this.isPublication(change.from, change.to)) {
+        data.publishedAt = now;
+      }
+    } else {
+      data.expiryReminderAt = null;
+    }
+
+    if (change.from === PropertyStatus.ACTIVE) {
+      data.scheduledUnpublishAt = null;
+    }
+
+    const updated = await tx.property.updateMany({
+      where: { id: change.propertyId, status: change.from },
+      data,
+    });
+
+    if (updated.count === 0) {
+      throw new AppError('Property status was changed by someone else', 409, 'STATUS_CONFLICT');
+    }
+
+    await tx.propertyStatusHistory.create({
+      data: {
+        propertyId: change.propertyId,
+        previousStatus: change.from,
+        newStatus: change.to,
+        changedById: change.changedById,
+        notes: change.notes || `Status changed from ${change.from} to ${change.to}`,
+      },
+    });
+
+    await SearchIndexingService.recordPropertyChange(tx, change.propertyId);
+  }
+
+  /**
+   * Make a change on the platform's behalf if the listing's current status
+   * allows it. Returns whether the status changed.
+   */
+  static async applySystemTransition(
+    tx: TransactionClient,
+    propertyId: string,
+    to: PropertyStatus,
+    notes: string
+  ): Promise<boolean> {
+    const property = await tx.property.findUnique({
+      where: { id: propertyId },
+      select: { status: true },
+    });
+
+    if (!property || !this.canTransition(property.status, to, ['SYSTEM'])) {
+      return false;
+    }
+
+    await this.applyTransition(tx, {
+      propertyId,
+      from: property.status as PropertyStatus,
+      to,
+      changedById: null,
+      notes,
+    });
+
+    return true;
+  }
+
+  /**
+   * Put a listing back on the market when its accepted transaction falls
+   * through, unless another accepted transaction still holds it
+   */
+  static async releaseFromDeal(tx: TransactionClient, propertyId: string, transactionId: string): Promise<boolean> {
+    const otherAccepted = await tx.transaction.count({
+      where: { propertyId, status: TransactionStatus.ACCEPTED, id: { not: transactionId } },
+    });
+
+    if (otherAccepted > 0) return false;
+
+    return this.applySystemTransition(tx, propertyId, PropertyStatus.ACTIVE, 'Accepted transaction fell through');
+  }
+
+  /**
+   * Get the full status timeline of a listing, oldest first
+   */
+  static async getHistory(propertyId: string, requester: { id: string; role: string }): Promise<PropertyStatusTimeline> {
+    try {
+      const property = await prisma.property.findUnique({
+        where: { id: propertyId },
+        select: { ownerId: true, status: true, publishedAt: true, expiresAt: true },
+      });
+
+      if (!property) {
+        throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+      }
+
+      if (property.ownerId !== requester.id && requester.role !== UserRole.ADMIN) {
+        throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+      }
+
+      const history = await prisma.propertyStatusHistory.findMany({
+        where: { propertyId },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          changedBy: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              role: true,
+            },
+          },
+        },
+      });
+
+      return {
+        propertyId,
+        status: property.status,
+        publishedAt: property.publishedAt,
+        expiresAt: property.expiresAt,
+        history: history.map(entry => ({
+          id: entry.id,
+          previousStatus: entry.previousStatus,
+          newStatus: entry.newStatus,
+          notes: entry.notes,
+          createdAt: entry.createdAt,
+          changedBy: entry.changedBy,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Move live listings past their expiry date to EXPIRED and tell their
+   * owners. Returns the number of listings expired.
+   */
+  static async expireListings(now: Date = new Date()): Promise<number> {
+    let expired = 0;
+
+    try {
+      const listings = await prisma.property.findMany({
+        where: {
+          status: PropertyStatus.ACTIVE,
+          expiresAt: { lte: now },
+        },
+        select: { id: true, title: true, ownerId: true },
+        orderBy: { expiresAt: 'asc' },
+        take: this.EXPIRY_BATCH_SIZE,
+      });
+
+      for (const listing of listings) {
+        try {
+          await prisma.$transaction(tx => this.applyTransition(tx, {
+            propertyId: listing.id,
+            from: PropertyStatus.ACTIVE,
+            to: PropertyStatus.EXPIRED,
+            changedById: null,
+            notes: 'Listing expired',
+          }, now));
+        } catch (error) {
+          // Changed since the query ran, e.g. an offer was accepted
+          if (error instanceof AppError && error.code === 'STATUS_CONFLICT') continue;
+          throw error;
+        }
+
+        expired++;
+        await this.invalidateCaches(listing.id, listing.ownerId);
+
+        await NotificationService.sendNotification({
+          userId: listing.ownerId,
+          type: NotificationType.EMAIL,
+          title: 'Your listing has expired',
+          content: `"${listing.title}" is no longer shown to buyers. Renew it to put it back on the market.`,
+          data: { type: 'listing_expired', propertyId: listing.id },
+        }).catch(error => logger.error('Listing expiry notification error:', error));
+      }
+
+      if (expired > 0) {
+        logger.info(`Expired ${expired} listings`);
+      }
+
+      return expired;
+    } catch (error) {
+      logger.error('Expire listings error:', error);
+      return expired;
+    }
+  }
+
+  /**
+   * Remind owners to renew listings that expire soon. Returns the number of
+   * reminders sent.
+   */
+  static async sendExpiryReminders(now: Date = new Date()): Promise<number> {
+    let sent = 0;
+
+    try {
+      const listings = await prisma.property.findMany({
+        where: {
+          status: PropertyStatus.ACTIVE,
+          expiresAt: { gt: now },
+          expiryReminderAt: { lte: now },
+        },
+        select: { id: true, title: true, ownerId: true, expiresAt: true, expiryReminderAt: true },
+        orderBy: { expiryReminderAt: 'asc' },
+        take: this.EXPIRY_BATCH_SIZE,
+      });
+
+      for (const listing of listings) {
+        // Claim the reminder first so a second replica doesn't send it too
+        const claimed = await prisma.property.updateMany({
+          where: { id: listing.id, expiryReminderAt: listing.expiryReminderAt },
+          data: { expiryReminderAt: this.getNextReminderAt(listing.expiresAt!, now) },
+        });
+
+        if (claimed.count === 0) continue;
+        sent++;
+
+        const daysLeft = Math.ceil((listing.expiresAt!.getTime() - now.getTime()) / DAY_MS);
+
+        await NotificationService.sendNotification({
+          userId: listing.ownerId,
+          type: NotificationType.EMAIL,
+          title: `Your listing expires in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`,
+          content: `"${listing.title}" expires on ${listing.expiresAt!.toISOString().slice(0, 10)}. Renew it to keep it on the market.`,
+          data: { type: 'listing_expiry_reminder', propertyId: listing.id, expiresAt: listing.expiresAt },
+        }).catch(error => logger.error('Listing expiry reminder error:', error));
+      }
+
+      return sent;
+    } catch (error) {
+      logger.error('Send expiry reminders error:', error);
+      return sent;
+    }
+  }
+
+  /**
+   * Start the background job that sends renewal reminders and expires listings
+   */
+  static startExpiryJob(): void {
+    this.expiryJob.start();
+  }
+
+  /**
+   * Stop the listing expiry job
+   */
+  static stopExpiryJob(): void {
+    this.expiryJob.stop();
+  }
+
+  /**
+   * Drop cached responses built from a listing after a status change
+   */
+  static async invalidateCaches(propertyId: string, ownerId: string): Promise<void> {
+    await CacheService.invalidateByTags([
+      CacheTags.property(propertyId),
+      CacheTags.owner(ownerId),
+      CacheTags.properties,
+    ]);
+  }
+
+  /**
+   * The first reminder still ahead of now, or null when none is left
+   */
+  private static getNextReminderAt(expiresAt: Date, now: Date): Date | null {
+    const upcoming = EXPIRY_REMINDER_DAYS
+      .map(days => new Date(expiresAt.getTime() - days * DAY_MS))
+      .filter(remindAt => remindAt > now)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    return upcoming[0] ?? null;
+  }
+}
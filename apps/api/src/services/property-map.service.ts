@@ -0,0 +1,119 @@
+import { prisma } from '@eu-real-estate/database';
+import {
+  PropertySearchFilters,
+  PropertyType,
+  ListingType,
+  GeoBounds,
+  handlePrismaError,
+  BASE_CURRENCY,
+} from '@eu-real-estate/database';
+import {
+  PropertySearchService,
+  PropertyMapQuery,
+  PropertyMapResult,
+  buildPropertyMap,
+} from '@eu-real-estate/search';
+import { AppError } from '../middleware/error-handler';
+import { PropertyService } from './property.service';
+import { logger } from '../utils/logger';
+
+export interface MapViewport {
+  bounds: GeoBounds;
+  zoom: number;
+}
+
+/**
+ * Listings for the map viewport, clustered on the server so the map stays
+ * usable with thousands of results
+ */
+export class PropertyMapService {
+  /**
+   * Get clusters, or pins at close zoom, for a viewport. The search backend
+   * clusters with its geo aggregation; when it is unavailable the same
+   * clusters are computed from the database.
+   */
+  static async getMap(filters: PropertySearchFilters, viewport: MapViewport): Promise<PropertyMapResult> {
+    try {
+      return await PropertySearchService.searchMap(this.toMapQuery(filters, viewport));
+    } catch (error) {
+      logger.warn('Property map search unavailable, clustering from the database:', error);
+      return this.getMapFromDatabase(filters, viewport);
+    }
+  }
+
+  /**
+   * Cluster the matching listings inside the viewport from the database
+   */
+  static async getMapFromDatabase(filters: PropertySearchFilters, viewport: MapViewport): Promise<PropertyMapResult> {
+    try {
+      const { bounds, zoom } = viewport;
+      const where = await PropertyService.buildSearchWhere(filters);
+
+      const properties = await prisma.property.findMany({
+        where: {
+          AND: [
+            where,
+            {
+              location: {
+                latitude: { gte: bounds.south, lte: bounds.north },
+                longitude: { gte: bounds.west, lte: bounds.east },
+              },
+            },
+          ],
+        },
+        select: {
+          id: true,
+          title: true,
+          price: true,
+          currency: true,
+          priceEur: true,
+          propertyType: true,
+          listingType: true,
+          address: { select: { city: true } },
+          location: { select: { latitude: true, longitude: true } },
+          features: { select: { bedrooms: true } },
+          images: {
+            orderBy: [{ isMain: 'desc' }, { order: 'asc' }],
+            take: 1,
+            select: { url: true },
+          },
+        },
+        // Same order as the search backends return pins in
+        orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+      });
+
+      const pins = properties
+        .filter(property => property.location)
+        .map(property => ({
+          id: property.id,
+          title: property.title,
+          price: property.price,
+          currency: property.currency,
+          priceEur: property.priceEur ?? (property.currency === BASE_CURRENCY ? property.price : undefined),
+          propertyType: property.propertyType as PropertyType,
+          listingType: property.listingType as ListingType,
+          bedrooms: property.features?.bedrooms ?? undefined,
+          city: property.address?.city ?? '',
+          image: property.images[0]?.url,
+          location: { lat: property.location!.latitude, lon: property.location!.longitude },
+        }));
+
+      return buildPropertyMap(pins, zoom);
+    } catch (error) {
+      logger.error('Property map database error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Translate the property list filters and viewport into a map query
+   */
+  private static toMapQuery(filters: PropertySearchFilters, viewport: MapViewport): PropertyMapQuery {
+    return {
+      ...PropertyService.toSearchQuery(filters),
+      bounds: viewport.bounds,
+      zoom: viewport.zoom,
+    };
+  }
+}
@@ -0,0 +1,344 @@
+import {
+  prisma,
+  PropertyStatus,
+  NotificationType,
+  handlePrismaError,
+} from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import { PropertyLifecycleService } from './property-lifecycle.service';
+import { PropertyService } from './property.service';
+import { NotificationService } from './notification.service';
+import { logger } from '../utils/logger';
+import { IntervalJob } from '../utils/interval-job';
+import {
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  zonedTimeToUtc,
+  formatInTimeZone,
+} from '../utils/timezone';
+
+export interface ListingScheduleInput {
+  // Local date and time in the owner's timezone, e.g. "2026-10-26T09:00"; null clears it
+  publishAt?: string | null;
+  unpublishAt?: string | null;
+  // Saved as the owner's timezone when the owner schedules their own listing
+  timezone?: string;
+}
+
+export interface ListingSchedule {
+  propertyId: string;
+  status: string;
+  timezone: string;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+  // The same moments as local date and time in the owner's timezone
+  localPublishAt: string | null;
+  localUnpublishAt: string | null;
+}
+
+/**
+ * Scheduled publication of listings. Owners pick go-live and take-down
+ * times in their own timezone; a job flips the status when they come round,
+ * so the usual publication checks, saved search alerts and expiry dates
+ * apply as if the owner had done it by hand.
+ */
+export class PropertyScheduleService {
+  private static readonly SCHEDULE_INTERVAL = 60 * 1000; // 1 minute
+  private static readonly SCHEDULE_BATCH_SIZE = 100;
+
+  private static readonly scheduleJob = new IntervalJob(
+    'Listing schedule job',
+    this.SCHEDULE_INTERVAL,
+    async () => {
+      const now = new Date();
+      await this.publishDueListings(now);
+      await this.unpublishDueListings(now);
+    }
+  );
+
+  /**
+   * Get a listing's publication schedule (owner or admin)
+   */
+  static async getSchedule(propertyId: string, userId: string): Promise<ListingSchedule> {
+    try {
+      const property = await this.findProperty(propertyId);
+
+      const actors = await PropertyLifecycleService.getActors(property.ownerId, userId);
+      if (actors.length === 0) {
+        throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+      }
+
+      return this.formatSchedule(property, property.owner.timezone || DEFAULT_TIME_ZONE);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Set or clear a listing's scheduled publish and unpublish times. Times
+   * are read in the owner's timezone; a field left out keeps its current
+   * value.
+   */
+  static async setSchedule(
+    propertyId: string,
+    userId: string,
+    input: ListingScheduleInput,
+    now: Date = new Date()
+  ): Promise<ListingSchedule> {
+    try {
+      const property = await this.findProperty(propertyId);
+
+      const actors = await PropertyLifecycleService.getActors(property.ownerId, userId);
+      if (actors.length === 0) {
+        throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+      }
+
+      if (input.timezone !== undefined && !isValidTimeZone(input.timezone)) {
+        throw new AppError(`Unknown timezone "${input.timezone}"`, 400, 'INVALID_TIMEZONE');
+      }
+
+      // Admins schedule in the owner's timezone rather than their own
+      const ownerTimezone = actors.includes('OWNER') && input.timezone ? input.timezone : property.owner.timezone;
+      const timezone = ownerTimezone || DEFAULT_TIME_ZONE;
+
+      const publishAt = input.publishAt === undefined
+        ? property.scheduledPublishAt
+        : this.parseLocalTime(input.publishAt, timezone, now);
+      const unpublishAt = input.unpublishAt === undefined
+        ? property.scheduledUnpublishAt
+        : this.parseLocalTime(input.unpublishAt, timezone, now);
+
+      // The job publishes on the owner's behalf, so the owner must be able to publish from here
+      if (publishAt && !PropertyLifecycleService.canTransition(property.status, PropertyStatus.ACTIVE, ['OWNER'])) {
+        throw new AppError(`A ${property.status} listing cannot be scheduled for publication`, 409, 'LISTING_NOT_SCHEDULABLE');
+      }
+
+      if (unpublishAt) {
+        if (property.status !== PropertyStatus.ACTIVE && !publishAt) {
+          throw new AppError('Only a live or scheduled listing can be scheduled to come down', 409, 'LISTING_NOT_SCHEDULABLE');
+        }
+
+        if (publishAt && unpublishAt <= publishAt) {
+          throw new AppError('Unpublish time must be after the publish time', 400, 'INVALID_SCHEDULE');
+        }
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (ownerTimezone !== property.owner.timezone) {
+          await tx.user.update({
+            where: { id: property.ownerId },
+            data: { timezone: ownerTimezone },
+          });
+        }
+
+        return tx.property.update({
+          where: { id: propertyId },
+          data: {
+            scheduledPublishAt: publishAt,
+            scheduledUnpublishAt: unpublishAt,
+          },
+          select: {
+            id: true,
+            status: true,
+            scheduledPublishAt: true,
+            scheduledUnpublishAt: true,
+          },
+        });
+      });
+
+      // The listing's detail response depends on whether it is coming soon
+      await PropertyLifecycleService.invalidateCaches(propertyId, property.ownerId);
+
+      return this.formatSchedule(updated, timezone);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Publish listings whose scheduled time has come, alerting matching saved
+   * searches and the users who favourited them. Returns the number
+   * published.
+   */
+  static async publishDueListings(now: Date = new Date()): Promise<number> {
+    let published = 0;
+
+    try {
+      const listings = await prisma.property.findMany({
+        where: { scheduledPublishAt: { lte: now } },
+        select: { id: true, title: true, ownerId: true, scheduledPublishAt: true },
+        orderBy: { scheduledPublishAt: 'asc' },
+        take: this.SCHEDULE_BATCH_SIZE,
+      });
+
+      for (const listing of listings) {
+        // Claim the publication first so a second replica doesn't run it too
+        const claimed = await prisma.property.updateMany({
+          where: { id: listing.id, scheduledPublishAt: listing.scheduledPublishAt },
+          data: { scheduledPublishAt: null },
+        });
+
+        if (claimed.count === 0) continue;
+
+        try {
+          // Runs the compliance checks and saved search alerts of a publication by hand
+          await PropertyService.updatePropertyStatus(listing.id, listing.ownerId, PropertyStatus.ACTIVE, 'Published as scheduled');
+        } catch (error) {
+          logger.error('Scheduled publication error:', error);
+          await this.notifyScheduleFailure(listing, 'published', error);
+          continue;
+        }
+
+        published++;
+
+        await NotificationService.sendPropertyNotification(listing.id, 'status_change', {
+          status: PropertyStatus.ACTIVE,
+          scheduled: true,
+        });
+      }
+
+      if (published > 0) {
+        logger.info(`Published ${published} scheduled listings`);
+      }
+
+      return published;
+    } catch (error) {
+      logger.error('Publish scheduled listings error:', error);
+      return published;
+    }
+  }
+
+  /**
+   * Take down live listings whose scheduled unpublish time has come.
+   * Returns the number unpublished.
+   */
+  static async unpublishDueListings(now: Date = new Date()): Promise<number> {
+    let unpublished = 0;
+
+    try {
+      const listings = await prisma.property.findMany({
+        where: {
+          status: PropertyStatus.ACTIVE,
+          scheduledUnpublishAt: { lte: now },
+        },
+        select: { id: true, title: true, ownerId: true, scheduledUnpublishAt: true },
+        orderBy: { scheduledUnpublishAt: 'asc' },
+        take: this.SCHEDULE_BATCH_SIZE,
+      });
+
+      for (const listing of listings) {
+        const claimed = await prisma.property.updateMany({
+          where: { id: listing.id, scheduledUnpublishAt: listing.scheduledUnpublishAt },
+          data: { scheduledUnpublishAt: null },
+        });
+
+        if (claimed.count === 0) continue;
+
+        try {
+          await PropertyService.updatePropertyStatus(listing.id, listing.ownerId, PropertyStatus.INACTIVE, 'Unpublished as scheduled');
+        } catch (error) {
+          logger.error('Scheduled unpublication error:', error);
+          await this.notifyScheduleFailure(listing, 'taken down', error);
+          continue;
+        }
+
+        unpublished++;
+      }
+
+      if (unpublished > 0) {
+        logger.info(`Unpublished ${unpublished} scheduled listings`);
+      }
+
+      return unpublished;
+    } catch (error) {
+      logger.error('Unpublish scheduled listings error:', error);
+      return unpublished;
+    }
+  }
+
+  /**
+   * Start the background job that publishes and takes down scheduled listings
+   */
+  static startScheduler(): void {
+    this.scheduleJob.start();
+  }
+
+  /**
+   * Stop the listing schedule job
+   */
+  static stopScheduler(): void {
+    this.scheduleJob.stop();
+  }
+
+  private static async findProperty(propertyId: string) {
+    const property = await prisma.property.findUnique({
+      where: { id: propertyId },
+      select: {
+        id: true,
+        status: true,
+        ownerId: true,
+        scheduledPublishAt: true,
+        scheduledUnpublishAt: true,
+        owner: { select: { timezone: true } },
+      },
+    });
+
+    if (!property) {
+      throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+    }
+
+    return property;
+  }
+
+  /**
+   * Read a local time in the timezone, which must still be ahead of now
+   */
+  private static parseLocalTime(localTime: string | null, timezone: string, now: Date): Date | null {
+    if (localTime === null) return null;
+
+    const moment = zonedTimeToUtc(localTime, timezone);
+
+    if (moment <= now) {
+      throw new AppError(`${localTime} (${timezone}) is in the past`, 400, 'INVALID_SCHEDULE');
+    }
+
+    return moment;
+  }
+
+  private static formatSchedule(
+    property: { id: string; status: string; scheduledPublishAt: Date | null; scheduledUnpublishAt: Date | null },
+    timezone: string
+  ): ListingSchedule {
+    return {
+      propertyId: property.id,
+      status: property.status,
+      timezone,
+      publishAt: property.scheduledPublishAt,
+      unpublishAt: property.scheduledUnpublishAt,
+      localPublishAt: property.scheduledPublishAt ? formatInTimeZone(property.scheduledPublishAt, timezone) : null,
+      localUnpublishAt: property.scheduledUnpublishAt ? formatInTimeZone(property.scheduledUnpublishAt, timezone) : null,
+    };
+  }
+
+  /**
+   * Tell the owner a scheduled change didn't happen, e.g. because the listing
+   * failed its compliance checks in the meantime
+   */
+  private static async notifyScheduleFailure(
+    listing: { id: string; title: string; ownerId: string },
+    action: 'published' | 'taken down',
+    error: unknown
+  ): Promise<void> {
+    const reason = error instanceof AppError ? ` ${error.message}.` : '';
+
+    await NotificationService.sendNotification({
+      userId: listing.ownerId,
+      type: NotificationType.EMAIL,
+      title: 'Your scheduled listing change did not go through',
+      content: `"${listing.title}" could not be ${action} as scheduled.${reason}`,
+      data: { type: 'listing_schedule_failed', propertyId: listing.id },
+    }).catch(notifyError => logger.error('Listing schedule notification error:', notifyError));
+  }
+}
@@ -1,6 +1,8 @@
 import { prisma } from '@eu-real-estate/database';
 import { AppError } from '../middleware/error-handler';
 import { handlePrismaError } from '@eu-real-estate/database';
+import { SearchIndexingService } from './search-indexing.service';
+import { CacheService, CacheTags } from './cache.service';
 
 export interface PropertyTagData {
   name: string;
@@ -22,6 +24,8 @@ export class PropertyTagService {
         },
       });
 
+      await CacheService.invalidateByTags([CacheTags.tags]);
+
       return tag;
     } catch (error) {
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
@@ -85,11 +89,19 @@ export class PropertyTagService {
    */
   static async updateTag(id: string, data: Partial<PropertyTagData>) {
     try {
-      const tag = await prisma.propertyTag.update({
-        where: { id },
-        data,
+      const tag = await prisma.$transaction(async (tx) => {
+        const updated = await tx.propertyTag.update({
+          where: { id },
+          data,
+        });
+
+        // Indexed listings carry the tag name
+        await this.recordTaggedPropertyChanges(tx, id);
+        return updated;
       });
 
+      await CacheService.invalidateByTags([CacheTags.tag(id), CacheTags.tags]);
+
       return tag;
     } catch (error) {
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
@@ -101,9 +113,14 @@ export class PropertyTagService {
    */
   static async deleteTag(id: string) {
     try {
-      await prisma.propertyTag.delete({
-        where: { id },
+      await prisma.$transaction(async (tx) => {
+        await this.recordTaggedPropertyChanges(tx, id);
+        await tx.propertyTag.delete({
+          where: { id },
+        });
       });
+
+      await CacheService.invalidateByTags([CacheTags.tag(id), CacheTags.tags]);
     } catch (error) {
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
     }
@@ -134,23 +151,27 @@ export class PropertyTagService {
         throw new AppError('One or more tags not found', 404, 'TAG_NOT_FOUND');
       }
 
-      // Create connections
-      const createPromises = tagIds.map(tagId =>
-        prisma.propertyToTag.create({
-          data: {
-            propertyId,
-            tagId,
-          },
-        }).catch(error => {
-          // Ignore duplicate key errors
-          if (error.code === 'P2002') {
-            return null;
-          }
-          throw error;
-        })
-      );
+      // Create connections, skipping tags the property already has
+      await prisma.$transaction(async (tx) => {
+        const existing = await tx.propertyToTag.findMany({
+          where: { propertyId, tagId: { in: tagIds } },
+          select: { tagId: true },
+        });
+        const existingTagIds = new Set(existing.map(pt => pt.tagId));
 
-      await Promise.all(createPromises);
+        for (const tagId of tagIds.filter(tagId => !existingTagIds.has(tagId))) {
+          await tx.propertyToTag.create({
+            data: {
+              propertyId,
+              tagId,
+            },
+          });
+        }
+
+        await SearchIndexingService.recordPropertyChange(tx, propertyId);
+      });
+
+      await CacheService.invalidateByTags([CacheTags.property(propertyId), ...tagIds.map(CacheTags.tag)]);
 
       return true;
     } catch (error) {
@@ -164,15 +185,20 @@ export class PropertyTagService {
    */
   static async removeTagsFromProperty(propertyId: string, tagIds: string[]) {
     try {
-      await prisma.propertyToTag.deleteMany({
-        where: {
-          propertyId,
-          tagId: {
-            in: tagIds,
+      await prisma.$transaction(async (tx) => {
+        await tx.propertyToTag.deleteMany({
+          where: {
+            propertyId,
+            tagId: {
+              in: tagIds,
+            },
           },
-        },
+        });
+        await SearchIndexingService.recordPropertyChange(tx, propertyId);
       });
 
+      await CacheService.invalidateByTags([CacheTags.property(propertyId), ...tagIds.map(CacheTags.tag)]);
+
       return true;
     } catch (error) {
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
@@ -223,4 +249,21 @@ export class PropertyTagService {
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Queue a search index update for every property with the tag
+   */
+  private static async recordTaggedPropertyChanges(
+    tx: Parameters<Parameters<typeof prisma.$transaction>[0]>[0],
+    tagId: string
+  ): Promise<void> {
+    const propertyTags = await tx.propertyToTag.findMany({
+      where: { tagId },
+      select: { propertyId: true },
+    });
+
+    for (const { propertyId } of propertyTags) {
+      await SearchIndexingService.recordPropertyChange(tx, propertyId);
+    }
+  }
+}
@@ -1,9 +1,12 @@
-import { prisma } from '@eu-real-estate/database';
+import { prisma, Prisma } from '@eu-real-estate/database';
 import {
   Property,
   PropertyType,
   ListingType,
   PropertyStatus,
+  UserRole,
+  OutboxEventType,
+  PropertyEventType,
   PropertyWithDetails,
   PropertySearchFilters,
   PropertySearchResult,
@@ -12,9 +15,37 @@ import {
   createPaginatedResult,
   createOrderBy,
   handlePrismaError,
+  findPropertyIdsInShape,
+  buildEuroPriceFilter,
 } from '@eu-real-estate/database';
+import { PropertySearchService, PropertySearchQuery } from '@eu-real-estate/search';
 import { AppError } from '../middleware/error-handler';
 import { FileUploadService } from './file-upload.service';
+import { ExchangeRateService } from './exchange-rate.service';
+import { NotificationService } from './notification.service';
+import { ComplianceService, ComplianceViolation } from './compliance.service';
+import { SearchIndexingService } from './search-indexing.service';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+import { CacheService, CacheTags } from './cache.service';
+import { PropertyAnalyticsService, PropertyEventContext } from './property-analytics.service';
+import { PropertyLifecycleService } from './property-lifecycle.service';
+import { logger } from '../utils/logger';
+import { PerceptualHash } from '../utils/perceptual-hash';
+
+type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+// A status change written in a transaction, for the follow-ups after it commits
+interface AppliedStatusChange {
+  ownerId: string;
+  isPublication: boolean;
+  isOverride: boolean;
+}
+
+// A listing in search results and the owner shown as its agent
+interface SearchResultListing {
+  id: string;
+  owner: { id: string; firstName: string; lastName: string; profile: { company: string | null } | null };
+}
 
 export interface CreatePropertyData {
   title: string;
@@ -62,60 +93,105 @@ export interface UpdatePropertyData extends Partial<CreatePropertyData> {
   isFeatured?: boolean;
 }
 
+export interface StatusChangeOptions {
+  overrideCompliance?: boolean;
+  overrideReason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * What a user who favourited a listing sees before its scheduled publication
+ */
+export interface ComingSoonTeaser {
+  id: string;
+  ownerId: string;
+  title: string;
+  propertyType: string;
+  listingType: string;
+  city: string | null;
+  country: string | null;
+  image: string | null;
+  scheduledPublishAt: Date;
+  comingSoon: true;
+}
+
 export class PropertyService {
   /**
    * Create a new property listing
    */
   static async createProperty(ownerId: string, data: CreatePropertyData): Promise<PropertyWithDetails> {
     try {
-      const property = await prisma.property.create({
-        data: {
-          title: data.title,
-          description: data.description,
-          price: data.price,
-          currency: data.currency || 'EUR',
-          propertyType: data.propertyType,
-          listingType: data.listingType,
-          status: PropertyStatus.DRAFT,
-          ownerId,
-          address: {
-            create: data.address,
-          },
-          location: data.location ? {
-            create: data.location,
-          } : undefined,
-          features: data.features ? {
-            create: data.features,
-          } : undefined,
-          amenities: data.amenities ? {
-            create: data.amenities.map(name => ({
-              name,
-              category: 'General',
-            })),
-          } : undefined,
-        },
-        include: {
-          address: true,
-          location: true,
-          features: true,
-          amenities: true,
-          images: {
-            orderBy: { order: 'asc' },
+      const currency = data.currency || 'EUR';
+      const priceEur = await ExchangeRateService.getEuroPrice(data.price, currency);
+
+      const property = await prisma.$transaction(async (tx) => {
+        const created = await tx.property.create({
+          data: {
+            title: data.title,
+            description: data.description,
+            price: data.price,
+            currency,
+            priceEur,
+            propertyType: data.propertyType,
+            listingType: data.listingType,
+            status: PropertyStatus.DRAFT,
+            ownerId,
+            address: {
+              create: data.address,
+            },
+            location: data.location ? {
+              create: data.location,
+            } : undefined,
+            features: data.features ? {
+              create: data.features,
+            } : undefined,
+            amenities: data.amenities ? {
+              create: data.amenities.map(name => ({
+                name,
+                category: 'General',
+              })),
+            } : undefined,
           },
-          documents: true,
-          owner: {
-            select: {
-              id: true,
-              email: true,
-              firstName: true,
-              lastName: true,
-              role: true,
-              profile: true,
+          include: {
+            address: true,
+            location: true,
+            features: true,
+            amenities: true,
+            images: {
+              orderBy: { order: 'asc' },
+            },
+            documents: true,
+            owner: {
+              select: {
+                id: true,
+                email: true,
+                firstName: true,
+                lastName: true,
+                role: true,
+                profile: true,
+              },
             },
           },
-        },
+        });
+
+        // Start the status timeline
+        await tx.propertyStatusHistory.create({
+          data: {
+            propertyId: created.id,
+            newStatus: PropertyStatus.DRAFT,
+            changedById: ownerId,
+            notes: 'Listing created',
+          },
+        });
+
+        await SearchIndexingService.recordPropertyChange(tx, created.id);
+        return created;
       });
 
+      await this.invalidateCaches(property.id, ownerId);
+      this.checkDuplicates(property.id);
+
       return property as PropertyWithDetails;
     } catch (error) {
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
@@ -123,9 +199,11 @@ export class PropertyService {
   }
 
   /**
-   * Get property by ID
+   * Get property by ID. A listing waiting for its scheduled publication is
+   * only shown in full to its owner and admins; users who favourited it get
+   * a teaser and everyone else a 404.
    */
-  static async getPropertyById(id: string, userId?: string): Promise<PropertyWithDetails> {
+  static async getPropertyById(id: string, userId?: string): Promise<PropertyWithDetails | ComingSoonTeaser> {
     try {
       const property = await prisma.property.findUnique({
         where: { id },
@@ -159,12 +237,29 @@ export class PropertyService {
         throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
       }
 
-      // Increment view count if property is active
-      if (property.status === PropertyStatus.ACTIVE) {
-        await prisma.property.update({
-          where: { id },
-          data: { viewCount: { increment: 1 } },
-        });
+      if (property.status !== PropertyStatus.ACTIVE && property.scheduledPublishAt) {
+        const actors = userId ? await PropertyLifecycleService.getActors(property.ownerId, userId) : [];
+
+        if (actors.length === 0) {
+          if (!property.favorites?.length) {
+            throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+          }
+
+          const image = property.images.find(candidate => candidate.isMain) ?? property.images[0];
+
+          return {
+            id: property.id,
+            ownerId: property.ownerId,
+            title: property.title,
+            propertyType: property.propertyType,
+            listingType: property.listingType,
+            city: property.address?.city ?? property.city,
+            country: property.address?.country ?? property.country,
+            image: image?.url ?? null,
+            scheduledPublishAt: property.scheduledPublishAt,
+            comingSoon: true,
+          };
+        }
       }
 
       return property as PropertyWithDetails;
@@ -175,7 +270,46 @@ export class PropertyService {
   }
 
   /**
-   * Update property
+   * Count a visit to an active listing. Kept apart from getPropertyById so
+   * visits served from the response cache still count.
+   */
+  static async recordView(id: string, context: PropertyEventContext = {}): Promise<void> {
+    try {
+      const property = await prisma.property.findUnique({
+        where: { id },
+        select: { status: true, ownerId: true },
+      });
+
+      if (property?.status !== PropertyStatus.ACTIVE) {
+        return;
+      }
+
+      await prisma.property.update({
+        where: { id },
+        data: { viewCount: { increment: 1 } },
+      });
+
+      // Owners browsing their own listing don't count towards its analytics
+      if (context.userId === property.ownerId) {
+        return;
+      }
+
+      await PropertyAnalyticsService.record(id, PropertyEventType.VIEW, context);
+
+      // Signed-in visits feed the viewer's recommendations
+      if (context.userId) {
+        await prisma.propertyView.create({ data: { userId: context.userId, propertyId: id } });
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Update property. A status change is saved in the same transaction as
+   * the other fields; if it is rejected, e.g. by the compliance gate, the
+   * listing is left unchanged and the error says what blocks the change.
    */
   static async updateProperty(
     id: string,
@@ -186,7 +320,7 @@ export class PropertyService {
       // Check if property exists and user owns it
       const existingProperty = await prisma.property.findUnique({
         where: { id },
-        select: { ownerId: true },
+        select: { ownerId: true, status: true, price: true, currency: true },
       });
 
       if (!existingProperty) {
@@ -204,15 +338,17 @@ export class PropertyService {
       if (data.description) updateData.description = data.description;
       if (data.price) updateData.price = data.price;
       if (data.currency) updateData.currency = data.currency;
+      if (data.price || data.currency) {
+        updateData.priceEur = await ExchangeRateService.getEuroPrice(
+          data.price || existingProperty.price,
+          data.currency || existingProperty.currency
+        );
+      }
       if (data.propertyType) updateData.propertyType = data.propertyType;
       if (data.listingType) updateData.listingType = data.listingType;
-      if (data.status) updateData.status = data.status;
       if (data.isFeatured !== undefined) updateData.isFeatured = data.isFeatured;
 
-      // Set published date when status changes to active
-      if (data.status === PropertyStatus.ACTIVE) {
-        updateData.publishedAt = new Date();
-      }
+      const isStatusChange = !!data.status && data.status !== existingProperty.status;
 
       // Update address if provided
       if (data.address) {
@@ -246,12 +382,9 @@ export class PropertyService {
 
       // Update amenities if provided
       if (data.amenities) {
-        // Delete existing amenities and create new ones
-        await prisma.propertyAmenity.deleteMany({
-          where: { propertyId: id },
-        });
-
+        // Replace existing amenities with the new ones
         updateData.amenities = {
+          deleteMany: {},
           create: data.amenities.map(name => ({
             name,
             category: 'General',
@@ -259,31 +392,56 @@ export class PropertyService {
         };
       }
 
-      const property = await prisma.property.update({
-        where: { id },
-        data: updateData,
-        include: {
-          address: true,
-          location: true,
-          features: true,
-          amenities: true,
-          images: {
-            orderBy: { order: 'asc' },
-          },
-          documents: true,
-          owner: {
-            select: {
-              id: true,
-              email: true,
-              firstName: true,
-              lastName: true,
-              role: true,
-              profile: true,
+      const { updated: property, statusChange } = await prisma.$transaction(async (tx) => {
+        const updated = await tx.property.update({
+          where: { id },
+          data: updateData,
+          include: {
+            address: true,
+            location: true,
+            features: true,
+            amenities: true,
+            images: {
+              orderBy: { order: 'asc' },
+            },
+            documents: true,
+            owner: {
+              select: {
+                id: true,
+                email: true,
+                firstName: true,
+                lastName: true,
+                role: true,
+                profile: true,
+              },
             },
           },
-        },
+        });
+
+        await SearchIndexingService.recordPropertyChange(tx, id);
+
+        // Checked after the field update, so the compliance gate sees the new values
+        const statusChange = isStatusChange
+          ? await this.applyStatusChange(tx, id, ownerId, data.status!)
+          : null;
+
+        return { updated, statusChange };
       });
 
+      if (statusChange) {
+        await this.finishStatusChange(id, ownerId, statusChange);
+      } else {
+        await this.invalidateCaches(id, property.ownerId);
+      }
+
+      if (data.address || data.location || data.features || data.propertyType || data.listingType) {
+        this.checkDuplicates(id);
+      }
+
+      if (statusChange) {
+        return await this.getPropertyWithStatusHistory(id);
+      }
+
       return property as PropertyWithDetails;
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -310,9 +468,34 @@ export class PropertyService {
         throw new AppError('Access denied', 403, 'ACCESS_DENIED');
       }
 
-      await prisma.property.delete({
-        where: { id },
+      const duplicates = await prisma.$transaction(async (tx) => {
+        // Listings merged into this one stay merged, under the oldest of them
+        const duplicates = await tx.property.findMany({
+          where: { duplicateOfId: id },
+          orderBy: { createdAt: 'asc' },
+          select: { id: true },
+        });
+        if (duplicates.length > 0) {
+          const [successor, ...others] = duplicates;
+          await tx.property.update({ where: { id: successor.id }, data: { duplicateOfId: null } });
+          await tx.property.updateMany({
+            where: { id: { in: others.map(duplicate => duplicate.id) } },
+            data: { duplicateOfId: successor.id },
+          });
+          for (const duplicate of duplicates) {
+            await SearchIndexingService.recordPropertyChange(tx, duplicate.id);
+          }
+        }
+
+        await tx.property.delete({
+          where: { id },
+        });
+        await SearchIndexingService.recordPropertyChange(tx, id, OutboxEventType.PROPERTY_DELETED);
+
+        return duplicates;
       });
+
+      await this.invalidateCaches(id, existingProperty.ownerId, duplicates.map(duplicate => duplicate.id));
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
@@ -320,75 +503,69 @@ export class PropertyService {
   }
 
   /**
-   * Search properties with filters and pagination
+   * Search properties with filters and pagination. Matching, sorting and
+   * paging come from the configured search backend, so listings are found
+   * the same way as by the map and the search box; the page is then loaded
+   * from the database. When the backend is unavailable the search runs
+   * against the database instead.
    */
   static async searchProperties(
     filters: PropertySearchFilters = {},
     pagination: PaginationOptions = {},
     userId?: string
   ): Promise<PropertySearchResult> {
+    let hits: { ids: string[]; total: number; page: number; limit: number };
     try {
-      const { skip, take, page, limit } = createPaginationParams(pagination);
-      
-      // Build where clause
-      const where: any = {
-        status: PropertyStatus.ACTIVE,
-        isActive: true,
-      };
-
-      // Property type filter
-      if (filters.propertyType && filters.propertyType.length > 0) {
-        where.propertyType = { in: filters.propertyType };
-      }
-
-      // Listing type filter
-      if (filters.listingType) {
-        where.listingType = filters.listingType;
-      }
-
-      // Price range filter
-      if (filters.minPrice || filters.maxPrice) {
-        where.price = {};
-        if (filters.minPrice) where.price.gte = filters.minPrice;
-        if (filters.maxPrice) where.price.lte = filters.maxPrice;
-      }
-
-      // Location filters
-      if (filters.country) {
-        where.address = { country: filters.country };
-      }
-      if (filters.city) {
-        where.address = { ...where.address, city: filters.city };
-      }
+      const result = await PropertySearchService.searchProperties({
+        ...this.toSearchQuery(filters),
+        sortBy: pagination.sortBy as PropertySearchQuery['sortBy'],
+        sortOrder: pagination.sortOrder,
+        page: pagination.page,
+        limit: pagination.limit,
+      });
+      hits = { ids: result.properties.map(hit => hit.id), total: result.total, page: result.page, limit: result.limit };
+    } catch (error) {
+      logger.warn('Property search unavailable, searching the database:', error);
+      return this.searchPropertiesFromDatabase(filters, pagination, userId);
+    }
 
-      // Features filters
-      if (filters.minBedrooms || filters.maxBedrooms || filters.minBathrooms || filters.maxBathrooms || filters.minFloorArea) {
-        where.features = {};
-        if (filters.minBedrooms) where.features.bedrooms = { gte: filters.minBedrooms };
-        if (filters.maxBedrooms) where.features.bedrooms = { ...where.features.bedrooms, lte: filters.maxBedrooms };
-        if (filters.minBathrooms) where.features.bathrooms = { gte: filters.minBathrooms };
-        if (filters.maxBathrooms) where.features.bathrooms = { ...where.features.bathrooms, lte: filters.maxBathrooms };
-        if (filters.minFloorArea) where.features.floorArea = { gte: filters.minFloorArea };
-      }
+    try {
+      const properties = await prisma.property.findMany({
+        where: {
+          id: { in: hits.ids },
+          // The index can trail the database briefly; never show a listing that was just unpublished
+          status: PropertyStatus.ACTIVE,
+          isActive: true,
+          duplicateOfId: null,
+        },
+        include: this.searchResultInclude(userId),
+      });
+      const byId = new Map(properties.map(property => [property.id, property]));
 
-      // Feature boolean filters
-      if (filters.features) {
-        where.features = { ...where.features };
-        Object.entries(filters.features).forEach(([key, value]) => {
-          if (value !== undefined) {
-            where.features[key] = value;
-          }
-        });
-      }
+      return {
+        properties: this.withAgents(hits.ids.flatMap(id => byId.get(id) || [])),
+        total: hits.total,
+        page: hits.page,
+        limit: hits.limit,
+        hasMore: hits.page * hits.limit < hits.total,
+      };
+    } catch (error) {
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
 
-      // Amenities filter
-      if (filters.amenities && filters.amenities.length > 0) {
-        where.amenities = {
-          some: {
-            name: { in: filters.amenities },
-          },
-        };
-      }
+  /**
+   * Search properties in the database, for when the search backend is unavailable
+   */
+  static async searchPropertiesFromDatabase(
+    filters: PropertySearchFilters = {},
+    pagination: PaginationOptions = {},
+    userId?: string
+  ): Promise<PropertySearchResult> {
+    try {
+      const { skip, take, page, limit } = createPaginationParams(pagination);
+      
+      const where = await this.buildSearchWhere(filters);
 
       // Get total count
       const total = await prisma.property.count({ where });
@@ -398,40 +575,14 @@ export class PropertyService {
         where,
         skip,
         take,
-        orderBy: createOrderBy(pagination.sortBy, pagination.sortOrder),
-        include: {
-          address: true,
-          location: true,
-          features: true,
-          amenities: true,
-          images: {
-            orderBy: { order: 'asc' },
-            take: 5, // Limit images for search results
-          },
-          documents: false, // Don't include documents in search results
-          owner: {
-            select: {
-              id: true,
-              email: true,
-              firstName: true,
-              lastName: true,
-              role: true,
-              profile: {
-                select: {
-                  company: true,
-                },
-              },
-            },
-          },
-          favorites: userId ? {
-            where: { userId },
-            select: { id: true },
-          } : false,
-        },
+        orderBy: pagination.sortBy === 'price'
+          ? this.buildPriceOrderBy(pagination.sortOrder)
+          : createOrderBy(pagination.sortBy, pagination.sortOrder),
+        include: this.searchResultInclude(userId),
       });
 
       return {
-        properties: properties as PropertyWithDetails[],
+        properties: this.withAgents(properties),
         total,
         page,
         limit,
@@ -442,6 +593,172 @@ export class PropertyService {
     }
   }
 
+  /**
+   * Translate the property list filters into a search backend query
+   */
+  static toSearchQuery(filters: PropertySearchFilters): PropertySearchQuery {
+    return {
+      propertyType: filters.propertyType,
+      listingType: filters.listingType,
+      priceMin: filters.minPrice,
+      priceMax: filters.maxPrice,
+      bedroomsMin: filters.minBedrooms,
+      bedroomsMax: filters.maxBedrooms,
+      bathroomsMin: filters.minBathrooms,
+      bathroomsMax: filters.maxBathrooms,
+      floorAreaMin: filters.minFloorArea,
+      floorAreaMax: filters.maxFloorArea,
+      country: filters.country,
+      city: filters.city,
+      features: filters.features,
+      amenities: filters.amenities,
+      polygon: filters.polygon,
+    };
+  }
+
+  /**
+   * Relations loaded for each listing in search results
+   */
+  private static searchResultInclude(userId?: string) {
+    return {
+      address: true,
+      location: true,
+      features: true,
+      amenities: true,
+      images: {
+        orderBy: { order: 'asc' as const },
+        take: 5, // Limit images for search results
+      },
+      documents: false, // Don't include documents in search results
+      owner: {
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          role: true,
+          profile: {
+            select: {
+              company: true,
+            },
+          },
+        },
+      },
+      favorites: userId ? {
+        where: { userId },
+        select: { id: true },
+      } : false,
+      duplicates: {
+        select: {
+          id: true,
+          owner: {
+            select: { id: true, firstName: true, lastName: true, profile: { select: { company: true } } },
+          },
+        },
+      },
+    };
+  }
+
+  /**
+   * Add every agent listing the home, starting with the original listing's
+   */
+  private static withAgents<T extends SearchResultListing & { duplicates: SearchResultListing[] }>(
+    properties: T[]
+  ): PropertyWithDetails[] {
+    return properties.map(({ duplicates, ...property }) => ({
+      ...property,
+      agents: [{ id: property.id, owner: property.owner }, ...duplicates].map(listing => ({
+        propertyId: listing.id,
+        id: listing.owner.id,
+        name: `${listing.owner.firstName} ${listing.owner.lastName}`,
+        company: listing.owner.profile?.company || undefined,
+      })),
+    })) as PropertyWithDetails[];
+  }
+
+  /**
+   * Sort on the euro price so listings in other currencies interleave
+   * correctly; rows without one fall back to their own price, last
+   */
+  private static buildPriceOrderBy(sortOrder: 'asc' | 'desc' = 'desc') {
+    return [
+      { priceEur: { sort: sortOrder, nulls: 'last' as const } },
+      { price: sortOrder },
+    ];
+  }
+
+  /**
+   * Build the Prisma filter for a property search. Also used by the map
+   * endpoint when the search backend is unavailable.
+   */
+  static async buildSearchWhere(filters: PropertySearchFilters = {}): Promise<any> {
+    const where: any = {
+      status: PropertyStatus.ACTIVE,
+      isActive: true,
+      // Confirmed duplicates are shown through their original listing
+      duplicateOfId: null,
+    };
+
+    // Property type filter
+    if (filters.propertyType && filters.propertyType.length > 0) {
+      where.propertyType = { in: filters.propertyType };
+    }
+
+    // Listing type filter
+    if (filters.listingType) {
+      where.listingType = filters.listingType;
+    }
+
+    // Price range filter, in euros so listings in other currencies compare fairly
+    if (filters.minPrice || filters.maxPrice) {
+      Object.assign(where, buildEuroPriceFilter(filters.minPrice || undefined, filters.maxPrice || undefined));
+    }
+
+    // Location filters
+    if (filters.country) {
+      where.address = { country: filters.country };
+    }
+    if (filters.city) {
+      where.address = { ...where.address, city: filters.city };
+    }
+
+    // Features filters
+    if (filters.minBedrooms || filters.maxBedrooms || filters.minBathrooms || filters.maxBathrooms || filters.minFloorArea) {
+      where.features = {};
+      if (filters.minBedrooms) where.features.bedrooms = { gte: filters.minBedrooms };
+      if (filters.maxBedrooms) where.features.bedrooms = { ...where.features.bedrooms, lte: filters.maxBedrooms };
+      if (filters.minBathrooms) where.features.bathrooms = { gte: filters.minBathrooms };
+      if (filters.maxBathrooms) where.features.bathrooms = { ...where.features.bathrooms, lte: filters.maxBathrooms };
+      if (filters.minFloorArea) where.features.floorArea = { gte: filters.minFloorArea };
+    }
+
+    // Feature boolean filters
+    if (filters.features) {
+      where.features = { ...where.features };
+      Object.entries(filters.features).forEach(([key, value]) => {
+        if (value !== undefined) {
+          where.features[key] = value;
+        }
+      });
+    }
+
+    // Amenities filter
+    if (filters.amenities && filters.amenities.length > 0) {
+      where.amenities = {
+        some: {
+          name: { in: filters.amenities },
+        },
+      };
+    }
+
+    // Area filter
+    if (filters.polygon) {
+      where.id = { in: await findPropertyIdsInShape(prisma, where, filters.polygon) };
+    }
+
+    return where;
+  }
+
   /**
    * Get properties by owner
    */
@@ -518,22 +835,29 @@ export class PropertyService {
         throw new AppError('Access denied', 403, 'ACCESS_DENIED');
       }
 
-      // Upload files to S3 and create image records
-      const imagePromises = files.map(async (file, index) => {
-        const uploadResult = await FileUploadService.uploadPropertyImage(file, propertyId);
-        
-        return prisma.propertyImage.create({
-          data: {
-            propertyId,
-            url: uploadResult.url,
-            altText: `Property image ${index + 1}`,
-            order: index,
-            isMain: index === 0, // First image is main
-          },
-        });
+      // Upload files to S3, then create the image records together
+      const uploads = await Promise.all(
+        files.map(file => FileUploadService.uploadPropertyImage(file, propertyId))
+      );
+
+      await prisma.$transaction(async (tx) => {
+        for (const [index, uploadResult] of uploads.entries()) {
+          await tx.propertyImage.create({
+            data: {
+              propertyId,
+              url: uploadResult.url,
+              altText: `Property image ${index + 1}`,
+              order: index,
+              isMain: index === 0, // First image is main
+              perceptualHash: PerceptualHash.fromImage(files[index].buffer),
+            },
+          });
+        }
+        await SearchIndexingService.recordPropertyChange(tx, propertyId);
       });
 
-      await Promise.all(imagePromises);
+      await this.invalidateCaches(propertyId, ownerId);
+      this.checkDuplicates(propertyId);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
@@ -576,9 +900,14 @@ export class PropertyService {
       await FileUploadService.deleteFile(image.url);
 
       // Delete from database
-      await prisma.propertyImage.delete({
-        where: { id: imageId },
+      await prisma.$transaction(async (tx) => {
+        await tx.propertyImage.delete({
+          where: { id: imageId },
+        });
+        await SearchIndexingService.recordPropertyChange(tx, propertyId);
       });
+
+      await this.invalidateCaches(propertyId, ownerId);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
@@ -586,118 +915,299 @@ export class PropertyService {
   }
 
   /**
-   * Update property status with workflow tracking
+   * Update property status through the lifecycle state machine
    */
   static async updatePropertyStatus(
     id: string,
     ownerId: string,
     status: PropertyStatus,
-    notes?: string
+    notes?: string,
+    options: StatusChangeOptions = {}
   ): Promise<PropertyWithDetails> {
     try {
-      // Get current property status
-      const currentProperty = await prisma.property.findUnique({
+      const change = await prisma.$transaction(tx => this.applyStatusChange(tx, id, ownerId, status, notes, options));
+      await this.finishStatusChange(id, ownerId, change, options);
+
+      return await this.getPropertyWithStatusHistory(id);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Check a status change and write it inside `tx`. The compliance gate
+   * reads through `tx`, so it sees field changes made earlier in it.
+   */
+  private static async applyStatusChange(
+    tx: TransactionClient,
+    id: string,
+    userId: string,
+    status: PropertyStatus,
+    notes?: string,
+    options: StatusChangeOptions = {}
+  ): Promise<AppliedStatusChange> {
+    const currentProperty = await tx.property.findUnique({
+      where: { id },
+      select: {
+        status: true,
+        ownerId: true,
+        country: true,
+        address: { select: { country: true } },
+      },
+    });
+
+    if (!currentProperty) {
+      throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+    }
+
+    // Check ownership or admin role
+    const actors = await PropertyLifecycleService.getActors(currentProperty.ownerId, userId);
+    if (actors.length === 0) {
+      throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    PropertyLifecycleService.assertTransition(currentProperty.status, status, actors);
+
+    // Listings must meet the country's compliance rules before they go live
+    const isPublication = PropertyLifecycleService.isPublication(currentProperty.status, status);
+    const override = isPublication
+      ? await this.enforcePublishCompliance(
+        tx,
+        id,
+        userId,
+        currentProperty.address?.country ?? currentProperty.country,
+        currentProperty.status,
+        options
+      )
+      : null;
+
+    await PropertyLifecycleService.applyTransition(tx, {
+      propertyId: id,
+      from: currentProperty.status as PropertyStatus,
+      to: status,
+      changedById: userId,
+      notes,
+    });
+
+    // An override is only recorded if the listing really goes live
+    if (override) {
+      await tx.auditLog.create({ data: override });
+    }
+
+    return { ownerId: currentProperty.ownerId, isPublication, isOverride: !!override };
+  }
+
+  /**
+   * Follow-ups once a status change is committed
+   */
+  private static async finishStatusChange(
+    id: string,
+    userId: string,
+    change: AppliedStatusChange,
+    options: StatusChangeOptions = {}
+  ): Promise<void> {
+    if (change.isOverride) {
+      logger.warn('Compliance override', { propertyId: id, userId, reason: options.overrideReason });
+    }
+
+    await this.invalidateCaches(id, change.ownerId);
+
+    // Alert instant saved searches when a listing goes live; digests pick it up later
+    if (change.isPublication) {
+      NotificationService.sendPropertyNotification(id, 'new_listing').catch(error => {
+        logger.error('Saved search alert error:', error);
+      });
+    }
+  }
+
+  /**
+   * Renew a listing for another listing period. A live listing gets a new
+   * expiry date; an expired one goes back on the market.
+   */
+  static async renewListing(id: string, userId: string, options: StatusChangeOptions = {}): Promise<PropertyWithDetails> {
+    try {
+      const property = await prisma.property.findUnique({
         where: { id },
-        select: { 
-          status: true,
-          ownerId: true
-        },
+        select: { status: true, ownerId: true },
       });
 
-      if (!currentProperty) {
+      if (!property) {
         throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
       }
 
-      // Check ownership or admin role
-      if (currentProperty.ownerId !== ownerId) {
-        const user = await prisma.user.findUnique({
-          where: { id: ownerId },
-          select: { role: true },
-        });
-
-        if (!user || user.role !== UserRole.ADMIN) {
-          throw new AppError('Access denied', 403, 'ACCESS_DENIED');
-        }
+      const actors = await PropertyLifecycleService.getActors(property.ownerId, userId);
+      if (actors.length === 0) {
+        throw new AppError('Access denied', 403, 'ACCESS_DENIED');
       }
 
-      const updateData: any = { status };
+      if (property.status === PropertyStatus.EXPIRED) {
+        return await this.updatePropertyStatus(id, userId, PropertyStatus.ACTIVE, 'Listing renewed', options);
+      }
 
-      // Set dates based on status transitions
-      if (status === PropertyStatus.ACTIVE) {
-        updateData.publishedAt = new Date();
-      } else if (status === PropertyStatus.SOLD || status === PropertyStatus.RENTED) {
-        updateData.expiresAt = new Date();
+      if (property.status !== PropertyStatus.ACTIVE) {
+        throw new AppError(`A ${property.status} listing cannot be renewed`, 409, 'LISTING_NOT_RENEWABLE');
       }
 
-      // Create status history entry
-      const statusHistory = await prisma.propertyStatusHistory.create({
-        data: {
-          propertyId: id,
-          previousStatus: currentProperty.status,
-          newStatus: status,
-          changedById: ownerId,
-          notes: notes || `Status changed from ${currentProperty.status} to ${status}`,
-        },
-      });
+      const dates = PropertyLifecycleService.getExpiryDates();
 
-      // Update property status
-      const property = await prisma.property.update({
-        where: { id },
-        data: updateData,
-        include: {
-          address: true,
-          location: true,
-          features: true,
-          amenities: true,
-          images: {
-            orderBy: { order: 'asc' },
+      await prisma.$transaction(async (tx) => {
+        await tx.property.update({
+          where: { id },
+          data: dates,
+        });
+
+        await tx.propertyStatusHistory.create({
+          data: {
+            propertyId: id,
+            previousStatus: PropertyStatus.ACTIVE,
+            newStatus: PropertyStatus.ACTIVE,
+            changedById: userId,
+            notes: `Listing renewed until ${dates.expiresAt.toISOString().slice(0, 10)}`,
           },
-          documents: true,
-          tags: {
-            include: {
-              tag: true,
-            }
+        });
+      });
+
+      await this.invalidateCaches(id, property.ownerId);
+
+      return await this.getPropertyWithStatusHistory(id);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Load a listing with its tags and latest status changes, as returned after a status change
+   */
+  private static async getPropertyWithStatusHistory(id: string): Promise<PropertyWithDetails> {
+    const property = await prisma.property.findUniqueOrThrow({
+      where: { id },
+      include: {
+        address: true,
+        location: true,
+        features: true,
+        amenities: true,
+        images: {
+          orderBy: { order: 'asc' },
+        },
+        documents: true,
+        tags: {
+          include: {
+            tag: true,
+          }
+        },
+        owner: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            role: true,
+            profile: true,
           },
-          owner: {
-            select: {
-              id: true,
-              email: true,
-              firstName: true,
-              lastName: true,
-              role: true,
-              profile: true,
-            },
+        },
+        statusHistory: {
+          orderBy: {
+            createdAt: 'desc',
           },
-          statusHistory: {
-            orderBy: {
-              createdAt: 'desc',
-            },
-            take: 5,
-            include: {
-              changedBy: {
-                select: {
-                  id: true,
-                  firstName: true,
-                  lastName: true,
-                  role: true,
-                }
+          take: 5,
+          include: {
+            changedBy: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                role: true,
               }
             }
           }
-        },
-      });
+        }
+      },
+    });
 
-      // Format the response to include tags
-      const formattedProperty = {
-        ...property,
-        tags: property.tags.map(pt => pt.tag),
-      };
+    // Format the response to include tags
+    const formattedProperty = {
+      ...property,
+      tags: property.tags.map(pt => pt.tag),
+    };
 
-      return formattedProperty as PropertyWithDetails;
-    } catch (error) {
-      if (error instanceof AppError) throw error;
-      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    return formattedProperty as PropertyWithDetails;
+  }
+
+  /**
+   * Drop cached responses built from a listing after a write
+   */
+  private static async invalidateCaches(propertyId: string, ownerId: string, relatedIds: string[] = []): Promise<void> {
+    await CacheService.invalidateByTags([
+      CacheTags.property(propertyId),
+      ...relatedIds.map(CacheTags.property),
+      CacheTags.owner(ownerId),
+      CacheTags.properties,
+    ]);
+  }
+
+  /**
+   * Look for duplicates of a saved listing without holding up the response
+   */
+  private static checkDuplicates(propertyId: string): void {
+    DuplicateDetectionService.checkProperty(propertyId).catch(error => {
+      logger.error('Duplicate check error:', error);
+    });
+  }
+
+  /**
+   * Block publishing on compliance violations, or when the listing has no
+   * country to check the rules of, unless an admin overrides it. Returns the
+   * audit entry for an override, to be written with the status change.
+   */
+  private static async enforcePublishCompliance(
+    tx: TransactionClient,
+    id: string,
+    userId: string,
+    country: string | null,
+    previousStatus: string,
+    options: StatusChangeOptions
+  ): Promise<Prisma.AuditLogUncheckedCreateInput | null> {
+    let violations: ComplianceViolation[] = [];
+
+    if (country) {
+      const result = await ComplianceService.validatePropertyCompliance(id, country, { client: tx });
+      violations = result.violations.filter(violation => violation.severity === 'error');
+
+      if (violations.length === 0) return null;
+
+      if (!options.overrideCompliance) {
+        throw new AppError(
+          `Property does not meet the listing requirements for ${country}`,
+          422,
+          'COMPLIANCE_VIOLATION',
+          { country, violations, warnings: result.warnings }
+        );
+      }
+    } else if (!options.overrideCompliance) {
+      throw new AppError('Property needs a country before it can be published', 422, 'COUNTRY_REQUIRED');
     }
+
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+
+    if (!user || user.role !== UserRole.ADMIN) {
+      throw new AppError('Only administrators can override compliance checks', 403, 'COMPLIANCE_OVERRIDE_DENIED');
+    }
+
+    return {
+      userId,
+      action: 'COMPLIANCE_OVERRIDE',
+      resource: 'property',
+      resourceId: id,
+      oldData: JSON.stringify({ status: previousStatus, country, violations }),
+      newData: JSON.stringify({ status: PropertyStatus.ACTIVE, reason: options.overrideReason }),
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent,
+    };
   }
 
   /**
@@ -835,7 +1345,7 @@ export class PropertyService {
       }
 
       // Add to favorites (ignore if already exists)
-      await prisma.propertyFavorite.create({
+      const favorite = await prisma.propertyFavorite.create({
         data: {
           propertyId,
           userId,
@@ -845,7 +1355,14 @@ export class PropertyService {
         if (error.code !== 'P2002') {
           throw error;
         }
+        return null;
       });
+
+      if (favorite) {
+        await PropertyAnalyticsService.record(propertyId, PropertyEventType.FAVORITE, { userId });
+      }
+
+      await CacheService.invalidateByTags([CacheTags.property(propertyId)]);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
@@ -863,6 +1380,8 @@ export class PropertyService {
           userId,
         },
       });
+
+      await CacheService.invalidateByTags([CacheTags.property(propertyId)]);
     } catch (error) {
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
     }
@@ -935,57 +1454,6 @@ export class PropertyService {
     }
   }
 
-  /**
-   * Get property analytics for owner
-   */
-  static async getPropertyAnalytics(propertyId: string, ownerId: string): Promise<any> {
-    try {
-      // Check ownership
-      const property = await prisma.property.findUnique({
-        where: { id: propertyId },
-        select: { ownerId: true, viewCount: true, createdAt: true },
-      });
-
-      if (!property) {
-        throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
-      }
-
-      if (property.ownerId !== ownerId) {
-        throw new AppError('Access denied', 403, 'ACCESS_DENIED');
-      }
-
-      // Get favorites count
-      const favoritesCount = await prisma.propertyFavorite.count({
-        where: { propertyId },
-      });
-
-      // Get similar properties count for comparison
-      const similarPropertiesCount = await prisma.property.count({
-        where: {
-          id: { not: propertyId },
-          status: PropertyStatus.ACTIVE,
-          isActive: true,
-        },
-      });
-
-      // Calculate days since listing
-      const daysSinceListing = Math.floor(
-        (Date.now() - property.createdAt.getTime()) / (1000 * 60 * 60 * 24)
-      );
-
-      return {
-        viewCount: property.viewCount,
-        favoritesCount,
-        daysSinceListing,
-        similarPropertiesCount,
-        averageViewsPerDay: daysSinceListing > 0 ? property.viewCount / daysSinceListing : 0,
-      };
-    } catch (error) {
-      if (error instanceof AppError) throw error;
-      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
-    }
-  }
-
   /**
    * Upload property documents
    */
@@ -1025,6 +1493,8 @@ export class PropertyService {
       });
 
       await Promise.all(documentPromises);
+
+      await this.invalidateCaches(propertyId, ownerId);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
@@ -1070,6 +1540,8 @@ export class PropertyService {
       await prisma.propertyDocument.delete({
         where: { id: documentId },
       });
+
+      await this.invalidateCaches(propertyId, ownerId);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
@@ -0,0 +1,369 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { prisma, redis, UserRole } from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import { SecurityService } from './security.service';
+import { TokenService } from './token.service';
+
+export type RateLimitGroup = 'api' | 'search' | 'auth' | 'login';
+
+export type RateLimitPlan = 'ANONYMOUS' | 'BUYER' | 'AGENT' | 'PARTNER';
+
+export type RateLimitStoreType = 'redis' | 'memory';
+
+export interface RateLimitQuota {
+  // Requests allowed in a burst; the bucket refills to this over the window
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Who a request is counted against: a partner API key, a signed-in user or,
+ * failing both, the client IP
+ */
+export interface RateLimitSubject {
+  type: 'key' | 'user' | 'ip';
+  id: string;
+  plan: RateLimitPlan;
+}
+
+export interface RateLimitBucketState {
+  tokens: number;
+  // Epoch milliseconds the tokens were counted at
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  group: RateLimitGroup;
+  quota: RateLimitQuota;
+  remaining: number;
+  // Seconds until the bucket is full again
+  resetSeconds: number;
+  // Seconds until the next request would be allowed, 0 when allowed now
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitInspection {
+  group: RateLimitGroup;
+  key: string;
+  quota: RateLimitQuota;
+  remaining: number;
+  resetSeconds: number;
+  tracked: boolean;
+}
+
+export type RateLimitTarget = { ip: string } | { userId: string } | { apiKey: string };
+
+/**
+ * Token buckets the limiter keeps. Taking a token must be atomic so that
+ * concurrent requests on several API replicas can't burst past the limit.
+ */
+export interface RateLimitStore {
+  /**
+   * Refill the bucket for the time passed, then take one token if there is
+   * one. Resolves to null when the store can't be reached.
+   */
+  consume(key: string, quota: RateLimitQuota): Promise<{ allowed: boolean; state: RateLimitBucketState } | null>;
+  get(key: string): Promise<RateLimitBucketState | null>;
+  delete(key: string): Promise<void>;
+}
+
+const STORE_TYPES: RateLimitStoreType[] = ['redis', 'memory'];
+
+const MINUTE = 60 * 1000;
+
+const PLAN_QUOTAS: Record<RateLimitPlan, Record<RateLimitGroup, RateLimitQuota>> = {
+  ANONYMOUS: {
+    api: { limit: 100, windowMs: 15 * MINUTE },
+    search: { limit: 60, windowMs: MINUTE },
+    auth: { limit: 10, windowMs: 15 * MINUTE },
+    login: { limit: 5, windowMs: 60 * MINUTE },
+  },
+  BUYER: {
+    api: { limit: 300, windowMs: 15 * MINUTE },
+    search: { limit: 120, windowMs: MINUTE },
+    auth: { limit: 10, windowMs: 15 * MINUTE },
+    login: { limit: 5, windowMs: 60 * MINUTE },
+  },
+  AGENT: {
+    api: { limit: 1000, windowMs: 15 * MINUTE },
+    search: { limit: 300, windowMs: MINUTE },
+    auth: { limit: 20, windowMs: 15 * MINUTE },
+    login: { limit: 10, windowMs: 60 * MINUTE },
+  },
+  PARTNER: {
+    api: { limit: 5000, windowMs: 15 * MINUTE },
+    search: { limit: 1000, windowMs: MINUTE },
+    auth: { limit: 10, windowMs: 15 * MINUTE },
+    login: { limit: 5, windowMs: 60 * MINUTE },
+  },
+};
+
+// Path prefixes with their own quota; everything else falls in "api"
+const ROUTE_GROUPS: Array<[string, RateLimitGroup]> = [
+  ['/api/auth/login', 'login'],
+  ['/api/auth/register', 'auth'],
+  ['/api/auth/refresh', 'auth'],
+  ['/api/auth/verify-email', 'auth'],
+  ['/api/auth/request-password-reset', 'auth'],
+  ['/api/auth/reset-password', 'auth'],
+  ['/api/search', 'search'],
+];
+
+export const RATE_LIMIT_GROUPS: RateLimitGroup[] = ['api', 'search', 'auth', 'login'];
+
+// Groups guarding credentials are counted in this process while the shared
+// store is down, instead of letting unlimited password guesses through
+const LOCAL_FALLBACK_GROUPS: RateLimitGroup[] = ['auth', 'login'];
+
+const KEY_PREFIX = 'rl:';
+
+/**
+ * Tokens a bucket holds after refilling from its last count
+ */
+const refill = (state: RateLimitBucketState | null, quota: RateLimitQuota, now: number): number => {
+  if (!state) return quota.limit;
+  const elapsed = Math.max(0, now - state.updatedAt);
+  return Math.min(quota.limit, state.tokens + (elapsed * quota.limit) / quota.windowMs);
+};
+
+// Refill and take in one step on the Redis server, on its clock, so replicas
+// neither race each other nor disagree about time
+const CONSUME_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or limit
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(limit, tokens + math.max(0, now - updatedAt) * limit / window)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], window)
+return { allowed, tostring(tokens), tostring(now) }
+`;
+
+/**
+ * Buckets shared by every API replica through Redis
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  async consume(key: string, quota: RateLimitQuota) {
+    const reply = await redis.eval(CONSUME_SCRIPT, [key], [String(quota.limit), String(quota.windowMs)]);
+    if (!Array.isArray(reply)) return null;
+
+    const [allowed, tokens, updatedAt] = reply;
+    return {
+      allowed: Number(allowed) === 1,
+      state: { tokens: Number(tokens), updatedAt: Number(updatedAt) },
+    };
+  }
+
+  async get(key: string): Promise<RateLimitBucketState | null> {
+    const state = await redis.hGetAll(key);
+    if (state['tokens'] === undefined) return null;
+    return { tokens: Number(state['tokens']), updatedAt: Number(state['updatedAt']) };
+  }
+
+  async delete(key: string): Promise<void> {
+    await redis.del(key);
+  }
+}
+
+/**
+ * Buckets held in this process, for a single instance in development and
+ * for tests
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, RateLimitBucketState>();
+
+  async consume(key: string, quota: RateLimitQuota) {
+    const now = Date.now();
+    const tokens = refill(this.buckets.get(key) || null, quota, now);
+    const allowed = tokens >= 1;
+    const state = { tokens: allowed ? tokens - 1 : tokens, updatedAt: now };
+
+    this.buckets.set(key, state);
+    return { allowed, state };
+  }
+
+  async get(key: string): Promise<RateLimitBucketState | null> {
+    return this.buckets.get(key) || null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.buckets.delete(key);
+  }
+}
+
+export function createRateLimitStore(
+  type: string = process.env['RATE_LIMIT_STORE'] || 'redis'
+): RateLimitStore {
+  switch (type) {
+    case 'redis':
+      return new RedisRateLimitStore();
+    case 'memory':
+      return new MemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown rate limit store "${type}", expected one of: ${STORE_TYPES.join(', ')}`);
+  }
+}
+
+/**
+ * Token-bucket rate limiting per client and route group. Each client gets
+ * a bucket per group sized by its plan: anonymous visitors by IP, signed-in
+ * users by role, and partners by API key.
+ */
+export class RateLimitService {
+  private static store: RateLimitStore | null = null;
+  private static fallbackStore = new MemoryRateLimitStore();
+
+  /**
+   * Store buckets are kept in, created from RATE_LIMIT_STORE on first use
+   */
+  static getStore(): RateLimitStore {
+    if (!this.store) {
+      this.store = createRateLimitStore();
+    }
+    return this.store;
+  }
+
+  /**
+   * Swap the bucket store, e.g. an in-memory one in tests
+   */
+  static setStore(store: RateLimitStore): void {
+    this.store = store;
+  }
+
+  static getQuota(plan: RateLimitPlan, group: RateLimitGroup): RateLimitQuota {
+    return PLAN_QUOTAS[plan][group];
+  }
+
+  static resolveGroup(path: string): RateLimitGroup {
+    const match = ROUTE_GROUPS.find(([prefix]) => path === prefix || path.startsWith(`${prefix}/`));
+    return match ? match[1] : 'api';
+  }
+
+  /**
+   * Work out who a request counts against. Runs before route authentication,
+   * so the bearer token is only checked for its signature here; a token that
+   * doesn't verify is counted by IP.
+   */
+  static async resolveSubject(req: Request): Promise<RateLimitSubject> {
+    const apiKey = req.get('X-API-Key');
+    if (apiKey && SecurityService.validateApiKey(apiKey)) {
+      return { type: 'key', id: this.fingerprint(apiKey), plan: 'PARTNER' };
+    }
+
+    const authHeader = req.headers.authorization;
+    if (authHeader?.startsWith('Bearer ')) {
+      try {
+        const decoded = await TokenService.verifyToken(authHeader.substring(7));
+        return { type: 'user', id: decoded.userId, plan: this.planForRole(decoded.role) };
+      } catch {
+        // Fall through to the IP
+      }
+    }
+
+    return { type: 'ip', id: req.ip || 'unknown', plan: 'ANONYMOUS' };
+  }
+
+  /**
+   * Take a token from the subject's bucket for the group. When the store is
+   * unavailable the auth and login groups fall back to buckets in this
+   * process; other groups resolve to null and the request is let through.
+   */
+  static async consume(subject: RateLimitSubject, group: RateLimitGroup): Promise<RateLimitResult | null> {
+    const quota = this.getQuota(subject.plan, group);
+    const key = this.buildKey(subject, group);
+    let outcome = await this.getStore().consume(key, quota);
+
+    if (!outcome && LOCAL_FALLBACK_GROUPS.includes(group)) {
+      outcome = await this.fallbackStore.consume(key, quota);
+    }
+    if (!outcome) return null;
+
+    const { tokens } = outcome.state;
+    return {
+      allowed: outcome.allowed,
+      group,
+      quota,
+      remaining: Math.floor(tokens),
+      resetSeconds: this.secondsUntil(quota.limit - tokens, quota),
+      retryAfterSeconds: outcome.allowed ? 0 : this.secondsUntil(1 - tokens, quota),
+    };
+  }
+
+  /**
+   * Current buckets of an IP, user or API key in every route group
+   */
+  static async inspect(target: RateLimitTarget): Promise<RateLimitInspection[]> {
+    const subject = await this.subjectFor(target);
+    const now = Date.now();
+
+    return Promise.all(RATE_LIMIT_GROUPS.map(async group => {
+      const key = this.buildKey(subject, group);
+      const quota = this.getQuota(subject.plan, group);
+      const state = await this.getStore().get(key);
+      const tokens = refill(state, quota, now);
+
+      return {
+        group,
+        key,
+        quota,
+        remaining: Math.floor(tokens),
+        resetSeconds: this.secondsUntil(quota.limit - tokens, quota),
+        tracked: state !== null,
+      };
+    }));
+  }
+
+  /**
+   * Refill the buckets of an IP, user or API key, in one group or all of them
+   */
+  static async reset(target: RateLimitTarget, group?: RateLimitGroup): Promise<string[]> {
+    const subject = await this.subjectFor(target);
+    const keys = (group ? [group] : RATE_LIMIT_GROUPS).map(name => this.buildKey(subject, name));
+
+    await Promise.all(keys.flatMap(key => [this.getStore().delete(key), this.fallbackStore.delete(key)]));
+    return keys;
+  }
+
+  private static async subjectFor(target: RateLimitTarget): Promise<RateLimitSubject> {
+    if ('apiKey' in target) {
+      return { type: 'key', id: this.fingerprint(target.apiKey), plan: 'PARTNER' };
+    }
+
+    if ('userId' in target) {
+      const user = await prisma.user.findUnique({ where: { id: target.userId }, select: { role: true } });
+      if (!user) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+      return { type: 'user', id: target.userId, plan: this.planForRole(user.role) };
+    }
+
+    return { type: 'ip', id: target.ip, plan: 'ANONYMOUS' };
+  }
+
+  private static planForRole(role: string): RateLimitPlan {
+    return role === UserRole.AGENT || role === UserRole.ADMIN ? 'AGENT' : 'BUYER';
+  }
+
+  private static buildKey(subject: RateLimitSubject, group: RateLimitGroup): string {
+    return `${KEY_PREFIX}${group}:${subject.type}:${subject.id}`;
+  }
+
+  // Keys stay out of Redis key names and logs
+  private static fingerprint(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+  }
+
+  private static secondsUntil(missingTokens: number, quota: RateLimitQuota): number {
+    return Math.max(0, Math.ceil((missingTokens * quota.windowMs) / quota.limit / 1000));
+  }
+}
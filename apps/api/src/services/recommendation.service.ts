@@ -0,0 +1,516 @@
+import { prisma, Prisma, PropertyStatus, BASE_CURRENCY, handlePrismaError } from '@eu-real-estate/database';
+import type { SavedSearchCriteria } from '@eu-real-estate/search';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { SavedSearchMatcher } from '../utils/saved-search-matcher';
+
+export type RecommendationReasonType =
+  | 'SIMILAR_TO_FAVORITES'
+  | 'SAVED_SEARCH'
+  | 'LOCATION'
+  | 'PRICE'
+  | 'ROOMS'
+  | 'TAGS'
+  | 'POPULAR';
+
+export interface RecommendationReason {
+  type: RecommendationReasonType;
+  message: string;
+  // How many of the user's homes or searches the reason is based on
+  count?: number;
+}
+
+/**
+ * What a user's favourites, saved searches, views and messages say they
+ * look for. Prices are in euros.
+ */
+export interface TasteProfile {
+  signals: {
+    favorites: number;
+    savedSearches: number;
+    views: number;
+    messages: number;
+  };
+  priceBand: { min: number; max: number } | null;
+  locations: Array<{ city: string; country: string | null; weight: number }>;
+  propertyTypes: Record<string, number>;
+  listingTypes: Record<string, number>;
+  bedrooms: { min: number; max: number } | null;
+  tags: Record<string, number>;
+}
+
+const RECOMMENDED_PROPERTY_INCLUDE = {
+  address: true,
+  features: true,
+  images: {
+    orderBy: [{ isMain: 'desc' as const }, { order: 'asc' as const }],
+    take: 1,
+  },
+  tags: {
+    include: { tag: true },
+  },
+};
+
+export type RecommendedProperty = Prisma.PropertyGetPayload<{ include: typeof RECOMMENDED_PROPERTY_INCLUDE }>;
+
+export interface PropertyRecommendation {
+  property: RecommendedProperty;
+  score: number;
+  reasons: RecommendationReason[];
+}
+
+export interface RecommendationFeed {
+  recommendations: PropertyRecommendation[];
+  profile: TasteProfile;
+}
+
+// A listing the user interacted with, weighted by how strong the signal is
+interface WeightedProperty {
+  property: RecommendedProperty;
+  weight: number;
+}
+
+interface NamedCriteria {
+  name: string;
+  criteria: SavedSearchCriteria;
+}
+
+/**
+ * Recommends listings from a taste profile built out of the user's
+ * favourites, saved searches, viewed listings and messages about listings.
+ *
+ * Candidates are scored in process on price band, location, rooms, tags and
+ * type, so recommendations work without a search cluster. Each comes with
+ * the reasons it was picked.
+ */
+export class RecommendationService {
+  private static readonly CANDIDATE_LIMIT = 300;
+  private static readonly VIEW_WINDOW_DAYS = 90;
+  private static readonly VIEW_LIMIT = 200;
+  // Price band either side of the typical price of homes the user engaged with
+  private static readonly PRICE_BAND_SPREAD = 0.25;
+  private static readonly SIGNAL_WEIGHTS = {
+    favorite: 3,
+    message: 4,
+    savedSearch: 2,
+    view: 1,
+  };
+  // Views of the same listing stop adding weight after this many
+  private static readonly MAX_VIEW_WEIGHT = 3;
+  private static readonly SCORE_WEIGHTS = {
+    price: 0.3,
+    location: 0.3,
+    rooms: 0.15,
+    tags: 0.15,
+    type: 0.1,
+  };
+  private static readonly SAVED_SEARCH_BOOST = 0.1;
+  // Listings the user already opened rank below fresh ones
+  private static readonly VIEWED_PENALTY = 0.2;
+
+  /**
+   * Get recommended listings for a user, best first
+   */
+  static async getRecommendations(userId: string, limit: number = 10): Promise<RecommendationFeed> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, country: true, profile: { select: { country: true } } },
+      });
+
+      if (!user) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const { favorites, contacted, viewed, searches } = await this.loadSignals(userId);
+      const profile: TasteProfile = {
+        signals: {
+          favorites: favorites.length,
+          savedSearches: searches.length,
+          views: viewed.length,
+          messages: contacted.length,
+        },
+        ...this.buildTasteProfile([...favorites, ...contacted, ...viewed], searches),
+      };
+
+      // Homes already saved or asked about aren't news to the user
+      const excludedIds = [...favorites, ...contacted].map(({ property }) => property.id);
+      const hasSignals = favorites.length + contacted.length + viewed.length + searches.length > 0;
+
+      const recommendations = hasSignals
+        ? await this.recommendFromProfile(userId, profile, { favorites, viewed, searches }, excludedIds, limit)
+        : await this.recommendPopular(userId, user.profile?.country || user.country, limit);
+
+      return { recommendations, profile };
+    } catch (error) {
+      logger.error('Get recommendations error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Combine weighted listings and saved search criteria into a taste profile
+   */
+  static buildTasteProfile(properties: WeightedProperty[], searches: NamedCriteria[]): Omit<TasteProfile, 'signals'> {
+    const locations = new Map<string, { city: string; country: string | null; weight: number }>();
+    const propertyTypes: Record<string, number> = {};
+    const listingTypes: Record<string, number> = {};
+    const tags: Record<string, number> = {};
+    const prices: Array<{ value: number; weight: number }> = [];
+    const bedrooms: Array<{ value: number; weight: number }> = [];
+
+    const addLocation = (city: string | null | undefined, country: string | null | undefined, weight: number) => {
+      if (!city) return;
+      const key = this.locationKey(city);
+      const existing = locations.get(key);
+      locations.set(key, { city: existing?.city ?? city, country: existing?.country ?? country ?? null, weight: (existing?.weight ?? 0) + weight });
+    };
+    const add = (record: Record<string, number>, key: string, weight: number) => {
+      record[key] = (record[key] ?? 0) + weight;
+    };
+
+    for (const { property, weight } of properties) {
+      addLocation(property.address?.city ?? property.city, property.address?.country ?? property.country, weight);
+      add(propertyTypes, property.propertyType, weight);
+      add(listingTypes, property.listingType, weight);
+      property.tags.forEach(({ tag }) => add(tags, tag.name, weight));
+
+      const price = this.euroPrice(property);
+      if (price !== null) prices.push({ value: price, weight });
+
+      const rooms = property.features?.bedrooms ?? property.bedrooms;
+      if (rooms !== null && rooms !== undefined) bedrooms.push({ value: rooms, weight });
+    }
+
+    const typicalPrice = this.weightedMedian(prices);
+    let priceBand = typicalPrice === null ? null : {
+      min: Math.round(typicalPrice * (1 - this.PRICE_BAND_SPREAD)),
+      max: Math.round(typicalPrice * (1 + this.PRICE_BAND_SPREAD)),
+    };
+
+    const typicalBedrooms = this.weightedMedian(bedrooms);
+    let bedroomRange = typicalBedrooms === null ? null : {
+      min: Math.max(0, Math.round(typicalBedrooms) - 1),
+      max: Math.round(typicalBedrooms) + 1,
+    };
+
+    const weight = this.SIGNAL_WEIGHTS.savedSearch;
+    for (const { criteria } of searches) {
+      addLocation(criteria.city, criteria.country, weight);
+      criteria.propertyType?.forEach(type => add(propertyTypes, type, weight));
+      if (criteria.listingType) add(listingTypes, criteria.listingType, weight);
+      criteria.tags?.forEach(tag => add(tags, tag, weight));
+
+      // Budgets and room counts searched for widen what the listings suggest;
+      // an open-ended search counts up to double its minimum
+      const { priceMin, priceMax, bedroomsMin, bedroomsMax } = criteria;
+      if (priceMin !== undefined || priceMax !== undefined) {
+        priceBand = priceBand
+          ? { min: Math.min(priceBand.min, priceMin ?? priceBand.min), max: Math.max(priceBand.max, priceMax ?? priceBand.max) }
+          : { min: priceMin ?? 0, max: priceMax ?? priceMin! * 2 };
+      }
+      if (bedroomsMin !== undefined || bedroomsMax !== undefined) {
+        bedroomRange = bedroomRange
+          ? { min: Math.min(bedroomRange.min, bedroomsMin ?? bedroomRange.min), max: Math.max(bedroomRange.max, bedroomsMax ?? bedroomRange.max) }
+          : { min: bedroomsMin ?? 0, max: bedroomsMax ?? bedroomsMin! * 2 };
+      }
+    }
+
+    return {
+      priceBand,
+      locations: Array.from(locations.values()).sort((a, b) => b.weight - a.weight),
+      propertyTypes,
+      listingTypes,
+      bedrooms: bedroomRange,
+      tags,
+    };
+  }
+
+  /**
+   * Score a listing against a taste profile, between 0 and 1
+   */
+  static scoreProperty(property: RecommendedProperty, profile: TasteProfile): number {
+    const weights = this.SCORE_WEIGHTS;
+    return weights.price * this.priceScore(property, profile)
+      + weights.location * this.locationScore(property, profile)
+      + weights.rooms * this.roomScore(property, profile)
+      + weights.tags * this.tagScore(property, profile)
+      + weights.type * this.typeScore(property, profile);
+  }
+
+  private static async loadSignals(userId: string): Promise<{
+    favorites: WeightedProperty[];
+    contacted: WeightedProperty[];
+    viewed: WeightedProperty[];
+    searches: NamedCriteria[];
+  }> {
+    const viewedSince = new Date(Date.now() - this.VIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const [favorites, messages, views, savedSearches] = await Promise.all([
+      prisma.propertyFavorite.findMany({
+        where: { userId },
+        include: { property: { include: RECOMMENDED_PROPERTY_INCLUDE } },
+      }),
+      prisma.message.findMany({
+        where: { senderId: userId, transactionId: { not: null } },
+        select: { transaction: { select: { property: { include: RECOMMENDED_PROPERTY_INCLUDE } } } },
+      }),
+      prisma.propertyView.findMany({
+        where: { userId, viewedAt: { gte: viewedSince } },
+        orderBy: { viewedAt: 'desc' },
+        take: this.VIEW_LIMIT,
+        include: { property: { include: RECOMMENDED_PROPERTY_INCLUDE } },
+      }),
+      prisma.savedSearch.findMany({
+        where: { userId, isActive: true },
+        select: { name: true, criteria: true },
+      }),
+    ]);
+
+    const favoriteIds = new Set(favorites.map(favorite => favorite.propertyId));
+
+    // One entry per listing messaged about, however many messages were sent
+    const contacted = new Map<string, WeightedProperty>();
+    messages.forEach(({ transaction }) => {
+      const property = transaction?.property;
+      if (property && !favoriteIds.has(property.id)) {
+        contacted.set(property.id, { property, weight: this.SIGNAL_WEIGHTS.message });
+      }
+    });
+
+    // Repeat visits count for more, up to a cap; saved and contacted homes are already counted
+    const viewed = new Map<string, WeightedProperty>();
+    views.forEach(({ property }) => {
+      if (favoriteIds.has(property.id) || contacted.has(property.id)) return;
+      const weight = (viewed.get(property.id)?.weight ?? 0) + this.SIGNAL_WEIGHTS.view;
+      viewed.set(property.id, { property, weight: Math.min(weight, this.MAX_VIEW_WEIGHT) });
+    });
+
+    return {
+      favorites: favorites.map(({ property }) => ({ property, weight: this.SIGNAL_WEIGHTS.favorite })),
+      contacted: Array.from(contacted.values()),
+      viewed: Array.from(viewed.values()),
+      searches: savedSearches.map(search => ({
+        name: search.name,
+        criteria: SavedSearchMatcher.normalizeCriteria(search.criteria),
+      })),
+    };
+  }
+
+  private static async recommendFromProfile(
+    userId: string,
+    profile: TasteProfile,
+    signals: { favorites: WeightedProperty[]; viewed: WeightedProperty[]; searches: NamedCriteria[] },
+    excludedIds: string[],
+    limit: number
+  ): Promise<PropertyRecommendation[]> {
+    const { favorites, viewed, searches } = signals;
+    const viewedIds = new Set(viewed.map(({ property }) => property.id));
+    const cities = profile.locations.map(location => location.city);
+    const types = Object.keys(profile.propertyTypes);
+
+    // Only load listings that share a location or type with the profile
+    const candidates = await prisma.property.findMany({
+      where: {
+        status: PropertyStatus.ACTIVE,
+        isActive: true,
+        duplicateOfId: null,
+        ownerId: { not: userId },
+        id: { notIn: excludedIds },
+        ...(cities.length > 0 || types.length > 0 ? {
+          OR: [
+            ...(cities.length > 0 ? [{ address: { city: { in: cities } } }, { city: { in: cities } }] : []),
+            ...(types.length > 0 ? [{ propertyType: { in: types } }] : []),
+          ],
+        } : {}),
+      },
+      include: RECOMMENDED_PROPERTY_INCLUDE,
+      orderBy: [{ publishedAt: 'desc' }, { createdAt: 'desc' }],
+      take: this.CANDIDATE_LIMIT,
+    });
+
+    return candidates
+      .map(property => {
+        const matchedSearch = searches.find(({ criteria }) => SavedSearchMatcher.matches(property, criteria));
+        const score = this.scoreProperty(property, profile)
+          + (matchedSearch ? this.SAVED_SEARCH_BOOST : 0)
+          - (viewedIds.has(property.id) ? this.VIEWED_PENALTY : 0);
+
+        return {
+          property,
+          score: Math.round(Math.min(Math.max(score, 0), 1) * 1000) / 1000,
+          reasons: this.explain(property, profile, favorites, matchedSearch),
+        };
+      })
+      .filter(recommendation => recommendation.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Most viewed listings, for users with nothing to go on yet
+   */
+  private static async recommendPopular(
+    userId: string,
+    country: string | null,
+    limit: number
+  ): Promise<PropertyRecommendation[]> {
+    const properties = await prisma.property.findMany({
+      where: {
+        status: PropertyStatus.ACTIVE,
+        isActive: true,
+        duplicateOfId: null,
+        ownerId: { not: userId },
+        ...(country ? { address: { country } } : {}),
+      },
+      include: RECOMMENDED_PROPERTY_INCLUDE,
+      orderBy: [{ viewCount: 'desc' }, { createdAt: 'desc' }],
+      take: limit,
+    });
+
+    return properties.map(property => ({
+      property,
+      score: 0,
+      reasons: [{ type: 'POPULAR', message: country ? `Popular in ${country}` : 'Popular right now' }],
+    }));
+  }
+
+  private static explain(
+    property: RecommendedProperty,
+    profile: TasteProfile,
+    favorites: WeightedProperty[],
+    matchedSearch: NamedCriteria | undefined
+  ): RecommendationReason[] {
+    const reasons: RecommendationReason[] = [];
+    const price = this.euroPrice(property);
+    const city = property.address?.city ?? property.city;
+
+    const similar = favorites.filter(({ property: favorite }) => this.isSimilar(property, favorite)).length;
+    if (similar > 0) {
+      reasons.push({
+        type: 'SIMILAR_TO_FAVORITES',
+        message: `Similar to ${similar} ${similar === 1 ? 'home' : 'homes'} you saved`,
+        count: similar,
+      });
+    }
+
+    if (matchedSearch) {
+      reasons.push({ type: 'SAVED_SEARCH', message: `Matches your saved search "${matchedSearch.name}"` });
+    }
+
+    if (city && this.locationScore(property, profile) > 0) {
+      reasons.push({ type: 'LOCATION', message: `In ${city}, where you've been looking` });
+    }
+
+    if (profile.priceBand && price !== null && this.priceScore(property, profile) === 1) {
+      reasons.push({
+        type: 'PRICE',
+        message: `Within your usual ${this.formatEuros(profile.priceBand.min)}–${this.formatEuros(profile.priceBand.max)} budget`,
+      });
+    }
+
+    const rooms = property.features?.bedrooms ?? property.bedrooms;
+    if (rooms && this.roomScore(property, profile) === 1) {
+      reasons.push({ type: 'ROOMS', message: `${rooms} ${rooms === 1 ? 'bedroom' : 'bedrooms'}, like the homes you looked at` });
+    }
+
+    const tags = property.tags.map(({ tag }) => tag.name).filter(name => profile.tags[name]);
+    if (tags.length > 0) {
+      reasons.push({ type: 'TAGS', message: `Tagged ${tags.join(', ')}`, count: tags.length });
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Same city and type, and within the price band of the saved home
+   */
+  private static isSimilar(property: RecommendedProperty, favorite: RecommendedProperty): boolean {
+    const city = property.address?.city ?? property.city;
+    const favoriteCity = favorite.address?.city ?? favorite.city;
+    if (!city || !favoriteCity || this.locationKey(city) !== this.locationKey(favoriteCity)) return false;
+    if (property.propertyType !== favorite.propertyType) return false;
+
+    const price = this.euroPrice(property);
+    const favoritePrice = this.euroPrice(favorite);
+    if (price === null || favoritePrice === null) return false;
+
+    return Math.abs(price - favoritePrice) <= favoritePrice * this.PRICE_BAND_SPREAD;
+  }
+
+  private static priceScore(property: RecommendedProperty, profile: TasteProfile): number {
+    const price = this.euroPrice(property);
+    if (!profile.priceBand || price === null) return 0;
+
+    const { min, max } = profile.priceBand;
+    if (price >= min && price <= max) return 1;
+
+    // Fall off linearly, reaching zero a band's width outside it
+    const width = max - min || max;
+    const distance = price < min ? min - price : price - max;
+    return Math.max(0, 1 - distance / width);
+  }
+
+  private static locationScore(property: RecommendedProperty, profile: TasteProfile): number {
+    const city = property.address?.city ?? property.city;
+    const strongest = profile.locations[0]?.weight;
+    if (!city || !strongest) return 0;
+
+    const match = profile.locations.find(location => this.locationKey(location.city) === this.locationKey(city));
+    return match ? match.weight / strongest : 0;
+  }
+
+  private static roomScore(property: RecommendedProperty, profile: TasteProfile): number {
+    const rooms = property.features?.bedrooms ?? property.bedrooms;
+    if (!profile.bedrooms || rooms === null || rooms === undefined) return 0;
+
+    const { min, max } = profile.bedrooms;
+    if (rooms >= min && rooms <= max) return 1;
+    return rooms === min - 1 || rooms === max + 1 ? 0.5 : 0;
+  }
+
+  private static tagScore(property: RecommendedProperty, profile: TasteProfile): number {
+    const total = Object.values(profile.tags).reduce((sum, weight) => sum + weight, 0);
+    if (total === 0) return 0;
+
+    const matched = property.tags.reduce((sum, { tag }) => sum + (profile.tags[tag.name] ?? 0), 0);
+    return Math.min(1, matched / total);
+  }
+
+  private static typeScore(property: RecommendedProperty, profile: TasteProfile): number {
+    const share = (record: Record<string, number>, key: string) => {
+      const strongest = Math.max(0, ...Object.values(record));
+      return strongest > 0 ? (record[key] ?? 0) / strongest : 0;
+    };
+
+    return (share(profile.propertyTypes, property.propertyType) + share(profile.listingTypes, property.listingType)) / 2;
+  }
+
+  private static euroPrice(property: Pick<RecommendedProperty, 'price' | 'priceEur' | 'currency'>): number | null {
+    if (property.priceEur !== null) return property.priceEur;
+    return property.currency === BASE_CURRENCY ? property.price : null;
+  }
+
+  private static weightedMedian(values: Array<{ value: number; weight: number }>): number | null {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a.value - b.value);
+    const half = sorted.reduce((sum, { weight }) => sum + weight, 0) / 2;
+
+    let running = 0;
+    for (const { value, weight } of sorted) {
+      running += weight;
+      if (running >= half) return value;
+    }
+    return sorted[sorted.length - 1].value;
+  }
+
+  private static locationKey(city: string): string {
+    return city.trim().toLowerCase();
+  }
+
+  private static formatEuros(amount: number): string {
+    return new Intl.NumberFormat('en-IE', { style: 'currency', currency: BASE_CURRENCY, maximumFractionDigits: 0 }).format(amount);
+  }
+}
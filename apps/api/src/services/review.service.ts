@@ -0,0 +1,548 @@
+import { prisma } from '@eu-real-estate/database';
+import {
+  Review,
+  ReviewStatus,
+  ReviewTargetRole,
+  TransactionStatus,
+  UserRole,
+  PaginationOptions,
+  PaginatedResult,
+  createPaginationParams,
+  createPaginatedResult,
+  handlePrismaError,
+} from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+
+export interface CreateReviewData {
+  targetId: string;
+  propertyId?: string;
+  transactionId?: string;
+  rating: number;
+  title?: string;
+  content: string;
+}
+
+export interface UpdateReviewData {
+  rating?: number;
+  title?: string;
+  content?: string;
+}
+
+export interface ReviewFilters {
+  targetId?: string;
+  propertyId?: string;
+  targetRole?: ReviewTargetRole;
+  verifiedOnly?: boolean;
+}
+
+export type ModerationDecision = 'APPROVE' | 'REJECT';
+
+export interface RatingSummary {
+  average: number | null;
+  count: number;
+  verifiedCount: number;
+  // Number of reviews per star rating, 1 to 5
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface UserReputation {
+  userId: string;
+  overall: RatingSummary;
+  roles: Partial<Record<ReviewTargetRole, RatingSummary>>;
+}
+
+export interface ReviewRatingCount {
+  targetRole: string;
+  rating: number;
+  isVerified: boolean;
+  count: number;
+}
+
+// Statuses an admin still has to look at
+const MODERATION_QUEUE_STATUSES: string[] = [ReviewStatus.PENDING, ReviewStatus.FLAGGED];
+
+const reviewInclude = {
+  reviewer: {
+    select: { id: true, firstName: true, lastName: true, avatar: true },
+  },
+  target: {
+    select: { id: true, firstName: true, lastName: true, role: true },
+  },
+  property: {
+    select: { id: true, title: true },
+  },
+};
+
+export class ReviewService {
+  /**
+   * Create a review. Reviews backed by a completed transaction between the
+   * reviewer and the target are verified and published straight away; the
+   * rest wait in the moderation queue.
+   */
+  static async createReview(reviewerId: string, data: CreateReviewData): Promise<Review> {
+    try {
+      if (reviewerId === data.targetId) {
+        throw new AppError('You cannot review yourself', 400, 'CANNOT_REVIEW_SELF');
+      }
+
+      const target = await prisma.user.findUnique({
+        where: { id: data.targetId },
+        select: { id: true, role: true, isActive: true },
+      });
+
+      if (!target || !target.isActive) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const transaction = data.transactionId
+        ? await this.getReviewableTransaction(data.transactionId, reviewerId, data.targetId)
+        : await this.findCompletedTransaction(reviewerId, data.targetId, data.propertyId);
+
+      const propertyId = transaction?.propertyId ?? data.propertyId;
+      if (!propertyId) {
+        throw new AppError('A property or transaction is required', 400, 'PROPERTY_REQUIRED');
+      }
+
+      if (transaction && data.propertyId && data.propertyId !== transaction.propertyId) {
+        throw new AppError('Transaction is for a different property', 400, 'PROPERTY_MISMATCH');
+      }
+
+      let targetRole: ReviewTargetRole;
+
+      if (transaction) {
+        targetRole = this.getTransactionRole(transaction, data.targetId)!;
+
+        const existing = await prisma.review.findUnique({
+          where: { reviewerId_transactionId: { reviewerId, transactionId: transaction.id } },
+        });
+
+        if (existing) {
+          throw new AppError('You have already reviewed this transaction', 409, 'REVIEW_EXISTS');
+        }
+      } else {
+        const property = await prisma.property.findUnique({
+          where: { id: propertyId },
+          select: { ownerId: true },
+        });
+
+        if (!property) {
+          throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+        }
+
+        // Without a transaction only the listing owner can be reviewed
+        if (property.ownerId !== data.targetId) {
+          throw new AppError('You can only review the owner of this listing', 403, 'NOT_REVIEWABLE');
+        }
+
+        targetRole = target.role === UserRole.AGENT ? ReviewTargetRole.AGENT : ReviewTargetRole.SELLER;
+
+        const existing = await prisma.review.findFirst({
+          where: { reviewerId, targetId: data.targetId, propertyId, transactionId: null },
+        });
+
+        if (existing) {
+          throw new AppError('You have already reviewed this user for this property', 409, 'REVIEW_EXISTS');
+        }
+      }
+
+      const review = await prisma.review.create({
+        data: {
+          propertyId,
+          reviewerId,
+          targetId: data.targetId,
+          transactionId: transaction?.id,
+          targetRole,
+          rating: data.rating,
+          title: data.title,
+          content: data.content,
+          isVerified: !!transaction,
+          status: transaction ? ReviewStatus.PUBLISHED : ReviewStatus.PENDING,
+        },
+        include: reviewInclude,
+      });
+
+      logger.info(`Review created: ${review.id}`, {
+        reviewerId,
+        targetId: data.targetId,
+        isVerified: review.isVerified,
+      });
+
+      return review;
+    } catch (error) {
+      logger.error('Create review error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Published reviews, newest first
+   */
+  static async getReviews(
+    filters: ReviewFilters = {},
+    pagination: PaginationOptions = {}
+  ): Promise<PaginatedResult<Review>> {
+    try {
+      const { skip, take, page, limit } = createPaginationParams(pagination);
+
+      const where = {
+        status: ReviewStatus.PUBLISHED,
+        targetId: filters.targetId,
+        propertyId: filters.propertyId,
+        targetRole: filters.targetRole,
+        ...(filters.verifiedOnly && { isVerified: true }),
+      };
+
+      const [reviews, total] = await Promise.all([
+        prisma.review.findMany({
+          where,
+          skip,
+          take,
+          orderBy: { createdAt: 'desc' },
+          include: reviewInclude,
+        }),
+        prisma.review.count({ where }),
+      ]);
+
+      return createPaginatedResult(reviews, total, page, limit);
+    } catch (error) {
+      logger.error('Get reviews error:', error);
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Get a review. Unpublished reviews are only visible to their author and admins.
+   */
+  static async getReviewById(id: string, userId?: string, userRole?: UserRole): Promise<Review> {
+    try {
+      const review = await prisma.review.findUnique({
+        where: { id },
+        include: reviewInclude,
+      });
+
+      const canSeeUnpublished = review && (review.reviewerId === userId || userRole === UserRole.ADMIN);
+
+      if (!review || (review.status !== ReviewStatus.PUBLISHED && !canSeeUnpublished)) {
+        throw new AppError('Review not found', 404, 'REVIEW_NOT_FOUND');
+      }
+
+      return review;
+    } catch (error) {
+      logger.error('Get review error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Update a review. Edits to unverified or moderated reviews go back into the queue.
+   */
+  static async updateReview(id: string, reviewerId: string, data: UpdateReviewData): Promise<Review> {
+    try {
+      const review = await this.getOwnReview(id, reviewerId);
+
+      const keepsPublished = review.isVerified && review.status === ReviewStatus.PUBLISHED;
+
+      return await prisma.review.update({
+        where: { id },
+        data: {
+          ...data,
+          status: keepsPublished ? ReviewStatus.PUBLISHED : ReviewStatus.PENDING,
+          flagReason: keepsPublished ? review.flagReason : null,
+        },
+        include: reviewInclude,
+      });
+    } catch (error) {
+      logger.error('Update review error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Delete a review (author or admin)
+   */
+  static async deleteReview(id: string, userId: string, userRole: UserRole): Promise<void> {
+    try {
+      const review = await prisma.review.findUnique({
+        where: { id },
+        select: { reviewerId: true },
+      });
+
+      if (!review) {
+        throw new AppError('Review not found', 404, 'REVIEW_NOT_FOUND');
+      }
+
+      if (review.reviewerId !== userId && userRole !== UserRole.ADMIN) {
+        throw new AppError('You can only delete your own reviews', 403, 'ACCESS_DENIED');
+      }
+
+      await prisma.review.delete({ where: { id } });
+
+      logger.info(`Review deleted: ${id}`, { userId });
+    } catch (error) {
+      logger.error('Delete review error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Report a published review so an admin looks at it again
+   */
+  static async flagReview(id: string, userId: string, reason: string): Promise<void> {
+    try {
+      const review = await prisma.review.findUnique({
+        where: { id },
+        select: { status: true, reviewerId: true },
+      });
+
+      if (!review || review.status === ReviewStatus.REJECTED) {
+        throw new AppError('Review not found', 404, 'REVIEW_NOT_FOUND');
+      }
+
+      if (review.reviewerId === userId) {
+        throw new AppError('You cannot report your own review', 400, 'CANNOT_FLAG_OWN_REVIEW');
+      }
+
+      // Reviews already waiting for moderation keep their place in the queue
+      if (review.status !== ReviewStatus.PUBLISHED) return;
+
+      await prisma.review.update({
+        where: { id },
+        data: { status: ReviewStatus.FLAGGED, flagReason: reason },
+      });
+
+      logger.info(`Review flagged: ${id}`, { userId });
+    } catch (error) {
+      logger.error('Flag review error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Reviews waiting for moderation, oldest first
+   */
+  static async getModerationQueue(
+    status?: ReviewStatus,
+    pagination: PaginationOptions = {}
+  ): Promise<PaginatedResult<Review>> {
+    try {
+      const { skip, take, page, limit } = createPaginationParams(pagination);
+
+      const where = {
+        status: status ? status : { in: MODERATION_QUEUE_STATUSES },
+      };
+
+      const [reviews, total] = await Promise.all([
+        prisma.review.findMany({
+          where,
+          skip,
+          take,
+          orderBy: { updatedAt: 'asc' },
+          include: reviewInclude,
+        }),
+        prisma.review.count({ where }),
+      ]);
+
+      return createPaginatedResult(reviews, total, page, limit);
+    } catch (error) {
+      logger.error('Get moderation queue error:', error);
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Approve or reject a queued review and record the decision in the audit log
+   */
+  static async moderateReview(
+    id: string,
+    moderatorId: string,
+    decision: ModerationDecision,
+    note?: string
+  ): Promise<Review> {
+    try {
+      const review = await prisma.review.findUnique({ where: { id } });
+
+      if (!review) {
+        throw new AppError('Review not found', 404, 'REVIEW_NOT_FOUND');
+      }
+
+      if (!MODERATION_QUEUE_STATUSES.includes(review.status)) {
+        throw new AppError('Review is not awaiting moderation', 409, 'REVIEW_NOT_IN_QUEUE');
+      }
+
+      const status = decision === 'APPROVE' ? ReviewStatus.PUBLISHED : ReviewStatus.REJECTED;
+
+      const [updated] = await prisma.$transaction([
+        prisma.review.update({
+          where: { id },
+          data: {
+            status,
+            moderatedById: moderatorId,
+            moderatedAt: new Date(),
+            moderationNote: note,
+          },
+          include: reviewInclude,
+        }),
+        prisma.auditLog.create({
+          data: {
+            userId: moderatorId,
+            action: 'REVIEW_MODERATED',
+            resource: 'review',
+            resourceId: id,
+            oldData: JSON.stringify({ status: review.status, flagReason: review.flagReason }),
+            newData: JSON.stringify({ status, note }),
+          },
+        }),
+      ]);
+
+      logger.info(`Review ${decision === 'APPROVE' ? 'approved' : 'rejected'}: ${id}`, { moderatorId });
+
+      return updated;
+    } catch (error) {
+      logger.error('Moderate review error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Aggregated score of a user from their published reviews, overall and per role
+   */
+  static async getUserReputation(userId: string): Promise<UserReputation> {
+    try {
+      const groups = await prisma.review.groupBy({
+        by: ['targetRole', 'rating', 'isVerified'],
+        where: { targetId: userId, status: ReviewStatus.PUBLISHED },
+        _count: { _all: true },
+      });
+
+      return this.summarizeRatings(
+        userId,
+        groups.map(group => ({
+          targetRole: group.targetRole,
+          rating: group.rating,
+          isVerified: group.isVerified,
+          count: group._count._all,
+        }))
+      );
+    } catch (error) {
+      logger.error('Get user reputation error:', error);
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Build a reputation from review counts grouped by role, rating and verification
+   */
+  static summarizeRatings(userId: string, counts: ReviewRatingCount[]): UserReputation {
+    const summarize = (rows: ReviewRatingCount[]): RatingSummary => {
+      const distribution: RatingSummary['distribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+      let count = 0;
+      let verifiedCount = 0;
+      let total = 0;
+
+      for (const row of rows) {
+        distribution[row.rating as keyof RatingSummary['distribution']] += row.count;
+        count += row.count;
+        total += row.rating * row.count;
+        if (row.isVerified) verifiedCount += row.count;
+      }
+
+      return {
+        average: count > 0 ? Math.round((total / count) * 10) / 10 : null,
+        count,
+        verifiedCount,
+        distribution,
+      };
+    };
+
+    const roles: UserReputation['roles'] = {};
+    for (const role of new Set(counts.map(row => row.targetRole))) {
+      roles[role as ReviewTargetRole] = summarize(counts.filter(row => row.targetRole === role));
+    }
+
+    return {
+      userId,
+      overall: summarize(counts),
+      roles,
+    };
+  }
+
+  /**
+   * Load a completed transaction both users took part in
+   */
+  private static async getReviewableTransaction(transactionId: string, reviewerId: string, targetId: string) {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+      select: { id: true, propertyId: true, status: true, buyerId: true, sellerId: true, agentId: true },
+    });
+
+    if (!transaction) {
+      throw new AppError('Transaction not found', 404, 'TRANSACTION_NOT_FOUND');
+    }
+
+    if (!this.getTransactionRole(transaction, reviewerId) || !this.getTransactionRole(transaction, targetId)) {
+      throw new AppError('Both users must be parties to the transaction', 403, 'NOT_TRANSACTION_PARTY');
+    }
+
+    if (transaction.status !== TransactionStatus.COMPLETED) {
+      throw new AppError('Only completed transactions can be reviewed', 409, 'TRANSACTION_NOT_COMPLETED');
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Most recent completed transaction linking the reviewer and the target that
+   * the reviewer has not reviewed yet
+   */
+  private static async findCompletedTransaction(reviewerId: string, targetId: string, propertyId?: string) {
+    const parties = (userId: string) => [{ buyerId: userId }, { sellerId: userId }, { agentId: userId }];
+
+    return prisma.transaction.findFirst({
+      where: {
+        propertyId,
+        status: TransactionStatus.COMPLETED,
+        AND: [{ OR: parties(reviewerId) }, { OR: parties(targetId) }],
+        reviews: { none: { reviewerId } },
+      },
+      orderBy: { completionDate: 'desc' },
+      select: { id: true, propertyId: true, status: true, buyerId: true, sellerId: true, agentId: true },
+    });
+  }
+
+  /**
+   * Role a user played in a transaction
+   */
+  private static getTransactionRole(
+    transaction: { buyerId: string | null; sellerId: string; agentId: string | null },
+    userId: string
+  ): ReviewTargetRole | null {
+    if (transaction.agentId === userId) return ReviewTargetRole.AGENT;
+    if (transaction.sellerId === userId) return ReviewTargetRole.SELLER;
+    if (transaction.buyerId === userId) return ReviewTargetRole.BUYER;
+    return null;
+  }
+
+  /**
+   * Load a review owned by the user
+   */
+  private static async getOwnReview(id: string, reviewerId: string): Promise<Review> {
+    const review = await prisma.review.findUnique({ where: { id } });
+
+    if (!review) {
+      throw new AppError('Review not found', 404, 'REVIEW_NOT_FOUND');
+    }
+
+    if (review.reviewerId !== reviewerId) {
+      throw new AppError('You can only edit your own reviews', 403, 'ACCESS_DENIED');
+    }
+
+    return review;
+  }
+}
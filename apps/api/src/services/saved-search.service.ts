@@ -0,0 +1,306 @@
+import { prisma } from '@eu-real-estate/database';
+import {
+  SavedSearch,
+  SavedSearchFrequency,
+  PropertyStatus,
+  NotificationType,
+  handlePrismaError,
+} from '@eu-real-estate/database';
+import type { SavedSearchCriteria } from '@eu-real-estate/search';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { IntervalJob } from '../utils/interval-job';
+import { SavedSearchMatcher, SavedSearchFilterColumns } from '../utils/saved-search-matcher';
+import { NotificationService } from './notification.service';
+
+export interface CreateSavedSearchData {
+  name: string;
+  criteria: SavedSearchCriteria;
+  frequency?: SavedSearchFrequency;
+  isActive?: boolean;
+}
+
+export type UpdateSavedSearchData = Partial<CreateSavedSearchData>;
+
+export interface SavedSearchWithCriteria extends Omit<SavedSearch, 'criteria' | keyof SavedSearchFilterColumns> {
+  criteria: SavedSearchCriteria;
+}
+
+type DigestFrequency = Exclude<SavedSearchFrequency, 'INSTANT'>;
+
+export class SavedSearchService {
+  private static readonly MAX_SAVED_SEARCHES = 20;
+  private static readonly DIGEST_CANDIDATE_LIMIT = 200;
+  private static readonly DIGEST_PREVIEW_SIZE = 5;
+  private static readonly DIGEST_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+  private static readonly DIGEST_PERIODS: Record<DigestFrequency, number> = {
+    DAILY: 24 * 60 * 60 * 1000,
+    WEEKLY: 7 * 24 * 60 * 60 * 1000,
+  };
+
+  private static readonly digestJob = new IntervalJob(
+    'Saved search digest scheduler',
+    this.DIGEST_CHECK_INTERVAL,
+    () => this.runDueDigests()
+  );
+
+  /**
+   * Get all saved searches for a user
+   */
+  static async getUserSavedSearches(userId: string): Promise<SavedSearchWithCriteria[]> {
+    try {
+      const searches = await prisma.savedSearch.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return searches.map(search => this.formatSavedSearch(search));
+    } catch (error) {
+      logger.error('Get saved searches error:', error);
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Get a single saved search owned by the user
+   */
+  static async getSavedSearch(id: string, userId: string): Promise<SavedSearchWithCriteria> {
+    try {
+      const search = await this.findOwnedSearch(id, userId);
+      return this.formatSavedSearch(search);
+    } catch (error) {
+      logger.error('Get saved search error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Save a new search for the user
+   */
+  static async createSavedSearch(userId: string, data: CreateSavedSearchData): Promise<SavedSearchWithCriteria> {
+    try {
+      const count = await prisma.savedSearch.count({ where: { userId } });
+
+      if (count >= this.MAX_SAVED_SEARCHES) {
+        throw new AppError(
+          `You can keep up to ${this.MAX_SAVED_SEARCHES} saved searches`,
+          400,
+          'SAVED_SEARCH_LIMIT_REACHED'
+        );
+      }
+
+      const criteria = SavedSearchMatcher.normalizeCriteria(data.criteria);
+      const search = await prisma.savedSearch.create({
+        data: {
+          userId,
+          name: data.name,
+          criteria: JSON.stringify(criteria),
+          ...SavedSearchMatcher.toFilterColumns(criteria),
+          frequency: data.frequency || SavedSearchFrequency.INSTANT,
+          isActive: data.isActive ?? true,
+        },
+      });
+
+      return this.formatSavedSearch(search);
+    } catch (error) {
+      logger.error('Create saved search error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Update a saved search owned by the user
+   */
+  static async updateSavedSearch(
+    id: string,
+    userId: string,
+    data: UpdateSavedSearchData
+  ): Promise<SavedSearchWithCriteria> {
+    try {
+      const existing = await this.findOwnedSearch(id, userId);
+
+      const updateData: any = {};
+      if (data.name !== undefined) updateData.name = data.name;
+      if (data.criteria !== undefined) {
+        const criteria = SavedSearchMatcher.normalizeCriteria(data.criteria);
+        Object.assign(updateData, { criteria: JSON.stringify(criteria) }, SavedSearchMatcher.toFilterColumns(criteria));
+      }
+      if (data.isActive !== undefined) updateData.isActive = data.isActive;
+      if (data.frequency !== undefined && data.frequency !== existing.frequency) {
+        updateData.frequency = data.frequency;
+        // Start the new schedule from now instead of replaying older listings
+        updateData.lastNotifiedAt = new Date();
+      }
+
+      const search = await prisma.savedSearch.update({
+        where: { id },
+        data: updateData,
+      });
+
+      return this.formatSavedSearch(search);
+    } catch (error) {
+      logger.error('Update saved search error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Delete a saved search owned by the user
+   */
+  static async deleteSavedSearch(id: string, userId: string): Promise<void> {
+    try {
+      await this.findOwnedSearch(id, userId);
+      await prisma.savedSearch.delete({ where: { id } });
+    } catch (error) {
+      logger.error('Delete saved search error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Send digest notifications for every active search of the given frequency
+   * whose period has elapsed. Returns the number of digests delivered.
+   */
+  static async sendDigests(frequency: DigestFrequency, now: Date = new Date()): Promise<number> {
+    const period = this.DIGEST_PERIODS[frequency];
+    let sent = 0;
+
+    try {
+      const searches = await prisma.savedSearch.findMany({
+        where: {
+          isActive: true,
+          frequency,
+          OR: [
+            { lastNotifiedAt: null },
+            { lastNotifiedAt: { lte: new Date(now.getTime() - period) } },
+          ],
+        },
+      });
+
+      for (const search of searches) {
+        const since = search.lastNotifiedAt ?? search.createdAt;
+
+        // Searches created less than a period ago wait for their first full window
+        if (now.getTime() - since.getTime() < period) continue;
+
+        try {
+          if (await this.sendDigest(search, frequency, since, now)) sent++;
+        } catch (error) {
+          logger.error(`Saved search digest error for search ${search.id}:`, error);
+        }
+      }
+
+      logger.info(`Sent ${sent} ${frequency.toLowerCase()} saved search digests`);
+      return sent;
+    } catch (error) {
+      logger.error('Send saved search digests error:', error);
+      return sent;
+    }
+  }
+
+  /**
+   * Start checking for due digests every hour. The per-search window keeps
+   * each search on its own daily or weekly cadence.
+   */
+  static startDigestScheduler(): void {
+    this.digestJob.start();
+  }
+
+  /**
+   * Stop the digest scheduler
+   */
+  static stopDigestScheduler(): void {
+    this.digestJob.stop();
+  }
+
+  private static async runDueDigests(): Promise<void> {
+    await this.sendDigests(SavedSearchFrequency.DAILY);
+    await this.sendDigests(SavedSearchFrequency.WEEKLY);
+  }
+
+  private static async sendDigest(
+    search: SavedSearch,
+    frequency: DigestFrequency,
+    since: Date,
+    now: Date
+  ): Promise<boolean> {
+    const criteria = SavedSearchMatcher.normalizeCriteria(search.criteria);
+
+    const candidates = await prisma.property.findMany({
+      where: {
+        ...SavedSearchMatcher.buildCandidateFilter(criteria),
+        status: PropertyStatus.ACTIVE,
+        isActive: true,
+        ownerId: { not: search.userId },
+        publishedAt: { gt: since, lte: now },
+      },
+      include: {
+        address: true,
+        location: true,
+        features: true,
+        amenities: true,
+        tags: { include: { tag: true } },
+      },
+      orderBy: { publishedAt: 'desc' },
+      take: this.DIGEST_CANDIDATE_LIMIT,
+    });
+
+    const matches = candidates.filter(property => SavedSearchMatcher.matches(property, criteria));
+
+    if (matches.length > 0) {
+      const period = frequency === SavedSearchFrequency.DAILY ? 'today' : 'this week';
+
+      await NotificationService.sendNotification({
+        userId: search.userId,
+        type: NotificationType.EMAIL,
+        title: `${matches.length} new ${matches.length === 1 ? 'property matches' : 'properties match'} "${search.name}"`,
+        content: matches
+          .slice(0, this.DIGEST_PREVIEW_SIZE)
+          .map(property => `${property.title} - ${property.currency} ${property.price.toLocaleString()}`)
+          .join('\n') + (matches.length > this.DIGEST_PREVIEW_SIZE
+            ? `\n…and ${matches.length - this.DIGEST_PREVIEW_SIZE} more listed ${period}`
+            : ''),
+        data: {
+          type: 'saved_search_digest',
+          savedSearchId: search.id,
+          frequency,
+          propertyIds: matches.map(property => property.id),
+        },
+      });
+    }
+
+    // Advance the window even when nothing matched so the next digest only covers new listings
+    await prisma.savedSearch.update({
+      where: { id: search.id },
+      data: { lastNotifiedAt: now },
+    });
+
+    return matches.length > 0;
+  }
+
+  private static async findOwnedSearch(id: string, userId: string): Promise<SavedSearch> {
+    const search = await prisma.savedSearch.findUnique({ where: { id } });
+
+    if (!search || search.userId !== userId) {
+      throw new AppError('Saved search not found', 404, 'SAVED_SEARCH_NOT_FOUND');
+    }
+
+    return search;
+  }
+
+  private static formatSavedSearch(search: SavedSearch): SavedSearchWithCriteria {
+    const formatted: any = {
+      ...search,
+      criteria: SavedSearchMatcher.normalizeCriteria(search.criteria),
+    };
+
+    // The filter columns only duplicate the criteria
+    for (const column of SavedSearchMatcher.FILTER_COLUMNS) delete formatted[column];
+
+    return formatted;
+  }
+}
@@ -0,0 +1,226 @@
+import { prisma, OutboxEvent, OutboxEventStatus, OutboxEventType, handlePrismaError } from '@eu-real-estate/database';
+import { PropertySearchService } from '@eu-real-estate/search';
+import { AppError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import { IntervalJob } from '../utils/interval-job';
+
+type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+export interface IndexingStatus {
+  backend: string;
+  activeIndex: string | null;
+  pendingEvents: number;
+  failedEvents: number;
+  failedDocuments: number;
+  lagSeconds: number;
+  oldestPendingAt: Date | null;
+  lastProcessedAt: Date | null;
+}
+
+export interface OutboxRunResult {
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Keeps the search index in step with the database through the outbox.
+ *
+ * Writes record an outbox event in the same transaction as the change, and
+ * the worker applies pending events to the index, retrying failures with
+ * exponential backoff until they are marked FAILED.
+ */
+export class SearchIndexingService {
+  private static readonly AGGREGATE_TYPE = 'PROPERTY';
+  private static readonly BATCH_SIZE = 100;
+  private static readonly MAX_ATTEMPTS = 5;
+  private static readonly RETRY_BASE_DELAY = 30 * 1000; // Doubles with every attempt
+  private static readonly WORKER_INTERVAL = 5 * 1000;
+  private static readonly worker = new IntervalJob(
+    'Search indexing worker',
+    this.WORKER_INTERVAL,
+    () => this.processOutbox()
+  );
+
+  /**
+   * Record that a property changed, inside the transaction that changed it
+   */
+  static async recordPropertyChange(
+    tx: TransactionClient,
+    propertyId: string,
+    eventType: OutboxEventType = OutboxEventType.PROPERTY_UPSERTED
+  ): Promise<void> {
+    await tx.outboxEvent.create({
+      data: {
+        aggregateType: this.AGGREGATE_TYPE,
+        aggregateId: propertyId,
+        eventType,
+      },
+    });
+  }
+
+  /**
+   * Apply due outbox events to the search index.
+   * Events are idempotent, so replicas racing on the same batch do no harm.
+   */
+  static async processOutbox(limit: number = this.BATCH_SIZE): Promise<OutboxRunResult> {
+    const result: OutboxRunResult = { processed: 0, failed: 0 };
+
+    try {
+      const events = await prisma.outboxEvent.findMany({
+        where: {
+          aggregateType: this.AGGREGATE_TYPE,
+          status: OutboxEventStatus.PENDING,
+          availableAt: { lte: new Date() },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: limit,
+      });
+
+      // Each property is synced once from its current state, however many events it has
+      const eventsByProperty = new Map<string, OutboxEvent[]>();
+      events.forEach(event => {
+        eventsByProperty.set(event.aggregateId, [...(eventsByProperty.get(event.aggregateId) || []), event]);
+      });
+
+      for (const [propertyId, propertyEvents] of eventsByProperty) {
+        try {
+          await PropertySearchService.syncProperty(propertyId);
+          await prisma.outboxEvent.updateMany({
+            where: { id: { in: propertyEvents.map(event => event.id) } },
+            data: { status: OutboxEventStatus.PROCESSED, processedAt: new Date(), lastError: null },
+          });
+          result.processed += propertyEvents.length;
+        } catch (error) {
+          await this.recordFailure(propertyEvents, error);
+          result.failed += propertyEvents.length;
+        }
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Process search outbox error:', error);
+      return result;
+    }
+  }
+
+  /**
+   * Rebuild the search index without downtime and reconcile the outbox with it.
+   *
+   * Changes applied to the old index while the new one was being filled are
+   * queued again, and failures that happened before the rebuild started are
+   * resolved by it.
+   */
+  static async reindex(): Promise<{ indexName: string; requeued: number; resolved: number }> {
+    try {
+      const startedAt = new Date();
+      const indexName = await PropertySearchService.reindexAll();
+
+      const requeued = await prisma.outboxEvent.updateMany({
+        where: {
+          aggregateType: this.AGGREGATE_TYPE,
+          status: { in: [OutboxEventStatus.PROCESSED, OutboxEventStatus.FAILED] },
+          createdAt: { gte: startedAt },
+        },
+        data: { status: OutboxEventStatus.PENDING, attempts: 0, availableAt: new Date(), processedAt: null },
+      });
+
+      const resolved = await prisma.outboxEvent.updateMany({
+        where: {
+          aggregateType: this.AGGREGATE_TYPE,
+          status: OutboxEventStatus.FAILED,
+          createdAt: { lt: startedAt },
+        },
+        data: { status: OutboxEventStatus.PROCESSED, processedAt: new Date() },
+      });
+
+      logger.info('Search index rebuilt', { indexName, requeued: requeued.count, resolved: resolved.count });
+
+      return { indexName, requeued: requeued.count, resolved: resolved.count };
+    } catch (error) {
+      logger.error('Search reindex error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to rebuild the search index', 503, 'REINDEX_FAILED');
+    }
+  }
+
+  /**
+   * Report how far the index is behind the database
+   */
+  static async getStatus(): Promise<IndexingStatus> {
+    try {
+      const pendingWhere = { aggregateType: this.AGGREGATE_TYPE, status: OutboxEventStatus.PENDING };
+      const failedWhere = { aggregateType: this.AGGREGATE_TYPE, status: OutboxEventStatus.FAILED };
+
+      const [pendingEvents, failedEvents, failedDocuments, oldestPending, lastProcessed] = await Promise.all([
+        prisma.outboxEvent.count({ where: pendingWhere }),
+        prisma.outboxEvent.count({ where: failedWhere }),
+        prisma.outboxEvent.groupBy({ by: ['aggregateId'], where: failedWhere }),
+        prisma.outboxEvent.findFirst({ where: pendingWhere, orderBy: { createdAt: 'asc' } }),
+        prisma.outboxEvent.findFirst({
+          where: { aggregateType: this.AGGREGATE_TYPE, status: OutboxEventStatus.PROCESSED },
+          orderBy: { processedAt: 'desc' },
+        }),
+      ]);
+
+      const backend = PropertySearchService.getBackend();
+      const activeIndex = await backend.getActiveIndex().catch(error => {
+        logger.error('Get active search index error:', error);
+        return null;
+      });
+
+      return {
+        backend: backend.type,
+        activeIndex,
+        pendingEvents,
+        failedEvents,
+        failedDocuments: failedDocuments.length,
+        lagSeconds: oldestPending ? Math.max(0, Math.round((Date.now() - oldestPending.createdAt.getTime()) / 1000)) : 0,
+        oldestPendingAt: oldestPending?.createdAt ?? null,
+        lastProcessedAt: lastProcessed?.processedAt ?? null,
+      };
+    } catch (error) {
+      logger.error('Get search indexing status error:', error);
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Prepare the index and start applying outbox events in the background
+   */
+  static startWorker(): void {
+    if (this.worker.isStarted) return;
+
+    PropertySearchService.initialize().catch(error => {
+      logger.error('Search index initialization error:', error);
+    });
+
+    this.worker.start();
+  }
+
+  /**
+   * Stop the indexing worker
+   */
+  static stopWorker(): void {
+    this.worker.stop();
+  }
+
+  private static async recordFailure(events: OutboxEvent[], error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Search indexing failed for property ${events[0].aggregateId}:`, error);
+
+    await Promise.all(events.map(event => {
+      const attempts = event.attempts + 1;
+      const exhausted = attempts >= this.MAX_ATTEMPTS;
+
+      return prisma.outboxEvent.update({
+        where: { id: event.id },
+        data: {
+          attempts,
+          lastError: message,
+          status: exhausted ? OutboxEventStatus.FAILED : OutboxEventStatus.PENDING,
+          availableAt: new Date(Date.now() + this.RETRY_BASE_DELAY * 2 ** (attempts - 1)),
+        },
+      });
+    }));
+  }
+}
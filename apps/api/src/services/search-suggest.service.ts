@@ -0,0 +1,96 @@
+import { prisma } from '@eu-real-estate/database';
+import { PropertyStatus, handlePrismaError } from '@eu-real-estate/database';
+import {
+  PropertySearchService,
+  SearchSuggestQuery,
+  SearchSuggestions,
+  buildSearchSuggestions,
+  toSuggestionCandidates,
+} from '@eu-real-estate/search';
+import { AppError } from '../middleware/error-handler';
+import { LocalizationService } from './localization.service';
+import { logger } from '../utils/logger';
+
+export interface SuggestOptions {
+  userId?: string;
+  // Overrides the signed-in user's country
+  country?: string;
+  limit?: number;
+}
+
+/**
+ * Autocomplete for the property search box
+ */
+export class SearchSuggestService {
+  // Most listings loaded to match suggestions against when the backend is down
+  private static readonly DATABASE_MATCH_LIMIT = 200;
+
+  /**
+   * Suggest cities, postcodes, streets, tags and listing titles for the typed
+   * text. Signed-in users get suggestions from their own country unless
+   * another one is asked for.
+   */
+  static async suggest(text: string, options: SuggestOptions = {}): Promise<SearchSuggestions> {
+    let query: SearchSuggestQuery = { text, country: options.country, limit: options.limit };
+
+    try {
+      if (!query.country && options.userId) {
+        query = { ...query, country: (await LocalizationService.getUserLocalizationContext(options.userId)).country };
+      }
+
+      return await PropertySearchService.suggest(query);
+    } catch (error) {
+      logger.warn('Search suggestions unavailable, matching from the database:', error);
+      return this.suggestFromDatabase(query);
+    }
+  }
+
+  /**
+   * Match suggestions against the active listings in the database. Only
+   * listings with a city, postcode, street, title or tag starting with the
+   * first typed word are loaded, up to a cap; SQLite cannot fold accents, so
+   * those are then matched in memory.
+   */
+  static async suggestFromDatabase(query: SearchSuggestQuery): Promise<SearchSuggestions> {
+    const [prefix] = query.text.trim().split(/\s+/);
+    if (!prefix) return buildSearchSuggestions([], query);
+
+    try {
+      const properties = await prisma.property.findMany({
+        where: {
+          status: PropertyStatus.ACTIVE,
+          ...(query.country && { address: { country: query.country } }),
+          OR: [
+            { address: { city: { startsWith: prefix } } },
+            { address: { postcode: { startsWith: prefix } } },
+            { address: { street: { startsWith: prefix } } },
+            { title: { startsWith: prefix } },
+            { tags: { some: { tag: { name: { startsWith: prefix } } } } },
+          ],
+        },
+        take: this.DATABASE_MATCH_LIMIT,
+        select: {
+          id: true,
+          title: true,
+          address: { select: { street: true, city: true, postcode: true, country: true } },
+          tags: { select: { tag: { select: { name: true } } } },
+        },
+      });
+
+      const candidates = properties
+        .filter(property => property.address)
+        .flatMap(property => toSuggestionCandidates({
+          id: property.id,
+          title: property.title,
+          address: property.address!,
+          tags: property.tags.map(propertyTag => propertyTag.tag.name),
+        }));
+
+      return buildSearchSuggestions(candidates, query);
+    } catch (error) {
+      logger.error('Search suggestions database error:', error);
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+}
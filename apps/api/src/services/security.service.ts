@@ -1,6 +1,5 @@
 import crypto from 'crypto';
 import { Request } from 'express';
-import rateLimit from 'express-rate-limit';
 import slowDown from 'express-slow-down';
 import helmet from 'helmet';
 import { logger } from '../utils/logger';
@@ -12,11 +11,6 @@ export interface SecurityConfig {
     keyLength: number;
     ivLength: number;
   };
-  rateLimit: {
-    windowMs: number;
-    maxRequests: number;
-    skipSuccessfulRequests: boolean;
-  };
   slowDown: {
     windowMs: number;
     delayAfter: number;
@@ -56,11 +50,6 @@ export class SecurityService {
       keyLength: 32,
       ivLength: 16,
     },
-    rateLimit: {
-      windowMs: 15 * 60 * 1000, // 15 minutes
-      maxRequests: 100,
-      skipSuccessfulRequests: false,
-    },
     slowDown: {
       windowMs: 15 * 60 * 1000, // 15 minutes
       delayAfter: 50,
@@ -127,9 +116,6 @@ export class SecurityService {
         referrerPolicy: { policy: 'strict-origin-when-cross-origin' },
       }),
 
-      // Rate limiting
-      this.createRateLimiter(),
-
       // Slow down repeated requests
       this.createSlowDown(),
 
@@ -144,41 +130,6 @@ export class SecurityService {
     ];
   }
 
-  /**
-   * Create rate limiter middleware
-   */
-  static createRateLimiter() {
-    return rateLimit({
-      windowMs: this.CONFIG.rateLimit.windowMs,
-      max: this.CONFIG.rateLimit.maxRequests,
-      skipSuccessfulRequests: this.CONFIG.rateLimit.skipSuccessfulRequests,
-      keyGenerator: (req: Request) => {
-        return req.ip + ':' + (req.user?.id || 'anonymous');
-      },
-      handler: (req: Request, res: any) => {
-        this.logSecurityEvent({
-          type: 'RATE_LIMIT_EXCEEDED',
-          ip: req.ip,
-          userAgent: req.get('User-Agent'),
-          userId: req.user?.id,
-          endpoint: req.originalUrl,
-          timestamp: new Date(),
-          severity: 'MEDIUM',
-        });
-
-        res.status(429).json({
-          error: {
-            code: 'RATE_LIMIT_EXCEEDED',
-            message: 'Too many requests, please try again later',
-            retryAfter: Math.ceil(this.CONFIG.rateLimit.windowMs / 1000),
-          },
-        });
-      },
-      standardHeaders: true,
-      legacyHeaders: false,
-    });
-  }
-
   /**
    * Create slow down middleware
    */
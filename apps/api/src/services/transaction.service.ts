@@ -1,8 +1,13 @@
-import { prisma, redis } from '@eu-real-estate/database';
+import { prisma } from '@eu-real-estate/database';
 import { TransactionStatus, TransactionType, OfferStatus, DocumentType, DocumentStatus } from '@eu-real-estate/database';
 import { AppError } from '../middleware/error-handler';
 import { handlePrismaError, createPaginationParams, createOrderBy, createPaginatedResult } from '@eu-real-estate/database';
 import { logger } from '../utils/logger';
+import { IntervalJob } from '../utils/interval-job';
+import { NotificationService } from './notification.service';
+import { MilestoneTemplateService, MilestoneState } from './milestone-template.service';
+import { CacheService } from './cache.service';
+import { PropertyLifecycleService } from './property-lifecycle.service';
 
 export interface CreateTransactionData {
   propertyId: string;
@@ -61,7 +66,36 @@ export interface TransactionFilters {
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface OfferThread {
+  id: string;
+  parentOfferId: string | null;
+  offererId: string;
+  amount: number;
+  currency: string;
+  status: string;
+  conditions: Record<string, any> | null;
+  counterOffers: OfferThread[];
+  [key: string]: any;
+}
+
 export class TransactionService {
+  private static readonly OFFER_EXPIRY_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private static readonly OFFER_EXPIRY_BATCH_SIZE = 100;
+
+  // Statuses a participant may set when responding to a pending offer
+  private static readonly OFFER_RESPONSE_STATUSES: OfferStatus[] = [
+    OfferStatus.ACCEPTED,
+    OfferStatus.REJECTED,
+    OfferStatus.COUNTERED,
+    OfferStatus.WITHDRAWN,
+  ];
+
+  private static readonly offerExpiryJob = new IntervalJob(
+    'Offer expiry sweeper',
+    this.OFFER_EXPIRY_INTERVAL,
+    () => this.expireStaleOffers()
+  );
+
   /**
    * Create a new transaction
    */
@@ -70,7 +104,7 @@ export class TransactionService {
       // Verify property exists and user has permission
       const property = await prisma.property.findUnique({
         where: { id: data.propertyId },
-        include: { owner: true },
+        include: { owner: true, address: true },
       });
 
       if (!property) {
@@ -82,6 +116,13 @@ export class TransactionService {
         throw new AppError('Not authorized to create transaction for this property', 403, 'UNAUTHORIZED');
       }
 
+      // Conveyancing steps depend on where the property is and what kind it is
+      const template = MilestoneTemplateService.resolve(
+        property.address?.country ?? property.country,
+        data.type,
+        property.propertyType
+      );
+
       // Create transaction with initial milestones
       const transaction = await prisma.$transaction(async (tx) => {
         const newTransaction = await tx.transaction.create({
@@ -96,6 +137,7 @@ export class TransactionService {
             notes: data.notes,
             terms: data.terms ? JSON.stringify(data.terms) : null,
             expectedCompletion: data.expectedCompletion,
+            milestoneTemplate: `${template.id}@${template.version}`,
           },
           include: {
             property: {
@@ -135,9 +177,8 @@ export class TransactionService {
           },
         });
 
-        // Create default milestones based on transaction type
-        const defaultMilestones = this.getDefaultMilestones(data.type);
-        for (const milestone of defaultMilestones) {
+        // Create milestones from the resolved template
+        for (const milestone of MilestoneTemplateService.toMilestones(template)) {
           await tx.transactionMilestone.create({
             data: {
               transactionId: newTransaction.id,
@@ -298,6 +339,9 @@ export class TransactionService {
           ...offer,
           conditions: offer.conditions ? JSON.parse(offer.conditions) : null,
         })),
+        milestones: transaction.milestones.map(milestone =>
+          this.presentMilestone(milestone, transaction.milestones, transaction.documents)
+        ),
       };
     } catch (error) {
       logger.error('Get transaction error:', error);
@@ -336,12 +380,17 @@ export class TransactionService {
         throw new AppError('Not authorized to update this transaction', 403, 'UNAUTHORIZED');
       }
 
+      let propertyStatusChanged = false;
+
       const transaction = await prisma.$transaction(async (tx) => {
         const updatedTransaction = await tx.transaction.update({
           where: { id },
           data: {
             ...data,
             terms: data.terms ? JSON.stringify(data.terms) : undefined,
+            acceptedDate: data.status === TransactionStatus.ACCEPTED && !currentTransaction.acceptedDate
+              ? new Date()
+              : undefined,
             updatedAt: new Date(),
           },
           include: {
@@ -394,13 +443,30 @@ export class TransactionService {
             },
           });
 
-          // Update property status based on transaction status
-          if (data.status === TransactionStatus.COMPLETED) {
-            const newPropertyStatus = currentTransaction.type === TransactionType.PURCHASE ? 'SOLD' : 'RENTED';
-            await tx.property.update({
-              where: { id: currentTransaction.propertyId },
-              data: { status: newPropertyStatus as any },
-            });
+          if (data.status === TransactionStatus.ACCEPTED) {
+            await this.scheduleMilestoneDueDates(tx, id, updatedTransaction.acceptedDate ?? new Date());
+          }
+
+          // Keep the listing's status in step with the deal
+          if (data.status === TransactionStatus.ACCEPTED) {
+            propertyStatusChanged = await PropertyLifecycleService.applySystemTransition(
+              tx,
+              currentTransaction.propertyId,
+              PropertyLifecycleService.acceptedStatusFor(currentTransaction.type),
+              'Transaction accepted'
+            );
+          } else if (data.status === TransactionStatus.COMPLETED) {
+            propertyStatusChanged = await PropertyLifecycleService.applySystemTransition(
+              tx,
+              currentTransaction.propertyId,
+              PropertyLifecycleService.completedStatusFor(currentTransaction.type),
+              'Transaction completed'
+            );
+          } else if (
+            currentTransaction.status === TransactionStatus.ACCEPTED &&
+            (data.status === TransactionStatus.CANCELLED || data.status === TransactionStatus.REJECTED)
+          ) {
+            propertyStatusChanged = await PropertyLifecycleService.releaseFromDeal(tx, currentTransaction.propertyId, id);
           }
         }
 
@@ -409,6 +475,9 @@ export class TransactionService {
 
       // Clear caches
       await this.clearTransactionCaches(id);
+      if (propertyStatusChanged) {
+        await PropertyLifecycleService.invalidateCaches(currentTransaction.propertyId, currentTransaction.property.ownerId);
+      }
 
       return {
         ...transaction,
@@ -566,6 +635,15 @@ export class TransactionService {
         throw new AppError('Not authorized to make offer on this transaction', 403, 'UNAUTHORIZED');
       }
 
+      const acceptedOffer = await prisma.offer.findFirst({
+        where: { transactionId: data.transactionId, status: OfferStatus.ACCEPTED },
+        select: { id: true },
+      });
+
+      if (acceptedOffer) {
+        throw new AppError('An offer has already been accepted for this transaction', 409, 'OFFER_ALREADY_ACCEPTED');
+      }
+
       const offer = await prisma.offer.create({
         data: {
           transactionId: data.transactionId,
@@ -651,14 +729,93 @@ export class TransactionService {
         throw new AppError('Not authorized to respond to this offer', 403, 'UNAUTHORIZED');
       }
 
+      if (!this.OFFER_RESPONSE_STATUSES.includes(status)) {
+        throw new AppError(`Cannot set an offer to ${status}`, 400, 'INVALID_OFFER_STATUS');
+      }
+
+      // Only the offerer may withdraw, and nobody else may answer their own offer
+      const isOfferer = offer.offererId === userId;
+      if (status === OfferStatus.WITHDRAWN ? !isOfferer : isOfferer) {
+        throw new AppError(
+          status === OfferStatus.WITHDRAWN ? 'Only the offerer can withdraw an offer' : 'You cannot respond to your own offer',
+          403,
+          'UNAUTHORIZED'
+        );
+      }
+
+      if (status === OfferStatus.COUNTERED && !counterOfferData?.amount) {
+        throw new AppError('A counter-offer amount is required', 400, 'COUNTER_OFFER_REQUIRED');
+      }
+
+      if (offer.status !== OfferStatus.PENDING) {
+        throw new AppError(`Offer is already ${offer.status.toLowerCase()}`, 409, 'OFFER_NOT_PENDING');
+      }
+
+      if (offer.validUntil && offer.validUntil < new Date()) {
+        throw new AppError('Offer has expired', 409, 'OFFER_EXPIRED');
+      }
+
+      let propertyStatusChanged = false;
+
       const result = await prisma.$transaction(async (tx) => {
-        // Update offer status
-        const updatedOffer = await tx.offer.update({
-          where: { id: offerId },
+        // Conditional update so two concurrent responses cannot both win
+        const claimed = await tx.offer.updateMany({
+          where: { id: offerId, status: OfferStatus.PENDING },
           data: {
             status,
             respondedAt: new Date(),
           },
+        });
+
+        if (claimed.count === 0) {
+          throw new AppError('Offer has already been responded to', 409, 'OFFER_NOT_PENDING');
+        }
+
+        if (status === OfferStatus.ACCEPTED) {
+          const acceptedCount = await tx.offer.count({
+            where: { transactionId: offer.transactionId, status: OfferStatus.ACCEPTED },
+          });
+
+          if (acceptedCount > 1) {
+            throw new AppError('An offer has already been accepted for this transaction', 409, 'OFFER_ALREADY_ACCEPTED');
+          }
+
+          // Close the rest of the negotiation
+          await tx.offer.updateMany({
+            where: {
+              transactionId: offer.transactionId,
+              status: OfferStatus.PENDING,
+              id: { not: offerId },
+            },
+            data: {
+              status: OfferStatus.REJECTED,
+              respondedAt: new Date(),
+            },
+          });
+
+          const acceptedAt = new Date();
+          await tx.transaction.update({
+            where: { id: offer.transactionId },
+            data: {
+              status: TransactionStatus.ACCEPTED,
+              finalAmount: offer.amount,
+              acceptedDate: acceptedAt,
+            },
+          });
+
+          await this.scheduleMilestoneDueDates(tx, offer.transactionId, acceptedAt);
+
+          // Take the listing off the market while the deal goes ahead
+          propertyStatusChanged = await PropertyLifecycleService.applySystemTransition(
+            tx,
+            offer.transaction.propertyId,
+            PropertyLifecycleService.acceptedStatusFor(offer.transaction.type),
+            'Offer accepted'
+          );
+        }
+
+        const updatedOffer = await tx.offer.findUniqueOrThrow({
+          where: { id: offerId },
           include: {
             offerer: {
               select: {
@@ -673,14 +830,14 @@ export class TransactionService {
 
         let counterOffer = null;
 
-        // Create counter offer if status is COUNTERED
+        // Create the counter-offer as a child of the offer it answers
         if (status === OfferStatus.COUNTERED && counterOfferData) {
           counterOffer = await tx.offer.create({
             data: {
               transactionId: offer.transactionId,
               offererId: userId,
               amount: counterOfferData.amount!,
-              currency: counterOfferData.currency || 'EUR',
+              currency: counterOfferData.currency || offer.currency,
               message: counterOfferData.message,
               conditions: counterOfferData.conditions ? JSON.stringify(counterOfferData.conditions) : null,
               validUntil: counterOfferData.validUntil,
@@ -699,21 +856,21 @@ export class TransactionService {
           });
         }
 
-        // Update transaction status if offer is accepted
-        if (status === OfferStatus.ACCEPTED) {
-          await tx.transaction.update({
-            where: { id: offer.transactionId },
-            data: {
-              status: TransactionStatus.ACCEPTED,
-              finalAmount: offer.amount,
-              acceptedDate: new Date(),
-            },
-          });
-        }
-
         return { updatedOffer, counterOffer };
       });
 
+      await NotificationService.sendTransactionNotification(
+        offer.transactionId,
+        status === OfferStatus.COUNTERED ? 'new_offer' : 'offer_response',
+        this.getOfferCounterparties(offer.transaction, userId),
+        { offerId, status, counterOfferId: result.counterOffer?.id }
+      );
+
+      await this.clearTransactionCaches(offer.transactionId);
+      if (propertyStatusChanged) {
+        await PropertyLifecycleService.invalidateCaches(offer.transaction.propertyId, offer.transaction.property.ownerId);
+      }
+
       return {
         offer: {
           ...result.updatedOffer,
@@ -727,10 +884,148 @@ export class TransactionService {
     } catch (error) {
       logger.error('Respond to offer error:', error);
       if (error instanceof AppError) throw error;
+      if ((error as any)?.code === 'P2002') {
+        // The partial unique index rejected a second accepted offer
+        throw new AppError('An offer has already been accepted for this transaction', 409, 'OFFER_ALREADY_ACCEPTED');
+      }
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Get the negotiation history of a transaction as counter-offer threads
+   */
+  static async getOfferHistory(transactionId: string, userId: string): Promise<{ threads: OfferThread[]; total: number }> {
+    try {
+      const transaction = await prisma.transaction.findUnique({
+        where: { id: transactionId },
+        include: { property: { select: { ownerId: true } } },
+      });
+
+      if (!transaction) {
+        throw new AppError('Transaction not found', 404, 'TRANSACTION_NOT_FOUND');
+      }
+
+      const hasAccess =
+        transaction.buyerId === userId ||
+        transaction.sellerId === userId ||
+        transaction.agentId === userId ||
+        transaction.property.ownerId === userId;
+
+      if (!hasAccess) {
+        throw new AppError('Not authorized to view this transaction', 403, 'UNAUTHORIZED');
+      }
+
+      const offers = await prisma.offer.findMany({
+        where: { transactionId },
+        include: {
+          offerer: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const nodes = new Map<string, OfferThread>(
+        offers.map(offer => [offer.id, {
+          ...offer,
+          conditions: offer.conditions ? JSON.parse(offer.conditions) : null,
+          counterOffers: [],
+        }])
+      );
+
+      const threads: OfferThread[] = [];
+      for (const node of nodes.values()) {
+        const parent = node.parentOfferId ? nodes.get(node.parentOfferId) : undefined;
+        if (parent) {
+          parent.counterOffers.push(node);
+        } else {
+          threads.push(node);
+        }
+      }
+
+      return { threads, total: offers.length };
+    } catch (error) {
+      logger.error('Get offer history error:', error);
+      if (error instanceof AppError) throw error;
       throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
     }
   }
 
+  /**
+   * Mark pending offers past their validUntil as EXPIRED and notify both
+   * parties. Returns the number of offers expired.
+   */
+  static async expireStaleOffers(now: Date = new Date()): Promise<number> {
+    let expired = 0;
+
+    try {
+      const staleOffers = await prisma.offer.findMany({
+        where: {
+          status: OfferStatus.PENDING,
+          validUntil: { lt: now },
+        },
+        include: {
+          transaction: {
+            select: { id: true, buyerId: true, sellerId: true, agentId: true },
+          },
+        },
+        orderBy: { validUntil: 'asc' },
+        take: this.OFFER_EXPIRY_BATCH_SIZE,
+      });
+
+      for (const offer of staleOffers) {
+        // Skip offers that were answered after the query ran
+        const result = await prisma.offer.updateMany({
+          where: { id: offer.id, status: OfferStatus.PENDING },
+          data: { status: OfferStatus.EXPIRED, respondedAt: now },
+        });
+
+        if (result.count === 0) continue;
+        expired++;
+
+        const recipientIds = [offer.offererId, offer.transaction.buyerId, offer.transaction.sellerId]
+          .filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index);
+
+        await NotificationService.sendTransactionNotification(
+          offer.transactionId,
+          'offer_expired',
+          recipientIds,
+          { offerId: offer.id, amount: offer.amount, currency: offer.currency }
+        );
+
+        await this.clearTransactionCaches(offer.transactionId);
+      }
+
+      if (expired > 0) {
+        logger.info(`Expired ${expired} stale offers`);
+      }
+
+      return expired;
+    } catch (error) {
+      logger.error('Expire stale offers error:', error);
+      return expired;
+    }
+  }
+
+  /**
+   * Start sweeping expired offers in the background
+   */
+  static startOfferExpirySweeper(): void {
+    this.offerExpiryJob.start();
+  }
+
+  /**
+   * Stop the offer expiry sweeper
+   */
+  static stopOfferExpirySweeper(): void {
+    this.offerExpiryJob.stop();
+  }
+
   /**
    * Upload transaction document
    */
@@ -816,7 +1111,11 @@ export class TransactionService {
         where: { id: milestoneId },
         include: {
           transaction: {
-            include: { property: true },
+            include: {
+              property: true,
+              milestones: true,
+              documents: { select: { type: true, status: true } },
+            },
           },
         },
       });
@@ -836,6 +1135,28 @@ export class TransactionService {
         throw new AppError('Not authorized to complete this milestone', 403, 'UNAUTHORIZED');
       }
 
+      const blockedBy = MilestoneTemplateService.getBlockingMilestones(milestone, milestone.transaction.milestones);
+      if (blockedBy.length > 0) {
+        throw new AppError(
+          `Complete ${blockedBy.map(dependency => dependency.title).join(', ')} first`,
+          409,
+          'MILESTONE_DEPENDENCIES_INCOMPLETE',
+          { blockedBy: blockedBy.map(dependency => dependency.key) }
+        );
+      }
+
+      const missingDocuments = MilestoneTemplateService.getDocumentSlots(milestone, milestone.transaction.documents)
+        .filter(slot => !slot.fulfilled)
+        .map(slot => slot.type);
+      if (missingDocuments.length > 0) {
+        throw new AppError(
+          'Required documents have not been uploaded',
+          409,
+          'MILESTONE_DOCUMENTS_MISSING',
+          { missingDocuments }
+        );
+      }
+
       const updatedMilestone = await prisma.transactionMilestone.update({
         where: { id: milestoneId },
         data: {
@@ -862,94 +1183,61 @@ export class TransactionService {
   }
 
   /**
-   * Get default milestones for transaction type
+   * Set milestone due dates from their template offsets once the transaction is accepted
    */
-  private static getDefaultMilestones(type: TransactionType): CreateMilestoneData[] {
-    const baseMilestones = [
-      {
-        title: 'Initial Offer',
-        description: 'Submit initial offer for the property',
-        order: 1,
-        isRequired: true,
-      },
-      {
-        title: 'Offer Acceptance',
-        description: 'Offer accepted by seller',
-        order: 2,
-        isRequired: true,
-      },
-      {
-        title: 'Documentation Review',
-        description: 'Review and upload required documents',
-        order: 3,
-        isRequired: true,
-      },
-    ];
-
-    if (type === TransactionType.PURCHASE) {
-      return [
-        ...baseMilestones,
-        {
-          title: 'Property Inspection',
-          description: 'Conduct property inspection',
-          order: 4,
-          isRequired: true,
-        },
-        {
-          title: 'Mortgage Approval',
-          description: 'Obtain mortgage approval',
-          order: 5,
-          isRequired: false,
-        },
-        {
-          title: 'Final Walkthrough',
-          description: 'Final property walkthrough',
-          order: 6,
-          isRequired: true,
-        },
-        {
-          title: 'Closing',
-          description: 'Complete property purchase',
-          order: 7,
-          isRequired: true,
-        },
-      ];
-    } else {
-      return [
-        ...baseMilestones,
-        {
-          title: 'Lease Agreement',
-          description: 'Sign lease agreement',
-          order: 4,
-          isRequired: true,
-        },
-        {
-          title: 'Security Deposit',
-          description: 'Pay security deposit',
-          order: 5,
-          isRequired: true,
-        },
-        {
-          title: 'Move-in Inspection',
-          description: 'Conduct move-in inspection',
-          order: 6,
-          isRequired: true,
-        },
-      ];
+  private static async scheduleMilestoneDueDates(
+    tx: Parameters<Parameters<typeof prisma.$transaction>[0]>[0],
+    transactionId: string,
+    acceptedAt: Date
+  ): Promise<void> {
+    const milestones = await tx.transactionMilestone.findMany({
+      where: { transactionId, dueOffsetDays: { not: null }, completedAt: null },
+    });
+
+    for (const milestone of milestones) {
+      await tx.transactionMilestone.update({
+        where: { id: milestone.id },
+        data: { dueDate: MilestoneTemplateService.getDueDate(acceptedAt, milestone.dueOffsetDays!) },
+      });
     }
   }
 
+  /**
+   * Parse template fields and work out what still blocks a milestone
+   */
+  private static presentMilestone<T extends MilestoneState>(
+    milestone: T,
+    milestones: T[],
+    documents: Array<{ type: string; status: string }>
+  ) {
+    const blockedBy = MilestoneTemplateService.getBlockingMilestones(milestone, milestones);
+    const documentSlots = MilestoneTemplateService.getDocumentSlots(milestone, documents);
+
+    return {
+      ...milestone,
+      dependsOn: MilestoneTemplateService.parseList(milestone.dependsOn),
+      requiredDocuments: MilestoneTemplateService.parseList(milestone.requiredDocuments),
+      blockedBy: blockedBy.map(dependency => ({ key: dependency.key, title: dependency.title })),
+      documentSlots,
+      canComplete: !milestone.completedAt && blockedBy.length === 0 && documentSlots.every(slot => slot.fulfilled),
+    };
+  }
+
+  /**
+   * Everyone on the transaction except the acting user
+   */
+  private static getOfferCounterparties(
+    transaction: { buyerId: string | null; sellerId: string; agentId: string | null },
+    userId: string
+  ): string[] {
+    return [transaction.buyerId, transaction.sellerId, transaction.agentId]
+      .filter((id, index, ids): id is string => !!id && id !== userId && ids.indexOf(id) === index);
+  }
+
   /**
    * Clear transaction-related caches
    */
   private static async clearTransactionCaches(transactionId: string): Promise<void> {
-    try {
-      const keys = await redis.keys(`transaction:${transactionId}:*`);
-      if (keys.length > 0) {
-        await redis.del(...keys);
-      }
-    } catch (error) {
-      logger.error('Cache clear error:', error);
-    }
+    await CacheService.delPattern(`transaction:${transactionId}:*`);
   }
 }
\ No newline at end of file
@@ -0,0 +1,815 @@
+import {
+  prisma,
+  Prisma,
+  ViewingSlot,
+  PropertyStatus,
+  UserRole,
+  NotificationType,
+  ViewingSlotType,
+  ViewingSlotStatus,
+  ViewingBookingStatus,
+  PaginationOptions,
+  PaginatedResult,
+  createPaginationParams,
+  createPaginatedResult,
+  handlePrismaError,
+} from '@eu-real-estate/database';
+import { AppError } from '../middleware/error-handler';
+import {
+  viewingSlotRules,
+  VIEWING_REMINDER_HOURS,
+  BOOKING_NOTICE_MINUTES,
+  MAX_SLOT_HOURS,
+} from '../config/viewing.config';
+import { PropertyLifecycleService } from './property-lifecycle.service';
+import { NotificationService } from './notification.service';
+import { EmailAttachment } from './email.service';
+import { buildCalendar, CALENDAR_CONTENT_TYPE } from '../utils/icalendar';
+import { DEFAULT_TIME_ZONE, formatInTimeZone } from '../utils/timezone';
+import { logger } from '../utils/logger';
+import { IntervalJob } from '../utils/interval-job';
+
+type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+export interface CreateViewingSlotData {
+  type?: ViewingSlotType;
+  startsAt: Date;
+  endsAt: Date;
+  capacity?: number;
+  notes?: string;
+}
+
+export interface BookViewingData {
+  attendees?: number;
+  notes?: string;
+}
+
+// Which side of the bookings to list: the ones a user made, or the ones made with them as agent
+export type BookingSide = 'buyer' | 'agent';
+
+export interface BookingListOptions extends PaginationOptions {
+  as?: BookingSide;
+  upcoming?: boolean;
+}
+
+export interface ViewingSlotAvailability {
+  id: string;
+  propertyId: string;
+  type: string;
+  status: string;
+  startsAt: Date;
+  endsAt: Date;
+  capacity: number;
+  notes: string | null;
+  spotsLeft: number;
+}
+
+type BookingEvent = 'booked' | 'rescheduled' | 'cancelled' | 'reminder';
+
+const PERSON_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  timezone: true,
+};
+
+const BOOKING_INCLUDE = {
+  slot: {
+    include: {
+      property: {
+        select: {
+          id: true,
+          title: true,
+          street: true,
+          city: true,
+          postcode: true,
+          country: true,
+          address: true,
+        },
+      },
+      agent: { select: PERSON_SELECT },
+    },
+  },
+  buyer: { select: PERSON_SELECT },
+};
+
+export type ViewingBookingWithDetails = Prisma.ViewingBookingGetPayload<{ include: typeof BOOKING_INCLUDE }>;
+
+// Listings that are off the market take no new viewings
+const CLOSED_STATUSES: string[] = [PropertyStatus.SOLD, PropertyStatus.RENTED, PropertyStatus.INACTIVE, PropertyStatus.EXPIRED];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Viewing appointments and open houses. Agents publish slots for their
+ * listings; buyers book them within the slot's capacity, and a booking is
+ * refused if the agent is already showing another booked slot at that time.
+ */
+export class ViewingService {
+  private static readonly REMINDER_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private static readonly REMINDER_BATCH_SIZE = 100;
+
+  private static readonly reminderJob = new IntervalJob(
+    'Viewing reminder job',
+    this.REMINDER_INTERVAL,
+    () => this.sendReminders()
+  );
+
+  /**
+   * Publish a viewing slot or open house for a listing (owner or admin)
+   */
+  static async createSlot(
+    propertyId: string,
+    userId: string,
+    data: CreateViewingSlotData,
+    now: Date = new Date()
+  ): Promise<ViewingSlotAvailability> {
+    try {
+      const property = await prisma.property.findUnique({
+        where: { id: propertyId },
+        select: { ownerId: true, status: true },
+      });
+
+      if (!property) {
+        throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+      }
+
+      await this.assertManager(property.ownerId, userId);
+
+      if (CLOSED_STATUSES.includes(property.status)) {
+        throw new AppError(`A ${property.status} listing takes no viewings`, 409, 'LISTING_NOT_BOOKABLE');
+      }
+
+      const type = data.type ?? ViewingSlotType.VIEWING;
+      const rules = viewingSlotRules[type];
+      const capacity = data.capacity ?? rules.defaultCapacity;
+
+      if (data.startsAt.getTime() < now.getTime() + BOOKING_NOTICE_MINUTES * MINUTE_MS) {
+        throw new AppError(`Slots must start at least ${BOOKING_NOTICE_MINUTES} minutes from now`, 400, 'INVALID_SLOT');
+      }
+
+      if (data.endsAt <= data.startsAt || data.endsAt.getTime() - data.startsAt.getTime() > MAX_SLOT_HOURS * HOUR_MS) {
+        throw new AppError(`Slots must end after they start and last at most ${MAX_SLOT_HOURS} hours`, 400, 'INVALID_SLOT');
+      }
+
+      if (capacity > rules.maxCapacity) {
+        throw new AppError(`A ${type} slot takes at most ${rules.maxCapacity} people`, 400, 'INVALID_SLOT');
+      }
+
+      const conflict = await this.findAgentConflict(prisma, property.ownerId, data.startsAt, data.endsAt);
+      if (conflict) {
+        throw new AppError('You already have a booked viewing at that time', 409, 'SLOT_CONFLICT', {
+          slotId: conflict.id,
+          startsAt: conflict.startsAt,
+          endsAt: conflict.endsAt,
+        });
+      }
+
+      const slot = await prisma.viewingSlot.create({
+        data: {
+          propertyId,
+          agentId: property.ownerId,
+          type,
+          startsAt: data.startsAt,
+          endsAt: data.endsAt,
+          capacity,
+          notes: data.notes,
+        },
+      });
+
+      return this.toAvailability({ ...slot, bookings: [] });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Upcoming open slots of a listing with the places left in each. Only the
+   * owner and admins see the slots of a listing that isn't live.
+   */
+  static async getPropertySlots(propertyId: string, userId?: string, now: Date = new Date()): Promise<ViewingSlotAvailability[]> {
+    try {
+      const property = await prisma.property.findUnique({
+        where: { id: propertyId },
+        select: { ownerId: true, status: true },
+      });
+
+      if (!property) {
+        throw new AppError('Property not found', 404, 'PROPERTY_NOT_FOUND');
+      }
+
+      if (property.status !== PropertyStatus.ACTIVE) {
+        const actors = userId ? await PropertyLifecycleService.getActors(property.ownerId, userId) : [];
+        if (actors.length === 0) return [];
+      }
+
+      const slots = await prisma.viewingSlot.findMany({
+        where: {
+          propertyId,
+          status: ViewingSlotStatus.OPEN,
+          startsAt: { gt: now },
+        },
+        include: {
+          bookings: {
+            where: { status: ViewingBookingStatus.CONFIRMED },
+            select: { attendees: true },
+          },
+        },
+        orderBy: { startsAt: 'asc' },
+      });
+
+      return slots.map(slot => this.toAvailability(slot));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Withdraw a slot, cancelling its bookings and telling the buyers
+   */
+  static async cancelSlot(slotId: string, userId: string, reason?: string): Promise<void> {
+    try {
+      const slot = await prisma.viewingSlot.findUnique({
+        where: { id: slotId },
+        select: { status: true, property: { select: { ownerId: true } } },
+      });
+
+      if (!slot) {
+        throw new AppError('Viewing slot not found', 404, 'SLOT_NOT_FOUND');
+      }
+
+      await this.assertManager(slot.property.ownerId, userId);
+
+      if (slot.status === ViewingSlotStatus.CANCELLED) {
+        throw new AppError('Viewing slot is already cancelled', 409, 'SLOT_UNAVAILABLE');
+      }
+
+      const cancelledIds = await prisma.$transaction(async (tx) => {
+        await tx.viewingSlot.update({
+          where: { id: slotId },
+          data: { status: ViewingSlotStatus.CANCELLED },
+        });
+
+        const bookings = await tx.viewingBooking.findMany({
+          where: { slotId, status: ViewingBookingStatus.CONFIRMED },
+          select: { id: true },
+        });
+
+        await tx.viewingBooking.updateMany({
+          where: { id: { in: bookings.map(booking => booking.id) } },
+          data: {
+            status: ViewingBookingStatus.CANCELLED,
+            cancelledAt: new Date(),
+            cancellationReason: reason ?? 'The agent cancelled this viewing',
+            sequence: { increment: 1 },
+          },
+        });
+
+        return bookings.map(booking => booking.id);
+      });
+
+      const bookings = await prisma.viewingBooking.findMany({
+        where: { id: { in: cancelledIds } },
+        include: BOOKING_INCLUDE,
+      });
+
+      for (const booking of bookings) {
+        await this.notify(booking, 'cancelled', ['buyer']);
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Book a place on a slot for a buyer
+   */
+  static async bookSlot(
+    slotId: string,
+    buyerId: string,
+    data: BookViewingData = {},
+    now: Date = new Date()
+  ): Promise<ViewingBookingWithDetails> {
+    try {
+      const attendees = data.attendees ?? 1;
+
+      // Capacity and conflicts are checked and the booking written in one transaction, so two buyers can't both take the last place
+      const booking = await prisma.$transaction(async (tx) => {
+        await this.assertBookable(tx, slotId, buyerId, attendees, now);
+
+        return tx.viewingBooking.create({
+          data: {
+            slotId,
+            buyerId,
+            attendees,
+            notes: data.notes,
+          },
+          include: BOOKING_INCLUDE,
+        });
+      });
+
+      logger.info(`Viewing booked: ${booking.id}`, { slotId, buyerId });
+      await this.notify(booking, 'booked', ['buyer', 'agent']);
+
+      return booking;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Move a booking to another slot of the same listing (buyer only)
+   */
+  static async rescheduleBooking(
+    bookingId: string,
+    buyerId: string,
+    slotId: string,
+    now: Date = new Date()
+  ): Promise<ViewingBookingWithDetails> {
+    try {
+      const booking = await prisma.$transaction(async (tx) => {
+        const current = await tx.viewingBooking.findUnique({
+          where: { id: bookingId },
+          include: { slot: { select: { propertyId: true, startsAt: true } } },
+        });
+
+        if (!current || current.buyerId !== buyerId) {
+          throw new AppError('Booking not found', 404, 'BOOKING_NOT_FOUND');
+        }
+
+        if (current.status !== ViewingBookingStatus.CONFIRMED) {
+          throw new AppError('Only a confirmed booking can be rescheduled', 409, 'BOOKING_NOT_ACTIVE');
+        }
+
+        this.assertNotice(current.slot.startsAt, now);
+
+        if (current.slotId === slotId) {
+          throw new AppError('Booking is already for this slot', 400, 'SAME_SLOT');
+        }
+
+        const slot = await this.assertBookable(tx, slotId, buyerId, current.attendees, now, bookingId);
+
+        if (slot.propertyId !== current.slot.propertyId) {
+          throw new AppError('A booking can only move to another slot of the same listing', 400, 'SLOT_MISMATCH');
+        }
+
+        return tx.viewingBooking.update({
+          where: { id: bookingId },
+          data: {
+            slotId,
+            sequence: { increment: 1 },
+          },
+          include: BOOKING_INCLUDE,
+        });
+      });
+
+      await this.notify(booking, 'rescheduled', ['buyer', 'agent']);
+
+      return booking;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Cancel a booking. The buyer, the agent and admins can cancel until the
+   * viewing starts; the other side is told.
+   */
+  static async cancelBooking(
+    bookingId: string,
+    userId: string,
+    reason?: string,
+    now: Date = new Date()
+  ): Promise<ViewingBookingWithDetails> {
+    try {
+      const current = await this.getParticipantBooking(bookingId, userId);
+
+      if (current.status !== ViewingBookingStatus.CONFIRMED) {
+        throw new AppError('Booking is already cancelled', 409, 'BOOKING_NOT_ACTIVE');
+      }
+
+      if (current.slot.startsAt <= now) {
+        throw new AppError('The viewing has already started', 409, 'BOOKING_CLOSED');
+      }
+
+      const updated = await prisma.viewingBooking.updateMany({
+        where: { id: bookingId, status: ViewingBookingStatus.CONFIRMED },
+        data: {
+          status: ViewingBookingStatus.CANCELLED,
+          cancelledAt: now,
+          cancellationReason: reason,
+          sequence: { increment: 1 },
+        },
+      });
+
+      if (updated.count === 0) {
+        throw new AppError('Booking is already cancelled', 409, 'BOOKING_NOT_ACTIVE');
+      }
+
+      const booking = await prisma.viewingBooking.findUniqueOrThrow({
+        where: { id: bookingId },
+        include: BOOKING_INCLUDE,
+      });
+
+      // Whoever cancelled knows already
+      const recipients: BookingSide[] = [];
+      if (booking.buyerId !== userId) recipients.push('buyer');
+      if (booking.slot.agentId !== userId) recipients.push('agent');
+      await this.notify(booking, 'cancelled', recipients);
+
+      return booking;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * A user's bookings, as the buyer or as the agent showing the listing,
+   * soonest first
+   */
+  static async getBookings(
+    userId: string,
+    options: BookingListOptions = {},
+    now: Date = new Date()
+  ): Promise<PaginatedResult<ViewingBookingWithDetails>> {
+    try {
+      const { skip, take, page, limit } = createPaginationParams(options);
+
+      const where: Prisma.ViewingBookingWhereInput = {
+        ...(options.as === 'agent' ? { slot: { agentId: userId } } : { buyerId: userId }),
+        ...(options.upcoming && {
+          status: ViewingBookingStatus.CONFIRMED,
+          slot: { ...(options.as === 'agent' && { agentId: userId }), startsAt: { gt: now } },
+        }),
+      };
+
+      const [bookings, total] = await Promise.all([
+        prisma.viewingBooking.findMany({
+          where,
+          skip,
+          take,
+          orderBy: { slot: { startsAt: options.upcoming ? 'asc' : 'desc' } },
+          include: BOOKING_INCLUDE,
+        }),
+        prisma.viewingBooking.count({ where }),
+      ]);
+
+      return createPaginatedResult(bookings, total, page, limit);
+    } catch (error) {
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * A booking as a calendar file, for the buyer, the agent and admins
+   */
+  static async getBookingCalendar(bookingId: string, userId: string): Promise<EmailAttachment> {
+    try {
+      const booking = await this.getParticipantBooking(bookingId, userId);
+      return this.buildCalendarAttachment(booking);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(handlePrismaError(error), 500, 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * Remind agents and buyers of viewings starting soon. Each slot is
+   * reminded once. Returns the number of slots reminded.
+   */
+  static async sendReminders(now: Date = new Date()): Promise<number> {
+    let reminded = 0;
+
+    try {
+      const slots = await prisma.viewingSlot.findMany({
+        where: {
+          status: ViewingSlotStatus.OPEN,
+          reminderSentAt: null,
+          startsAt: { gt: now, lte: new Date(now.getTime() + VIEWING_REMINDER_HOURS * HOUR_MS) },
+          bookings: { some: { status: ViewingBookingStatus.CONFIRMED } },
+        },
+        select: { id: true, type: true, agentId: true, startsAt: true, property: { select: { id: true, title: true } } },
+        orderBy: { startsAt: 'asc' },
+        take: this.REMINDER_BATCH_SIZE,
+      });
+
+      for (const slot of slots) {
+        // Claim the reminder first so a second replica doesn't send it too
+        const claimed = await prisma.viewingSlot.updateMany({
+          where: { id: slot.id, reminderSentAt: null },
+          data: { reminderSentAt: now },
+        });
+
+        if (claimed.count === 0) continue;
+        reminded++;
+
+        const bookings = await prisma.viewingBooking.findMany({
+          where: { slotId: slot.id, status: ViewingBookingStatus.CONFIRMED },
+          include: BOOKING_INCLUDE,
+        });
+
+        for (const booking of bookings) {
+          await this.notify(booking, 'reminder', ['buyer']);
+        }
+
+        // The agent gets one reminder per slot, however many booked it
+        const attendees = bookings.reduce((sum, booking) => sum + booking.attendees, 0);
+        const agent = bookings[0]?.slot.agent;
+
+        if (agent) {
+          await NotificationService.sendNotification({
+            userId: slot.agentId,
+            type: NotificationType.EMAIL,
+            title: `Reminder: ${this.describeSlot(slot.type)} coming up`,
+            content: `"${slot.property.title}" on ${this.formatWhen(slot.startsAt, agent.timezone)}: `
+              + `${bookings.length} ${bookings.length === 1 ? 'booking' : 'bookings'}, ${attendees} ${attendees === 1 ? 'person' : 'people'}.`,
+            data: { type: 'viewing_reminder', slotId: slot.id, propertyId: slot.property.id },
+          }).catch(error => logger.error('Viewing reminder error:', error));
+        }
+      }
+
+      return reminded;
+    } catch (error) {
+      logger.error('Send viewing reminders error:', error);
+      return reminded;
+    }
+  }
+
+  /**
+   * Start the background job that sends viewing reminders
+   */
+  static startReminderJob(): void {
+    this.reminderJob.start();
+  }
+
+  /**
+   * Stop the viewing reminder job
+   */
+  static stopReminderJob(): void {
+    this.reminderJob.stop();
+  }
+
+  private static async assertManager(ownerId: string, userId: string): Promise<void> {
+    const actors = await PropertyLifecycleService.getActors(ownerId, userId);
+    if (actors.length === 0) {
+      throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+  }
+
+  private static assertNotice(startsAt: Date, now: Date): void {
+    if (startsAt.getTime() < now.getTime() + BOOKING_NOTICE_MINUTES * MINUTE_MS) {
+      throw new AppError(
+        `Viewings can't be booked or moved less than ${BOOKING_NOTICE_MINUTES} minutes before they start`,
+        409,
+        'BOOKING_CLOSED'
+      );
+    }
+  }
+
+  /**
+   * Check a buyer can take places on a slot: the slot is open and far enough
+   * off, has room, and the agent isn't booked elsewhere at that time. The
+   * booking being moved, if any, is left out of the checks.
+   */
+  private static async assertBookable(
+    tx: TransactionClient,
+    slotId: string,
+    buyerId: string,
+    attendees: number,
+    now: Date,
+    movingBookingId?: string
+  ) {
+    const slot = await tx.viewingSlot.findUnique({
+      where: { id: slotId },
+      include: {
+        property: { select: { status: true } },
+        bookings: {
+          where: { status: ViewingBookingStatus.CONFIRMED },
+          select: { id: true, buyerId: true, attendees: true },
+        },
+      },
+    });
+
+    if (!slot) {
+      throw new AppError('Viewing slot not found', 404, 'SLOT_NOT_FOUND');
+    }
+
+    if (slot.status !== ViewingSlotStatus.OPEN) {
+      throw new AppError('Viewing slot is no longer available', 409, 'SLOT_UNAVAILABLE');
+    }
+
+    if (slot.property.status !== PropertyStatus.ACTIVE) {
+      throw new AppError('This listing is not taking viewings', 409, 'LISTING_NOT_BOOKABLE');
+    }
+
+    if (slot.agentId === buyerId) {
+      throw new AppError('You cannot book a viewing of your own listing', 400, 'CANNOT_BOOK_OWN_LISTING');
+    }
+
+    this.assertNotice(slot.startsAt, now);
+
+    if (slot.bookings.some(booking => booking.buyerId === buyerId)) {
+      throw new AppError('You have already booked this slot', 409, 'ALREADY_BOOKED');
+    }
+
+    const availability = this.toAvailability(slot);
+    if (attendees > availability.spotsLeft) {
+      throw new AppError(
+        availability.spotsLeft === 0 ? 'Viewing slot is full' : `Only ${availability.spotsLeft} places left`,
+        409,
+        'SLOT_FULL',
+        { spotsLeft: availability.spotsLeft }
+      );
+    }
+
+    const conflict = await this.findAgentConflict(tx, slot.agentId, slot.startsAt, slot.endsAt, slot.id, movingBookingId);
+    if (conflict) {
+      throw new AppError('The agent is already showing another booking at that time', 409, 'BOOKING_CONFLICT', {
+        startsAt: conflict.startsAt,
+        endsAt: conflict.endsAt,
+      });
+    }
+
+    return slot;
+  }
+
+  /**
+   * Another slot of the agent's that overlaps the time and has confirmed
+   * bookings. Open slots without bookings don't count: agents may offer the
+   * same time at several listings and keep whichever is booked first.
+   */
+  private static findAgentConflict(
+    client: TransactionClient,
+    agentId: string,
+    startsAt: Date,
+    endsAt: Date,
+    excludeSlotId?: string,
+    excludeBookingId?: string
+  ) {
+    return client.viewingSlot.findFirst({
+      where: {
+        agentId,
+        status: ViewingSlotStatus.OPEN,
+        startsAt: { lt: endsAt },
+        endsAt: { gt: startsAt },
+        ...(excludeSlotId && { id: { not: excludeSlotId } }),
+        bookings: {
+          some: {
+            status: ViewingBookingStatus.CONFIRMED,
+            ...(excludeBookingId && { id: { not: excludeBookingId } }),
+          },
+        },
+      },
+      select: { id: true, startsAt: true, endsAt: true },
+    });
+  }
+
+  private static toAvailability(
+    slot: ViewingSlot & { bookings: Array<{ attendees: number }> }
+  ): ViewingSlotAvailability {
+    const rules = viewingSlotRules[slot.type as ViewingSlotType] ?? viewingSlotRules[ViewingSlotType.VIEWING];
+    const booked = slot.bookings.reduce((sum, booking) => sum + booking.attendees, 0);
+    const full = rules.maxBookings !== null && slot.bookings.length >= rules.maxBookings;
+
+    return {
+      id: slot.id,
+      propertyId: slot.propertyId,
+      type: slot.type,
+      status: slot.status,
+      startsAt: slot.startsAt,
+      endsAt: slot.endsAt,
+      capacity: slot.capacity,
+      notes: slot.notes,
+      spotsLeft: full ? 0 : Math.max(0, slot.capacity - booked),
+    };
+  }
+
+  private static async getParticipantBooking(bookingId: string, userId: string): Promise<ViewingBookingWithDetails> {
+    const booking = await prisma.viewingBooking.findUnique({
+      where: { id: bookingId },
+      include: BOOKING_INCLUDE,
+    });
+
+    if (!booking) {
+      throw new AppError('Booking not found', 404, 'BOOKING_NOT_FOUND');
+    }
+
+    if (booking.buyerId !== userId && booking.slot.agentId !== userId) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { role: true },
+      });
+
+      if (user?.role !== UserRole.ADMIN) {
+        throw new AppError('Booking not found', 404, 'BOOKING_NOT_FOUND');
+      }
+    }
+
+    return booking;
+  }
+
+  private static describeSlot(type: string): string {
+    return type === ViewingSlotType.OPEN_HOUSE ? 'open house' : 'viewing';
+  }
+
+  /**
+   * A moment in the recipient's timezone, e.g. "2026-10-26 09:00 (Europe/Berlin)"
+   */
+  private static formatWhen(date: Date, timezone: string | null): string {
+    const zone = timezone || DEFAULT_TIME_ZONE;
+    return `${formatInTimeZone(date, zone).replace('T', ' ')} (${zone})`;
+  }
+
+  private static buildCalendarAttachment(booking: ViewingBookingWithDetails): EmailAttachment {
+    const { slot, buyer } = booking;
+    const { property, agent } = slot;
+    const address = property.address ?? property;
+    const location = [address.street, address.city, address.postcode, address.country].filter(Boolean).join(', ');
+    const description = this.describeSlot(slot.type);
+
+    const content = buildCalendar({
+      uid: `viewing-${booking.id}@eu-real-estate.com`,
+      sequence: booking.sequence,
+      start: slot.startsAt,
+      end: slot.endsAt,
+      summary: `${description.charAt(0).toUpperCase()}${description.slice(1)}: ${property.title}`,
+      description: slot.notes ?? undefined,
+      location,
+      url: `${process.env.FRONTEND_URL}/properties/${property.id}`,
+      organizer: { name: `${agent.firstName} ${agent.lastName}`, email: agent.email },
+      attendees: [{ name: `${buyer.firstName} ${buyer.lastName}`, email: buyer.email }],
+      cancelled: booking.status === ViewingBookingStatus.CANCELLED,
+      alarmMinutes: 60,
+    });
+
+    return {
+      filename: `viewing-${booking.id}.ics`,
+      content,
+      contentType: `${CALENDAR_CONTENT_TYPE}; method=${booking.status === ViewingBookingStatus.CANCELLED ? 'CANCEL' : 'REQUEST'}`,
+    };
+  }
+
+  /**
+   * What the buyer or agent is told about a booking
+   */
+  private static getMessage(
+    event: BookingEvent,
+    side: BookingSide,
+    booking: ViewingBookingWithDetails,
+    when: string
+  ): { title: string; content: string } {
+    const description = this.describeSlot(booking.slot.type);
+    const listing = `"${booking.slot.property.title}"`;
+    const people = `${booking.attendees} ${booking.attendees === 1 ? 'person' : 'people'}`;
+    const buyerName = `${booking.buyer.firstName} ${booking.buyer.lastName}`;
+    const reason = booking.cancellationReason ? ` ${booking.cancellationReason}` : '';
+
+    switch (event) {
+      case 'booked':
+        return side === 'buyer'
+          ? { title: `Your ${description} is booked`, content: `Your ${description} of ${listing} on ${when} is confirmed for ${people}.` }
+          : { title: `New ${description} booking`, content: `${buyerName} booked the ${description} of ${listing} on ${when} for ${people}.` };
+      case 'rescheduled':
+        return side === 'buyer'
+          ? { title: `Your ${description} has moved`, content: `Your ${description} of ${listing} is now on ${when}.` }
+          : { title: `A ${description} booking has moved`, content: `${buyerName} moved their ${description} of ${listing} to ${when}.` };
+      case 'cancelled':
+        return side === 'buyer'
+          ? { title: `Your ${description} is cancelled`, content: `Your ${description} of ${listing} on ${when} is cancelled.${reason}` }
+          : { title: `A ${description} booking is cancelled`, content: `${buyerName} cancelled their ${description} of ${listing} on ${when}.${reason}` };
+      case 'reminder':
+        return side === 'buyer'
+          ? { title: `Reminder: your ${description} is coming up`, content: `Your ${description} of ${listing} is on ${when}.` }
+          : { title: `Reminder: ${description} coming up`, content: `${buyerName} is booked for ${listing} on ${when}.` };
+    }
+  }
+
+  /**
+   * Email the buyer and/or agent about a booking, with the calendar file attached
+   */
+  private static async notify(booking: ViewingBookingWithDetails, event: BookingEvent, recipients: BookingSide[]): Promise<void> {
+    const attachments = [this.buildCalendarAttachment(booking)];
+
+    for (const side of recipients) {
+      const recipient = side === 'buyer' ? booking.buyer : booking.slot.agent;
+      const message = this.getMessage(event, side, booking, this.formatWhen(booking.slot.startsAt, recipient.timezone));
+
+      await NotificationService.sendNotification({
+        userId: recipient.id,
+        type: NotificationType.EMAIL,
+        title: message.title,
+        content: message.content,
+        data: { type: `viewing_${event}`, bookingId: booking.id, slotId: booking.slotId, propertyId: booking.slot.property.id },
+        attachments,
+      }).catch(error => logger.error('Viewing notification error:', error));
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Address shape the normalizer reads; both the related address row and the
+ * flat columns on older properties fit it
+ */
+export interface NormalizableAddress {
+  street?: string | null;
+  city?: string | null;
+  postcode?: string | null;
+  country?: string | null;
+}
+
+export interface NormalizedAddress {
+  // Street name words without house numbers, e.g. "haupt strasse"
+  street: string;
+  // House, staircase and flat numbers in the order written, e.g. ["12", "3"]
+  numbers: string[];
+  city: string;
+  postcode: string;
+  country: string;
+}
+
+// Street type spellings across EU languages, mapped to one form
+const STREET_TERMS: Record<string, string> = {
+  str: 'strasse',
+  strasse: 'strasse',
+  st: 'street',
+  rd: 'road',
+  ave: 'avenue',
+  av: 'avenida',
+  avda: 'avenida',
+  c: 'calle',
+  pl: 'platz',
+  bd: 'boulevard',
+  bld: 'boulevard',
+  blvd: 'boulevard',
+  bvd: 'boulevard',
+  ul: 'ulica',
+  r: 'rua',
+  v: 'via',
+  vle: 'viale',
+  ln: 'lane',
+  sq: 'square',
+};
+
+// Words that only say a flat number follows
+const UNIT_WORDS = new Set(['apt', 'apartment', 'flat', 'unit', 'wohnung', 'whg', 'top', 'no', 'nr', 'n', 'piso', 'etage']);
+
+/**
+ * Brings differently written addresses of the same home to one form, e.g.
+ * "Hauptstr. 12/3" and "Hauptstraße 12, Top 3"
+ */
+export class AddressNormalizer {
+  static normalize(address: NormalizableAddress): NormalizedAddress {
+    const words = this.toWords(address.street || '')
+      // German compounds such as "hauptstrasse" split off their street type
+      .flatMap(word => {
+        const compound = word.match(/^(.+?)(strasse|str|weg|platz|gasse|allee)$/);
+        return compound ? [compound[1], compound[2]] : [word];
+      })
+      .map(word => STREET_TERMS[word] || word);
+
+    return {
+      street: words.filter(word => !/\d/.test(word) && !UNIT_WORDS.has(word)).join(' '),
+      numbers: words.filter(word => /\d/.test(word)),
+      city: this.toWords(address.city || '').join(' '),
+      postcode: (address.postcode || '').toUpperCase().replace(/[^A-Z0-9]/g, ''),
+      country: (address.country || '').toUpperCase(),
+    };
+  }
+
+  /**
+   * How alike two addresses are, from 0 to 1. Different house numbers or a
+   * different postcode and city mean a different building.
+   */
+  static similarity(a: NormalizableAddress, b: NormalizableAddress): number {
+    const left = this.normalize(a);
+    const right = this.normalize(b);
+
+    if (left.country && right.country && left.country !== right.country) return 0;
+
+    const samePlace = (left.postcode && left.postcode === right.postcode) || (left.city && left.city === right.city);
+    if (!samePlace) return 0;
+
+    // Compare house numbers only as far as both go, so a missing flat number doesn't count against
+    const shared = Math.min(left.numbers.length, right.numbers.length);
+    if (left.numbers.slice(0, shared).join(' ') !== right.numbers.slice(0, shared).join(' ')) return 0;
+
+    return this.diceCoefficient(left.street, right.street);
+  }
+
+  private static toWords(value: string): string[] {
+    return value
+      .toLowerCase()
+      .replace(/ß/g, 'ss')
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      // "12a" and "12/3" keep their letters and parts apart from the street name
+      .replace(/(\d+)\s*([a-z])\b/g, '$1$2')
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+  }
+
+  /**
+   * Share of character pairs two strings have in common
+   */
+  private static diceCoefficient(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+
+    const pairs = (value: string) => {
+      const counts = new Map<string, number>();
+      for (let i = 0; i < value.length - 1; i++) {
+        const pair = value.slice(i, i + 2);
+        counts.set(pair, (counts.get(pair) || 0) + 1);
+      }
+      return counts;
+    };
+
+    const left = pairs(a);
+    const right = pairs(b);
+    let shared = 0;
+    left.forEach((count, pair) => {
+      shared += Math.min(count, right.get(pair) || 0);
+    });
+
+    return (2 * shared) / (a.length - 1 + b.length - 1);
+  }
+}
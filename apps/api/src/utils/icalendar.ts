@@ -0,0 +1,122 @@
+export interface CalendarPerson {
+  name: string;
+  email: string;
+}
+
+export interface CalendarEvent {
+  // Stays the same across updates so calendar apps replace the event rather than add another
+  uid: string;
+  // Raised on every update; a calendar app ignores anything older than what it has
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  organizer?: CalendarPerson;
+  attendees?: CalendarPerson[];
+  cancelled?: boolean;
+  // Minutes before the start the calendar app alerts the user
+  alarmMinutes?: number;
+}
+
+export const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+const PRODUCT_ID = '-//EU Real Estate Portal//Viewings//EN';
+
+// Content lines longer than this many bytes are folded (RFC 5545 section 3.1)
+const MAX_LINE_BYTES = 75;
+
+/**
+ * A moment in the UTC form iCalendar uses, e.g. 20261026T080000Z
+ */
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split a content line into chunks of at most 75 bytes, continuing each on
+ * a new line that starts with a space. Never splits a multi-byte character.
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    // Continuation lines lose a byte to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_BYTES : MAX_LINE_BYTES - 1;
+
+    if (chunkBytes + charBytes > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      chunkBytes = 0;
+    }
+
+    chunk += char;
+    chunkBytes += charBytes;
+  }
+
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+function formatPerson(property: 'ORGANIZER' | 'ATTENDEE', person: CalendarPerson): string {
+  const name = person.name.replace(/"/g, "'");
+  return `${property};CN="${name}":mailto:${person.email}`;
+}
+
+/**
+ * A calendar file with one event, as sent with booking emails. A cancelled
+ * event tells calendar apps to remove the copy they have.
+ */
+export function buildCalendar(event: CalendarEvent, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.cancelled ? 'CANCEL' : 'REQUEST'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.organizer) lines.push(formatPerson('ORGANIZER', event.organizer));
+
+  for (const attendee of event.attendees ?? []) {
+    lines.push(formatPerson('ATTENDEE', attendee));
+  }
+
+  if (event.alarmMinutes && !event.cancelled) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:-PT${event.alarmMinutes}M`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,54 @@
+import { logger } from './logger';
+
+/**
+ * A background task run on a fixed interval. A tick is skipped while the
+ * previous run is still going, and the timer doesn't keep the process alive.
+ */
+export class IntervalJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly interval: number,
+    private readonly task: () => Promise<unknown>
+  ) {}
+
+  get isStarted(): boolean {
+    return this.timer !== null;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.run();
+    }, this.interval);
+    this.timer.unref();
+
+    logger.info(`${this.name} started`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run the task now, unless a run is already going
+   */
+  async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.task();
+    } catch (error) {
+      logger.error(`${this.name} error:`, error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -1,13 +1,12 @@
 import winston from 'winston';
 import { Request, Response } from 'express';
-import { getLogConfig, LOG_COLORS, sanitizeLogData } from '../config/logging.config';
+import { defaultLoggingConfig, logColors, sanitizeLogData } from '../config/logging.config';
 
 // Add colors to winston
-winston.addColors(LOG_COLORS);
+winston.addColors(logColors);
 
 // Create logger instance with configuration
-const logConfig = getLogConfig();
-const logger = winston.createLogger(logConfig);
+const logger = winston.createLogger(defaultLoggingConfig);
 
 // Performance monitoring
 export class PerformanceMonitor {
@@ -191,4 +190,5 @@ export const createLogger = (service: string) => {
   };
 };
 
-export default logger;
\ No newline at end of file
+export default logger;
+export { logger };
@@ -0,0 +1,135 @@
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+
+/**
+ * DCT-based perceptual hash of listing photos. Resized, recompressed or
+ * slightly recoloured copies of a photo hash to values a few bits apart,
+ * so re-used photos can be found by Hamming distance.
+ */
+export class PerceptualHash {
+  // Images are reduced to this size before the DCT
+  private static readonly SAMPLE_SIZE = 32;
+  // Low-frequency block of the DCT kept for the 64-bit hash
+  private static readonly HASH_SIZE = 8;
+  private static readonly MAX_DECODE_MEMORY_MB = 512;
+
+  /**
+   * Hash a PNG or JPEG file as 16 hex digits, or null when the format can't
+   * be decoded (e.g. WebP)
+   */
+  static fromImage(buffer: Buffer): string | null {
+    const image = this.decode(buffer);
+    if (!image) return null;
+
+    return this.fromPixels(image.width, image.height, image.data);
+  }
+
+  /**
+   * Hash raw RGBA pixels
+   */
+  static fromPixels(width: number, height: number, rgba: Uint8Array): string {
+    const size = this.SAMPLE_SIZE;
+    const samples = this.toGrayscaleSamples(width, height, rgba);
+
+    // 2D DCT-II, only the low frequencies the hash uses
+    const cosines = Array.from({ length: this.HASH_SIZE }, (_, u) =>
+      Array.from({ length: size }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size)))
+    );
+    const coefficients: number[] = [];
+    for (let u = 0; u < this.HASH_SIZE; u++) {
+      for (let v = 0; v < this.HASH_SIZE; v++) {
+        let sum = 0;
+        for (let y = 0; y < size; y++) {
+          for (let x = 0; x < size; x++) {
+            sum += samples[y * size + x] * cosines[u][y] * cosines[v][x];
+          }
+        }
+        coefficients.push(sum);
+      }
+    }
+
+    // The DC term is the average brightness, so it is left out of the median
+    const median = this.median(coefficients.slice(1));
+
+    let hash = '';
+    for (let i = 0; i < coefficients.length; i += 4) {
+      const nibble = coefficients.slice(i, i + 4).reduce((bits, value) => (bits << 1) | (value > median ? 1 : 0), 0);
+      hash += nibble.toString(16);
+    }
+    return hash;
+  }
+
+  /**
+   * Number of differing bits between two hashes
+   */
+  static distance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+      while (bits) {
+        distance += bits & 1;
+        bits >>= 1;
+      }
+    }
+    return distance + Math.abs(a.length - b.length) * 4;
+  }
+
+  private static decode(buffer: Buffer): { width: number; height: number; data: Uint8Array } | null {
+    try {
+      if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return this.fitsDecodeMemory(buffer) ? PNG.sync.read(buffer) : null;
+      }
+      if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+        return jpeg.decode(buffer, {
+          useTArray: true,
+          formatAsRGBA: true,
+          maxMemoryUsageInMB: this.MAX_DECODE_MEMORY_MB,
+        });
+      }
+    } catch {
+      // Corrupt files are treated like unsupported formats
+    }
+    return null;
+  }
+
+  /**
+   * Whether a PNG's IHDR dimensions decode within MAX_DECODE_MEMORY_MB, at
+   * the 8 bytes per pixel of 16-bit RGBA. pngjs has no limit of its own.
+   */
+  private static fitsDecodeMemory(png: Buffer): boolean {
+    if (png.length < 24 || png.toString('ascii', 12, 16) !== 'IHDR') return false;
+
+    const width = png.readUInt32BE(16);
+    const height = png.readUInt32BE(20);
+    return width * height * 8 <= this.MAX_DECODE_MEMORY_MB * 1024 * 1024;
+  }
+
+  /**
+   * Average the image down to SAMPLE_SIZE x SAMPLE_SIZE luma values
+   */
+  private static toGrayscaleSamples(width: number, height: number, rgba: Uint8Array): Float64Array {
+    const size = this.SAMPLE_SIZE;
+    const sums = new Float64Array(size * size);
+    const counts = new Uint32Array(size * size);
+
+    for (let y = 0; y < height; y++) {
+      const row = Math.min(size - 1, Math.floor((y * size) / height));
+      for (let x = 0; x < width; x++) {
+        const column = Math.min(size - 1, Math.floor((x * size) / width));
+        const offset = (y * width + x) * 4;
+        const luma = 0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2];
+        sums[row * size + column] += luma;
+        counts[row * size + column]++;
+      }
+    }
+
+    // Images smaller than the sample grid leave cells empty; those stay black
+    return sums.map((sum, index) => (counts[index] ? sum / counts[index] : 0));
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+}
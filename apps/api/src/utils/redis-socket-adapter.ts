@@ -0,0 +1,80 @@
+import {
+  ClusterAdapterWithHeartbeat,
+  ClusterAdapterOptions,
+  ClusterMessage,
+  ClusterResponse,
+  ServerId,
+} from 'socket.io-adapter';
+import { redis, RedisMessageListener } from '@eu-real-estate/database';
+import { logger } from './logger';
+
+export type PubSubStore = Pick<typeof redis, 'publish' | 'subscribe' | 'unsubscribe'>;
+
+export interface RedisSocketAdapterOptions extends ClusterAdapterOptions {
+  // Prefix of the pub/sub channels, so several apps can share one Redis
+  channelPrefix?: string;
+}
+
+/**
+ * Socket.IO adapter that relays broadcasts, room changes and server-side
+ * emits between API replicas over Redis pub/sub.
+ *
+ * Packets are sent as JSON, so binary attachments are not supported.
+ */
+class RedisSocketAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly channel: string;
+  private readonly onChannelMessage: RedisMessageListener;
+  private readonly onResponseMessage: RedisMessageListener;
+
+  constructor(nsp: any, private readonly store: PubSubStore, prefix: string, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+
+    this.channel = `${prefix}#${nsp.name}#`;
+    this.onChannelMessage = message => this.handle<ClusterMessage>(message, parsed => this.onMessage(parsed));
+    this.onResponseMessage = message => this.handle<ClusterResponse>(message, parsed => this.onResponse(parsed));
+
+    void this.store.subscribe(this.channel, this.onChannelMessage);
+    void this.store.subscribe(this.getResponseChannel(this.uid), this.onResponseMessage);
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    await this.store.publish(this.channel, JSON.stringify(message));
+    // Offsets are only needed for connection state recovery, which pub/sub cannot replay
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    await this.store.publish(this.getResponseChannel(requesterUid), JSON.stringify(response));
+  }
+
+  override close(): void {
+    super.close();
+    void this.store.unsubscribe(this.channel, this.onChannelMessage);
+    void this.store.unsubscribe(this.getResponseChannel(this.uid), this.onResponseMessage);
+  }
+
+  private getResponseChannel(uid: ServerId): string {
+    return `${this.channel}${uid}#`;
+  }
+
+  private handle<T>(message: string, callback: (parsed: T) => void): void {
+    try {
+      callback(JSON.parse(message));
+    } catch (error) {
+      logger.error('Socket adapter message error:', error);
+    }
+  }
+}
+
+/**
+ * Create an adapter factory for `io.adapter()`
+ */
+export function createRedisSocketAdapter(
+  store: PubSubStore = redis,
+  { channelPrefix = 'socket.io', ...opts }: RedisSocketAdapterOptions = {}
+) {
+  // Socket.IO instantiates the factory with `new`, so it cannot be an arrow function
+  return function (nsp: any) {
+    return new RedisSocketAdapter(nsp, store, channelPrefix, opts);
+  };
+}
@@ -0,0 +1,291 @@
+import { parseGeoShape, isPointInShape, buildEuroPriceFilter, BASE_CURRENCY } from '@eu-real-estate/database';
+import type { SavedSearch } from '@eu-real-estate/database';
+import type { SavedSearchCriteria } from '@eu-real-estate/search';
+
+type FeatureKey = keyof NonNullable<SavedSearchCriteria['features']>;
+
+const FEATURE_KEYS: FeatureKey[] = [
+  'garden',
+  'parking',
+  'furnished',
+  'petFriendly',
+  'balcony',
+  'terrace',
+  'elevator',
+  'airConditioning',
+];
+
+/**
+ * Property shape the matcher understands. Listings created through the API
+ * keep location and details in the related tables, while older rows only have
+ * the flat columns, so both are read.
+ */
+export interface MatchableProperty {
+  price: number;
+  currency?: string | null;
+  // Converted price; price ranges in criteria are in euros
+  priceEur?: number | null;
+  propertyType: string;
+  listingType: string;
+  city?: string | null;
+  country?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  bedrooms?: number | null;
+  bathrooms?: number | null;
+  floorArea?: number | null;
+  [feature: string]: unknown;
+  address?: { city?: string | null; country?: string | null } | null;
+  location?: { latitude?: number | null; longitude?: number | null } | null;
+  features?: Record<string, unknown> | null;
+  amenities?: Array<{ name: string }>;
+  tags?: Array<{ tag: { name: string } } | { name: string }>;
+}
+
+/**
+ * Criteria copied onto saved search columns so instant alerts can narrow the
+ * query; null means the search doesn't filter on that value
+ */
+export type SavedSearchFilterColumns = Pick<SavedSearch, 'listingType' | 'country' | 'city' | 'priceMin' | 'priceMax'>;
+
+export class SavedSearchMatcher {
+  static readonly FILTER_COLUMNS: Array<keyof SavedSearchFilterColumns> = ['listingType', 'country', 'city', 'priceMin', 'priceMax'];
+
+  private static readonly EARTH_RADIUS_KM = 6371;
+
+  /**
+   * Turn a stored criteria payload into typed criteria. Searches saved before
+   * the typed schema used minPrice/maxPrice style keys and a single
+   * propertyType string, which are mapped onto the current names.
+   */
+  static normalizeCriteria(raw: string | Record<string, any> | null | undefined): SavedSearchCriteria {
+    let input: any = {};
+
+    if (typeof raw === 'string') {
+      try {
+        const parsed = JSON.parse(raw);
+        input = parsed && typeof parsed === 'object' ? parsed : {};
+      } catch {
+        input = {};
+      }
+    } else if (raw && typeof raw === 'object') {
+      input = raw;
+    }
+
+    const criteria: SavedSearchCriteria = {};
+
+    if (typeof input.query === 'string' && input.query.trim()) criteria.query = input.query.trim();
+
+    const propertyType = input.propertyType;
+    if (Array.isArray(propertyType) && propertyType.length > 0) {
+      criteria.propertyType = propertyType;
+    } else if (typeof propertyType === 'string' && propertyType) {
+      criteria.propertyType = [propertyType as any];
+    }
+
+    if (input.listingType) criteria.listingType = input.listingType;
+
+    const numeric: Array<[keyof SavedSearchCriteria, string[]]> = [
+      ['priceMin', ['priceMin', 'minPrice']],
+      ['priceMax', ['priceMax', 'maxPrice']],
+      ['bedroomsMin', ['bedroomsMin', 'minBedrooms']],
+      ['bedroomsMax', ['bedroomsMax', 'maxBedrooms']],
+      ['bathroomsMin', ['bathroomsMin', 'minBathrooms']],
+      ['bathroomsMax', ['bathroomsMax', 'maxBathrooms']],
+      ['floorAreaMin', ['floorAreaMin', 'minFloorArea']],
+      ['floorAreaMax', ['floorAreaMax', 'maxFloorArea']],
+      ['radius', ['radius']],
+    ];
+
+    for (const [key, aliases] of numeric) {
+      const value = aliases.map(alias => input[alias]).find(candidate => candidate !== undefined && candidate !== null && candidate !== '');
+      if (value !== undefined && !Number.isNaN(Number(value))) {
+        (criteria as any)[key] = Number(value);
+      }
+    }
+
+    if (input.country) criteria.country = String(input.country);
+    if (input.city) criteria.city = String(input.city);
+
+    if (input.location && Number.isFinite(Number(input.location.lat)) && Number.isFinite(Number(input.location.lon))) {
+      criteria.location = { lat: Number(input.location.lat), lon: Number(input.location.lon) };
+    }
+
+    const polygon = input.polygon ? parseGeoShape(input.polygon) : null;
+    if (polygon) criteria.polygon = polygon;
+
+    const features: NonNullable<SavedSearchCriteria['features']> = {};
+    for (const key of FEATURE_KEYS) {
+      const value = input.features?.[key] ?? input[key];
+      if (typeof value === 'boolean') features[key] = value;
+    }
+    if (Object.keys(features).length > 0) criteria.features = features;
+
+    if (Array.isArray(input.amenities) && input.amenities.length > 0) criteria.amenities = input.amenities.map(String);
+    if (Array.isArray(input.tags) && input.tags.length > 0) criteria.tags = input.tags.map(String);
+
+    return criteria;
+  }
+
+  /**
+   * Check whether a property satisfies every criterion that is set
+   */
+  static matches(property: MatchableProperty, criteria: SavedSearchCriteria): boolean {
+    if (criteria.propertyType?.length && !criteria.propertyType.includes(property.propertyType as any)) {
+      return false;
+    }
+
+    if (criteria.listingType && criteria.listingType !== property.listingType) {
+      return false;
+    }
+
+    if (!this.inRange(this.euroPrice(property), criteria.priceMin, criteria.priceMax)) return false;
+
+    const details = property.features ?? {};
+    const bedrooms = this.numberOrNull(details['bedrooms'] ?? property.bedrooms);
+    const bathrooms = this.numberOrNull(details['bathrooms'] ?? property.bathrooms);
+    const floorArea = this.numberOrNull(details['floorArea'] ?? property.floorArea);
+
+    if (!this.inRange(bedrooms, criteria.bedroomsMin, criteria.bedroomsMax)) return false;
+    if (!this.inRange(bathrooms, criteria.bathroomsMin, criteria.bathroomsMax)) return false;
+    if (!this.inRange(floorArea, criteria.floorAreaMin, criteria.floorAreaMax)) return false;
+
+    const city = property.address?.city ?? property.city;
+    const country = property.address?.country ?? property.country;
+
+    if (criteria.country && !this.sameText(country, criteria.country)) return false;
+    if (criteria.city && !this.sameText(city, criteria.city)) return false;
+
+    if (criteria.location && criteria.radius) {
+      const latitude = this.numberOrNull(property.location?.latitude ?? property.latitude);
+      const longitude = this.numberOrNull(property.location?.longitude ?? property.longitude);
+
+      if (latitude === null || longitude === null) return false;
+      if (this.distanceKm(criteria.location.lat, criteria.location.lon, latitude, longitude) > criteria.radius) {
+        return false;
+      }
+    }
+
+    if (criteria.polygon) {
+      const latitude = this.numberOrNull(property.location?.latitude ?? property.latitude);
+      const longitude = this.numberOrNull(property.location?.longitude ?? property.longitude);
+
+      if (latitude === null || longitude === null) return false;
+      if (!isPointInShape(latitude, longitude, criteria.polygon)) return false;
+    }
+
+    if (criteria.features) {
+      for (const [feature, required] of Object.entries(criteria.features)) {
+        // Only a required feature narrows the results; false means "don't care"
+        if (required && !(details[feature] ?? property[feature])) return false;
+      }
+    }
+
+    if (criteria.amenities?.length) {
+      const amenities = (property.amenities ?? []).map(amenity => amenity.name.toLowerCase());
+      if (!criteria.amenities.every(amenity => amenities.includes(amenity.toLowerCase()))) return false;
+    }
+
+    if (criteria.tags?.length) {
+      const tags = (property.tags ?? []).map(tag => ('tag' in tag ? tag.tag.name : tag.name).toLowerCase());
+      if (!criteria.tags.every(tag => tags.includes(tag.toLowerCase()))) return false;
+    }
+
+    if (criteria.query) {
+      const haystack = `${property['title'] ?? ''} ${property['description'] ?? ''} ${city ?? ''}`.toLowerCase();
+      if (!criteria.query.toLowerCase().split(/\s+/).every(term => haystack.includes(term))) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Build a coarse Prisma filter from the criteria so digest runs only load
+   * plausible candidates; matches() still makes the final decision
+   */
+  static buildCandidateFilter(criteria: SavedSearchCriteria): Record<string, any> {
+    const where: any = {};
+
+    if (criteria.propertyType?.length) where.propertyType = { in: criteria.propertyType };
+    if (criteria.listingType) where.listingType = criteria.listingType;
+
+    if (criteria.priceMin !== undefined || criteria.priceMax !== undefined) {
+      Object.assign(where, buildEuroPriceFilter(criteria.priceMin, criteria.priceMax));
+    }
+
+    return where;
+  }
+
+  /**
+   * Values to store alongside the criteria JSON. City and country are kept in
+   * one case because SQLite compares text case-sensitively.
+   */
+  static toFilterColumns(criteria: SavedSearchCriteria): SavedSearchFilterColumns {
+    return {
+      listingType: criteria.listingType ?? null,
+      country: criteria.country ? criteria.country.trim().toUpperCase() : null,
+      city: criteria.city ? criteria.city.trim().toLowerCase() : null,
+      priceMin: criteria.priceMin ?? null,
+      priceMax: criteria.priceMax ?? null,
+    };
+  }
+
+  /**
+   * Build a coarse saved search filter from the property so instant alerts
+   * only load searches that could match; matches() still makes the final decision
+   */
+  static buildAlertFilter(property: MatchableProperty): Record<string, any> {
+    const city = property.address?.city ?? property.city;
+    const country = property.address?.country ?? property.country;
+    const price = this.euroPrice(property);
+
+    // A search filtering on a value the property lacks can't match
+    return {
+      AND: [
+        { OR: [{ listingType: null }, { listingType: property.listingType }] },
+        country ? { OR: [{ country: null }, { country: country.trim().toUpperCase() }] } : { country: null },
+        city ? { OR: [{ city: null }, { city: city.trim().toLowerCase() }] } : { city: null },
+        price !== null ? { OR: [{ priceMin: null }, { priceMin: { lte: price } }] } : { priceMin: null },
+        price !== null ? { OR: [{ priceMax: null }, { priceMax: { gte: price } }] } : { priceMax: null },
+      ],
+    };
+  }
+
+  /**
+   * Great-circle distance between two coordinates in kilometres
+   */
+  static distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(lat2 - lat1);
+    const dLon = toRadians(lon2 - lon1);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+
+    return 2 * this.EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  }
+
+  private static inRange(value: number | null | undefined, min?: number, max?: number): boolean {
+    if (min === undefined && max === undefined) return true;
+    if (value === null || value === undefined) return false;
+    if (min !== undefined && value < min) return false;
+    if (max !== undefined && value > max) return false;
+    return true;
+  }
+
+  private static euroPrice(property: MatchableProperty): number | null {
+    if (property.priceEur !== undefined && property.priceEur !== null) return property.priceEur;
+    // Euro listings need no conversion; others without a rate can't be compared
+    return !property.currency || property.currency === BASE_CURRENCY ? property.price : null;
+  }
+
+  private static numberOrNull(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const number = Number(value);
+    return Number.isNaN(number) ? null : number;
+  }
+
+  private static sameText(value: string | null | undefined, expected: string): boolean {
+    return !!value && value.trim().toLowerCase() === expected.trim().toLowerCase();
+  }
+}
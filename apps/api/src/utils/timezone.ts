@@ -0,0 +1,95 @@
+// Local date and time as entered in a datetime-local field, seconds optional
+export const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Whether the name is an IANA time zone this runtime knows, e.g. "Europe/Dublin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Wall clock reading of a moment in a time zone
+ */
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+  const parts = formatter.formatToParts(date);
+  const value = (type: keyof ZonedParts) => Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+  };
+}
+
+/**
+ * Milliseconds the time zone is ahead of UTC at a moment
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The moment a local date and time ("2026-10-26T09:00") happens in a time
+ * zone. A time skipped by a daylight saving change moves forward by the
+ * length of the gap.
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const match = LOCAL_DATE_TIME_PATTERN.exec(localDateTime);
+  if (!match) {
+    throw new Error(`Invalid local date and time "${localDateTime}"`);
+  }
+
+  const [, year, month, day, hour, minute, second = '0'] = match;
+  const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+
+  // The offset at the guess can differ from the offset at the answer near a daylight saving change
+  const firstOffset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const secondOffset = getTimeZoneOffset(new Date(wallClock - firstOffset), timeZone);
+
+  return new Date(wallClock - secondOffset);
+}
+
+/**
+ * A moment as a local date and time in a time zone, in the format
+ * zonedTimeToUtc reads
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`;
+}
@@ -28,6 +28,9 @@ import {
   Weekend,
   Pets,
 } from '@mui/icons-material';
+import { useAuth } from '../../hooks/useAuth';
+import { useExchangeRates } from '../../hooks/useExchangeRates';
+import { formatDisplayPrice } from '../../utils/currency';
 
 interface PropertyCardProps {
   property: {
@@ -62,6 +65,10 @@ export const PropertyCard = ({ property, isFavorite = false, onToggleFavorite }:
   const [localFavorite, setLocalFavorite] = useState(isFavorite);
   const [localSaved, setLocalSaved] = useState(false);
   const [showFeatures, setShowFeatures] = useState(false);
+  const { user } = useAuth();
+  const displayCurrency = user?.currency;
+  const rates = useExchangeRates(!!displayCurrency && displayCurrency !== property.currency);
+  const price = formatDisplayPrice(property.price, property.currency, displayCurrency, rates);
 
   const handleFavoriteClick = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -78,15 +85,6 @@ export const PropertyCard = ({ property, isFavorite = false, onToggleFavorite }:
     setLocalSaved(!localSaved);
   };
 
-  // Format price based on currency
-  const formatPrice = (price: number, currency: string) => {
-    return new Intl.NumberFormat('en-EU', {
-      style: 'currency',
-      currency,
-      maximumFractionDigits: 0,
-    }).format(price);
-  };
-
   // Get energy rating color based on rating
   const getEnergyRatingColor = (rating?: string) => {
     if (!rating) return '#808080';
@@ -293,12 +291,17 @@ export const PropertyCard = ({ property, isFavorite = false, onToggleFavorite }:
 
         {/* Price and title */}
         <Typography variant="subtitle2" sx={{ fontWeight: 700, mb: 0.5, fontSize: '0.9375rem' }}>
-          {formatPrice(property.price, property.currency)}
+          {price.formatted}
           {property.listingType === 'RENT' && (
             <Typography variant="body2" component="span" color="text.secondary" sx={{ ml: 0.5 }}>
               / {t('property:card.perMonth')}
             </Typography>
           )}
+          {price.original && (
+            <Typography variant="caption" component="span" color="text.secondary" sx={{ ml: 1 }}>
+              {t('property:card.originalPrice', { price: price.original })}
+            </Typography>
+          )}
         </Typography>
         
         {/* Description */}
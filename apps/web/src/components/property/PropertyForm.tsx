@@ -32,9 +32,15 @@ import {
   Save as SaveIcon,
   Preview as PreviewIcon,
   CloudUpload as CloudUploadIcon,
+  Publish as PublishIcon,
 } from '@mui/icons-material';
 
 import { ImageUpload } from './ImageUpload';
+import {
+  ComplianceViolation,
+  ComplianceViolationError,
+  getViolationFormField,
+} from '../../utils/compliance';
 
 interface PropertyFormData {
   title: string;
@@ -77,6 +83,10 @@ interface PropertyFormData {
   condition: string;
   availability: string;
   availableFrom?: string;
+
+  // Scheduling, as local date and time in the owner's timezone
+  publishAt?: string;
+  unpublishAt?: string;
   
   // Images and documents
   images: File[];
@@ -95,8 +105,11 @@ interface PropertyFormProps {
   initialData?: Partial<PropertyFormData>;
   onSubmit: (data: PropertyFormData) => Promise<void>;
   onPreview?: (data: PropertyFormData) => void;
+  onPublish?: (data: PropertyFormData) => Promise<void>;
   isLoading?: boolean;
   mode: 'create' | 'edit';
+  // Timezone the scheduled times are read in; the browser's when not given
+  scheduleTimezone?: string;
 }
 
 const propertyTypes = [
@@ -130,15 +143,25 @@ const conditions = ['NEW', 'EXCELLENT', 'GOOD', 'FAIR', 'NEEDS_RENOVATION'];
 
 const availabilityOptions = ['IMMEDIATE', 'WITHIN_30_DAYS', 'WITHIN_60_DAYS', 'WITHIN_90_DAYS', 'NEGOTIABLE'];
 
+// Fields that render compliance violations inline; the rest are listed above the form
+const complianceFields = [
+  'title', 'description', 'price', 'street', 'city', 'postcode', 'country',
+  'floorArea', 'lotSize', 'yearBuilt', 'energyRating',
+];
+
 export const PropertyForm = ({
   initialData,
   onSubmit,
   onPreview,
+  onPublish,
   isLoading = false,
   mode,
+  scheduleTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone,
 }: PropertyFormProps) => {
   const { t } = useTranslation(['property', 'common']);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [violations, setViolations] = useState<ComplianceViolation[]>([]);
+  const [isPublishing, setIsPublishing] = useState(false);
   const [availableTags, setAvailableTags] = useState<string[]>([]);
 
   // Validation schema
@@ -171,6 +194,14 @@ export const PropertyForm = ({
     contactEmail: Yup.string()
       .email(t('property:form.validation.contactEmailInvalid'))
       .required(t('property:form.validation.contactEmailRequired')),
+    publishAt: Yup.string()
+      .test('future', t('property:form.validation.publishAtFuture'), (value) => !value || new Date(value) > new Date()),
+    // Both are "YYYY-MM-DDTHH:mm" in the same timezone, so they compare as strings
+    unpublishAt: Yup.string()
+      .test('future', t('property:form.validation.unpublishAtFuture'), (value) => !value || new Date(value) > new Date())
+      .test('afterPublish', t('property:form.validation.unpublishAfterPublish'), function (value) {
+        return !value || !this.parent.publishAt || value > this.parent.publishAt;
+      }),
   });
 
   // Form handling
@@ -208,6 +239,8 @@ export const PropertyForm = ({
       condition: 'GOOD',
       availability: 'IMMEDIATE',
       availableFrom: '',
+      publishAt: '',
+      unpublishAt: '',
       images: [],
       documents: [],
       tags: [],
@@ -220,13 +253,57 @@ export const PropertyForm = ({
     onSubmit: async (values) => {
       try {
         setSubmitError(null);
+        setViolations([]);
         await onSubmit(values);
       } catch (error) {
-        setSubmitError(error instanceof Error ? error.message : t('property:form.submitError'));
+        handleSubmitError(error);
       }
     },
   });
 
+  const handleSubmitError = (error: unknown) => {
+    if (error instanceof ComplianceViolationError) {
+      setViolations(error.violations);
+    }
+    setSubmitError(error instanceof Error ? error.message : t('property:form.submitError'));
+  };
+
+  const handlePublish = async () => {
+    if (!onPublish) return;
+
+    const errors = await formik.validateForm();
+    if (Object.keys(errors).length > 0) {
+      formik.setTouched(Object.fromEntries(Object.keys(errors).map((field) => [field, true])));
+      return;
+    }
+
+    setIsPublishing(true);
+    try {
+      setSubmitError(null);
+      setViolations([]);
+      await onPublish(formik.values);
+    } catch (error) {
+      handleSubmitError(error);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const getViolationText = (field: string) => violations
+    .filter((violation) => getViolationFormField(violation) === field)
+    .map((violation) => violation.message)
+    .join(' ');
+
+  // Formik errors win; otherwise show what the compliance check said about the field
+  const getFieldError = (field: keyof PropertyFormData) => {
+    const formikError = formik.touched[field] && formik.errors[field];
+    return typeof formikError === 'string' ? formikError : getViolationText(field);
+  };
+
+  const otherViolations = violations.filter(
+    (violation) => !complianceFields.includes(getViolationFormField(violation))
+  );
+
   // Load available tags
   useEffect(() => {
     const fetchTags = async () => {
@@ -265,6 +342,15 @@ export const PropertyForm = ({
       {submitError && (
         <Alert severity="error" sx={{ mb: 3 }}>
           {submitError}
+          {otherViolations.length > 0 && (
+            <Box component="ul" sx={{ m: 0, mt: 1, pl: 2 }}>
+              {otherViolations.map((violation) => (
+                <li key={`${violation.rule}-${violation.field}-${violation.message}`}>
+                  {violation.message}
+                </li>
+              ))}
+            </Box>
+          )}
         </Alert>
       )}
 
@@ -282,8 +368,8 @@ export const PropertyForm = ({
                 value={formik.values.title}
                 onChange={formik.handleChange}
                 onBlur={formik.handleBlur}
-                error={formik.touched.title && Boolean(formik.errors.title)}
-                helperText={formik.touched.title && formik.errors.title}
+                error={Boolean(getFieldError('title'))}
+                helperText={getFieldError('title')}
                 required
               />
             </Grid>
@@ -299,8 +385,8 @@ export const PropertyForm = ({
                 value={formik.values.description}
                 onChange={formik.handleChange}
                 onBlur={formik.handleBlur}
-                error={formik.touched.description && Boolean(formik.errors.description)}
-                helperText={formik.touched.description && formik.errors.description}
+                error={Boolean(getFieldError('description'))}
+                helperText={getFieldError('description')}
                 required
               />
             </Grid>
@@ -363,8 +449,8 @@ export const PropertyForm = ({
                 value={formik.values.price}
                 onChange={formik.handleChange}
                 onBlur={formik.handleBlur}
-                error={formik.touched.price && Boolean(formik.errors.price)}
-                helperText={formik.touched.price && formik.errors.price}
+                error={Boolean(getFieldError('price'))}
+                helperText={getFieldError('price')}
                 required
               />
             </Grid>
@@ -406,8 +492,8 @@ export const PropertyForm = ({
                 value={formik.values.street}
                 onChange={formik.handleChange}
                 onBlur={formik.handleBlur}
-                error={formik.touched.street && Boolean(formik.errors.street)}
-                helperText={formik.touched.street && formik.errors.street}
+                error={Boolean(getFieldError('street'))}
+                helperText={getFieldError('street')}
                 required
               />
             </Grid>
@@ -421,8 +507,8 @@ export const PropertyForm = ({
                 value={formik.values.city}
                 onChange={formik.handleChange}
                 onBlur={formik.handleBlur}
-                error={formik.touched.city && Boolean(formik.errors.city)}
-                helperText={formik.touched.city && formik.errors.city}
+                error={Boolean(getFieldError('city'))}
+                helperText={getFieldError('city')}
                 required
               />
             </Grid>
@@ -448,14 +534,14 @@ export const PropertyForm = ({
                 value={formik.values.postcode}
                 onChange={formik.handleChange}
                 onBlur={formik.handleBlur}
-                error={formik.touched.postcode && Boolean(formik.errors.postcode)}
-                helperText={formik.touched.postcode && formik.errors.postcode}
+                error={Boolean(getFieldError('postcode'))}
+                helperText={getFieldError('postcode')}
                 required
               />
             </Grid>
             
             <Grid item xs={12} sm={6}>
-              <FormControl fullWidth error={formik.touched.country && Boolean(formik.errors.country)}>
+              <FormControl fullWidth error={Boolean(getFieldError('country'))}>
                 <InputLabel id="country-label">{t('property:form.fields.country')}</InputLabel>
                 <Select
                   labelId="country-label"
@@ -472,8 +558,8 @@ export const PropertyForm = ({
                     </MenuItem>
                   ))}
                 </Select>
-                {formik.touched.country && formik.errors.country && (
-                  <FormHelperText>{formik.errors.country}</FormHelperText>
+                {getFieldError('country') && (
+                  <FormHelperText>{getFieldError('country')}</FormHelperText>
                 )}
               </FormControl>
             </Grid>
@@ -528,8 +614,8 @@ export const PropertyForm = ({
                 value={formik.values.floorArea}
                 onChange={formik.handleChange}
                 onBlur={formik.handleBlur}
-                error={formik.touched.floorArea && Boolean(formik.errors.floorArea)}
-                helperText={formik.touched.floorArea && formik.errors.floorArea}
+                error={Boolean(getFieldError('floorArea'))}
+                helperText={getFieldError('floorArea')}
                 InputProps={{
                   endAdornment: <InputAdornment position="end">m²</InputAdornment>,
                 }}
@@ -548,6 +634,8 @@ export const PropertyForm = ({
                 value={formik.values.lotSize || ''}
                 onChange={formik.handleChange}
                 onBlur={formik.handleBlur}
+                error={Boolean(getFieldError('lotSize'))}
+                helperText={getFieldError('lotSize')}
                 InputProps={{
                   endAdornment: <InputAdornment position="end">m²</InputAdornment>,
                 }}
@@ -565,12 +653,14 @@ export const PropertyForm = ({
                 value={formik.values.yearBuilt || ''}
                 onChange={formik.handleChange}
                 onBlur={formik.handleBlur}
+                error={Boolean(getFieldError('yearBuilt'))}
+                helperText={getFieldError('yearBuilt')}
                 inputProps={{ min: 1800, max: new Date().getFullYear() }}
               />
             </Grid>
             
             <Grid item xs={12} sm={6}>
-              <FormControl fullWidth>
+              <FormControl fullWidth error={Boolean(getFieldError('energyRating'))}>
                 <InputLabel id="energyRating-label">{t('property:form.fields.energyRating')}</InputLabel>
                 <Select
                   labelId="energyRating-label"
@@ -587,6 +677,9 @@ export const PropertyForm = ({
                     </MenuItem>
                   ))}
                 </Select>
+                {getFieldError('energyRating') && (
+                  <FormHelperText>{getFieldError('energyRating')}</FormHelperText>
+                )}
               </FormControl>
             </Grid>
             
@@ -685,6 +778,53 @@ export const PropertyForm = ({
         </CardContent>
       </Card>
 
+      {/* Scheduling */}
+      <Card sx={{ mb: 3 }}>
+        <CardHeader
+          title={t('property:form.sections.scheduling')}
+          subheader={t('property:form.scheduling.description', { timezone: scheduleTimezone })}
+        />
+        <CardContent>
+          <Grid container spacing={3}>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                type="datetime-local"
+                id="publishAt"
+                name="publishAt"
+                label={t('property:form.fields.publishAt')}
+                value={formik.values.publishAt || ''}
+                onChange={formik.handleChange}
+                onBlur={formik.handleBlur}
+                error={formik.touched.publishAt && Boolean(formik.errors.publishAt)}
+                helperText={(formik.touched.publishAt && formik.errors.publishAt) || t('property:form.scheduling.publishAtHelp')}
+                InputLabelProps={{
+                  shrink: true,
+                }}
+              />
+            </Grid>
+
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                type="datetime-local"
+                id="unpublishAt"
+                name="unpublishAt"
+                label={t('property:form.fields.unpublishAt')}
+                value={formik.values.unpublishAt || ''}
+                onChange={formik.handleChange}
+                onBlur={formik.handleBlur}
+                error={formik.touched.unpublishAt && Boolean(formik.errors.unpublishAt)}
+                helperText={(formik.touched.unpublishAt && formik.errors.unpublishAt) || t('property:form.scheduling.unpublishAtHelp')}
+                InputLabelProps={{
+                  shrink: true,
+                }}
+              />
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
       {/* Images */}
       <Card sx={{ mb: 3 }}>
         <CardHeader title={t('property:form.sections.images')} />
@@ -792,13 +932,27 @@ export const PropertyForm = ({
         
         <LoadingButton
           type="submit"
-          variant="contained"
+          variant={onPublish ? 'outlined' : 'contained'}
           startIcon={<SaveIcon />}
           loading={isLoading}
           loadingPosition="start"
+          disabled={isPublishing}
         >
           {mode === 'create' ? t('property:form.actions.create') : t('property:form.actions.update')}
         </LoadingButton>
+
+        {onPublish && (
+          <LoadingButton
+            variant="contained"
+            startIcon={<PublishIcon />}
+            onClick={handlePublish}
+            loading={isPublishing}
+            loadingPosition="start"
+            disabled={isLoading}
+          >
+            {t('property:form.actions.publish')}
+          </LoadingButton>
+        )}
       </Box>
     </Box>
   );
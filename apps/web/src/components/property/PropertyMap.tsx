@@ -1,18 +1,37 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polygon, Polyline, CircleMarker, Tooltip, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import {
   Box,
+  Button,
+  ButtonGroup,
   Card,
   CardActionArea,
   CardContent,
   CardMedia,
+  Paper,
   Typography,
   Chip,
+  useTheme,
 } from '@mui/material';
+import {
+  Draw as DrawIcon,
+  Check as CheckIcon,
+  Close as CloseIcon,
+  LayersClear as LayersClearIcon,
+} from '@mui/icons-material';
+import { GeoAreaFeature, GeoShape } from '../../services/api/geoApi';
+import {
+  propertyMapApi,
+  PropertyMapCluster,
+  PropertyMapFilters,
+  PropertyMapPin,
+  PropertyMapResult,
+} from '../../services/api/propertyMapApi';
+import { polygonFromLatLngs, shapeToLatLngs } from '../../utils/geo';
 
 // Fix Leaflet marker icon issue
 import icon from 'leaflet/dist/images/marker-icon.png';
@@ -27,11 +46,24 @@ let DefaultIcon = L.icon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
+export interface SearchArea {
+  shape: GeoShape;
+  // Set when a stored district was picked rather than an outline drawn
+  areaId?: string;
+}
+
 interface PropertyMapProps {
   properties: any[];
   center?: [number, number];
   zoom?: number;
   height?: string | number;
+  // Area search: stored districts to pick from and the area limiting the results
+  areas?: GeoAreaFeature[];
+  selectedArea?: SearchArea | null;
+  onAreaChange?: (area: SearchArea | null) => void;
+  // When set, listings are loaded for the visible area and clustered on the
+  // server instead of plotting `properties`; keep the object stable between renders
+  mapFilters?: PropertyMapFilters;
 }
 
 // Component to update map view when center prop changes
@@ -43,19 +75,159 @@ const ChangeView = ({ center, zoom }: { center: [number, number]; zoom: number }
   return null;
 };
 
+// Collects the outline's corners from map clicks while drawing
+const DrawingLayer = ({ onPoint }: { onPoint: (point: [number, number]) => void }) => {
+  const map = useMapEvents({
+    click: (event) => onPoint([event.latlng.lat, event.latlng.lng]),
+  });
+
+  // Double clicks would otherwise zoom while corners are being placed
+  useEffect(() => {
+    map.doubleClickZoom.disable();
+    return () => {
+      map.doubleClickZoom.enable();
+    };
+  }, [map]);
+
+  return null;
+};
+
+// Loads clusters or pins whenever the visible area settles
+const ViewportListings = ({
+  filters,
+  onLoad,
+}: {
+  filters: PropertyMapFilters;
+  onLoad: (result: PropertyMapResult) => void;
+}) => {
+  const map = useMap();
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    let latestRequest = 0;
+
+    const load = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const request = ++latestRequest;
+        const bounds = map.getBounds();
+
+        propertyMapApi
+          .getMap(
+            filters,
+            {
+              north: Math.min(bounds.getNorth(), 90),
+              south: Math.max(bounds.getSouth(), -90),
+              east: Math.min(bounds.getEast(), 180),
+              west: Math.max(bounds.getWest(), -180),
+            },
+            Math.round(map.getZoom())
+          )
+          .then(response => {
+            // Drop answers for a viewport the user has already moved away from
+            if (request === latestRequest) onLoad(response.data.data);
+          })
+          .catch(err => console.error('Error loading map listings:', err));
+      }, 300);
+    };
+
+    load();
+    map.on('moveend', load);
+    return () => {
+      latestRequest = -1;
+      clearTimeout(timer);
+      map.off('moveend', load);
+    };
+  }, [map, filters, onLoad]);
+
+  return null;
+};
+
+const clusterIcon = (count: number, color: string) => {
+  const size = count < 10 ? 32 : count < 100 ? 40 : 48;
+
+  return L.divIcon({
+    className: '',
+    iconSize: [size, size],
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:${color};color:#fff;` +
+      `display:flex;align-items:center;justify-content:center;font-weight:600;font-size:13px;` +
+      `box-shadow:0 0 0 4px ${color}55;">${count}</div>`,
+  });
+};
+
+// Cluster bubbles; clicking one zooms to the cell it covers
+const ClusterMarkers = ({
+  clusters,
+  color,
+  formatPrice,
+}: {
+  clusters: PropertyMapCluster[];
+  color: string;
+  formatPrice: (price: number) => string;
+}) => {
+  const map = useMap();
+
+  return (
+    <>
+      {clusters.map(cluster => (
+        <Marker
+          key={cluster.geohash}
+          position={[cluster.location.lat, cluster.location.lon]}
+          icon={clusterIcon(cluster.count, color)}
+          eventHandlers={{
+            click: () => map.fitBounds([
+              [cluster.bounds.south, cluster.bounds.west],
+              [cluster.bounds.north, cluster.bounds.east],
+            ]),
+          }}
+        >
+          <Tooltip>
+            {cluster.priceMin === cluster.priceMax
+              ? formatPrice(cluster.priceMin)
+              : `${formatPrice(cluster.priceMin)} – ${formatPrice(cluster.priceMax)}`}
+          </Tooltip>
+        </Marker>
+      ))}
+    </>
+  );
+};
+
+// Pins from the map endpoint in the shape the listing popups read
+const pinToProperty = (pin: PropertyMapPin) => ({
+  id: pin.id,
+  title: pin.title,
+  price: pin.price,
+  currency: pin.currency,
+  listingType: pin.listingType,
+  bedrooms: pin.bedrooms,
+  images: pin.image ? [pin.image] : [],
+  location: { lat: pin.location.lat, lng: pin.location.lon, city: pin.city },
+});
+
 export const PropertyMap = ({
   properties,
   center = [48.8566, 2.3522], // Default to Paris
   zoom = 5,
   height = '100%',
+  areas = [],
+  selectedArea = null,
+  onAreaChange,
+  mapFilters,
 }: PropertyMapProps) => {
   const { t } = useTranslation(['property', 'common']);
+  const theme = useTheme();
   const navigate = useNavigate();
   const [mapCenter, setMapCenter] = useState<[number, number]>(center);
   const [mapZoom, setMapZoom] = useState<number>(zoom);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [draftPoints, setDraftPoints] = useState<Array<[number, number]>>([]);
+  const [mapResult, setMapResult] = useState<PropertyMapResult | null>(null);
 
   // Update map center and zoom based on properties
   useEffect(() => {
+    // Listings loaded for the viewport follow the map, not the other way round
+    if (mapFilters) return;
+
     if (properties.length > 0) {
       // If only one property, center on it with higher zoom
       if (properties.length === 1 && properties[0].location?.lat && properties[0].location?.lng) {
@@ -93,7 +265,7 @@ export const PropertyMap = ({
         }
       }
     }
-  }, [properties]);
+  }, [properties, mapFilters]);
 
   // Format price based on currency
   const formatPrice = (price: number, currency: string) => {
@@ -109,6 +281,26 @@ export const PropertyMap = ({
     navigate(`/properties/${id}`);
   };
 
+  const markers = mapFilters ? (mapResult?.pins || []).map(pinToProperty) : properties;
+
+  const startDrawing = () => {
+    setDraftPoints([]);
+    setIsDrawing(true);
+  };
+
+  const cancelDrawing = () => {
+    setDraftPoints([]);
+    setIsDrawing(false);
+  };
+
+  // Close the outline and use it as the search area
+  const finishDrawing = () => {
+    if (draftPoints.length >= 3) {
+      onAreaChange?.({ shape: polygonFromLatLngs(draftPoints) });
+    }
+    cancelDrawing();
+  };
+
   return (
     <Box sx={{ height, width: '100%', position: 'relative' }}>
       <MapContainer
@@ -121,9 +313,54 @@ export const PropertyMap = ({
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
-        {properties
-          .filter(property => property.location?.lat && property.location?.lng)
-          .map(property => (
+        {onAreaChange && !isDrawing && areas.map(area => (
+          <Polygon
+            key={area.id}
+            positions={shapeToLatLngs(area.geometry)}
+            pathOptions={
+              area.id === selectedArea?.areaId
+                ? { color: theme.palette.primary.main, weight: 3, fillOpacity: 0.15 }
+                : { color: theme.palette.grey[600], weight: 1, dashArray: '4 4', fillOpacity: 0.05 }
+            }
+            eventHandlers={{
+              click: () => onAreaChange(
+                area.id === selectedArea?.areaId ? null : { shape: area.geometry, areaId: area.id }
+              ),
+            }}
+          >
+            <Tooltip sticky>{area.properties.name}</Tooltip>
+          </Polygon>
+        ))}
+        {selectedArea && !selectedArea.areaId && !isDrawing && (
+          <Polygon
+            positions={shapeToLatLngs(selectedArea.shape)}
+            pathOptions={{ color: theme.palette.primary.main, weight: 3, fillOpacity: 0.15 }}
+          />
+        )}
+        {isDrawing && (
+          <>
+            <DrawingLayer onPoint={point => setDraftPoints(prev => [...prev, point])} />
+            {draftPoints.length > 1 && (
+              <Polyline positions={draftPoints} pathOptions={{ color: theme.palette.primary.main, dashArray: '6 6' }} />
+            )}
+            {draftPoints.map((point, index) => (
+              <CircleMarker key={index} center={point} radius={4} pathOptions={{ color: theme.palette.primary.main }} />
+            ))}
+          </>
+        )}
+        {mapFilters && (
+          <>
+            <ViewportListings filters={mapFilters} onLoad={setMapResult} />
+            <ClusterMarkers
+              clusters={mapResult?.clusters || []}
+              color={theme.palette.primary.main}
+              formatPrice={price => formatPrice(price, 'EUR')}
+            />
+          </>
+        )}
+        {markers
+          .filter((property: any) => property.location?.lat && property.location?.lng)
+          .map((property: any) => (
             <Marker
               key={property.id}
               position={[property.location.lat, property.location.lng]}
@@ -152,7 +389,7 @@ export const PropertyMap = ({
                         {property.title}
                       </Typography>
                       <Typography variant="caption" color="text.secondary">
-                        {property.location.city}, {property.location.country}
+                        {[property.location.city, property.location.country].filter(Boolean).join(', ')}
                       </Typography>
                       {property.bedrooms !== undefined && (
                         <Box sx={{ display: 'flex', gap: 2, mt: 1 }}>
@@ -178,6 +415,47 @@ export const PropertyMap = ({
             </Marker>
           ))}
       </MapContainer>
+
+      {/* Listings in view when clustered on the server */}
+      {mapFilters && mapResult && (
+        <Paper sx={{ position: 'absolute', bottom: 24, left: 10, zIndex: 1000, px: 1.5, py: 0.5 }}>
+          <Typography variant="caption">
+            {t('property:search.map.inView', { count: mapResult.total })}
+          </Typography>
+        </Paper>
+      )}
+
+      {/* Area drawing tools */}
+      {onAreaChange && (
+        <Paper sx={{ position: 'absolute', top: 10, right: 10, zIndex: 1000, p: 1 }}>
+          {isDrawing ? (
+            <>
+              <ButtonGroup size="small" variant="contained">
+                <Button startIcon={<CheckIcon />} onClick={finishDrawing} disabled={draftPoints.length < 3}>
+                  {t('property:search.area.finish')}
+                </Button>
+                <Button startIcon={<CloseIcon />} onClick={cancelDrawing}>
+                  {t('common:cancel')}
+                </Button>
+              </ButtonGroup>
+              <Typography variant="caption" display="block" color="text.secondary" sx={{ mt: 0.5 }}>
+                {t('property:search.area.drawHint')}
+              </Typography>
+            </>
+          ) : (
+            <ButtonGroup size="small" variant="outlined">
+              <Button startIcon={<DrawIcon />} onClick={startDrawing}>
+                {t('property:search.area.draw')}
+              </Button>
+              {selectedArea && (
+                <Button startIcon={<LayersClearIcon />} onClick={() => onAreaChange(null)}>
+                  {t('property:search.area.clear')}
+                </Button>
+              )}
+            </ButtonGroup>
+          )}
+        </Paper>
+      )}
     </Box>
   );
 };
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Card,
+  CardActionArea,
+  CardContent,
+  CardMedia,
+  Chip,
+  Skeleton,
+  Typography,
+} from '@mui/material';
+import { AutoAwesome as AutoAwesomeIcon } from '@mui/icons-material';
+import { useAuth } from '../../hooks/useAuth';
+import { useExchangeRates } from '../../hooks/useExchangeRates';
+import { formatDisplayPrice } from '../../utils/currency';
+import { PropertyRecommendation, recommendationApi } from '../../services/api/recommendationApi';
+
+const CARD_WIDTH = 260;
+
+const RecommendationCard = ({ recommendation }: { recommendation: PropertyRecommendation }) => {
+  const { t } = useTranslation(['property']);
+  const { user } = useAuth();
+  const { property, reasons } = recommendation;
+  const rates = useExchangeRates(!!user?.currency && user.currency !== property.currency);
+  const price = formatDisplayPrice(property.price, property.currency, user?.currency, rates);
+  const image = property.images[0];
+
+  return (
+    <Card sx={{ width: CARD_WIDTH, flexShrink: 0, scrollSnapAlign: 'start' }}>
+      <CardActionArea component={RouterLink} to={`/properties/${property.id}`} sx={{ height: '100%' }}>
+        {image ? (
+          <CardMedia component="img" height={150} image={image.url} alt={image.altText || property.title} />
+        ) : (
+          <Box sx={{ height: 150, bgcolor: 'grey.200' }} />
+        )}
+        <CardContent>
+          <Typography variant="subtitle1" fontWeight={600} noWrap>
+            {price.formatted}
+          </Typography>
+          <Typography variant="body2" noWrap>
+            {property.title}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" display="block" noWrap>
+            {[
+              property.address?.city,
+              property.features?.bedrooms && `${property.features.bedrooms} ${t('property:features.bedrooms')}`,
+            ].filter(Boolean).join(' · ')}
+          </Typography>
+          {reasons[0] && (
+            <Chip
+              size="small"
+              color="primary"
+              variant="outlined"
+              label={reasons[0].message}
+              sx={{ mt: 1, maxWidth: '100%' }}
+            />
+          )}
+        </CardContent>
+      </CardActionArea>
+    </Card>
+  );
+};
+
+/**
+ * Horizontally scrolling "For you" list of recommended listings, each with
+ * the main reason it was picked
+ */
+export const RecommendationRail = ({ limit = 10 }: { limit?: number }) => {
+  const { t } = useTranslation(['dashboard']);
+  const [recommendations, setRecommendations] = useState<PropertyRecommendation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+
+    recommendationApi.getFeed(limit)
+      .then(response => active && setRecommendations(response.data.data.recommendations))
+      .catch(err => console.error('Error loading recommendations:', err))
+      .finally(() => active && setIsLoading(false));
+
+    return () => {
+      active = false;
+    };
+  }, [limit]);
+
+  // Nothing to suggest yet, e.g. no active listings at all
+  if (!isLoading && recommendations.length === 0) return null;
+
+  return (
+    <Box sx={{ mt: 5 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <AutoAwesomeIcon color="primary" />
+        <Typography variant="h5">{t('dashboard:forYou.title')}</Typography>
+      </Box>
+      <Box sx={{ display: 'flex', gap: 2, overflowX: 'auto', pb: 1, scrollSnapType: 'x mandatory' }}>
+        {isLoading
+          ? Array.from({ length: 4 }).map((_, index) => (
+              <Skeleton key={index} variant="rounded" width={CARD_WIDTH} height={260} sx={{ flexShrink: 0 }} />
+            ))
+          : recommendations.map(recommendation => (
+              <RecommendationCard key={recommendation.property.id} recommendation={recommendation} />
+            ))}
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Autocomplete, Box, Chip, InputAdornment, TextField, Typography } from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import { searchApi, SearchSuggestion } from '../../services/api/searchApi';
+
+interface SearchSuggestBoxProps {
+  value: string;
+  onInputChange: (value: string) => void;
+  // Called when a suggestion is picked rather than free text submitted
+  onSelect: (suggestion: SearchSuggestion) => void;
+  placeholder?: string;
+}
+
+// Wait for a pause in typing before asking for suggestions
+const SUGGEST_DELAY_MS = 250;
+
+export const SearchSuggestBox = ({ value, onInputChange, onSelect, placeholder }: SearchSuggestBoxProps) => {
+  const { t } = useTranslation(['property', 'common']);
+  const [options, setOptions] = useState<SearchSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const text = value.trim();
+    if (!text) {
+      setOptions([]);
+      return;
+    }
+
+    let active = true;
+    const timer = setTimeout(() => {
+      setIsLoading(true);
+      searchApi.suggest(text)
+        .then(response => {
+          if (!active) return;
+          const { cities, postcodes, streets, tags, titles } = response.data.data.suggestions.groups;
+          setOptions([...cities, ...postcodes, ...streets, ...tags, ...titles]);
+        })
+        .catch(err => console.error('Error loading search suggestions:', err))
+        .finally(() => active && setIsLoading(false));
+    }, SUGGEST_DELAY_MS);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [value]);
+
+  return (
+    <Autocomplete<SearchSuggestion, false, false, true>
+      freeSolo
+      fullWidth
+      options={options}
+      loading={isLoading}
+      inputValue={value}
+      onInputChange={(_event, newValue, reason) => {
+        // Picking an option is handled by onSelect
+        if (reason !== 'reset') onInputChange(newValue);
+      }}
+      onChange={(_event, option) => {
+        if (option && typeof option !== 'string') onSelect(option);
+      }}
+      // Suggestions are already matched on the server, typos included
+      filterOptions={candidates => candidates}
+      groupBy={option => t(`property:search.suggest.groups.${option.type}`)}
+      getOptionLabel={option => (typeof option === 'string' ? option : option.value)}
+      isOptionEqualToValue={(option, selected) => option.type === selected.type && option.value === selected.value}
+      renderOption={(props, option) => (
+        <Box component="li" {...props} key={`${option.type}-${option.propertyId || option.value}-${option.city || ''}`}>
+          <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+            <Typography variant="body2" noWrap>
+              {option.value}
+            </Typography>
+            {(option.city || option.country) && (
+              <Typography variant="caption" color="text.secondary">
+                {option.city || option.country}
+              </Typography>
+            )}
+          </Box>
+          {option.type !== 'title' && (
+            <Chip label={t('property:search.suggest.listings', { count: option.count })} size="small" sx={{ ml: 1 }} />
+          )}
+        </Box>
+      )}
+      renderInput={params => (
+        <TextField
+          {...params}
+          placeholder={placeholder || t('property:search.searchPlaceholder')}
+          InputProps={{
+            ...params.InputProps,
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          }}
+        />
+      )}
+    />
+  );
+};
@@ -28,8 +28,15 @@ import {
   Schedule as ScheduleIcon,
   Warning as WarningIcon,
   Add as AddIcon,
+  Description as DescriptionIcon,
+  Lock as LockIcon,
 } from '@mui/icons-material';
 
+interface DocumentSlot {
+  type: string;
+  fulfilled: boolean;
+}
+
 interface Milestone {
   id: string;
   title: string;
@@ -43,6 +50,13 @@ interface Milestone {
   };
   isRequired: boolean;
   order: number;
+  // Set for milestones created from a country template
+  key?: string | null;
+  dependsOn?: string[];
+  dueOffsetDays?: number | null;
+  documentSlots?: DocumentSlot[];
+  blockedBy?: Array<{ key: string; title: string }>;
+  canComplete?: boolean;
 }
 
 interface TransactionWorkflowProps {
@@ -119,6 +133,9 @@ export const TransactionWorkflow = ({
     if (milestone.dueDate && new Date(milestone.dueDate) < new Date()) {
       return <WarningIcon color="error" />;
     }
+    if (milestone.blockedBy?.length) {
+      return <LockIcon color="disabled" />;
+    }
     return <ScheduleIcon color="action" />;
   };
 
@@ -216,10 +233,37 @@ export const TransactionWorkflow = ({
                       </Typography>
                     )}
                     
-                    {milestone.dueDate && (
+                    {milestone.dueDate ? (
                       <Typography variant="body2" color="text.secondary" gutterBottom>
                         {t('transaction:workflow.dueDate')}: {new Date(milestone.dueDate).toLocaleDateString()}
                       </Typography>
+                    ) : milestone.dueOffsetDays != null && (
+                      <Typography variant="body2" color="text.secondary" gutterBottom>
+                        {t('transaction:workflow.dueAfterAcceptance', { count: milestone.dueOffsetDays })}
+                      </Typography>
+                    )}
+
+                    {!!milestone.documentSlots?.length && (
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+                        {milestone.documentSlots.map((slot) => (
+                          <Chip
+                            key={slot.type}
+                            icon={slot.fulfilled ? <CheckCircleIcon /> : <DescriptionIcon />}
+                            label={t(`transaction:documentTypes.${slot.type.toLowerCase()}`)}
+                            size="small"
+                            color={slot.fulfilled ? 'success' : 'default'}
+                            variant={slot.fulfilled ? 'filled' : 'outlined'}
+                          />
+                        ))}
+                      </Box>
+                    )}
+
+                    {!milestone.completedAt && !!milestone.blockedBy?.length && (
+                      <Typography variant="body2" color="text.secondary" gutterBottom>
+                        {t('transaction:workflow.waitingOn', {
+                          milestones: milestone.blockedBy.map(dependency => dependency.title).join(', '),
+                        })}
+                      </Typography>
                     )}
                     
                     {milestone.completedAt ? (
@@ -239,7 +283,7 @@ export const TransactionWorkflow = ({
                         variant="contained"
                         size="small"
                         onClick={() => handleCompleteMilestone(milestone.id)}
-                        disabled={isCompleting === milestone.id}
+                        disabled={isCompleting === milestone.id || milestone.canComplete === false}
                         sx={{ mt: 1 }}
                       >
                         {isCompleting === milestone.id 
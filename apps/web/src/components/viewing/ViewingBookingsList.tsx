@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Link,
+  MenuItem,
+  Skeleton,
+  Tab,
+  Tabs,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { EventAvailable as EventAvailableIcon } from '@mui/icons-material';
+import {
+  BookingSide,
+  ViewingBooking,
+  ViewingSlot,
+  viewingApi,
+} from '../../services/api/viewingApi';
+import { formatSlotTime } from './ViewingSlots';
+
+/**
+ * The viewings a user booked, or with the agent tab the viewings booked on
+ * their listings, with cancel, reschedule and add-to-calendar actions
+ */
+export const ViewingBookingsList = ({ limit = 10 }: { limit?: number }) => {
+  const { t } = useTranslation(['dashboard', 'property', 'common']);
+  const [side, setSide] = useState<BookingSide>('buyer');
+  const [bookings, setBookings] = useState<ViewingBooking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState<ViewingBooking | null>(null);
+  const [slots, setSlots] = useState<ViewingSlot[]>([]);
+  const [slotId, setSlotId] = useState('');
+
+  const loadBookings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await viewingApi.listBookings({ as: side, upcoming: true, limit });
+      setBookings(response.data.data.data);
+    } catch (err) {
+      console.error('Error loading viewing bookings:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [side, limit]);
+
+  useEffect(() => {
+    loadBookings();
+  }, [loadBookings]);
+
+  const handleCancel = async (booking: ViewingBooking) => {
+    if (!window.confirm(t('dashboard:viewings.confirmCancel'))) return;
+
+    setError(null);
+    try {
+      await viewingApi.cancelBooking(booking.id);
+      await loadBookings();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || t('dashboard:viewings.cancelError'));
+    }
+  };
+
+  const openReschedule = async (booking: ViewingBooking) => {
+    setError(null);
+    setSlotId('');
+    setRescheduling(booking);
+    try {
+      const response = await viewingApi.getSlots(booking.slot.property.id);
+      setSlots(response.data.data.slots.filter(slot => slot.id !== booking.slotId && slot.spotsLeft >= booking.attendees));
+    } catch (err) {
+      console.error('Error loading viewing slots:', err);
+      setSlots([]);
+    }
+  };
+
+  const handleReschedule = async () => {
+    if (!rescheduling || !slotId) return;
+
+    setError(null);
+    try {
+      await viewingApi.reschedule(rescheduling.id, slotId);
+      setRescheduling(null);
+      await loadBookings();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || t('dashboard:viewings.rescheduleError'));
+    }
+  };
+
+  const handleDownload = (booking: ViewingBooking) => {
+    viewingApi.downloadCalendar(booking.id)
+      .catch(err => console.error('Error downloading calendar file:', err));
+  };
+
+  return (
+    <Box sx={{ mt: 5 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <EventAvailableIcon color="primary" />
+        <Typography variant="h5">{t('dashboard:viewings.title')}</Typography>
+      </Box>
+      <Tabs value={side} onChange={(_, value: BookingSide) => setSide(value)} sx={{ mb: 2 }}>
+        <Tab value="buyer" label={t('dashboard:viewings.asBuyer')} />
+        <Tab value="agent" label={t('dashboard:viewings.asAgent')} />
+      </Tabs>
+
+      {error && !rescheduling && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Skeleton variant="rounded" height={96} />
+      ) : bookings.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {side === 'buyer' ? t('dashboard:viewings.noBookings') : t('dashboard:viewings.noAgentBookings')}
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+          {bookings.map(booking => {
+            const other = side === 'buyer' ? booking.slot.agent : booking.buyer;
+
+            return (
+              <Card key={booking.id} variant="outlined">
+                <CardContent sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+                  <Box sx={{ flex: 1, minWidth: 220 }}>
+                    <Link component={RouterLink} to={`/properties/${booking.slot.property.id}`} variant="subtitle1" fontWeight={600}>
+                      {booking.slot.property.title}
+                    </Link>
+                    <Typography variant="body2">
+                      {formatSlotTime(booking.slot.startsAt, booking.slot.endsAt)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {[
+                        `${other.firstName} ${other.lastName}`,
+                        t('dashboard:viewings.attendees', { count: booking.attendees }),
+                      ].join(' · ')}
+                    </Typography>
+                  </Box>
+                  {booking.slot.type === 'OPEN_HOUSE' && (
+                    <Chip size="small" color="secondary" label={t('property:viewings.types.openHouse')} />
+                  )}
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <Button size="small" onClick={() => handleDownload(booking)}>
+                      {t('dashboard:viewings.addToCalendar')}
+                    </Button>
+                    {side === 'buyer' && (
+                      <Button size="small" onClick={() => openReschedule(booking)}>
+                        {t('dashboard:viewings.reschedule')}
+                      </Button>
+                    )}
+                    <Button size="small" color="error" onClick={() => handleCancel(booking)}>
+                      {t('common:cancel')}
+                    </Button>
+                  </Box>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </Box>
+      )}
+
+      {/* Reschedule Dialog */}
+      <Dialog open={!!rescheduling} onClose={() => setRescheduling(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('dashboard:viewings.reschedule')}</DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          {slots.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {t('dashboard:viewings.noOtherSlots')}
+            </Typography>
+          ) : (
+            <TextField
+              select
+              fullWidth
+              margin="normal"
+              label={t('dashboard:viewings.newSlot')}
+              value={slotId}
+              onChange={(e) => setSlotId(e.target.value)}
+            >
+              {slots.map(slot => (
+                <MenuItem key={slot.id} value={slot.id}>
+                  {formatSlotTime(slot.startsAt, slot.endsAt)}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRescheduling(null)}>{t('common:close')}</Button>
+          <Button variant="contained" onClick={handleReschedule} disabled={!slotId}>
+            {t('dashboard:viewings.confirmReschedule')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -0,0 +1,334 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  IconButton,
+  MenuItem,
+  Skeleton,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Close as CloseIcon, Event as EventIcon } from '@mui/icons-material';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  MAX_ATTENDEES,
+  ViewingSlot,
+  ViewingSlotType,
+  viewingApi,
+} from '../../services/api/viewingApi';
+
+interface ViewingSlotsProps {
+  propertyId: string;
+  // The listing's owner manages slots instead of booking them
+  isOwner: boolean;
+}
+
+interface SlotDraft {
+  type: ViewingSlotType;
+  startsAt: string;
+  endsAt: string;
+  capacity: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: SlotDraft = { type: 'VIEWING', startsAt: '', endsAt: '', capacity: '', notes: '' };
+
+export const formatSlotTime = (startsAt: string, endsAt: string) => {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  const day = start.toLocaleDateString('en-EU', { weekday: 'short', day: 'numeric', month: 'short' });
+  const time = (date: Date) => date.toLocaleTimeString('en-EU', { hour: '2-digit', minute: '2-digit' });
+  return `${day}, ${time(start)}–${time(end)}`;
+};
+
+/**
+ * Upcoming viewings and open houses of a listing. Buyers book a place;
+ * the owner publishes and withdraws slots.
+ */
+export const ViewingSlots = ({ propertyId, isOwner }: ViewingSlotsProps) => {
+  const { t } = useTranslation(['property', 'common']);
+  const { isAuthenticated } = useAuth();
+  const [slots, setSlots] = useState<ViewingSlot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [bookingSlot, setBookingSlot] = useState<ViewingSlot | null>(null);
+  const [attendees, setAttendees] = useState(1);
+  const [bookingNotes, setBookingNotes] = useState('');
+  const [draft, setDraft] = useState<SlotDraft | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadSlots = useCallback(async () => {
+    try {
+      const response = await viewingApi.getSlots(propertyId);
+      setSlots(response.data.data.slots);
+    } catch (err) {
+      console.error('Error loading viewing slots:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  const openBooking = (slot: ViewingSlot) => {
+    setError(null);
+    setAttendees(1);
+    setBookingNotes('');
+    setBookingSlot(slot);
+  };
+
+  const handleBook = async () => {
+    if (!bookingSlot) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await viewingApi.book(bookingSlot.id, attendees, bookingNotes || undefined);
+      setSuccess(t('property:viewings.booked'));
+      setBookingSlot(null);
+      await loadSlots();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || t('property:viewings.bookError'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreateSlot = async () => {
+    if (!draft) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await viewingApi.createSlot(propertyId, {
+        type: draft.type,
+        // datetime-local values are in the browser's timezone
+        startsAt: new Date(draft.startsAt).toISOString(),
+        endsAt: new Date(draft.endsAt).toISOString(),
+        capacity: draft.capacity ? Number(draft.capacity) : undefined,
+        notes: draft.notes || undefined,
+      });
+      setDraft(null);
+      await loadSlots();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || t('property:viewings.createError'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelSlot = async (slot: ViewingSlot) => {
+    if (!window.confirm(t('property:viewings.confirmCancelSlot'))) return;
+
+    setError(null);
+    try {
+      await viewingApi.cancelSlot(slot.id);
+      await loadSlots();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || t('property:viewings.cancelError'));
+    }
+  };
+
+  // Nothing to show a buyer when no slots are published
+  if (!isLoading && slots.length === 0 && !isOwner) return null;
+
+  const draftValid = draft && draft.startsAt && draft.endsAt && new Date(draft.endsAt) > new Date(draft.startsAt);
+
+  return (
+    <Box sx={{ p: 2, bgcolor: 'background.paper', borderBottom: '1px solid', borderColor: 'divider' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+        <EventIcon color="action" sx={{ mr: 1 }} />
+        <Typography variant="h6" sx={{ fontWeight: 600, flex: 1 }}>
+          {t('property:viewings.title')}
+        </Typography>
+        {isOwner && (
+          <Button size="small" startIcon={<AddIcon />} onClick={() => { setError(null); setDraft(EMPTY_DRAFT); }}>
+            {t('property:viewings.addSlot')}
+          </Button>
+        )}
+      </Box>
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+      {error && !bookingSlot && !draft && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Skeleton variant="rounded" height={56} />
+      ) : slots.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {t('property:viewings.noSlots')}
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          {slots.map(slot => (
+            <Box
+              key={slot.id}
+              sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1.5, border: '1px solid', borderColor: 'divider', borderRadius: 2 }}
+            >
+              <Box sx={{ flex: 1 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  {formatSlotTime(slot.startsAt, slot.endsAt)}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {slot.spotsLeft > 0
+                    ? t('property:viewings.spotsLeft', { count: slot.spotsLeft })
+                    : t('property:viewings.full')}
+                </Typography>
+              </Box>
+              {slot.type === 'OPEN_HOUSE' && (
+                <Chip size="small" color="secondary" label={t('property:viewings.types.openHouse')} />
+              )}
+              {isOwner ? (
+                <IconButton size="small" onClick={() => handleCancelSlot(slot)} aria-label={t('property:viewings.cancelSlot')}>
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              ) : isAuthenticated ? (
+                <Button size="small" variant="outlined" disabled={slot.spotsLeft === 0} onClick={() => openBooking(slot)}>
+                  {t('property:viewings.book')}
+                </Button>
+              ) : (
+                <Button size="small" variant="outlined" component={RouterLink} to="/login">
+                  {t('property:viewings.loginToBook')}
+                </Button>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {/* Book Slot Dialog */}
+      <Dialog open={!!bookingSlot} onClose={() => setBookingSlot(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('property:viewings.bookTitle')}</DialogTitle>
+        <DialogContent>
+          {bookingSlot && (
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              {formatSlotTime(bookingSlot.startsAt, bookingSlot.endsAt)}
+            </Typography>
+          )}
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <TextField
+            select
+            fullWidth
+            margin="normal"
+            label={t('property:viewings.attendees')}
+            value={attendees}
+            onChange={(e) => setAttendees(Number(e.target.value))}
+          >
+            {Array.from({ length: Math.min(MAX_ATTENDEES, bookingSlot?.spotsLeft ?? 1) }, (_, index) => index + 1).map(count => (
+              <MenuItem key={count} value={count}>{count}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            fullWidth
+            multiline
+            rows={2}
+            margin="normal"
+            label={t('property:viewings.notes')}
+            value={bookingNotes}
+            onChange={(e) => setBookingNotes(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setBookingSlot(null)}>{t('common:cancel')}</Button>
+          <Button variant="contained" onClick={handleBook} disabled={isSubmitting}>
+            {t('property:viewings.confirmBooking')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Add Slot Dialog */}
+      <Dialog open={!!draft} onClose={() => setDraft(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('property:viewings.addSlot')}</DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          {draft && (
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  select
+                  fullWidth
+                  label={t('property:viewings.type')}
+                  value={draft.type}
+                  onChange={(e) => setDraft({ ...draft, type: e.target.value as ViewingSlotType })}
+                >
+                  <MenuItem value="VIEWING">{t('property:viewings.types.viewing')}</MenuItem>
+                  <MenuItem value="OPEN_HOUSE">{t('property:viewings.types.openHouse')}</MenuItem>
+                </TextField>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  type="number"
+                  label={t('property:viewings.capacity')}
+                  value={draft.capacity}
+                  onChange={(e) => setDraft({ ...draft, capacity: e.target.value })}
+                  helperText={t('property:viewings.capacityHelp')}
+                  inputProps={{ min: 1 }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  type="datetime-local"
+                  label={t('property:viewings.startsAt')}
+                  value={draft.startsAt}
+                  onChange={(e) => setDraft({ ...draft, startsAt: e.target.value })}
+                  InputLabelProps={{
+                    shrink: true,
+                  }}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  type="datetime-local"
+                  label={t('property:viewings.endsAt')}
+                  value={draft.endsAt}
+                  onChange={(e) => setDraft({ ...draft, endsAt: e.target.value })}
+                  InputLabelProps={{
+                    shrink: true,
+                  }}
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  multiline
+                  rows={2}
+                  label={t('property:viewings.notes')}
+                  value={draft.notes}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                />
+              </Grid>
+            </Grid>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDraft(null)}>{t('common:cancel')}</Button>
+          <Button variant="contained" onClick={handleCreateSlot} disabled={!draftValid || isSubmitting}>
+            {t('property:viewings.publishSlot')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { exchangeRateApi, ExchangeRateTable } from '../services/api/exchangeRateApi';
+
+// Rates change once a day, so every card shares a single request per page load
+let ratesRequest: Promise<ExchangeRateTable> | null = null;
+
+const loadRates = () => {
+  if (!ratesRequest) {
+    ratesRequest = exchangeRateApi.getRates()
+      .then(response => response.data.data.rates)
+      .catch(err => {
+        // Let the next caller try again
+        ratesRequest = null;
+        throw err;
+      });
+  }
+  return ratesRequest;
+};
+
+/**
+ * Latest exchange rates, or null until they load (or when they can't be)
+ */
+export const useExchangeRates = (enabled: boolean = true) => {
+  const [rates, setRates] = useState<ExchangeRateTable | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let active = true;
+    loadRates()
+      .then(loaded => active && setRates(loaded))
+      .catch(err => console.error('Error loading exchange rates:', err));
+
+    return () => {
+      active = false;
+    };
+  }, [enabled]);
+
+  return rates;
+};
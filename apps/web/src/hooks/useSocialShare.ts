@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { ShareParams, SocialPlatform } from '../components/social/SocialShareButton';
+import { propertyEventApi } from '../services/api/propertyEventApi';
 
 export interface ShareAnalytics {
   platform: string;
@@ -52,7 +53,7 @@ export const useSocialShare = (options: UseSocialShareOptions = {}) => {
   }, []);
 
   // Track share event
-  const trackShare = useCallback((platform: SocialPlatform, shareParams: ShareParams) => {
+  const trackShare = useCallback((platform: SocialPlatform) => {
     if (!trackAnalytics) return;
 
     setAnalytics(prev => {
@@ -73,18 +74,8 @@ export const useSocialShare = (options: UseSocialShareOptions = {}) => {
       }
     });
 
-    // Send analytics to backend (if needed)
     if (propertyId) {
-      // API call to track share event
-      fetch('/api/analytics/share', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          propertyId,
-          platform: platform.id,
-          shareParams,
-        }),
-      }).catch(console.error);
+      propertyEventApi.track(propertyId, 'SHARE', platform.id);
     }
   }, [propertyId, trackAnalytics]);
 
@@ -94,7 +85,7 @@ export const useSocialShare = (options: UseSocialShareOptions = {}) => {
     
     try {
       // Track the share
-      trackShare(platform, shareParams);
+      trackShare(platform);
       
       // Call custom onShare handler
       if (onShare) {
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import {
   Box,
@@ -10,6 +11,8 @@ import {
 } from '@mui/material';
 
 import { PropertyCard } from '../components/property/PropertyCard';
+import { SearchSuggestBox } from '../components/property/SearchSuggestBox';
+import { SearchSuggestion } from '../services/api/searchApi';
 
 // Mock data for properties - Instagram feed style
 const mockProperties = Array.from({ length: 12 }, (_, i) => ({
@@ -53,6 +56,8 @@ export const HomePage = () => {
   const [properties, setProperties] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [listingTypeFilter, setListingTypeFilter] = useState<'ALL' | 'SALE' | 'RENT'>('ALL');
+  const [searchText, setSearchText] = useState('');
+  const navigate = useNavigate();
 
   useEffect(() => {
     // Simulate loading properties
@@ -70,6 +75,30 @@ export const HomePage = () => {
     setListingTypeFilter(newValue);
   };
 
+  // Open the search page for a picked suggestion, or a listing for a picked title
+  const handleSuggestionSelect = (suggestion: SearchSuggestion) => {
+    if (suggestion.type === 'title' && suggestion.propertyId) {
+      navigate(`/properties/${suggestion.propertyId}`);
+      return;
+    }
+
+    const params = new URLSearchParams();
+    if (suggestion.type === 'city') {
+      params.set('city', suggestion.value);
+      if (suggestion.country) params.set('country', suggestion.country);
+    } else {
+      params.set('query', suggestion.value);
+    }
+    navigate(`/search?${params.toString()}`);
+  };
+
+  const handleSearchSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (searchText.trim()) {
+      navigate(`/search?${new URLSearchParams({ query: searchText.trim() }).toString()}`);
+    }
+  };
+
   // Filter properties based on selected tab
   const filteredProperties = listingTypeFilter === 'ALL' 
     ? properties 
@@ -88,6 +117,15 @@ export const HomePage = () => {
           </Typography>
         </Box>
 
+        {/* Search box */}
+        <Box component="form" onSubmit={handleSearchSubmit} sx={{ px: 2, mb: 2 }}>
+          <SearchSuggestBox
+            value={searchText}
+            onInputChange={setSearchText}
+            onSelect={handleSuggestionSelect}
+          />
+        </Box>
+
         {/* Listing Type Filter Tabs */}
         <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}>
           <Tabs 
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, Link as RouterLink } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import {
@@ -22,6 +22,9 @@ import {
 } from '@mui/icons-material';
 
 import { PropertyMap } from '../components/property/PropertyMap';
+import { ViewingSlots } from '../components/viewing/ViewingSlots';
+import { useAuth } from '../hooks/useAuth';
+import { propertyEventApi } from '../services/api/propertyEventApi';
 
 // Mock property data
 const mockProperty = {
@@ -89,11 +92,13 @@ const mockProperty = {
 export const PropertyDetailsPage = () => {
   const { t } = useTranslation(['property', 'common']);
   const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
   const [property, setProperty] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFavorite, setIsFavorite] = useState(false);
   const [activeImage, setActiveImage] = useState(0);
+  const galleryOpened = useRef(false);
 
   // Fetch property data
   useEffect(() => {
@@ -123,12 +128,29 @@ export const PropertyDetailsPage = () => {
     setIsFavorite(!isFavorite);
   };
 
+  // Browsing past the first photo counts once as opening the gallery
+  const trackGalleryOpen = () => {
+    if (id && !galleryOpened.current) {
+      galleryOpened.current = true;
+      propertyEventApi.track(id, 'GALLERY_OPEN');
+    }
+  };
+
+  const handleContact = (channel: 'phone' | 'email', href: string) => {
+    if (id) {
+      propertyEventApi.track(id, 'CONTACT', channel);
+    }
+    window.open(href);
+  };
+
   // Navigate through images
   const handlePrevImage = () => {
+    trackGalleryOpen();
     setActiveImage((prev) => (prev > 0 ? prev - 1 : property.images.length - 1));
   };
 
   const handleNextImage = () => {
+    trackGalleryOpen();
     setActiveImage((prev) => (prev < property.images.length - 1 ? prev + 1 : 0));
   };
 
@@ -314,7 +336,7 @@ export const PropertyDetailsPage = () => {
             <Box sx={{ flex: 1 }} />
             <Button
               variant="contained"
-              onClick={() => window.open(`tel:${property.agent.phone}`)}
+              onClick={() => handleContact('phone', `tel:${property.agent.phone}`)}
               sx={{ borderRadius: 8, px: 3 }}
             >
               {t('property:details.contact')}
@@ -371,6 +393,11 @@ export const PropertyDetailsPage = () => {
           </Typography>
         </Box>
 
+        {/* Viewings Section */}
+        {id && (
+          <ViewingSlots propertyId={id} isOwner={!!user && user.id === (property.ownerId ?? property.agent.id)} />
+        )}
+
         {/* Features Section */}
         <Box sx={{ p: 2, bgcolor: 'background.paper', borderBottom: '1px solid', borderColor: 'divider' }}>
           <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
@@ -442,14 +469,14 @@ export const PropertyDetailsPage = () => {
             <Button
               variant="outlined"
               fullWidth
-              onClick={() => window.open(`mailto:${property.agent.email}`)}
+              onClick={() => handleContact('email', `mailto:${property.agent.email}`)}
             >
               {t('property:details.email')}
             </Button>
             <Button
               variant="outlined"
               fullWidth
-              onClick={() => window.open(`tel:${property.agent.phone}`)}
+              onClick={() => handleContact('phone', `tel:${property.agent.phone}`)}
             >
               {t('property:details.call')}
             </Button>
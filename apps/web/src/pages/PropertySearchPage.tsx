@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useState, useEffect, useMemo } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import {
   Box,
@@ -21,23 +21,33 @@ import {
   FormControlLabel,
   Checkbox,
   IconButton,
-  InputAdornment,
   CircularProgress,
   Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
   useMediaQuery,
   useTheme,
 } from '@mui/material';
 import {
-  Search as SearchIcon,
   FilterList as FilterListIcon,
   Close as CloseIcon,
   Map as MapIcon,
   ViewList as ViewListIcon,
+  BookmarkAdd as BookmarkAddIcon,
 } from '@mui/icons-material';
 
 import { PropertyCard } from '../components/property/PropertyCard';
-import { PropertyMap } from '../components/property/PropertyMap';
+import { PropertyMap, SearchArea } from '../components/property/PropertyMap';
 import { PropertySearchFilters } from '../components/property/PropertySearchFilters';
+import { SearchSuggestBox } from '../components/property/SearchSuggestBox';
+import { useAuth } from '../hooks/useAuth';
+import { savedSearchApi, SavedSearchFrequency } from '../services/api/savedSearchApi';
+import { criteriaFromFilters, mapFiltersFromFilters } from '../utils/savedSearch';
+import { geoApi, GeoAreaFeature } from '../services/api/geoApi';
+import { SearchSuggestion } from '../services/api/searchApi';
+import { isPointInShape, parseShapeParam } from '../utils/geo';
 
 // Mock data for properties
 const mockProperties = Array.from({ length: 20 }, (_, i) => ({
@@ -86,6 +96,7 @@ export const PropertySearchPage = () => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [properties, setProperties] = useState<any[]>([]);
@@ -93,6 +104,12 @@ export const PropertySearchPage = () => {
   const [page, setPage] = useState(1);
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
   const [filtersOpen, setFiltersOpen] = useState(!isMobile);
+  const { isAuthenticated } = useAuth();
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [searchName, setSearchName] = useState('');
+  const [alertFrequency, setAlertFrequency] = useState<SavedSearchFrequency>('INSTANT');
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [areas, setAreas] = useState<GeoAreaFeature[]>([]);
 
   // Search filters
   const [filters, setFilters] = useState({
@@ -113,8 +130,28 @@ export const PropertySearchPage = () => {
       elevator: searchParams.get('elevator') === 'true',
       furnished: searchParams.get('furnished') === 'true',
     },
+    areaId: searchParams.get('areaId') || '',
+    polygon: parseShapeParam(searchParams.get('polygon')),
   });
 
+  // Map view loads clustered listings for its viewport with the same filters
+  const mapFilters = useMemo(() => mapFiltersFromFilters(filters), [filters]);
+
+  // Load the district catalogue for area search
+  useEffect(() => {
+    geoApi.listAreas()
+      .then(response => setAreas(response.data.data.areas.features))
+      .catch(err => console.error('Error loading areas:', err));
+  }, []);
+
+  // A district linked by id gets its boundary once the catalogue has loaded
+  useEffect(() => {
+    const area = areas.find(candidate => candidate.id === filters.areaId);
+    if (area && !filters.polygon) {
+      setFilters(prev => ({ ...prev, polygon: area.geometry }));
+    }
+  }, [areas, filters.areaId, filters.polygon]);
+
   // Load properties based on filters
   useEffect(() => {
     const fetchProperties = async () => {
@@ -166,6 +203,11 @@ export const PropertySearchPage = () => {
           filteredProperties = filteredProperties.filter(p => p.location.city === filters.city);
         }
         
+        if (filters.polygon) {
+          const area = filters.polygon;
+          filteredProperties = filteredProperties.filter(p => isPointInShape(p.location.lat, p.location.lng, area));
+        }
+        
         // Filter by features
         Object.entries(filters.features).forEach(([feature, value]) => {
           if (value) {
@@ -204,6 +246,8 @@ export const PropertySearchPage = () => {
     if (filters.minBedrooms > 0) newSearchParams.set('minBedrooms', filters.minBedrooms.toString());
     if (filters.country) newSearchParams.set('country', filters.country);
     if (filters.city) newSearchParams.set('city', filters.city);
+    if (filters.areaId) newSearchParams.set('areaId', filters.areaId);
+    else if (filters.polygon) newSearchParams.set('polygon', JSON.stringify(filters.polygon));
     
     // Add features to URL
     Object.entries(filters.features).forEach(([feature, value]) => {
@@ -214,6 +258,17 @@ export const PropertySearchPage = () => {
   }, [filters, setSearchParams]);
 
   // Handle filter changes
+  // A picked city becomes a filter and a listing opens directly; anything else is searched as text
+  const handleSuggestionSelect = (suggestion: SearchSuggestion) => {
+    if (suggestion.type === 'title' && suggestion.propertyId) {
+      navigate(`/properties/${suggestion.propertyId}`);
+    } else if (suggestion.type === 'city') {
+      setFilters(prev => ({ ...prev, query: '', city: suggestion.value, country: suggestion.country || prev.country }));
+    } else {
+      handleFilterChange('query', suggestion.value);
+    }
+  };
+
   const handleFilterChange = (name: string, value: any) => {
     setFilters(prev => ({
       ...prev,
@@ -234,6 +289,18 @@ export const PropertySearchPage = () => {
     setPage(1); // Reset to first page when filters change
   };
 
+  // Limit results to a drawn outline or a picked district
+  const handleAreaChange = (area: SearchArea | null) => {
+    setFilters(prev => ({
+      ...prev,
+      areaId: area?.areaId || '',
+      polygon: area?.shape || null,
+    }));
+    setPage(1); // Reset to first page when filters change
+  };
+
+  const selectedAreaName = areas.find(area => area.id === filters.areaId)?.properties.name;
+
   // Handle page change
   const handlePageChange = (_event: React.ChangeEvent<unknown>, value: number) => {
     setPage(value);
@@ -250,6 +317,24 @@ export const PropertySearchPage = () => {
     setFiltersOpen(prev => !prev);
   };
 
+  // Save the current filters as a saved search with alerts
+  const handleSaveSearch = async () => {
+    setSaveStatus('saving');
+    try {
+      await savedSearchApi.create({
+        name: searchName.trim(),
+        criteria: criteriaFromFilters(filters),
+        frequency: alertFrequency,
+      });
+      setSaveStatus('saved');
+      setSaveDialogOpen(false);
+      setSearchName('');
+    } catch (err) {
+      console.error('Error saving search:', err);
+      setSaveStatus('error');
+    }
+  };
+
   // Reset all filters
   const resetFilters = () => {
     setFilters({
@@ -270,6 +355,8 @@ export const PropertySearchPage = () => {
         elevator: false,
         furnished: false,
       },
+      areaId: '',
+      polygon: null,
     });
     setPage(1);
   };
@@ -289,29 +376,10 @@ export const PropertySearchPage = () => {
       <Card sx={{ p: 2, mb: 4 }}>
         <Grid container spacing={2} alignItems="center">
           <Grid item xs={12} md={6}>
-            <TextField
-              fullWidth
-              placeholder={t('property:search.searchPlaceholder')}
+            <SearchSuggestBox
               value={filters.query}
-              onChange={(e) => handleFilterChange('query', e.target.value)}
-              InputProps={{
-                startAdornment: (
-                  <InputAdornment position="start">
-                    <SearchIcon />
-                  </InputAdornment>
-                ),
-                endAdornment: filters.query ? (
-                  <InputAdornment position="end">
-                    <IconButton
-                      aria-label="clear search"
-                      onClick={() => handleFilterChange('query', '')}
-                      edge="end"
-                    >
-                      <CloseIcon />
-                    </IconButton>
-                  </InputAdornment>
-                ) : null,
-              }}
+              onInputChange={value => handleFilterChange('query', value)}
+              onSelect={handleSuggestionSelect}
             />
           </Grid>
           <Grid item xs={6} md={2}>
@@ -367,11 +435,25 @@ export const PropertySearchPage = () => {
               >
                 {viewMode === 'list' ? t('property:search.mapView') : t('property:search.listView')}
               </Button>
+              {isAuthenticated && (
+                <IconButton
+                  aria-label={t('property:savedSearches.save')}
+                  onClick={() => setSaveDialogOpen(true)}
+                >
+                  <BookmarkAddIcon />
+                </IconButton>
+              )}
             </Box>
           </Grid>
         </Grid>
       </Card>
 
+      {saveStatus === 'saved' && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSaveStatus('idle')}>
+          {t('property:savedSearches.saved')}
+        </Alert>
+      )}
+
       <Grid container spacing={4}>
         {/* Filters panel */}
         {filtersOpen && (
@@ -393,6 +475,29 @@ export const PropertySearchPage = () => {
 
               <Divider sx={{ mb: 3 }} />
 
+              {areas.length > 0 && (
+                <FormControl fullWidth sx={{ mb: 3 }}>
+                  <InputLabel id="area-label">{t('property:search.area.district')}</InputLabel>
+                  <Select
+                    labelId="area-label"
+                    id="area"
+                    value={filters.areaId}
+                    label={t('property:search.area.district')}
+                    onChange={(e) => {
+                      const area = areas.find(candidate => candidate.id === e.target.value);
+                      handleAreaChange(area ? { shape: area.geometry, areaId: area.id } : null);
+                    }}
+                  >
+                    <MenuItem value="">{t('common:all')}</MenuItem>
+                    {areas.map(area => (
+                      <MenuItem key={area.id} value={area.id}>
+                        {area.properties.city ? `${area.properties.name}, ${area.properties.city}` : area.properties.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+
               <PropertySearchFilters
                 filters={filters}
                 onFilterChange={handleFilterChange}
@@ -440,6 +545,13 @@ export const PropertySearchPage = () => {
                   size="small"
                 />
               )}
+              {filters.polygon && (
+                <Chip
+                  label={selectedAreaName || t('property:search.area.drawn')}
+                  onDelete={() => handleAreaChange(null)}
+                  size="small"
+                />
+              )}
             </Box>
           </Box>
 
@@ -496,11 +608,61 @@ export const PropertySearchPage = () => {
           ) : (
             /* Map view */
             <Box sx={{ height: 600, width: '100%', mb: 4 }}>
-              <PropertyMap properties={properties} />
+              <PropertyMap
+                properties={properties}
+                areas={areas}
+                selectedArea={filters.polygon ? { shape: filters.polygon, areaId: filters.areaId || undefined } : null}
+                onAreaChange={handleAreaChange}
+                mapFilters={mapFilters}
+              />
             </Box>
           )}
         </Grid>
       </Grid>
+
+      {/* Save search dialog */}
+      <Dialog open={saveDialogOpen} onClose={() => setSaveDialogOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>{t('property:savedSearches.save')}</DialogTitle>
+        <DialogContent>
+          {saveStatus === 'error' && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {t('property:savedSearches.saveError')}
+            </Alert>
+          )}
+          <TextField
+            fullWidth
+            margin="normal"
+            label={t('property:savedSearches.name')}
+            value={searchName}
+            onChange={(e) => setSearchName(e.target.value)}
+          />
+          <FormControl fullWidth margin="normal">
+            <InputLabel id="alert-frequency-label">{t('property:savedSearches.frequency')}</InputLabel>
+            <Select
+              labelId="alert-frequency-label"
+              value={alertFrequency}
+              label={t('property:savedSearches.frequency')}
+              onChange={(e) => setAlertFrequency(e.target.value as SavedSearchFrequency)}
+            >
+              <MenuItem value="INSTANT">{t('property:savedSearches.frequencies.instant')}</MenuItem>
+              <MenuItem value="DAILY">{t('property:savedSearches.frequencies.daily')}</MenuItem>
+              <MenuItem value="WEEKLY">{t('property:savedSearches.frequencies.weekly')}</MenuItem>
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>
+            {t('common:cancel')}
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSaveSearch}
+            disabled={saveStatus === 'saving' || searchName.trim().length < 2}
+          >
+            {t('common:save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Container>
   );
 };
\ No newline at end of file
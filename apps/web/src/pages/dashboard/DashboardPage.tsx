@@ -15,6 +15,8 @@ import {
   Favorite as FavoriteIcon,
   BookmarkBorder as BookmarkIcon,
 } from '@mui/icons-material';
+import { RecommendationRail } from '../../components/property/RecommendationRail';
+import { ViewingBookingsList } from '../../components/viewing/ViewingBookingsList';
 
 export const DashboardPage = () => {
   const { t } = useTranslation(['common', 'dashboard']);
@@ -102,6 +104,10 @@ export const DashboardPage = () => {
           </Card>
         </Grid>
       </Grid>
+
+      <ViewingBookingsList />
+
+      <RecommendationRail />
     </Container>
   );
 };
\ No newline at end of file
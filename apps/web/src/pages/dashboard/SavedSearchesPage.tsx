@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import {
   Box,
@@ -13,6 +14,17 @@ import {
   CircularProgress,
   IconButton,
   Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import {
   Delete as DeleteIcon,
@@ -20,18 +32,31 @@ import {
   Edit as EditIcon,
 } from '@mui/icons-material';
 
+import {
+  savedSearchApi,
+  SavedSearch,
+  SavedSearchFrequency,
+} from '../../services/api/savedSearchApi';
+import { criteriaToSearchParams } from '../../utils/savedSearch';
+
+const FREQUENCIES: SavedSearchFrequency[] = ['INSTANT', 'DAILY', 'WEEKLY'];
+
 export const SavedSearchesPage = () => {
   const { t } = useTranslation(['property', 'common']);
-  const [savedSearches, setSavedSearches] = useState<any[]>([]);
+  const navigate = useNavigate();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [editingSearch, setEditingSearch] = useState<SavedSearch | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editFrequency, setEditFrequency] = useState<SavedSearchFrequency>('INSTANT');
+  const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
     const fetchSavedSearches = async () => {
       try {
-        // TODO: Replace with actual API call
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        setSavedSearches([]);
+        const response = await savedSearchApi.list();
+        setSavedSearches(response.data.data.savedSearches);
       } catch (error) {
         setError(t('property:savedSearches.loadError'));
       } finally {
@@ -42,20 +67,65 @@ export const SavedSearchesPage = () => {
     fetchSavedSearches();
   }, [t]);
 
+  const replaceSearch = (updated: SavedSearch) => {
+    setSavedSearches(prev => prev.map(search => (search.id === updated.id ? updated : search)));
+  };
+
   const handleDeleteSearch = async (searchId: string) => {
     try {
-      // TODO: Replace with actual API call
+      await savedSearchApi.remove(searchId);
       setSavedSearches(prev => prev.filter(search => search.id !== searchId));
     } catch (error) {
       console.error('Error deleting saved search:', error);
+      setError(t('property:savedSearches.deleteError'));
+    }
+  };
+
+  const handleToggleActive = async (search: SavedSearch) => {
+    try {
+      const response = await savedSearchApi.update(search.id, { isActive: !search.isActive });
+      replaceSearch(response.data.data.savedSearch);
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      setError(t('property:savedSearches.updateError'));
     }
   };
 
-  const handleRunSearch = (search: any) => {
-    // TODO: Navigate to search page with filters
-    console.log('Running search:', search);
+  const handleRunSearch = (search: SavedSearch) => {
+    navigate(`/search?${criteriaToSearchParams(search.criteria).toString()}`);
+  };
+
+  const openEditDialog = (search: SavedSearch) => {
+    setEditingSearch(search);
+    setEditName(search.name);
+    setEditFrequency(search.frequency);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingSearch) return;
+
+    setIsSaving(true);
+    try {
+      const response = await savedSearchApi.update(editingSearch.id, {
+        name: editName.trim(),
+        frequency: editFrequency,
+      });
+      replaceSearch(response.data.data.savedSearch);
+      setEditingSearch(null);
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      setError(t('property:savedSearches.updateError'));
+    } finally {
+      setIsSaving(false);
+    }
   };
 
+  const formatPrice = (value: number) => new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: 'EUR',
+    maximumFractionDigits: 0,
+  }).format(value);
+
   if (isLoading) {
     return (
       <Container maxWidth="lg" sx={{ py: 4, textAlign: 'center' }}>
@@ -64,20 +134,18 @@ export const SavedSearchesPage = () => {
     );
   }
 
-  if (error) {
-    return (
-      <Container maxWidth="lg" sx={{ py: 4 }}>
-        <Alert severity="error">{error}</Alert>
-      </Container>
-    );
-  }
-
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Typography variant="h4" gutterBottom>
         {t('property:savedSearches.title')}
       </Typography>
 
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
       {savedSearches.length === 0 ? (
         <Box sx={{ textAlign: 'center', py: 8 }}>
           <Typography variant="h6" gutterBottom>
@@ -91,43 +159,91 @@ export const SavedSearchesPage = () => {
         <Grid container spacing={3}>
           {savedSearches.map((search) => (
             <Grid item xs={12} sm={6} md={4} key={search.id}>
-              <Card>
+              <Card sx={{ opacity: search.isActive ? 1 : 0.6 }}>
                 <CardContent>
                   <Typography variant="h6" gutterBottom>
                     {search.name}
                   </Typography>
-                  
+
                   <Box sx={{ mb: 2 }}>
-                    {search.filters.propertyType && (
+                    {search.criteria.propertyType?.map((propertyType) => (
+                      <Chip
+                        key={propertyType}
+                        label={t(`property:types.${propertyType.toLowerCase()}`)}
+                        size="small"
+                        sx={{ mr: 1, mb: 1 }}
+                      />
+                    ))}
+                    {search.criteria.listingType && (
+                      <Chip
+                        label={t(`property:listingTypes.${search.criteria.listingType.toLowerCase()}`)}
+                        size="small"
+                        sx={{ mr: 1, mb: 1 }}
+                      />
+                    )}
+                    {search.criteria.city && (
                       <Chip
-                        label={t(`property:types.${search.filters.propertyType.toLowerCase()}`)}
+                        label={search.criteria.city}
                         size="small"
                         sx={{ mr: 1, mb: 1 }}
                       />
                     )}
-                    {search.filters.listingType && (
+                    {(search.criteria.priceMin !== undefined || search.criteria.priceMax !== undefined) && (
                       <Chip
-                        label={t(`property:listingTypes.${search.filters.listingType.toLowerCase()}`)}
+                        label={[
+                          search.criteria.priceMin !== undefined ? formatPrice(search.criteria.priceMin) : '',
+                          search.criteria.priceMax !== undefined ? formatPrice(search.criteria.priceMax) : '',
+                        ].join(' – ')}
                         size="small"
                         sx={{ mr: 1, mb: 1 }}
                       />
                     )}
-                    {search.filters.city && (
+                    {search.criteria.bedroomsMin !== undefined && (
                       <Chip
-                        label={search.filters.city}
+                        label={t('property:savedSearches.bedroomsMin', { count: search.criteria.bedroomsMin })}
                         size="small"
                         sx={{ mr: 1, mb: 1 }}
                       />
                     )}
+                    {search.criteria.radius !== undefined && (
+                      <Chip
+                        label={t('property:savedSearches.radius', { radius: search.criteria.radius })}
+                        size="small"
+                        sx={{ mr: 1, mb: 1 }}
+                      />
+                    )}
+                    {Object.entries(search.criteria.features || {}).map(([feature, enabled]) => (
+                      enabled && (
+                        <Chip
+                          key={feature}
+                          label={t(`property:features.${feature}`)}
+                          size="small"
+                          variant="outlined"
+                          sx={{ mr: 1, mb: 1 }}
+                        />
+                      )
+                    ))}
+                    {search.criteria.tags?.map((tag) => (
+                      <Chip
+                        key={tag}
+                        label={tag}
+                        size="small"
+                        variant="outlined"
+                        sx={{ mr: 1, mb: 1 }}
+                      />
+                    ))}
                   </Box>
-                  
+
+                  <Typography variant="body2" color="text.secondary">
+                    {t(`property:savedSearches.frequencies.${search.frequency.toLowerCase()}`)}
+                  </Typography>
                   <Typography variant="body2" color="text.secondary">
                     {t('property:savedSearches.createdAt', {
                       date: new Date(search.createdAt).toLocaleDateString(),
                     })}
                   </Typography>
                 </CardContent>
-                
+
                 <CardActions>
                   <Button
                     size="small"
@@ -136,6 +252,23 @@ export const SavedSearchesPage = () => {
                   >
                     {t('property:savedSearches.runSearch')}
                   </Button>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        size="small"
+                        checked={search.isActive}
+                        onChange={() => handleToggleActive(search)}
+                      />
+                    }
+                    label={t('property:savedSearches.alerts')}
+                    sx={{ ml: 'auto' }}
+                  />
+                  <IconButton
+                    size="small"
+                    onClick={() => openEditDialog(search)}
+                  >
+                    <EditIcon />
+                  </IconButton>
                   <IconButton
                     size="small"
                     onClick={() => handleDeleteSearch(search.id)}
@@ -149,6 +282,46 @@ export const SavedSearchesPage = () => {
           ))}
         </Grid>
       )}
+
+      <Dialog open={!!editingSearch} onClose={() => setEditingSearch(null)} fullWidth maxWidth="xs">
+        <DialogTitle>{t('property:savedSearches.edit')}</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            margin="normal"
+            label={t('property:savedSearches.name')}
+            value={editName}
+            onChange={(e) => setEditName(e.target.value)}
+          />
+          <FormControl fullWidth margin="normal">
+            <InputLabel id="saved-search-frequency-label">{t('property:savedSearches.frequency')}</InputLabel>
+            <Select
+              labelId="saved-search-frequency-label"
+              value={editFrequency}
+              label={t('property:savedSearches.frequency')}
+              onChange={(e) => setEditFrequency(e.target.value as SavedSearchFrequency)}
+            >
+              {FREQUENCIES.map((frequency) => (
+                <MenuItem key={frequency} value={frequency}>
+                  {t(`property:savedSearches.frequencies.${frequency.toLowerCase()}`)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditingSearch(null)}>
+            {t('common:cancel')}
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSaveEdit}
+            disabled={isSaving || editName.trim().length < 2}
+          >
+            {t('common:save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Container>
   );
-};
\ No newline at end of file
+};
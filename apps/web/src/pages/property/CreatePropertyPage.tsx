@@ -13,6 +13,7 @@ import { Link as RouterLink } from 'react-router-dom';
 
 import { PropertyForm } from '../../components/property/PropertyForm';
 import { useAuth } from '../../hooks/useAuth';
+import { propertyScheduleApi, getBrowserTimezone } from '../../services/api/propertyScheduleApi';
 
 interface PropertyFormData {
   title: string;
@@ -47,6 +48,8 @@ interface PropertyFormData {
   condition: string;
   availability: string;
   availableFrom?: string;
+  publishAt?: string;
+  unpublishAt?: string;
   images: File[];
   documents: File[];
   tags: string[];
@@ -85,6 +88,15 @@ export const CreatePropertyPage = () => {
       }
       
       const result = await response.json();
+
+      // Scheduled times are entered in the browser's timezone, which becomes the owner's
+      if (data.publishAt || data.unpublishAt) {
+        await propertyScheduleApi.update(result.data.property.id, {
+          publishAt: data.publishAt || null,
+          unpublishAt: data.unpublishAt || null,
+          timezone: getBrowserTimezone(),
+        });
+      }
       
       setSuccess(true);
       
@@ -15,6 +15,8 @@ import { Link as RouterLink } from 'react-router-dom';
 
 import { PropertyForm } from '../../components/property/PropertyForm';
 import { useAuth } from '../../hooks/useAuth';
+import { propertyScheduleApi, ListingSchedule } from '../../services/api/propertyScheduleApi';
+import { ComplianceViolationError, getComplianceViolations } from '../../utils/compliance';
 
 interface PropertyFormData {
   title: string;
@@ -49,6 +51,8 @@ interface PropertyFormData {
   condition: string;
   availability: string;
   availableFrom?: string;
+  publishAt?: string;
+  unpublishAt?: string;
   images: File[];
   documents: File[];
   tags: string[];
@@ -63,6 +67,7 @@ interface Property {
   description: string;
   propertyType: string;
   listingType: string;
+  status: string;
   price: number;
   currency: string;
   address: {
@@ -114,6 +119,7 @@ export const EditPropertyPage = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const [property, setProperty] = useState<Property | null>(null);
+  const [schedule, setSchedule] = useState<ListingSchedule | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingProperty, setIsLoadingProperty] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -148,6 +154,10 @@ export const EditPropertyPage = () => {
         
         const result = await response.json();
         setProperty(result.data.property);
+
+        // Only the owner and admins can see the schedule; the form is closed to anyone else anyway
+        const scheduleResponse = await propertyScheduleApi.get(id).catch(() => null);
+        setSchedule(scheduleResponse?.data.data.schedule ?? null);
         
       } catch (error) {
         console.error('Error loading property:', error);
@@ -160,6 +170,70 @@ export const EditPropertyPage = () => {
     fetchProperty();
   }, [id, t]);
 
+  const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:7500/api';
+
+  const saveProperty = async (data: PropertyFormData) => {
+    const response = await fetch(`${apiUrl}/properties/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${localStorage.getItem('token')}`,
+      },
+      body: JSON.stringify(data),
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || t('property:edit.submitError'));
+    }
+
+    await saveSchedule(data);
+  };
+
+  // Times are read in the owner's timezone; only send them when they changed
+  const saveSchedule = async (data: PropertyFormData) => {
+    const publishAt = data.publishAt || null;
+    const unpublishAt = data.unpublishAt || null;
+
+    if (!id || (publishAt === (schedule?.localPublishAt ?? null) && unpublishAt === (schedule?.localUnpublishAt ?? null))) {
+      return;
+    }
+
+    const response = await propertyScheduleApi.update(id, { publishAt, unpublishAt });
+    setSchedule(response.data.data.schedule);
+  };
+
+  const handlePublish = async (data: PropertyFormData) => {
+    if (!id) return;
+
+    await saveProperty(data);
+
+    const response = await fetch(`${apiUrl}/properties/${id}/status`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${localStorage.getItem('token')}`,
+      },
+      body: JSON.stringify({ status: 'ACTIVE' }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      const violations = getComplianceViolations(errorData);
+
+      // The form shows these against the offending fields
+      if (violations.length > 0) {
+        throw new ComplianceViolationError(t('property:edit.complianceError'), violations);
+      }
+      throw new Error(errorData.error?.message || t('property:edit.publishError'));
+    }
+
+    setSuccess(true);
+    setTimeout(() => {
+      navigate(`/properties/${id}`);
+    }, 2000);
+  };
+
   const handleSubmit = async (data: PropertyFormData) => {
     if (!id) return;
     
@@ -168,20 +242,7 @@ export const EditPropertyPage = () => {
     
     try {
       // Update property via API
-      const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:7500/api';
-      const response = await fetch(`${apiUrl}/properties/${id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-        },
-        body: JSON.stringify(data),
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || t('property:edit.submitError'));
-      }
+      await saveProperty(data);
       
       setSuccess(true);
       
@@ -240,6 +301,8 @@ export const EditPropertyPage = () => {
       condition: property.condition,
       availability: property.availability,
       availableFrom: property.availableFrom,
+      publishAt: schedule?.localPublishAt || '',
+      unpublishAt: schedule?.localUnpublishAt || '',
       images: [], // Images will be handled separately
       documents: [], // Documents will be handled separately
       tags: property.tags.map(tag => tag.tag.name),
@@ -342,8 +405,10 @@ export const EditPropertyPage = () => {
         initialData={getFormData()}
         onSubmit={handleSubmit}
         onPreview={handlePreview}
+        onPublish={property.status !== 'ACTIVE' ? handlePublish : undefined}
         isLoading={isLoading}
         mode="edit"
+        scheduleTimezone={schedule?.timezone}
       />
     </Container>
   );
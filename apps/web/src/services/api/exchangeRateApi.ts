@@ -0,0 +1,20 @@
+import api from './client';
+
+// Units of each currency per euro, e.g. { PLN: 4.3, CHF: 0.94 }
+export type ExchangeRateTable = Record<string, number>;
+
+export interface ExchangeRateSnapshot {
+  date: string;
+  base: 'EUR';
+  rates: ExchangeRateTable;
+  source: string;
+}
+
+export const exchangeRateApi = {
+  /**
+   * Get the latest daily exchange rate snapshot
+   */
+  getRates: () => {
+    return api.get<{ success: boolean; data: ExchangeRateSnapshot }>('/localization/exchange-rates');
+  },
+};
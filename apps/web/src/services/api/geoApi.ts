@@ -0,0 +1,46 @@
+import api from './client';
+
+// GeoJSON positions are [longitude, latitude]
+export type GeoPosition = [number, number];
+
+export interface GeoPolygon {
+  type: 'Polygon';
+  coordinates: GeoPosition[][];
+}
+
+export interface GeoMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: GeoPosition[][][];
+}
+
+// Mirrors GeoShape in libs/database, the area filter accepted by property search
+export type GeoShape = GeoPolygon | GeoMultiPolygon;
+
+export type GeoAreaKind = 'CITY' | 'DISTRICT' | 'NEIGHBOURHOOD';
+
+export interface GeoAreaFeature {
+  type: 'Feature';
+  id: string;
+  properties: {
+    slug: string;
+    name: string;
+    kind: GeoAreaKind;
+    country: string;
+    city: string | null;
+  };
+  geometry: GeoShape;
+}
+
+export interface GeoAreaCollection {
+  type: 'FeatureCollection';
+  features: GeoAreaFeature[];
+}
+
+export const geoApi = {
+  /**
+   * Get stored area boundaries, optionally for one country or city
+   */
+  listAreas: (params: { country?: string; city?: string; kind?: GeoAreaKind } = {}) => {
+    return api.get<{ success: boolean; data: { areas: GeoAreaCollection } }>('/geo/areas', { params });
+  },
+};
@@ -0,0 +1,13 @@
+import api from './client';
+
+// Listing events the client reports; the API records views, impressions and favourites itself
+export type ClientPropertyEventType = 'GALLERY_OPEN' | 'SHARE' | 'CONTACT';
+
+export const propertyEventApi = {
+  /**
+   * Record an interaction with a listing. Tracking never blocks the UI, so failures are ignored.
+   */
+  track: (propertyId: string, type: ClientPropertyEventType, source?: string) => {
+    return api.post(`/properties/${propertyId}/events`, { type, source }).catch(() => undefined);
+  },
+};
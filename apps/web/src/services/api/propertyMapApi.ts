@@ -0,0 +1,71 @@
+import api from './client';
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface PropertyMapCluster {
+  geohash: string;
+  count: number;
+  location: { lat: number; lon: number };
+  bounds: MapBounds;
+  priceMin: number;
+  priceMax: number;
+}
+
+export interface PropertyMapPin {
+  id: string;
+  title: string;
+  price: number;
+  currency: string;
+  propertyType: string;
+  listingType: string;
+  bedrooms?: number;
+  city: string;
+  image?: string;
+  location: { lat: number; lon: number };
+}
+
+// Mirrors PropertyMapResult in libs/search: clusters, or pins from the pin zoom in
+export interface PropertyMapResult {
+  zoom: number;
+  precision: number | null;
+  total: number;
+  clusters: PropertyMapCluster[];
+  pins: PropertyMapPin[];
+}
+
+// Listing filters accepted by GET /api/properties/map, as for the property list
+export interface PropertyMapFilters {
+  propertyType?: string[];
+  listingType?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minBedrooms?: number;
+  maxBedrooms?: number;
+  minBathrooms?: number;
+  country?: string;
+  city?: string;
+  garden?: boolean;
+  parking?: boolean;
+  furnished?: boolean;
+  balcony?: boolean;
+  elevator?: boolean;
+  areaId?: string;
+  // GeoJSON geometry as a JSON string
+  polygon?: string;
+}
+
+export const propertyMapApi = {
+  /**
+   * Get listing clusters, or pins at close zoom, for the visible map area
+   */
+  getMap: (filters: PropertyMapFilters, bounds: MapBounds, zoom: number) => {
+    return api.get<{ success: boolean; data: PropertyMapResult }>('/properties/map', {
+      params: { ...filters, ...bounds, zoom },
+    });
+  },
+};
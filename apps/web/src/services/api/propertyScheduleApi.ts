@@ -0,0 +1,41 @@
+import api from './client';
+
+export interface ListingSchedule {
+  propertyId: string;
+  status: string;
+  timezone: string;
+  publishAt: string | null;
+  unpublishAt: string | null;
+  // The same moments as local date and time in the owner's timezone, e.g. "2026-10-26T09:00"
+  localPublishAt: string | null;
+  localUnpublishAt: string | null;
+}
+
+export interface ListingScheduleInput {
+  // Local date and time in the owner's timezone; null clears it
+  publishAt?: string | null;
+  unpublishAt?: string | null;
+  // Saved as the owner's timezone when the owner schedules their own listing
+  timezone?: string;
+}
+
+/**
+ * The timezone the browser runs in, e.g. "Europe/Berlin"
+ */
+export const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const propertyScheduleApi = {
+  /**
+   * Get a listing's scheduled publish and unpublish times (owner or admin)
+   */
+  get: (propertyId: string) => {
+    return api.get<{ success: boolean; data: { schedule: ListingSchedule } }>(`/properties/${propertyId}/schedule`);
+  },
+
+  /**
+   * Schedule a listing to go live or come down at a local time in the owner's timezone
+   */
+  update: (propertyId: string, input: ListingScheduleInput) => {
+    return api.put<{ success: boolean; data: { schedule: ListingSchedule } }>(`/properties/${propertyId}/schedule`, input);
+  },
+};
@@ -0,0 +1,72 @@
+import api from './client';
+
+export type RecommendationReasonType =
+  | 'SIMILAR_TO_FAVORITES'
+  | 'SAVED_SEARCH'
+  | 'LOCATION'
+  | 'PRICE'
+  | 'ROOMS'
+  | 'TAGS'
+  | 'POPULAR';
+
+export interface RecommendationReason {
+  type: RecommendationReasonType;
+  message: string;
+  count?: number;
+}
+
+export interface RecommendedProperty {
+  id: string;
+  title: string;
+  price: number;
+  currency: string;
+  propertyType: string;
+  listingType: string;
+  address: {
+    city: string;
+    country: string;
+  } | null;
+  features: {
+    bedrooms: number | null;
+    bathrooms: number | null;
+  } | null;
+  images: Array<{ url: string; altText: string | null }>;
+}
+
+export interface PropertyRecommendation {
+  property: RecommendedProperty;
+  score: number;
+  reasons: RecommendationReason[];
+}
+
+// Mirrors TasteProfile in the API's RecommendationService
+export interface TasteProfile {
+  signals: {
+    favorites: number;
+    savedSearches: number;
+    views: number;
+    messages: number;
+  };
+  priceBand: { min: number; max: number } | null;
+  locations: Array<{ city: string; country: string | null; weight: number }>;
+  propertyTypes: Record<string, number>;
+  listingTypes: Record<string, number>;
+  bedrooms: { min: number; max: number } | null;
+  tags: Record<string, number>;
+}
+
+export interface RecommendationFeed {
+  recommendations: PropertyRecommendation[];
+  profile: TasteProfile;
+}
+
+export const recommendationApi = {
+  /**
+   * Get listings picked for the current user, with the reasons they were picked
+   */
+  getFeed: (limit?: number) => {
+    return api.get<{ success: boolean; data: RecommendationFeed }>('/recommendations', {
+      params: { limit },
+    });
+  },
+};
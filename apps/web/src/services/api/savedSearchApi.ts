@@ -0,0 +1,82 @@
+import api from './client';
+import { GeoShape } from './geoApi';
+
+export type SavedSearchFrequency = 'INSTANT' | 'DAILY' | 'WEEKLY';
+
+// Mirrors SavedSearchCriteria in libs/search (PropertySearchQuery without paging)
+export interface SavedSearchCriteria {
+  query?: string;
+  propertyType?: string[];
+  listingType?: string;
+  priceMin?: number;
+  priceMax?: number;
+  bedroomsMin?: number;
+  bedroomsMax?: number;
+  bathroomsMin?: number;
+  bathroomsMax?: number;
+  floorAreaMin?: number;
+  floorAreaMax?: number;
+  country?: string;
+  city?: string;
+  radius?: number;
+  location?: {
+    lat: number;
+    lon: number;
+  };
+  polygon?: GeoShape;
+  features?: Partial<Record<
+    'garden' | 'parking' | 'furnished' | 'petFriendly' | 'balcony' | 'terrace' | 'elevator' | 'airConditioning',
+    boolean
+  >>;
+  amenities?: string[];
+  tags?: string[];
+}
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  frequency: SavedSearchFrequency;
+  isActive: boolean;
+  lastNotifiedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  criteria: SavedSearchCriteria;
+  frequency?: SavedSearchFrequency;
+  isActive?: boolean;
+}
+
+export const savedSearchApi = {
+  /**
+   * Get the current user's saved searches
+   */
+  list: () => {
+    return api.get<{ success: boolean; data: { savedSearches: SavedSearch[] } }>('/saved-searches');
+  },
+
+  /**
+   * Save a search
+   */
+  create: (data: SavedSearchInput) => {
+    return api.post<{ success: boolean; data: { savedSearch: SavedSearch } }>('/saved-searches', data);
+  },
+
+  /**
+   * Update a saved search
+   */
+  update: (id: string, data: Partial<SavedSearchInput>) => {
+    return api.put<{ success: boolean; data: { savedSearch: SavedSearch } }>(`/saved-searches/${id}`, data);
+  },
+
+  /**
+   * Delete a saved search
+   */
+  remove: (id: string) => {
+    return api.delete(`/saved-searches/${id}`);
+  },
+};
@@ -0,0 +1,39 @@
+import api from './client';
+
+export type SearchSuggestionType = 'city' | 'postcode' | 'street' | 'tag' | 'title';
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  value: string;
+  // Active listings the suggestion leads to
+  count: number;
+  country?: string;
+  city?: string;
+  // Set on title suggestions, which point at a single listing
+  propertyId?: string;
+}
+
+// Mirrors SearchSuggestions in libs/search
+export interface SearchSuggestions {
+  text: string;
+  country?: string;
+  groups: {
+    cities: SearchSuggestion[];
+    postcodes: SearchSuggestion[];
+    streets: SearchSuggestion[];
+    tags: SearchSuggestion[];
+    titles: SearchSuggestion[];
+  };
+}
+
+export const searchApi = {
+  /**
+   * Get autocomplete suggestions for the search box, from the signed-in
+   * user's country unless another is given
+   */
+  suggest: (q: string, params: { country?: string; limit?: number } = {}) => {
+    return api.get<{ success: boolean; data: { suggestions: SearchSuggestions } }>('/search/suggest', {
+      params: { q, ...params },
+    });
+  },
+};
@@ -0,0 +1,153 @@
+import api from './client';
+
+export type ViewingSlotType = 'VIEWING' | 'OPEN_HOUSE';
+export type ViewingBookingStatus = 'CONFIRMED' | 'CANCELLED';
+export type BookingSide = 'buyer' | 'agent';
+
+// Largest party a buyer can book for; mirrors MAX_ATTENDEES in the API's viewing config
+export const MAX_ATTENDEES = 6;
+
+export interface ViewingSlot {
+  id: string;
+  propertyId: string;
+  type: ViewingSlotType;
+  status: 'OPEN' | 'CANCELLED';
+  startsAt: string;
+  endsAt: string;
+  capacity: number;
+  notes: string | null;
+  spotsLeft: number;
+}
+
+export interface ViewingSlotInput {
+  type?: ViewingSlotType;
+  // ISO timestamps
+  startsAt: string;
+  endsAt: string;
+  capacity?: number;
+  notes?: string;
+}
+
+interface BookingPerson {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  timezone: string | null;
+}
+
+export interface ViewingBooking {
+  id: string;
+  slotId: string;
+  buyerId: string;
+  status: ViewingBookingStatus;
+  attendees: number;
+  notes: string | null;
+  sequence: number;
+  cancelledAt: string | null;
+  cancellationReason: string | null;
+  createdAt: string;
+  slot: {
+    id: string;
+    type: ViewingSlotType;
+    status: 'OPEN' | 'CANCELLED';
+    startsAt: string;
+    endsAt: string;
+    agentId: string;
+    property: {
+      id: string;
+      title: string;
+      // Older listings keep the address on the listing itself
+      street: string | null;
+      city: string | null;
+      postcode: string | null;
+      country: string | null;
+      address: { street: string; city: string; postcode: string; country: string } | null;
+    };
+    agent: BookingPerson;
+  };
+  buyer: BookingPerson;
+}
+
+export interface ViewingBookingPage {
+  data: ViewingBooking[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export interface ViewingBookingQuery {
+  as?: BookingSide;
+  upcoming?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export const viewingApi = {
+  /**
+   * Get a listing's upcoming viewing slots and open houses with the places left
+   */
+  getSlots: (propertyId: string) => {
+    return api.get<{ success: boolean; data: { slots: ViewingSlot[] } }>(`/viewings/properties/${propertyId}/slots`);
+  },
+
+  /**
+   * Publish a viewing slot or open house (listing owner or admin)
+   */
+  createSlot: (propertyId: string, input: ViewingSlotInput) => {
+    return api.post<{ success: boolean; data: { slot: ViewingSlot } }>(`/viewings/properties/${propertyId}/slots`, input);
+  },
+
+  /**
+   * Withdraw a slot, cancelling its bookings
+   */
+  cancelSlot: (slotId: string, reason?: string) => {
+    return api.post<{ success: boolean }>(`/viewings/slots/${slotId}/cancel`, { reason });
+  },
+
+  /**
+   * Book places on a slot
+   */
+  book: (slotId: string, attendees: number, notes?: string) => {
+    return api.post<{ success: boolean; data: { booking: ViewingBooking } }>(`/viewings/slots/${slotId}/bookings`, { attendees, notes });
+  },
+
+  /**
+   * Get the current user's bookings, as the buyer or as the agent
+   */
+  listBookings: (query: ViewingBookingQuery = {}) => {
+    return api.get<{ success: boolean; data: ViewingBookingPage }>('/viewings/bookings', { params: query });
+  },
+
+  /**
+   * Move a booking to another slot of the same listing
+   */
+  reschedule: (bookingId: string, slotId: string) => {
+    return api.patch<{ success: boolean; data: { booking: ViewingBooking } }>(`/viewings/bookings/${bookingId}`, { slotId });
+  },
+
+  /**
+   * Cancel a booking, as the buyer or the agent
+   */
+  cancelBooking: (bookingId: string, reason?: string) => {
+    return api.post<{ success: boolean; data: { booking: ViewingBooking } }>(`/viewings/bookings/${bookingId}/cancel`, { reason });
+  },
+
+  /**
+   * Download a booking as an .ics file for the user's calendar app
+   */
+  downloadCalendar: async (bookingId: string) => {
+    const response = await api.get<Blob>(`/viewings/bookings/${bookingId}/calendar`, { responseType: 'blob' });
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `viewing-${bookingId}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+};
@@ -11,6 +11,8 @@ export interface User {
   role: string;
   isVerified?: boolean;
   avatar?: string;
+  // Currency prices are shown in
+  currency?: string;
 }
 
 export interface AuthState {
@@ -34,15 +36,15 @@ export const login = createAsyncThunk(
   async (credentials: { email: string; password: string }, { rejectWithValue }) => {
     try {
       const response = await authApi.login(credentials);
-      // API returns { success: true, data: { user: {...}, token: "..." } }
-      if (response.data.success && response.data.data.token) {
-        setAuthToken(response.data.data.token);
+      // API returns { success: true, data: { user: {...}, tokens: { accessToken, refreshToken } } }
+      if (response.data.success && response.data.data.tokens?.accessToken) {
+        setAuthToken(response.data.data.tokens.accessToken);
         return response.data.data;
       } else {
         return rejectWithValue(response.data.message || 'Login failed');
       }
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || error.message || 'Login failed');
+      return rejectWithValue(error.response?.data?.error?.message || error.message || 'Login failed');
     }
   }
 );
@@ -58,8 +60,8 @@ export const register = createAsyncThunk(
   }, { rejectWithValue }) => {
     try {
       const response = await authApi.register(userData);
-      setAuthToken(response.data.tokens.accessToken);
-      return response.data;
+      setAuthToken(response.data.data.tokens.accessToken);
+      return response.data.data;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.error?.message || 'Registration failed');
     }
@@ -91,7 +93,7 @@ export const checkAuth = createAsyncThunk(
       }
       
       const response = await authApi.getCurrentUser();
-      return response.data;
+      return response.data.data;
     } catch (error: any) {
       // If the token is invalid, remove it
       removeAuthToken();
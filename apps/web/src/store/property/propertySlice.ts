@@ -43,6 +43,8 @@ interface PropertyState {
     propertyType?: string;
     bedrooms?: number;
   };
+  // Last response per property, revalidated with its ETag instead of downloaded again
+  revalidation: Record<string, { etag: string; property: Property }>;
 }
 
 const initialState: PropertyState = {
@@ -51,6 +53,7 @@ const initialState: PropertyState = {
   loading: false,
   error: null,
   filters: {},
+  revalidation: {},
 };
 
 // Async thunks
@@ -66,15 +69,27 @@ export const fetchProperties = createAsyncThunk(
   }
 );
 
-export const fetchPropertyById = createAsyncThunk(
+export const fetchPropertyById = createAsyncThunk<
+  { property: Property; etag: string | null },
+  string,
+  { state: { property: PropertyState } }
+>(
   'property/fetchPropertyById',
-  async (id: string) => {
-    const response = await fetch(`http://localhost:7500/api/properties/${id}`);
+  async (id, { getState }) => {
+    const previous = getState().property.revalidation[id];
+    const response = await fetch(`http://localhost:7500/api/properties/${id}`, {
+      cache: 'no-store',
+      headers: previous ? { 'If-None-Match': previous.etag } : undefined,
+    });
+    if (response.status === 304 && previous) {
+      return previous;
+    }
+
     const data = await response.json();
     if (!data.success) {
       throw new Error(data.message || 'Failed to fetch property');
     }
-    return data.data.property;
+    return { property: data.data.property, etag: response.headers.get('ETag') };
   }
 );
 
@@ -116,8 +131,12 @@ const propertySlice = createSlice({
         state.error = null;
       })
       .addCase(fetchPropertyById.fulfilled, (state, action) => {
+        const { property, etag } = action.payload;
         state.loading = false;
-        state.selectedProperty = action.payload;
+        state.selectedProperty = property;
+        if (etag) {
+          state.revalidation[action.meta.arg] = { etag, property };
+        }
       })
       .addCase(fetchPropertyById.rejected, (state, action) => {
         state.loading = false;
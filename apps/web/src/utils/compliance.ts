@@ -0,0 +1,43 @@
+// Mirrors ComplianceViolation in apps/api/src/services/compliance.service.ts
+export interface ComplianceViolation {
+  field: string;
+  rule: string;
+  message: string;
+  severity: 'error' | 'warning';
+  country: string;
+}
+
+// Compliance rule fields that are edited under a different name in the property form
+const FORM_FIELD_ALIASES: Record<string, string> = {
+  energyLabel: 'energyRating',
+  buildYear: 'yearBuilt',
+  plotSize: 'lotSize',
+};
+
+/**
+ * Thrown when the API refuses to publish a listing because of compliance violations
+ */
+export class ComplianceViolationError extends Error {
+  violations: ComplianceViolation[];
+
+  constructor(message: string, violations: ComplianceViolation[]) {
+    super(message);
+    this.name = 'ComplianceViolationError';
+    this.violations = violations;
+  }
+}
+
+/**
+ * Read the violations out of a COMPLIANCE_VIOLATION error response body
+ */
+export const getComplianceViolations = (body: any): ComplianceViolation[] => {
+  if (body?.error?.code !== 'COMPLIANCE_VIOLATION') return [];
+  return Array.isArray(body.error.details?.violations) ? body.error.details.violations : [];
+};
+
+/**
+ * Name of the form field a violation should be shown against
+ */
+export const getViolationFormField = (violation: ComplianceViolation): string => {
+  return FORM_FIELD_ALIASES[violation.field] || violation.field;
+};
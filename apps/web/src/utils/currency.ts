@@ -0,0 +1,53 @@
+import { ExchangeRateTable } from '../services/api/exchangeRateApi';
+
+export interface DisplayPrice {
+  // Amount in the viewer's currency, or the original when it can't be converted
+  formatted: string;
+  // Listing's own amount, set when it differs from the formatted one
+  original?: string;
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-EU', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+/**
+ * Convert an amount between currencies through the euro, or null when either
+ * currency has no rate
+ */
+export const convertCurrency = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRateTable
+): number | null => {
+  if (from === to) return amount;
+
+  const fromRate = from === 'EUR' ? 1 : rates[from];
+  const toRate = to === 'EUR' ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+
+  return (amount / fromRate) * toRate;
+};
+
+/**
+ * Format a listing price in the viewer's currency, keeping the original
+ * amount alongside when it was converted
+ */
+export const formatDisplayPrice = (
+  amount: number,
+  currency: string,
+  displayCurrency: string | undefined,
+  rates: ExchangeRateTable | null
+): DisplayPrice => {
+  const original = formatAmount(amount, currency);
+  if (!displayCurrency || displayCurrency === currency || !rates) return { formatted: original };
+
+  const converted = convertCurrency(amount, currency, displayCurrency, rates);
+  return converted === null
+    ? { formatted: original }
+    : { formatted: formatAmount(converted, displayCurrency), original };
+};
@@ -0,0 +1,52 @@
+import { GeoPolygon, GeoPosition, GeoShape } from '../services/api/geoApi';
+
+const polygonsOf = (shape: GeoShape): GeoPosition[][][] =>
+  shape.type === 'Polygon' ? [shape.coordinates] : shape.coordinates;
+
+/**
+ * Build a closed GeoJSON polygon from points drawn on the map ([lat, lng])
+ */
+export const polygonFromLatLngs = (points: Array<[number, number]>): GeoPolygon => {
+  const ring = points.map(([lat, lng]) => [lng, lat] as GeoPosition);
+
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+};
+
+/**
+ * Convert a shape into Leaflet positions ([lat, lng]), one entry per polygon
+ */
+export const shapeToLatLngs = (shape: GeoShape): Array<Array<Array<[number, number]>>> =>
+  polygonsOf(shape).map(rings => rings.map(ring => ring.map(([lng, lat]) => [lat, lng] as [number, number])));
+
+/**
+ * Check whether a coordinate lies inside the shape (outline minus holes)
+ */
+export const isPointInShape = (lat: number, lng: number, shape: GeoShape): boolean => {
+  const inRing = (ring: GeoPosition[]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [lngI, latI] = ring[i];
+      const [lngJ, latJ] = ring[j];
+      if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  };
+
+  return polygonsOf(shape).some(([outline, ...holes]) => inRing(outline) && !holes.some(inRing));
+};
+
+/**
+ * Read a polygon from the search page query string
+ */
+export const parseShapeParam = (value: string | null): GeoShape | null => {
+  if (!value) return null;
+
+  try {
+    const shape = JSON.parse(value);
+    return shape?.type === 'Polygon' || shape?.type === 'MultiPolygon' ? shape : null;
+  } catch {
+    return null;
+  }
+};
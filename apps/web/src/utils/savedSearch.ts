@@ -0,0 +1,101 @@
+import { SavedSearchCriteria } from '../services/api/savedSearchApi';
+import { GeoShape } from '../services/api/geoApi';
+import { PropertyMapFilters } from '../services/api/propertyMapApi';
+
+// Slider bounds on the search page that mean "no limit"
+const MAX_PRICE_LIMIT = 2000000;
+const MAX_BEDROOMS_LIMIT = 5;
+
+export interface SearchPageFilters {
+  query: string;
+  propertyType: string;
+  listingType: string;
+  minPrice: number;
+  maxPrice: number;
+  minBedrooms: number;
+  maxBedrooms: number;
+  minBathrooms: number;
+  country: string;
+  city: string;
+  features: Record<string, boolean>;
+  // Stored district picked on the map, if any, and the area limiting the results
+  areaId: string;
+  polygon: GeoShape | null;
+}
+
+/**
+ * Convert the search page filters into saved search criteria
+ */
+export const criteriaFromFilters = (filters: SearchPageFilters): SavedSearchCriteria => {
+  const criteria: SavedSearchCriteria = {};
+
+  if (filters.query) criteria.query = filters.query;
+  if (filters.propertyType) criteria.propertyType = [filters.propertyType];
+  if (filters.listingType) criteria.listingType = filters.listingType;
+  if (filters.minPrice > 0) criteria.priceMin = filters.minPrice;
+  if (filters.maxPrice < MAX_PRICE_LIMIT) criteria.priceMax = filters.maxPrice;
+  if (filters.minBedrooms > 0) criteria.bedroomsMin = filters.minBedrooms;
+  if (filters.maxBedrooms < MAX_BEDROOMS_LIMIT) criteria.bedroomsMax = filters.maxBedrooms;
+  if (filters.minBathrooms > 0) criteria.bathroomsMin = filters.minBathrooms;
+  if (filters.country) criteria.country = filters.country;
+  if (filters.city) criteria.city = filters.city;
+  if (filters.polygon) criteria.polygon = filters.polygon;
+
+  const features = Object.fromEntries(
+    Object.entries(filters.features).filter(([, enabled]) => enabled)
+  );
+  if (Object.keys(features).length > 0) criteria.features = features;
+
+  return criteria;
+};
+
+/**
+ * Convert the search page filters into the listing filters of the map endpoint
+ */
+export const mapFiltersFromFilters = (filters: SearchPageFilters): PropertyMapFilters => {
+  const mapFilters: PropertyMapFilters = {};
+
+  if (filters.propertyType) mapFilters.propertyType = [filters.propertyType];
+  if (filters.listingType) mapFilters.listingType = filters.listingType;
+  if (filters.minPrice > 0) mapFilters.minPrice = filters.minPrice;
+  if (filters.maxPrice < MAX_PRICE_LIMIT) mapFilters.maxPrice = filters.maxPrice;
+  if (filters.minBedrooms > 0) mapFilters.minBedrooms = filters.minBedrooms;
+  if (filters.maxBedrooms < MAX_BEDROOMS_LIMIT) mapFilters.maxBedrooms = filters.maxBedrooms;
+  if (filters.minBathrooms > 0) mapFilters.minBathrooms = filters.minBathrooms;
+  if (filters.country) mapFilters.country = filters.country;
+  if (filters.city) mapFilters.city = filters.city;
+  if (filters.areaId) mapFilters.areaId = filters.areaId;
+  else if (filters.polygon) mapFilters.polygon = JSON.stringify(filters.polygon);
+
+  // Features are sent as flat flags, as on the property list
+  const features = Object.fromEntries(
+    Object.entries(filters.features).filter(([, enabled]) => enabled)
+  );
+
+  return { ...mapFilters, ...features };
+};
+
+/**
+ * Convert saved search criteria into the query string the search page reads
+ */
+export const criteriaToSearchParams = (criteria: SavedSearchCriteria): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  if (criteria.query) params.set('query', criteria.query);
+  if (criteria.propertyType?.length) params.set('propertyType', criteria.propertyType[0]);
+  if (criteria.listingType) params.set('listingType', criteria.listingType);
+  if (criteria.priceMin !== undefined) params.set('minPrice', criteria.priceMin.toString());
+  if (criteria.priceMax !== undefined) params.set('maxPrice', criteria.priceMax.toString());
+  if (criteria.bedroomsMin !== undefined) params.set('minBedrooms', criteria.bedroomsMin.toString());
+  if (criteria.bedroomsMax !== undefined) params.set('maxBedrooms', criteria.bedroomsMax.toString());
+  if (criteria.bathroomsMin !== undefined) params.set('minBathrooms', criteria.bathroomsMin.toString());
+  if (criteria.country) params.set('country', criteria.country);
+  if (criteria.city) params.set('city', criteria.city);
+  if (criteria.polygon) params.set('polygon', JSON.stringify(criteria.polygon));
+
+  Object.entries(criteria.features || {}).forEach(([feature, enabled]) => {
+    if (enabled) params.set(feature, 'true');
+  });
+
+  return params;
+};
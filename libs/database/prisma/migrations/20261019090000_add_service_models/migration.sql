@@ -0,0 +1,398 @@
+-- AlterTable
+ALTER TABLE "offers" ADD COLUMN "parentOfferId" TEXT;
+
+-- CreateTable
+CREATE TABLE "user_profiles" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "bio" TEXT,
+    "company" TEXT,
+    "website" TEXT,
+    "dateOfBirth" DATETIME,
+    "nationality" TEXT,
+    "country" TEXT,
+    "city" TEXT,
+    "address" TEXT,
+    "postcode" TEXT,
+    "languages" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "user_profiles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "user_preferences" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "timezone" TEXT,
+    "emailNotifications" BOOLEAN NOT NULL DEFAULT true,
+    "smsNotifications" BOOLEAN NOT NULL DEFAULT false,
+    "pushNotifications" BOOLEAN NOT NULL DEFAULT true,
+    "marketingEmails" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "user_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "user_verifications" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "emailVerified" BOOLEAN NOT NULL DEFAULT false,
+    "phoneVerified" BOOLEAN NOT NULL DEFAULT false,
+    "identityVerified" BOOLEAN NOT NULL DEFAULT false,
+    "verificationToken" TEXT,
+    "tokenExpiresAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "user_verifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "property_addresses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "street" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "postcode" TEXT NOT NULL,
+    "county" TEXT,
+    "country" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "property_addresses_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "property_locations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "latitude" REAL NOT NULL,
+    "longitude" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "property_locations_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "property_features" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "bedrooms" INTEGER,
+    "bathrooms" INTEGER,
+    "receptionRooms" INTEGER,
+    "floorArea" REAL,
+    "plotSize" REAL,
+    "floors" INTEGER,
+    "buildYear" INTEGER,
+    "energyRating" TEXT,
+    "furnished" BOOLEAN NOT NULL DEFAULT false,
+    "garden" BOOLEAN NOT NULL DEFAULT false,
+    "parking" BOOLEAN NOT NULL DEFAULT false,
+    "garage" BOOLEAN NOT NULL DEFAULT false,
+    "balcony" BOOLEAN NOT NULL DEFAULT false,
+    "terrace" BOOLEAN NOT NULL DEFAULT false,
+    "elevator" BOOLEAN NOT NULL DEFAULT false,
+    "airConditioning" BOOLEAN NOT NULL DEFAULT false,
+    "heating" TEXT,
+    "petFriendly" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "property_features_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "property_amenities" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL DEFAULT 'General',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "property_amenities_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "property_documents" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "size" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "property_documents_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "property_status_history" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "previousStatus" TEXT,
+    "newStatus" TEXT NOT NULL,
+    "changedById" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "property_status_history_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "property_status_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "transaction_milestones" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transactionId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "isRequired" BOOLEAN NOT NULL DEFAULT true,
+    "dueDate" DATETIME,
+    "completedAt" DATETIME,
+    "completedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "transaction_milestones_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "transaction_milestones_completedById_fkey" FOREIGN KEY ("completedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "transaction_status_history" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transactionId" TEXT NOT NULL,
+    "previousStatus" TEXT,
+    "newStatus" TEXT NOT NULL,
+    "changedById" TEXT,
+    "reason" TEXT,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "transaction_status_history_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "transaction_status_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "transaction_documents" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transactionId" TEXT NOT NULL,
+    "uploadedById" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'UPLOADED',
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "fileName" TEXT NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "fileSize" INTEGER,
+    "mimeType" TEXT,
+    "requiresSignature" BOOLEAN NOT NULL DEFAULT false,
+    "signedById" TEXT,
+    "signedAt" DATETIME,
+    "expiresAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "transaction_documents_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "transaction_documents_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "transaction_documents_signedById_fkey" FOREIGN KEY ("signedById") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "transaction_messages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transactionId" TEXT,
+    "senderId" TEXT NOT NULL,
+    "recipientId" TEXT,
+    "subject" TEXT,
+    "content" TEXT NOT NULL,
+    "isInternal" BOOLEAN NOT NULL DEFAULT false,
+    "readAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "transaction_messages_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "transaction_messages_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "transaction_messages_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "message_attachments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "messageId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "fileSize" INTEGER,
+    "mimeType" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "message_attachments_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "transaction_messages" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "data_export_requests" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "requestedById" TEXT,
+    "format" TEXT NOT NULL DEFAULT 'JSON',
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "includeTransactions" BOOLEAN NOT NULL DEFAULT false,
+    "includeMessages" BOOLEAN NOT NULL DEFAULT false,
+    "includeProperties" BOOLEAN NOT NULL DEFAULT false,
+    "includeSearchHistory" BOOLEAN NOT NULL DEFAULT false,
+    "filePath" TEXT,
+    "expiresAt" DATETIME,
+    "processedAt" DATETIME,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "data_export_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "data_deletion_requests" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "requestedById" TEXT,
+    "reason" TEXT,
+    "retainLegalData" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "scheduledDeletionDate" DATETIME NOT NULL,
+    "processedAt" DATETIME,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "consent_records" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "consentType" TEXT NOT NULL,
+    "granted" BOOLEAN NOT NULL,
+    "grantedAt" DATETIME,
+    "revokedAt" DATETIME,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "version" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "consent_records_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "search_logs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT,
+    "query" TEXT,
+    "filters" TEXT,
+    "resultCount" INTEGER NOT NULL DEFAULT 0,
+    "ipAddress" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "search_logs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_profiles_userId_key" ON "user_profiles"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_preferences_userId_key" ON "user_preferences"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_verifications_userId_key" ON "user_verifications"("userId");
+
+-- CreateIndex
+CREATE INDEX "user_verifications_verificationToken_idx" ON "user_verifications"("verificationToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "property_addresses_propertyId_key" ON "property_addresses"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "property_addresses_country_city_idx" ON "property_addresses"("country", "city");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "property_locations_propertyId_key" ON "property_locations"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "property_locations_latitude_longitude_idx" ON "property_locations"("latitude", "longitude");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "property_features_propertyId_key" ON "property_features"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "property_amenities_propertyId_idx" ON "property_amenities"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "property_amenities_name_idx" ON "property_amenities"("name");
+
+-- CreateIndex
+CREATE INDEX "property_documents_propertyId_idx" ON "property_documents"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "property_status_history_propertyId_idx" ON "property_status_history"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "property_status_history_createdAt_idx" ON "property_status_history"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "transaction_milestones_transactionId_idx" ON "transaction_milestones"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "transaction_status_history_transactionId_idx" ON "transaction_status_history"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "transaction_status_history_createdAt_idx" ON "transaction_status_history"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "transaction_documents_transactionId_idx" ON "transaction_documents"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "transaction_documents_type_idx" ON "transaction_documents"("type");
+
+-- CreateIndex
+CREATE INDEX "transaction_messages_transactionId_idx" ON "transaction_messages"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "transaction_messages_senderId_idx" ON "transaction_messages"("senderId");
+
+-- CreateIndex
+CREATE INDEX "transaction_messages_recipientId_idx" ON "transaction_messages"("recipientId");
+
+-- CreateIndex
+CREATE INDEX "transaction_messages_createdAt_idx" ON "transaction_messages"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "message_attachments_messageId_idx" ON "message_attachments"("messageId");
+
+-- CreateIndex
+CREATE INDEX "data_export_requests_userId_idx" ON "data_export_requests"("userId");
+
+-- CreateIndex
+CREATE INDEX "data_export_requests_status_idx" ON "data_export_requests"("status");
+
+-- CreateIndex
+CREATE INDEX "data_deletion_requests_userId_idx" ON "data_deletion_requests"("userId");
+
+-- CreateIndex
+CREATE INDEX "data_deletion_requests_status_scheduledDeletionDate_idx" ON "data_deletion_requests"("status", "scheduledDeletionDate");
+
+-- CreateIndex
+CREATE INDEX "consent_records_userId_consentType_idx" ON "consent_records"("userId", "consentType");
+
+-- CreateIndex
+CREATE INDEX "search_logs_userId_idx" ON "search_logs"("userId");
+
+-- CreateIndex
+CREATE INDEX "search_logs_createdAt_idx" ON "search_logs"("createdAt");
+
+-- Backfill the related rows from the existing flat user and property columns
+INSERT INTO "user_profiles" ("id", "userId", "bio", "company", "website", "country", "city", "createdAt", "updatedAt")
+SELECT lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))), "id", "bio", "company", "website", "country", "city", "createdAt", "updatedAt" FROM "users";
+
+INSERT INTO "user_preferences" ("id", "userId", "language", "currency", "timezone", "emailNotifications", "smsNotifications", "pushNotifications", "marketingEmails", "createdAt", "updatedAt")
+SELECT lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))), "id", "language", "currency", "timezone", "emailNotifications", "smsNotifications", "pushNotifications", "marketingEmails", "createdAt", "updatedAt" FROM "users";
+
+INSERT INTO "user_verifications" ("id", "userId", "emailVerified", "phoneVerified", "verificationToken", "tokenExpiresAt", "createdAt", "updatedAt")
+SELECT lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))), "id", "emailVerified", "phoneVerified", "verificationToken", "tokenExpiresAt", "createdAt", "updatedAt" FROM "users";
+
+INSERT INTO "property_addresses" ("id", "propertyId", "street", "city", "postcode", "county", "country", "createdAt", "updatedAt")
+SELECT lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))), "id", "street", "city", COALESCE("postcode", ''), "county", "country", "createdAt", "updatedAt" FROM "properties"
+WHERE "street" IS NOT NULL AND "city" IS NOT NULL AND "country" IS NOT NULL;
+
+INSERT INTO "property_locations" ("id", "propertyId", "latitude", "longitude", "createdAt", "updatedAt")
+SELECT lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))), "id", "latitude", "longitude", "createdAt", "updatedAt" FROM "properties"
+WHERE "latitude" IS NOT NULL AND "longitude" IS NOT NULL;
+
+INSERT INTO "property_features" ("id", "propertyId", "bedrooms", "bathrooms", "receptionRooms", "floorArea", "plotSize", "floors", "buildYear", "energyRating", "furnished", "garden", "parking", "garage", "balcony", "terrace", "elevator", "airConditioning", "heating", "petFriendly", "createdAt", "updatedAt")
+SELECT lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))), "id", "bedrooms", "bathrooms", "receptionRooms", "floorArea", "plotSize", "floors", "buildYear", "energyRating", "furnished", "garden", "parking", "garage", "balcony", "terrace", "elevator", "airConditioning", "heating", "petFriendly", "createdAt", "updatedAt" FROM "properties";
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "saved_searches" ADD COLUMN "frequency" TEXT NOT NULL DEFAULT 'INSTANT';
+ALTER TABLE "saved_searches" ADD COLUMN "lastNotifiedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "saved_searches_isActive_frequency_idx" ON "saved_searches"("isActive", "frequency");
@@ -0,0 +1,36 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_offers" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "transactionId" TEXT NOT NULL,
+    "offererId" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "message" TEXT,
+    "conditions" TEXT,
+    "validUntil" DATETIME,
+    "parentOfferId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "respondedAt" DATETIME,
+    CONSTRAINT "offers_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "offers_offererId_fkey" FOREIGN KEY ("offererId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "offers_parentOfferId_fkey" FOREIGN KEY ("parentOfferId") REFERENCES "offers" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_offers" ("id", "transactionId", "offererId", "amount", "currency", "status", "message", "conditions", "validUntil", "parentOfferId", "createdAt", "updatedAt", "respondedAt") SELECT "id", "transactionId", "offererId", "amount", "currency", "status", "message", "conditions", "validUntil", "parentOfferId", "createdAt", "updatedAt", "respondedAt" FROM "offers";
+DROP TABLE "offers";
+ALTER TABLE "new_offers" RENAME TO "offers";
+CREATE INDEX "offers_transactionId_idx" ON "offers"("transactionId");
+CREATE INDEX "offers_offererId_idx" ON "offers"("offererId");
+CREATE INDEX "offers_status_idx" ON "offers"("status");
+CREATE INDEX "offers_createdAt_idx" ON "offers"("createdAt");
+CREATE INDEX "offers_parentOfferId_idx" ON "offers"("parentOfferId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+-- At most one accepted offer per transaction, enforced by the database so
+-- concurrent acceptances cannot both succeed
+CREATE UNIQUE INDEX "offers_transactionId_accepted_key" ON "offers"("transactionId") WHERE "status" = 'ACCEPTED';
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "milestoneTemplate" TEXT;
+
+-- AlterTable
+ALTER TABLE "transaction_milestones" ADD COLUMN "key" TEXT;
+ALTER TABLE "transaction_milestones" ADD COLUMN "dependsOn" TEXT;
+ALTER TABLE "transaction_milestones" ADD COLUMN "dueOffsetDays" INTEGER;
+ALTER TABLE "transaction_milestones" ADD COLUMN "requiredDocuments" TEXT;
@@ -0,0 +1,35 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_reviews" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "targetRole" TEXT NOT NULL DEFAULT 'SELLER',
+    "rating" INTEGER NOT NULL,
+    "title" TEXT,
+    "content" TEXT NOT NULL,
+    "isVerified" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "flagReason" TEXT,
+    "moderatedById" TEXT,
+    "moderatedAt" DATETIME,
+    "moderationNote" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "reviews_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "reviews_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "reviews_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "reviews_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- Reviews written before moderation existed stay visible
+INSERT INTO "new_reviews" ("id", "propertyId", "reviewerId", "targetId", "rating", "title", "content", "isVerified", "status", "createdAt", "updatedAt") SELECT "id", "propertyId", "reviewerId", "targetId", "rating", "title", "content", "isVerified", 'PUBLISHED', "createdAt", "updatedAt" FROM "reviews";
+DROP TABLE "reviews";
+ALTER TABLE "new_reviews" RENAME TO "reviews";
+CREATE INDEX "reviews_targetId_status_idx" ON "reviews"("targetId", "status");
+CREATE INDEX "reviews_status_createdAt_idx" ON "reviews"("status", "createdAt");
+CREATE UNIQUE INDEX "reviews_reviewerId_transactionId_key" ON "reviews"("reviewerId", "transactionId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
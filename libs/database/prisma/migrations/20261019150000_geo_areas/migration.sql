@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "geo_areas" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'DISTRICT',
+    "country" TEXT NOT NULL,
+    "city" TEXT,
+    "boundary" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "geo_areas_slug_key" ON "geo_areas"("slug");
+
+-- CreateIndex
+CREATE INDEX "geo_areas_country_city_idx" ON "geo_areas"("country", "city");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "properties" ADD COLUMN "priceEur" REAL;
+
+-- Listings already priced in euros need no rate
+UPDATE "properties" SET "priceEur" = "price" WHERE "currency" = 'EUR';
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "date" DATETIME NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" REAL NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "properties_priceEur_idx" ON "properties"("priceEur");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_date_currency_key" ON "exchange_rates"("date", "currency");
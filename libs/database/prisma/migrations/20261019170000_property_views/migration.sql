@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "property_views" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "viewedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "property_views_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "property_views_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "property_views_userId_viewedAt_idx" ON "property_views"("userId", "viewedAt");
+
+-- CreateIndex
+CREATE INDEX "property_views_propertyId_idx" ON "property_views"("propertyId");
@@ -0,0 +1,82 @@
+-- AlterTable
+ALTER TABLE "property_images" ADD COLUMN "perceptualHash" TEXT;
+
+-- CreateTable
+CREATE TABLE "property_duplicate_candidates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "score" REAL NOT NULL,
+    "signals" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "reviewedById" TEXT,
+    "reviewedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "property_duplicate_candidates_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "property_duplicate_candidates_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_properties" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "price" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "priceEur" REAL,
+    "propertyType" TEXT NOT NULL,
+    "listingType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isFeatured" BOOLEAN NOT NULL DEFAULT false,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "publishedAt" DATETIME,
+    "expiresAt" DATETIME,
+    "duplicateOfId" TEXT,
+    "ownerId" TEXT NOT NULL,
+    "street" TEXT,
+    "city" TEXT,
+    "postcode" TEXT,
+    "county" TEXT,
+    "country" TEXT,
+    "latitude" REAL,
+    "longitude" REAL,
+    "bedrooms" INTEGER,
+    "bathrooms" INTEGER,
+    "receptionRooms" INTEGER,
+    "floorArea" REAL,
+    "plotSize" REAL,
+    "floors" INTEGER,
+    "buildYear" INTEGER,
+    "energyRating" TEXT,
+    "furnished" BOOLEAN NOT NULL DEFAULT false,
+    "garden" BOOLEAN NOT NULL DEFAULT false,
+    "parking" BOOLEAN NOT NULL DEFAULT false,
+    "garage" BOOLEAN NOT NULL DEFAULT false,
+    "balcony" BOOLEAN NOT NULL DEFAULT false,
+    "terrace" BOOLEAN NOT NULL DEFAULT false,
+    "elevator" BOOLEAN NOT NULL DEFAULT false,
+    "airConditioning" BOOLEAN NOT NULL DEFAULT false,
+    "heating" TEXT,
+    "petFriendly" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "properties_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "properties" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "properties_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_properties" ("id", "title", "description", "price", "currency", "priceEur", "propertyType", "listingType", "status", "isActive", "isFeatured", "viewCount", "createdAt", "updatedAt", "publishedAt", "expiresAt", "ownerId", "street", "city", "postcode", "county", "country", "latitude", "longitude", "bedrooms", "bathrooms", "receptionRooms", "floorArea", "plotSize", "floors", "buildYear", "energyRating", "furnished", "garden", "parking", "garage", "balcony", "terrace", "elevator", "airConditioning", "heating", "petFriendly") SELECT "id", "title", "description", "price", "currency", "priceEur", "propertyType", "listingType", "status", "isActive", "isFeatured", "viewCount", "createdAt", "updatedAt", "publishedAt", "expiresAt", "ownerId", "street", "city", "postcode", "county", "country", "latitude", "longitude", "bedrooms", "bathrooms", "receptionRooms", "floorArea", "plotSize", "floors", "buildYear", "energyRating", "furnished", "garden", "parking", "garage", "balcony", "terrace", "elevator", "airConditioning", "heating", "petFriendly" FROM "properties";
+DROP TABLE "properties";
+ALTER TABLE "new_properties" RENAME TO "properties";
+CREATE INDEX "properties_priceEur_idx" ON "properties"("priceEur");
+CREATE INDEX "properties_duplicateOfId_idx" ON "properties"("duplicateOfId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "property_duplicate_candidates_status_score_idx" ON "property_duplicate_candidates"("status", "score");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "property_duplicate_candidates_propertyId_matchId_key" ON "property_duplicate_candidates"("propertyId", "matchId");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "property_events" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "userId" TEXT,
+    "sessionId" TEXT,
+    "source" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "property_events_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "property_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "property_event_daily" (
+    "propertyId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "type" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "visitors" INTEGER NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("propertyId", "date", "type"),
+    CONSTRAINT "property_event_daily_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "property_events_propertyId_createdAt_idx" ON "property_events"("propertyId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "property_events_createdAt_idx" ON "property_events"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "property_event_daily_date_idx" ON "property_event_daily"("date");
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "properties" ADD COLUMN "expiryReminderAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "properties_status_expiresAt_idx" ON "properties"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "properties_status_expiryReminderAt_idx" ON "properties"("status", "expiryReminderAt");
+
+-- Backfill: listings already live expire 90 days after they were published,
+-- but no sooner than a week from now so their owners get a reminder first
+UPDATE "properties"
+SET "expiresAt" = MAX(
+  COALESCE("publishedAt", "createdAt") + 90 * 86400000,
+  CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER) + 7 * 86400000
+)
+WHERE "status" = 'ACTIVE' AND "expiresAt" IS NULL;
+
+UPDATE "properties"
+SET "expiryReminderAt" = "expiresAt" - 7 * 86400000
+WHERE "status" = 'ACTIVE' AND "expiryReminderAt" IS NULL AND "expiresAt" IS NOT NULL;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "properties" ADD COLUMN "scheduledPublishAt" DATETIME;
+ALTER TABLE "properties" ADD COLUMN "scheduledUnpublishAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "properties_scheduledPublishAt_idx" ON "properties"("scheduledPublishAt");
+
+-- CreateIndex
+CREATE INDEX "properties_scheduledUnpublishAt_idx" ON "properties"("scheduledUnpublishAt");
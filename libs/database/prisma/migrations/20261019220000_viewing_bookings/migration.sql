@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "viewing_slots" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "propertyId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'VIEWING',
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "startsAt" DATETIME NOT NULL,
+    "endsAt" DATETIME NOT NULL,
+    "capacity" INTEGER NOT NULL DEFAULT 1,
+    "notes" TEXT,
+    "reminderSentAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "viewing_slots_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "viewing_slots_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "viewing_bookings" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "slotId" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'CONFIRMED',
+    "attendees" INTEGER NOT NULL DEFAULT 1,
+    "notes" TEXT,
+    "sequence" INTEGER NOT NULL DEFAULT 0,
+    "cancelledAt" DATETIME,
+    "cancellationReason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "viewing_bookings_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "viewing_slots" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "viewing_bookings_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "viewing_slots_propertyId_startsAt_idx" ON "viewing_slots"("propertyId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "viewing_slots_agentId_startsAt_idx" ON "viewing_slots"("agentId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "viewing_slots_status_startsAt_idx" ON "viewing_slots"("status", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "viewing_bookings_slotId_status_idx" ON "viewing_bookings"("slotId", "status");
+
+-- CreateIndex
+CREATE INDEX "viewing_bookings_buyerId_status_idx" ON "viewing_bookings"("buyerId", "status");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "saved_searches" ADD COLUMN "listingType" TEXT;
+ALTER TABLE "saved_searches" ADD COLUMN "country" TEXT;
+ALTER TABLE "saved_searches" ADD COLUMN "city" TEXT;
+ALTER TABLE "saved_searches" ADD COLUMN "priceMin" REAL;
+ALTER TABLE "saved_searches" ADD COLUMN "priceMax" REAL;
+
+-- CreateIndex
+CREATE INDEX "saved_searches_frequency_country_city_idx" ON "saved_searches"("frequency", "country", "city");
+
+-- Backfill from the stored criteria, including the older minPrice/maxPrice keys.
+-- LOWER() only folds ASCII, so cities with other letters stay empty and match any city here.
+UPDATE "saved_searches"
+SET
+  "listingType" = NULLIF(json_extract("criteria", '$.listingType'), ''),
+  "country" = UPPER(TRIM(NULLIF(json_extract("criteria", '$.country'), ''))),
+  "city" = CASE
+    WHEN json_extract("criteria", '$.city') GLOB '*[^ -~]*' THEN NULL
+    ELSE LOWER(TRIM(NULLIF(json_extract("criteria", '$.city'), '')))
+  END,
+  "priceMin" = CAST(NULLIF(COALESCE(json_extract("criteria", '$.priceMin'), json_extract("criteria", '$.minPrice')), '') AS REAL),
+  "priceMax" = CAST(NULLIF(COALESCE(json_extract("criteria", '$.priceMax'), json_extract("criteria", '$.maxPrice')), '') AS REAL)
+WHERE json_valid("criteria");
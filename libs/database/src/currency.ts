@@ -0,0 +1,50 @@
+// Prices are compared in euros; every rate is quoted against it
+export const BASE_CURRENCY = 'EUR';
+
+// Units of each currency per euro, e.g. { PLN: 4.3, CHF: 0.94 }
+export type ExchangeRateTable = Record<string, number>;
+
+/**
+ * Convert an amount between currencies through the euro.
+ * Returns null when either currency has no rate.
+ */
+export function convertCurrency(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRateTable
+): number | null {
+  if (from === to) return amount;
+
+  const fromRate = from === BASE_CURRENCY ? 1 : rates[from];
+  const toRate = to === BASE_CURRENCY ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * Price in euros used for filtering and sorting listings across currencies,
+ * rounded to the cent
+ */
+export function toEuroPrice(amount: number, currency: string, rates: ExchangeRateTable): number | null {
+  const converted = convertCurrency(amount, currency, BASE_CURRENCY, rates);
+  return converted === null ? null : Math.round(converted * 100) / 100;
+}
+
+/**
+ * Prisma filter for a budget in euros. Euro listings stored without a
+ * converted price, e.g. inserted directly, compare on their own price.
+ */
+export function buildEuroPriceFilter(min?: number, max?: number): { OR: Record<string, unknown>[] } {
+  const range: { gte?: number; lte?: number } = {};
+  if (min !== undefined) range.gte = min;
+  if (max !== undefined) range.lte = max;
+
+  return {
+    OR: [
+      { priceEur: range },
+      { priceEur: null, currency: BASE_CURRENCY, price: range },
+    ],
+  };
+}
@@ -0,0 +1,182 @@
+// SQLite has no native enums, so the schema stores these as strings.
+// The objects below mirror the allowed values documented in schema.prisma.
+
+export const UserRole = {
+  BUYER: 'BUYER',
+  SELLER: 'SELLER',
+  AGENT: 'AGENT',
+  ADMIN: 'ADMIN',
+  DEVELOPER: 'DEVELOPER',
+} as const;
+export type UserRole = (typeof UserRole)[keyof typeof UserRole];
+
+export const PropertyType = {
+  APARTMENT: 'APARTMENT',
+  HOUSE: 'HOUSE',
+  COMMERCIAL: 'COMMERCIAL',
+  LAND: 'LAND',
+} as const;
+export type PropertyType = (typeof PropertyType)[keyof typeof PropertyType];
+
+export const ListingType = {
+  SALE: 'SALE',
+  RENT: 'RENT',
+  LEASE: 'LEASE',
+} as const;
+export type ListingType = (typeof ListingType)[keyof typeof ListingType];
+
+export const PropertyStatus = {
+  DRAFT: 'DRAFT',
+  PENDING: 'PENDING',
+  ACTIVE: 'ACTIVE',
+  UNDER_OFFER: 'UNDER_OFFER',
+  RESERVED: 'RESERVED',
+  SOLD: 'SOLD',
+  RENTED: 'RENTED',
+  INACTIVE: 'INACTIVE',
+  EXPIRED: 'EXPIRED',
+} as const;
+export type PropertyStatus = (typeof PropertyStatus)[keyof typeof PropertyStatus];
+
+export const TransactionType = {
+  PURCHASE: 'PURCHASE',
+  RENTAL: 'RENTAL',
+  LEASE: 'LEASE',
+} as const;
+export type TransactionType = (typeof TransactionType)[keyof typeof TransactionType];
+
+export const TransactionStatus = {
+  DRAFT: 'DRAFT',
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  REJECTED: 'REJECTED',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED',
+} as const;
+export type TransactionStatus = (typeof TransactionStatus)[keyof typeof TransactionStatus];
+
+export const OfferStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  REJECTED: 'REJECTED',
+  COUNTERED: 'COUNTERED',
+  WITHDRAWN: 'WITHDRAWN',
+  EXPIRED: 'EXPIRED',
+} as const;
+export type OfferStatus = (typeof OfferStatus)[keyof typeof OfferStatus];
+
+export const NotificationType = {
+  EMAIL: 'EMAIL',
+  SMS: 'SMS',
+  PUSH: 'PUSH',
+  IN_APP: 'IN_APP',
+} as const;
+export type NotificationType = (typeof NotificationType)[keyof typeof NotificationType];
+
+export const NotificationStatus = {
+  PENDING: 'PENDING',
+  SENT: 'SENT',
+  DELIVERED: 'DELIVERED',
+  FAILED: 'FAILED',
+  READ: 'READ',
+} as const;
+export type NotificationStatus = (typeof NotificationStatus)[keyof typeof NotificationStatus];
+
+export const DocumentType = {
+  CONTRACT: 'CONTRACT',
+  ID_DOCUMENT: 'ID_DOCUMENT',
+  PROOF_OF_FUNDS: 'PROOF_OF_FUNDS',
+  MORTGAGE_APPROVAL: 'MORTGAGE_APPROVAL',
+  SURVEY: 'SURVEY',
+  ENERGY_CERTIFICATE: 'ENERGY_CERTIFICATE',
+  FLOOR_PLAN: 'FLOOR_PLAN',
+  TITLE_DEED: 'TITLE_DEED',
+  OTHER: 'OTHER',
+} as const;
+export type DocumentType = (typeof DocumentType)[keyof typeof DocumentType];
+
+export const DocumentStatus = {
+  UPLOADED: 'UPLOADED',
+  PENDING_SIGNATURE: 'PENDING_SIGNATURE',
+  SIGNED: 'SIGNED',
+  REJECTED: 'REJECTED',
+  EXPIRED: 'EXPIRED',
+} as const;
+export type DocumentStatus = (typeof DocumentStatus)[keyof typeof DocumentStatus];
+
+export const SavedSearchFrequency = {
+  INSTANT: 'INSTANT',
+  DAILY: 'DAILY',
+  WEEKLY: 'WEEKLY',
+} as const;
+export type SavedSearchFrequency = (typeof SavedSearchFrequency)[keyof typeof SavedSearchFrequency];
+
+export const ReviewStatus = {
+  PENDING: 'PENDING',
+  PUBLISHED: 'PUBLISHED',
+  FLAGGED: 'FLAGGED',
+  REJECTED: 'REJECTED',
+} as const;
+export type ReviewStatus = (typeof ReviewStatus)[keyof typeof ReviewStatus];
+
+export const ReviewTargetRole = {
+  AGENT: 'AGENT',
+  SELLER: 'SELLER',
+  BUYER: 'BUYER',
+} as const;
+export type ReviewTargetRole = (typeof ReviewTargetRole)[keyof typeof ReviewTargetRole];
+
+export const OutboxEventStatus = {
+  PENDING: 'PENDING',
+  PROCESSED: 'PROCESSED',
+  FAILED: 'FAILED',
+} as const;
+export type OutboxEventStatus = (typeof OutboxEventStatus)[keyof typeof OutboxEventStatus];
+
+export const OutboxEventType = {
+  PROPERTY_UPSERTED: 'PROPERTY_UPSERTED',
+  PROPERTY_DELETED: 'PROPERTY_DELETED',
+} as const;
+export type OutboxEventType = (typeof OutboxEventType)[keyof typeof OutboxEventType];
+
+export const GeoAreaKind = {
+  CITY: 'CITY',
+  DISTRICT: 'DISTRICT',
+  NEIGHBOURHOOD: 'NEIGHBOURHOOD',
+} as const;
+export type GeoAreaKind = (typeof GeoAreaKind)[keyof typeof GeoAreaKind];
+
+export const DuplicateCandidateStatus = {
+  PENDING: 'PENDING',
+  CONFIRMED: 'CONFIRMED',
+  DISMISSED: 'DISMISSED',
+} as const;
+export type DuplicateCandidateStatus = (typeof DuplicateCandidateStatus)[keyof typeof DuplicateCandidateStatus];
+
+export const PropertyEventType = {
+  IMPRESSION: 'IMPRESSION',
+  VIEW: 'VIEW',
+  GALLERY_OPEN: 'GALLERY_OPEN',
+  SHARE: 'SHARE',
+  CONTACT: 'CONTACT',
+  FAVORITE: 'FAVORITE',
+} as const;
+export type PropertyEventType = (typeof PropertyEventType)[keyof typeof PropertyEventType];
+
+export const ViewingSlotType = {
+  VIEWING: 'VIEWING',
+  OPEN_HOUSE: 'OPEN_HOUSE',
+} as const;
+export type ViewingSlotType = (typeof ViewingSlotType)[keyof typeof ViewingSlotType];
+
+export const ViewingSlotStatus = {
+  OPEN: 'OPEN',
+  CANCELLED: 'CANCELLED',
+} as const;
+export type ViewingSlotStatus = (typeof ViewingSlotStatus)[keyof typeof ViewingSlotStatus];
+
+export const ViewingBookingStatus = {
+  CONFIRMED: 'CONFIRMED',
+  CANCELLED: 'CANCELLED',
+} as const;
+export type ViewingBookingStatus = (typeof ViewingBookingStatus)[keyof typeof ViewingBookingStatus];
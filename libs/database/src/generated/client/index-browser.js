@@ -157,6 +157,7 @@ exports.Prisma.PropertyScalarFieldEnum = {
   description: 'description',
   price: 'price',
   currency: 'currency',
+  priceEur: 'priceEur',
   propertyType: 'propertyType',
   listingType: 'listingType',
   status: 'status',
@@ -167,6 +168,10 @@ exports.Prisma.PropertyScalarFieldEnum = {
   updatedAt: 'updatedAt',
   publishedAt: 'publishedAt',
   expiresAt: 'expiresAt',
+  expiryReminderAt: 'expiryReminderAt',
+  scheduledPublishAt: 'scheduledPublishAt',
+  scheduledUnpublishAt: 'scheduledUnpublishAt',
+  duplicateOfId: 'duplicateOfId',
   ownerId: 'ownerId',
   street: 'street',
   city: 'city',
@@ -203,6 +208,7 @@ exports.Prisma.PropertyImageScalarFieldEnum = {
   caption: 'caption',
   order: 'order',
   isMain: 'isMain',
+  perceptualHash: 'perceptualHash',
   createdAt: 'createdAt'
 };
 
@@ -243,7 +249,8 @@ exports.Prisma.TransactionScalarFieldEnum = {
   expectedCompletion: 'expectedCompletion',
   notes: 'notes',
   terms: 'terms',
-  metadata: 'metadata'
+  metadata: 'metadata',
+  milestoneTemplate: 'milestoneTemplate'
 };
 
 exports.Prisma.SavedSearchScalarFieldEnum = {
@@ -251,7 +258,14 @@ exports.Prisma.SavedSearchScalarFieldEnum = {
   userId: 'userId',
   name: 'name',
   criteria: 'criteria',
+  frequency: 'frequency',
   isActive: 'isActive',
+  lastNotifiedAt: 'lastNotifiedAt',
+  listingType: 'listingType',
+  country: 'country',
+  city: 'city',
+  priceMin: 'priceMin',
+  priceMax: 'priceMax',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -293,10 +307,17 @@ exports.Prisma.ReviewScalarFieldEnum = {
   propertyId: 'propertyId',
   reviewerId: 'reviewerId',
   targetId: 'targetId',
+  transactionId: 'transactionId',
+  targetRole: 'targetRole',
   rating: 'rating',
   title: 'title',
   content: 'content',
   isVerified: 'isVerified',
+  status: 'status',
+  flagReason: 'flagReason',
+  moderatedById: 'moderatedById',
+  moderatedAt: 'moderatedAt',
+  moderationNote: 'moderationNote',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -311,6 +332,7 @@ exports.Prisma.OfferScalarFieldEnum = {
   message: 'message',
   conditions: 'conditions',
   validUntil: 'validUntil',
+  parentOfferId: 'parentOfferId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   respondedAt: 'respondedAt'
@@ -329,6 +351,352 @@ exports.Prisma.AuditLogScalarFieldEnum = {
   createdAt: 'createdAt'
 };
 
+exports.Prisma.UserProfileScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  bio: 'bio',
+  company: 'company',
+  website: 'website',
+  dateOfBirth: 'dateOfBirth',
+  nationality: 'nationality',
+  country: 'country',
+  city: 'city',
+  address: 'address',
+  postcode: 'postcode',
+  languages: 'languages',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.UserPreferencesScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  language: 'language',
+  currency: 'currency',
+  timezone: 'timezone',
+  emailNotifications: 'emailNotifications',
+  smsNotifications: 'smsNotifications',
+  pushNotifications: 'pushNotifications',
+  marketingEmails: 'marketingEmails',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.UserVerificationScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  emailVerified: 'emailVerified',
+  phoneVerified: 'phoneVerified',
+  identityVerified: 'identityVerified',
+  verificationToken: 'verificationToken',
+  tokenExpiresAt: 'tokenExpiresAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.PropertyAddressScalarFieldEnum = {
+  id: 'id',
+  propertyId: 'propertyId',
+  street: 'street',
+  city: 'city',
+  postcode: 'postcode',
+  county: 'county',
+  country: 'country',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.PropertyLocationScalarFieldEnum = {
+  id: 'id',
+  propertyId: 'propertyId',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.PropertyFeaturesScalarFieldEnum = {
+  id: 'id',
+  propertyId: 'propertyId',
+  bedrooms: 'bedrooms',
+  bathrooms: 'bathrooms',
+  receptionRooms: 'receptionRooms',
+  floorArea: 'floorArea',
+  plotSize: 'plotSize',
+  floors: 'floors',
+  buildYear: 'buildYear',
+  energyRating: 'energyRating',
+  furnished: 'furnished',
+  garden: 'garden',
+  parking: 'parking',
+  garage: 'garage',
+  balcony: 'balcony',
+  terrace: 'terrace',
+  elevator: 'elevator',
+  airConditioning: 'airConditioning',
+  heating: 'heating',
+  petFriendly: 'petFriendly',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.PropertyAmenityScalarFieldEnum = {
+  id: 'id',
+  propertyId: 'propertyId',
+  name: 'name',
+  category: 'category',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.PropertyDocumentScalarFieldEnum = {
+  id: 'id',
+  propertyId: 'propertyId',
+  name: 'name',
+  url: 'url',
+  type: 'type',
+  size: 'size',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.PropertyStatusHistoryScalarFieldEnum = {
+  id: 'id',
+  propertyId: 'propertyId',
+  previousStatus: 'previousStatus',
+  newStatus: 'newStatus',
+  changedById: 'changedById',
+  notes: 'notes',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.TransactionMilestoneScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  title: 'title',
+  description: 'description',
+  order: 'order',
+  isRequired: 'isRequired',
+  key: 'key',
+  dependsOn: 'dependsOn',
+  dueOffsetDays: 'dueOffsetDays',
+  requiredDocuments: 'requiredDocuments',
+  dueDate: 'dueDate',
+  completedAt: 'completedAt',
+  completedById: 'completedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TransactionStatusHistoryScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  previousStatus: 'previousStatus',
+  newStatus: 'newStatus',
+  changedById: 'changedById',
+  reason: 'reason',
+  notes: 'notes',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.TransactionDocumentScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  uploadedById: 'uploadedById',
+  type: 'type',
+  status: 'status',
+  title: 'title',
+  description: 'description',
+  fileName: 'fileName',
+  fileUrl: 'fileUrl',
+  fileSize: 'fileSize',
+  mimeType: 'mimeType',
+  requiresSignature: 'requiresSignature',
+  signedById: 'signedById',
+  signedAt: 'signedAt',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TransactionMessageScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  senderId: 'senderId',
+  recipientId: 'recipientId',
+  subject: 'subject',
+  content: 'content',
+  isInternal: 'isInternal',
+  readAt: 'readAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.MessageAttachmentScalarFieldEnum = {
+  id: 'id',
+  messageId: 'messageId',
+  fileName: 'fileName',
+  fileUrl: 'fileUrl',
+  fileSize: 'fileSize',
+  mimeType: 'mimeType',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.DataExportRequestScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  requestedById: 'requestedById',
+  format: 'format',
+  status: 'status',
+  includeTransactions: 'includeTransactions',
+  includeMessages: 'includeMessages',
+  includeProperties: 'includeProperties',
+  includeSearchHistory: 'includeSearchHistory',
+  filePath: 'filePath',
+  expiresAt: 'expiresAt',
+  processedAt: 'processedAt',
+  completedAt: 'completedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.DataDeletionRequestScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  requestedById: 'requestedById',
+  reason: 'reason',
+  retainLegalData: 'retainLegalData',
+  status: 'status',
+  scheduledDeletionDate: 'scheduledDeletionDate',
+  processedAt: 'processedAt',
+  completedAt: 'completedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ConsentRecordScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  consentType: 'consentType',
+  granted: 'granted',
+  grantedAt: 'grantedAt',
+  revokedAt: 'revokedAt',
+  ipAddress: 'ipAddress',
+  userAgent: 'userAgent',
+  version: 'version',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.SearchLogScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  query: 'query',
+  filters: 'filters',
+  resultCount: 'resultCount',
+  ipAddress: 'ipAddress',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.PropertyViewScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  propertyId: 'propertyId',
+  viewedAt: 'viewedAt'
+};
+
+exports.Prisma.OutboxEventScalarFieldEnum = {
+  id: 'id',
+  aggregateType: 'aggregateType',
+  aggregateId: 'aggregateId',
+  eventType: 'eventType',
+  status: 'status',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  availableAt: 'availableAt',
+  processedAt: 'processedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.GeoAreaScalarFieldEnum = {
+  id: 'id',
+  slug: 'slug',
+  name: 'name',
+  kind: 'kind',
+  country: 'country',
+  city: 'city',
+  boundary: 'boundary',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ExchangeRateScalarFieldEnum = {
+  id: 'id',
+  date: 'date',
+  currency: 'currency',
+  rate: 'rate',
+  source: 'source',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.PropertyDuplicateCandidateScalarFieldEnum = {
+  id: 'id',
+  propertyId: 'propertyId',
+  matchId: 'matchId',
+  score: 'score',
+  signals: 'signals',
+  status: 'status',
+  reviewedById: 'reviewedById',
+  reviewedAt: 'reviewedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.PropertyEventScalarFieldEnum = {
+  id: 'id',
+  propertyId: 'propertyId',
+  type: 'type',
+  userId: 'userId',
+  sessionId: 'sessionId',
+  source: 'source',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.PropertyEventDailyScalarFieldEnum = {
+  propertyId: 'propertyId',
+  date: 'date',
+  type: 'type',
+  count: 'count',
+  visitors: 'visitors',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ViewingSlotScalarFieldEnum = {
+  id: 'id',
+  propertyId: 'propertyId',
+  agentId: 'agentId',
+  type: 'type',
+  status: 'status',
+  startsAt: 'startsAt',
+  endsAt: 'endsAt',
+  capacity: 'capacity',
+  notes: 'notes',
+  reminderSentAt: 'reminderSentAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ViewingBookingScalarFieldEnum = {
+  id: 'id',
+  slotId: 'slotId',
+  buyerId: 'buyerId',
+  status: 'status',
+  attendees: 'attendees',
+  notes: 'notes',
+  sequence: 'sequence',
+  cancelledAt: 'cancelledAt',
+  cancellationReason: 'cancellationReason',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -353,7 +721,34 @@ exports.Prisma.ModelName = {
   Notification: 'Notification',
   Review: 'Review',
   Offer: 'Offer',
-  AuditLog: 'AuditLog'
+  AuditLog: 'AuditLog',
+  UserProfile: 'UserProfile',
+  UserPreferences: 'UserPreferences',
+  UserVerification: 'UserVerification',
+  PropertyAddress: 'PropertyAddress',
+  PropertyLocation: 'PropertyLocation',
+  PropertyFeatures: 'PropertyFeatures',
+  PropertyAmenity: 'PropertyAmenity',
+  PropertyDocument: 'PropertyDocument',
+  PropertyStatusHistory: 'PropertyStatusHistory',
+  TransactionMilestone: 'TransactionMilestone',
+  TransactionStatusHistory: 'TransactionStatusHistory',
+  TransactionDocument: 'TransactionDocument',
+  TransactionMessage: 'TransactionMessage',
+  MessageAttachment: 'MessageAttachment',
+  DataExportRequest: 'DataExportRequest',
+  DataDeletionRequest: 'DataDeletionRequest',
+  ConsentRecord: 'ConsentRecord',
+  SearchLog: 'SearchLog',
+  PropertyView: 'PropertyView',
+  OutboxEvent: 'OutboxEvent',
+  GeoArea: 'GeoArea',
+  ExchangeRate: 'ExchangeRate',
+  PropertyDuplicateCandidate: 'PropertyDuplicateCandidate',
+  PropertyEvent: 'PropertyEvent',
+  PropertyEventDaily: 'PropertyEventDaily',
+  ViewingSlot: 'ViewingSlot',
+  ViewingBooking: 'ViewingBooking'
 };
 
 /**
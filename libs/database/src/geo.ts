@@ -0,0 +1,238 @@
+import { PrismaClient, Prisma } from './generated/client';
+
+// GeoJSON positions are [longitude, latitude]
+export type GeoPosition = [number, number];
+
+export interface GeoPolygon {
+  type: 'Polygon';
+  coordinates: GeoPosition[][];
+}
+
+export interface GeoMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: GeoPosition[][][];
+}
+
+// Area filter accepted by the search paths: the first ring of each polygon is
+// its outline and any further rings are holes cut out of it
+export type GeoShape = GeoPolygon | GeoMultiPolygon;
+
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+const isPosition = (value: unknown): value is GeoPosition =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === 'number' &&
+  typeof value[1] === 'number' &&
+  Math.abs(value[0]) <= 180 &&
+  Math.abs(value[1]) <= 90;
+
+const isRing = (value: unknown): value is GeoPosition[] =>
+  Array.isArray(value) && value.length >= 3 && value.every(isPosition);
+
+const isPolygonRings = (value: unknown): value is GeoPosition[][] =>
+  Array.isArray(value) && value.length > 0 && value.every(isRing);
+
+const polygonsOf = (shape: GeoShape): GeoPosition[][][] =>
+  shape.type === 'Polygon' ? [shape.coordinates] : shape.coordinates;
+
+/**
+ * Read a GeoJSON Polygon or MultiPolygon geometry, given as an object or a
+ * JSON string. A Feature is unwrapped to its geometry. Returns null for
+ * anything else.
+ */
+export function parseGeoShape(value: unknown): GeoShape | null {
+  let input: any = value;
+
+  if (typeof input === 'string') {
+    try {
+      input = JSON.parse(input);
+    } catch {
+      return null;
+    }
+  }
+
+  if (input?.type === 'Feature') input = input.geometry;
+
+  if (input?.type === 'Polygon' && isPolygonRings(input.coordinates)) {
+    return { type: 'Polygon', coordinates: input.coordinates.map(closeRing) };
+  }
+
+  if (
+    input?.type === 'MultiPolygon' &&
+    Array.isArray(input.coordinates) &&
+    input.coordinates.length > 0 &&
+    input.coordinates.every(isPolygonRings)
+  ) {
+    return {
+      type: 'MultiPolygon',
+      coordinates: input.coordinates.map((rings: GeoPosition[][]) => rings.map(closeRing)),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * GeoJSON rings end where they start; drawn outlines often leave that off
+ */
+function closeRing(ring: GeoPosition[]): GeoPosition[] {
+  const positions = ring.map(([lon, lat]) => [lon, lat] as GeoPosition);
+  const [first] = positions;
+  const last = positions[positions.length - 1];
+
+  return first[0] === last[0] && first[1] === last[1] ? positions : [...positions, first];
+}
+
+/**
+ * Smallest latitude/longitude box containing the shape
+ */
+export function getShapeBounds(shape: GeoShape): GeoBounds {
+  const positions = polygonsOf(shape).flatMap(rings => rings[0]);
+
+  return {
+    north: Math.max(...positions.map(([, lat]) => lat)),
+    south: Math.min(...positions.map(([, lat]) => lat)),
+    east: Math.max(...positions.map(([lon]) => lon)),
+    west: Math.min(...positions.map(([lon]) => lon)),
+  };
+}
+
+/**
+ * Check whether a coordinate lies inside the shape (outline minus holes)
+ */
+export function isPointInShape(lat: number, lon: number, shape: GeoShape): boolean {
+  return polygonsOf(shape).some(([outline, ...holes]) =>
+    isPointInRing(lat, lon, outline) && !holes.some(hole => isPointInRing(lat, lon, hole))
+  );
+}
+
+/**
+ * Even-odd ray casting against a single ring
+ */
+function isPointInRing(lat: number, lon: number, ring: GeoPosition[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lonI, latI] = ring[i];
+    const [lonJ, latJ] = ring[j];
+
+    if ((latI > lat) !== (latJ > lat) && lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/**
+ * Encode a coordinate as a geohash of the given length, the cell key
+ * Elasticsearch's geohash_grid aggregation groups by
+ */
+export function encodeGeohash(lat: number, lon: number, precision: number): string {
+  const latRange = [-90, 90];
+  const lonRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    // Bits alternate between longitude and latitude, starting with longitude
+    const range = evenBit ? lonRange : latRange;
+    const value = evenBit ? lon : lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    bits <<= 1;
+    if (value >= mid) {
+      bits |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    if (++bitCount === 5) {
+      hash += GEOHASH_ALPHABET[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Bounds of the cell a geohash stands for
+ */
+export function decodeGeohashBounds(hash: string): GeoBounds {
+  const latRange = [-90, 90];
+  const lonRange = [-180, 180];
+  let evenBit = true;
+
+  for (const character of hash) {
+    const bits = GEOHASH_ALPHABET.indexOf(character);
+    if (bits === -1) throw new Error(`Invalid geohash: ${hash}`);
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = evenBit ? lonRange : latRange;
+      const mid = (range[0] + range[1]) / 2;
+
+      if ((bits >> bit) & 1) range[0] = mid;
+      else range[1] = mid;
+
+      evenBit = !evenBit;
+    }
+  }
+
+  return { north: latRange[1], south: latRange[0], east: lonRange[1], west: lonRange[0] };
+}
+
+/**
+ * Check whether a coordinate lies inside a latitude/longitude box
+ */
+export function isPointInBounds(lat: number, lon: number, bounds: GeoBounds): boolean {
+  return lat >= bounds.south && lat <= bounds.north && lon >= bounds.west && lon <= bounds.east;
+}
+
+/**
+ * Find the ids of properties matching a filter whose location lies inside
+ * the shape. SQLite has no spatial index, so candidates come from the
+ * bounding box on the indexed coordinates and are refined in memory.
+ */
+export async function findPropertyIdsInShape(
+  client: PrismaClient,
+  where: Prisma.PropertyWhereInput,
+  shape: GeoShape
+): Promise<string[]> {
+  const bounds = getShapeBounds(shape);
+
+  const candidates = await client.property.findMany({
+    where: {
+      AND: [
+        where,
+        {
+          location: {
+            latitude: { gte: bounds.south, lte: bounds.north },
+            longitude: { gte: bounds.west, lte: bounds.east },
+          },
+        },
+      ],
+    },
+    select: {
+      id: true,
+      location: { select: { latitude: true, longitude: true } },
+    },
+  });
+
+  return candidates
+    .filter(candidate => candidate.location && isPointInShape(candidate.location.latitude, candidate.location.longitude, shape))
+    .map(candidate => candidate.id);
+}
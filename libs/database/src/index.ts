@@ -1,2 +1,14 @@
 export { prisma, default } from './client';
-export * from './generated/client';
\ No newline at end of file
+export * from './generated/client';
+export * from './enums';
+export { redis } from './redis';
+export type { RedisMessageListener } from './redis';
+export * from './utils';
+export * from './geo';
+export * from './currency';
+export type {
+  PropertySearchFilters,
+  DatabaseResult,
+  PaginationOptions,
+  PaginatedResult,
+} from './types';
@@ -1,8 +1,12 @@
 import { createClient, RedisClientType } from 'redis';
 
+export type RedisMessageListener = (message: string, channel: string) => void;
+
 class RedisClient {
   private client: RedisClientType;
   private isConnected = false;
+  // Subscribed connections cannot run other commands, so pub/sub gets its own
+  private subscriber: Promise<RedisClientType> | null = null;
 
   constructor() {
     this.client = createClient({
@@ -32,13 +36,38 @@ class RedisClient {
     });
   }
 
-  async connect(): Promise<void> {
-    if (!this.isConnected) {
-      await this.client.connect();
+  /**
+   * Connect the shared client. The client retries forever on its own, so an
+   * unreachable server is given up on after the timeout and the call rejects.
+   */
+  async connect(timeoutMs = Number(process.env.REDIS_CONNECT_TIMEOUT_MS) || 10000): Promise<void> {
+    if (this.isConnected || this.client.isReady) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Could not connect to Redis within ${timeoutMs}ms`)), timeoutMs);
+    });
+
+    try {
+      await Promise.race([this.client.isOpen ? this.waitUntilReady() : this.client.connect(), timeout]);
+    } catch (error) {
+      if (this.client.isOpen) await this.client.disconnect().catch(() => undefined);
+      throw error;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
+  private waitUntilReady(): Promise<void> {
+    return new Promise(resolve => this.client.once('ready', () => resolve()));
+  }
+
   async disconnect(): Promise<void> {
+    if (this.subscriber) {
+      const subscriber = await this.subscriber.catch(() => null);
+      this.subscriber = null;
+      if (subscriber?.isOpen) await subscriber.disconnect();
+    }
     if (this.isConnected) {
       await this.client.disconnect();
     }
@@ -68,7 +97,7 @@ class RedisClient {
     }
   }
 
-  async del(key: string): Promise<boolean> {
+  async del(key: string | string[]): Promise<boolean> {
     try {
       await this.client.del(key);
       return true;
@@ -87,6 +116,30 @@ class RedisClient {
     }
   }
 
+  // SCAN in batches; unlike KEYS it does not block the server on a large keyspace
+  async scanKeys(pattern: string, count = 100): Promise<string[]> {
+    try {
+      const keys: string[] = [];
+      for await (const key of this.client.scanIterator({ MATCH: pattern, COUNT: count })) {
+        keys.push(key);
+      }
+      return keys;
+    } catch (error) {
+      console.error('Redis SCAN error:', error);
+      return [];
+    }
+  }
+
+  async flushDb(): Promise<boolean> {
+    try {
+      await this.client.flushDb();
+      return true;
+    } catch (error) {
+      console.error('Redis FLUSHDB error:', error);
+      return false;
+    }
+  }
+
   async expire(key: string, seconds: number): Promise<boolean> {
     try {
       return await this.client.expire(key, seconds);
@@ -165,7 +218,7 @@ class RedisClient {
     }
   }
 
-  async sRem(key: string, member: string): Promise<boolean> {
+  async sRem(key: string, member: string | string[]): Promise<boolean> {
     try {
       await this.client.sRem(key, member);
       return true;
@@ -194,6 +247,94 @@ class RedisClient {
       return [];
     }
   }
+
+  async zRangeByScore(key: string, min: number | string, max: number | string): Promise<string[]> {
+    try {
+      return await this.client.zRangeByScore(key, min, max);
+    } catch (error) {
+      console.error('Redis ZRANGEBYSCORE error:', error);
+      return [];
+    }
+  }
+
+  async zRem(key: string, member: string): Promise<boolean> {
+    try {
+      await this.client.zRem(key, member);
+      return true;
+    } catch (error) {
+      console.error('Redis ZREM error:', error);
+      return false;
+    }
+  }
+
+  async zRemRangeByScore(key: string, min: number | string, max: number | string): Promise<boolean> {
+    try {
+      await this.client.zRemRangeByScore(key, min, max);
+      return true;
+    } catch (error) {
+      console.error('Redis ZREMRANGEBYSCORE error:', error);
+      return false;
+    }
+  }
+
+  // Script operations
+  async eval(script: string, keys: string[], args: string[]): Promise<unknown> {
+    try {
+      return await this.client.eval(script, { keys, arguments: args });
+    } catch (error) {
+      console.error('Redis EVAL error:', error);
+      return null;
+    }
+  }
+
+  // Pub/sub operations
+  async publish(channel: string, message: string): Promise<boolean> {
+    try {
+      await this.client.publish(channel, message);
+      return true;
+    } catch (error) {
+      console.error('Redis PUBLISH error:', error);
+      return false;
+    }
+  }
+
+  async subscribe(channel: string, listener: RedisMessageListener): Promise<boolean> {
+    try {
+      const subscriber = await this.getSubscriber();
+      await subscriber.subscribe(channel, listener);
+      return true;
+    } catch (error) {
+      console.error('Redis SUBSCRIBE error:', error);
+      return false;
+    }
+  }
+
+  async unsubscribe(channel: string, listener?: RedisMessageListener): Promise<boolean> {
+    try {
+      if (!this.subscriber) return true;
+      const subscriber = await this.subscriber;
+      await subscriber.unsubscribe(channel, listener);
+      return true;
+    } catch (error) {
+      console.error('Redis UNSUBSCRIBE error:', error);
+      return false;
+    }
+  }
+
+  private getSubscriber(): Promise<RedisClientType> {
+    // Share one connection attempt between concurrent subscribers
+    if (!this.subscriber) {
+      const subscriber: RedisClientType = this.client.duplicate();
+      subscriber.on('error', (err) => {
+        console.error('Redis Subscriber Error:', err);
+      });
+      this.subscriber = subscriber.connect().then(() => subscriber);
+      this.subscriber.catch(() => {
+        this.subscriber = null;
+      });
+    }
+    return this.subscriber;
+  }
 }
 
 // Create and export Redis client instance
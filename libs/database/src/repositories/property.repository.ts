@@ -1,7 +1,6 @@
 import { Property, PropertyStatus, PropertyType, ListingType } from '@prisma/client';
 import { BaseRepository } from './base.repository';
-import { DatabaseResult, PropertyWithDetails, PropertySearchFilters, PaginatedResult } from '../types';
-import { createPaginationParams, createOrderBy, createPaginatedResult } from '../utils';
+import { DatabaseResult, PropertyWithDetails } from '../types';
 
 /**
  * Property repository for property-related database operations
@@ -59,140 +58,6 @@ export class PropertyRepository extends BaseRepository<Property> {
     }
   }
 
-  /**
-   * Search properties with filters
-   */
-  async search(
-    filters: PropertySearchFilters,
-    pagination?: {
-      page?: number;
-      limit?: number;
-      sortBy?: string;
-      sortOrder?: 'asc' | 'desc';
-    }
-  ): Promise<DatabaseResult<PaginatedResult<PropertyWithDetails>>> {
-    try {
-      const { skip, take, page, limit } = createPaginationParams(pagination);
-      const orderBy = createOrderBy(pagination?.sortBy || 'createdAt', pagination?.sortOrder || 'desc');
-
-      // Build where conditions based on filters
-      const where: any = {
-        isActive: true,
-        status: PropertyStatus.ACTIVE,
-      };
-
-      // Apply filters
-      if (filters.propertyType && filters.propertyType.length > 0) {
-        where.propertyType = { in: filters.propertyType };
-      }
-
-      if (filters.listingType) {
-        where.listingType = filters.listingType;
-      }
-
-      if (filters.minPrice || filters.maxPrice) {
-        where.price = {};
-        if (filters.minPrice) where.price.gte = filters.minPrice;
-        if (filters.maxPrice) where.price.lte = filters.maxPrice;
-      }
-
-      if (filters.country) {
-        where.address = {
-          ...where.address,
-          country: filters.country,
-        };
-      }
-
-      if (filters.city) {
-        where.address = {
-          ...where.address,
-          city: filters.city,
-        };
-      }
-
-      // Features filters
-      if (filters.minBedrooms || filters.maxBedrooms || filters.minBathrooms || filters.features) {
-        where.features = {};
-
-        if (filters.minBedrooms) {
-          where.features.bedrooms = { gte: filters.minBedrooms };
-        }
-
-        if (filters.maxBedrooms) {
-          where.features.bedrooms = { 
-            ...where.features.bedrooms,
-            lte: filters.maxBedrooms 
-          };
-        }
-
-        if (filters.minBathrooms) {
-          where.features.bathrooms = { gte: filters.minBathrooms };
-        }
-
-        if (filters.features) {
-          Object.entries(filters.features).forEach(([key, value]) => {
-            if (value === true) {
-              where.features[key] = true;
-            }
-          });
-        }
-      }
-
-      // Amenities filter
-      if (filters.amenities && filters.amenities.length > 0) {
-        where.amenities = {
-          some: {
-            name: { in: filters.amenities },
-          },
-        };
-      }
-
-      // Execute query
-      const [properties, total] = await Promise.all([
-        this.prisma.property.findMany({
-          where,
-          include: {
-            address: true,
-            location: true,
-            features: true,
-            amenities: true,
-            images: {
-              where: { isMain: true },
-              take: 1,
-            },
-            owner: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                role: true,
-                profile: {
-                  select: {
-                    company: true,
-                  },
-                },
-              },
-            },
-          },
-          skip,
-          take,
-          orderBy,
-        }),
-        this.prisma.property.count({ where }),
-      ]);
-
-      return {
-        success: true,
-        data: createPaginatedResult(properties as PropertyWithDetails[], total, page, limit),
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: 'Failed to search properties',
-      };
-    }
-  }
-
   /**
    * Get featured properties
    */
@@ -22,6 +22,15 @@ async function main() {
       emailVerified: true,
       country: 'DE',
       city: 'Berlin',
+      profile: {
+        create: { country: 'DE', city: 'Berlin', languages: JSON.stringify(['en', 'de']) },
+      },
+      preferences: {
+        create: { language: 'en', currency: 'EUR', timezone: 'Europe/Berlin' },
+      },
+      verification: {
+        create: { emailVerified: true },
+      },
     },
   });
 
@@ -40,6 +49,15 @@ async function main() {
       city: 'Berlin',
       company: 'Berlin Real Estate',
       phone: '+49 30 1234 5678',
+      profile: {
+        create: { company: 'Berlin Real Estate', country: 'DE', city: 'Berlin', languages: JSON.stringify(['de', 'en']) },
+      },
+      preferences: {
+        create: { language: 'de', currency: 'EUR', timezone: 'Europe/Berlin', smsNotifications: true },
+      },
+      verification: {
+        create: { emailVerified: true, phoneVerified: true, identityVerified: true },
+      },
     },
   });
 
@@ -57,6 +75,15 @@ async function main() {
       country: 'DE',
       city: 'Berlin',
       phone: '+49 30 9876 5432',
+      profile: {
+        create: { country: 'DE', city: 'Berlin', languages: JSON.stringify(['en']) },
+      },
+      preferences: {
+        create: { language: 'en', currency: 'EUR', timezone: 'Europe/Berlin' },
+      },
+      verification: {
+        create: { emailVerified: true, phoneVerified: true },
+      },
     },
   });
 
@@ -126,6 +153,21 @@ async function main() {
       elevator: true,
       parking: false,
       publishedAt: new Date(),
+      address: {
+        create: { street: 'Unter den Linden 1', city: 'Berlin', postcode: '10117', country: 'DE' },
+      },
+      location: {
+        create: { latitude: 52.5162746, longitude: 13.3777041 },
+      },
+      features: {
+        create: { bedrooms: 2, bathrooms: 1, floorArea: 85, buildYear: 2020, energyRating: 'B', balcony: true, elevator: true },
+      },
+      amenities: {
+        create: [
+          { name: 'Public Transport', category: 'Location' },
+          { name: 'Supermarket', category: 'Location' },
+        ],
+      },
     },
   });
 
@@ -159,6 +201,34 @@ async function main() {
       garage: true,
       airConditioning: true,
       publishedAt: new Date(),
+      address: {
+        create: { street: 'Maximilianstraße 15', city: 'Munich', postcode: '80539', country: 'DE' },
+      },
+      location: {
+        create: { latitude: 48.1351, longitude: 11.5820 },
+      },
+      features: {
+        create: {
+          bedrooms: 3,
+          bathrooms: 2,
+          floorArea: 150,
+          buildYear: 2019,
+          energyRating: 'A',
+          furnished: true,
+          balcony: true,
+          terrace: true,
+          elevator: true,
+          parking: true,
+          garage: true,
+          airConditioning: true,
+        },
+      },
+      amenities: {
+        create: [
+          { name: 'Concierge', category: 'Building' },
+          { name: 'Gym', category: 'Building' },
+        ],
+      },
     },
   });
 
@@ -189,6 +259,30 @@ async function main() {
       parking: true,
       garage: true,
       publishedAt: new Date(),
+      address: {
+        create: { street: 'Elbchaussee 42', city: 'Hamburg', postcode: '22763', country: 'DE' },
+      },
+      location: {
+        create: { latitude: 53.5511, longitude: 9.9937 },
+      },
+      features: {
+        create: {
+          bedrooms: 4,
+          bathrooms: 2,
+          floorArea: 180,
+          plotSize: 400,
+          buildYear: 1995,
+          energyRating: 'D',
+          garden: true,
+          parking: true,
+          garage: true,
+        },
+      },
+      amenities: {
+        create: [
+          { name: 'School', category: 'Location' },
+        ],
+      },
     },
   });
 
@@ -256,6 +350,38 @@ async function main() {
 
   console.log('✅ Added property images');
 
+  // Create property documents and status history
+  await prisma.propertyDocument.createMany({
+    data: [
+      {
+        propertyId: property1.id,
+        name: 'energy-certificate.pdf',
+        url: 'https://example.com/documents/energy-certificate.pdf',
+        type: 'application/pdf',
+        size: 245000,
+      },
+      {
+        propertyId: property3.id,
+        name: 'floor-plan.pdf',
+        url: 'https://example.com/documents/floor-plan.pdf',
+        type: 'application/pdf',
+        size: 512000,
+      },
+    ],
+  });
+
+  await prisma.propertyStatusHistory.createMany({
+    data: [property1, property2, property3].map((property) => ({
+      propertyId: property.id,
+      previousStatus: 'DRAFT',
+      newStatus: 'ACTIVE',
+      changedById: agentUser.id,
+      notes: 'Listing published',
+    })),
+  });
+
+  console.log('✅ Added property documents and status history');
+
   // Create a sample saved search
   await prisma.savedSearch.create({
     data: {
@@ -263,10 +389,13 @@ async function main() {
       name: 'Berlin Apartments Under 500k',
       criteria: JSON.stringify({
         city: 'Berlin',
-        propertyType: 'APARTMENT',
-        maxPrice: 500000,
-        minBedrooms: 2,
+        propertyType: ['APARTMENT'],
+        priceMax: 500000,
+        bedroomsMin: 2,
       }),
+      city: 'berlin',
+      priceMax: 500000,
+      frequency: 'DAILY',
       isActive: true,
     },
   });
@@ -311,6 +440,83 @@ async function main() {
     },
   });
 
+  // Create transaction milestones, status history, documents and messages
+  await prisma.transactionMilestone.createMany({
+    data: [
+      {
+        transactionId: transaction.id,
+        title: 'Initial Offer',
+        description: 'Submit initial offer',
+        order: 1,
+        isRequired: true,
+        completedAt: new Date(),
+        completedById: buyerUser.id,
+      },
+      {
+        transactionId: transaction.id,
+        title: 'Offer Acceptance',
+        description: 'Seller accepts the offer',
+        order: 2,
+        isRequired: true,
+      },
+      {
+        transactionId: transaction.id,
+        title: 'Property Survey',
+        description: 'Professional property survey',
+        order: 3,
+        isRequired: false,
+      },
+      {
+        transactionId: transaction.id,
+        title: 'Exchange Contracts',
+        description: 'Exchange of contracts',
+        order: 4,
+        isRequired: true,
+      },
+      {
+        transactionId: transaction.id,
+        title: 'Completion',
+        description: 'Transaction completion',
+        order: 5,
+        isRequired: true,
+      },
+    ],
+  });
+
+  await prisma.transactionStatusHistory.create({
+    data: {
+      transactionId: transaction.id,
+      previousStatus: 'DRAFT',
+      newStatus: 'PENDING',
+      changedById: buyerUser.id,
+      reason: 'Offer submitted',
+    },
+  });
+
+  await prisma.transactionDocument.create({
+    data: {
+      transactionId: transaction.id,
+      uploadedById: buyerUser.id,
+      type: 'PROOF_OF_FUNDS',
+      status: 'UPLOADED',
+      title: 'Mortgage Agreement in Principle',
+      fileName: 'mortgage-aip.pdf',
+      fileUrl: 'https://example.com/documents/mortgage-aip.pdf',
+      fileSize: 180000,
+      mimeType: 'application/pdf',
+    },
+  });
+
+  await prisma.transactionMessage.create({
+    data: {
+      transactionId: transaction.id,
+      senderId: buyerUser.id,
+      recipientId: agentUser.id,
+      subject: 'Viewing follow-up',
+      content: 'Thank you for the viewing. Is the seller flexible on the completion date?',
+    },
+  });
+
   console.log('✅ Created transaction and offer');
 
   // Create sample notifications
@@ -338,6 +544,81 @@ async function main() {
 
   console.log('✅ Created notifications');
 
+  // Create GDPR consent records and search history
+  await prisma.consentRecord.createMany({
+    data: [adminUser, agentUser, buyerUser].flatMap((user) => [
+      {
+        userId: user.id,
+        consentType: 'DATA_PROCESSING',
+        granted: true,
+        grantedAt: new Date(),
+        version: '1.0',
+      },
+      {
+        userId: user.id,
+        consentType: 'MARKETING',
+        granted: false,
+        revokedAt: new Date(),
+        version: '1.0',
+      },
+    ]),
+  });
+
+  await prisma.searchLog.create({
+    data: {
+      userId: buyerUser.id,
+      query: 'apartment berlin',
+      filters: JSON.stringify({ city: 'Berlin', propertyType: ['APARTMENT'], priceMax: 500000 }),
+      resultCount: 1,
+    },
+  });
+
+  console.log('✅ Created consent records and search history');
+
+  // District boundaries for area search (simplified outlines, [longitude, latitude])
+  const geoAreas = [
+    {
+      slug: 'de-berlin-mitte',
+      name: 'Mitte',
+      country: 'DE',
+      city: 'Berlin',
+      coordinates: [[13.3300, 52.5020], [13.4290, 52.5020], [13.4290, 52.5500], [13.3300, 52.5500]],
+    },
+    {
+      slug: 'de-berlin-friedrichshain-kreuzberg',
+      name: 'Friedrichshain-Kreuzberg',
+      country: 'DE',
+      city: 'Berlin',
+      coordinates: [[13.3820, 52.4830], [13.4900, 52.4830], [13.4900, 52.5250], [13.3820, 52.5020]],
+    },
+    {
+      slug: 'de-munich-altstadt-lehel',
+      name: 'Altstadt-Lehel',
+      country: 'DE',
+      city: 'Munich',
+      coordinates: [[11.5600, 48.1280], [11.6000, 48.1280], [11.6000, 48.1470], [11.5600, 48.1470]],
+    },
+    {
+      slug: 'de-hamburg-mitte',
+      name: 'Hamburg-Mitte',
+      country: 'DE',
+      city: 'Hamburg',
+      coordinates: [[9.9600, 53.5300], [10.0500, 53.5300], [10.0500, 53.5700], [9.9600, 53.5700]],
+    },
+  ];
+
+  for (const { coordinates, ...area } of geoAreas) {
+    const boundary = JSON.stringify({ type: 'Polygon', coordinates: [[...coordinates, coordinates[0]]] });
+
+    await prisma.geoArea.upsert({
+      where: { slug: area.slug },
+      update: { boundary },
+      create: { ...area, kind: 'DISTRICT', boundary },
+    });
+  }
+
+  console.log('✅ Created district boundaries');
+
   console.log('🎉 Database seeding completed successfully!');
   console.log('');
   console.log('📊 Test accounts created:');
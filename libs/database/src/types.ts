@@ -1,4 +1,4 @@
-import type { Prisma } from '@prisma/client';
+import type { Prisma } from './generated/client';
 import type {
   User,
   UserProfile,
@@ -19,6 +19,8 @@ import type {
   Notification,
   Review,
   AuditLog,
+} from './generated/client';
+import type {
   UserRole,
   PropertyType,
   ListingType,
@@ -26,7 +28,8 @@ import type {
   TransactionStatus,
   NotificationType,
   NotificationStatus,
-} from '@prisma/client';
+} from './enums';
+import type { GeoShape } from './geo';
 
 // Re-export all Prisma types
 export type {
@@ -86,6 +89,7 @@ export interface TransactionWithDetails extends Transaction {
 export interface PropertySearchFilters {
   propertyType?: PropertyType[];
   listingType?: ListingType;
+  // In euros, compared against each listing's converted price
   minPrice?: number;
   maxPrice?: number;
   minBedrooms?: number;
@@ -107,6 +111,7 @@ export interface PropertySearchFilters {
     airConditioning?: boolean;
   };
   amenities?: string[];
+  polygon?: GeoShape;
 }
 
 export interface PropertySearchResult {
@@ -0,0 +1,453 @@
+import { decodeGeohashBounds } from '@eu-real-estate/database';
+import { elasticsearchClient } from '../elasticsearch';
+import {
+  PropertySearchQuery,
+  PropertySearchResult,
+  PropertySearchAggregations,
+  PropertyIndexDocument,
+  PropertyMapQuery,
+  PropertyMapResult,
+  SearchSuggestQuery,
+  SearchSuggestion,
+  SearchSuggestions,
+  PROPERTY_INDEX_MAPPINGS,
+} from '../types';
+import {
+  SearchBackend,
+  IndexBuild,
+  PRICE_RANGE_BUCKETS,
+  AGGREGATED_FEATURES,
+  TEXT_SEARCH_FIELDS,
+  DEFAULT_SEARCH_LIMIT,
+  MAP_PIN_ZOOM,
+  MAP_MAX_PINS,
+  getMapPrecision,
+  toPropertySearchHit,
+  toPropertyMapPin,
+  sortMapClusters,
+  DEFAULT_SUGGEST_LIMIT,
+  buildSearchSuggestions,
+} from './search-backend';
+
+// Bucket keys are matched against the typed text again, which drops some, so
+// each suggestion group asks for more buckets than it returns
+const SUGGEST_BUCKET_FACTOR = 4;
+
+// Index fields sorted on where they differ from the sortBy name: prices sort in
+// euros, and titles on their keyword field since the text field is analyzed
+const SORT_FIELDS: Partial<Record<NonNullable<PropertySearchQuery['sortBy']>, string>> = {
+  price: 'priceEur',
+  title: 'title.keyword',
+};
+
+/**
+ * Search backend backed by an Elasticsearch cluster.
+ *
+ * Reads and incremental writes go through an alias that points at one
+ * versioned index (properties_v<timestamp>), so a rebuild can fill a new
+ * index and swap the alias without searches ever seeing a partial index.
+ */
+export class ElasticsearchSearchBackend implements SearchBackend {
+  readonly type = 'elasticsearch' as const;
+  readonly persistent = true;
+
+  constructor(private readonly alias: string = 'properties') {}
+
+  async initialize(): Promise<void> {
+    await elasticsearchClient.connect();
+
+    // Clusters indexed before aliases were used keep their index until the first rebuild
+    if (await elasticsearchClient.indexExists(this.alias)) return;
+
+    const indexName = this.createIndexName();
+    await elasticsearchClient.createIndex(indexName, PROPERTY_INDEX_MAPPINGS);
+    await elasticsearchClient.swapAlias(this.alias, indexName);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return elasticsearchClient.healthCheck();
+  }
+
+  async indexDocuments(documents: PropertyIndexDocument[]): Promise<void> {
+    await this.writeDocuments(this.alias, documents);
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    try {
+      await elasticsearchClient.deleteDocument(this.alias, id);
+    } catch (error: any) {
+      // Already gone, e.g. a listing that was never indexed
+      if (error?.meta?.statusCode !== 404) throw error;
+    }
+  }
+
+  async getActiveIndex(): Promise<string | null> {
+    const [indexName] = await elasticsearchClient.getAliasIndices(this.alias);
+    if (indexName) return indexName;
+
+    return (await elasticsearchClient.indexExists(this.alias)) ? this.alias : null;
+  }
+
+  async beginRebuild(): Promise<IndexBuild> {
+    const indexName = this.createIndexName();
+    await elasticsearchClient.createIndex(indexName, PROPERTY_INDEX_MAPPINGS);
+
+    return {
+      indexName,
+      indexDocuments: documents => this.writeDocuments(indexName, documents),
+      commit: async () => {
+        const previous = await elasticsearchClient.swapAlias(this.alias, indexName);
+        await Promise.all(previous.map(index => elasticsearchClient.deleteIndex(index)));
+      },
+      abort: () => elasticsearchClient.deleteIndex(indexName),
+    };
+  }
+
+  async search(query: PropertySearchQuery): Promise<PropertySearchResult> {
+    const page = query.page || 1;
+    const limit = query.limit || DEFAULT_SEARCH_LIMIT;
+
+    const response = await elasticsearchClient.search(this.alias, this.buildQuery(query, (page - 1) * limit, limit));
+
+    const total = response.hits.total.value;
+
+    return {
+      properties: response.hits.hits.map((hit: any) => toPropertySearchHit(hit._source, hit._score ?? undefined)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      aggregations: response.aggregations ? this.parseAggregations(response.aggregations) : undefined,
+    };
+  }
+
+  async searchMap(query: PropertyMapQuery): Promise<PropertyMapResult> {
+    const { zoom, bounds } = query;
+    const showPins = zoom >= MAP_PIN_ZOOM;
+    const precision = getMapPrecision(zoom);
+
+    const esQuery = this.buildQuery(query, 0, showPins ? MAP_MAX_PINS : 0);
+    esQuery.track_total_hits = true;
+    esQuery.query.bool.filter.push({
+      geo_bounding_box: {
+        location: {
+          top_left: { lat: bounds.north, lon: bounds.west },
+          bottom_right: { lat: bounds.south, lon: bounds.east },
+        },
+      },
+    });
+    esQuery.aggs = showPins ? undefined : {
+      clusters: {
+        geohash_grid: { field: 'location', precision },
+        aggs: {
+          centroid: { geo_centroid: { field: 'location' } },
+          priceMin: { min: { field: 'priceEur' } },
+          priceMax: { max: { field: 'priceEur' } },
+        },
+      },
+    };
+
+    const response = await elasticsearchClient.search(this.alias, esQuery);
+    const total = response.hits.total.value;
+
+    if (showPins) {
+      return {
+        zoom,
+        precision: null,
+        total,
+        clusters: [],
+        pins: response.hits.hits.map((hit: any) => toPropertyMapPin(hit._source)),
+      };
+    }
+
+    return {
+      zoom,
+      precision,
+      total,
+      clusters: sortMapClusters((response.aggregations?.clusters?.buckets || []).map((bucket: any) => ({
+        geohash: bucket.key,
+        count: bucket.doc_count,
+        location: bucket.centroid.location,
+        bounds: decodeGeohashBounds(bucket.key),
+        priceMin: bucket.priceMin.value,
+        priceMax: bucket.priceMax.value,
+      }))),
+      pins: [],
+    };
+  }
+
+  async suggest(query: SearchSuggestQuery): Promise<SearchSuggestions> {
+    const size = (query.limit || DEFAULT_SUGGEST_LIMIT) * SUGGEST_BUCKET_FACTOR;
+
+    // Word prefixes are indexed on the .suggest subfields; typos get AUTO:4,7 edits past the first letter
+    const matchPrefix = (field: string) => ({
+      match: {
+        [field]: { query: query.text, operator: 'and', fuzziness: 'AUTO:4,7', prefix_length: 1 },
+      },
+    });
+    const countTerms = (filterField: string, field: string, detailField?: string) => ({
+      filter: matchPrefix(filterField),
+      aggs: {
+        values: {
+          terms: { field, size },
+          aggs: detailField ? { details: { terms: { field: detailField, size: 5 } } } : undefined,
+        },
+      },
+    });
+
+    const filter: any[] = [{ term: { status: 'ACTIVE' } }];
+    if (query.country) filter.push({ term: { 'address.country': query.country } });
+
+    const response = await elasticsearchClient.search(this.alias, {
+      size,
+      _source: ['id', 'title', 'address.city'],
+      query: { bool: { filter } },
+      // Title hits are narrowed after the aggregations so the counts cover every active listing
+      post_filter: matchPrefix('title.suggest'),
+      sort: [{ viewCount: 'desc' }],
+      aggs: {
+        cities: countTerms('address.city.suggest', 'address.city.keyword', 'address.country'),
+        postcodes: countTerms('address.postcode.suggest', 'address.postcode', 'address.city.keyword'),
+        streets: countTerms('address.street.suggest', 'address.street.keyword', 'address.city.keyword'),
+        tags: countTerms('tags.suggest', 'tags'),
+      },
+    });
+
+    // One candidate per value, or per value and city/country when the detail is known
+    const fromBuckets = (aggregation: any, toSuggestion: (key: string, count: number, detail?: string) => SearchSuggestion) =>
+      (aggregation?.values?.buckets || []).flatMap((bucket: any) =>
+        bucket.details?.buckets?.length
+          ? bucket.details.buckets.map((detail: any) => toSuggestion(bucket.key, detail.doc_count, detail.key))
+          : [toSuggestion(bucket.key, bucket.doc_count)]
+      );
+
+    const aggregations = response.aggregations || {};
+    const candidates: SearchSuggestion[] = [
+      ...fromBuckets(aggregations.cities, (value, count, country) => ({ type: 'city', value, count, country })),
+      ...fromBuckets(aggregations.postcodes, (value, count, city) => ({ type: 'postcode', value, count, city })),
+      ...fromBuckets(aggregations.streets, (value, count, city) => ({ type: 'street', value, count, city })),
+      ...fromBuckets(aggregations.tags, (value, count) => ({ type: 'tag', value, count })),
+      ...response.hits.hits.map((hit: any) => ({
+        type: 'title' as const,
+        value: hit._source.title,
+        count: 1,
+        city: hit._source.address?.city,
+        propertyId: hit._source.id,
+      })),
+    ];
+
+    return buildSearchSuggestions(candidates, query);
+  }
+
+  private async writeDocuments(indexName: string, documents: PropertyIndexDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+
+    if (documents.length === 1) {
+      await elasticsearchClient.indexDocument(indexName, documents[0].id, documents[0]);
+      return;
+    }
+
+    await elasticsearchClient.bulkIndex(
+      indexName,
+      documents.map(document => ({ id: document.id, document }))
+    );
+  }
+
+  private createIndexName(): string {
+    return `${this.alias}_v${Date.now()}`;
+  }
+
+  /**
+   * Translate a search query into the Elasticsearch query DSL
+   */
+  private buildQuery(query: PropertySearchQuery, from: number, size: number): any {
+    const esQuery: any = {
+      from,
+      size,
+      query: {
+        bool: {
+          must: [
+            { term: { status: 'ACTIVE' } },
+          ],
+          filter: [],
+        },
+      },
+      sort: [],
+      aggs: {
+        propertyTypes: {
+          terms: { field: 'propertyType' },
+        },
+        listingTypes: {
+          terms: { field: 'listingType' },
+        },
+        priceRanges: {
+          range: {
+            field: 'priceEur',
+            ranges: PRICE_RANGE_BUCKETS,
+          },
+        },
+        cities: {
+          terms: { field: 'address.city.keyword', size: 20 },
+        },
+        countries: {
+          terms: { field: 'address.country', size: 20 },
+        },
+        features: {
+          filters: {
+            filters: Object.fromEntries(
+              AGGREGATED_FEATURES.map(feature => [feature, { term: { [`features.${feature}`]: true } }])
+            ),
+          },
+        },
+        amenities: {
+          terms: { field: 'amenities', size: 20 },
+        },
+      },
+    };
+
+    // Add text search if provided
+    if (query.query) {
+      esQuery.query.bool.must.push({
+        multi_match: {
+          query: query.query,
+          fields: TEXT_SEARCH_FIELDS.map(({ field, boost }) => (boost === 1 ? field : `${field}^${boost}`)),
+          fuzziness: 'AUTO',
+        },
+      });
+    }
+
+    // Add property type filter
+    if (query.propertyType && query.propertyType.length > 0) {
+      esQuery.query.bool.filter.push({
+        terms: { propertyType: query.propertyType },
+      });
+    }
+
+    // Add listing type filter
+    if (query.listingType) {
+      esQuery.query.bool.filter.push({
+        term: { listingType: query.listingType },
+      });
+    }
+
+    // Add range filters
+    const ranges: Array<[string, number | undefined, number | undefined]> = [
+      ['priceEur', query.priceMin, query.priceMax],
+      ['bedrooms', query.bedroomsMin, query.bedroomsMax],
+      ['bathrooms', query.bathroomsMin, query.bathroomsMax],
+      ['floorArea', query.floorAreaMin, query.floorAreaMax],
+    ];
+
+    ranges.forEach(([field, min, max]) => {
+      if (min || max) {
+        const range: any = {};
+        if (min) range.gte = min;
+        if (max) range.lte = max;
+
+        esQuery.query.bool.filter.push({
+          range: { [field]: range },
+        });
+      }
+    });
+
+    // Add location filter
+    if (query.country) {
+      esQuery.query.bool.filter.push({
+        term: { 'address.country': query.country },
+      });
+    }
+
+    if (query.city) {
+      esQuery.query.bool.filter.push({
+        match: { 'address.city': query.city },
+      });
+    }
+
+    // Add geo distance filter if location provided
+    if (query.location && query.radius) {
+      esQuery.query.bool.filter.push({
+        geo_distance: {
+          distance: `${query.radius}km`,
+          location: {
+            lat: query.location.lat,
+            lon: query.location.lon,
+          },
+        },
+      });
+    }
+
+    // Add area filter; geo_shape queries accept GeoJSON against geo_point fields
+    if (query.polygon) {
+      esQuery.query.bool.filter.push({
+        geo_shape: {
+          location: {
+            shape: query.polygon,
+            relation: 'intersects',
+          },
+        },
+      });
+    }
+
+    // Add feature filters
+    if (query.features) {
+      Object.entries(query.features).forEach(([feature, value]) => {
+        if (value !== undefined) {
+          esQuery.query.bool.filter.push({
+            term: { [`features.${feature}`]: value },
+          });
+        }
+      });
+    }
+
+    // Add amenities filter
+    if (query.amenities && query.amenities.length > 0) {
+      esQuery.query.bool.filter.push({
+        terms: { amenities: query.amenities },
+      });
+    }
+
+    // Add sorting, with the id as tie-breaker so pages are stable
+    if (query.sortBy) {
+      esQuery.sort.push({ [SORT_FIELDS[query.sortBy] || query.sortBy]: query.sortOrder || 'desc' });
+    } else {
+      // Default sort by date
+      esQuery.sort.push({ updatedAt: 'desc' });
+    }
+    esQuery.sort.push({ id: 'asc' });
+
+    return esQuery;
+  }
+
+  private parseAggregations(aggs: any): PropertySearchAggregations {
+    const parseBuckets = (agg: any) =>
+      (agg?.buckets || []).map((bucket: any) => ({ key: bucket.key, count: bucket.doc_count }));
+
+    return {
+      propertyTypes: this.parseTermsAggregation(aggs.propertyTypes),
+      listingTypes: this.parseTermsAggregation(aggs.listingTypes),
+      priceRanges: (aggs.priceRanges?.buckets || []).map((bucket: any) => ({
+        from: bucket.from,
+        to: bucket.to,
+        count: bucket.doc_count,
+      })),
+      cities: parseBuckets(aggs.cities),
+      countries: parseBuckets(aggs.countries),
+      features: Object.fromEntries(
+        AGGREGATED_FEATURES.map(feature => [feature, aggs.features?.buckets?.[feature]?.doc_count || 0])
+      ),
+      amenities: parseBuckets(aggs.amenities),
+    };
+  }
+
+  private parseTermsAggregation(agg: any): Record<string, number> {
+    const result: Record<string, number> = {};
+
+    if (agg && agg.buckets) {
+      agg.buckets.forEach((bucket: any) => {
+        result[bucket.key] = bucket.doc_count;
+      });
+    }
+
+    return result;
+  }
+}
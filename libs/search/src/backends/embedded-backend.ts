@@ -0,0 +1,381 @@
+import { isPointInShape, isPointInBounds } from '@eu-real-estate/database';
+import {
+  PropertySearchQuery,
+  PropertySearchResult,
+  PropertySearchAggregations,
+  PropertyIndexDocument,
+  PropertyMapQuery,
+  PropertyMapResult,
+  SearchSuggestQuery,
+  SearchSuggestions,
+} from '../types';
+import {
+  SearchBackend,
+  IndexBuild,
+  PRICE_RANGE_BUCKETS,
+  AGGREGATED_FEATURES,
+  TEXT_SEARCH_FIELDS,
+  DEFAULT_SEARCH_LIMIT,
+  toPropertySearchHit,
+  toPropertyMapPin,
+  buildPropertyMap,
+  toSuggestionCandidates,
+  buildSearchSuggestions,
+  analyzeText,
+  editDistance,
+} from './search-backend';
+
+interface FieldIndex {
+  postings: Map<string, Map<string, number>>; // token -> document id -> term frequency
+  lengths: Map<string, number>; // document id -> token count
+  totalLength: number;
+}
+
+// BM25 parameters, as used by Elasticsearch
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * In-process search backend for local development and CI.
+ *
+ * Documents live in an inverted index in memory and are rebuilt from the
+ * database on start. Queries follow the Elasticsearch backend: the same
+ * analyzer (lowercase and ASCII folding), multi-field matching with boosts
+ * and AUTO fuzziness, BM25 scoring, filters, sorting and aggregations.
+ */
+export class EmbeddedSearchBackend implements SearchBackend {
+  readonly type = 'embedded' as const;
+  readonly persistent = false;
+
+  private documents = new Map<string, PropertyIndexDocument>();
+  private fields = new Map<string, FieldIndex>();
+  private version = 1;
+
+  async initialize(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  async indexDocuments(documents: PropertyIndexDocument[]): Promise<void> {
+    documents.forEach(document => {
+      this.removeDocument(document.id);
+      this.documents.set(document.id, document);
+
+      TEXT_SEARCH_FIELDS.forEach(({ field }) => {
+        const tokens = analyzeText(this.getFieldValue(document, field));
+        const index = this.getFieldIndex(field);
+
+        tokens.forEach(token => {
+          const postings = index.postings.get(token) || new Map<string, number>();
+          postings.set(document.id, (postings.get(document.id) || 0) + 1);
+          index.postings.set(token, postings);
+        });
+        index.lengths.set(document.id, tokens.length);
+        index.totalLength += tokens.length;
+      });
+    });
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    this.removeDocument(id);
+  }
+
+  async getActiveIndex(): Promise<string | null> {
+    return `embedded_v${this.version}`;
+  }
+
+  async beginRebuild(): Promise<IndexBuild> {
+    const next = new EmbeddedSearchBackend();
+
+    return {
+      indexName: `embedded_v${this.version + 1}`,
+      indexDocuments: documents => next.indexDocuments(documents),
+      commit: async () => {
+        this.documents = next.documents;
+        this.fields = next.fields;
+        this.version++;
+      },
+      abort: async () => undefined,
+    };
+  }
+
+  async search(query: PropertySearchQuery): Promise<PropertySearchResult> {
+    const page = query.page || 1;
+    const limit = query.limit || DEFAULT_SEARCH_LIMIT;
+
+    const scores = query.query ? this.scoreText(query.query) : null;
+
+    const matches = Array.from(this.documents.values())
+      .filter(document => !scores || scores.has(document.id))
+      .filter(document => this.matchesFilters(document, query));
+
+    const sorted = this.sort(matches, query, scores);
+    const total = sorted.length;
+    // Like Elasticsearch, scores are only reported when results are ordered by them
+    const reportScores = scores && query.sortBy === '_score';
+
+    return {
+      properties: sorted
+        .slice((page - 1) * limit, page * limit)
+        .map(document => toPropertySearchHit(document, reportScores ? scores.get(document.id) : undefined)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      aggregations: this.aggregate(matches),
+    };
+  }
+
+  async searchMap(query: PropertyMapQuery): Promise<PropertyMapResult> {
+    const scores = query.query ? this.scoreText(query.query) : null;
+
+    const matches = Array.from(this.documents.values())
+      .filter(document => !scores || scores.has(document.id))
+      .filter(document => this.matchesFilters(document, query))
+      .filter((document): document is PropertyIndexDocument & { location: { lat: number; lon: number } } =>
+        !!document.location && isPointInBounds(document.location.lat, document.location.lon, query.bounds)
+      );
+
+    return buildPropertyMap(this.sort(matches, {}, null).map(toPropertyMapPin), query.zoom);
+  }
+
+  async suggest(query: SearchSuggestQuery): Promise<SearchSuggestions> {
+    const candidates = Array.from(this.documents.values())
+      .filter(document => document.status === 'ACTIVE')
+      .filter(document => !query.country || document.address.country === query.country)
+      .flatMap(toSuggestionCandidates);
+
+    return buildSearchSuggestions(candidates, query);
+  }
+
+  /**
+   * Score documents against a free-text query.
+   * A document's score is its best field score, as in a best_fields multi_match.
+   */
+  private scoreText(text: string): Map<string, number> {
+    const terms = analyzeText(text);
+    const scores = new Map<string, number>();
+
+    TEXT_SEARCH_FIELDS.forEach(({ field, boost }) => {
+      const index = this.fields.get(field);
+      if (!index) return;
+
+      const fieldScores = new Map<string, number>();
+      const averageLength = index.totalLength / Math.max(index.lengths.size, 1);
+
+      terms.forEach(term => {
+        // Each term scores through its best matching token per document
+        const termScores = new Map<string, number>();
+
+        this.expandTerm(term, index).forEach((similarity, token) => {
+          const postings = index.postings.get(token)!;
+          const idf = Math.log(1 + (this.documents.size - postings.size + 0.5) / (postings.size + 0.5));
+
+          postings.forEach((frequency, id) => {
+            const length = index.lengths.get(id) || 0;
+            const tf = (frequency * (BM25_K1 + 1)) /
+              (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (length / (averageLength || 1))));
+            const score = similarity * idf * tf;
+
+            if (score > (termScores.get(id) || 0)) termScores.set(id, score);
+          });
+        });
+
+        termScores.forEach((score, id) => fieldScores.set(id, (fieldScores.get(id) || 0) + score));
+      });
+
+      fieldScores.forEach((score, id) => {
+        scores.set(id, Math.max(scores.get(id) || 0, score * boost));
+      });
+    });
+
+    return scores;
+  }
+
+  /**
+   * Tokens in the field within the AUTO fuzziness of the term, weighted by similarity
+   */
+  private expandTerm(term: string, index: FieldIndex): Map<string, number> {
+    const maxEdits = term.length < 3 ? 0 : term.length <= 5 ? 1 : 2;
+    const matches = new Map<string, number>();
+
+    if (maxEdits === 0) {
+      if (index.postings.has(term)) matches.set(term, 1);
+      return matches;
+    }
+
+    index.postings.forEach((_postings, token) => {
+      if (Math.abs(token.length - term.length) > maxEdits) return;
+
+      const distance = editDistance(term, token, maxEdits);
+      if (distance <= maxEdits) {
+        matches.set(token, 1 - distance / Math.max(term.length, token.length));
+      }
+    });
+
+    return matches;
+  }
+
+  private matchesFilters(document: PropertyIndexDocument, query: PropertySearchQuery): boolean {
+    if (document.status !== 'ACTIVE') return false;
+
+    if (query.propertyType && query.propertyType.length > 0 &&
+      !query.propertyType.includes(document.propertyType as any)) {
+      return false;
+    }
+
+    if (query.listingType && document.listingType !== query.listingType) return false;
+
+    const ranges: Array<[number | undefined, number | undefined, number | undefined]> = [
+      [document.priceEur, query.priceMin, query.priceMax],
+      [document.bedrooms, query.bedroomsMin, query.bedroomsMax],
+      [document.bathrooms, query.bathroomsMin, query.bathroomsMax],
+      [document.floorArea, query.floorAreaMin, query.floorAreaMax],
+    ];
+
+    for (const [value, min, max] of ranges) {
+      if (!min && !max) continue;
+      // Documents without the field never match a range
+      if (value === undefined || value === null) return false;
+      if (min && value < min) return false;
+      if (max && value > max) return false;
+    }
+
+    if (query.country && document.address.country !== query.country) return false;
+
+    if (query.city) {
+      const cityTokens = analyzeText(document.address.city);
+      if (!analyzeText(query.city).some(token => cityTokens.includes(token))) return false;
+    }
+
+    if (query.location && query.radius) {
+      if (!document.location) return false;
+      if (this.distanceKm(query.location, document.location) > query.radius) return false;
+    }
+
+    if (query.polygon) {
+      if (!document.location) return false;
+      if (!isPointInShape(document.location.lat, document.location.lon, query.polygon)) return false;
+    }
+
+    if (query.features) {
+      for (const [feature, value] of Object.entries(query.features)) {
+        if (value !== undefined && document.features[feature] !== value) return false;
+      }
+    }
+
+    if (query.amenities && query.amenities.length > 0 &&
+      !document.amenities.some(amenity => query.amenities!.includes(amenity))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private sort<T extends PropertyIndexDocument>(
+    documents: T[],
+    query: PropertySearchQuery,
+    scores: Map<string, number> | null
+  ): T[] {
+    // Prices sort in euros so listings in other currencies interleave correctly
+    const sortBy = query.sortBy === 'price' ? 'priceEur' : query.sortBy || 'updatedAt';
+    const direction = (query.sortBy ? query.sortOrder || 'desc' : 'desc') === 'asc' ? 1 : -1;
+
+    const valueOf = (document: PropertyIndexDocument): number | string | undefined => {
+      if (sortBy === '_score') return scores?.get(document.id) ?? 0;
+      return document[sortBy] ?? undefined;
+    };
+
+    return [...documents].sort((a, b) => {
+      const left = valueOf(a);
+      const right = valueOf(b);
+
+      if (left !== right) {
+        // Documents without the sort field go last in either direction
+        if (left === undefined) return 1;
+        if (right === undefined) return -1;
+        return (left < right ? -1 : 1) * direction;
+      }
+
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    });
+  }
+
+  private aggregate(documents: PropertyIndexDocument[]): PropertySearchAggregations {
+    const countTerms = (values: string[], size: number) => {
+      const counts = new Map<string, number>();
+      values.filter(Boolean).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+      return Array.from(counts.entries())
+        .sort(([keyA, countA], [keyB, countB]) => countB - countA || (keyA < keyB ? -1 : 1))
+        .slice(0, size)
+        .map(([key, count]) => ({ key, count }));
+    };
+
+    const toRecord = (buckets: Array<{ key: string; count: number }>) =>
+      Object.fromEntries(buckets.map(({ key, count }) => [key, count]));
+
+    return {
+      propertyTypes: toRecord(countTerms(documents.map(document => document.propertyType), 10)),
+      listingTypes: toRecord(countTerms(documents.map(document => document.listingType), 10)),
+      priceRanges: PRICE_RANGE_BUCKETS.map(({ from, to }) => ({
+        from,
+        to,
+        count: documents.filter(document =>
+          document.priceEur !== undefined &&
+          (from === undefined || document.priceEur >= from) && (to === undefined || document.priceEur < to)
+        ).length,
+      })),
+      cities: countTerms(documents.map(document => document.address.city), 20),
+      countries: countTerms(documents.map(document => document.address.country), 20),
+      features: Object.fromEntries(
+        AGGREGATED_FEATURES.map(feature => [
+          feature,
+          documents.filter(document => document.features[feature] === true).length,
+        ])
+      ),
+      amenities: countTerms(documents.flatMap(document => document.amenities), 20),
+    };
+  }
+
+  private removeDocument(id: string): void {
+    if (!this.documents.delete(id)) return;
+
+    this.fields.forEach(index => {
+      index.postings.forEach((postings, token) => {
+        if (postings.delete(id) && postings.size === 0) index.postings.delete(token);
+      });
+      index.totalLength -= index.lengths.get(id) || 0;
+      index.lengths.delete(id);
+    });
+  }
+
+  private getFieldIndex(field: string): FieldIndex {
+    let index = this.fields.get(field);
+    if (!index) {
+      index = { postings: new Map(), lengths: new Map(), totalLength: 0 };
+      this.fields.set(field, index);
+    }
+    return index;
+  }
+
+  private getFieldValue(document: PropertyIndexDocument, field: string): string {
+    const value = field.split('.').reduce<any>((current, key) => current?.[key], document);
+    return typeof value === 'string' ? value : '';
+  }
+
+  private distanceKm(from: { lat: number; lon: number }, to: { lat: number; lon: number }): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(to.lat - from.lat);
+    const dLon = toRadians(to.lon - from.lon);
+    const a = Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  }
+}
@@ -0,0 +1,23 @@
+import { SearchBackend, SearchBackendType } from './search-backend';
+import { ElasticsearchSearchBackend } from './elasticsearch-backend';
+import { EmbeddedSearchBackend } from './embedded-backend';
+
+export * from './search-backend';
+export { ElasticsearchSearchBackend } from './elasticsearch-backend';
+export { EmbeddedSearchBackend } from './embedded-backend';
+
+const SEARCH_BACKEND_TYPES: SearchBackendType[] = ['elasticsearch', 'embedded'];
+
+/**
+ * Create the backend named by SEARCH_BACKEND (defaults to Elasticsearch)
+ */
+export function createSearchBackend(type: string = process.env.SEARCH_BACKEND || 'elasticsearch'): SearchBackend {
+  switch (type) {
+    case 'elasticsearch':
+      return new ElasticsearchSearchBackend();
+    case 'embedded':
+      return new EmbeddedSearchBackend();
+    default:
+      throw new Error(`Unknown search backend "${type}", expected one of: ${SEARCH_BACKEND_TYPES.join(', ')}`);
+  }
+}
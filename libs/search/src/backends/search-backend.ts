@@ -0,0 +1,379 @@
+import { PropertyType, ListingType, encodeGeohash, decodeGeohashBounds } from '@eu-real-estate/database';
+import {
+  PropertySearchQuery,
+  PropertySearchResult,
+  PropertySearchHit,
+  PropertyIndexDocument,
+  PropertyMapQuery,
+  PropertyMapResult,
+  PropertyMapCluster,
+  PropertyMapPin,
+  SearchSuggestQuery,
+  SearchSuggestion,
+  SearchSuggestions,
+} from '../types';
+
+export type SearchBackendType = 'elasticsearch' | 'embedded';
+
+/**
+ * A new index being filled next to the live one. Searches keep using the
+ * live index until commit switches them over in a single step.
+ */
+export interface IndexBuild {
+  readonly indexName: string;
+  indexDocuments(documents: PropertyIndexDocument[]): Promise<void>;
+  commit(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+/**
+ * Storage and query engine behind PropertySearchService.
+ *
+ * Every backend answers the same PropertySearchQuery with the same
+ * PropertySearchResult, so callers get identical filters, sorting,
+ * paging and aggregations whichever backend is configured.
+ */
+export interface SearchBackend {
+  readonly type: SearchBackendType;
+
+  // Whether documents survive a restart; in-process backends are rebuilt from the database
+  readonly persistent: boolean;
+
+  initialize(): Promise<void>;
+  healthCheck(): Promise<boolean>;
+  indexDocuments(documents: PropertyIndexDocument[]): Promise<void>;
+  deleteDocument(id: string): Promise<void>;
+  search(query: PropertySearchQuery): Promise<PropertySearchResult>;
+
+  // Listings inside a map viewport, grouped into geohash clusters or as pins at close zoom
+  searchMap(query: PropertyMapQuery): Promise<PropertyMapResult>;
+
+  // Autocomplete for the search box: cities, postcodes, streets, tags and titles starting with the text
+  suggest(query: SearchSuggestQuery): Promise<SearchSuggestions>;
+
+  // Name of the index searches currently read from
+  getActiveIndex(): Promise<string | null>;
+  beginRebuild(): Promise<IndexBuild>;
+}
+
+// Price buckets reported in the priceRanges aggregation
+export const PRICE_RANGE_BUCKETS: Array<{ from?: number; to?: number }> = [
+  { to: 100000 },
+  { from: 100000, to: 200000 },
+  { from: 200000, to: 500000 },
+  { from: 500000, to: 1000000 },
+  { from: 1000000 },
+];
+
+// Features counted in the features aggregation
+export const AGGREGATED_FEATURES = ['garden', 'parking', 'furnished', 'petFriendly'] as const;
+
+// Fields matched by free-text queries, with their relevance boost
+export const TEXT_SEARCH_FIELDS: Array<{ field: string; boost: number }> = [
+  { field: 'title', boost: 3 },
+  { field: 'description', boost: 2 },
+  { field: 'address.street', boost: 1 },
+  { field: 'address.city', boost: 2 },
+  { field: 'address.country', boost: 1 },
+];
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+// Suggestions returned per group unless the query asks for fewer or more
+export const DEFAULT_SUGGEST_LIMIT = 5;
+
+// Letters that do not decompose under NFD but are folded by Elasticsearch's asciifolding
+const FOLDED_LETTERS: Record<string, string> = {
+  'ł': 'l', 'ø': 'o', 'đ': 'd', 'ħ': 'h', 'ı': 'i', 'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'þ': 'th',
+};
+
+const SUGGESTION_GROUPS: Record<SearchSuggestion['type'], keyof SearchSuggestions['groups']> = {
+  city: 'cities',
+  postcode: 'postcodes',
+  street: 'streets',
+  tag: 'tags',
+  title: 'titles',
+};
+
+// From this zoom level in, the map shows individual listings instead of clusters
+export const MAP_PIN_ZOOM = 15;
+
+// Most pins returned for one viewport
+export const MAP_MAX_PINS = 500;
+
+/**
+ * Geohash length to cluster by at a zoom level, so one cell covers roughly
+ * a quarter of a map tile
+ */
+export function getMapPrecision(zoom: number): number {
+  if (zoom <= 2) return 1;
+  if (zoom <= 4) return 2;
+  if (zoom <= 7) return 3;
+  if (zoom <= 9) return 4;
+  if (zoom <= 11) return 5;
+  if (zoom <= 13) return 6;
+  return 7;
+}
+
+/**
+ * Lowercase, fold accents and split into tokens, like the custom_analyzer of the Elasticsearch index
+ */
+export function analyzeText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[łøđħıßæœþ]/g, letter => FOLDED_LETTERS[letter])
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Damerau-Levenshtein distance (adjacent transpositions count once), capped at max + 1
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+
+      row[j] = value;
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+
+    if (rowMinimum > max) return max + 1;
+  }
+
+  return row[b.length];
+}
+
+/**
+ * Map an indexed document to the hit returned to callers
+ */
+export function toPropertySearchHit(document: PropertyIndexDocument, score?: number): PropertySearchHit {
+  return {
+    id: document.id,
+    title: document.title,
+    description: document.description,
+    price: document.price,
+    currency: document.currency,
+    propertyType: document.propertyType as PropertyType,
+    listingType: document.listingType as ListingType,
+    bedrooms: document.bedrooms,
+    bathrooms: document.bathrooms,
+    floorArea: document.floorArea,
+    address: document.address,
+    location: document.location,
+    features: document.features,
+    amenities: document.amenities,
+    tags: document.tags,
+    images: document.images,
+    owner: document.owner,
+    agents: document.agents,
+    createdAt: document.createdAt,
+    updatedAt: document.updatedAt,
+    score,
+  };
+}
+
+/**
+ * Map an indexed document with a location to a map pin
+ */
+export function toPropertyMapPin(
+  document: PropertyIndexDocument & { location: { lat: number; lon: number } }
+): PropertyMapPin {
+  const image = document.images.find(candidate => candidate.isMain) || document.images[0];
+
+  return {
+    id: document.id,
+    title: document.title,
+    price: document.price,
+    currency: document.currency,
+    priceEur: document.priceEur,
+    propertyType: document.propertyType as PropertyType,
+    listingType: document.listingType as ListingType,
+    bedrooms: document.bedrooms,
+    city: document.address.city,
+    image: image?.url,
+    location: document.location,
+  };
+}
+
+/**
+ * Build the map response from the matching listings inside the viewport, in
+ * the order pins should be returned. Backends without a geo aggregation of
+ * their own cluster with this, like Elasticsearch's geohash_grid.
+ */
+export function buildPropertyMap(pins: PropertyMapPin[], zoom: number): PropertyMapResult {
+  if (zoom >= MAP_PIN_ZOOM) {
+    return { zoom, precision: null, total: pins.length, clusters: [], pins: pins.slice(0, MAP_MAX_PINS) };
+  }
+
+  const precision = getMapPrecision(zoom);
+  const cells = new Map<string, PropertyMapPin[]>();
+
+  pins.forEach(pin => {
+    const geohash = encodeGeohash(pin.location.lat, pin.location.lon, precision);
+    cells.set(geohash, [...(cells.get(geohash) || []), pin]);
+  });
+
+  const clusters: PropertyMapCluster[] = Array.from(cells.entries()).map(([geohash, members]) => {
+    // Cluster price ranges are in euros; pins without a euro price only count when none have one
+    const euroPrices = members.map(pin => pin.priceEur).filter((price): price is number => price !== undefined);
+    const prices = euroPrices.length > 0 ? euroPrices : members.map(pin => pin.price);
+
+    return {
+      geohash,
+      count: members.length,
+      location: {
+        lat: members.reduce((sum, pin) => sum + pin.location.lat, 0) / members.length,
+        lon: members.reduce((sum, pin) => sum + pin.location.lon, 0) / members.length,
+      },
+      bounds: decodeGeohashBounds(geohash),
+      priceMin: Math.min(...prices),
+      priceMax: Math.max(...prices),
+    };
+  });
+
+  return {
+    zoom,
+    precision,
+    total: pins.length,
+    clusters: sortMapClusters(clusters),
+    pins: [],
+  };
+}
+
+/**
+ * Largest clusters first, as geohash_grid orders its buckets
+ */
+export function sortMapClusters(clusters: PropertyMapCluster[]): PropertyMapCluster[] {
+  return [...clusters].sort((a, b) => b.count - a.count || a.geohash.localeCompare(b.geohash));
+}
+
+/**
+ * Edits allowed when matching a typed word, matching the AUTO:4,7 fuzziness
+ * the Elasticsearch backend asks for
+ */
+function getSuggestEdits(term: string): number {
+  if (term.length < 4) return 0;
+  return term.length <= 6 ? 1 : 2;
+}
+
+/**
+ * Check whether a value matches the typed words: each word in order against
+ * consecutive words of the value, the last one as a prefix. Returns 'fuzzy'
+ * when a typo had to be tolerated; the first letter must always match.
+ */
+export function matchSuggestionText(value: string, terms: string[]): 'prefix' | 'fuzzy' | null {
+  const tokens = analyzeText(value);
+  let match: 'prefix' | 'fuzzy' | null = null;
+
+  for (let start = 0; start + terms.length <= tokens.length; start++) {
+    let fuzzy = false;
+
+    const matched = terms.every((term, offset) => {
+      const token = tokens[start + offset];
+      const isLast = offset === terms.length - 1;
+
+      if (isLast ? token.startsWith(term) : token === term) return true;
+
+      const maxEdits = getSuggestEdits(term);
+      if (maxEdits === 0 || token[0] !== term[0]) return false;
+
+      // A prefix with a letter missing or added still counts, e.g. "koeln" for "köln"
+      const candidates = isLast
+        ? [term.length - 1, term.length, term.length + 1].map(length => token.slice(0, length))
+        : [token];
+      if (!candidates.some(candidate => editDistance(term, candidate, maxEdits) <= maxEdits)) return false;
+
+      fuzzy = true;
+      return true;
+    });
+
+    if (matched && !fuzzy) return 'prefix';
+    if (matched) match = 'fuzzy';
+  }
+
+  return match;
+}
+
+/**
+ * Suggestions an indexed document offers, each counting one listing
+ */
+export function toSuggestionCandidates(
+  document: Pick<PropertyIndexDocument, 'id' | 'title' | 'address' | 'tags'>
+): SearchSuggestion[] {
+  const { street, city, postcode, country } = document.address;
+
+  const candidates: SearchSuggestion[] = [
+    { type: 'city', value: city, count: 1, country },
+    { type: 'postcode', value: postcode, count: 1, city },
+    { type: 'street', value: street, count: 1, city },
+    ...(document.tags || []).map(tag => ({ type: 'tag' as const, value: tag, count: 1 })),
+    { type: 'title', value: document.title, count: 1, city, propertyId: document.id },
+  ];
+
+  return candidates.filter(candidate => candidate.value);
+}
+
+/**
+ * Match suggestion candidates against the typed text and group them.
+ * Candidates for the same value are merged with their counts added up, so
+ * backends can pass one per listing or pre-counted buckets. Each group lists
+ * prefix matches before typo-tolerant ones, then by listing count.
+ */
+export function buildSearchSuggestions(candidates: SearchSuggestion[], query: SearchSuggestQuery): SearchSuggestions {
+  const terms = analyzeText(query.text);
+  const limit = query.limit || DEFAULT_SUGGEST_LIMIT;
+  const matches = new Map<string, { suggestion: SearchSuggestion; fuzzy: boolean }>();
+
+  if (terms.length > 0) {
+    candidates.forEach(candidate => {
+      const match = matchSuggestionText(candidate.value, terms);
+      if (!match) return;
+
+      // Spelling variants of a value ("Köln", "Koln") count as one suggestion
+      const key = [
+        candidate.type,
+        candidate.propertyId || analyzeText(candidate.value).join(' '),
+        candidate.country,
+        candidate.city && analyzeText(candidate.city).join(' '),
+      ].join('|');
+      const existing = matches.get(key);
+
+      if (existing) {
+        existing.suggestion.count += candidate.count;
+      } else {
+        matches.set(key, { suggestion: { ...candidate }, fuzzy: match === 'fuzzy' });
+      }
+    });
+  }
+
+  const groups: SearchSuggestions['groups'] = { cities: [], postcodes: [], streets: [], tags: [], titles: [] };
+
+  Array.from(matches.values())
+    .sort((a, b) =>
+      Number(a.fuzzy) - Number(b.fuzzy) ||
+      b.suggestion.count - a.suggestion.count ||
+      a.suggestion.value.localeCompare(b.suggestion.value)
+    )
+    .forEach(({ suggestion }) => {
+      const group = groups[SUGGESTION_GROUPS[suggestion.type]];
+      if (group.length < limit) group.push(suggestion);
+    });
+
+  return { text: query.text, country: query.country, groups };
+}
@@ -77,6 +77,19 @@ class ElasticsearchClient {
                     tokenizer: 'standard',
                     filter: ['lowercase', 'asciifolding'],
                   },
+                  // Indexes every word prefix for autocomplete
+                  suggest_analyzer: {
+                    type: 'custom',
+                    tokenizer: 'standard',
+                    filter: ['lowercase', 'asciifolding', 'suggest_edge_ngram'],
+                  },
+                },
+                filter: {
+                  suggest_edge_ngram: {
+                    type: 'edge_ngram',
+                    min_gram: 1,
+                    max_gram: 20,
+                  },
                 },
               },
             },
@@ -104,6 +117,56 @@ class ElasticsearchClient {
     }
   }
 
+  public async indexExists(indexName: string): Promise<boolean> {
+    try {
+      return await this.client.indices.exists({ index: indexName });
+    } catch (error) {
+      logger.error(`Failed to check Elasticsearch index ${indexName}:`, error);
+      throw error;
+    }
+  }
+
+  public async getAliasIndices(alias: string): Promise<string[]> {
+    try {
+      const aliasExists = await this.client.indices.existsAlias({ name: alias });
+
+      if (!aliasExists) {
+        return [];
+      }
+
+      return Object.keys(await this.client.indices.getAlias({ name: alias }));
+    } catch (error) {
+      logger.error(`Failed to get indices for Elasticsearch alias ${alias}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Point an alias at a single index in one atomic step.
+   * Returns the indices the alias pointed at before.
+   */
+  public async swapAlias(alias: string, indexName: string): Promise<string[]> {
+    try {
+      const previous = (await this.getAliasIndices(alias)).filter(index => index !== indexName);
+      // An index created under the alias name before aliases were used is replaced in the same step
+      const legacyIndex = previous.length === 0 && await this.indexExists(alias);
+
+      await this.client.indices.updateAliases({
+        actions: [
+          ...previous.map(index => ({ remove: { index, alias } })),
+          ...(legacyIndex ? [{ remove_index: { index: alias } }] : []),
+          { add: { index: indexName, alias } },
+        ],
+      });
+      logger.info(`Pointed Elasticsearch alias ${alias} at ${indexName}`);
+
+      return previous;
+    } catch (error) {
+      logger.error(`Failed to point Elasticsearch alias ${alias} at ${indexName}:`, error);
+      throw error;
+    }
+  }
+
   public async indexDocument(indexName: string, id: string, document: any): Promise<void> {
     try {
       await this.client.index({
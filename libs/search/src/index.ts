@@ -1,3 +1,4 @@
 export * from './elasticsearch';
+export * from './backends';
 export * from './property-search';
-export * from './types';
\ No newline at end of file
+export * from './types';
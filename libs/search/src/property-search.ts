@@ -1,29 +1,101 @@
-import { prisma } from '@eu-real-estate/database';
+import { prisma, Prisma, BASE_CURRENCY } from '@eu-real-estate/database';
 import { PropertyType, ListingType, PropertyStatus } from '@eu-real-estate/database';
 import { elasticsearchClient } from './elasticsearch';
 import { logger } from './utils/logger';
+import { SearchBackend, createSearchBackend } from './backends';
 import {
   PropertySearchQuery,
   PropertySearchResult,
-  PropertySearchHit,
+  PropertyMapQuery,
+  PropertyMapResult,
+  SearchSuggestQuery,
+  SearchSuggestions,
   PropertyIndexDocument,
-  PROPERTY_INDEX_MAPPINGS,
   PropertyAnalytics,
   MarketTrends,
-  PropertyRecommendation,
 } from './types';
 
 export class PropertySearchService {
   private static readonly INDEX_NAME = 'properties';
+  private static backend: SearchBackend | null = null;
+
+  // Listings in these states are searchable; anything else is kept out of the index
+  private static readonly INDEXED_STATUSES: string[] = [PropertyStatus.ACTIVE, PropertyStatus.PENDING];
+
+  private static readonly PROPERTY_INCLUDE = {
+    address: true,
+    location: true,
+    features: true,
+    amenities: true,
+    tags: {
+      include: { tag: true },
+    },
+    images: {
+      orderBy: { order: 'asc' as const },
+    },
+    owner: {
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        profile: {
+          select: {
+            company: true,
+          },
+        },
+      },
+    },
+    duplicates: {
+      select: {
+        id: true,
+        owner: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            profile: {
+              select: {
+                company: true,
+              },
+            },
+          },
+        },
+      },
+    },
+  };
 
   /**
-   * Initialize Elasticsearch index for properties
+   * Backend that stores and queries the index, chosen by SEARCH_BACKEND.
+   * Analytics, trends and recommendations still query Elasticsearch directly.
+   */
+  public static getBackend(): SearchBackend {
+    if (!this.backend) {
+      this.backend = createSearchBackend();
+    }
+    return this.backend;
+  }
+
+  /**
+   * Replace the configured backend, e.g. with an embedded one in tests
+   */
+  public static setBackend(backend: SearchBackend): void {
+    this.backend = backend;
+  }
+
+  /**
+   * Initialize the property search index
    */
   public static async initialize(): Promise<void> {
     try {
-      await elasticsearchClient.connect();
-      await elasticsearchClient.createIndex(this.INDEX_NAME, PROPERTY_INDEX_MAPPINGS);
-      logger.info('Property search index initialized');
+      const backend = this.getBackend();
+      await backend.initialize();
+
+      // In-process indexes start empty, so fill them from the database
+      if (!backend.persistent) {
+        await this.reindexAll();
+      }
+
+      logger.info(`Property search index initialized (${backend.type})`);
     } catch (error) {
       logger.error('Failed to initialize property search index:', error);
       throw error;
@@ -31,33 +103,13 @@ export class PropertySearchService {
   }
 
   /**
-   * Index a property in Elasticsearch
+   * Index a property
    */
   public static async indexProperty(propertyId: string): Promise<void> {
     try {
       const property = await prisma.property.findUnique({
         where: { id: propertyId },
-        include: {
-          address: true,
-          location: true,
-          features: true,
-          amenities: true,
-          images: {
-            orderBy: { order: 'asc' },
-          },
-          owner: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              profile: {
-                select: {
-                  company: true,
-                },
-              },
-            },
-          },
-        },
+        include: this.PROPERTY_INCLUDE,
       });
 
       if (!property) {
@@ -65,59 +117,7 @@ export class PropertySearchService {
         return;
       }
 
-      const document: PropertyIndexDocument = {
-        id: property.id,
-        title: property.title,
-        description: property.description,
-        price: parseFloat(property.price.toString()),
-        currency: property.currency,
-        propertyType: property.propertyType,
-        listingType: property.listingType,
-        status: property.status,
-        bedrooms: property.features?.bedrooms || undefined,
-        bathrooms: property.features?.bathrooms || undefined,
-        floorArea: property.features?.floorArea ? parseFloat(property.features.floorArea.toString()) : undefined,
-        address: {
-          street: property.address?.street || '',
-          city: property.address?.city || '',
-          postcode: property.address?.postcode || '',
-          county: property.address?.county || undefined,
-          country: property.address?.country || '',
-        },
-        location: property.location ? {
-          lat: parseFloat(property.location.latitude.toString()),
-          lon: parseFloat(property.location.longitude.toString()),
-        } : undefined,
-        features: {
-          garden: property.features?.garden || false,
-          parking: property.features?.parking || false,
-          garage: property.features?.garage || false,
-          balcony: property.features?.balcony || false,
-          terrace: property.features?.terrace || false,
-          elevator: property.features?.elevator || false,
-          airConditioning: property.features?.airConditioning || false,
-          furnished: property.features?.furnished || false,
-          petFriendly: property.features?.petFriendly || false,
-          buildYear: property.features?.buildYear || null,
-          energyRating: property.features?.energyRating || null,
-        },
-        amenities: property.amenities.map(a => a.name),
-        images: property.images.map(img => ({
-          url: img.url,
-          isMain: img.isMain,
-        })),
-        owner: {
-          id: property.owner.id,
-          name: `${property.owner.firstName} ${property.owner.lastName}`,
-          company: property.owner.profile?.company,
-        },
-        viewCount: property.viewCount,
-        createdAt: property.createdAt.toISOString(),
-        updatedAt: property.updatedAt.toISOString(),
-        publishedAt: property.publishedAt?.toISOString(),
-      };
-
-      await elasticsearchClient.indexDocument(this.INDEX_NAME, propertyId, document);
+      await this.getBackend().indexDocuments([this.toIndexDocument(property)]);
       logger.info(`Indexed property: ${propertyId}`);
     } catch (error) {
       logger.error(`Failed to index property ${propertyId}:`, error);
@@ -126,18 +126,42 @@ export class PropertySearchService {
   }
 
   /**
-   * Update a property in Elasticsearch
+   * Bring a property's document in line with the database: index it while it
+   * is listed and remove it once it is deleted or unlisted
+   */
+  public static async syncProperty(propertyId: string): Promise<void> {
+    try {
+      const property = await prisma.property.findUnique({
+        where: { id: propertyId },
+        include: this.PROPERTY_INCLUDE,
+      });
+
+      // Confirmed duplicates are searchable through their original listing only
+      if (!property || !property.isActive || !this.INDEXED_STATUSES.includes(property.status) || property.duplicateOfId) {
+        await this.getBackend().deleteDocument(propertyId);
+        return;
+      }
+
+      await this.getBackend().indexDocuments([this.toIndexDocument(property)]);
+    } catch (error) {
+      logger.error(`Failed to sync property ${propertyId} with the index:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a property in the index
    */
   public static async updateProperty(propertyId: string): Promise<void> {
     await this.indexProperty(propertyId);
   }
 
   /**
-   * Delete a property from Elasticsearch
+   * Delete a property from the index
    */
   public static async deleteProperty(propertyId: string): Promise<void> {
     try {
-      await elasticsearchClient.deleteDocument(this.INDEX_NAME, propertyId);
+      await this.getBackend().deleteDocument(propertyId);
       logger.info(`Deleted property from index: ${propertyId}`);
     } catch (error) {
       logger.error(`Failed to delete property ${propertyId} from index:`, error);
@@ -146,113 +170,42 @@ export class PropertySearchService {
   }
 
   /**
-   * Reindex all properties
+   * Rebuild the index from the database. Documents go into a new index that
+   * replaces the live one in a single step once it is complete, so searches
+   * keep working throughout. Returns the name of the new index.
    */
-  public static async reindexAll(): Promise<void> {
-    try {
-      // Delete and recreate index
-      await elasticsearchClient.deleteIndex(this.INDEX_NAME);
-      await elasticsearchClient.createIndex(this.INDEX_NAME, PROPERTY_INDEX_MAPPINGS);
+  public static async reindexAll(): Promise<string> {
+    const build = await this.getBackend().beginRebuild();
 
+    try {
       // Get all active properties
       const properties = await prisma.property.findMany({
         where: {
           isActive: true,
           status: {
-            in: [PropertyStatus.ACTIVE, PropertyStatus.PENDING],
-          },
-        },
-        include: {
-          address: true,
-          location: true,
-          features: true,
-          amenities: true,
-          images: {
-            orderBy: { order: 'asc' },
-          },
-          owner: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              profile: {
-                select: {
-                  company: true,
-                },
-              },
-            },
+            in: this.INDEXED_STATUSES,
           },
+          duplicateOfId: null,
         },
+        include: this.PROPERTY_INCLUDE,
       });
 
-      // Prepare documents for bulk indexing
-      const documents = properties.map(property => {
-        const document: PropertyIndexDocument = {
-          id: property.id,
-          title: property.title,
-          description: property.description,
-          price: parseFloat(property.price.toString()),
-          currency: property.currency,
-          propertyType: property.propertyType,
-          listingType: property.listingType,
-          status: property.status,
-          bedrooms: property.features?.bedrooms || undefined,
-          bathrooms: property.features?.bathrooms || undefined,
-          floorArea: property.features?.floorArea ? parseFloat(property.features.floorArea.toString()) : undefined,
-          address: {
-            street: property.address?.street || '',
-            city: property.address?.city || '',
-            postcode: property.address?.postcode || '',
-            county: property.address?.county || undefined,
-            country: property.address?.country || '',
-          },
-          location: property.location ? {
-            lat: parseFloat(property.location.latitude.toString()),
-            lon: parseFloat(property.location.longitude.toString()),
-          } : undefined,
-          features: {
-            garden: property.features?.garden || false,
-            parking: property.features?.parking || false,
-            garage: property.features?.garage || false,
-            balcony: property.features?.balcony || false,
-            terrace: property.features?.terrace || false,
-            elevator: property.features?.elevator || false,
-            airConditioning: property.features?.airConditioning || false,
-            furnished: property.features?.furnished || false,
-            petFriendly: property.features?.petFriendly || false,
-            buildYear: property.features?.buildYear || null,
-            energyRating: property.features?.energyRating || null,
-          },
-          amenities: property.amenities.map(a => a.name),
-          images: property.images.map(img => ({
-            url: img.url,
-            isMain: img.isMain,
-          })),
-          owner: {
-            id: property.owner.id,
-            name: `${property.owner.firstName} ${property.owner.lastName}`,
-            company: property.owner.profile?.company,
-          },
-          viewCount: property.viewCount,
-          createdAt: property.createdAt.toISOString(),
-          updatedAt: property.updatedAt.toISOString(),
-          publishedAt: property.publishedAt?.toISOString(),
-        };
+      const documents = properties.map(property => this.toIndexDocument(property));
 
-        return { id: property.id, document };
-      });
-
-      // Bulk index in batches of 100
+      // Index in batches of 100
       const batchSize = 100;
       for (let i = 0; i < documents.length; i += batchSize) {
-        const batch = documents.slice(i, i + batchSize);
-        await elasticsearchClient.bulkIndex(this.INDEX_NAME, batch);
+        await build.indexDocuments(documents.slice(i, i + batchSize));
         logger.info(`Indexed batch ${i / batchSize + 1} of ${Math.ceil(documents.length / batchSize)}`);
       }
 
-      logger.info(`Reindexed ${documents.length} properties`);
+      await build.commit();
+      logger.info(`Reindexed ${documents.length} properties into ${build.indexName}`);
+
+      return build.indexName;
     } catch (error) {
       logger.error('Failed to reindex properties:', error);
+      await build.abort().catch(abortError => logger.error(`Failed to remove index ${build.indexName}:`, abortError));
       throw error;
     }
   }
@@ -262,259 +215,33 @@ export class PropertySearchService {
    */
   public static async searchProperties(query: PropertySearchQuery): Promise<PropertySearchResult> {
     try {
-      const page = query.page || 1;
-      const limit = query.limit || 10;
-      const from = (page - 1) * limit;
-
-      // Build Elasticsearch query
-      const esQuery: any = {
-        from,
-        size: limit,
-        query: {
-          bool: {
-            must: [
-              { term: { status: 'ACTIVE' } },
-            ],
-            filter: [],
-          },
-        },
-        sort: [],
-        aggs: {
-          propertyTypes: {
-            terms: { field: 'propertyType' },
-          },
-          listingTypes: {
-            terms: { field: 'listingType' },
-          },
-          priceRanges: {
-            range: {
-              field: 'price',
-              ranges: [
-                { to: 100000 },
-                { from: 100000, to: 200000 },
-                { from: 200000, to: 500000 },
-                { from: 500000, to: 1000000 },
-                { from: 1000000 },
-              ],
-            },
-          },
-          cities: {
-            terms: { field: 'address.city.keyword', size: 20 },
-          },
-          countries: {
-            terms: { field: 'address.country', size: 20 },
-          },
-          features: {
-            nested: {
-              path: 'features',
-            },
-            aggs: {
-              garden: {
-                filter: { term: { 'features.garden': true } },
-              },
-              parking: {
-                filter: { term: { 'features.parking': true } },
-              },
-              furnished: {
-                filter: { term: { 'features.furnished': true } },
-              },
-              petFriendly: {
-                filter: { term: { 'features.petFriendly': true } },
-              },
-            },
-          },
-          amenities: {
-            terms: { field: 'amenities', size: 20 },
-          },
-        },
-      };
-
-      // Add text search if provided
-      if (query.query) {
-        esQuery.query.bool.must.push({
-          multi_match: {
-            query: query.query,
-            fields: ['title^3', 'description^2', 'address.street', 'address.city^2', 'address.country'],
-            fuzziness: 'AUTO',
-          },
-        });
-      }
-
-      // Add property type filter
-      if (query.propertyType && query.propertyType.length > 0) {
-        esQuery.query.bool.filter.push({
-          terms: { propertyType: query.propertyType },
-        });
-      }
-
-      // Add listing type filter
-      if (query.listingType) {
-        esQuery.query.bool.filter.push({
-          term: { listingType: query.listingType },
-        });
-      }
-
-      // Add price range filter
-      if (query.priceMin || query.priceMax) {
-        const priceRange: any = {};
-        if (query.priceMin) priceRange.gte = query.priceMin;
-        if (query.priceMax) priceRange.lte = query.priceMax;
-        
-        esQuery.query.bool.filter.push({
-          range: { price: priceRange },
-        });
-      }
-
-      // Add bedroom filter
-      if (query.bedroomsMin || query.bedroomsMax) {
-        const bedroomsRange: any = {};
-        if (query.bedroomsMin) bedroomsRange.gte = query.bedroomsMin;
-        if (query.bedroomsMax) bedroomsRange.lte = query.bedroomsMax;
-        
-        esQuery.query.bool.filter.push({
-          range: { bedrooms: bedroomsRange },
-        });
-      }
-
-      // Add bathroom filter
-      if (query.bathroomsMin || query.bathroomsMax) {
-        const bathroomsRange: any = {};
-        if (query.bathroomsMin) bathroomsRange.gte = query.bathroomsMin;
-        if (query.bathroomsMax) bathroomsRange.lte = query.bathroomsMax;
-        
-        esQuery.query.bool.filter.push({
-          range: { bathrooms: bathroomsRange },
-        });
-      }
-
-      // Add floor area filter
-      if (query.floorAreaMin || query.floorAreaMax) {
-        const floorAreaRange: any = {};
-        if (query.floorAreaMin) floorAreaRange.gte = query.floorAreaMin;
-        if (query.floorAreaMax) floorAreaRange.lte = query.floorAreaMax;
-        
-        esQuery.query.bool.filter.push({
-          range: { floorArea: floorAreaRange },
-        });
-      }
-
-      // Add location filter
-      if (query.country) {
-        esQuery.query.bool.filter.push({
-          term: { 'address.country': query.country },
-        });
-      }
-
-      if (query.city) {
-        esQuery.query.bool.filter.push({
-          match: { 'address.city': query.city },
-        });
-      }
-
-      // Add geo distance filter if location provided
-      if (query.location && query.radius) {
-        esQuery.query.bool.filter.push({
-          geo_distance: {
-            distance: `${query.radius}km`,
-            location: {
-              lat: query.location.lat,
-              lon: query.location.lon,
-            },
-          },
-        });
-      }
-
-      // Add feature filters
-      if (query.features) {
-        Object.entries(query.features).forEach(([feature, value]) => {
-          if (value !== undefined) {
-            esQuery.query.bool.filter.push({
-              term: { [`features.${feature}`]: value },
-            });
-          }
-        });
-      }
-
-      // Add amenities filter
-      if (query.amenities && query.amenities.length > 0) {
-        esQuery.query.bool.filter.push({
-          terms: { amenities: query.amenities },
-        });
-      }
-
-      // Add sorting
-      if (query.sortBy) {
-        const sortOrder = query.sortOrder || 'desc';
-        
-        if (query.sortBy === '_score') {
-          esQuery.sort.push({ _score: sortOrder });
-        } else {
-          esQuery.sort.push({ [query.sortBy]: sortOrder });
-        }
-      } else {
-        // Default sort by date
-        esQuery.sort.push({ updatedAt: 'desc' });
-      }
-
-      // Execute search
-      const response = await elasticsearchClient.search(this.INDEX_NAME, esQuery);
-      
-      // Parse results
-      const total = response.hits.total.value;
-      const totalPages = Math.ceil(total / limit);
-      
-      const properties: PropertySearchHit[] = response.hits.hits.map((hit: any) => {
-        const source = hit._source;
-        
-        return {
-          id: source.id,
-          title: source.title,
-          description: source.description,
-          price: source.price,
-          currency: source.currency,
-          propertyType: source.propertyType as PropertyType,
-          listingType: source.listingType as ListingType,
-          bedrooms: source.bedrooms,
-          bathrooms: source.bathrooms,
-          floorArea: source.floorArea,
-          address: source.address,
-          location: source.location,
-          features: source.features,
-          amenities: source.amenities,
-          images: source.images,
-          owner: source.owner,
-          createdAt: source.createdAt,
-          updatedAt: source.updatedAt,
-          score: hit._score,
-        };
-      });
+      return await this.getBackend().search(query);
+    } catch (error) {
+      logger.error('Property search failed:', error);
+      throw error;
+    }
+  }
 
-      // Parse aggregations
-      const aggregations = response.aggregations ? {
-        propertyTypes: this.parseTermsAggregation(response.aggregations.propertyTypes),
-        listingTypes: this.parseTermsAggregation(response.aggregations.listingTypes),
-        priceRanges: response.aggregations.priceRanges.buckets,
-        cities: response.aggregations.cities.buckets,
-        countries: response.aggregations.countries.buckets,
-        features: {
-          garden: response.aggregations.features.garden.doc_count,
-          parking: response.aggregations.features.parking.doc_count,
-          furnished: response.aggregations.features.furnished.doc_count,
-          petFriendly: response.aggregations.features.petFriendly.doc_count,
-        },
-        amenities: response.aggregations.amenities.buckets,
-      } : undefined;
+  /**
+   * Get the listings inside a map viewport as clusters or pins
+   */
+  public static async searchMap(query: PropertyMapQuery): Promise<PropertyMapResult> {
+    try {
+      return await this.getBackend().searchMap(query);
+    } catch (error) {
+      logger.error('Property map search failed:', error);
+      throw error;
+    }
+  }
 
-      return {
-        properties,
-        total,
-        page,
-        limit,
-        totalPages,
-        aggregations,
-      };
+  /**
+   * Suggest cities, postcodes, streets, tags and titles for the search box
+   */
+  public static async suggest(query: SearchSuggestQuery): Promise<SearchSuggestions> {
+    try {
+      return await this.getBackend().suggest(query);
     } catch (error) {
-      logger.error('Property search failed:', error);
+      logger.error('Search suggestions failed:', error);
       throw error;
     }
   }
@@ -776,262 +503,70 @@ export class PropertySearchService {
   }
 
   /**
-   * Get property recommendations for a user
-   */
-  public static async getPropertyRecommendations(
-    userId: string,
-    limit: number = 10
-  ): Promise<PropertyRecommendation[]> {
-    try {
-      // Get user preferences and search history
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        include: {
-          preferences: true,
-          favorites: {
-            include: {
-              property: {
-                include: {
-                  address: true,
-                  features: true,
-                },
-              },
-            },
-          },
-          searches: {
-            orderBy: { updatedAt: 'desc' },
-            take: 5,
-          },
-        },
-      });
-
-      if (!user) {
-        throw new Error(`User not found: ${userId}`);
-      }
-
-      // Extract user preferences
-      const preferences = user.preferences;
-      const favoriteProperties = user.favorites.map(f => f.property);
-      const recentSearches = user.searches;
-
-      // Build recommendation query based on user behavior
-      const esQuery: any = {
-        size: limit,
-        query: {
-          bool: {
-            must: [
-              { term: { status: 'ACTIVE' } },
-            ],
-            should: [],
-            must_not: [
-              // Exclude properties the user already favorited
-              {
-                terms: {
-                  id: favoriteProperties.map(p => p.id),
-                },
-              },
-            ],
-            filter: [],
-          },
-        },
-      };
-
-      // Add preference-based filters
-      if (preferences) {
-        // Add preferred property types
-        if (preferences.preferredPropertyTypes && preferences.preferredPropertyTypes.length > 0) {
-          esQuery.query.bool.should.push({
-            terms: {
-              propertyType: preferences.preferredPropertyTypes,
-              boost: 2.0,
-            },
-          });
-        }
-
-        // Add price range
-        if (preferences.priceRangeMin || preferences.priceRangeMax) {
-          const priceRange: any = {};
-          if (preferences.priceRangeMin) priceRange.gte = preferences.priceRangeMin;
-          if (preferences.priceRangeMax) priceRange.lte = preferences.priceRangeMax;
-          
-          esQuery.query.bool.filter.push({
-            range: { price: priceRange },
-          });
-        }
-      }
-
-      // Add favorite-based recommendations
-      if (favoriteProperties.length > 0) {
-        // Extract common features from favorites
-        const favoriteFeatures = this.extractCommonFeatures(favoriteProperties);
-        
-        // Add feature-based boosts
-        Object.entries(favoriteFeatures).forEach(([feature, value]) => {
-          if (typeof value === 'boolean') {
-            esQuery.query.bool.should.push({
-              term: {
-                [`features.${feature}`]: {
-                  value,
-                  boost: 1.5,
-                },
-              },
-            });
-          }
-        });
-
-        // Add location-based boosts
-        const favoriteLocations = favoriteProperties
-          .filter(p => p.address)
-          .map(p => p.address!.city)
-          .filter((city, index, self) => self.indexOf(city) === index);
-        
-        if (favoriteLocations.length > 0) {
-          esQuery.query.bool.should.push({
-            terms: {
-              'address.city.keyword': favoriteLocations,
-              boost: 2.0,
-            },
-          });
-        }
-      }
-
-      // Add search-based recommendations
-      if (recentSearches.length > 0) {
-        // Extract search criteria
-        const searchCriteria = recentSearches.map(s => s.criteria as any);
-        
-        // Add property type boosts from searches
-        const searchPropertyTypes = searchCriteria
-          .filter(c => c.propertyType && c.propertyType.length > 0)
-          .flatMap(c => c.propertyType)
-          .filter((type, index, self) => self.indexOf(type) === index);
-        
-        if (searchPropertyTypes.length > 0) {
-          esQuery.query.bool.should.push({
-            terms: {
-              propertyType: searchPropertyTypes,
-              boost: 1.8,
-            },
-          });
-        }
-
-        // Add listing type boosts from searches
-        const searchListingTypes = searchCriteria
-          .filter(c => c.listingType)
-          .map(c => c.listingType)
-          .filter((type, index, self) => self.indexOf(type) === index);
-        
-        if (searchListingTypes.length > 0) {
-          esQuery.query.bool.should.push({
-            terms: {
-              listingType: searchListingTypes,
-              boost: 1.8,
-            },
-          });
-        }
-
-        // Add location boosts from searches
-        const searchCities = searchCriteria
-          .filter(c => c.city)
-          .map(c => c.city)
-          .filter((city, index, self) => self.indexOf(city) === index);
-        
-        if (searchCities.length > 0) {
-          esQuery.query.bool.should.push({
-            terms: {
-              'address.city.keyword': searchCities,
-              boost: 2.0,
-            },
-          });
-        }
-      }
-
-      // Execute search
-      const response = await elasticsearchClient.search(this.INDEX_NAME, esQuery);
-      
-      // Parse results
-      return response.hits.hits.map((hit: any) => {
-        const source = hit._source;
-        const mainImage = source.images.find((img: any) => img.isMain) || source.images[0];
-        
-        // Determine match reason
-        let matchReason = 'Based on your preferences';
-        
-        if (hit._explanation) {
-          const explanation = hit._explanation;
-          
-          if (explanation.details.some((d: any) => d.description.includes('city'))) {
-            matchReason = `Popular in ${source.address.city}`;
-          } else if (explanation.details.some((d: any) => d.description.includes('propertyType'))) {
-            matchReason = `Similar ${source.propertyType.toLowerCase()} properties`;
-          } else if (explanation.details.some((d: any) => d.description.includes('features'))) {
-            matchReason = 'Matches your preferred features';
-          }
-        }
-        
-        return {
-          id: source.id,
-          title: source.title,
-          price: source.price,
-          currency: source.currency,
-          propertyType: source.propertyType as PropertyType,
-          listingType: source.listingType as ListingType,
-          image: mainImage?.url,
-          address: {
-            city: source.address.city,
-            country: source.address.country,
-          },
-          score: hit._score,
-          matchReason,
-        };
-      });
-    } catch (error) {
-      logger.error('Failed to get property recommendations:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Extract common features from a list of properties
-   */
-  private static extractCommonFeatures(properties: any[]): Record<string, boolean> {
-    const features: Record<string, number> = {};
-    const featureCount = properties.length;
-    
-    // Count feature occurrences
-    properties.forEach(property => {
-      if (property.features) {
-        Object.entries(property.features).forEach(([key, value]) => {
-          if (typeof value === 'boolean' && value === true) {
-            features[key] = (features[key] || 0) + 1;
-          }
-        });
-      }
-    });
-    
-    // Keep features that appear in at least 50% of properties
-    const commonFeatures: Record<string, boolean> = {};
-    Object.entries(features).forEach(([key, count]) => {
-      if (count / featureCount >= 0.5) {
-        commonFeatures[key] = true;
-      }
-    });
-    
-    return commonFeatures;
-  }
-
-  /**
-   * Parse terms aggregation
+   * Build the index document for a property loaded with PROPERTY_INCLUDE
    */
-  private static parseTermsAggregation(agg: any): Record<string, number> {
-    const result: Record<string, number> = {};
-    
-    if (agg && agg.buckets) {
-      agg.buckets.forEach((bucket: any) => {
-        result[bucket.key] = bucket.doc_count;
-      });
-    }
-    
-    return result;
+  private static toIndexDocument(
+    property: Prisma.PropertyGetPayload<{ include: typeof PropertySearchService.PROPERTY_INCLUDE }>
+  ): PropertyIndexDocument {
+    return {
+      id: property.id,
+      title: property.title,
+      description: property.description,
+      price: parseFloat(property.price.toString()),
+      currency: property.currency,
+      // Euro listings stored without a converted price use their own
+      priceEur: property.priceEur ?? (property.currency === BASE_CURRENCY ? parseFloat(property.price.toString()) : undefined),
+      propertyType: property.propertyType,
+      listingType: property.listingType,
+      status: property.status,
+      bedrooms: property.features?.bedrooms || undefined,
+      bathrooms: property.features?.bathrooms || undefined,
+      floorArea: property.features?.floorArea ? parseFloat(property.features.floorArea.toString()) : undefined,
+      address: {
+        street: property.address?.street || '',
+        city: property.address?.city || '',
+        postcode: property.address?.postcode || '',
+        county: property.address?.county || undefined,
+        country: property.address?.country || '',
+      },
+      location: property.location ? {
+        lat: parseFloat(property.location.latitude.toString()),
+        lon: parseFloat(property.location.longitude.toString()),
+      } : undefined,
+      features: {
+        garden: property.features?.garden || false,
+        parking: property.features?.parking || false,
+        garage: property.features?.garage || false,
+        balcony: property.features?.balcony || false,
+        terrace: property.features?.terrace || false,
+        elevator: property.features?.elevator || false,
+        airConditioning: property.features?.airConditioning || false,
+        furnished: property.features?.furnished || false,
+        petFriendly: property.features?.petFriendly || false,
+        buildYear: property.features?.buildYear || null,
+        energyRating: property.features?.energyRating || null,
+      },
+      amenities: property.amenities.map(a => a.name),
+      tags: property.tags.map(pt => pt.tag.name),
+      images: property.images.map(img => ({
+        url: img.url,
+        isMain: img.isMain,
+      })),
+      owner: {
+        id: property.owner.id,
+        name: `${property.owner.firstName} ${property.owner.lastName}`,
+        company: property.owner.profile?.company || undefined,
+      },
+      agents: [property, ...property.duplicates].map(listing => ({
+        propertyId: listing.id,
+        id: listing.owner.id,
+        name: `${listing.owner.firstName} ${listing.owner.lastName}`,
+        company: listing.owner.profile?.company || undefined,
+      })),
+      viewCount: property.viewCount,
+      createdAt: property.createdAt.toISOString(),
+      updatedAt: property.updatedAt.toISOString(),
+      publishedAt: property.publishedAt?.toISOString(),
+    };
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import { PropertyType, ListingType } from '@eu-real-estate/database';
+import { PropertyType, ListingType, GeoShape, GeoBounds } from '@eu-real-estate/database';
 
 // Search query types
 export interface PropertySearchQuery {
@@ -20,6 +20,8 @@ export interface PropertySearchQuery {
     lat: number;
     lon: number;
   };
+  // Only listings inside this GeoJSON Polygon or MultiPolygon
+  polygon?: GeoShape;
   features?: {
     garden?: boolean;
     parking?: boolean;
@@ -31,12 +33,18 @@ export interface PropertySearchQuery {
     airConditioning?: boolean;
   };
   amenities?: string[];
-  sortBy?: 'price' | 'createdAt' | 'viewCount' | '_score';
+  sortBy?: 'price' | 'createdAt' | 'viewCount' | 'title' | '_score';
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
 
+// Saved search criteria reuse the search filters; paging and sorting are
+// per request, and tags are matched against the property's assigned tag names
+export type SavedSearchCriteria = Omit<PropertySearchQuery, 'sortBy' | 'sortOrder' | 'page' | 'limit'> & {
+  tags?: string[];
+};
+
 // Search result types
 export interface PropertySearchResult {
   properties: PropertySearchHit[];
@@ -70,6 +78,7 @@ export interface PropertySearchHit {
   };
   features: Record<string, boolean | string | number | null>;
   amenities: string[];
+  tags?: string[];
   images: Array<{
     url: string;
     isMain: boolean;
@@ -79,11 +88,20 @@ export interface PropertySearchHit {
     name: string;
     company?: string;
   };
+  agents?: PropertyListingAgent[];
   createdAt: string;
   updatedAt: string;
   score?: number;
 }
 
+// An agent listing a home; confirmed duplicate listings add theirs to the original
+export interface PropertyListingAgent {
+  propertyId: string;
+  id: string;
+  name: string;
+  company?: string;
+}
+
 export interface PropertySearchAggregations {
   propertyTypes?: {
     [key in PropertyType]?: number;
@@ -113,6 +131,85 @@ export interface PropertySearchAggregations {
   }>;
 }
 
+// Map viewport types
+export interface PropertyMapQuery extends Omit<PropertySearchQuery, 'sortBy' | 'sortOrder' | 'page' | 'limit'> {
+  bounds: GeoBounds;
+  zoom: number;
+}
+
+export interface PropertyMapCluster {
+  geohash: string;
+  count: number;
+  // Mean position of the listings, where the cluster marker is drawn
+  location: {
+    lat: number;
+    lon: number;
+  };
+  bounds: GeoBounds;
+  priceMin: number;
+  priceMax: number;
+}
+
+export interface PropertyMapPin {
+  id: string;
+  title: string;
+  price: number;
+  currency: string;
+  priceEur?: number;
+  propertyType: PropertyType;
+  listingType: ListingType;
+  bedrooms?: number;
+  city: string;
+  image?: string;
+  location: {
+    lat: number;
+    lon: number;
+  };
+}
+
+export interface PropertyMapResult {
+  zoom: number;
+  // Geohash length the clusters are grouped by; null when pins are returned
+  precision: number | null;
+  total: number;
+  clusters: PropertyMapCluster[];
+  pins: PropertyMapPin[];
+}
+
+// Autocomplete types
+export type SearchSuggestionType = 'city' | 'postcode' | 'street' | 'tag' | 'title';
+
+export interface SearchSuggestQuery {
+  // Text typed so far; its last word may be incomplete
+  text: string;
+  country?: string;
+  // Most suggestions returned per group
+  limit?: number;
+}
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  value: string;
+  // Active listings the suggestion leads to
+  count: number;
+  country?: string;
+  city?: string;
+  // Set on title suggestions, which point at a single listing
+  propertyId?: string;
+}
+
+export interface SearchSuggestions {
+  text: string;
+  country?: string;
+  groups: {
+    cities: SearchSuggestion[];
+    postcodes: SearchSuggestion[];
+    streets: SearchSuggestion[];
+    tags: SearchSuggestion[];
+    titles: SearchSuggestion[];
+  };
+}
+
 // Analytics types
 export interface PropertyAnalytics {
   averagePrice: number;
@@ -147,22 +244,6 @@ export interface MarketTrends {
   changePercentage: number;
 }
 
-export interface PropertyRecommendation {
-  id: string;
-  title: string;
-  price: number;
-  currency: string;
-  propertyType: PropertyType;
-  listingType: ListingType;
-  image?: string;
-  address: {
-    city: string;
-    country: string;
-  };
-  score: number;
-  matchReason: string;
-}
-
 // Indexing types
 export interface PropertyIndexDocument {
   id: string;
@@ -170,6 +251,8 @@ export interface PropertyIndexDocument {
   description: string;
   price: number;
   currency: string;
+  // Price filters, sorts and aggregations use the euro price
+  priceEur?: number;
   propertyType: string;
   listingType: string;
   status: string;
@@ -189,6 +272,7 @@ export interface PropertyIndexDocument {
   };
   features: Record<string, boolean | string | number | null>;
   amenities: string[];
+  tags?: string[];
   images: Array<{
     url: string;
     isMain: boolean;
@@ -198,6 +282,7 @@ export interface PropertyIndexDocument {
     name: string;
     company?: string;
   };
+  agents?: PropertyListingAgent[];
   viewCount: number;
   createdAt: string;
   updatedAt: string;
@@ -212,7 +297,8 @@ export const PROPERTY_INDEX_MAPPINGS = {
       type: 'text',
       analyzer: 'custom_analyzer',
       fields: {
-        keyword: { type: 'keyword' }
+        keyword: { type: 'keyword' },
+        suggest: { type: 'text', analyzer: 'suggest_analyzer', search_analyzer: 'custom_analyzer' }
       }
     },
     description: { 
@@ -221,6 +307,7 @@ export const PROPERTY_INDEX_MAPPINGS = {
     },
     price: { type: 'double' },
     currency: { type: 'keyword' },
+    priceEur: { type: 'double' },
     propertyType: { type: 'keyword' },
     listingType: { type: 'keyword' },
     status: { type: 'keyword' },
@@ -229,15 +316,28 @@ export const PROPERTY_INDEX_MAPPINGS = {
     floorArea: { type: 'double' },
     address: {
       properties: {
-        street: { type: 'text', analyzer: 'custom_analyzer' },
+        street: {
+          type: 'text',
+          analyzer: 'custom_analyzer',
+          fields: {
+            keyword: { type: 'keyword' },
+            suggest: { type: 'text', analyzer: 'suggest_analyzer', search_analyzer: 'custom_analyzer' }
+          }
+        },
         city: { 
           type: 'text',
           analyzer: 'custom_analyzer',
           fields: {
-            keyword: { type: 'keyword' }
+            keyword: { type: 'keyword' },
+            suggest: { type: 'text', analyzer: 'suggest_analyzer', search_analyzer: 'custom_analyzer' }
+          }
+        },
+        postcode: {
+          type: 'keyword',
+          fields: {
+            suggest: { type: 'text', analyzer: 'suggest_analyzer', search_analyzer: 'custom_analyzer' }
           }
         },
-        postcode: { type: 'keyword' },
         county: { type: 'keyword' },
         country: { type: 'keyword' }
       }
@@ -259,6 +359,12 @@ export const PROPERTY_INDEX_MAPPINGS = {
       }
     },
     amenities: { type: 'keyword' },
+    tags: {
+      type: 'keyword',
+      fields: {
+        suggest: { type: 'text', analyzer: 'suggest_analyzer', search_analyzer: 'custom_analyzer' }
+      }
+    },
     images: {
       properties: {
         url: { type: 'keyword' },
@@ -272,6 +378,14 @@ export const PROPERTY_INDEX_MAPPINGS = {
         company: { type: 'text' }
       }
     },
+    agents: {
+      properties: {
+        propertyId: { type: 'keyword' },
+        id: { type: 'keyword' },
+        name: { type: 'text' },
+        company: { type: 'text' }
+      }
+    },
     viewCount: { type: 'integer' },
     createdAt: { type: 'date' },
     updatedAt: { type: 'date' },
@@ -21,7 +21,7 @@ export interface Property {
   title: string;
   description: string;
   propertyType: 'APARTMENT' | 'HOUSE' | 'COMMERCIAL' | 'LAND';
-  status: 'DRAFT' | 'ACTIVE' | 'SOLD' | 'RENTED' | 'INACTIVE';
+  status: 'DRAFT' | 'PENDING' | 'ACTIVE' | 'UNDER_OFFER' | 'RESERVED' | 'SOLD' | 'RENTED' | 'INACTIVE' | 'EXPIRED';
   price: number;
   currency: string;
   size: number;
@@ -187,7 +187,7 @@ export interface PropertyCreateRequest {
 export interface PropertyUpdateRequest {
   title?: string;
   description?: string;
-  status?: 'DRAFT' | 'ACTIVE' | 'SOLD' | 'RENTED' | 'INACTIVE';
+  status?: 'DRAFT' | 'PENDING' | 'ACTIVE' | 'UNDER_OFFER' | 'RESERVED' | 'SOLD' | 'RENTED' | 'INACTIVE' | 'EXPIRED';
   price?: number;
   size?: number;
   bedrooms?: number;
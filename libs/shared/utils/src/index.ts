@@ -1,17 +1,47 @@
 // Shared utilities for EU Real Estate Portal
 
 /**
- * Format currency value with proper locale and currency symbol
+ * Convert an amount between currencies using rates quoted per euro
+ * (e.g. { PLN: 4.3 }). Returns null when either currency has no rate.
+ */
+export const convertCurrency = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: Record<string, number>
+): number | null => {
+  if (from === to) return amount;
+
+  const fromRate = from === 'EUR' ? 1 : rates[from];
+  const toRate = to === 'EUR' ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+
+  return (amount / fromRate) * toRate;
+};
+
+/**
+ * Format currency value with proper locale and currency symbol.
+ * With a conversion, the amount is shown in the target currency followed by
+ * the original, e.g. "€42,110 (PLN 180,000)"; without a rate only the
+ * original is shown.
  */
 export const formatCurrency = (
   amount: number,
   currency: string = 'EUR',
-  locale: string = 'en-EU'
+  locale: string = 'en-EU',
+  conversion?: { to: string; rates: Record<string, number> }
 ): string => {
-  return new Intl.NumberFormat(locale, {
-    style: 'currency',
-    currency,
-  }).format(amount);
+  const format = (value: number, code: string) =>
+    new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: code,
+    }).format(value);
+
+  const original = format(amount, currency);
+  if (!conversion || conversion.to === currency) return original;
+
+  const converted = convertCurrency(amount, currency, conversion.to, conversion.rates);
+  return converted === null ? original : `${format(converted, conversion.to)} (${original})`;
 };
 
 /**